@@ -40,9 +40,13 @@ export default defineConfig({
           items: [
             { text: 'Creating a Connection', link: '/guide/connections/' },
             { text: 'Import from URL', link: '/guide/connections/import-url' },
+            { text: 'Import from Other Tools', link: '/guide/connections/import-tools' },
             { text: 'SSH Tunnels', link: '/guide/connections/ssh-tunnels' },
             { text: 'SSL / TLS', link: '/guide/connections/ssl-tls' },
+            { text: 'Session Settings', link: '/guide/connections/session-settings' },
             { text: 'Connection Folders', link: '/guide/connections/folders' },
+            { text: 'Sharing Connections', link: '/guide/connections/sharing' },
+            { text: 'Environment Guardrails', link: '/guide/connections/guardrails' },
             { text: 'Testing Connections', link: '/guide/connections/testing' },
             { text: 'Managing Databases', link: '/guide/connections/databases' },
           ],
@@ -54,6 +58,8 @@ export default defineConfig({
             { text: 'Writing Queries', link: '/guide/querying/' },
             { text: 'Executing Queries', link: '/guide/querying/executing' },
             { text: 'Query Results', link: '/guide/querying/results' },
+            { text: 'Row Limits & Timeouts', link: '/guide/querying/limits' },
+            { text: 'Background Queries', link: '/guide/querying/background-jobs' },
             { text: 'Formatting SQL', link: '/guide/querying/formatting' },
             { text: 'Saved Queries', link: '/guide/querying/saved-queries' },
             { text: 'Query History', link: '/guide/querying/history' },
@@ -91,6 +97,7 @@ export default defineConfig({
             { text: 'Importing Data', link: '/guide/import-export/importing' },
             { text: 'Supported Formats', link: '/guide/import-export/formats' },
             { text: 'Backup & Restore', link: '/guide/import-export/backup' },
+            { text: 'Transferring Data', link: '/guide/import-export/transfer' },
           ],
         },
         {
@@ -98,6 +105,8 @@ export default defineConfig({
           collapsed: true,
           items: [
             { text: 'ER Diagrams', link: '/guide/er-diagrams' },
+            { text: 'Schema Compare', link: '/guide/schema-compare' },
+            { text: 'Data Compare', link: '/guide/data-compare' },
             { text: 'Routines', link: '/guide/routines' },
             { text: 'Triggers', link: '/guide/triggers' },
             { text: 'Sequences', link: '/guide/sequences' },
@@ -3,6 +3,9 @@ import {
   type ConnectionConfig,
   type DatabaseType,
   type QueryResult,
+  type QueryLimits,
+  type ColumnInfo,
+  type CursorBatch,
   type Database,
   type Table,
   type Column,
@@ -10,10 +13,13 @@ import {
   type ForeignKey,
   type DataOptions,
   type DataResult,
+  type DataFilter,
+  type SortDirection,
   type Routine,
   type DatabaseUser,
   type Trigger
 } from '../types'
+import { isSingleReadStatement } from '../services/statementClassifier'
 
 import type {
   AddColumnRequest,
@@ -30,6 +36,9 @@ import type {
   InsertRowRequest,
   DeleteRowRequest,
   UpdateRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChange,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -40,6 +49,7 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '../types/schema-operations'
+import { RowChangeType } from '../types/schema-operations'
 
 export interface TestConnectionResult {
   success: boolean
@@ -51,6 +61,126 @@ export interface TestConnectionResult {
   sshError?: string | null
 }
 
+/**
+ * Tracks the timeout of a running query. Once expired, the query has been cancelled
+ * and the driver reports the timeout rather than the engine's cancellation error.
+ */
+export interface QueryTimer {
+  readonly expired: boolean
+  clear(): void
+}
+
+export const queryTimeoutError = (timeout: number): string => `Query timed out after ${timeout} ms`
+
+/**
+ * The rows of a running read, pulled in batches. A batch shorter than asked for means
+ * the result is exhausted.
+ */
+export interface RowSource {
+  columns: ColumnInfo[]
+  read(count: number): Promise<Record<string, unknown>[]>
+  close(): Promise<void>
+}
+
+/**
+ * Reads a row source one row ahead, so every batch knows whether more rows remain.
+ * The source is closed as soon as it is exhausted.
+ */
+export class QueryCursor {
+  private buffer: Record<string, unknown>[] = []
+  private exhausted = false
+  private closed = false
+
+  constructor(private readonly source: RowSource) {}
+
+  get columns(): ColumnInfo[] {
+    return this.source.columns
+  }
+
+  get isClosed(): boolean {
+    return this.closed
+  }
+
+  async read(count: number): Promise<CursorBatch> {
+    if (this.closed) {
+      return { rows: [], hasMore: false }
+    }
+
+    const wanted = count + 1 - this.buffer.length
+    if (wanted > 0 && !this.exhausted) {
+      const rows = await this.source.read(wanted)
+      this.buffer.push(...rows)
+      this.exhausted = rows.length < wanted
+    }
+
+    const rows = this.buffer.splice(0, count)
+    const hasMore = this.buffer.length > 0
+    if (!hasMore) {
+      await this.close()
+    }
+    return { rows, hasMore }
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.buffer = []
+    await this.source.close()
+  }
+}
+
+export interface CursorQueryResult {
+  result: QueryResult
+  // Left open only when rows remain past the first batch
+  cursor: QueryCursor | null
+}
+
+/**
+ * The rows `openTableCursor` reads: those matching the filters, in `orderBy` order and then
+ * in key order, so rows that tie on `orderBy` still come back in one order.
+ */
+export interface TableReadOptions {
+  filters?: DataFilter[]
+  orderBy?: string
+  orderDirection?: SortDirection
+  keyColumns?: string[]
+  // Text columns to order by their bytes rather than their collation, so that every
+  // engine returns them in the same order
+  binaryOrderColumns?: string[]
+}
+
+/**
+ * Identifier quoting and placeholder style used when building changeset statements.
+ */
+export interface RowChangeDialect {
+  quote(identifier: string): string
+  placeholder?(index: number): string
+  emptyInsert?: string
+}
+
+/**
+ * DDL builders shared by the schema editing operations and schema compare scripts.
+ * Builders throw when the engine cannot express the change as a statement.
+ */
+export interface SchemaScriptBuilder {
+  buildAddColumnSQL(request: AddColumnRequest): string
+  buildModifyColumnSQL(request: ModifyColumnRequest): string[]
+  buildDropColumnSQL(request: DropColumnRequest): string
+  buildCreateIndexSQL(request: CreateIndexRequest): string
+  buildDropIndexSQL(request: DropIndexRequest): string
+  buildAddForeignKeySQL(request: AddForeignKeyRequest): string
+  buildDropForeignKeySQL(request: DropForeignKeyRequest): string
+  buildCreateTableSQL(request: CreateTableRequest): string
+  buildDropTableSQL(request: DropTableRequest): string
+  buildDropViewSQL(request: DropViewRequest): string
+  buildDropTriggerSQL(request: DropTriggerRequest): string
+}
+
+export const isSchemaScriptBuilder = (
+  driver: DatabaseDriver
+): driver is DatabaseDriver & SchemaScriptBuilder =>
+  typeof (driver as Partial<SchemaScriptBuilder>).buildAddColumnSQL === 'function'
+
 export interface DatabaseDriver {
   readonly type: DatabaseType
   readonly isConnected: boolean
@@ -59,7 +189,12 @@ export interface DatabaseDriver {
   disconnect(): Promise<void>
   testConnection(config: ConnectionConfig): Promise<TestConnectionResult>
 
-  execute(sql: string, params?: unknown[]): Promise<QueryResult>
+  // Limits only apply when given; internal metadata queries run without them
+  execute(sql: string, params?: unknown[], limits?: QueryLimits): Promise<QueryResult>
+  // Returns the first batch of a single read and keeps its cursor open when more rows remain
+  openCursor(sql: string, params: unknown[] | undefined, limits: QueryLimits): Promise<CursorQueryResult>
+  // Reads a whole table in batches; null when the engine pages through getTableData instead
+  openTableCursor(table: string, options: TableReadOptions, batchSize: number): Promise<CursorQueryResult | null>
 
   getDatabases(): Promise<Database[]>
   getTables(database: string, schema?: string): Promise<Table[]>
@@ -88,6 +223,7 @@ export interface DatabaseDriver {
   insertRow(request: InsertRowRequest): Promise<SchemaOperationResult>
   deleteRow(request: DeleteRowRequest): Promise<SchemaOperationResult>
   updateRow(request: UpdateRowRequest): Promise<SchemaOperationResult>
+  applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult>
 
   // View operations
   createView(request: CreateViewRequest): Promise<SchemaOperationResult>
@@ -131,7 +267,7 @@ export abstract class BaseDriver implements DatabaseDriver {
 
   abstract connect(config: ConnectionConfig): Promise<void>
   abstract disconnect(): Promise<void>
-  abstract execute(sql: string, params?: unknown[]): Promise<QueryResult>
+  abstract execute(sql: string, params?: unknown[], limits?: QueryLimits): Promise<QueryResult>
   abstract getDatabases(): Promise<Database[]>
   abstract getTables(database: string, schema?: string): Promise<Table[]>
   abstract getColumns(table: string): Promise<Column[]>
@@ -159,6 +295,10 @@ export abstract class BaseDriver implements DatabaseDriver {
     return { success: false, error: 'updateRow is not supported for this database type' }
   }
 
+  async applyChangeset(_request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    return { success: false, results: [], error: 'Transactional changesets are not supported for this database type' }
+  }
+
   abstract createView(request: CreateViewRequest): Promise<SchemaOperationResult>
   abstract dropView(request: DropViewRequest): Promise<SchemaOperationResult>
   abstract renameView(request: RenameViewRequest): Promise<SchemaOperationResult>
@@ -183,6 +323,110 @@ export abstract class BaseDriver implements DatabaseDriver {
     return false
   }
 
+  // Engines that can read a result in batches override this; the rest run it whole.
+  // The timeout is passed for engines that cannot be cancelled and check it themselves.
+  protected openRowSource?(sql: string, params?: unknown[], timeout?: number): Promise<RowSource>
+
+  async openCursor(sql: string, params: unknown[] | undefined, limits: QueryLimits): Promise<CursorQueryResult> {
+    if (!this.readsThroughCursor(sql, limits)) {
+      return { result: await this.execute(sql, params, limits), cursor: null }
+    }
+
+    this.ensureConnected()
+    const startTime = Date.now()
+    const timer = this.startQueryTimer(limits.timeout)
+    let cursor: QueryCursor | null = null
+
+    try {
+      cursor = new QueryCursor(await this.openRowSource!(sql, params, limits.timeout))
+      const { rows, hasMore } = await cursor.read(limits.maxRows!)
+      return {
+        result: {
+          columns: cursor.columns,
+          rows,
+          rowCount: rows.length,
+          executionTime: Date.now() - startTime,
+          ...(hasMore ? { truncated: true } : {})
+        },
+        cursor: hasMore ? cursor : null
+      }
+    } catch (error) {
+      await cursor?.close().catch(() => {})
+      return {
+        result: {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          executionTime: Date.now() - startTime,
+          error: timer.expired ? queryTimeoutError(limits.timeout!) : error instanceof Error ? error.message : String(error)
+        },
+        cursor: null
+      }
+    } finally {
+      timer.clear()
+    }
+  }
+
+  // Engines that read tables through a cursor override this with the SELECT to run
+  protected buildTableReadQuery?(table: string, options: TableReadOptions): { sql: string; params: unknown[] }
+
+  /**
+   * Opens a cursor over a table, without the COUNT and column lookups getTableData runs
+   * for every page. Resolves to null on engines without cursors.
+   */
+  async openTableCursor(table: string, options: TableReadOptions, batchSize: number): Promise<CursorQueryResult | null> {
+    if (!this.buildTableReadQuery || !this.openRowSource) return null
+    const { sql, params } = this.buildTableReadQuery(table, options)
+    return this.openCursor(sql, params, { maxRows: batchSize })
+  }
+
+  protected buildTableOrderClause(
+    options: TableReadOptions,
+    quote: (identifier: string) => string,
+    binary: (quoted: string) => string = (quoted) => quoted
+  ): string {
+    const term = (column: string) =>
+      options.binaryOrderColumns?.includes(column) ? binary(quote(column)) : quote(column)
+    const terms = options.orderBy ? [`${term(options.orderBy)} ${options.orderDirection || 'ASC'}`] : []
+    for (const column of options.keyColumns ?? []) {
+      if (column !== options.orderBy) terms.push(term(column))
+    }
+    return terms.length > 0 ? `ORDER BY ${terms.join(', ')}` : ''
+  }
+
+  protected readsThroughCursor(sql: string, limits: QueryLimits | undefined): boolean {
+    return !!this.openRowSource && !!limits?.maxRows && isSingleReadStatement(this.type, sql)
+  }
+
+  /**
+   * Runs a single read with a row limit through a cursor that is closed right after
+   * the first batch, so only one row past the limit is ever read.
+   */
+  protected async executeLimited(sql: string, params: unknown[] | undefined, limits: QueryLimits): Promise<QueryResult> {
+    const { result, cursor } = await this.openCursor(sql, params, limits)
+    await cursor?.close()
+    return result
+  }
+
+  protected startQueryTimer(timeout: number | undefined): QueryTimer {
+    let expired = false
+    const handle = timeout && timeout > 0
+      ? setTimeout(() => {
+        expired = true
+        this.cancelQuery().catch(() => false)
+      }, timeout)
+      : null
+
+    return {
+      get expired() {
+        return expired
+      },
+      clear: () => {
+        if (handle) clearTimeout(handle)
+      }
+    }
+  }
+
   async testConnection(config: ConnectionConfig): Promise<TestConnectionResult> {
     const start = Date.now()
     try {
@@ -247,6 +491,59 @@ export abstract class BaseDriver implements DatabaseDriver {
     }
   }
 
+  /**
+   * Builds a parameterized statement for a single changeset row.
+   * An update or delete without a `where` is rejected so a malformed change
+   * can never touch every row in the table.
+   */
+  protected buildRowChangeStatement(
+    qualifiedTable: string,
+    change: RowChange,
+    dialect: RowChangeDialect
+  ): { sql: string; params: unknown[] } {
+    const params: unknown[] = []
+    const bind = (value: unknown): string => {
+      params.push(value)
+      return dialect.placeholder ? dialect.placeholder(params.length) : '?'
+    }
+
+    const buildWhere = (): string => {
+      const entries = Object.entries(change.where ?? {})
+      if (entries.length === 0) {
+        throw new Error(`Cannot ${change.type} a row without identifying columns`)
+      }
+      return entries
+        .map(([col, value]) => value === null || value === undefined
+          ? `${dialect.quote(col)} IS NULL`
+          : `${dialect.quote(col)} = ${bind(value)}`)
+        .join(' AND ')
+    }
+
+    switch (change.type) {
+      case RowChangeType.Insert: {
+        const entries = Object.entries(change.values ?? {})
+        if (entries.length === 0) {
+          return { sql: `INSERT INTO ${qualifiedTable} ${dialect.emptyInsert ?? 'DEFAULT VALUES'}`, params }
+        }
+        const columnList = entries.map(([col]) => dialect.quote(col)).join(', ')
+        const placeholders = entries.map(([, value]) => bind(value)).join(', ')
+        return { sql: `INSERT INTO ${qualifiedTable} (${columnList}) VALUES (${placeholders})`, params }
+      }
+      case RowChangeType.Update: {
+        const entries = Object.entries(change.values ?? {})
+        if (entries.length === 0) {
+          throw new Error('Cannot update a row without values')
+        }
+        const setClause = entries.map(([col, value]) => `${dialect.quote(col)} = ${bind(value)}`).join(', ')
+        return { sql: `UPDATE ${qualifiedTable} SET ${setClause} WHERE ${buildWhere()}`, params }
+      }
+      case RowChangeType.Delete:
+        return { sql: `DELETE FROM ${qualifiedTable} WHERE ${buildWhere()}`, params }
+      default:
+        throw new Error(`Unsupported row change type: ${(change as RowChange).type}`)
+    }
+  }
+
   protected buildOrderClause(options: DataOptions): string {
     if (!options.orderBy) return ''
     const direction = options.orderDirection || 'ASC'
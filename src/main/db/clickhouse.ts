@@ -1,5 +1,5 @@
 import { createClient, ClickHouseClient } from '@clickhouse/client'
-import { BaseDriver, TestConnectionResult } from './base'
+import { BaseDriver, TestConnectionResult, type RowSource, type TableReadOptions } from './base'
 import {
   DatabaseType,
   SSLMode,
@@ -7,6 +7,7 @@ import {
   RoutineType,
   type ConnectionConfig,
   type QueryResult,
+  type QueryLimits,
   type Database as DatabaseInfo,
   type Table,
   type Column,
@@ -33,6 +34,11 @@ import type {
   RenameTableRequest,
   InsertRowRequest,
   DeleteRowRequest,
+  UpdateRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChange,
+  RowChangeResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -44,6 +50,7 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '../types/schema-operations'
+import { RowChangeType } from '../types/schema-operations'
 
 // ClickHouse data types
 const CLICKHOUSE_DATA_TYPES: DataTypeInfo[] = [
@@ -199,10 +206,13 @@ export class ClickHouseDriver extends BaseDriver {
     }
   }
 
-  async execute(sql: string, _params?: unknown[]): Promise<QueryResult> {
+  async execute(sql: string, _params?: unknown[], limits?: QueryLimits): Promise<QueryResult> {
     this.ensureConnected()
     const startTime = Date.now()
 
+    // The server enforces the timeout, in whole seconds
+    const clickhouseSettings = limits?.timeout ? { max_execution_time: Math.ceil(limits.timeout / 1000) } : undefined
+
     const abortController = new AbortController()
     this.currentAbortController = abortController
 
@@ -220,9 +230,26 @@ export class ClickHouseDriver extends BaseDriver {
         const resultSet = await this.client!.query({
           query: sql,
           format: 'JSONEachRow',
-          abort_signal: abortController.signal as AbortSignal
+          abort_signal: abortController.signal as AbortSignal,
+          clickhouse_settings: clickhouseSettings
         })
-        const rows = await resultSet.json<Record<string, unknown>>()
+        let rows: Record<string, unknown>[] = []
+        let truncated = false
+        if (limits?.maxRows) {
+          // Leaving the stream early closes the response, so the server stops sending rows
+          for await (const batch of resultSet.stream()) {
+            for (const row of batch) {
+              if (rows.length === limits.maxRows) {
+                truncated = true
+                break
+              }
+              rows.push(row.json<Record<string, unknown>>())
+            }
+            if (truncated) break
+          }
+        } else {
+          rows = await resultSet.json<Record<string, unknown>>()
+        }
         this.currentAbortController = null
 
         const columns: ColumnInfo[] = []
@@ -241,12 +268,14 @@ export class ClickHouseDriver extends BaseDriver {
           columns,
           rows,
           rowCount: rows.length,
-          executionTime: Date.now() - startTime
+          executionTime: Date.now() - startTime,
+          ...(truncated ? { truncated } : {})
         }
       } else {
         await this.client!.command({
           query: sql,
-          abort_signal: abortController.signal as AbortSignal
+          abort_signal: abortController.signal as AbortSignal,
+          clickhouse_settings: clickhouseSettings
         })
         this.currentAbortController = null
         return {
@@ -269,6 +298,56 @@ export class ClickHouseDriver extends BaseDriver {
     }
   }
 
+  /**
+   * Streams a read as JSONEachRow and hands out its rows as they are asked for. Closing
+   * the source early ends the response, so the server stops sending rows.
+   */
+  protected async openRowSource(sql: string, _params?: unknown[], timeout?: number): Promise<RowSource> {
+    const abortController = new AbortController()
+    this.currentAbortController = abortController
+    const resultSet = await this.client!.query({
+      query: sql,
+      format: 'JSONEachRow',
+      abort_signal: abortController.signal as AbortSignal,
+      clickhouse_settings: timeout ? { max_execution_time: Math.ceil(timeout / 1000) } : undefined
+    })
+    const batches = resultSet.stream()[Symbol.asyncIterator]()
+
+    let pending: { json<T>(): T }[] = []
+    let exhausted = false
+    let columns: ColumnInfo[] = []
+
+    return {
+      get columns() {
+        return columns
+      },
+      read: async (count) => {
+        const rows: Record<string, unknown>[] = []
+        while (rows.length < count && !exhausted) {
+          if (pending.length === 0) {
+            const next = await batches.next()
+            exhausted = !!next.done
+            pending = next.done ? [] : next.value
+            continue
+          }
+          rows.push(pending.shift()!.json<Record<string, unknown>>())
+        }
+        if (columns.length === 0 && rows.length > 0) {
+          columns = Object.keys(rows[0]).map((key) => ({
+            name: key,
+            type: typeof rows[0][key] === 'number' ? 'Number' : typeof rows[0][key] === 'boolean' ? 'Boolean' : 'String',
+            nullable: true
+          }))
+        }
+        return rows
+      },
+      close: async () => {
+        if (this.currentAbortController === abortController) this.currentAbortController = null
+        resultSet.close()
+      }
+    }
+  }
+
   async getDatabases(): Promise<DatabaseInfo[]> {
     this.ensureConnected()
 
@@ -551,6 +630,13 @@ export class ClickHouseDriver extends BaseDriver {
     }
   }
 
+  // Filter values are inlined by buildWhereClauseClickHouse, so there are no params
+  protected buildTableReadQuery(table: string, options: TableReadOptions): { sql: string; params: unknown[] } {
+    const { clause: whereClause } = this.buildWhereClauseClickHouse({ filters: options.filters })
+    const orderClause = this.buildTableOrderClause(options, (name) => `\`${name}\``)
+    return { sql: `SELECT * FROM \`${this.currentDatabase}\`.\`${table}\` ${whereClause} ${orderClause}`, params: [] }
+  }
+
   private buildOrderClauseClickHouse(options: DataOptions): string {
     if (!options.orderBy) return ''
     const direction = options.orderDirection || 'ASC'
@@ -829,6 +915,68 @@ export class ClickHouseDriver extends BaseDriver {
     }
   }
 
+  async updateRow(request: UpdateRowRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const { table, primaryKeyValues, values } = request
+
+    const literal = (val: unknown): string => {
+      if (val === null || val === undefined) return 'NULL'
+      if (typeof val === 'string') return `'${val.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+      return String(val)
+    }
+    const assignments = Object.keys(values).map((col) => `\`${col}\` = ${literal(values[col])}`).join(', ')
+    const conditions = Object.keys(primaryKeyValues).map((col) => {
+      const val = primaryKeyValues[col]
+      return val === null || val === undefined ? `\`${col}\` IS NULL` : `\`${col}\` = ${literal(val)}`
+    }).join(' AND ')
+
+    // A mutation, like deleteRow; columns of the sorting key cannot be updated
+    const sql = `ALTER TABLE \`${this.currentDatabase}\`.\`${table}\` UPDATE ${assignments} WHERE ${conditions}`
+
+    try {
+      await this.client!.command({ query: sql })
+      return { success: true, sql }
+    } catch (error) {
+      return { success: false, sql, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  /**
+   * ClickHouse has no transactions, so the changes are applied one by one through the row
+   * operations and stop at the first failure. Changes before it stay applied, which the
+   * result reports by leaving rolledBack unset.
+   */
+  async applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    this.ensureConnected()
+    const results: RowChangeResult[] = []
+
+    const applyChange = (change: RowChange): Promise<SchemaOperationResult> => {
+      const where = change.where ?? {}
+      if (change.type !== RowChangeType.Insert && Object.keys(where).length === 0) {
+        return Promise.resolve({ success: false, error: `Cannot ${change.type} a row without identifying columns` })
+      }
+      switch (change.type) {
+        case RowChangeType.Insert:
+          return this.insertRow({ table: request.table, values: change.values ?? {} })
+        case RowChangeType.Update:
+          return this.updateRow({ table: request.table, primaryKeyValues: where, values: change.values ?? {} })
+        case RowChangeType.Delete:
+          return this.deleteRow({ table: request.table, primaryKeyValues: where })
+        default:
+          return Promise.resolve({ success: false, error: `Unsupported row change type: ${change.type}` })
+      }
+    }
+
+    for (const [index, change] of request.changes.entries()) {
+      const result = await applyChange(change)
+      results.push({ index, success: result.success, sql: result.sql, error: result.error, affectedRows: result.affectedRows })
+      if (!result.success) {
+        return { success: false, results, error: result.error }
+      }
+    }
+    return { success: true, results }
+  }
+
   // View operations
   async createView(request: CreateViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
@@ -1,4 +1,5 @@
-import { DatabaseDriver, TestConnectionResult } from './base'
+import { randomUUID } from 'crypto'
+import { DatabaseDriver, TestConnectionResult, type QueryCursor } from './base'
 import { emitQueryLog } from '../services/queryLog'
 import { emitConnectionStatus, ConnectionStatusType } from '../services/connectionStatus'
 import { SQLiteDriver } from './sqlite'
@@ -9,18 +10,59 @@ import { ClickHouseDriver } from './clickhouse'
 import { MongoDBDriver } from './mongodb'
 import { RedisDriver } from './redis'
 import { sshTunnelManager } from '../services/ssh-tunnel'
+import { applySessionSettings, hasSessionSettings } from '../services/sessionSettings'
 import { logger } from '../utils/logger'
-import { DatabaseType, DEFAULT_PORTS, type ConnectionConfig } from '../types'
+import { DatabaseType, DEFAULT_PORTS, type ConnectionConfig, type CursorBatch, type QueryLimits, type QueryResult } from '../types'
 
 const HEALTH_CHECK_INTERVAL = 30_000
 const MAX_RECONNECT_ATTEMPTS = 5
 const SKIP_HEALTH_CHECK_TYPES: DatabaseType[] = [DatabaseType.SQLite, DatabaseType.ClickHouse]
 
+// Statement that opens a transaction on a dedicated session, per supported engine
+export const TRANSACTION_BEGIN_STATEMENTS: Partial<Record<DatabaseType, string>> = {
+  [DatabaseType.SQLite]: 'BEGIN',
+  [DatabaseType.MySQL]: 'START TRANSACTION',
+  [DatabaseType.MariaDB]: 'START TRANSACTION',
+  [DatabaseType.PostgreSQL]: 'BEGIN'
+}
+
+// Engines whose drivers read results in batches; the rest return them whole
+export const CURSOR_TYPES: DatabaseType[] = [
+  DatabaseType.SQLite,
+  DatabaseType.MySQL,
+  DatabaseType.MariaDB,
+  DatabaseType.PostgreSQL,
+  DatabaseType.MongoDB
+]
+
+// A cursor nobody fetched from for this long is closed with its session
+const CURSOR_IDLE_TIMEOUT = 10 * 60_000
+
+interface TransactionSession {
+  connectionId: string
+  driver: DatabaseDriver
+}
+
+interface CursorSession {
+  connectionId: string
+  driver: DatabaseDriver
+  // Null while the first batch is still being read
+  cursor: QueryCursor | null
+  // Every batch is as large as the row limit the first one was read with
+  batchSize: number
+  idleTimer: NodeJS.Timeout | null
+}
+
 export class ConnectionManager {
   private connections = new Map<string, DatabaseDriver>()
   private configs = new Map<string, ConnectionConfig>()
+  // Effective configs (after SSH tunneling) used to open dedicated transaction sessions
+  private resolvedConfigs = new Map<string, ConnectionConfig>()
+  private transactionSessions = new Map<string, TransactionSession>()
+  private cursorSessions = new Map<string, CursorSession>()
   private healthCheckIntervals = new Map<string, NodeJS.Timeout>()
   private reconnectInProgress = new Set<string>()
+  private disconnectListeners: Array<(connectionId: string) => void> = []
 
   createDriver(type: DatabaseType): DatabaseDriver {
     switch (type) {
@@ -83,6 +125,24 @@ export class ConnectionManager {
             throw error
           }
         }
+
+        // Row-limited reads stream through the callback connection underneath
+        const core = conn.connection
+        if (core) {
+          const origCoreQuery = core.query.bind(core)
+          core.query = function (...args: any[]) {
+            const query = origCoreQuery(...args)
+            // Calls with a callback come from the promise API, which is logged above
+            if (typeof args[args.length - 1] !== 'function') {
+              const sql = typeof args[0] === 'string' ? args[0] : ''
+              const startTime = Date.now()
+              query.once('end', () => {
+                emitQueryLog({ connectionId, sql, timestamp: new Date().toISOString(), executionTime: Date.now() - startTime })
+              })
+            }
+            return query
+          }
+        }
         break
       }
 
@@ -183,6 +243,26 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Connects a new driver and brings the session to the connection's defaults, so
+   * reconnects, transactions and detached sessions behave like the first connect.
+   */
+  private async openSession(config: ConnectionConfig, connectionId: string): Promise<DatabaseDriver> {
+    const driver = this.createDriver(config.type)
+    await driver.connect(config)
+
+    // Wrap underlying client to log ALL queries (user + internal)
+    this.wrapDriverQueries(driver, connectionId, config.type)
+
+    try {
+      await applySessionSettings(driver, config.type, config.session)
+    } catch (error) {
+      try { await driver.disconnect() } catch {}
+      throw error
+    }
+    return driver
+  }
+
   private startHealthCheck(id: string, type: DatabaseType): void {
     if (SKIP_HEALTH_CHECK_TYPES.includes(type)) return
     this.stopHealthCheck(id)
@@ -270,10 +350,9 @@ export class ConnectionManager {
         }
 
         // Create new driver and connect
-        const driver = this.createDriver(config.type)
-        await driver.connect(connectionConfig)
-        this.wrapDriverQueries(driver, id, config.type)
+        const driver = await this.openSession(connectionConfig, id)
         this.connections.set(id, driver)
+        this.resolvedConfigs.set(id, connectionConfig)
 
         // Success
         this.reconnectInProgress.delete(id)
@@ -332,23 +411,39 @@ export class ConnectionManager {
       }
     }
 
-    const driver = this.createDriver(config.type)
-    await driver.connect(connectionConfig)
-
-    // Wrap underlying client to log ALL queries (user + internal)
-    this.wrapDriverQueries(driver, config.id, config.type)
+    let driver: DatabaseDriver
+    try {
+      driver = await this.openSession(connectionConfig, config.id)
+    } catch (error) {
+      if (sshTunnelManager.hasTunnel(config.id)) {
+        sshTunnelManager.closeTunnel(config.id)
+      }
+      throw error
+    }
 
     this.connections.set(config.id, driver)
     this.configs.set(config.id, config)
+    this.resolvedConfigs.set(config.id, connectionConfig)
     this.startHealthCheck(config.id, config.type)
     return driver
   }
 
+  // Lets per-connection state outside the manager, such as metrics sampling, be released on disconnect
+  onDisconnect(listener: (connectionId: string) => void): void {
+    this.disconnectListeners.push(listener)
+  }
+
   async disconnect(connectionId: string): Promise<boolean> {
+    for (const listener of this.disconnectListeners) listener(connectionId)
     this.stopHealthCheck(connectionId)
     this.configs.delete(connectionId)
     this.reconnectInProgress.delete(connectionId)
 
+    // Open transactions are rolled back by closing their sessions
+    await this.closeTransactionSessions(connectionId)
+    await this.closeCursorSessions(connectionId)
+    this.resolvedConfigs.delete(connectionId)
+
     const driver = this.connections.get(connectionId)
     if (driver) {
       await driver.disconnect()
@@ -374,11 +469,219 @@ export class ConnectionManager {
     return this.connections.get(connectionId)
   }
 
+  getConfig(connectionId: string): ConnectionConfig | undefined {
+    return this.configs.get(connectionId)
+  }
+
   isConnected(connectionId: string): boolean {
     const driver = this.connections.get(connectionId)
     return driver?.isConnected ?? false
   }
 
+  /**
+   * Opens a transaction on a dedicated session so that statements run through it
+   * stay isolated from the shared connection until committed or rolled back.
+   */
+  async beginTransaction(connectionId: string, sessionId: string): Promise<void> {
+    if (this.transactionSessions.has(sessionId)) {
+      throw new Error('A transaction is already open for this session')
+    }
+
+    const config = this.resolvedConfigs.get(connectionId)
+    if (!config) {
+      throw new Error('Not connected to database')
+    }
+
+    const beginSql = TRANSACTION_BEGIN_STATEMENTS[config.type]
+    if (!beginSql) {
+      throw new Error(`Manual transactions are not supported for ${config.type} connections`)
+    }
+
+    const driver = await this.openSession(config, connectionId)
+
+    const result = await driver.execute(beginSql)
+    if (result.error) {
+      try { await driver.disconnect() } catch {}
+      throw new Error(result.error)
+    }
+
+    this.transactionSessions.set(sessionId, { connectionId, driver })
+    logger.info(`Opened transaction session ${sessionId} for ${connectionId}`)
+  }
+
+  /**
+   * Opens a separate session on the server of an existing connection, optionally on
+   * another database, so long-running reads leave the shared session untouched.
+   * The caller owns the returned driver and must disconnect it.
+   */
+  async openDetachedSession(connectionId: string, database?: string): Promise<DatabaseDriver> {
+    const config = this.resolvedConfigs.get(connectionId)
+    if (!config) {
+      throw new Error('Not connected to database')
+    }
+
+    // A SQLite "database" is the file itself, so there is nothing to switch to
+    const sessionConfig = database && config.type !== DatabaseType.SQLite ? { ...config, database } : config
+    return this.openSession(sessionConfig, connectionId)
+  }
+
+  getTransactionSession(sessionId: string): DatabaseDriver | undefined {
+    return this.transactionSessions.get(sessionId)?.driver
+  }
+
+  getTransactionConnectionId(sessionId: string): string | undefined {
+    return this.transactionSessions.get(sessionId)?.connectionId
+  }
+
+  hasOpenTransactions(connectionId: string): boolean {
+    for (const session of this.transactionSessions.values()) {
+      if (session.connectionId === connectionId) return true
+    }
+    return false
+  }
+
+  async commitTransaction(sessionId: string): Promise<void> {
+    await this.endTransaction(sessionId, 'COMMIT')
+  }
+
+  async rollbackTransaction(sessionId: string): Promise<void> {
+    await this.endTransaction(sessionId, 'ROLLBACK')
+  }
+
+  private async endTransaction(sessionId: string, statement: 'COMMIT' | 'ROLLBACK'): Promise<void> {
+    const session = this.transactionSessions.get(sessionId)
+    if (!session) {
+      throw new Error('No open transaction for this session')
+    }
+
+    // The session is closed either way: a failed COMMIT leaves nothing to resume
+    this.transactionSessions.delete(sessionId)
+    try {
+      const result = await session.driver.execute(statement)
+      if (result.error) {
+        throw new Error(result.error)
+      }
+    } finally {
+      try { await session.driver.disconnect() } catch {}
+      logger.info(`Closed transaction session ${sessionId} (${statement})`)
+    }
+  }
+
+  private async closeTransactionSessions(connectionId: string): Promise<void> {
+    for (const [sessionId, session] of this.transactionSessions) {
+      if (session.connectionId !== connectionId) continue
+      this.transactionSessions.delete(sessionId)
+      try { await session.driver.disconnect() } catch {}
+      logger.info(`Discarded transaction session ${sessionId} for ${connectionId}`)
+    }
+  }
+
+  /**
+   * Runs a single read on its own session and keeps the cursor open when rows remain
+   * past the first batch, so the read runs once and paging through it never blocks the
+   * shared connection. The returned result carries the cursor ID while more rows can be
+   * fetched.
+   */
+  async openCursor(
+    connectionId: string,
+    sql: string,
+    params: unknown[] | undefined,
+    limits: QueryLimits,
+    database?: string
+  ): Promise<QueryResult> {
+    const driver = await this.openDetachedSession(connectionId, database)
+    const cursorId = randomUUID()
+    const session: CursorSession = { connectionId, driver, cursor: null, batchSize: limits.maxRows ?? 0, idleTimer: null }
+    this.cursorSessions.set(cursorId, session)
+
+    try {
+      const { result, cursor } = await driver.openCursor(sql, params, limits)
+      // Closed by a disconnect while the first batch was read
+      if (!this.cursorSessions.has(cursorId)) {
+        await cursor?.close().catch(() => {})
+        return result
+      }
+      if (!cursor) {
+        await this.closeCursor(cursorId)
+        return result
+      }
+
+      session.cursor = cursor
+      this.touchCursor(cursorId, session)
+      logger.info(`Opened cursor ${cursorId} for ${connectionId}`)
+      return { ...result, cursorId }
+    } catch (error) {
+      await this.closeCursor(cursorId)
+      throw error
+    }
+  }
+
+  /**
+   * Reads the next batch of an open cursor. The cursor and its session are closed once
+   * the last row has been read or the read fails.
+   */
+  async fetchCursor(cursorId: string): Promise<CursorBatch> {
+    const session = this.cursorSessions.get(cursorId)
+    if (!session?.cursor) {
+      throw new Error('The cursor is closed; run the query again')
+    }
+
+    if (session.idleTimer) clearTimeout(session.idleTimer)
+    try {
+      const batch = await session.cursor.read(session.batchSize)
+      if (batch.hasMore) {
+        this.touchCursor(cursorId, session)
+      } else {
+        await this.closeCursor(cursorId)
+      }
+      return batch
+    } catch (error) {
+      await this.closeCursor(cursorId)
+      throw error
+    }
+  }
+
+  async closeCursor(cursorId: string): Promise<boolean> {
+    const session = this.cursorSessions.get(cursorId)
+    if (!session) {
+      return false
+    }
+
+    this.cursorSessions.delete(cursorId)
+    if (session.idleTimer) clearTimeout(session.idleTimer)
+    try { await session.cursor?.close() } catch {}
+    try { await session.driver.disconnect() } catch {}
+    logger.info(`Closed cursor ${cursorId} for ${session.connectionId}`)
+    return true
+  }
+
+  /**
+   * Cancels the reads running on the connection's cursor sessions. Returns whether
+   * any of them was cancelled.
+   */
+  async cancelCursorQueries(connectionId: string): Promise<boolean> {
+    let cancelled = false
+    for (const session of this.cursorSessions.values()) {
+      if (session.connectionId !== connectionId) continue
+      if (await session.driver.cancelQuery()) cancelled = true
+    }
+    return cancelled
+  }
+
+  private touchCursor(cursorId: string, session: CursorSession): void {
+    session.idleTimer = setTimeout(() => {
+      logger.info(`Cursor ${cursorId} was idle for too long`)
+      this.closeCursor(cursorId)
+    }, CURSOR_IDLE_TIMEOUT)
+  }
+
+  private async closeCursorSessions(connectionId: string): Promise<void> {
+    for (const [cursorId, session] of this.cursorSessions) {
+      if (session.connectionId !== connectionId) continue
+      await this.closeCursor(cursorId)
+    }
+  }
+
   async testConnection(config: ConnectionConfig): Promise<TestConnectionResult> {
     let connectionConfig = { ...config }
     const testTunnelId = `test-${Date.now()}`
@@ -395,6 +698,7 @@ export class ConnectionManager {
           sshPort: config.ssh!.port,
           sshUser: config.ssh!.username,
           authMethod: config.ssh!.authMethod,
+          jumpHosts: config.ssh!.jumpHosts?.length ?? 0,
           hasPrivateKey: !!config.ssh!.privateKey,
           privateKeyLength: config.ssh!.privateKey?.length || 0,
           remoteHost,
@@ -431,6 +735,20 @@ export class ConnectionManager {
       const driver = this.createDriver(config.type)
       const result = await driver.testConnection(connectionConfig)
 
+      // Replay the session defaults too, so a mistake in the init script shows up here
+      if (result.success && hasSessionSettings(config.session)) {
+        const session = this.createDriver(config.type)
+        try {
+          await session.connect(connectionConfig)
+          await applySessionSettings(session, config.type, config.session)
+        } catch (error) {
+          result.success = false
+          result.error = error instanceof Error ? error.message : String(error)
+        } finally {
+          try { await session.disconnect() } catch {}
+        }
+      }
+
       if (useSSH) {
         result.sshSuccess = true
         result.sshError = null
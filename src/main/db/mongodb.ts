@@ -1,5 +1,5 @@
-import { MongoClient, Db, ObjectId, Document } from 'mongodb'
-import { BaseDriver, TestConnectionResult } from './base'
+import { MongoClient, Db, ObjectId, Document, type AbstractCursor } from 'mongodb'
+import { BaseDriver, TestConnectionResult, type RowSource } from './base'
 import {
   DatabaseType,
   SSLMode,
@@ -7,6 +7,7 @@ import {
   RoutineType,
   type ConnectionConfig,
   type QueryResult,
+  type QueryLimits,
   type Database as DatabaseInfo,
   type Table,
   type Column,
@@ -34,6 +35,10 @@ import type {
   InsertRowRequest,
   DeleteRowRequest,
   UpdateRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChange,
+  RowChangeResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -44,6 +49,7 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '../types/schema-operations'
+import { RowChangeType } from '../types/schema-operations'
 
 // MongoDB data types for UI display
 const MONGODB_DATA_TYPES: DataTypeInfo[] = [
@@ -64,6 +70,9 @@ const MONGODB_DATA_TYPES: DataTypeInfo[] = [
   { name: 'RegExp', category: 'other' }
 ]
 
+// Applies to find() when no row limit is given
+const FIND_ROW_LIMIT = 1000
+
 export class MongoDBDriver extends BaseDriver {
   readonly type = DatabaseType.MongoDB
   private client: MongoClient | null = null
@@ -296,12 +305,12 @@ export class MongoDBDriver extends BaseDriver {
 
   // ─── Execute (query runner) ──────────────────────────────────────────
 
-  async execute(query: string, _params?: unknown[]): Promise<QueryResult> {
+  async execute(query: string, _params?: unknown[], limits?: QueryLimits): Promise<QueryResult> {
     const startTime = Date.now()
 
     try {
       this.ensureConnected()
-      const result = await this.executeMongoQuery(query)
+      const result = await this.executeMongoQuery(query, limits)
       return {
         ...result,
         executionTime: Date.now() - startTime
@@ -334,13 +343,12 @@ export class MongoDBDriver extends BaseDriver {
    *   db.collection.dropIndex("name")
    *   db.collection.drop()
    */
-  private async executeMongoQuery(query: string): Promise<Omit<QueryResult, 'executionTime'>> {
+  private async executeMongoQuery(query: string, limits?: QueryLimits): Promise<Omit<QueryResult, 'executionTime'>> {
     const db = this.ensureDb()
     const trimmed = query.trim()
 
-    // Parse: db.<collection>.<method>(<args>)
-    const match = trimmed.match(/^db\.([\w.-]+)\.(\w+)\(([\s\S]*)\)$/s)
-    if (!match) {
+    const call = this.parseCollectionCall(trimmed)
+    if (!call) {
       // Try simple commands like db.getCollectionNames()
       if (trimmed === 'db.getCollectionNames()') {
         const collections = await db.listCollections().toArray()
@@ -367,36 +375,17 @@ export class MongoDBDriver extends BaseDriver {
       )
     }
 
-    const collectionName = match[1]
-    const method = match[2]
-    const argsStr = match[3].trim()
-
+    const { collectionName, method, args } = call
     const collection = db.collection(collectionName)
 
-    // Parse arguments as JSON (wrap in array brackets for multi-arg parsing)
-    let args: unknown[] = []
-    if (argsStr) {
-      try {
-        // Attempt to parse as a JSON array of arguments
-        args = JSON.parse(`[${argsStr}]`)
-      } catch {
-        // Try wrapping in object braces if it looks like a bare object
-        try {
-          args = [JSON.parse(argsStr)]
-        } catch {
-          throw new Error(`Failed to parse arguments: ${argsStr}`)
-        }
-      }
-    }
-
     switch (method) {
       case 'find': {
         const filter = (args[0] as Document) || {}
         const projection = (args[1] as Document) || {}
-        const cursor = collection.find(filter, { projection })
-        // Apply limit to prevent returning too many docs
-        const docs = await cursor.limit(1000).toArray()
-        return this.docsToQueryResult(docs)
+        // Without a row limit, still cap what a bare find() can return
+        const maxRows = limits?.maxRows || FIND_ROW_LIMIT
+        const cursor = collection.find(filter, { projection, maxTimeMS: limits?.timeout || undefined })
+        return this.limitedResult(await cursor.limit(maxRows + 1).toArray(), maxRows)
       }
 
       case 'findOne': {
@@ -407,8 +396,11 @@ export class MongoDBDriver extends BaseDriver {
 
       case 'aggregate': {
         const pipeline = (args[0] as Document[]) || []
-        const docs = await collection.aggregate(pipeline).toArray()
-        return this.docsToQueryResult(docs)
+        const cursor = collection.aggregate(pipeline, { maxTimeMS: limits?.timeout || undefined })
+        if (limits?.maxRows) {
+          return this.limitedResult(await cursor.limit(limits.maxRows + 1).toArray(), limits.maxRows)
+        }
+        return this.docsToQueryResult(await cursor.toArray())
       }
 
       case 'insertOne': {
@@ -587,6 +579,94 @@ export class MongoDBDriver extends BaseDriver {
     }
   }
 
+  /**
+   * Split a db.<collection>.<method>(<args>) call into its parts, or return null
+   * when the query has another shape.
+   */
+  private parseCollectionCall(trimmed: string): { collectionName: string; method: string; args: unknown[] } | null {
+    const match = trimmed.match(/^db\.([\w.-]+)\.(\w+)\(([\s\S]*)\)$/s)
+    if (!match) return null
+
+    const argsStr = match[3].trim()
+
+    // Parse arguments as JSON (wrap in array brackets for multi-arg parsing)
+    let args: unknown[] = []
+    if (argsStr) {
+      try {
+        // Attempt to parse as a JSON array of arguments
+        args = JSON.parse(`[${argsStr}]`)
+      } catch {
+        // Try wrapping in object braces if it looks like a bare object
+        try {
+          args = [JSON.parse(argsStr)]
+        } catch {
+          throw new Error(`Failed to parse arguments: ${argsStr}`)
+        }
+      }
+    }
+
+    return { collectionName: match[1], method: match[2], args }
+  }
+
+  /**
+   * find() and aggregate() are read from their cursor in batches, with the columns
+   * taken from the first batch. Other reads run whole and are served from memory.
+   */
+  protected async openRowSource(query: string, _params?: unknown[], timeout?: number): Promise<RowSource> {
+    const call = this.parseCollectionCall(query.trim())
+    const maxTimeMS = timeout || undefined
+    let cursor: AbstractCursor<Document> | null = null
+
+    if (call?.method === 'find') {
+      const filter = (call.args[0] as Document) || {}
+      const projection = (call.args[1] as Document) || {}
+      cursor = this.ensureDb().collection(call.collectionName).find(filter, { projection, maxTimeMS })
+    } else if (call?.method === 'aggregate') {
+      cursor = this.ensureDb().collection(call.collectionName).aggregate((call.args[0] as Document[]) || [], { maxTimeMS })
+    }
+
+    if (!cursor) {
+      const result = await this.executeMongoQuery(query, { timeout })
+      const rows = [...result.rows]
+      return {
+        columns: result.columns,
+        read: async (count) => rows.splice(0, count),
+        close: async () => {}
+      }
+    }
+
+    const open = cursor
+    const source: RowSource = {
+      columns: [],
+      read: async (count) => {
+        const docs: Document[] = []
+        while (docs.length < count) {
+          const doc = await open.next()
+          if (!doc) break
+          docs.push(doc)
+        }
+        if (source.columns.length === 0 && docs.length > 0) {
+          source.columns = this.docsToQueryResult(docs).columns
+        }
+        return docs.map((doc) => this.serializeDocument(doc))
+      },
+      close: () => open.close()
+    }
+    return source
+  }
+
+  /**
+   * Convert documents read with one past the row limit into a QueryResult,
+   * flagging it as truncated when the extra document came back.
+   */
+  private limitedResult(docs: Document[], maxRows: number): Omit<QueryResult, 'executionTime'> {
+    const truncated = docs.length > maxRows
+    return {
+      ...this.docsToQueryResult(docs.slice(0, maxRows)),
+      ...(truncated ? { truncated } : {})
+    }
+  }
+
   /**
    * Convert an array of MongoDB documents into a QueryResult.
    */
@@ -1245,6 +1325,74 @@ export class MongoDBDriver extends BaseDriver {
     }
   }
 
+  /**
+   * Applies all changes inside a multi-document transaction. Transactions need a
+   * replica set or sharded cluster; on a standalone server the session fails and
+   * nothing is written.
+   */
+  async applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    const db = this.ensureDb()
+    const collection = db.collection(request.table)
+    const session = this.getClient().startSession()
+    let results: RowChangeResult[] = []
+
+    const toFilter = (values: Record<string, unknown> | undefined, change: RowChange): Document => {
+      const entries = Object.entries(values ?? {})
+      if (entries.length === 0) {
+        throw new Error(`Cannot ${change.type} a document without identifying fields`)
+      }
+      const filter: Document = {}
+      for (const [key, value] of entries) {
+        filter[key] = key === '_id' && typeof value === 'string' && /^[0-9a-fA-F]{24}$/.test(value)
+          ? new ObjectId(value)
+          : value
+      }
+      return filter
+    }
+
+    try {
+      await session.withTransaction(async () => {
+        // withTransaction may retry the callback on transient errors
+        results = []
+        for (const [index, change] of request.changes.entries()) {
+          let mongoCmd: string | undefined
+          try {
+            if (change.type === RowChangeType.Insert) {
+              const doc = { ...change.values } as Record<string, unknown>
+              mongoCmd = `db.${request.table}.insertOne(${JSON.stringify(doc)})`
+              if (typeof doc._id === 'string' && /^[0-9a-fA-F]{24}$/.test(doc._id)) {
+                doc._id = new ObjectId(doc._id)
+              }
+              const result = await collection.insertOne(doc as Document, { session })
+              results.push({ index, success: true, sql: mongoCmd, affectedRows: result.acknowledged ? 1 : 0 })
+            } else if (change.type === RowChangeType.Update) {
+              mongoCmd = `db.${request.table}.updateOne(${JSON.stringify(change.where)}, { $set: ${JSON.stringify(change.values)} })`
+              const result = await collection.updateOne(toFilter(change.where, change), { $set: change.values ?? {} }, { session })
+              results.push({ index, success: true, sql: mongoCmd, affectedRows: result.modifiedCount })
+            } else {
+              mongoCmd = `db.${request.table}.deleteOne(${JSON.stringify(change.where)})`
+              const result = await collection.deleteOne(toFilter(change.where, change), { session })
+              results.push({ index, success: true, sql: mongoCmd, affectedRows: result.deletedCount })
+            }
+          } catch (error) {
+            results.push({ index, success: false, sql: mongoCmd, error: error instanceof Error ? error.message : String(error) })
+            throw error
+          }
+        }
+      })
+      return { success: true, results }
+    } catch (error) {
+      return {
+        success: false,
+        results,
+        error: error instanceof Error ? error.message : String(error),
+        rolledBack: true
+      }
+    } finally {
+      await session.endSession()
+    }
+  }
+
   // ─── View operations ─────────────────────────────────────────────────
 
   async createView(request: CreateViewRequest): Promise<SchemaOperationResult> {
@@ -1,5 +1,6 @@
 import mysql from 'mysql2/promise'
-import { BaseDriver, TestConnectionResult } from './base'
+import type { Connection as CoreConnection } from 'mysql2'
+import { BaseDriver, TestConnectionResult, queryTimeoutError, type RowSource, type SchemaScriptBuilder, type TableReadOptions } from './base'
 import {
   DatabaseType,
   SSLMode,
@@ -8,6 +9,7 @@ import {
   EventStatus,
   type ConnectionConfig,
   type QueryResult,
+  type QueryLimits,
   type Database as DatabaseInfo,
   type Table,
   type Column,
@@ -33,6 +35,9 @@ import type {
   RenameTableRequest,
   InsertRowRequest,
   DeleteRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChangeResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -46,7 +51,7 @@ import type {
 } from '../types/schema-operations'
 import { MYSQL_DATA_TYPES } from '../types/schema-operations'
 
-export class MySQLDriver extends BaseDriver {
+export class MySQLDriver extends BaseDriver implements SchemaScriptBuilder {
   readonly type: DatabaseType = DatabaseType.MySQL
   protected connection: mysql.Connection | null = null
   private currentDatabase: string = ''
@@ -79,7 +84,9 @@ export class MySQLDriver extends BaseDriver {
       user: config.username,
       password: config.password,
       database: config.database || undefined,
-      ssl
+      ssl,
+      // MySQL has no session variable for it, so it goes out as a connect attribute
+      connectAttributes: config.session?.applicationName ? { program_name: config.session.applicationName } : undefined
     }
   }
 
@@ -186,27 +193,26 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<QueryResult> {
+  async execute(sql: string, params?: unknown[], limits?: QueryLimits): Promise<QueryResult> {
     this.ensureConnected()
+    if (this.readsThroughCursor(sql, limits)) {
+      return this.executeLimited(sql, params, limits!)
+    }
+
     const startTime = Date.now()
+    const timer = this.startQueryTimer(limits?.timeout)
 
     try {
       this.isQueryRunning = true
+
       const [result, fields] = params && params.length > 0
         ? await this.connection!.query(sql, params)
         : await this.connection!.query(sql)
       this.isQueryRunning = false
 
       if (Array.isArray(result)) {
-        const columns: ColumnInfo[] = (fields as mysql.FieldPacket[])?.map((field) => ({
-          name: field.name,
-          type: this.mapMySQLType(field.type),
-          nullable: true,
-          primaryKey: ((field.flags as number) & 2) !== 0
-        })) || []
-
         return {
-          columns,
+          columns: this.mapFields(fields as mysql.FieldPacket[]),
           rows: result as Record<string, unknown>[],
           rowCount: result.length,
           executionTime: Date.now() - startTime
@@ -228,11 +234,97 @@ export class MySQLDriver extends BaseDriver {
         rows: [],
         rowCount: 0,
         executionTime: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error)
+        error: timer.expired ? queryTimeoutError(limits!.timeout!) : error instanceof Error ? error.message : String(error)
       }
+    } finally {
+      timer.clear()
     }
   }
 
+  /**
+   * Streams the rows through the callback connection, pausing it once the rows asked
+   * for have arrived. Closing before the end kills the query on the server and drops
+   * the rows still on their way.
+   */
+  protected async openRowSource(sql: string, params?: unknown[]): Promise<RowSource> {
+    // The promise API buffers the whole result, so this goes through the callback connection
+    const core = (this.connection as unknown as { connection: CoreConnection }).connection
+    const buffered: Record<string, unknown>[] = []
+    let columns: ColumnInfo[] = []
+    let wanted = 0
+    let ended = false
+    let closing = false
+    let failure: Error | null = null
+    let wake: (() => void) | null = null
+
+    const notify = () => {
+      const resolve = wake
+      wake = null
+      resolve?.()
+    }
+    const finish = (error?: Error) => {
+      if (error && !closing) failure = error
+      ended = true
+      this.isQueryRunning = false
+      notify()
+    }
+
+    this.isQueryRunning = true
+    const query = params && params.length > 0 ? core.query(sql, params) : core.query(sql)
+    query.on('fields', (packets: mysql.FieldPacket[]) => {
+      columns = this.mapFields(packets)
+    })
+    query.on('result', (row) => {
+      if (closing) return
+      buffered.push(row as Record<string, unknown>)
+      if (buffered.length >= wanted) {
+        core.pause()
+        notify()
+      }
+    })
+    query.on('error', (error: Error) => finish(error))
+    query.on('end', () => finish())
+
+    return {
+      get columns() {
+        return columns
+      },
+      read: async (count) => {
+        if (buffered.length < count && !ended) {
+          wanted = count
+          await new Promise<void>((resolve) => {
+            wake = resolve
+            core.resume()
+          })
+        }
+        if (failure) throw failure
+        return buffered.splice(0, count)
+      },
+      close: async () => {
+        if (ended) return
+        closing = true
+        buffered.length = 0
+        const done = new Promise<void>((resolve) => {
+          wake = resolve
+        })
+        // KILL QUERY must land before the connection runs anything else
+        const kill = this.cancelQuery()
+        core.resume()
+        await kill
+        await done
+      }
+    }
+  }
+
+  private mapFields(fields: mysql.FieldPacket[] | undefined): ColumnInfo[] {
+    return fields?.map((field) => ({
+      name: field.name,
+      type: this.mapMySQLType(field.type),
+      nullable: true,
+      primaryKey: ((field.flags as number) & 2) !== 0
+    })) || []
+  }
+
   private mapMySQLType(typeId: number | undefined): string {
     const types: Record<number, string> = {
       0: 'DECIMAL',
@@ -497,6 +589,12 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  protected buildTableReadQuery(table: string, options: TableReadOptions): { sql: string; params: unknown[] } {
+    const { clause: whereClause, values } = this.buildWhereClauseMysql({ filters: options.filters })
+    const orderClause = this.buildTableOrderClause(options, (name) => `\`${name}\``, (column) => `CAST(${column} AS BINARY)`)
+    return { sql: `SELECT * FROM \`${table}\` ${whereClause} ${orderClause}`, params: values }
+  }
+
   private buildOrderClauseMysql(options: DataOptions): string {
     if (!options.orderBy) return ''
     const direction = options.orderDirection || 'ASC'
@@ -599,8 +697,7 @@ export class MySQLDriver extends BaseDriver {
     return def
   }
 
-  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildAddColumnSQL(request: AddColumnRequest): string {
     const { table, column } = request
 
     let columnDef = this.buildColumnDefinition(column)
@@ -608,7 +705,12 @@ export class MySQLDriver extends BaseDriver {
       columnDef += column.afterColumn === 'FIRST' ? ' FIRST' : ` AFTER \`${column.afterColumn}\``
     }
 
-    const sql = `ALTER TABLE \`${table}\` ADD COLUMN ${columnDef}`
+    return `ALTER TABLE \`${table}\` ADD COLUMN ${columnDef}`
+  }
+
+  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildAddColumnSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -618,14 +720,18 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
-  async modifyColumn(request: ModifyColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildModifyColumnSQL(request: ModifyColumnRequest): string[] {
     const { table, oldName, newDefinition } = request
 
     const columnDef = this.buildColumnDefinition(newDefinition)
-    const sql = oldName !== newDefinition.name
+    return [oldName !== newDefinition.name
       ? `ALTER TABLE \`${table}\` CHANGE COLUMN \`${oldName}\` ${columnDef}`
-      : `ALTER TABLE \`${table}\` MODIFY COLUMN ${columnDef}`
+      : `ALTER TABLE \`${table}\` MODIFY COLUMN ${columnDef}`]
+  }
+
+  async modifyColumn(request: ModifyColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const [sql] = this.buildModifyColumnSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -635,11 +741,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropColumnSQL(request: DropColumnRequest): string {
+    return `ALTER TABLE \`${request.table}\` DROP COLUMN \`${request.columnName}\``
+  }
+
   async dropColumn(request: DropColumnRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { table, columnName } = request
-
-    const sql = `ALTER TABLE \`${table}\` DROP COLUMN \`${columnName}\``
+    const sql = this.buildDropColumnSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -682,14 +790,18 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
-  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildCreateIndexSQL(request: CreateIndexRequest): string {
     const { table, index } = request
 
     const uniqueKeyword = index.unique ? 'UNIQUE ' : ''
     const columns = index.columns.map((c) => `\`${c}\``).join(', ')
     const indexType = index.type ? ` USING ${index.type}` : ''
-    const sql = `CREATE ${uniqueKeyword}INDEX \`${index.name}\` ON \`${table}\` (${columns})${indexType}`
+    return `CREATE ${uniqueKeyword}INDEX \`${index.name}\` ON \`${table}\` (${columns})${indexType}`
+  }
+
+  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildCreateIndexSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -699,11 +811,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropIndexSQL(request: DropIndexRequest): string {
+    return `DROP INDEX \`${request.indexName}\` ON \`${request.table}\``
+  }
+
   async dropIndex(request: DropIndexRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { table, indexName } = request
-
-    const sql = `DROP INDEX \`${indexName}\` ON \`${table}\``
+    const sql = this.buildDropIndexSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -713,8 +827,7 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
-  async addForeignKey(request: AddForeignKeyRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildAddForeignKeySQL(request: AddForeignKeyRequest): string {
     const { table, foreignKey } = request
 
     const columns = foreignKey.columns.map((c) => `\`${c}\``).join(', ')
@@ -722,8 +835,13 @@ export class MySQLDriver extends BaseDriver {
     const onUpdate = foreignKey.onUpdate ? ` ON UPDATE ${foreignKey.onUpdate}` : ''
     const onDelete = foreignKey.onDelete ? ` ON DELETE ${foreignKey.onDelete}` : ''
 
-    const sql = `ALTER TABLE \`${table}\` ADD CONSTRAINT \`${foreignKey.name}\` ` +
+    return `ALTER TABLE \`${table}\` ADD CONSTRAINT \`${foreignKey.name}\` ` +
       `FOREIGN KEY (${columns}) REFERENCES \`${foreignKey.referencedTable}\` (${refColumns})${onUpdate}${onDelete}`
+  }
+
+  async addForeignKey(request: AddForeignKeyRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildAddForeignKeySQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -733,11 +851,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropForeignKeySQL(request: DropForeignKeyRequest): string {
+    return `ALTER TABLE \`${request.table}\` DROP FOREIGN KEY \`${request.constraintName}\``
+  }
+
   async dropForeignKey(request: DropForeignKeyRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { table, constraintName } = request
-
-    const sql = `ALTER TABLE \`${table}\` DROP FOREIGN KEY \`${constraintName}\``
+    const sql = this.buildDropForeignKeySQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -747,8 +867,7 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
-  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildCreateTableSQL(request: CreateTableRequest): string {
     const { table } = request
 
     const columnDefs = table.columns.map((col) => this.buildColumnDefinition(col))
@@ -788,6 +907,12 @@ export class MySQLDriver extends BaseDriver {
     if (table.comment) {
       sql += ` COMMENT='${table.comment.replace(/'/g, "''")}'`
     }
+    return sql
+  }
+
+  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildCreateTableSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -797,9 +922,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropTableSQL(request: DropTableRequest): string {
+    return `DROP TABLE \`${request.table}\``
+  }
+
   async dropTable(request: DropTableRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const sql = `DROP TABLE \`${request.table}\``
+    const sql = this.buildDropTableSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -857,6 +986,38 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  async applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    this.ensureConnected()
+    const results: RowChangeResult[] = []
+    const dialect = { quote: (name: string) => `\`${name}\``, emptyInsert: '() VALUES ()' }
+
+    try {
+      await this.connection!.query('START TRANSACTION')
+      for (const [index, change] of request.changes.entries()) {
+        let sql: string | undefined
+        try {
+          const statement = this.buildRowChangeStatement(`\`${request.table}\``, change, dialect)
+          sql = statement.sql
+          const [result] = await this.connection!.query(sql, statement.params)
+          results.push({ index, success: true, sql, affectedRows: (result as mysql.ResultSetHeader).affectedRows })
+        } catch (error) {
+          results.push({ index, success: false, sql, error: error instanceof Error ? error.message : String(error) })
+          throw error
+        }
+      }
+      await this.connection!.query('COMMIT')
+      return { success: true, results }
+    } catch (error) {
+      try { await this.connection!.query('ROLLBACK') } catch {}
+      return {
+        success: false,
+        results,
+        error: error instanceof Error ? error.message : String(error),
+        rolledBack: true
+      }
+    }
+  }
+
   // View operations
   async createView(request: CreateViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
@@ -872,9 +1033,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropViewSQL(request: DropViewRequest): string {
+    return `DROP VIEW IF EXISTS \`${request.viewName}\``
+  }
+
   async dropView(request: DropViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const sql = `DROP VIEW IF EXISTS \`${request.viewName}\``
+    const sql = this.buildDropViewSQL(request)
 
     try {
       await this.connection!.query(sql)
@@ -1380,11 +1545,13 @@ export class MySQLDriver extends BaseDriver {
     }
   }
 
+  buildDropTriggerSQL(request: DropTriggerRequest): string {
+    return `DROP TRIGGER IF EXISTS \`${request.triggerName}\``
+  }
+
   async dropTrigger(request: DropTriggerRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { triggerName } = request
-
-    const sql = `DROP TRIGGER IF EXISTS \`${triggerName}\``
+    const sql = this.buildDropTriggerSQL(request)
 
     try {
       await this.connection!.query(sql)
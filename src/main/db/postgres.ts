@@ -1,4 +1,5 @@
-import { Pool, PoolClient } from 'pg'
+import { Pool, PoolClient, type FieldDef } from 'pg'
+import Cursor from 'pg-cursor'
 
 // Maps PostgreSQL information_schema type names to the standard names used in POSTGRESQL_DATA_TYPES
 const PG_TYPE_ALIASES: Record<string, string> = {
@@ -14,8 +15,9 @@ const normalizePgTypeName = (rawType: string): string => {
   const upper = rawType.toUpperCase()
   return PG_TYPE_ALIASES[upper] ?? upper
 }
-import { BaseDriver, TestConnectionResult } from './base'
+import { BaseDriver, TestConnectionResult, queryTimeoutError, type RowSource, type SchemaScriptBuilder, type TableReadOptions } from './base'
 import { logger } from '../utils/logger'
+import { SqlTokenType, tokenizeSql } from '../utils/sql'
 import {
   DatabaseType,
   SSLMode,
@@ -23,6 +25,7 @@ import {
   RoutineType,
   type ConnectionConfig,
   type QueryResult,
+  type QueryLimits,
   type Database as DatabaseInfo,
   type Table,
   type Column,
@@ -48,6 +51,9 @@ import type {
   RenameTableRequest,
   InsertRowRequest,
   DeleteRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChangeResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -74,7 +80,7 @@ import type {
 } from '../types'
 import { POSTGRESQL_DATA_TYPES } from '../types/schema-operations'
 
-export class PostgreSQLDriver extends BaseDriver {
+export class PostgreSQLDriver extends BaseDriver implements SchemaScriptBuilder {
   readonly type = DatabaseType.PostgreSQL
   private pool: Pool | null = null
   private client: PoolClient | null = null
@@ -246,31 +252,23 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<QueryResult> {
+  async execute(sql: string, params?: unknown[], limits?: QueryLimits): Promise<QueryResult> {
     this.ensureConnected()
+    if (this.readsThroughCursor(sql, limits)) {
+      return this.executeLimited(sql, params, limits!)
+    }
+
     const startTime = Date.now()
+    const timer = this.startQueryTimer(limits?.timeout)
 
     try {
       // Get the backend PID before running the query so it can be cancelled
-      const pidResult = await this.client!.query('SELECT pg_backend_pid() AS pid')
-      this.currentQueryPid = pidResult.rows[0]?.pid ?? null
-
-      // Convert ? placeholders to $1, $2, etc. for PostgreSQL
-      let pgSql = sql
-      if (params && params.length > 0) {
-        let paramIndex = 1
-        pgSql = sql.replace(/\?/g, () => `$${paramIndex++}`)
-      }
+      await this.loadBackendPid()
 
-      const result = await this.client!.query(pgSql, params)
+      const result = await this.client!.query(this.toPgPlaceholders(sql, params), params)
       this.currentQueryPid = null
 
-      const columns: ColumnInfo[] = result.fields?.map((field) => ({
-        name: field.name,
-        type: this.mapPgType(field.dataTypeID),
-        nullable: true,
-        primaryKey: false
-      })) || []
+      const columns = this.mapFields(result.fields)
 
       if (result.rows) {
         return {
@@ -295,11 +293,88 @@ export class PostgreSQLDriver extends BaseDriver {
         rows: [],
         rowCount: 0,
         executionTime: Date.now() - startTime,
-        error: error instanceof Error ? error.message : String(error)
+        error: timer.expired ? queryTimeoutError(limits!.timeout!) : error instanceof Error ? error.message : String(error)
+      }
+    } finally {
+      timer.clear()
+    }
+  }
+
+  private async loadBackendPid(): Promise<number | null> {
+    const pidResult = await this.client!.query('SELECT pg_backend_pid() AS pid')
+    this.currentQueryPid = pidResult.rows[0]?.pid ?? null
+    return this.currentQueryPid
+  }
+
+  /**
+   * Converts ? placeholders to $1, $2, etc. for PostgreSQL. SQL that already uses $n is left
+   * alone, and so are question marks in strings, identifiers and comments and the jsonb
+   * ?| and ?& operators.
+   */
+  private toPgPlaceholders(sql: string, params?: unknown[]): string {
+    if (!params || params.length === 0) return sql
+    const tokens = tokenizeSql(sql)
+    if (tokens.some((token) => token.type === SqlTokenType.Word && /^\$\d+$/.test(token.text))) return sql
+
+    let paramIndex = 1
+    return tokens
+      .map((token, i) => {
+        const next = tokens[i + 1]?.text
+        const isPlaceholder = token.type === SqlTokenType.Symbol && token.text === '?' && next !== '|' && next !== '&'
+        return isPlaceholder ? `$${paramIndex++}` : token.text
+      })
+      .join('')
+  }
+
+  /**
+   * Reads through a cursor on a named portal, so rows stay on the server until asked
+   * for. The client is busy with the portal until the cursor is closed.
+   */
+  protected async openRowSource(sql: string, params?: unknown[]): Promise<RowSource> {
+    const pid = await this.loadBackendPid()
+    this.currentQueryPid = null
+
+    const cursor = new Cursor<Record<string, unknown>>(this.toPgPlaceholders(sql, params), params)
+    this.client!.query(cursor)
+
+    let columns: ColumnInfo[] = []
+    // An errored cursor has already released the client; closing it again would wait forever
+    let failed = false
+
+    return {
+      get columns() {
+        return columns
+      },
+      read: (count) => {
+        this.currentQueryPid = pid
+        return new Promise<Record<string, unknown>[]>((resolve, reject) => {
+          cursor.read(count, (error, rows, result) => {
+            this.currentQueryPid = null
+            if (error) {
+              failed = true
+              reject(error)
+              return
+            }
+            if (columns.length === 0) columns = this.mapFields(result.fields)
+            resolve(rows)
+          })
+        })
+      },
+      close: async () => {
+        if (!failed) await cursor.close()
       }
     }
   }
 
+  private mapFields(fields: FieldDef[] | undefined): ColumnInfo[] {
+    return fields?.map((field) => ({
+      name: field.name,
+      type: this.mapPgType(field.dataTypeID),
+      nullable: true,
+      primaryKey: false
+    })) || []
+  }
+
   private mapPgType(oid: number): string {
     const types: Record<number, string> = {
       16: 'BOOLEAN',
@@ -592,6 +667,12 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
+  protected buildTableReadQuery(table: string, options: TableReadOptions): { sql: string; params: unknown[] } {
+    const { clause: whereClause, values } = this.buildWhereClausePg({ filters: options.filters })
+    const orderClause = this.buildTableOrderClause(options, (name) => `"${name}"`, (column) => `${column} COLLATE "C"`)
+    return { sql: `SELECT * FROM "${this.currentSchema}"."${table}" ${whereClause} ${orderClause}`, params: values }
+  }
+
   private buildWhereClausePg(options: DataOptions): { clause: string; values: unknown[] } {
     if (!options.filters || options.filters.length === 0) {
       return { clause: '', values: [] }
@@ -725,8 +806,7 @@ export class PostgreSQLDriver extends BaseDriver {
     return type
   }
 
-  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildAddColumnSQL(request: AddColumnRequest): string {
     const { table, column } = request
 
     let columnDef = `"${column.name}" ${this.buildColumnType(column)}`
@@ -740,7 +820,12 @@ export class PostgreSQLDriver extends BaseDriver {
     if (column.unique && !column.primaryKey) columnDef += ' UNIQUE'
 
     const qualifiedTable = `"${this.currentSchema}"."${table}"`
-    const sql = `ALTER TABLE ${qualifiedTable} ADD COLUMN ${columnDef}`
+    return `ALTER TABLE ${qualifiedTable} ADD COLUMN ${columnDef}`
+  }
+
+  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildAddColumnSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -750,49 +835,50 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async modifyColumn(request: ModifyColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildModifyColumnSQL(request: ModifyColumnRequest): string[] {
     const { table, oldName, newDefinition } = request
 
     const qualifiedTable = `"${this.currentSchema}"."${table}"`
-    const sqls: string[] = []
+    const statements: string[] = []
 
-    try {
-      // Rename column if needed
-      if (oldName !== newDefinition.name) {
-        const renameSql = `ALTER TABLE ${qualifiedTable} RENAME COLUMN "${oldName}" TO "${newDefinition.name}"`
-        await this.client!.query(renameSql)
-        sqls.push(renameSql)
+    // Rename column if needed
+    if (oldName !== newDefinition.name) {
+      statements.push(`ALTER TABLE ${qualifiedTable} RENAME COLUMN "${oldName}" TO "${newDefinition.name}"`)
+    }
+
+    const columnName = newDefinition.name
+
+    // Change type
+    statements.push(`ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" TYPE ${this.buildColumnType(newDefinition)}`)
+
+    // Change nullability
+    statements.push(newDefinition.nullable
+      ? `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" DROP NOT NULL`
+      : `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" SET NOT NULL`)
+
+    // Change default
+    if (newDefinition.defaultValue !== undefined) {
+      if (newDefinition.defaultValue === null) {
+        statements.push(`ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" DROP DEFAULT`)
+      } else {
+        const defaultVal = typeof newDefinition.defaultValue === 'string'
+          ? `'${newDefinition.defaultValue.replace(/'/g, "''")}'`
+          : newDefinition.defaultValue
+        statements.push(`ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" SET DEFAULT ${defaultVal}`)
       }
+    }
 
-      const columnName = newDefinition.name
-
-      // Change type
-      const typeSql = `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" TYPE ${this.buildColumnType(newDefinition)}`
-      await this.client!.query(typeSql)
-      sqls.push(typeSql)
-
-      // Change nullability
-      const nullSql = newDefinition.nullable
-        ? `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" DROP NOT NULL`
-        : `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" SET NOT NULL`
-      await this.client!.query(nullSql)
-      sqls.push(nullSql)
-
-      // Change default
-      if (newDefinition.defaultValue !== undefined) {
-        if (newDefinition.defaultValue === null) {
-          const dropDefaultSql = `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" DROP DEFAULT`
-          await this.client!.query(dropDefaultSql)
-          sqls.push(dropDefaultSql)
-        } else {
-          const defaultVal = typeof newDefinition.defaultValue === 'string'
-            ? `'${newDefinition.defaultValue.replace(/'/g, "''")}'`
-            : newDefinition.defaultValue
-          const setDefaultSql = `ALTER TABLE ${qualifiedTable} ALTER COLUMN "${columnName}" SET DEFAULT ${defaultVal}`
-          await this.client!.query(setDefaultSql)
-          sqls.push(setDefaultSql)
-        }
+    return statements
+  }
+
+  async modifyColumn(request: ModifyColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sqls: string[] = []
+
+    try {
+      for (const statement of this.buildModifyColumnSQL(request)) {
+        await this.client!.query(statement)
+        sqls.push(statement)
       }
 
       return { success: true, sql: sqls.join(';\n') }
@@ -801,12 +887,15 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async dropColumn(request: DropColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildDropColumnSQL(request: DropColumnRequest): string {
     const { table, columnName } = request
-
     const qualifiedTable = `"${this.currentSchema}"."${table}"`
-    const sql = `ALTER TABLE ${qualifiedTable} DROP COLUMN "${columnName}"`
+    return `ALTER TABLE ${qualifiedTable} DROP COLUMN "${columnName}"`
+  }
+
+  async dropColumn(request: DropColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildDropColumnSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -831,15 +920,19 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildCreateIndexSQL(request: CreateIndexRequest): string {
     const { table, index, schema } = request
 
     const qualifiedTable = schema ? `"${schema}"."${table}"` : `"${this.currentSchema}"."${table}"`
     const uniqueKeyword = index.unique ? 'UNIQUE ' : ''
     const columns = index.columns.map((c) => `"${c}"`).join(', ')
     const indexType = index.type ? ` USING ${index.type}` : ''
-    const sql = `CREATE ${uniqueKeyword}INDEX "${index.name}" ON ${qualifiedTable}${indexType} (${columns})`
+    return `CREATE ${uniqueKeyword}INDEX "${index.name}" ON ${qualifiedTable}${indexType} (${columns})`
+  }
+
+  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildCreateIndexSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -849,9 +942,21 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
+  /**
+   * Indexes that back a UNIQUE / PRIMARY KEY / EXCLUDE constraint are dropped through
+   * the constraint; `backsConstraint` says which form to generate.
+   */
+  buildDropIndexSQL(request: DropIndexRequest, backsConstraint = false): string {
+    const { table, indexName } = request
+    const qualifiedTable = `"${this.currentSchema}"."${table}"`
+    return backsConstraint
+      ? `ALTER TABLE ${qualifiedTable} DROP CONSTRAINT "${indexName}" CASCADE`
+      : `DROP INDEX "${this.currentSchema}"."${indexName}"`
+  }
+
   async dropIndex(request: DropIndexRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { table, indexName } = request
+    const { indexName } = request
 
     // Check if the index backs a constraint (UNIQUE / PRIMARY KEY / EXCLUDE)
     const constraintCheck = await this.client!.query(
@@ -863,11 +968,7 @@ export class PostgreSQLDriver extends BaseDriver {
       [indexName, this.currentSchema]
     )
 
-    const qualifiedTable = `"${this.currentSchema}"."${table}"`
-    const isConstraint = constraintCheck.rows.length > 0
-    const sql = isConstraint
-      ? `ALTER TABLE ${qualifiedTable} DROP CONSTRAINT "${indexName}" CASCADE`
-      : `DROP INDEX "${this.currentSchema}"."${indexName}"`
+    const sql = this.buildDropIndexSQL(request, constraintCheck.rows.length > 0)
 
     try {
       await this.client!.query(sql)
@@ -877,8 +978,7 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async addForeignKey(request: AddForeignKeyRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildAddForeignKeySQL(request: AddForeignKeyRequest): string {
     const { table, foreignKey } = request
 
     const columns = foreignKey.columns.map((c) => `"${c}"`).join(', ')
@@ -889,8 +989,13 @@ export class PostgreSQLDriver extends BaseDriver {
     const qualifiedTable = `"${this.currentSchema}"."${table}"`
     const refSchema = foreignKey.referencedSchema || this.currentSchema
     const qualifiedRefTable = `"${refSchema}"."${foreignKey.referencedTable}"`
-    const sql = `ALTER TABLE ${qualifiedTable} ADD CONSTRAINT "${foreignKey.name}" ` +
+    return `ALTER TABLE ${qualifiedTable} ADD CONSTRAINT "${foreignKey.name}" ` +
       `FOREIGN KEY (${columns}) REFERENCES ${qualifiedRefTable} (${refColumns})${onUpdate}${onDelete}`
+  }
+
+  async addForeignKey(request: AddForeignKeyRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildAddForeignKeySQL(request)
 
     try {
       await this.client!.query(sql)
@@ -900,12 +1005,15 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async dropForeignKey(request: DropForeignKeyRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildDropForeignKeySQL(request: DropForeignKeyRequest): string {
     const { table, constraintName } = request
-
     const qualifiedTable = `"${this.currentSchema}"."${table}"`
-    const sql = `ALTER TABLE ${qualifiedTable} DROP CONSTRAINT "${constraintName}"`
+    return `ALTER TABLE ${qualifiedTable} DROP CONSTRAINT "${constraintName}"`
+  }
+
+  async dropForeignKey(request: DropForeignKeyRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildDropForeignKeySQL(request)
 
     try {
       await this.client!.query(sql)
@@ -915,8 +1023,11 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  /**
+   * Builds the CREATE TABLE statement only; indexes and the table comment are
+   * separate statements.
+   */
+  buildCreateTableSQL(request: CreateTableRequest): string {
     const { table, schema } = request
 
     const qualifiedName = schema ? `"${schema}"."${table.name}"` : `"${table.name}"`
@@ -967,7 +1078,14 @@ export class PostgreSQLDriver extends BaseDriver {
       }
     }
 
-    const sql = `CREATE TABLE ${qualifiedName} (\n  ${columnDefs.join(',\n  ')}\n)`
+    return `CREATE TABLE ${qualifiedName} (\n  ${columnDefs.join(',\n  ')}\n)`
+  }
+
+  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const { table, schema } = request
+    const qualifiedName = schema ? `"${schema}"."${table.name}"` : `"${table.name}"`
+    const sql = this.buildCreateTableSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -991,9 +1109,13 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
+  buildDropTableSQL(request: DropTableRequest): string {
+    return `DROP TABLE "${this.currentSchema}"."${request.table}"`
+  }
+
   async dropTable(request: DropTableRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const sql = `DROP TABLE "${this.currentSchema}"."${request.table}"`
+    const sql = this.buildDropTableSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -1050,6 +1172,42 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
+  async applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    this.ensureConnected()
+    const results: RowChangeResult[] = []
+    const dialect = {
+      quote: (name: string) => `"${name}"`,
+      placeholder: (index: number) => `$${index}`
+    }
+    const qualifiedTable = `"${this.currentSchema}"."${request.table}"`
+
+    try {
+      await this.client!.query('BEGIN')
+      for (const [index, change] of request.changes.entries()) {
+        let sql: string | undefined
+        try {
+          const statement = this.buildRowChangeStatement(qualifiedTable, change, dialect)
+          sql = statement.sql
+          const result = await this.client!.query(sql, statement.params)
+          results.push({ index, success: true, sql, affectedRows: result.rowCount || 0 })
+        } catch (error) {
+          results.push({ index, success: false, sql, error: error instanceof Error ? error.message : String(error) })
+          throw error
+        }
+      }
+      await this.client!.query('COMMIT')
+      return { success: true, results }
+    } catch (error) {
+      try { await this.client!.query('ROLLBACK') } catch {}
+      return {
+        success: false,
+        results,
+        error: error instanceof Error ? error.message : String(error),
+        rolledBack: true
+      }
+    }
+  }
+
   // View operations
   async createView(request: CreateViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
@@ -1066,11 +1224,15 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async dropView(request: DropViewRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildDropViewSQL(request: DropViewRequest): string {
     const cascade = request.cascade ? ' CASCADE' : ''
     const qualifiedView = `"${this.currentSchema}"."${request.viewName}"`
-    const sql = `DROP VIEW IF EXISTS ${qualifiedView}${cascade}`
+    return `DROP VIEW IF EXISTS ${qualifiedView}${cascade}`
+  }
+
+  async dropView(request: DropViewRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildDropViewSQL(request)
 
     try {
       await this.client!.query(sql)
@@ -1771,20 +1933,29 @@ export class PostgreSQLDriver extends BaseDriver {
     }
   }
 
-  async dropTrigger(request: DropTriggerRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildDropTriggerSQL(request: DropTriggerRequest): string {
     const { triggerName, table, schema, cascade } = request
 
     if (!table) {
+      throw new Error('PostgreSQL requires the table name to drop a trigger')
+    }
+
+    const targetSchema = schema || this.currentSchema
+    const cascadeClause = cascade ? ' CASCADE' : ''
+    return `DROP TRIGGER IF EXISTS "${triggerName}" ON "${targetSchema}"."${table}"${cascadeClause}`
+  }
+
+  async dropTrigger(request: DropTriggerRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+
+    if (!request.table) {
       return {
         success: false,
         error: 'PostgreSQL requires the table name to drop a trigger'
       }
     }
 
-    const targetSchema = schema || this.currentSchema
-    const cascadeClause = cascade ? ' CASCADE' : ''
-    const sql = `DROP TRIGGER IF EXISTS "${triggerName}" ON "${targetSchema}"."${table}"${cascadeClause}`
+    const sql = this.buildDropTriggerSQL(request)
 
     try {
       await this.client!.query(sql)
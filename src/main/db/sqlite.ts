@@ -1,11 +1,12 @@
 import Database from 'better-sqlite3'
-import { BaseDriver, TestConnectionResult } from './base'
+import { BaseDriver, TestConnectionResult, queryTimeoutError, type RowSource, type SchemaScriptBuilder, type TableReadOptions } from './base'
 import * as fs from 'fs'
 import {
   DatabaseType,
   TableObjectType,
   type ConnectionConfig,
   type QueryResult,
+  type QueryLimits,
   type Database as DatabaseInfo,
   Table,
   Column,
@@ -31,6 +32,9 @@ import type {
   RenameTableRequest,
   InsertRowRequest,
   DeleteRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
+  RowChangeResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -44,7 +48,31 @@ import type {
 } from '../types/schema-operations'
 import { SQLITE_DATA_TYPES } from '../types/schema-operations'
 
-export class SQLiteDriver extends BaseDriver {
+/**
+ * Pulls up to count rows off the iterator. better-sqlite3 runs on the main thread and
+ * cannot be interrupted, so the timeout is checked between rows: a query that takes
+ * long before its first row is not stopped.
+ */
+const readRows = (
+  iterator: Iterator<Record<string, unknown>>,
+  count: number,
+  timeout: number | undefined
+): Record<string, unknown>[] => {
+  const startTime = Date.now()
+  const rows: Record<string, unknown>[] = []
+  while (rows.length < count) {
+    if (timeout && Date.now() - startTime > timeout) {
+      iterator.return?.()
+      throw new Error(queryTimeoutError(timeout))
+    }
+    const next = iterator.next()
+    if (next.done) break
+    rows.push(next.value)
+  }
+  return rows
+}
+
+export class SQLiteDriver extends BaseDriver implements SchemaScriptBuilder {
   readonly type = DatabaseType.SQLite
   private db: Database.Database | null = null
 
@@ -100,8 +128,12 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<QueryResult> {
+  async execute(sql: string, params?: unknown[], limits?: QueryLimits): Promise<QueryResult> {
     this.ensureConnected()
+    if (this.readsThroughCursor(sql, limits)) {
+      return this.executeLimited(sql, params, limits!)
+    }
+
     const startTime = Date.now()
 
     try {
@@ -112,15 +144,16 @@ export class SQLiteDriver extends BaseDriver {
 
       if (isSelect) {
         const stmt = this.db!.prepare(sql)
+        const columns = this.mapColumns(stmt)
+
+        if (limits?.timeout) {
+          const rows = readRows(this.iterate(stmt, params), Infinity, limits.timeout)
+          return { columns, rows, rowCount: rows.length, executionTime: Date.now() - startTime }
+        }
+
         const rows = params && params.length > 0
           ? stmt.all(...params) as Record<string, unknown>[]
           : stmt.all() as Record<string, unknown>[]
-        const columns = stmt.columns().map((col) => ({
-          name: col.name,
-          type: col.type || 'unknown',
-          nullable: true,
-          primaryKey: false
-        }))
 
         return {
           columns,
@@ -153,6 +186,35 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  /**
+   * Steps through the rows of the statement as they are asked for. The connection is
+   * busy until the iterator is closed.
+   */
+  protected async openRowSource(sql: string, params?: unknown[], timeout?: number): Promise<RowSource> {
+    const stmt = this.db!.prepare(sql)
+    const iterator = this.iterate(stmt, params)
+    return {
+      columns: this.mapColumns(stmt),
+      read: async (count) => readRows(iterator, count, timeout),
+      close: async () => {
+        iterator.return?.()
+      }
+    }
+  }
+
+  private iterate(stmt: Database.Statement, params?: unknown[]): IterableIterator<Record<string, unknown>> {
+    return (params && params.length > 0 ? stmt.iterate(...params) : stmt.iterate()) as IterableIterator<Record<string, unknown>>
+  }
+
+  private mapColumns(stmt: Database.Statement): ColumnInfo[] {
+    return stmt.columns().map((col) => ({
+      name: col.name,
+      type: col.type || 'unknown',
+      nullable: true,
+      primaryKey: false
+    }))
+  }
+
   async getDatabases(): Promise<DatabaseInfo[]> {
     this.ensureConnected()
     // SQLite only has one database per file
@@ -299,6 +361,12 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  protected buildTableReadQuery(table: string, options: TableReadOptions): { sql: string; params: unknown[] } {
+    const { clause: whereClause, values } = this.buildWhereClause({ filters: options.filters })
+    const orderClause = this.buildTableOrderClause(options, (name) => `"${name}"`, (column) => `${column} COLLATE BINARY`)
+    return { sql: `SELECT * FROM "${table}" ${whereClause} ${orderClause}`, params: values }
+  }
+
   // Schema editing operations
 
   getDataTypes(): DataTypeInfo[] {
@@ -338,17 +406,16 @@ export class SQLiteDriver extends BaseDriver {
     return def
   }
 
-  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildAddColumnSQL(request: AddColumnRequest): string {
     const { table, column } = request
 
     // SQLite doesn't support adding PRIMARY KEY or UNIQUE columns via ALTER TABLE
     // Also doesn't support adding NOT NULL columns without default
     if (column.primaryKey) {
-      return { success: false, error: 'SQLite does not support adding PRIMARY KEY columns. Table must be recreated.' }
+      throw new Error('SQLite does not support adding PRIMARY KEY columns. Table must be recreated.')
     }
     if (!column.nullable && column.defaultValue === undefined) {
-      return { success: false, error: 'SQLite requires a default value when adding NOT NULL columns' }
+      throw new Error('SQLite requires a default value when adding NOT NULL columns')
     }
 
     let columnDef = `"${column.name}" ${column.type}`
@@ -362,7 +429,18 @@ export class SQLiteDriver extends BaseDriver {
       columnDef += ` DEFAULT ${defaultVal}`
     }
 
-    const sql = `ALTER TABLE "${table}" ADD COLUMN ${columnDef}`
+    return `ALTER TABLE "${table}" ADD COLUMN ${columnDef}`
+  }
+
+  async addColumn(request: AddColumnRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+
+    let sql: string
+    try {
+      sql = this.buildAddColumnSQL(request)
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) }
+    }
 
     try {
       this.db!.exec(sql)
@@ -372,6 +450,10 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildModifyColumnSQL(request: ModifyColumnRequest): string[] {
+    throw new Error(`SQLite cannot alter column "${request.oldName}" in place. Table "${request.table}" must be recreated.`)
+  }
+
   async modifyColumn(request: ModifyColumnRequest): Promise<SchemaOperationResult> {
     // SQLite doesn't support ALTER COLUMN, must recreate table
     return this.recreateTableWithModification(request.table, 'modify', {
@@ -380,12 +462,15 @@ export class SQLiteDriver extends BaseDriver {
     })
   }
 
+  buildDropColumnSQL(request: DropColumnRequest): string {
+    // SQLite 3.35.0+ supports DROP COLUMN
+    return `ALTER TABLE "${request.table}" DROP COLUMN "${request.columnName}"`
+  }
+
   async dropColumn(request: DropColumnRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
     const { table, columnName } = request
-
-    // SQLite 3.35.0+ supports DROP COLUMN
-    const sql = `ALTER TABLE "${table}" DROP COLUMN "${columnName}"`
+    const sql = this.buildDropColumnSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -415,13 +500,17 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
-  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  buildCreateIndexSQL(request: CreateIndexRequest): string {
     const { table, index } = request
 
     const uniqueKeyword = index.unique ? 'UNIQUE ' : ''
     const columns = index.columns.map((c) => `"${c}"`).join(', ')
-    const sql = `CREATE ${uniqueKeyword}INDEX "${index.name}" ON "${table}" (${columns})`
+    return `CREATE ${uniqueKeyword}INDEX "${index.name}" ON "${table}" (${columns})`
+  }
+
+  async createIndex(request: CreateIndexRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const sql = this.buildCreateIndexSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -431,11 +520,13 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildDropIndexSQL(request: DropIndexRequest): string {
+    return `DROP INDEX "${request.indexName}"`
+  }
+
   async dropIndex(request: DropIndexRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { indexName } = request
-
-    const sql = `DROP INDEX "${indexName}"`
+    const sql = this.buildDropIndexSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -445,6 +536,10 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildAddForeignKeySQL(request: AddForeignKeyRequest): string {
+    throw new Error(`SQLite cannot add foreign key "${request.foreignKey.name}" to an existing table. Table "${request.table}" must be recreated.`)
+  }
+
   async addForeignKey(request: AddForeignKeyRequest): Promise<SchemaOperationResult> {
     // SQLite doesn't support adding foreign keys to existing tables
     // Must recreate table
@@ -453,6 +548,10 @@ export class SQLiteDriver extends BaseDriver {
     })
   }
 
+  buildDropForeignKeySQL(request: DropForeignKeyRequest): string {
+    throw new Error(`SQLite cannot drop foreign key "${request.constraintName}" from an existing table. Table "${request.table}" must be recreated.`)
+  }
+
   async dropForeignKey(request: DropForeignKeyRequest): Promise<SchemaOperationResult> {
     // SQLite doesn't support dropping foreign keys
     // Must recreate table
@@ -461,8 +560,10 @@ export class SQLiteDriver extends BaseDriver {
     })
   }
 
-  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
-    this.ensureConnected()
+  /**
+   * Builds the CREATE TABLE statement only; indexes are separate statements.
+   */
+  buildCreateTableSQL(request: CreateTableRequest): string {
     const { table } = request
 
     const columnDefs = table.columns.map((col) => this.buildColumnDefinition(col))
@@ -487,7 +588,13 @@ export class SQLiteDriver extends BaseDriver {
       }
     }
 
-    const sql = `CREATE TABLE "${table.name}" (\n  ${columnDefs.join(',\n  ')}\n)`
+    return `CREATE TABLE "${table.name}" (\n  ${columnDefs.join(',\n  ')}\n)`
+  }
+
+  async createTable(request: CreateTableRequest): Promise<SchemaOperationResult> {
+    this.ensureConnected()
+    const { table } = request
+    const sql = this.buildCreateTableSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -505,9 +612,13 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildDropTableSQL(request: DropTableRequest): string {
+    return `DROP TABLE "${request.table}"`
+  }
+
   async dropTable(request: DropTableRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const sql = `DROP TABLE "${request.table}"`
+    const sql = this.buildDropTableSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -565,6 +676,38 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  async applyChangeset(request: ApplyChangesetRequest): Promise<ApplyChangesetResult> {
+    this.ensureConnected()
+    const results: RowChangeResult[] = []
+    const dialect = { quote: (name: string) => `"${name}"` }
+
+    try {
+      this.db!.exec('BEGIN')
+      request.changes.forEach((change, index) => {
+        let sql: string | undefined
+        try {
+          const statement = this.buildRowChangeStatement(`"${request.table}"`, change, dialect)
+          sql = statement.sql
+          const result = this.db!.prepare(sql).run(...statement.params)
+          results.push({ index, success: true, sql, affectedRows: result.changes })
+        } catch (error) {
+          results.push({ index, success: false, sql, error: error instanceof Error ? error.message : String(error) })
+          throw error
+        }
+      })
+      this.db!.exec('COMMIT')
+      return { success: true, results }
+    } catch (error) {
+      try { this.db!.exec('ROLLBACK') } catch {}
+      return {
+        success: false,
+        results,
+        error: error instanceof Error ? error.message : String(error),
+        rolledBack: true
+      }
+    }
+  }
+
   // View operations
   async createView(request: CreateViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
@@ -580,9 +723,13 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildDropViewSQL(request: DropViewRequest): string {
+    return `DROP VIEW IF EXISTS "${request.viewName}"`
+  }
+
   async dropView(request: DropViewRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const sql = `DROP VIEW IF EXISTS "${request.viewName}"`
+    const sql = this.buildDropViewSQL(request)
 
     try {
       this.db!.exec(sql)
@@ -899,11 +1046,13 @@ export class SQLiteDriver extends BaseDriver {
     }
   }
 
+  buildDropTriggerSQL(request: DropTriggerRequest): string {
+    return `DROP TRIGGER IF EXISTS "${request.triggerName}"`
+  }
+
   async dropTrigger(request: DropTriggerRequest): Promise<SchemaOperationResult> {
     this.ensureConnected()
-    const { triggerName } = request
-
-    const sql = `DROP TRIGGER IF EXISTS "${triggerName}"`
+    const sql = this.buildDropTriggerSQL(request)
 
     try {
       this.db!.exec(sql)
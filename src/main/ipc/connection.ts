@@ -1,7 +1,17 @@
-import { ipcMain } from 'electron'
+import { BrowserWindow, dialog, ipcMain } from 'electron'
+import { readFile, writeFile } from 'fs/promises'
 import { connectionManager } from '../db/manager'
 import { connectionsService } from '../services/connections'
 import { keychainService } from '../services/keychain'
+import { scanConnectionImports, saveImportedConnections } from '../services/connectionImport'
+import type { ConnectionImportCandidate, SSHHostEntry } from '../services/connectionImport'
+import {
+  buildConnectionExport,
+  importConnectionExport,
+  parseConnectionExport,
+  previewConnectionExport
+} from '../services/connectionExport'
+import type { ConnectionExportOptions, ConnectionFileImportOptions } from '../services/connectionExport'
 import { logger } from '../utils/logger'
 import { DatabaseType } from '../types'
 import type { ConnectionConfig } from '../types'
@@ -38,6 +48,83 @@ export const registerConnectionHandlers = (): void => {
     return JSON.parse(JSON.stringify(result))
   })
 
+  ipcMain.handle('connection:importScan', async (_, filePaths?: string[]) => {
+    logger.debug('IPC: connection:importScan', { files: filePaths?.length ?? 'defaults' })
+    const result = await scanConnectionImports(filePaths)
+    return JSON.parse(JSON.stringify(result))
+  })
+
+  ipcMain.handle('connection:importSave', async (_, candidates: ConnectionImportCandidate[], sshHosts: SSHHostEntry[]) => {
+    logger.debug('IPC: connection:importSave', { count: candidates.length })
+    const result = await saveImportedConnections(
+      JSON.parse(JSON.stringify(candidates)) as ConnectionImportCandidate[],
+      JSON.parse(JSON.stringify(sshHosts)) as SSHHostEntry[]
+    )
+    return JSON.parse(JSON.stringify(result))
+  })
+
+  ipcMain.handle('connection:exportToFile', async (_, options: ConnectionExportOptions) => {
+    logger.debug('IPC: connection:exportToFile', {
+      connections: options.connectionIds.length,
+      folders: options.folders.length,
+      withSecrets: !!options.passphrase
+    })
+
+    try {
+      const file = await buildConnectionExport(options)
+
+      const window = BrowserWindow.getFocusedWindow()
+      const dialogOptions: Electron.SaveDialogOptions = {
+        title: 'Export Connections',
+        defaultPath: 'connections.zequel.json',
+        filters: [
+          { name: 'Zequel Connections', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] }
+        ]
+      }
+      const result = window ? await dialog.showSaveDialog(window, dialogOptions) : await dialog.showSaveDialog(dialogOptions)
+      if (result.canceled || !result.filePath) {
+        return { success: false, error: 'Export canceled' }
+      }
+
+      await writeFile(result.filePath, JSON.stringify(file, null, 2), 'utf-8')
+      return { success: true, filePath: result.filePath, count: file.connections.length }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('Connection export failed', { error: errorMessage })
+      return { success: false, error: errorMessage }
+    }
+  })
+
+  ipcMain.handle('connection:previewFile', async () => {
+    logger.debug('IPC: connection:previewFile')
+
+    const window = BrowserWindow.getFocusedWindow()
+    const dialogOptions: Electron.OpenDialogOptions = {
+      title: 'Import Connections',
+      filters: [
+        { name: 'Zequel Connections', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] }
+      ],
+      properties: ['openFile']
+    }
+    const result = window ? await dialog.showOpenDialog(window, dialogOptions) : await dialog.showOpenDialog(dialogOptions)
+    if (result.canceled || result.filePaths.length === 0) {
+      return null
+    }
+
+    const filePath = result.filePaths[0]
+    const file = parseConnectionExport(await readFile(filePath, 'utf-8'))
+    return JSON.parse(JSON.stringify({ filePath, ...previewConnectionExport(file) }))
+  })
+
+  ipcMain.handle('connection:importFromFile', async (_, filePath: string, options: ConnectionFileImportOptions) => {
+    logger.debug('IPC: connection:importFromFile', { filePath, collisionMode: options.collisionMode })
+    const file = parseConnectionExport(await readFile(filePath, 'utf-8'))
+    const result = await importConnectionExport(file, options)
+    return JSON.parse(JSON.stringify(result))
+  })
+
   ipcMain.handle('connection:delete', async (_, id: string) => {
     logger.debug('IPC: connection:delete', { id })
 
@@ -102,7 +189,10 @@ export const registerConnectionHandlers = (): void => {
         sslConfig: savedConnection.sslConfig || undefined,
         ssh: savedConnection.ssh || undefined,
         filepath: savedConnection.filepath || undefined,
-        environment: savedConnection.environment || undefined
+        environment: savedConnection.environment || undefined,
+        readOnly: savedConnection.readOnly,
+        session: savedConnection.session || undefined,
+        queryLimits: savedConnection.queryLimits || undefined
       }
 
       await connectionManager.connect(config)
@@ -192,7 +282,10 @@ export const registerConnectionHandlers = (): void => {
         sslConfig: savedConnection.sslConfig || undefined,
         ssh: savedConnection.ssh || undefined,
         filepath: savedConnection.filepath || undefined,
-        environment: savedConnection.environment || undefined
+        environment: savedConnection.environment || undefined,
+        readOnly: savedConnection.readOnly,
+        session: savedConnection.session || undefined,
+        queryLimits: savedConnection.queryLimits || undefined
       }
 
       await connectionManager.connect(config)
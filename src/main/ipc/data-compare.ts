@@ -0,0 +1,50 @@
+import { ipcMain } from 'electron'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { TableObjectType } from '../types'
+import { useSessionSchema, withDetachedSession } from './helpers'
+import {
+  compareTableRows,
+  openTableRows,
+  type DataCompareEndpoint,
+  type DataCompareResult
+} from '../services/dataCompare'
+
+type DataCompareLocation = Omit<DataCompareEndpoint, 'table'>
+
+/**
+ * Lists the tables of a database/schema on a detached session, since the endpoints of a
+ * compare are usually not the database the connection's tabs are browsing.
+ */
+export const listCompareTables = (location: DataCompareLocation): Promise<string[]> =>
+  withDetachedSession(location.connectionId, location.database, async (driver) => {
+    useSessionSchema(driver, location.schema)
+    const tables = await driver.getTables(location.database, location.schema)
+    return tables.filter((table) => table.type === TableObjectType.Table).map((table) => table.name)
+  })
+
+export const runDataCompare = (
+  source: DataCompareEndpoint,
+  target: DataCompareEndpoint
+): Promise<DataCompareResult> =>
+  withDetachedSession(source.connectionId, source.database, (sourceDriver) =>
+    withDetachedSession(target.connectionId, target.database, async (targetDriver) => {
+      useSessionSchema(sourceDriver, source.schema)
+      useSessionSchema(targetDriver, target.schema)
+      const sourceRows = await openTableRows(sourceDriver, source.table, source.schema)
+      const targetRows = await openTableRows(targetDriver, target.table, target.schema)
+      return compareTableRows(sourceRows, targetRows, targetDriver.type)
+    })
+  )
+
+export const registerDataCompareHandlers = (): void => {
+  ipcMain.handle('dataCompare:tables', async (_, location: DataCompareLocation) => {
+    logger.debug('IPC: dataCompare:tables', { location })
+    return listCompareTables(location)
+  })
+
+  ipcMain.handle('dataCompare:compare', async (_, source: DataCompareEndpoint, target: DataCompareEndpoint) => {
+    logger.debug('IPC: dataCompare:compare', { source, target })
+    return toPlainObject(await runDataCompare(source, target))
+  })
+}
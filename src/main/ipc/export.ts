@@ -1,12 +1,27 @@
 import { ipcMain, dialog, BrowserWindow } from 'electron'
-import { writeFile, readFile } from 'fs/promises'
+import { writeFile, readFile, unlink } from 'fs/promises'
+import { basename } from 'path'
 import * as XLSX from 'xlsx'
 import { logger } from '../utils/logger'
 import { connectionManager } from '../db/manager'
 import { RedisDriver } from '../db/redis'
 import { MongoDBDriver } from '../db/mongodb'
 import type { DatabaseDriver } from '../db/base'
+import type { PostgreSQLDriver } from '../db/postgres'
 import { DatabaseType } from '../types'
+import {
+  streamExport,
+  emitExportProgress,
+  formatValue,
+  escapeCSVField,
+  formatSQLValue,
+  ExportCanceledError,
+  type StreamExportOptions
+} from '../services/export'
+import { writePostgresBackup, restorePostgresBackup } from '../services/postgresBackup'
+import { enforceGuardrails, guardedOperation } from '../services/guardrails'
+import { StatementType, type ClassifiedStatement } from '../services/statementClassifier'
+import { useSessionSchema, withDetachedSession } from './helpers'
 
 export interface ExportOptions {
   format: 'csv' | 'json' | 'sql' | 'xlsx'
@@ -23,24 +38,12 @@ export interface ExportResult {
   error?: string
 }
 
-const formatValue = (value: unknown): string => {
-  if (value === null || value === undefined) {
-    return ''
-  }
-  if (typeof value === 'object') {
-    return JSON.stringify(value)
-  }
-  return String(value)
+export interface StreamExportResult extends ExportResult {
+  rowCount?: number
 }
 
-const escapeCSVField = (value: string, delimiter: string): string => {
-  // If the value contains the delimiter, quotes, or newlines, wrap it in quotes
-  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
-    // Escape quotes by doubling them
-    return `"${value.replace(/"/g, '""')}"`
-  }
-  return value
-}
+// In-flight streaming exports, keyed by the renderer-supplied export id
+const activeExports = new Map<string, AbortController>()
 
 const exportToCSV = (options: ExportOptions): string => {
   const delimiter = options.delimiter || ','
@@ -83,23 +86,7 @@ const exportToSQL = (options: ExportOptions): string => {
 
   for (const row of options.rows) {
     const columns = options.columns.map((col) => `"${col.name}"`).join(', ')
-    const values = options.columns
-      .map((col) => {
-        const value = row[col.name]
-        if (value === null || value === undefined) {
-          return 'NULL'
-        }
-        if (typeof value === 'number') {
-          return String(value)
-        }
-        if (typeof value === 'boolean') {
-          return value ? '1' : '0'
-        }
-        // Escape single quotes for SQL strings
-        const strValue = String(value).replace(/'/g, "''")
-        return `'${strValue}'`
-      })
-      .join(', ')
+    const values = options.columns.map((col) => formatSQLValue(row[col.name])).join(', ')
 
     lines.push(`INSERT INTO "${tableName}" (${columns}) VALUES (${values});`)
   }
@@ -270,6 +257,90 @@ export const registerExportHandlers = (): void => {
     }
   )
 
+  // Stream a full table or query result to disk, batch by batch
+  ipcMain.handle(
+    'export:stream',
+    async (_, options: StreamExportOptions): Promise<StreamExportResult> => {
+      logger.debug('IPC: export:stream', {
+        exportId: options.exportId,
+        connectionId: options.connectionId,
+        source: options.source.type,
+        format: options.format
+      })
+
+      if (activeExports.has(options.exportId)) {
+        return { success: false, error: 'An export with this id is already running' }
+      }
+
+      let filePath: string | undefined
+      const controller = new AbortController()
+
+      try {
+        const driver = connectionManager.getConnection(options.connectionId)
+        if (!driver) {
+          throw new Error('Not connected to database')
+        }
+
+        const window = BrowserWindow.getFocusedWindow()
+        if (!window) {
+          throw new Error('No focused window')
+        }
+
+        const baseName = options.source.table || 'query_result'
+        const result = await dialog.showSaveDialog(window, {
+          title: 'Export Data',
+          defaultPath: `${baseName}.${options.format}`,
+          filters: [
+            { name: `${options.format.toUpperCase()} Files`, extensions: [options.format] },
+            { name: 'All Files', extensions: ['*'] }
+          ]
+        })
+
+        if (result.canceled || !result.filePath) {
+          return { success: false, error: 'Export canceled' }
+        }
+        const outputPath = result.filePath
+        filePath = outputPath
+
+        activeExports.set(options.exportId, controller)
+        // The cursor stays open for the whole export, so it must not hold the shared session
+        const { database, schema } = options.source
+        const sessionSchema = schema ?? (driver.type === DatabaseType.PostgreSQL
+          ? (driver as unknown as PostgreSQLDriver).getCurrentSchema()
+          : undefined)
+        const rowCount = await withDetachedSession(options.connectionId, database, (session) => {
+          useSessionSchema(session, sessionSchema)
+          return streamExport(session, options, outputPath, controller.signal, emitExportProgress)
+        })
+
+        logger.info('Streaming export successful', { filePath, format: options.format, rowCount })
+        return { success: true, filePath, rowCount }
+      } catch (error) {
+        // Never leave a truncated file behind
+        if (filePath) {
+          await unlink(filePath).catch(() => undefined)
+        }
+        if (error instanceof ExportCanceledError) {
+          logger.info('Streaming export canceled', { exportId: options.exportId })
+          return { success: false, error: error.message }
+        }
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        logger.error('Streaming export failed', { error: errorMessage })
+        return { success: false, error: errorMessage }
+      } finally {
+        activeExports.delete(options.exportId)
+      }
+    }
+  )
+
+  ipcMain.handle('export:cancel', async (_, exportId: string): Promise<boolean> => {
+    logger.debug('IPC: export:cancel', { exportId })
+    const controller = activeExports.get(exportId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+
   // Database backup (dump)
   ipcMain.handle(
     'backup:export',
@@ -282,28 +353,9 @@ export const registerExportHandlers = (): void => {
           throw new Error('Not connected to database')
         }
 
-        // Detect driver type and use appropriate backup strategy
-        let content: string
-        let fileExtension: string
-        let filterName: string
-
-        if (driver.type === DatabaseType.Redis) {
-          logger.info('Starting Redis backup export')
-          content = await backupRedis(driver as RedisDriver)
-          fileExtension = 'json'
-          filterName = 'JSON Files'
-        } else if (driver.type === DatabaseType.MongoDB) {
-          logger.info('Starting MongoDB backup export')
-          content = await backupMongoDB(driver as MongoDBDriver)
-          fileExtension = 'json'
-          filterName = 'JSON Files'
-        } else {
-          // SQL databases: existing logic
-          logger.info('Starting SQL database backup export', { type: driver.type })
-          content = await backupSQL(driver)
-          fileExtension = 'sql'
-          filterName = 'SQL Files'
-        }
+        const isDocumentStore = driver.type === DatabaseType.Redis || driver.type === DatabaseType.MongoDB
+        const fileExtension = isDocumentStore ? 'json' : 'sql'
+        const filterName = isDocumentStore ? 'JSON Files' : 'SQL Files'
 
         // Get the focused window for the dialog
         const window = BrowserWindow.getFocusedWindow()
@@ -324,11 +376,34 @@ export const registerExportHandlers = (): void => {
         if (result.canceled || !result.filePath) {
           return { success: false, error: 'Export canceled' }
         }
+        const filePath = result.filePath
 
-        await writeFile(result.filePath, content, 'utf-8')
+        // Detect driver type and use appropriate backup strategy
+        if (driver.type === DatabaseType.PostgreSQL) {
+          // Streams straight to disk from its own session, inside a single snapshot
+          logger.info('Starting PostgreSQL backup export')
+          const summary = await withDetachedSession(connectionId, undefined, (session) =>
+            writePostgresBackup(session as unknown as PostgreSQLDriver, filePath)
+          )
+          logger.info('PostgreSQL backup written', summary)
+        } else {
+          let content: string
+          if (driver.type === DatabaseType.Redis) {
+            logger.info('Starting Redis backup export')
+            content = await backupRedis(driver as RedisDriver)
+          } else if (driver.type === DatabaseType.MongoDB) {
+            logger.info('Starting MongoDB backup export')
+            content = await backupMongoDB(driver as MongoDBDriver)
+          } else {
+            // SQL databases: existing logic
+            logger.info('Starting SQL database backup export', { type: driver.type })
+            content = await backupSQL(driver)
+          }
+          await writeFile(filePath, content, 'utf-8')
+        }
 
-        logger.info('Database backup successful', { filePath: result.filePath, type: driver.type })
-        return { success: true, filePath: result.filePath }
+        logger.info('Database backup successful', { filePath, type: driver.type })
+        return { success: true, filePath }
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error)
         logger.error('Database backup failed', { error: errorMessage })
@@ -388,19 +463,28 @@ export const registerExportHandlers = (): void => {
         }
 
         const filePath = result.filePaths[0]
-        const content = await readFile(filePath, 'utf-8')
+        await enforceGuardrails(connectionId, restoreStatements(filePath))
 
         let importResult: { successCount: number; errors: string[] }
 
-        if (driver.type === DatabaseType.Redis) {
-          logger.info('Starting Redis backup import', { filePath })
-          importResult = await importRedis(driver as RedisDriver, content)
-        } else if (driver.type === DatabaseType.MongoDB) {
-          logger.info('Starting MongoDB backup import', { filePath })
-          importResult = await importMongoDB(driver as MongoDBDriver, content)
+        if (driver.type === DatabaseType.PostgreSQL) {
+          // Reads the file as a stream, so COPY blocks of any size load without buffering
+          logger.info('Starting PostgreSQL backup import', { filePath })
+          importResult = await withDetachedSession(connectionId, undefined, (session) =>
+            restorePostgresBackup(session as unknown as PostgreSQLDriver, filePath)
+          )
         } else {
-          logger.info('Starting SQL backup import', { filePath })
-          importResult = await importSQL(driver, content)
+          const content = await readFile(filePath, 'utf-8')
+          if (driver.type === DatabaseType.Redis) {
+            logger.info('Starting Redis backup import', { filePath })
+            importResult = await importRedis(driver as RedisDriver, content)
+          } else if (driver.type === DatabaseType.MongoDB) {
+            logger.info('Starting MongoDB backup import', { filePath })
+            importResult = await importMongoDB(driver as MongoDBDriver, content)
+          } else {
+            logger.info('Starting SQL backup import', { filePath })
+            importResult = await importSQL(driver, content)
+          }
         }
 
         logger.info('Database import completed', {
@@ -425,6 +509,16 @@ export const registerExportHandlers = (): void => {
   )
 }
 
+// A restore can drop, recreate and reload anything in the backup, so guardrails see all three
+const restoreStatements = (filePath: string): ClassifiedStatement[] => {
+  const description = `Restore ${basename(filePath)} over the current database`
+  return [
+    guardedOperation(StatementType.Drop, description),
+    guardedOperation(StatementType.Create, description),
+    guardedOperation(StatementType.Insert, description)
+  ]
+}
+
 // ─── SQL backup helpers (extracted from original inline logic) ──────────────
 
 const backupSQL = async (driver: DatabaseDriver): Promise<string> => {
@@ -0,0 +1,16 @@
+import { ipcMain } from 'electron'
+import { guardrailsService, type GuardrailPolicy } from '../services/guardrails'
+import { logger } from '../utils/logger'
+import type { ConnectionEnvironment } from '../types'
+
+export const registerGuardrailHandlers = (): void => {
+  ipcMain.handle('guardrails:getPolicies', async () => {
+    logger.debug('IPC: guardrails:getPolicies')
+    return guardrailsService.getPolicies()
+  })
+
+  ipcMain.handle('guardrails:setPolicy', async (_, environment: ConnectionEnvironment, policy: GuardrailPolicy) => {
+    logger.debug('IPC: guardrails:setPolicy', { environment, policy })
+    return guardrailsService.setPolicy(environment, policy)
+  })
+}
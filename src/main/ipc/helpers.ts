@@ -3,6 +3,8 @@ import { DatabaseType } from '../types'
 import type { DatabaseDriver } from '../db/base'
 import { MySQLDriver } from '../db/mysql'
 import { PostgreSQLDriver } from '../db/postgres'
+import { enforceGuardrails, GuardrailError } from '../services/guardrails'
+import type { ClassifiedStatement } from '../services/statementClassifier'
 
 export const withDriver = async <T>(
   connectionId: string,
@@ -15,6 +17,37 @@ export const withDriver = async <T>(
   return fn(driver)
 }
 
+export const withTransactionSession = async <T>(
+  sessionId: string,
+  fn: (driver: DatabaseDriver) => T | Promise<T>
+): Promise<T> => {
+  const driver = connectionManager.getTransactionSession(sessionId)
+  if (!driver) {
+    throw new Error('No open transaction for this session')
+  }
+  return fn(driver)
+}
+
+export const withDetachedSession = async <T>(
+  connectionId: string,
+  database: string | undefined,
+  fn: (driver: DatabaseDriver) => T | Promise<T>
+): Promise<T> => {
+  const driver = await connectionManager.openDetachedSession(connectionId, database)
+  try {
+    return await fn(driver)
+  } finally {
+    try { await driver.disconnect() } catch {}
+  }
+}
+
+// Points a detached PostgreSQL session at the requested schema; other engines have none
+export const useSessionSchema = (driver: DatabaseDriver, schema?: string): void => {
+  if (schema && driver.type === DatabaseType.PostgreSQL) {
+    (driver as unknown as PostgreSQLDriver).setCurrentSchema(schema)
+  }
+}
+
 export const withMySQLDriver = async <T>(
   connectionId: string,
   featureName: string,
@@ -44,3 +77,21 @@ export const withPostgresDriver = async <T>(
   }
   return fn(driver as unknown as PostgreSQLDriver)
 }
+
+// Runs a mutation once the connection's guardrails allow it; a refusal comes back as a
+// failed result, the same shape schema operations use for their own errors
+export const withGuardrails = async <T>(
+  connectionId: string,
+  statements: ClassifiedStatement[],
+  fn: () => Promise<T>
+): Promise<T | { success: false; error: string }> => {
+  try {
+    await enforceGuardrails(connectionId, statements)
+  } catch (error) {
+    if (error instanceof GuardrailError) {
+      return { success: false, error: error.message }
+    }
+    throw error
+  }
+  return fn()
+}
@@ -1,5 +1,5 @@
 import { ipcMain } from 'electron'
-import { queryHistoryService } from '../services/queryHistory'
+import { queryHistoryService, type SavedQueryParameterValue } from '../services/queryHistory'
 import { logger } from '../utils/logger'
 
 export const registerHistoryHandlers = (): void => {
@@ -48,6 +48,11 @@ export const registerHistoryHandlers = (): void => {
     return queryHistoryService.updateSavedQuery(id, updates)
   })
 
+  ipcMain.handle('savedQueries:setParameters', async (_, id: number, values: Record<string, SavedQueryParameterValue>) => {
+    logger.debug('IPC: savedQueries:setParameters', { id, count: Object.keys(values).length })
+    return queryHistoryService.setSavedQueryParameters(id, values)
+  })
+
   ipcMain.handle('savedQueries:delete', async (_, id: number) => {
     logger.debug('IPC: savedQueries:delete', { id })
     return queryHistoryService.deleteSavedQuery(id)
@@ -1,14 +1,26 @@
 import { ipcMain, dialog, BrowserWindow } from 'electron'
+import { stat } from 'fs/promises'
 import { logger } from '../utils/logger'
 import { connectionManager } from '../db/manager'
 import {
   parseCSVFile,
   parseJSONFile,
+  parseNDJSONFile,
+  parseXLSXFile,
+  parseSQLFile,
   readImportData,
+  convertImportValue,
+  streamImport,
+  emitImportProgress,
+  type ImportFormat,
   type ImportPreview,
   type ImportOptions,
-  type ColumnMapping
+  type ColumnMapping,
+  type StreamImportOptions
 } from '../services/import'
+import { importCheckpointsService, type ImportCheckpoint } from '../services/importCheckpoints'
+import { enforceGuardrails, guardedOperation } from '../services/guardrails'
+import { StatementType, type ClassifiedStatement } from '../services/statementClassifier'
 
 export interface ImportResult {
   success: boolean
@@ -17,11 +29,73 @@ export interface ImportResult {
   filePath?: string
 }
 
+export interface StreamImportResult extends ImportResult {
+  processedRows?: number
+  rejectedRows?: number
+  rejectFilePath?: string
+  canceled?: boolean
+  // A checkpoint was kept, so the import can be resumed
+  resumable?: boolean
+}
+
+// In-flight streaming imports, keyed by the renderer-supplied import id
+const activeImports = new Map<string, AbortController>()
+
+// An import runs INSERTs, after emptying the table when asked to, so it goes through the
+// guardrails those statements would meet in the editor
+const importStatements = (tableName: string, clearTable: boolean): ClassifiedStatement[] => [
+  ...(clearTable ? [guardedOperation(StatementType.Delete, `DELETE FROM ${tableName}`, true)] : []),
+  guardedOperation(StatementType.Insert, `INSERT INTO ${tableName}`)
+]
+
+/**
+ * The saved checkpoint for this file and table, provided the file is unchanged since it
+ * was written. A stale checkpoint is dropped.
+ */
+const findCheckpoint = async (
+  connectionId: string,
+  tableName: string,
+  filePath: string
+): Promise<ImportCheckpoint | null> => {
+  const checkpoint = importCheckpointsService.getCheckpoint(connectionId, tableName, filePath)
+  if (!checkpoint) return null
+
+  const file = await stat(filePath).catch(() => null)
+  if (file && file.size === checkpoint.fileSize && Math.trunc(file.mtimeMs) === checkpoint.fileModified) {
+    return checkpoint
+  }
+  importCheckpointsService.clearCheckpoint(connectionId, tableName, filePath)
+  return null
+}
+
+const FILE_FILTERS: Record<ImportFormat, Electron.FileFilter> = {
+  csv: { name: 'CSV Files', extensions: ['csv', 'tsv', 'txt'] },
+  json: { name: 'JSON Files', extensions: ['json'] },
+  ndjson: { name: 'NDJSON Files', extensions: ['ndjson', 'jsonl'] },
+  xlsx: { name: 'Excel Workbooks', extensions: ['xlsx', 'xls'] },
+  sql: { name: 'SQL Files', extensions: ['sql'] }
+}
+
+const parsePreview = (options: ImportOptions): Promise<ImportPreview> => {
+  switch (options.format) {
+    case 'csv':
+      return parseCSVFile(options)
+    case 'ndjson':
+      return parseNDJSONFile(options)
+    case 'xlsx':
+      return parseXLSXFile(options)
+    case 'sql':
+      return parseSQLFile(options)
+    default:
+      return parseJSONFile(options)
+  }
+}
+
 export const registerImportHandlers = (): void => {
   // Open file dialog and get preview
   ipcMain.handle(
     'import:preview',
-    async (_, format: 'csv' | 'json'): Promise<{ preview: ImportPreview | null; filePath: string | null; error?: string }> => {
+    async (_, format: ImportFormat): Promise<{ preview: ImportPreview | null; filePath: string | null; error?: string }> => {
       logger.debug('IPC: import:preview', { format })
 
       try {
@@ -30,14 +104,9 @@ export const registerImportHandlers = (): void => {
           throw new Error('No focused window')
         }
 
-        const filters =
-          format === 'csv'
-            ? [{ name: 'CSV Files', extensions: ['csv', 'tsv', 'txt'] }]
-            : [{ name: 'JSON Files', extensions: ['json'] }]
-
         const result = await dialog.showOpenDialog(window, {
           title: `Import ${format.toUpperCase()} File`,
-          filters: [...filters, { name: 'All Files', extensions: ['*'] }],
+          filters: [FILE_FILTERS[format], { name: 'All Files', extensions: ['*'] }],
           properties: ['openFile']
         })
 
@@ -53,8 +122,7 @@ export const registerImportHandlers = (): void => {
           previewLimit: 100
         }
 
-        const preview =
-          format === 'csv' ? await parseCSVFile(options) : await parseJSONFile(options)
+        const preview = await parsePreview(options)
 
         return { preview, filePath }
       } catch (error) {
@@ -71,8 +139,8 @@ export const registerImportHandlers = (): void => {
     async (
       _,
       filePath: string,
-      format: 'csv' | 'json',
-      options: { hasHeaders?: boolean; delimiter?: string }
+      format: ImportFormat,
+      options: { hasHeaders?: boolean; delimiter?: string; source?: string }
     ): Promise<{ preview: ImportPreview | null; error?: string }> => {
       logger.debug('IPC: import:reparse', { filePath, format, options })
 
@@ -82,13 +150,11 @@ export const registerImportHandlers = (): void => {
           format,
           hasHeaders: options.hasHeaders,
           delimiter: options.delimiter,
+          source: options.source,
           previewLimit: 100
         }
 
-        const preview =
-          format === 'csv'
-            ? await parseCSVFile(importOptions)
-            : await parseJSONFile(importOptions)
+        const preview = await parsePreview(importOptions)
 
         return { preview }
       } catch (error) {
@@ -107,11 +173,12 @@ export const registerImportHandlers = (): void => {
       connectionId: string,
       tableName: string,
       filePath: string,
-      format: 'csv' | 'json',
+      format: ImportFormat,
       columnMappings: ColumnMapping[],
       options: {
         hasHeaders?: boolean
         delimiter?: string
+        source?: string
         truncateTable?: boolean
         batchSize?: number
       }
@@ -123,13 +190,15 @@ export const registerImportHandlers = (): void => {
         if (!driver) {
           throw new Error('Not connected to database')
         }
+        await enforceGuardrails(connectionId, importStatements(tableName, !!options.truncateTable))
 
         // Read all data from file
         const importOptions: ImportOptions = {
           filePath,
           format,
           hasHeaders: options.hasHeaders,
-          delimiter: options.delimiter
+          delimiter: options.delimiter,
+          source: options.source
         }
 
         const data = await readImportData(importOptions)
@@ -159,50 +228,7 @@ export const registerImportHandlers = (): void => {
 
               for (const mapping of columnMappings) {
                 if (mapping.targetColumn && mapping.sourceColumn) {
-                  let value = row[mapping.sourceColumn]
-
-                  // Type conversion
-                  if (value !== null && value !== undefined && value !== '') {
-                    switch (mapping.targetType.toUpperCase()) {
-                      case 'INTEGER':
-                      case 'INT':
-                      case 'BIGINT':
-                      case 'SMALLINT':
-                        value = parseInt(String(value), 10)
-                        if (isNaN(value as number)) value = null
-                        break
-                      case 'DECIMAL':
-                      case 'FLOAT':
-                      case 'DOUBLE':
-                      case 'REAL':
-                      case 'NUMERIC':
-                        value = parseFloat(String(value))
-                        if (isNaN(value as number)) value = null
-                        break
-                      case 'BOOLEAN':
-                      case 'BOOL':
-                        const strVal = String(value).toLowerCase()
-                        value = strVal === 'true' || strVal === '1' || strVal === 'yes'
-                        break
-                      case 'JSON':
-                      case 'JSONB':
-                        if (typeof value === 'string') {
-                          try {
-                            value = JSON.parse(value)
-                          } catch {
-                            // Keep as string if not valid JSON
-                          }
-                        }
-                        break
-                      default:
-                        // Keep as string for TEXT, VARCHAR, etc.
-                        value = String(value)
-                    }
-                  } else {
-                    value = null
-                  }
-
-                  values[mapping.targetColumn] = value
+                  values[mapping.targetColumn] = convertImportValue(row[mapping.sourceColumn], mapping.targetType)
                 }
               }
 
@@ -245,6 +271,120 @@ export const registerImportHandlers = (): void => {
     }
   )
 
+  // Stream a file into a table in batches, with progress, cancel and resume
+  ipcMain.handle(
+    'import:start',
+    async (_, options: StreamImportOptions): Promise<StreamImportResult> => {
+      logger.debug('IPC: import:start', {
+        importId: options.importId,
+        connectionId: options.connectionId,
+        tableName: options.tableName,
+        format: options.format,
+        errorPolicy: options.errorPolicy,
+        resume: options.resume
+      })
+
+      if (activeImports.has(options.importId)) {
+        return { success: false, errors: ['An import with this id is already running'] }
+      }
+
+      const { connectionId, tableName, filePath } = options
+      const controller = new AbortController()
+      activeImports.set(options.importId, controller)
+
+      try {
+        const driver = connectionManager.getConnection(connectionId)
+        if (!driver) {
+          throw new Error('Not connected to database')
+        }
+        await enforceGuardrails(connectionId, importStatements(tableName, !!options.truncateTable && !options.resume))
+
+        let resumeFrom: ImportCheckpoint | undefined
+        if (options.resume) {
+          resumeFrom = (await findCheckpoint(connectionId, tableName, filePath)) ?? undefined
+          if (!resumeFrom) {
+            throw new Error('No checkpoint to resume from; the file may have changed since the import stopped')
+          }
+        } else {
+          importCheckpointsService.clearCheckpoint(connectionId, tableName, filePath)
+        }
+
+        const file = await stat(filePath)
+        const result = await streamImport(
+          driver,
+          options,
+          controller.signal,
+          emitImportProgress,
+          (counts) => importCheckpointsService.saveCheckpoint({
+            connectionId,
+            tableName,
+            filePath,
+            fileSize: file.size,
+            fileModified: Math.trunc(file.mtimeMs),
+            ...counts
+          }),
+          resumeFrom
+        )
+
+        if (result.success) {
+          importCheckpointsService.clearCheckpoint(connectionId, tableName, filePath)
+          logger.info('Streaming import completed', {
+            tableName,
+            processedRows: result.rowsProcessed,
+            insertedRows: result.rowsInserted,
+            rejectedRows: result.rowsRejected
+          })
+        } else if (result.canceled) {
+          logger.info('Streaming import canceled', { importId: options.importId, processedRows: result.rowsProcessed })
+        } else {
+          logger.error('Streaming import failed', { error: result.error, processedRows: result.rowsProcessed })
+        }
+
+        return {
+          success: result.success,
+          insertedRows: result.rowsInserted,
+          processedRows: result.rowsProcessed,
+          rejectedRows: result.rowsRejected,
+          errors: result.error ? [result.error, ...result.errors] : result.errors,
+          filePath,
+          rejectFilePath: result.rejectFilePath,
+          canceled: result.canceled,
+          resumable: !result.success && result.rowsProcessed > 0
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        logger.error('Streaming import failed', { error: errorMessage })
+        return { success: false, errors: [errorMessage] }
+      } finally {
+        activeImports.delete(options.importId)
+      }
+    }
+  )
+
+  ipcMain.handle('import:cancel', async (_, importId: string): Promise<boolean> => {
+    logger.debug('IPC: import:cancel', { importId })
+    const controller = activeImports.get(importId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+
+  // Checkpoint left by an interrupted import of this file into this table
+  ipcMain.handle(
+    'import:getCheckpoint',
+    async (_, connectionId: string, tableName: string, filePath: string): Promise<ImportCheckpoint | null> => {
+      logger.debug('IPC: import:getCheckpoint', { connectionId, tableName, filePath })
+
+      try {
+        return await findCheckpoint(connectionId, tableName, filePath)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        logger.error('Failed to read import checkpoint', { error: errorMessage })
+        return null
+      }
+    }
+  )
+
   // Get table columns for mapping
   ipcMain.handle(
     'import:getTableColumns',
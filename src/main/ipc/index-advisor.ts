@@ -0,0 +1,130 @@
+import { ipcMain } from 'electron'
+import type { DatabaseDriver } from '../db/base'
+import { MySQLDriver } from '../db/mysql'
+import { PostgreSQLDriver } from '../db/postgres'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { withDriver } from './helpers'
+import {
+  analyzeIndexes,
+  indexKey,
+  loadTableIndexes,
+  type IndexReport,
+  type UnusedIndex
+} from '../services/indexAdvisor'
+
+interface IndexUsageStats {
+  unused: UnusedIndex[] | null
+  since: string | null
+  unavailable: string | null
+  opaque: Set<string>
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  const date = new Date(value as string | number | Date)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+const getPostgreSQLIndexUsage = async (driver: PostgreSQLDriver): Promise<IndexUsageStats> => {
+  const result = await driver.execute(`
+    SELECT
+      s.relname AS table_name,
+      s.indexrelname AS index_name,
+      s.idx_scan,
+      ix.indpred IS NOT NULL OR ix.indexprs IS NOT NULL AS opaque
+    FROM pg_stat_user_indexes s
+    JOIN pg_index ix ON ix.indexrelid = s.indexrelid
+    WHERE s.schemaname = $1
+  `, [driver.getCurrentSchema()])
+
+  if (result.error) {
+    return { unused: null, since: null, unavailable: result.error, opaque: new Set() }
+  }
+
+  const reset = await driver.execute('SELECT stats_reset FROM pg_stat_database WHERE datname = current_database()')
+
+  return {
+    unused: result.rows
+      .filter((row) => Number(row.idx_scan) === 0)
+      .map((row) => ({ table: String(row.table_name), index: String(row.index_name) })),
+    since: reset.error ? null : toIsoString(reset.rows[0]?.stats_reset),
+    unavailable: null,
+    opaque: new Set(result.rows.filter((row) => row.opaque).map((row) => indexKey(String(row.table_name), String(row.index_name))))
+  }
+}
+
+// sys.schema_unused_indexes is a view over the Performance Schema table used as the fallback, which MariaDB ships without sys
+const MYSQL_UNUSED_INDEX_QUERIES = [
+  `SELECT object_name AS table_name, index_name
+   FROM sys.schema_unused_indexes
+   WHERE object_schema = ?`,
+  `SELECT OBJECT_NAME AS table_name, INDEX_NAME AS index_name
+   FROM performance_schema.table_io_waits_summary_by_index_usage
+   WHERE OBJECT_SCHEMA = ? AND INDEX_NAME IS NOT NULL AND INDEX_NAME <> 'PRIMARY' AND COUNT_STAR = 0`
+]
+
+const getMySQLIndexUsage = async (driver: MySQLDriver, database: string): Promise<IndexUsageStats> => {
+  // With the Performance Schema off its tables exist but stay empty, which would read as "all used"
+  const enabled = await driver.execute('SELECT @@performance_schema AS enabled')
+  if (enabled.error || Number(enabled.rows[0]?.enabled) !== 1) {
+    return {
+      unused: null,
+      since: null,
+      unavailable: 'The Performance Schema is disabled; enable it with performance_schema=ON to find unused indexes',
+      opaque: new Set()
+    }
+  }
+
+  let result = await driver.execute(MYSQL_UNUSED_INDEX_QUERIES[0], [database])
+  if (result.error) {
+    result = await driver.execute(MYSQL_UNUSED_INDEX_QUERIES[1], [database])
+  }
+  if (result.error) {
+    return { unused: null, since: null, unavailable: result.error, opaque: new Set() }
+  }
+
+  // Usage counters start over when the server restarts
+  const uptime = await driver.execute("SHOW GLOBAL STATUS LIKE 'Uptime'")
+  const seconds = uptime.error ? NaN : Number(uptime.rows[0]?.Value)
+
+  return {
+    unused: result.rows.map((row) => ({ table: String(row.table_name), index: String(row.index_name) })),
+    since: Number.isFinite(seconds) ? new Date(Date.now() - seconds * 1000).toISOString() : null,
+    unavailable: null,
+    opaque: new Set()
+  }
+}
+
+/**
+ * Analyzes the indexes of the connection's current database (and schema, on PostgreSQL).
+ * Runs on the shared session so the suggested fixes apply to the same schema.
+ */
+export const buildIndexReport = async (driver: DatabaseDriver, database: string): Promise<IndexReport> => {
+  if (!(driver instanceof MySQLDriver) && !(driver instanceof PostgreSQLDriver)) {
+    throw new Error(`Index advice is not supported for ${driver.type} connections`)
+  }
+
+  const tables = await loadTableIndexes(driver, database)
+  const usage = driver instanceof PostgreSQLDriver
+    ? await getPostgreSQLIndexUsage(driver)
+    : await getMySQLIndexUsage(driver, database)
+
+  return {
+    tableCount: tables.length,
+    findings: analyzeIndexes(tables, driver, {
+      unused: usage.unused,
+      opaque: usage.opaque,
+      schema: driver instanceof PostgreSQLDriver ? driver.getCurrentSchema() : undefined
+    }),
+    usageSince: usage.since,
+    usageUnavailable: usage.unavailable
+  }
+}
+
+export const registerIndexAdvisorHandlers = (): void => {
+  ipcMain.handle('schema:indexReport', async (_, connectionId: string, database: string) => {
+    logger.debug('IPC: schema:indexReport', { connectionId, database })
+    return withDriver(connectionId, async (driver) => toPlainObject(await buildIndexReport(driver, database)))
+  })
+}
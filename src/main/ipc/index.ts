@@ -1,29 +1,47 @@
 import { registerAppHandlers } from './app'
 import { registerConnectionHandlers } from './connection'
 import { registerQueryHandlers } from './query'
+import { registerJobHandlers } from './jobs'
+import { registerTransactionHandlers } from './transaction'
 import { registerSchemaHandlers } from './schema'
 import { registerSchemaEditHandlers } from './schema-edit'
+import { registerSchemaCompareHandlers } from './schema-compare'
+import { registerIndexAdvisorHandlers } from './index-advisor'
+import { registerMaintenanceHandlers } from './maintenance'
+import { registerDataCompareHandlers } from './data-compare'
+import { registerTransferHandlers } from './transfer'
 import { registerHistoryHandlers } from './history'
 import { registerExportHandlers } from './export'
 import { registerImportHandlers } from './import'
 import { registerMonitoringHandlers } from './monitoring'
+import { registerMetricsHandlers } from './metrics'
 import { registerPostgreSQLHandlers } from './postgresql'
 import { registerRecentsHandlers } from './recents'
 import { registerBookmarkHandlers } from './bookmarks'
+import { registerGuardrailHandlers } from './guardrails'
 import { registerUpdaterHandlers } from './updater'
 
 export const registerAllHandlers = (): void => {
   registerAppHandlers()
   registerConnectionHandlers()
   registerQueryHandlers()
+  registerJobHandlers()
+  registerTransactionHandlers()
   registerSchemaHandlers()
   registerSchemaEditHandlers()
+  registerSchemaCompareHandlers()
+  registerIndexAdvisorHandlers()
+  registerMaintenanceHandlers()
+  registerDataCompareHandlers()
+  registerTransferHandlers()
   registerHistoryHandlers()
   registerExportHandlers()
   registerImportHandlers()
   registerMonitoringHandlers()
+  registerMetricsHandlers()
   registerPostgreSQLHandlers()
   registerRecentsHandlers()
   registerBookmarkHandlers()
+  registerGuardrailHandlers()
   registerUpdaterHandlers()
 }
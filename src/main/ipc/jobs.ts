@@ -0,0 +1,64 @@
+import { ipcMain } from 'electron'
+import { connectionManager } from '../db/manager'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { withDetachedSession, withDriver } from './helpers'
+import { checkQueryGuardrails, executeStatements, resolveQueryLimits } from './query'
+import { queryJobQueue, type QueryJob } from '../services/queryJobs'
+import type { QueryLimits } from '../types'
+
+// Jobs run on detached sessions, so a long query never blocks the connection's tabs
+const runQueryJob = (job: QueryJob, signal: AbortSignal, limits: QueryLimits) =>
+  withDetachedSession(job.connectionId, job.database, async (driver) => {
+    const onAbort = () => {
+      driver.cancelQuery().catch((error) => logger.warn('Failed to cancel a background query', { jobId: job.id, error }))
+    }
+    signal.addEventListener('abort', onAbort)
+    try {
+      const { results } = await executeStatements(driver, job.sql, limits, { signal })
+      return results
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
+  })
+
+export const registerJobHandlers = (): void => {
+  ipcMain.handle('jobs:start', async (_, connectionId: string, sql: string, database?: string): Promise<QueryJob> => {
+    logger.debug('IPC: jobs:start', { connectionId, sql: sql.substring(0, 100), database })
+    return withDriver(connectionId, async (driver) => {
+      // Refused up front, while the user is still looking at the editor
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        throw new Error(refusal)
+      }
+
+      // Limits are resolved now, so later changes do not affect a queued job
+      const limits = resolveQueryLimits(connectionId)
+      const connectionName = connectionManager.getConfig(connectionId)?.name ?? connectionId
+      return queryJobQueue.enqueue(
+        { connectionId, connectionName, database, sql },
+        (job, signal) => runQueryJob(job, signal, limits)
+      )
+    })
+  })
+
+  ipcMain.handle('jobs:list', async (): Promise<QueryJob[]> => {
+    logger.debug('IPC: jobs:list')
+    return queryJobQueue.list()
+  })
+
+  ipcMain.handle('jobs:getResults', async (_, jobId: string) => {
+    logger.debug('IPC: jobs:getResults', { jobId })
+    return toPlainObject(queryJobQueue.getResults(jobId))
+  })
+
+  ipcMain.handle('jobs:cancel', async (_, jobId: string): Promise<boolean> => {
+    logger.debug('IPC: jobs:cancel', { jobId })
+    return queryJobQueue.cancel(jobId)
+  })
+
+  ipcMain.handle('jobs:remove', async (_, jobId: string): Promise<boolean> => {
+    logger.debug('IPC: jobs:remove', { jobId })
+    return queryJobQueue.remove(jobId)
+  })
+}
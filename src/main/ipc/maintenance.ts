@@ -0,0 +1,321 @@
+import { ipcMain } from 'electron'
+import type { DatabaseDriver } from '../db/base'
+import { MySQLDriver } from '../db/mysql'
+import { PostgreSQLDriver } from '../db/postgres'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { withDetachedSession, withDriver } from './helpers'
+import { checkQueryGuardrails } from './query'
+import {
+  buildMaintenanceSQL,
+  estimatePostgreSQLBloat,
+  maintenanceTracker,
+  MaintenanceOperation,
+  MAINTENANCE_OPERATIONS,
+  TableHealthKind,
+  type MaintenanceMessage,
+  type MaintenanceProgress,
+  type MaintenanceRunner,
+  type MaintenanceTask,
+  type MySQLTableHealth,
+  type PostgreSQLTableHealth,
+  type TableMaintenanceInfo
+} from '../services/tableMaintenance'
+
+const PROGRESS_INTERVAL_MS = 1000
+
+const toIsoString = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  const date = new Date(value as string | number | Date)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+const toNumber = (value: unknown): number => {
+  const number = Number(value)
+  return Number.isFinite(number) ? number : 0
+}
+
+const getPostgreSQLTableHealth = async (driver: PostgreSQLDriver, table: string): Promise<PostgreSQLTableHealth> => {
+  const result = await driver.execute(`
+    SELECT
+      COALESCE(s.n_live_tup, 0) AS live_tuples,
+      COALESCE(s.n_dead_tup, 0) AS dead_tuples,
+      COALESCE(s.n_mod_since_analyze, 0) AS modifications,
+      s.last_vacuum,
+      s.last_autovacuum,
+      s.last_analyze,
+      s.last_autoanalyze,
+      pg_table_size(c.oid) AS table_bytes,
+      pg_relation_size(c.oid) AS heap_bytes,
+      c.reltuples,
+      current_setting('block_size')::int AS block_size,
+      COALESCE((
+        SELECT split_part(opt, '=', 2)::int
+        FROM unnest(c.reloptions) AS opt
+        WHERE opt LIKE 'fillfactor=%'
+      ), 100) AS fillfactor,
+      (
+        SELECT SUM(st.avg_width * (1 - st.null_frac))
+        FROM pg_stats st
+        WHERE st.schemaname = n.nspname AND st.tablename = c.relname
+      ) AS row_width
+    FROM pg_class c
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    LEFT JOIN pg_stat_user_tables s ON s.relid = c.oid
+    WHERE n.nspname = $1 AND c.relname = $2 AND c.relkind IN ('r', 'm', 'p')
+  `, [driver.getCurrentSchema(), table])
+
+  if (result.error) {
+    throw new Error(result.error)
+  }
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error(`Table ${table} was not found`)
+  }
+
+  const liveTuples = toNumber(row.live_tuples)
+  const deadTuples = toNumber(row.dead_tuples)
+  const heapBytes = toNumber(row.heap_bytes)
+  const bloatBytes = estimatePostgreSQLBloat({
+    heapBytes,
+    estimatedTuples: toNumber(row.reltuples),
+    rowWidth: row.row_width === null || row.row_width === undefined ? null : toNumber(row.row_width),
+    blockSize: toNumber(row.block_size),
+    fillfactor: toNumber(row.fillfactor) || 100
+  })
+
+  return {
+    kind: TableHealthKind.PostgreSQL,
+    liveTuples,
+    deadTuples,
+    deadTupleRatio: liveTuples + deadTuples > 0 ? deadTuples / (liveTuples + deadTuples) : 0,
+    modificationsSinceAnalyze: toNumber(row.modifications),
+    lastVacuum: toIsoString(row.last_vacuum),
+    lastAutovacuum: toIsoString(row.last_autovacuum),
+    lastAnalyze: toIsoString(row.last_analyze),
+    lastAutoanalyze: toIsoString(row.last_autoanalyze),
+    tableBytes: toNumber(row.table_bytes),
+    bloatBytes,
+    bloatRatio: bloatBytes !== null && heapBytes > 0 ? bloatBytes / heapBytes : null
+  }
+}
+
+const getMySQLTableHealth = async (driver: MySQLDriver, database: string, table: string): Promise<MySQLTableHealth> => {
+  // MySQL 8 caches these columns for a day by default; the variable is unknown to older servers and MariaDB.
+  // It sticks to the session, so callers pass one of their own rather than the shared one
+  await driver.execute('SET SESSION information_schema_stats_expiry = 0')
+
+  const result = await driver.execute(`
+    SELECT
+      ENGINE AS storage_engine,
+      TABLE_ROWS AS table_rows,
+      DATA_LENGTH AS data_length,
+      INDEX_LENGTH AS index_length,
+      DATA_FREE AS data_free,
+      UPDATE_TIME AS update_time,
+      CHECK_TIME AS check_time
+    FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+  `, [database, table])
+
+  if (result.error) {
+    throw new Error(result.error)
+  }
+  const row = result.rows[0]
+  if (!row) {
+    throw new Error(`Table ${table} was not found`)
+  }
+
+  const dataBytes = toNumber(row.data_length)
+  const indexBytes = toNumber(row.index_length)
+  const freeBytes = toNumber(row.data_free)
+  const allocated = dataBytes + indexBytes + freeBytes
+
+  return {
+    kind: TableHealthKind.MySQL,
+    storageEngine: row.storage_engine ? String(row.storage_engine) : null,
+    rows: toNumber(row.table_rows),
+    dataBytes,
+    indexBytes,
+    freeBytes,
+    fragmentationRatio: allocated > 0 ? freeBytes / allocated : 0,
+    lastUpdate: toIsoString(row.update_time),
+    lastCheck: toIsoString(row.check_time)
+  }
+}
+
+/** Reads the health of one table in the connection's current database (and schema, on PostgreSQL) */
+export const getTableMaintenanceInfo = async (
+  driver: DatabaseDriver,
+  database: string,
+  table: string
+): Promise<TableMaintenanceInfo> => {
+  if (!(driver instanceof MySQLDriver) && !(driver instanceof PostgreSQLDriver)) {
+    throw new Error(`Table maintenance is not supported for ${driver.type} connections`)
+  }
+
+  return {
+    table,
+    health: driver instanceof PostgreSQLDriver
+      ? await getPostgreSQLTableHealth(driver, table)
+      : await getMySQLTableHealth(driver, database, table),
+    operations: MAINTENANCE_OPERATIONS[driver.type] ?? []
+  }
+}
+
+const VACUUM_PROGRESS = `
+  SELECT phase,
+    CASE WHEN phase = 'vacuuming heap' THEN heap_blks_vacuumed ELSE heap_blks_scanned END AS done,
+    heap_blks_total AS total
+  FROM pg_stat_progress_vacuum WHERE pid = $1`
+const ANALYZE_PROGRESS = `
+  SELECT phase, sample_blks_scanned AS done, sample_blks_total AS total
+  FROM pg_stat_progress_analyze WHERE pid = $1`
+// VACUUM FULL rewrites the table the way CLUSTER does and reports as it
+const CLUSTER_PROGRESS = `
+  SELECT phase, heap_blks_scanned AS done, heap_blks_total AS total
+  FROM pg_stat_progress_cluster WHERE pid = $1`
+const CREATE_INDEX_PROGRESS = `
+  SELECT phase, blocks_done AS done, blocks_total AS total
+  FROM pg_stat_progress_create_index WHERE pid = $1`
+
+// Tried in order; an operation shows up in the next view once it moves on to that step
+const POSTGRESQL_PROGRESS_QUERIES: Partial<Record<MaintenanceOperation, string[]>> = {
+  [MaintenanceOperation.Vacuum]: [VACUUM_PROGRESS],
+  [MaintenanceOperation.VacuumAnalyze]: [VACUUM_PROGRESS, ANALYZE_PROGRESS],
+  [MaintenanceOperation.VacuumFull]: [CLUSTER_PROGRESS],
+  [MaintenanceOperation.Analyze]: [ANALYZE_PROGRESS],
+  [MaintenanceOperation.Reindex]: [CREATE_INDEX_PROGRESS]
+}
+
+/**
+ * Reads the progress of the backend running the operation. Views missing from older
+ * servers fail and are skipped, which leaves the progress unknown.
+ */
+export const readPostgreSQLProgress = async (
+  driver: DatabaseDriver,
+  operation: MaintenanceOperation,
+  pid: number
+): Promise<MaintenanceProgress | null> => {
+  for (const sql of POSTGRESQL_PROGRESS_QUERIES[operation] ?? []) {
+    const result = await driver.execute(sql, [pid])
+    const row = result.error ? undefined : result.rows[0]
+    if (!row) continue
+
+    const total = toNumber(row.total)
+    return {
+      phase: String(row.phase),
+      done: total > 0 ? toNumber(row.done) : null,
+      total: total > 0 ? total : null
+    }
+  }
+  return null
+}
+
+// The statement runs on a session of its own while a second one polls its progress, so
+// neither holds up the shared session
+const runOnPostgreSQL: MaintenanceRunner = ({ task, signal, reportProgress }) =>
+  withDetachedSession(task.connectionId, task.database, (session) =>
+    withDetachedSession(task.connectionId, task.database, async (monitor) => {
+      const pidResult = await session.execute('SELECT pg_backend_pid() AS pid')
+      const pid = pidResult.error ? NaN : Number(pidResult.rows[0]?.pid)
+
+      let polling = false
+      const poll = async () => {
+        if (polling) return
+        polling = true
+        try {
+          reportProgress(await readPostgreSQLProgress(monitor, task.operation, pid))
+        } catch (error) {
+          logger.debug('Failed to read maintenance progress', { taskId: task.id, error })
+        } finally {
+          polling = false
+        }
+      }
+      const timer = Number.isFinite(pid) ? setInterval(poll, PROGRESS_INTERVAL_MS) : null
+
+      const onAbort = () => {
+        session.cancelQuery().catch((error) => logger.warn('Failed to cancel maintenance', { taskId: task.id, error }))
+      }
+      signal.addEventListener('abort', onAbort)
+      try {
+        const result = await session.execute(task.sql)
+        if (result.error) {
+          throw new Error(result.error)
+        }
+        return []
+      } finally {
+        if (timer) clearInterval(timer)
+        signal.removeEventListener('abort', onAbort)
+      }
+    }))
+
+// MySQL reports no progress for these statements, only a status row per table when they finish
+const runOnMySQL: MaintenanceRunner = ({ task, signal }) =>
+  withDetachedSession(task.connectionId, task.database, async (session) => {
+    const onAbort = () => {
+      session.cancelQuery().catch((error) => logger.warn('Failed to cancel maintenance', { taskId: task.id, error }))
+    }
+    signal.addEventListener('abort', onAbort)
+    try {
+      const result = await session.execute(task.sql)
+      if (result.error) {
+        throw new Error(result.error)
+      }
+      return result.rows.map((row): MaintenanceMessage => ({
+        level: String(row.Msg_type ?? ''),
+        text: String(row.Msg_text ?? '')
+      }))
+    } finally {
+      signal.removeEventListener('abort', onAbort)
+    }
+  })
+
+export const registerMaintenanceHandlers = (): void => {
+  ipcMain.handle('maintenance:getInfo', async (_, connectionId: string, table: string, database: string) => {
+    logger.debug('IPC: maintenance:getInfo', { connectionId, table, database })
+    return withDriver(connectionId, async (driver) => {
+      const info = driver instanceof MySQLDriver
+        ? await withDetachedSession(connectionId, database, (session) => getTableMaintenanceInfo(session, database, table))
+        : await getTableMaintenanceInfo(driver, database, table)
+      return toPlainObject(info)
+    })
+  })
+
+  ipcMain.handle('maintenance:run', async (
+    _,
+    connectionId: string,
+    table: string,
+    operation: MaintenanceOperation,
+    database: string
+  ): Promise<MaintenanceTask> => {
+    logger.debug('IPC: maintenance:run', { connectionId, table, operation, database })
+    return withDriver(connectionId, async (driver) => {
+      if (!(driver instanceof MySQLDriver) && !(driver instanceof PostgreSQLDriver)) {
+        throw new Error(`Table maintenance is not supported for ${driver.type} connections`)
+      }
+
+      const qualifier = driver instanceof PostgreSQLDriver ? driver.getCurrentSchema() : database
+      const sql = buildMaintenanceSQL(driver.type, operation, table, qualifier)
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        throw new Error(refusal)
+      }
+
+      return maintenanceTracker.start(
+        { connectionId, database, table, operation, sql },
+        driver instanceof PostgreSQLDriver ? runOnPostgreSQL : runOnMySQL
+      )
+    })
+  })
+
+  ipcMain.handle('maintenance:list', async (_, connectionId: string): Promise<MaintenanceTask[]> => {
+    logger.debug('IPC: maintenance:list', { connectionId })
+    return maintenanceTracker.list(connectionId)
+  })
+
+  ipcMain.handle('maintenance:cancel', async (_, taskId: string): Promise<boolean> => {
+    logger.debug('IPC: maintenance:cancel', { taskId })
+    return maintenanceTracker.cancel(taskId)
+  })
+}
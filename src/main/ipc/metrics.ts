@@ -0,0 +1,335 @@
+import { ipcMain, BrowserWindow, dialog } from 'electron'
+import { writeFile } from 'fs/promises'
+import { connectionManager } from '../db/manager'
+import type { DatabaseDriver } from '../db/base'
+import type { MongoDBDriver } from '../db/mongodb'
+import type { RedisDriver } from '../db/redis'
+import { DatabaseType } from '../types'
+import { logger } from '../utils/logger'
+import {
+  buildMetricsCsv,
+  emitMetricSample,
+  MetricKind,
+  MetricsSampler,
+  MetricUnit,
+  type MetricReaderResolver,
+  type MetricReadings,
+  type MetricSpec,
+  type MetricsHistory
+} from '../services/metrics'
+
+interface MetricCollector {
+  metrics: MetricSpec[]
+  read: (driver: DatabaseDriver) => Promise<MetricReadings>
+}
+
+const gauge = (field: string) => ({ kind: MetricKind.Gauge as const, field })
+const rate = (field: string) => ({ kind: MetricKind.Rate as const, field })
+const ratio = (part: string, total: string) => ({ kind: MetricKind.Ratio as const, part, total })
+
+// Keeps the numeric fields of a row; drivers return bigint and numeric columns as strings
+const toReadings = (row: Record<string, unknown> | undefined): MetricReadings => {
+  const readings: MetricReadings = {}
+  for (const [key, value] of Object.entries(row ?? {})) {
+    if (value === null || value === undefined || value === '') continue
+    const number = Number(value)
+    if (Number.isFinite(number)) {
+      readings[key] = number
+    }
+  }
+  return readings
+}
+
+// MySQL and MariaDB
+const MYSQL_STATUS_FIELDS = [
+  'Questions',
+  'Slow_queries',
+  'Threads_connected',
+  'Threads_running',
+  'Innodb_buffer_pool_read_requests',
+  'Innodb_buffer_pool_reads'
+]
+
+const mysqlCollector: MetricCollector = {
+  metrics: [
+    { key: 'queries_per_sec', label: 'Queries', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('Questions') },
+    { key: 'slow_queries_per_sec', label: 'Slow queries', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('Slow_queries') },
+    { key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count, source: gauge('Threads_connected') },
+    { key: 'running_threads', label: 'Running', chart: 'Connections', unit: MetricUnit.Count, source: gauge('Threads_running') },
+    {
+      key: 'buffer_pool_hit_ratio',
+      label: 'Buffer pool hit ratio',
+      chart: 'Cache',
+      unit: MetricUnit.Percent,
+      source: ratio('buffer_pool_hits', 'Innodb_buffer_pool_read_requests')
+    },
+    { key: 'replication_lag_sec', label: 'Replication lag', chart: 'Replication', unit: MetricUnit.Seconds, source: gauge('replication_lag') }
+  ],
+  read: async (driver) => {
+    const list = MYSQL_STATUS_FIELDS.map((name) => `'${name}'`).join(', ')
+    const statusResult = await driver.execute(`SHOW GLOBAL STATUS WHERE Variable_name IN (${list})`)
+    if (statusResult.error) {
+      throw new Error(statusResult.error)
+    }
+
+    const readings: MetricReadings = {}
+    for (const row of statusResult.rows) {
+      const value = Number(row.Value)
+      if (Number.isFinite(value)) {
+        readings[row.Variable_name as string] = value
+      }
+    }
+    // Logical reads that did not go to disk
+    if (readings.Innodb_buffer_pool_read_requests !== undefined && readings.Innodb_buffer_pool_reads !== undefined) {
+      readings.buffer_pool_hits = readings.Innodb_buffer_pool_read_requests - readings.Innodb_buffer_pool_reads
+    }
+
+    // SHOW REPLICA STATUS is MySQL 8.0.22+; older servers and MariaDB still know SHOW SLAVE STATUS
+    let replicaResult = await driver.execute('SHOW REPLICA STATUS')
+    if (replicaResult.error) {
+      replicaResult = await driver.execute('SHOW SLAVE STATUS')
+    }
+    const replica = replicaResult.error ? undefined : replicaResult.rows[0]
+    const lag = replica?.Seconds_Behind_Source ?? replica?.Seconds_Behind_Master
+    if (lag !== null && lag !== undefined) {
+      readings.replication_lag = Number(lag)
+    }
+
+    return readings
+  }
+}
+
+const postgresCollector: MetricCollector = {
+  metrics: [
+    { key: 'transactions_per_sec', label: 'Transactions', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('transactions') },
+    { key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count, source: gauge('connections') },
+    { key: 'active_connections', label: 'Active', chart: 'Connections', unit: MetricUnit.Count, source: gauge('active_connections') },
+    { key: 'cache_hit_ratio', label: 'Buffer cache hit ratio', chart: 'Cache', unit: MetricUnit.Percent, source: ratio('blks_hit', 'blks_total') },
+    { key: 'replication_lag_sec', label: 'Replication lag', chart: 'Replication', unit: MetricUnit.Seconds, source: gauge('replication_lag') }
+  ],
+  read: async (driver) => {
+    // Replay lag only exists on a standby; a primary leaves it NULL
+    const result = await driver.execute(`
+      SELECT
+        (SELECT sum(xact_commit + xact_rollback) FROM pg_stat_database) AS transactions,
+        (SELECT sum(blks_hit) FROM pg_stat_database) AS blks_hit,
+        (SELECT sum(blks_hit + blks_read) FROM pg_stat_database) AS blks_total,
+        (SELECT count(*) FROM pg_stat_activity WHERE backend_type = 'client backend') AS connections,
+        (SELECT count(*) FROM pg_stat_activity WHERE backend_type = 'client backend' AND state = 'active') AS active_connections,
+        CASE WHEN pg_is_in_recovery()
+          THEN COALESCE(EXTRACT(EPOCH FROM now() - pg_last_xact_replay_timestamp()), 0)
+        END AS replication_lag
+    `)
+    if (result.error) {
+      throw new Error(result.error)
+    }
+    return toReadings(result.rows[0])
+  }
+}
+
+const redisCollector: MetricCollector = {
+  metrics: [
+    { key: 'ops_per_sec', label: 'Commands', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('total_commands_processed') },
+    { key: 'evictions_per_sec', label: 'Evicted keys', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('evicted_keys') },
+    { key: 'connections', label: 'Clients', chart: 'Connections', unit: MetricUnit.Count, source: gauge('connected_clients') },
+    { key: 'blocked_clients', label: 'Blocked', chart: 'Connections', unit: MetricUnit.Count, source: gauge('blocked_clients') },
+    { key: 'memory_used_bytes', label: 'Used', chart: 'Memory', unit: MetricUnit.Bytes, source: gauge('used_memory') },
+    { key: 'memory_rss_bytes', label: 'Resident', chart: 'Memory', unit: MetricUnit.Bytes, source: gauge('used_memory_rss') },
+    { key: 'keyspace_hit_ratio', label: 'Keyspace hit ratio', chart: 'Cache', unit: MetricUnit.Percent, source: ratio('keyspace_hits', 'keyspace_lookups') },
+    { key: 'replication_lag_sec', label: 'Since last master I/O', chart: 'Replication', unit: MetricUnit.Seconds, source: gauge('master_last_io_seconds_ago') }
+  ],
+  read: async (driver) => {
+    const info = await (driver as RedisDriver).getClient().info()
+    const readings: MetricReadings = {}
+
+    // INFO is "key:value" lines under "# Section" headers
+    for (const line of info.split('\n')) {
+      const trimmed = line.trim()
+      const colonIdx = trimmed.indexOf(':')
+      if (!trimmed || trimmed.startsWith('#') || colonIdx <= 0) continue
+
+      const value = Number(trimmed.substring(colonIdx + 1))
+      if (Number.isFinite(value)) {
+        readings[trimmed.substring(0, colonIdx)] = value
+      }
+    }
+    if (readings.keyspace_hits !== undefined && readings.keyspace_misses !== undefined) {
+      readings.keyspace_lookups = readings.keyspace_hits + readings.keyspace_misses
+    }
+
+    return readings
+  }
+}
+
+const MONGODB_OPCOUNTERS = ['insert', 'query', 'update', 'delete', 'getmore', 'command']
+
+const mongoCollector: MetricCollector = {
+  metrics: [
+    ...MONGODB_OPCOUNTERS.map((op) => ({
+      key: `${op}_per_sec`,
+      label: op,
+      chart: 'Operations',
+      unit: MetricUnit.PerSecond,
+      source: rate(`opcounters_${op}`)
+    })),
+    { key: 'connections', label: 'Current', chart: 'Connections', unit: MetricUnit.Count, source: gauge('connections_current') },
+    { key: 'memory_resident_bytes', label: 'Resident', chart: 'Memory', unit: MetricUnit.Bytes, source: gauge('mem_resident') },
+    { key: 'replication_lag_sec', label: 'Replication lag', chart: 'Replication', unit: MetricUnit.Seconds, source: gauge('replication_lag') }
+  ],
+  read: async (driver) => {
+    const adminDb = (driver as MongoDBDriver).getClient().db('admin')
+    const serverStatus = await adminDb.command({ serverStatus: 1 })
+    const readings: MetricReadings = {}
+
+    for (const op of MONGODB_OPCOUNTERS) {
+      const value = serverStatus.opcounters?.[op]
+      if (value !== undefined) {
+        readings[`opcounters_${op}`] = Number(value)
+      }
+    }
+    if (serverStatus.connections?.current !== undefined) {
+      readings.connections_current = Number(serverStatus.connections.current)
+    }
+    // serverStatus reports memory in MiB
+    if (serverStatus.mem?.resident !== undefined) {
+      readings.mem_resident = Number(serverStatus.mem.resident) * 1024 * 1024
+    }
+
+    // Only replica set members have a lag: how far this member's oplog trails the primary's
+    try {
+      const replStatus = await adminDb.command({ replSetGetStatus: 1 })
+      const members = (replStatus.members || []) as { stateStr?: string; self?: boolean; optimeDate?: Date }[]
+      const primary = members.find((m) => m.stateStr === 'PRIMARY')
+      const self = members.find((m) => m.self)
+      if (primary?.optimeDate && self?.optimeDate) {
+        readings.replication_lag = Math.max(0, (primary.optimeDate.getTime() - self.optimeDate.getTime()) / 1000)
+      }
+    } catch {
+      // Not a replica set
+    }
+
+    return readings
+  }
+}
+
+const CLICKHOUSE_EVENTS = ['Query', 'InsertQuery', 'Merge', 'MergedRows']
+const CLICKHOUSE_METRICS = ['Query', 'Merge', 'MemoryTracking', 'TCPConnection', 'HTTPConnection', 'MySQLConnection', 'PostgreSQLConnection']
+
+const clickhouseCollector: MetricCollector = {
+  metrics: [
+    { key: 'queries_per_sec', label: 'Queries', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('event_Query') },
+    { key: 'inserts_per_sec', label: 'Inserts', chart: 'Throughput', unit: MetricUnit.PerSecond, source: rate('event_InsertQuery') },
+    { key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count, source: gauge('connections') },
+    { key: 'running_queries', label: 'Running queries', chart: 'Connections', unit: MetricUnit.Count, source: gauge('metric_Query') },
+    { key: 'active_merges', label: 'Active', chart: 'Merges', unit: MetricUnit.Count, source: gauge('metric_Merge') },
+    { key: 'merges_per_sec', label: 'Started per second', chart: 'Merges', unit: MetricUnit.PerSecond, source: rate('event_Merge') },
+    { key: 'merged_rows_per_sec', label: 'Merged rows', chart: 'Merged rows', unit: MetricUnit.PerSecond, source: rate('event_MergedRows') },
+    { key: 'memory_bytes', label: 'Tracked', chart: 'Memory', unit: MetricUnit.Bytes, source: gauge('metric_MemoryTracking') },
+    { key: 'replication_lag_sec', label: 'Max replica delay', chart: 'Replication', unit: MetricUnit.Seconds, source: gauge('replication_lag') }
+  ],
+  read: async (driver) => {
+    const quote = (names: string[]) => names.map((name) => `'${name}'`).join(', ')
+    // system.events holds counters since startup, system.metrics holds current values
+    const result = await driver.execute(`
+      SELECT concat('event_', event) AS name, toFloat64(value) AS value FROM system.events WHERE event IN (${quote(CLICKHOUSE_EVENTS)})
+      UNION ALL
+      SELECT concat('metric_', metric) AS name, toFloat64(value) AS value FROM system.metrics WHERE metric IN (${quote(CLICKHOUSE_METRICS)})
+    `)
+    if (result.error) {
+      throw new Error(result.error)
+    }
+
+    const readings: MetricReadings = {}
+    for (const row of result.rows) {
+      readings[row.name as string] = Number(row.value)
+    }
+    readings.connections = ['TCPConnection', 'HTTPConnection', 'MySQLConnection', 'PostgreSQLConnection']
+      .reduce((sum, metric) => sum + (readings[`metric_${metric}`] ?? 0), 0)
+
+    // A server without replicated tables has no rows, which leaves the lag unreported
+    const replicasResult = await driver.execute('SELECT max(absolute_delay) AS delay, count() AS replicas FROM system.replicas')
+    const replicas = replicasResult.error ? undefined : replicasResult.rows[0]
+    if (replicas && Number(replicas.replicas) > 0) {
+      readings.replication_lag = Number(replicas.delay)
+    }
+
+    return readings
+  }
+}
+
+const METRIC_COLLECTORS: Partial<Record<DatabaseType, MetricCollector>> = {
+  [DatabaseType.MySQL]: mysqlCollector,
+  [DatabaseType.MariaDB]: mysqlCollector,
+  [DatabaseType.PostgreSQL]: postgresCollector,
+  [DatabaseType.Redis]: redisCollector,
+  [DatabaseType.MongoDB]: mongoCollector,
+  [DatabaseType.ClickHouse]: clickhouseCollector
+}
+
+export const resolveMetricReader: MetricReaderResolver = (connectionId) => {
+  const driver = connectionManager.getConnection(connectionId)
+  const collector = driver ? METRIC_COLLECTORS[driver.type] : undefined
+  if (!driver || !collector) return undefined
+  return { metrics: collector.metrics, read: () => collector.read(driver) }
+}
+
+const metricsSampler = new MetricsSampler(resolveMetricReader, emitMetricSample)
+
+export const registerMetricsHandlers = (): void => {
+  connectionManager.onDisconnect((connectionId) => metricsSampler.drop(connectionId))
+
+  ipcMain.handle('metrics:start', async (_, connectionId: string): Promise<MetricsHistory> => {
+    logger.debug('IPC: metrics:start', { connectionId })
+    return metricsSampler.start(connectionId)
+  })
+
+  ipcMain.handle('metrics:stop', async (_, connectionId: string): Promise<void> => {
+    logger.debug('IPC: metrics:stop', { connectionId })
+    metricsSampler.stop(connectionId)
+  })
+
+  ipcMain.handle('metrics:getHistory', async (_, connectionId: string): Promise<MetricsHistory> => {
+    logger.debug('IPC: metrics:getHistory', { connectionId })
+    return metricsSampler.getHistory(connectionId)
+  })
+
+  // Writes the samples of the last `windowMs` (all of them when omitted) to a CSV file
+  ipcMain.handle(
+    'metrics:exportCsv',
+    async (_, connectionId: string, windowMs?: number): Promise<{ success: boolean; filePath?: string; error?: string }> => {
+      logger.debug('IPC: metrics:exportCsv', { connectionId, windowMs })
+
+      try {
+        const history = metricsSampler.getHistory(connectionId)
+        const csv = buildMetricsCsv(history, windowMs ? Date.now() - windowMs : 0)
+
+        const window = BrowserWindow.getFocusedWindow()
+        if (!window) {
+          throw new Error('No focused window')
+        }
+
+        const name = connectionManager.getConfig(connectionId)?.name ?? 'connection'
+        const result = await dialog.showSaveDialog(window, {
+          title: 'Export Metrics',
+          defaultPath: `${name.replace(/[^\w.-]+/g, '_')}-metrics.csv`,
+          filters: [
+            { name: 'CSV Files', extensions: ['csv'] },
+            { name: 'All Files', extensions: ['*'] }
+          ]
+        })
+
+        if (result.canceled || !result.filePath) {
+          return { success: false, error: 'Export canceled' }
+        }
+
+        await writeFile(result.filePath, csv, 'utf-8')
+        logger.info('Metrics exported', { filePath: result.filePath, samples: history.samples.length })
+        return { success: true, filePath: result.filePath }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        logger.error('Metrics export failed', { error: errorMessage })
+        return { success: false, error: errorMessage }
+      }
+    }
+  )
+}
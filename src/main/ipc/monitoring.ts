@@ -1,6 +1,14 @@
 import { ipcMain } from 'electron'
 import { connectionManager } from '../db/manager'
-import type { DatabaseProcess, ServerStatus } from '../types'
+import {
+  QueryStatisticsOrder,
+  type BlockingSession,
+  type DatabaseProcess,
+  type LockTarget,
+  type QueryStatistic,
+  type QueryStatisticsOptions,
+  type ServerStatus
+} from '../types'
 import { MySQLDriver } from '../db/mysql'
 import { PostgreSQLDriver } from '../db/postgres'
 import { SQLiteDriver } from '../db/sqlite'
@@ -90,6 +98,98 @@ export const registerMonitoringHandlers = (): void => {
       return { variables: {}, status: {} }
     }
   )
+
+  // Get the sessions taking part in blocking chains
+  ipcMain.handle(
+    'monitoring:getBlockingSessions',
+    async (_, connectionId: string): Promise<BlockingSession[]> => {
+      const driver = connectionManager.getConnection(connectionId)
+      if (!driver) {
+        throw new Error('Connection not found')
+      }
+
+      if (driver instanceof MySQLDriver) {
+        return getMySQLBlockingSessions(driver)
+      } else if (driver instanceof PostgreSQLDriver) {
+        return getPostgreSQLBlockingSessions(driver)
+      }
+
+      return []
+    }
+  )
+
+  // Get the most expensive statements, normalized across engines
+  ipcMain.handle(
+    'monitoring:getQueryStatistics',
+    async (_, connectionId: string, options: QueryStatisticsOptions = {}): Promise<QueryStatistic[]> => {
+      const driver = connectionManager.getConnection(connectionId)
+      if (!driver) {
+        throw new Error('Connection not found')
+      }
+
+      if (driver instanceof MySQLDriver) {
+        return getMySQLQueryStatistics(driver, options)
+      } else if (driver instanceof PostgreSQLDriver) {
+        return getPostgreSQLQueryStatistics(driver, options)
+      } else if (driver instanceof ClickHouseDriver) {
+        return getClickHouseQueryStatistics(driver, options)
+      }
+
+      return []
+    }
+  )
+}
+
+const DEFAULT_STATISTICS_LIMIT = 100
+const MAX_STATISTICS_LIMIT = 1000
+
+// Every engine's query aliases its columns to the names read by toQueryStatistic
+const STATISTICS_ORDER_COLUMNS: Record<QueryStatisticsOrder, string> = {
+  [QueryStatisticsOrder.TotalTime]: 'total_time',
+  [QueryStatisticsOrder.MeanTime]: 'mean_time',
+  [QueryStatisticsOrder.Calls]: 'calls',
+  [QueryStatisticsOrder.Rows]: 'row_count'
+}
+
+const resolveStatisticsOptions = (options: QueryStatisticsOptions) => ({
+  orderColumn: STATISTICS_ORDER_COLUMNS[options.orderBy ?? QueryStatisticsOrder.TotalTime] ?? 'total_time',
+  limit: Math.min(Math.max(1, Math.floor(options.limit ?? DEFAULT_STATISTICS_LIMIT)), MAX_STATISTICS_LIMIT),
+  // LIKE wildcards in the search text are matched literally
+  pattern: options.search?.trim() ? `%${options.search.trim().replace(/[\\%_]/g, '\\$&')}%` : ''
+})
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+const toQueryStatistic = (row: Record<string, unknown>): QueryStatistic => ({
+  id: String(row.id),
+  query: String(row.normalized_query ?? ''),
+  sample: (row.sample as string | null) ?? null,
+  database: (row.db_name as string | null) ?? null,
+  user: (row.user_name as string | null) ?? null,
+  calls: toNumber(row.calls) ?? 0,
+  totalTimeMs: toNumber(row.total_time) ?? 0,
+  meanTimeMs: toNumber(row.mean_time) ?? 0,
+  maxTimeMs: toNumber(row.max_time),
+  rows: toNumber(row.row_count) ?? 0,
+  sharedBlocksHit: toNumber(row.blks_hit),
+  sharedBlocksRead: toNumber(row.blks_read)
+})
+
+const toSeconds = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null
+  const seconds = Number(value)
+  return Number.isFinite(seconds) ? Math.max(0, Math.round(seconds)) : null
+}
+
+const addHeldLock = (session: BlockingSession, lock: LockTarget) => {
+  const held = session.heldLocks.some((l) => l.mode === lock.mode && l.lockType === lock.lockType && l.relation === lock.relation)
+  if (!held) {
+    session.heldLocks.push(lock)
+  }
 }
 
 // MySQL implementation
@@ -149,6 +249,155 @@ const getMySQLServerStatus = async (driver: MySQLDriver): Promise<ServerStatus>
   return { variables, status }
 }
 
+// QUERY_SAMPLE_TEXT only exists on MySQL 8.0.3+; MariaDB and older servers have no sample
+const buildMySQLStatisticsQuery = (withSample: boolean, orderColumn: string, limit: number) => `
+  SELECT
+    DIGEST AS id,
+    DIGEST_TEXT AS normalized_query,
+    ${withSample ? 'QUERY_SAMPLE_TEXT' : 'NULL'} AS sample,
+    SCHEMA_NAME AS db_name,
+    NULL AS user_name,
+    COUNT_STAR AS calls,
+    SUM_TIMER_WAIT / 1000000000 AS total_time,
+    AVG_TIMER_WAIT / 1000000000 AS mean_time,
+    MAX_TIMER_WAIT / 1000000000 AS max_time,
+    SUM_ROWS_SENT + SUM_ROWS_AFFECTED AS row_count,
+    NULL AS blks_hit,
+    NULL AS blks_read
+  FROM performance_schema.events_statements_summary_by_digest
+  WHERE DIGEST_TEXT IS NOT NULL AND (? = '' OR DIGEST_TEXT LIKE ?)
+  ORDER BY ${orderColumn} DESC
+  LIMIT ${limit}
+`
+
+const getMySQLQueryStatistics = async (driver: MySQLDriver, options: QueryStatisticsOptions): Promise<QueryStatistic[]> => {
+  const { orderColumn, limit, pattern } = resolveStatisticsOptions(options)
+
+  // Timers are in picoseconds
+  let result = await driver.execute(buildMySQLStatisticsQuery(true, orderColumn, limit), [pattern, pattern])
+  if (result.error?.includes('QUERY_SAMPLE_TEXT')) {
+    result = await driver.execute(buildMySQLStatisticsQuery(false, orderColumn, limit), [pattern, pattern])
+  }
+  if (result.error) {
+    throw new Error(result.error)
+  }
+
+  return result.rows.map(toQueryStatistic)
+}
+
+// Both queries return the same columns: one row per lock wait, with the waiting and blocking thread ids
+const MYSQL_LOCK_WAITS_QUERY = `
+  SELECT
+    waiting_pid,
+    waiting_lock_mode,
+    locked_type AS lock_type,
+    locked_table,
+    locked_index,
+    wait_age_secs AS wait_seconds,
+    TIMESTAMPDIFF(SECOND, waiting_trx_started, NOW()) AS waiting_trx_seconds,
+    blocking_pid,
+    blocking_lock_mode,
+    TIMESTAMPDIFF(SECOND, blocking_trx_started, NOW()) AS blocking_trx_seconds
+  FROM sys.innodb_lock_waits
+`
+
+// MariaDB, and MySQL servers without the sys schema
+const INNODB_LOCK_WAITS_QUERY = `
+  SELECT
+    r.trx_mysql_thread_id AS waiting_pid,
+    rl.lock_mode AS waiting_lock_mode,
+    rl.lock_type AS lock_type,
+    rl.lock_table AS locked_table,
+    rl.lock_index AS locked_index,
+    TIMESTAMPDIFF(SECOND, r.trx_wait_started, NOW()) AS wait_seconds,
+    TIMESTAMPDIFF(SECOND, r.trx_started, NOW()) AS waiting_trx_seconds,
+    b.trx_mysql_thread_id AS blocking_pid,
+    bl.lock_mode AS blocking_lock_mode,
+    TIMESTAMPDIFF(SECOND, b.trx_started, NOW()) AS blocking_trx_seconds
+  FROM information_schema.INNODB_LOCK_WAITS w
+  JOIN information_schema.INNODB_TRX r ON r.trx_id = w.requesting_trx_id
+  JOIN information_schema.INNODB_TRX b ON b.trx_id = w.blocking_trx_id
+  JOIN information_schema.INNODB_LOCKS rl ON rl.lock_id = w.requested_lock_id
+  JOIN information_schema.INNODB_LOCKS bl ON bl.lock_id = w.blocking_lock_id
+`
+
+// "`shop`.`orders`" and index "PRIMARY" become "shop.orders (PRIMARY)"
+const formatMySQLLockedTable = (table: unknown, index: unknown): string | null => {
+  if (!table) return null
+  const name = String(table).replace(/`/g, '')
+  return index ? `${name} (${index})` : name
+}
+
+const getMySQLBlockingSessions = async (driver: MySQLDriver): Promise<BlockingSession[]> => {
+  let waitsResult = await driver.execute(MYSQL_LOCK_WAITS_QUERY)
+  if (waitsResult.error) {
+    waitsResult = await driver.execute(INNODB_LOCK_WAITS_QUERY)
+  }
+  if (waitsResult.error) {
+    throw new Error(waitsResult.error)
+  }
+  if (waitsResult.rows.length === 0) {
+    return []
+  }
+
+  const sessions = new Map<number, BlockingSession>()
+  const getSession = (id: number, transactionSeconds: unknown): BlockingSession => {
+    let session = sessions.get(id)
+    if (!session) {
+      session = {
+        id,
+        user: null,
+        database: null,
+        state: null,
+        query: null,
+        transactionSeconds: toSeconds(transactionSeconds),
+        blockedBy: [],
+        waitingFor: null,
+        heldLocks: []
+      }
+      sessions.set(id, session)
+    }
+    return session
+  }
+
+  for (const row of waitsResult.rows) {
+    const relation = formatMySQLLockedTable(row.locked_table, row.locked_index)
+    const lockType = String(row.lock_type ?? 'RECORD')
+    const waiting = getSession(Number(row.waiting_pid), row.waiting_trx_seconds)
+    const blocking = getSession(Number(row.blocking_pid), row.blocking_trx_seconds)
+
+    if (!waiting.blockedBy.includes(blocking.id)) {
+      waiting.blockedBy.push(blocking.id)
+    }
+    waiting.waitingFor = {
+      mode: String(row.waiting_lock_mode),
+      lockType,
+      relation,
+      waitSeconds: toSeconds(row.wait_seconds)
+    }
+    addHeldLock(blocking, { mode: String(row.blocking_lock_mode), lockType, relation })
+  }
+
+  // An idle blocker has no query in the lock tables, so user, schema and state come from the process list
+  const processResult = await driver.execute(`
+    SELECT ID, USER, DB, COMMAND, STATE, INFO
+    FROM information_schema.PROCESSLIST
+    WHERE ID IN (${[...sessions.keys()].join(', ')})
+  `)
+  if (!processResult.error) {
+    for (const row of processResult.rows) {
+      const session = sessions.get(Number(row.ID))
+      if (!session) continue
+      session.user = row.USER as string | null
+      session.database = row.DB as string | null
+      session.state = (row.STATE as string | null) || (row.COMMAND as string | null)
+      session.query = row.INFO as string | null
+    }
+  }
+
+  return [...sessions.values()]
+}
+
 // PostgreSQL implementation
 const getPostgreSQLProcessList = async (driver: PostgreSQLDriver): Promise<DatabaseProcess[]> => {
   const result = await driver.execute(`
@@ -211,6 +460,148 @@ const killPostgreSQLProcess = async (
   }
 }
 
+interface PostgreSQLLockRow {
+  pid: number
+  locktype: string
+  mode: string
+  granted: boolean
+  relation: string | null
+  target: string
+}
+
+const getPostgreSQLBlockingSessions = async (driver: PostgreSQLDriver): Promise<BlockingSession[]> => {
+  // Every session that waits on another, plus the sessions they wait on
+  const sessionsResult = await driver.execute(`
+    WITH blocked AS (
+      SELECT pid, pg_blocking_pids(pid) AS blocked_by
+      FROM pg_stat_activity
+      WHERE cardinality(pg_blocking_pids(pid)) > 0
+    )
+    SELECT
+      a.pid,
+      a.usename AS user,
+      a.datname AS database,
+      a.state,
+      a.query,
+      EXTRACT(EPOCH FROM (now() - a.xact_start))::float8 AS transaction_seconds,
+      CASE WHEN b.pid IS NOT NULL THEN EXTRACT(EPOCH FROM (now() - a.query_start))::float8 END AS wait_seconds,
+      COALESCE(b.blocked_by, '{}') AS blocked_by
+    FROM pg_stat_activity a
+    LEFT JOIN blocked b ON b.pid = a.pid
+    WHERE b.pid IS NOT NULL OR a.pid IN (SELECT unnest(blocked_by) FROM blocked)
+  `)
+
+  if (sessionsResult.error) {
+    throw new Error(sessionsResult.error)
+  }
+  if (sessionsResult.rows.length === 0) {
+    return []
+  }
+
+  const sessions = new Map<number, BlockingSession>()
+  const waitSeconds = new Map<number, number | null>()
+  for (const row of sessionsResult.rows) {
+    const pid = Number(row.pid)
+    sessions.set(pid, {
+      id: pid,
+      user: row.user as string | null,
+      database: row.database as string | null,
+      state: row.state as string | null,
+      query: row.query as string | null,
+      transactionSeconds: toSeconds(row.transaction_seconds),
+      blockedBy: ((row.blocked_by as number[]) || []).map(Number),
+      waitingFor: null,
+      heldLocks: []
+    })
+    waitSeconds.set(pid, toSeconds(row.wait_seconds))
+  }
+
+  // The target identifies the locked object, so a waiter's lock can be matched with the blocker's
+  const locksResult = await driver.execute(`
+    SELECT
+      pid,
+      locktype,
+      mode,
+      granted,
+      relation::regclass::text AS relation,
+      concat_ws(':', locktype, database, relation, page, tuple, virtualxid, transactionid, classid, objid, objsubid) AS target
+    FROM pg_locks
+    WHERE pid = ANY($1)
+  `, [[...sessions.keys()]])
+
+  if (locksResult.error) {
+    throw new Error(locksResult.error)
+  }
+
+  const locks = locksResult.rows as unknown as PostgreSQLLockRow[]
+  for (const session of sessions.values()) {
+    const own = locks.filter((l) => Number(l.pid) === session.id)
+    const wanted = own.find((l) => !l.granted)
+    if (!wanted) continue
+
+    // A row lock waits on the holder's transaction id; the tuple lock taken first names the table
+    const relation = wanted.relation ?? own.find((l) => l.granted && l.locktype === 'tuple')?.relation ?? null
+    session.waitingFor = {
+      mode: wanted.mode,
+      lockType: wanted.locktype,
+      relation,
+      waitSeconds: waitSeconds.get(session.id) ?? null
+    }
+
+    for (const blockerId of session.blockedBy) {
+      const blocker = sessions.get(blockerId)
+      const held = locks.find((l) => Number(l.pid) === blockerId && l.granted && l.target === wanted.target)
+      if (blocker && held) {
+        addHeldLock(blocker, { mode: held.mode, lockType: held.locktype, relation: held.relation ?? relation })
+      }
+    }
+  }
+
+  return [...sessions.values()]
+}
+
+const getPostgreSQLQueryStatistics = async (
+  driver: PostgreSQLDriver,
+  options: QueryStatisticsOptions
+): Promise<QueryStatistic[]> => {
+  const { orderColumn, limit, pattern } = resolveStatisticsOptions(options)
+
+  // PostgreSQL 13 renamed the timing columns to *_exec_time
+  const versionResult = await driver.execute('SHOW server_version_num')
+  const legacy = !versionResult.error && Number(versionResult.rows[0]?.server_version_num) < 130000
+  const timing = legacy ? '' : 'exec_'
+
+  const result = await driver.execute(`
+    SELECT
+      s.queryid::text AS id,
+      s.query AS normalized_query,
+      d.datname AS db_name,
+      r.rolname AS user_name,
+      s.calls,
+      s.total_${timing}time AS total_time,
+      s.mean_${timing}time AS mean_time,
+      s.max_${timing}time AS max_time,
+      s.rows AS row_count,
+      s.shared_blks_hit AS blks_hit,
+      s.shared_blks_read AS blks_read
+    FROM pg_stat_statements s
+    LEFT JOIN pg_database d ON d.oid = s.dbid
+    LEFT JOIN pg_roles r ON r.oid = s.userid
+    WHERE $1 = '' OR s.query ILIKE $1
+    ORDER BY ${orderColumn} DESC NULLS LAST
+    LIMIT ${limit}
+  `, [pattern])
+
+  if (result.error) {
+    if (result.error.includes('pg_stat_statements') && result.error.includes('does not exist')) {
+      throw new Error('The pg_stat_statements extension is not installed in this database. Add it to shared_preload_libraries and run CREATE EXTENSION pg_stat_statements.')
+    }
+    throw new Error(result.error)
+  }
+
+  return result.rows.map(toQueryStatistic)
+}
+
 const getPostgreSQLServerStatus = async (driver: PostgreSQLDriver): Promise<ServerStatus> => {
   const [settingsResult, statResult] = await Promise.all([
     driver.execute('SELECT name, setting FROM pg_settings'),
@@ -295,6 +686,42 @@ const killClickHouseQuery = async (driver: ClickHouseDriver, queryId: string): P
   }
 }
 
+// query_log keeps every execution, so statements are grouped by their normalized hash over the last day
+const getClickHouseQueryStatistics = async (
+  driver: ClickHouseDriver,
+  options: QueryStatisticsOptions
+): Promise<QueryStatistic[]> => {
+  const { orderColumn, limit, pattern } = resolveStatisticsOptions(options)
+  const search = pattern ? `AND query ILIKE '${pattern.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : ''
+
+  const result = await driver.execute(`
+    SELECT
+      toString(normalized_query_hash) AS id,
+      normalizeQuery(any(query)) AS normalized_query,
+      any(query) AS sample,
+      any(current_database) AS db_name,
+      any(user) AS user_name,
+      count() AS calls,
+      sum(query_duration_ms) AS total_time,
+      avg(query_duration_ms) AS mean_time,
+      max(query_duration_ms) AS max_time,
+      sum(result_rows) + sum(written_rows) AS row_count,
+      NULL AS blks_hit,
+      NULL AS blks_read
+    FROM system.query_log
+    WHERE type = 'QueryFinish' AND is_initial_query AND event_time >= now() - INTERVAL 1 DAY ${search}
+    GROUP BY normalized_query_hash
+    ORDER BY ${orderColumn} DESC
+    LIMIT ${limit}
+  `)
+
+  if (result.error) {
+    throw new Error(result.error)
+  }
+
+  return result.rows.map(toQueryStatistic)
+}
+
 const getClickHouseServerStatus = async (driver: ClickHouseDriver): Promise<ServerStatus> => {
   const variables: Record<string, string> = {}
   const status: Record<string, string> = {}
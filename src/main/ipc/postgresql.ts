@@ -2,6 +2,9 @@ import { ipcMain } from 'electron'
 import { connectionManager } from '../db/manager'
 import { PostgreSQLDriver } from '../db/postgres'
 import { logger } from '../utils/logger'
+import { enforceGuardrails, guardedOperation } from '../services/guardrails'
+import { StatementType } from '../services/statementClassifier'
+import { withGuardrails } from './helpers'
 import { DatabaseType } from '../types'
 import type {
   CreateSequenceRequest,
@@ -47,6 +50,7 @@ export const registerPostgreSQLHandlers = (): void => {
   ipcMain.handle('schema:createSchema', async (_, connectionId: string, name: string) => {
     logger.debug('IPC: schema:createSchema', { connectionId, name })
     const driver = getPostgreSQLDriver(connectionId)
+    await enforceGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE SCHEMA ${name}`)])
     return driver.createSchema(name)
   })
 
@@ -66,19 +70,19 @@ export const registerPostgreSQLHandlers = (): void => {
   ipcMain.handle('schema:createSequence', async (_, connectionId: string, request: CreateSequenceRequest) => {
     logger.debug('IPC: schema:createSequence', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.createSequence(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE SEQUENCE ${request.sequence.name}`)], () => driver.createSequence(request))
   })
 
   ipcMain.handle('schema:dropSequence', async (_, connectionId: string, request: DropSequenceRequest) => {
     logger.debug('IPC: schema:dropSequence', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.dropSequence(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP SEQUENCE ${request.sequenceName}`)], () => driver.dropSequence(request))
   })
 
   ipcMain.handle('schema:alterSequence', async (_, connectionId: string, request: AlterSequenceRequest) => {
     logger.debug('IPC: schema:alterSequence', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.alterSequence(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER SEQUENCE ${request.sequenceName}`)], () => driver.alterSequence(request))
   })
 
   // Materialized view operations
@@ -91,7 +95,7 @@ export const registerPostgreSQLHandlers = (): void => {
   ipcMain.handle('schema:refreshMaterializedView', async (_, connectionId: string, request: RefreshMaterializedViewRequest) => {
     logger.debug('IPC: schema:refreshMaterializedView', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.refreshMaterializedView(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Other, `REFRESH MATERIALIZED VIEW ${request.viewName}`)], () => driver.refreshMaterializedView(request))
   })
 
   ipcMain.handle('schema:getMaterializedViewDDL', async (_, connectionId: string, viewName: string, schema?: string) => {
@@ -116,13 +120,13 @@ export const registerPostgreSQLHandlers = (): void => {
   ipcMain.handle('schema:createExtension', async (_, connectionId: string, request: CreateExtensionRequest) => {
     logger.debug('IPC: schema:createExtension', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.createExtension(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE EXTENSION ${request.name}`)], () => driver.createExtension(request))
   })
 
   ipcMain.handle('schema:dropExtension', async (_, connectionId: string, request: DropExtensionRequest) => {
     logger.debug('IPC: schema:dropExtension', { connectionId, request })
     const driver = getPostgreSQLDriver(connectionId)
-    return driver.dropExtension(request)
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP EXTENSION ${request.name}`)], () => driver.dropExtension(request))
   })
 
   // Enum operations
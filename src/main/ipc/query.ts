@@ -1,180 +1,255 @@
 import { ipcMain } from 'electron'
-import { connectionManager } from '../db/manager'
+import { connectionManager, CURSOR_TYPES, TRANSACTION_BEGIN_STATEMENTS } from '../db/manager'
 import { logger } from '../utils/logger'
 import { toPlainObject } from '../utils/serialize'
-import { withDriver } from './helpers'
-import type { QueryResult } from '../types'
+import { withDetachedSession, withDriver } from './helpers'
+import { enforceGuardrails, GuardrailError } from '../services/guardrails'
+import { classifyStatements, isSingleReadStatement } from '../services/statementClassifier'
+import { queryLimitsService } from '../services/queryLimits'
+import { parseSqlStatements, splitSqlStatements, type SqlStatement } from '../utils/sql'
+import type { DatabaseDriver } from '../db/base'
+import { ScriptErrorMode, ScriptStatementStatus, type QueryResult, type MultiQueryResult, type QueryLimits } from '../types'
+
+export { splitSqlStatements }
+
+export interface ScriptOptions {
+  mode?: ScriptErrorMode
+  // Aborting stops the script before its next statement
+  signal?: AbortSignal
+}
+
+const SCRIPT_SAVEPOINT = 'zequel_script'
+
+const skippedResult = (statement: SqlStatement): QueryResult => ({
+  columns: [],
+  rows: [],
+  rowCount: 0,
+  executionTime: 0,
+  statement: { sql: statement.text, offset: statement.offset, status: ScriptStatementStatus.Skipped }
+})
 
 /**
- * Splits a SQL string into individual statements by semicolons,
- * while correctly handling:
- * - Single-quoted strings ('...')
- * - Double-quoted identifiers ("...")
- * - Backtick-quoted identifiers (`...`)
- * - Line comments (-- ...)
- * - Block comments (/* ... *​/)
+ * Runs each statement of a multi-statement script in order on the given driver. Every
+ * result carries its statement and where it starts in the script. Unless the mode is
+ * Continue, the statements after a failure are skipped; Rollback mode expects the
+ * caller to have opened the transaction (see executeScriptInTransaction).
  */
-export const splitSqlStatements = (sql: string): string[] => {
-  const statements: string[] = []
-  let current = ''
-  let i = 0
-  const len = sql.length
-
-  while (i < len) {
-    const ch = sql[i]
-
-    // Single-quoted string
-    if (ch === "'") {
-      current += ch
-      i++
-      while (i < len) {
-        if (sql[i] === "'" && i + 1 < len && sql[i + 1] === "'") {
-          // Escaped single quote ('')
-          current += "''"
-          i += 2
-        } else if (sql[i] === "'") {
-          current += "'"
-          i++
-          break
-        } else {
-          current += sql[i]
-          i++
-        }
-      }
+export const executeStatements = async (
+  driver: DatabaseDriver,
+  sql: string,
+  limits?: QueryLimits,
+  options: ScriptOptions = {}
+): Promise<MultiQueryResult> => {
+  const mode = options.mode ?? ScriptErrorMode.Stop
+  const results: QueryResult[] = []
+  const start = Date.now()
+  let stopped = false
+
+  for (const statement of parseSqlStatements(sql)) {
+    if (stopped || options.signal?.aborted) {
+      results.push(skippedResult(statement))
       continue
     }
 
-    // Double-quoted identifier
-    if (ch === '"') {
-      current += ch
-      i++
-      while (i < len) {
-        if (sql[i] === '"' && i + 1 < len && sql[i + 1] === '"') {
-          // Escaped double quote ("")
-          current += '""'
-          i += 2
-        } else if (sql[i] === '"') {
-          current += '"'
-          i++
-          break
-        } else {
-          current += sql[i]
-          i++
-        }
-      }
-      continue
+    const result = await driver.execute(statement.text, undefined, limits)
+    result.statement = {
+      sql: statement.text,
+      offset: statement.offset,
+      status: result.error ? ScriptStatementStatus.Failed : ScriptStatementStatus.Succeeded
     }
-
-    // Backtick-quoted identifier
-    if (ch === '`') {
-      current += ch
-      i++
-      while (i < len) {
-        if (sql[i] === '`' && i + 1 < len && sql[i + 1] === '`') {
-          // Escaped backtick (``)
-          current += '``'
-          i += 2
-        } else if (sql[i] === '`') {
-          current += '`'
-          i++
-          break
-        } else {
-          current += sql[i]
-          i++
-        }
-      }
-      continue
+    results.push(result)
+    if (result.error && mode !== ScriptErrorMode.Continue) {
+      stopped = true
     }
+  }
 
-    // Line comment (--)
-    if (ch === '-' && i + 1 < len && sql[i + 1] === '-') {
-      current += '--'
-      i += 2
-      while (i < len && sql[i] !== '\n') {
-        current += sql[i]
-        i++
-      }
-      continue
-    }
+  return {
+    results,
+    totalExecutionTime: Date.now() - start
+  }
+}
 
-    // Block comment (/* ... */)
-    if (ch === '/' && i + 1 < len && sql[i + 1] === '*') {
-      current += '/*'
-      i += 2
-      while (i < len) {
-        if (sql[i] === '*' && i + 1 < len && sql[i + 1] === '/') {
-          current += '*/'
-          i += 2
-          break
-        } else {
-          current += sql[i]
-          i++
-        }
-      }
-      continue
-    }
+const failedScript = (error: string, start: number): MultiQueryResult => ({
+  results: [{ columns: [], rows: [], rowCount: 0, executionTime: 0, error }],
+  totalExecutionTime: Date.now() - start
+})
 
-    // Semicolon: statement boundary
-    if (ch === ';') {
-      const trimmed = current.trim()
-      if (trimmed) {
-        statements.push(trimmed)
-      }
-      current = ''
-      i++
-      continue
-    }
+/**
+ * Runs a script as one unit: in a new transaction, or under a savepoint when the
+ * session already has one open. The first failing statement stops the script and
+ * everything it did is rolled back. A failed COMMIT is reported as a result of its own.
+ */
+export const executeScriptInTransaction = async (
+  driver: DatabaseDriver,
+  sql: string,
+  limits: QueryLimits | undefined,
+  inTransaction: boolean
+): Promise<MultiQueryResult> => {
+  const start = Date.now()
+  const beginSql = inTransaction ? `SAVEPOINT ${SCRIPT_SAVEPOINT}` : TRANSACTION_BEGIN_STATEMENTS[driver.type]
+  if (!beginSql) {
+    return failedScript(`Scripts cannot run in a transaction on ${driver.type} connections`, start)
+  }
 
-    // Normal character
-    current += ch
-    i++
+  const begin = await driver.execute(beginSql)
+  if (begin.error) {
+    return failedScript(begin.error, start)
   }
 
-  // Don't forget the last statement (may not end with semicolon)
-  const trimmed = current.trim()
-  if (trimmed) {
-    statements.push(trimmed)
+  const script = await executeStatements(driver, sql, limits, { mode: ScriptErrorMode.Rollback })
+  const failed = script.results.some((result) => result.statement?.status === ScriptStatementStatus.Failed)
+
+  if (!failed) {
+    const commit = await driver.execute(inTransaction ? `RELEASE SAVEPOINT ${SCRIPT_SAVEPOINT}` : 'COMMIT')
+    if (!commit.error) {
+      return { ...script, totalExecutionTime: Date.now() - start }
+    }
+    script.results.push({ ...commit, error: `Commit failed: ${commit.error}` })
+    if (inTransaction) {
+      return { ...script, totalExecutionTime: Date.now() - start }
+    }
+    // A transaction whose COMMIT fails is over, and nothing in it was kept
+    await driver.execute('ROLLBACK')
+  } else {
+    const rollback = await driver.execute(inTransaction ? `ROLLBACK TO SAVEPOINT ${SCRIPT_SAVEPOINT}` : 'ROLLBACK')
+    if (rollback.error) {
+      script.results.push({ ...rollback, error: `Rollback failed: ${rollback.error}` })
+      return { ...script, totalExecutionTime: Date.now() - start }
+    }
+    if (inTransaction) {
+      await driver.execute(`RELEASE SAVEPOINT ${SCRIPT_SAVEPOINT}`)
+    }
   }
 
-  return statements
+  for (const result of script.results) {
+    if (result.statement?.status === ScriptStatementStatus.Succeeded) {
+      result.statement.status = ScriptStatementStatus.RolledBack
+    }
+  }
+  return { ...script, rolledBack: true, totalExecutionTime: Date.now() - start }
 }
 
+/**
+ * Applies the connection's read-only flag and environment guardrails to a script about
+ * to run on it. Returns the reason it was refused, or null when it may run. Redis commands
+ * and MongoDB shell calls are classified by their own rules.
+ */
+export const checkQueryGuardrails = async (
+  connectionId: string,
+  driver: DatabaseDriver,
+  sql: string
+): Promise<string | null> => {
+  try {
+    await enforceGuardrails(connectionId, classifyStatements(driver.type, sql))
+    return null
+  } catch (error) {
+    if (error instanceof GuardrailError) {
+      return error.message
+    }
+    throw error
+  }
+}
+
+// The limits for queries typed by the user; metadata queries run without them
+export const resolveQueryLimits = (connectionId: string): Required<QueryLimits> =>
+  queryLimitsService.resolve(connectionManager.getConfig(connectionId))
+
+// A refused script comes back as a failed result, so the editor shows it like any query error
+export const refusedQueryResult = (error: string): QueryResult => ({
+  columns: [],
+  rows: [],
+  rowCount: 0,
+  executionTime: 0,
+  error
+})
+
 export const registerQueryHandlers = (): void => {
   ipcMain.handle('query:execute', async (_, connectionId: string, sql: string, params?: unknown[]) => {
     logger.debug('IPC: query:execute', { connectionId, sql: sql.substring(0, 100), paramsCount: params?.length })
     return withDriver(connectionId, async (driver) => {
-      const result = await driver.execute(sql, params)
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        return refusedQueryResult(refusal)
+      }
+      const result = await driver.execute(sql, params, resolveQueryLimits(connectionId))
       return toPlainObject(result)
     })
   })
 
-  ipcMain.handle('query:executeMultiple', async (_, connectionId: string, sql: string) => {
-    logger.debug('IPC: query:executeMultiple', { connectionId, sql: sql.substring(0, 100) })
-    return withDriver(connectionId, async (driver) => {
-      const statements = splitSqlStatements(sql)
-      const results: QueryResult[] = []
-      const start = Date.now()
-
-      for (const stmt of statements) {
-        if (stmt.trim()) {
-          const result = await driver.execute(stmt)
-          results.push(result)
+  ipcMain.handle(
+    'query:executeWithCursor',
+    async (_, connectionId: string, sql: string, params?: unknown[], database?: string) => {
+      logger.debug('IPC: query:executeWithCursor', { connectionId, sql: sql.substring(0, 100), database })
+      return withDriver(connectionId, async (driver) => {
+        const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+        if (refusal) {
+          return refusedQueryResult(refusal)
         }
-      }
 
-      return toPlainObject({
-        results,
-        totalExecutionTime: Date.now() - start
+        // Only a limited single read can leave rows behind to page through
+        const limits = resolveQueryLimits(connectionId)
+        if (!limits.maxRows || !CURSOR_TYPES.includes(driver.type) || !isSingleReadStatement(driver.type, sql)) {
+          return toPlainObject(await driver.execute(sql, params, limits))
+        }
+        // The cursor session starts fresh, so a read of the shared session's temporary
+        // tables or settings fails there; it is run on the shared session, without paging
+        const result = await connectionManager.openCursor(connectionId, sql, params, limits, database)
+        if (result.error) {
+          return toPlainObject(await driver.execute(sql, params, limits))
+        }
+        return toPlainObject(result)
       })
+    }
+  )
+
+  ipcMain.handle('query:fetchMore', async (_, cursorId: string) => {
+    logger.debug('IPC: query:fetchMore', { cursorId })
+    return toPlainObject(await connectionManager.fetchCursor(cursorId))
+  })
+
+  ipcMain.handle('query:closeCursor', async (_, cursorId: string) => {
+    logger.debug('IPC: query:closeCursor', { cursorId })
+    return connectionManager.closeCursor(cursorId)
+  })
+
+  ipcMain.handle('query:executeMultiple', async (_, connectionId: string, sql: string, mode?: ScriptErrorMode, database?: string) => {
+    logger.debug('IPC: query:executeMultiple', { connectionId, sql: sql.substring(0, 100), mode, database })
+    return withDriver(connectionId, async (driver) => {
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        return { results: [refusedQueryResult(refusal)], totalExecutionTime: 0 }
+      }
+      const limits = resolveQueryLimits(connectionId)
+      if (mode === ScriptErrorMode.Rollback) {
+        // A failed statement must not roll back work the tabs left open on the shared
+        // session, so the transaction runs on a session of its own in the tab's database
+        return toPlainObject(await withDetachedSession(connectionId, database, (session) =>
+          executeScriptInTransaction(session, sql, limits, false)
+        ))
+      }
+      return toPlainObject(await executeStatements(driver, sql, limits, { mode }))
     })
   })
 
+  ipcMain.handle('query:getDefaultLimits', async () => {
+    logger.debug('IPC: query:getDefaultLimits')
+    return queryLimitsService.getDefaults()
+  })
+
+  ipcMain.handle('query:setDefaultLimits', async (_, limits: QueryLimits) => {
+    logger.debug('IPC: query:setDefaultLimits', limits)
+    return queryLimitsService.setDefaults(limits)
+  })
+
   ipcMain.handle('query:cancel', async (_, connectionId: string) => {
     logger.debug('IPC: query:cancel', { connectionId })
     const driver = connectionManager.getConnection(connectionId)
     if (!driver) {
       return false
     }
-    return driver.cancelQuery()
+    const cancelled = await driver.cancelQuery()
+    // A read that pages through a cursor runs on its own session
+    const cursorCancelled = await connectionManager.cancelCursorQueries(connectionId)
+    return cancelled || cursorCancelled
   })
 }
@@ -0,0 +1,43 @@
+import { ipcMain } from 'electron'
+import { isSchemaScriptBuilder } from '../db/base'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { useSessionSchema, withDetachedSession } from './helpers'
+import {
+  compareSchemas,
+  loadSchemaSnapshot,
+  type SchemaCompareEndpoint,
+  type SchemaCompareResult
+} from '../services/schemaCompare'
+
+/**
+ * Reads both sides on detached sessions, so the open tabs keep their database and schema,
+ * and renders the script with the target driver's DDL builders.
+ */
+export const runSchemaCompare = (
+  source: SchemaCompareEndpoint,
+  target: SchemaCompareEndpoint
+): Promise<SchemaCompareResult> =>
+  withDetachedSession(source.connectionId, source.database, (sourceDriver) =>
+    withDetachedSession(target.connectionId, target.database, async (targetDriver) => {
+      if (sourceDriver.type !== targetDriver.type) {
+        throw new Error(`Cannot compare a ${sourceDriver.type} schema with a ${targetDriver.type} schema`)
+      }
+      if (!isSchemaScriptBuilder(targetDriver)) {
+        throw new Error(`Schema compare is not supported for ${targetDriver.type} connections`)
+      }
+
+      useSessionSchema(sourceDriver, source.schema)
+      useSessionSchema(targetDriver, target.schema)
+      const sourceSnapshot = await loadSchemaSnapshot(sourceDriver, source.database, source.schema)
+      const targetSnapshot = await loadSchemaSnapshot(targetDriver, target.database, target.schema)
+      return compareSchemas(sourceSnapshot, targetSnapshot, targetDriver)
+    })
+  )
+
+export const registerSchemaCompareHandlers = (): void => {
+  ipcMain.handle('schema:compare', async (_, source: SchemaCompareEndpoint, target: SchemaCompareEndpoint) => {
+    logger.debug('IPC: schema:compare', { source, target })
+    return toPlainObject(await runSchemaCompare(source, target))
+  })
+}
@@ -1,7 +1,9 @@
 import { ipcMain } from 'electron'
 import { logger } from '../utils/logger'
 import { type RoutineType } from '../types'
-import { withDriver, withMySQLDriver, withPostgresDriver } from './helpers'
+import { withDriver, withGuardrails, withMySQLDriver, withPostgresDriver } from './helpers'
+import { guardedOperation } from '../services/guardrails'
+import { StatementType } from '../services/statementClassifier'
 import type {
   AddColumnRequest,
   ModifyColumnRequest,
@@ -17,6 +19,7 @@ import type {
   InsertRowRequest,
   DeleteRowRequest,
   UpdateRowRequest,
+  ApplyChangesetRequest,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -25,97 +28,149 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '../types/schema-operations'
+import { RowChangeType } from '../types/schema-operations'
+
+// Changeset rows are always keyed by primary key, so none of them is unfiltered
+const CHANGE_STATEMENTS: Record<RowChangeType, StatementType> = {
+  [RowChangeType.Insert]: StatementType.Insert,
+  [RowChangeType.Update]: StatementType.Update,
+  [RowChangeType.Delete]: StatementType.Delete
+}
 
 export const registerSchemaEditHandlers = (): void => {
   // Column operations
   ipcMain.handle('schema:addColumn', async (_, connectionId: string, request: AddColumnRequest) => {
     logger.debug('IPC: schema:addColumn', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.addColumn(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} ADD COLUMN ${request.column.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.addColumn(request))
+    )
   })
 
   ipcMain.handle('schema:modifyColumn', async (_, connectionId: string, request: ModifyColumnRequest) => {
     logger.debug('IPC: schema:modifyColumn', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.modifyColumn(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} MODIFY COLUMN ${request.oldName}`)], () =>
+      withDriver(connectionId, (driver) => driver.modifyColumn(request))
+    )
   })
 
   ipcMain.handle('schema:dropColumn', async (_, connectionId: string, request: DropColumnRequest) => {
     logger.debug('IPC: schema:dropColumn', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropColumn(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} DROP COLUMN ${request.columnName}`, true)], () =>
+      withDriver(connectionId, (driver) => driver.dropColumn(request))
+    )
   })
 
   ipcMain.handle('schema:renameColumn', async (_, connectionId: string, request: RenameColumnRequest) => {
     logger.debug('IPC: schema:renameColumn', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.renameColumn(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} RENAME COLUMN ${request.oldName} TO ${request.newName}`)], () =>
+      withDriver(connectionId, (driver) => driver.renameColumn(request))
+    )
   })
 
   // Index operations
   ipcMain.handle('schema:createIndex', async (_, connectionId: string, request: CreateIndexRequest) => {
     logger.debug('IPC: schema:createIndex', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.createIndex(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE INDEX ${request.index.name} ON ${request.table}`)], () =>
+      withDriver(connectionId, (driver) => driver.createIndex(request))
+    )
   })
 
   ipcMain.handle('schema:dropIndex', async (_, connectionId: string, request: DropIndexRequest) => {
     logger.debug('IPC: schema:dropIndex', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropIndex(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP INDEX ${request.indexName} ON ${request.table}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropIndex(request))
+    )
   })
 
   // Foreign key operations
   ipcMain.handle('schema:addForeignKey', async (_, connectionId: string, request: AddForeignKeyRequest) => {
     logger.debug('IPC: schema:addForeignKey', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.addForeignKey(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} ADD FOREIGN KEY ${request.foreignKey.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.addForeignKey(request))
+    )
   })
 
   ipcMain.handle('schema:dropForeignKey', async (_, connectionId: string, request: DropForeignKeyRequest) => {
     logger.debug('IPC: schema:dropForeignKey', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropForeignKey(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${request.table} DROP FOREIGN KEY ${request.constraintName}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropForeignKey(request))
+    )
   })
 
   // Table operations
   ipcMain.handle('schema:createTable', async (_, connectionId: string, request: CreateTableRequest) => {
     logger.debug('IPC: schema:createTable', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.createTable(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE TABLE ${request.table.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.createTable(request))
+    )
   })
 
   ipcMain.handle('schema:dropTable', async (_, connectionId: string, request: DropTableRequest) => {
     logger.debug('IPC: schema:dropTable', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropTable(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP TABLE ${request.table}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropTable(request))
+    )
   })
 
   ipcMain.handle('schema:renameTable', async (_, connectionId: string, request: RenameTableRequest) => {
     logger.debug('IPC: schema:renameTable', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.renameTable(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `RENAME TABLE ${request.oldName} TO ${request.newName}`)], () =>
+      withDriver(connectionId, (driver) => driver.renameTable(request))
+    )
   })
 
   // Row operations
   ipcMain.handle('schema:insertRow', async (_, connectionId: string, request: InsertRowRequest) => {
     logger.debug('IPC: schema:insertRow', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.insertRow(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Insert, `INSERT INTO ${request.table}`)], () =>
+      withDriver(connectionId, (driver) => driver.insertRow(request))
+    )
   })
 
   ipcMain.handle('schema:deleteRow', async (_, connectionId: string, request: DeleteRowRequest) => {
     logger.debug('IPC: schema:deleteRow', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.deleteRow(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Delete, `DELETE FROM ${request.table} WHERE <primary key>`)], () =>
+      withDriver(connectionId, (driver) => driver.deleteRow(request))
+    )
   })
 
   ipcMain.handle('schema:updateRow', async (_, connectionId: string, request: UpdateRowRequest) => {
     logger.debug('IPC: schema:updateRow', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.updateRow(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Update, `UPDATE ${request.table} WHERE <primary key>`)], () =>
+      withDriver(connectionId, (driver) => driver.updateRow(request))
+    )
+  })
+
+  ipcMain.handle('schema:applyChangeset', async (_, connectionId: string, request: ApplyChangesetRequest) => {
+    logger.debug('IPC: schema:applyChangeset', { connectionId, table: request.table, changes: request.changes.length })
+    const statements = [...new Set(request.changes.map((change) => change.type))].map((type) =>
+      guardedOperation(CHANGE_STATEMENTS[type], `${type.toUpperCase()} ${request.table}`)
+    )
+    return withGuardrails(connectionId, statements, () =>
+      withDriver(connectionId, (driver) => driver.applyChangeset(request))
+    )
   })
 
   // View operations
   ipcMain.handle('schema:createView', async (_, connectionId: string, request: CreateViewRequest) => {
     logger.debug('IPC: schema:createView', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.createView(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE VIEW ${request.view.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.createView(request))
+    )
   })
 
   ipcMain.handle('schema:dropView', async (_, connectionId: string, request: DropViewRequest) => {
     logger.debug('IPC: schema:dropView', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropView(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP VIEW ${request.viewName}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropView(request))
+    )
   })
 
   ipcMain.handle('schema:renameView', async (_, connectionId: string, request: RenameViewRequest) => {
     logger.debug('IPC: schema:renameView', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.renameView(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `RENAME VIEW ${request.oldName} TO ${request.newName}`)], () =>
+      withDriver(connectionId, (driver) => driver.renameView(request))
+    )
   })
 
   ipcMain.handle('schema:viewDDL', async (_, connectionId: string, viewName: string) => {
@@ -153,12 +208,16 @@ export const registerSchemaEditHandlers = (): void => {
 
   ipcMain.handle('schema:createUser', async (_, connectionId: string, request: CreateUserRequest) => {
     logger.debug('IPC: schema:createUser', { connectionId, user: request.user.name })
-    return withDriver(connectionId, (driver) => driver.createUser(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE USER ${request.user.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.createUser(request))
+    )
   })
 
   ipcMain.handle('schema:dropUser', async (_, connectionId: string, request: DropUserRequest) => {
     logger.debug('IPC: schema:dropUser', { connectionId, user: request.name })
-    return withDriver(connectionId, (driver) => driver.dropUser(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP USER ${request.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropUser(request))
+    )
   })
 
   // MySQL-specific: Charset and Collation operations
@@ -174,12 +233,16 @@ export const registerSchemaEditHandlers = (): void => {
 
   ipcMain.handle('schema:setTableCharset', async (_, connectionId: string, table: string, charset: string, collation?: string) => {
     logger.debug('IPC: schema:setTableCharset', { connectionId, table, charset, collation })
-    return withMySQLDriver(connectionId, 'Charsets', (driver) => driver.setTableCharset(table, charset, collation))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${table} CHARACTER SET ${charset}`)], () =>
+      withMySQLDriver(connectionId, 'Charsets', (driver) => driver.setTableCharset(table, charset, collation))
+    )
   })
 
   ipcMain.handle('schema:setDatabaseCharset', async (_, connectionId: string, database: string, charset: string, collation?: string) => {
     logger.debug('IPC: schema:setDatabaseCharset', { connectionId, database, charset, collation })
-    return withMySQLDriver(connectionId, 'Charsets', (driver) => driver.setDatabaseCharset(database, charset, collation))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER DATABASE ${database} CHARACTER SET ${charset}`)], () =>
+      withMySQLDriver(connectionId, 'Charsets', (driver) => driver.setDatabaseCharset(database, charset, collation))
+    )
   })
 
   // MySQL-specific: Partition operations
@@ -198,12 +261,16 @@ export const registerSchemaEditHandlers = (): void => {
     values?: string
   ) => {
     logger.debug('IPC: schema:createPartition', { connectionId, table, partitionName, partitionType, expression, values })
-    return withMySQLDriver(connectionId, 'Partitions', (driver) => driver.createPartition(table, partitionName, partitionType, expression, values))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${table} ADD PARTITION ${partitionName}`)], () =>
+      withMySQLDriver(connectionId, 'Partitions', (driver) => driver.createPartition(table, partitionName, partitionType, expression, values))
+    )
   })
 
   ipcMain.handle('schema:dropPartition', async (_, connectionId: string, table: string, partitionName: string) => {
     logger.debug('IPC: schema:dropPartition', { connectionId, table, partitionName })
-    return withMySQLDriver(connectionId, 'Partitions', (driver) => driver.dropPartition(table, partitionName))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER TABLE ${table} DROP PARTITION ${partitionName}`, true)], () =>
+      withMySQLDriver(connectionId, 'Partitions', (driver) => driver.dropPartition(table, partitionName))
+    )
   })
 
   // MySQL-specific: Event (Scheduler) operations
@@ -230,12 +297,16 @@ export const registerSchemaEditHandlers = (): void => {
     }
   ) => {
     logger.debug('IPC: schema:createEvent', { connectionId, eventName, schedule, body, options })
-    return withMySQLDriver(connectionId, 'Events', (driver) => driver.createEvent(eventName, schedule, body, options))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE EVENT ${eventName}`)], () =>
+      withMySQLDriver(connectionId, 'Events', (driver) => driver.createEvent(eventName, schedule, body, options))
+    )
   })
 
   ipcMain.handle('schema:dropEvent', async (_, connectionId: string, eventName: string) => {
     logger.debug('IPC: schema:dropEvent', { connectionId, eventName })
-    return withMySQLDriver(connectionId, 'Events', (driver) => driver.dropEvent(eventName))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP EVENT ${eventName}`)], () =>
+      withMySQLDriver(connectionId, 'Events', (driver) => driver.dropEvent(eventName))
+    )
   })
 
   ipcMain.handle('schema:alterEvent', async (
@@ -252,7 +323,9 @@ export const registerSchemaEditHandlers = (): void => {
     }
   ) => {
     logger.debug('IPC: schema:alterEvent', { connectionId, eventName, options })
-    return withMySQLDriver(connectionId, 'Events', (driver) => driver.alterEvent(eventName, options))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Alter, `ALTER EVENT ${eventName}`)], () =>
+      withMySQLDriver(connectionId, 'Events', (driver) => driver.alterEvent(eventName, options))
+    )
   })
 
   // PostgreSQL-specific: Encoding and Collation operations
@@ -279,11 +352,15 @@ export const registerSchemaEditHandlers = (): void => {
 
   ipcMain.handle('schema:createTrigger', async (_, connectionId: string, request: CreateTriggerRequest) => {
     logger.debug('IPC: schema:createTrigger', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.createTrigger(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Create, `CREATE TRIGGER ${request.trigger.name}`)], () =>
+      withDriver(connectionId, (driver) => driver.createTrigger(request))
+    )
   })
 
   ipcMain.handle('schema:dropTrigger', async (_, connectionId: string, request: DropTriggerRequest) => {
     logger.debug('IPC: schema:dropTrigger', { connectionId, request })
-    return withDriver(connectionId, (driver) => driver.dropTrigger(request))
+    return withGuardrails(connectionId, [guardedOperation(StatementType.Drop, `DROP TRIGGER ${request.triggerName}`)], () =>
+      withDriver(connectionId, (driver) => driver.dropTrigger(request))
+    )
   })
 }
@@ -0,0 +1,57 @@
+import { ipcMain } from 'electron'
+import { connectionManager } from '../db/manager'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import { withTransactionSession } from './helpers'
+import { checkQueryGuardrails, executeScriptInTransaction, executeStatements, refusedQueryResult, resolveQueryLimits } from './query'
+import { ScriptErrorMode } from '../types'
+
+export const registerTransactionHandlers = (): void => {
+  ipcMain.handle('transaction:begin', async (_, connectionId: string, sessionId: string) => {
+    logger.debug('IPC: transaction:begin', { connectionId, sessionId })
+    await connectionManager.beginTransaction(connectionId, sessionId)
+    return true
+  })
+
+  ipcMain.handle('transaction:execute', async (_, sessionId: string, sql: string, params?: unknown[]) => {
+    logger.debug('IPC: transaction:execute', { sessionId, sql: sql.substring(0, 100), paramsCount: params?.length })
+    return withTransactionSession(sessionId, async (driver) => {
+      const connectionId = connectionManager.getTransactionConnectionId(sessionId)!
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        return refusedQueryResult(refusal)
+      }
+      const result = await driver.execute(sql, params, resolveQueryLimits(connectionId))
+      return toPlainObject(result)
+    })
+  })
+
+  ipcMain.handle('transaction:executeMultiple', async (_, sessionId: string, sql: string, mode?: ScriptErrorMode) => {
+    logger.debug('IPC: transaction:executeMultiple', { sessionId, sql: sql.substring(0, 100), mode })
+    return withTransactionSession(sessionId, async (driver) => {
+      const connectionId = connectionManager.getTransactionConnectionId(sessionId)!
+      const refusal = await checkQueryGuardrails(connectionId, driver, sql)
+      if (refusal) {
+        return { results: [refusedQueryResult(refusal)], totalExecutionTime: 0 }
+      }
+      const limits = resolveQueryLimits(connectionId)
+      // Already in a transaction, so the script is undone back to a savepoint
+      if (mode === ScriptErrorMode.Rollback) {
+        return toPlainObject(await executeScriptInTransaction(driver, sql, limits, true))
+      }
+      return toPlainObject(await executeStatements(driver, sql, limits, { mode }))
+    })
+  })
+
+  ipcMain.handle('transaction:commit', async (_, sessionId: string) => {
+    logger.debug('IPC: transaction:commit', { sessionId })
+    await connectionManager.commitTransaction(sessionId)
+    return true
+  })
+
+  ipcMain.handle('transaction:rollback', async (_, sessionId: string) => {
+    logger.debug('IPC: transaction:rollback', { sessionId })
+    await connectionManager.rollbackTransaction(sessionId)
+    return true
+  })
+}
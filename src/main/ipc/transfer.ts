@@ -0,0 +1,101 @@
+import { ipcMain } from 'electron'
+import { logger } from '../utils/logger'
+import { toPlainObject } from '../utils/serialize'
+import type { DatabaseDriver } from '../db/base'
+import { useSessionSchema, withDetachedSession } from './helpers'
+import { enforceGuardrails, guardedOperation } from '../services/guardrails'
+import { StatementType, type ClassifiedStatement } from '../services/statementClassifier'
+import {
+  buildTransferPlan,
+  emitTransferProgress,
+  runTransfer,
+  TransferConflictMode,
+  type TransferEndpoint,
+  type TransferOptions,
+  type TransferPlan,
+  type TransferResult
+} from '../services/transfer'
+
+// In-flight transfers, keyed by the renderer-supplied transfer id
+const activeTransfers = new Map<string, AbortController>()
+
+// Both ends run on detached sessions so a long copy never blocks the connections' tabs
+const withTransferSessions = <T>(
+  source: TransferEndpoint,
+  target: TransferEndpoint,
+  fn: (sourceDriver: DatabaseDriver, targetDriver: DatabaseDriver) => Promise<T>
+): Promise<T> =>
+  withDetachedSession(source.connectionId, source.database, (sourceDriver) =>
+    withDetachedSession(target.connectionId, target.database, (targetDriver) => {
+      useSessionSchema(sourceDriver, source.schema)
+      useSessionSchema(targetDriver, target.schema)
+      return fn(sourceDriver, targetDriver)
+    })
+  )
+
+// What a transfer runs on the target: CREATE TABLE for new tables, INSERTs, and in replace
+// mode an upsert that updates conflicting rows
+const transferStatements = (options: TransferOptions): ClassifiedStatement[] =>
+  options.tables.flatMap((table) => [
+    ...(table.createTable ? [guardedOperation(StatementType.Create, `CREATE TABLE ${table.targetTable}`)] : []),
+    guardedOperation(StatementType.Insert, `INSERT INTO ${table.targetTable}`),
+    ...(options.conflictMode === TransferConflictMode.Replace
+      ? [guardedOperation(StatementType.Update, `UPDATE ${table.targetTable} WHERE <primary key>`)]
+      : [])
+  ])
+
+export const registerTransferHandlers = (): void => {
+  ipcMain.handle(
+    'transfer:plan',
+    async (_, source: TransferEndpoint, target: TransferEndpoint, tables: string[]): Promise<TransferPlan> => {
+      logger.debug('IPC: transfer:plan', { source, target, tables })
+      const plan = await withTransferSessions(source, target, (sourceDriver, targetDriver) =>
+        buildTransferPlan(sourceDriver, targetDriver, target, tables)
+      )
+      return toPlainObject(plan)
+    }
+  )
+
+  ipcMain.handle('transfer:start', async (_, options: TransferOptions): Promise<TransferResult> => {
+    logger.debug('IPC: transfer:start', {
+      transferId: options.transferId,
+      source: options.source,
+      target: options.target,
+      tables: options.tables.map((table) => table.sourceTable),
+      conflictMode: options.conflictMode
+    })
+
+    if (activeTransfers.has(options.transferId)) {
+      return { success: false, error: 'A transfer with this id is already running', tables: [] }
+    }
+
+    const controller = new AbortController()
+    activeTransfers.set(options.transferId, controller)
+    try {
+      await enforceGuardrails(options.target.connectionId, transferStatements(options))
+      const result = await withTransferSessions(options.source, options.target, (sourceDriver, targetDriver) =>
+        runTransfer(sourceDriver, targetDriver, options, controller.signal, emitTransferProgress)
+      )
+      if (result.success) {
+        logger.info('Transfer successful', { transferId: options.transferId, tables: result.tables.length })
+      } else if (!result.canceled) {
+        logger.error('Transfer failed', { error: result.error })
+      }
+      return toPlainObject(result)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.error('Transfer failed', { error: errorMessage })
+      return { success: false, error: errorMessage, tables: [] }
+    } finally {
+      activeTransfers.delete(options.transferId)
+    }
+  })
+
+  ipcMain.handle('transfer:cancel', async (_, transferId: string): Promise<boolean> => {
+    logger.debug('IPC: transfer:cancel', { transferId })
+    const controller = activeTransfers.get(transferId)
+    if (!controller) return false
+    controller.abort()
+    return true
+  })
+}
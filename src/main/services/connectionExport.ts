@@ -0,0 +1,350 @@
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scrypt } from 'crypto'
+import type { ScryptOptions } from 'crypto'
+import { connectionsService } from './connections'
+import { keychainService } from './keychain'
+import type { ConnectionConfig, SavedConnection, SSHConfig, SSHHost } from '../types'
+import { logger } from '../utils/logger'
+
+export enum ConnectionCollisionMode {
+  // Import as a new connection with a fresh ID
+  KeepBoth = 'keep-both',
+  Replace = 'replace',
+  Skip = 'skip'
+}
+
+export class ConnectionExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ConnectionExportError'
+  }
+}
+
+// A saved connection as written to an export file, without secrets or local bookkeeping
+export type SharedConnection = Omit<SavedConnection, 'sortOrder' | 'createdAt' | 'updatedAt' | 'lastConnectedAt'>
+
+interface SSHSecrets {
+  password?: string
+  privateKey?: string
+  privateKeyPassphrase?: string
+}
+
+interface ConnectionSecrets {
+  password?: string
+  sslKey?: string
+  ssh?: SSHSecrets
+  jumpHosts?: (SSHSecrets | null)[]
+}
+
+interface EncryptedSecrets {
+  cipher: 'aes-256-gcm'
+  kdf: 'scrypt'
+  N: number
+  r: number
+  p: number
+  salt: string
+  iv: string
+  tag: string
+  data: string
+}
+
+export interface ConnectionExportFile {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  connections: SharedConnection[]
+  // Passwords, SSH credentials and SSL keys by connection ID, present when exported with a passphrase
+  secrets?: EncryptedSecrets
+}
+
+export interface ConnectionExportOptions {
+  connectionIds: string[]
+  // Every connection in these folders is exported too
+  folders: string[]
+  // Secrets are only exported when a passphrase is given
+  passphrase?: string
+}
+
+export interface ConnectionFilePreview {
+  connections: SharedConnection[]
+  encrypted: boolean
+  // Connections in the file whose ID is already saved here
+  existingIds: string[]
+}
+
+export interface ConnectionFileImportOptions {
+  collisionMode: ConnectionCollisionMode
+  // Without it, encrypted secrets are left out
+  passphrase?: string
+}
+
+export interface ConnectionFileImportResult {
+  imported: SavedConnection[]
+  skipped: number
+  renamed: number
+  secretsImported: boolean
+}
+
+const EXPORT_FORMAT = 'zequel-connections'
+const EXPORT_VERSION = 1
+export const MIN_PASSPHRASE_LENGTH = 8
+
+// 32 MiB of memory per derivation; stored in the file so it can be raised later
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1 }
+// Parameters read from a file are capped, so a crafted file cannot make the import
+// spend gigabytes of memory or minutes of CPU before the passphrase is even checked
+const MAX_SCRYPT_PARAMS = { N: 2 ** 17, r: 16, p: 4 }
+const KEY_LENGTH = 32
+
+const deriveKey = (passphrase: string, salt: Buffer, params: { N: number; r: number; p: number }): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const options: ScryptOptions = { ...params, maxmem: 256 * params.N * params.r }
+    scrypt(passphrase, salt, KEY_LENGTH, options, (error, key) => (error ? reject(error) : resolve(key)))
+  })
+
+// The connection list is authenticated along with the secrets, so a file edited to
+// point a connection at another host cannot be imported with its password
+const additionalData = (connections: SharedConnection[]): Buffer => Buffer.from(JSON.stringify(connections))
+
+const encryptSecrets = async (
+  secrets: Record<string, ConnectionSecrets>,
+  passphrase: string,
+  connections: SharedConnection[]
+): Promise<EncryptedSecrets> => {
+  const salt = randomBytes(16)
+  const iv = randomBytes(12)
+  const key = await deriveKey(passphrase, salt, SCRYPT_PARAMS)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(additionalData(connections))
+  const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()])
+
+  return {
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    ...SCRYPT_PARAMS,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  }
+}
+
+const isPowerOfTwo = (value: number): boolean => Number.isInteger(value) && value > 1 && (value & (value - 1)) === 0
+
+const readScryptParams = (encrypted: EncryptedSecrets): { N: number; r: number; p: number } => {
+  if (encrypted.cipher !== 'aes-256-gcm') {
+    throw new ConnectionExportError(`Unsupported cipher "${encrypted.cipher}" in the connections file`)
+  }
+  if (encrypted.kdf !== 'scrypt') {
+    throw new ConnectionExportError(`Unsupported key derivation "${encrypted.kdf}" in the connections file`)
+  }
+  const { N, r, p } = encrypted
+  const inRange = (value: number, max: number) => Number.isInteger(value) && value >= 1 && value <= max
+  if (!isPowerOfTwo(N) || N > MAX_SCRYPT_PARAMS.N || !inRange(r, MAX_SCRYPT_PARAMS.r) || !inRange(p, MAX_SCRYPT_PARAMS.p)) {
+    throw new ConnectionExportError('The key derivation parameters in the connections file are out of range')
+  }
+  return { N, r, p }
+}
+
+const decryptSecrets = async (
+  encrypted: EncryptedSecrets,
+  passphrase: string,
+  connections: SharedConnection[]
+): Promise<Record<string, ConnectionSecrets>> => {
+  const key = await deriveKey(passphrase, Buffer.from(encrypted.salt, 'base64'), readScryptParams(encrypted))
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(encrypted.iv, 'base64'))
+  decipher.setAAD(additionalData(connections))
+  decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'))
+
+  try {
+    const data = Buffer.concat([decipher.update(Buffer.from(encrypted.data, 'base64')), decipher.final()])
+    return JSON.parse(data.toString('utf-8')) as Record<string, ConnectionSecrets>
+  } catch {
+    throw new ConnectionExportError('Wrong passphrase, or the file was changed after it was exported')
+  }
+}
+
+const splitSSHHost = <T extends SSHHost>(host: T): { host: T; secrets: SSHSecrets | null } => {
+  const { password, privateKey, privateKeyPassphrase, ...rest } = host
+  const secrets = password || privateKey || privateKeyPassphrase ? { password, privateKey, privateKeyPassphrase } : null
+  return { host: rest as T, secrets }
+}
+
+const splitSecrets = (connection: SavedConnection, password: string | null): { shared: SharedConnection; secrets: ConnectionSecrets } => {
+  const { sortOrder: _sortOrder, createdAt: _createdAt, updatedAt: _updatedAt, lastConnectedAt: _lastConnectedAt, ...shared } = connection
+  const secrets: ConnectionSecrets = {}
+  if (password) secrets.password = password
+
+  if (shared.sslConfig?.key) {
+    const { key, ...sslConfig } = shared.sslConfig
+    secrets.sslKey = key
+    shared.sslConfig = sslConfig
+  }
+
+  if (shared.ssh) {
+    const { host: ssh, secrets: sshSecrets } = splitSSHHost<SSHConfig>(shared.ssh)
+    if (sshSecrets) secrets.ssh = sshSecrets
+
+    if (ssh.jumpHosts?.length) {
+      const jumpHosts = ssh.jumpHosts.map(splitSSHHost)
+      ssh.jumpHosts = jumpHosts.map((hop) => hop.host)
+      if (jumpHosts.some((hop) => hop.secrets)) secrets.jumpHosts = jumpHosts.map((hop) => hop.secrets)
+    }
+    shared.ssh = ssh
+  }
+
+  return { shared, secrets }
+}
+
+/**
+ * Builds an export of the chosen connections and folders. Secrets never appear in
+ * the connection list; with a passphrase they are added encrypted with AES-256-GCM
+ * under a scrypt-derived key.
+ */
+export const buildConnectionExport = async (options: ConnectionExportOptions): Promise<ConnectionExportFile> => {
+  if (options.passphrase !== undefined && options.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new ConnectionExportError(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`)
+  }
+
+  const ids = new Set(options.connectionIds)
+  const folders = new Set(options.folders)
+  const chosen = connectionsService.list().filter((c) => ids.has(c.id) || (c.folder !== null && folders.has(c.folder)))
+  if (chosen.length === 0) {
+    throw new ConnectionExportError('No connections selected')
+  }
+
+  const connections: SharedConnection[] = []
+  const secrets: Record<string, ConnectionSecrets> = {}
+  for (const connection of chosen) {
+    const password = options.passphrase ? await keychainService.getPassword(connection.id) : null
+    const split = splitSecrets(connection, password)
+    connections.push(split.shared)
+    if (Object.keys(split.secrets).length > 0) secrets[connection.id] = split.secrets
+  }
+
+  const file: ConnectionExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    connections
+  }
+  if (options.passphrase) {
+    file.secrets = await encryptSecrets(secrets, options.passphrase, connections)
+  }
+
+  logger.info('Connections exported', { count: connections.length, withSecrets: !!file.secrets })
+  return file
+}
+
+export const parseConnectionExport = (content: string): ConnectionExportFile => {
+  let file: ConnectionExportFile
+  try {
+    file = JSON.parse(content) as ConnectionExportFile
+  } catch {
+    throw new ConnectionExportError('Not a Zequel connections file')
+  }
+
+  if (file?.format !== EXPORT_FORMAT || !Array.isArray(file.connections)) {
+    throw new ConnectionExportError('Not a Zequel connections file')
+  }
+  if (file.version > EXPORT_VERSION) {
+    throw new ConnectionExportError('This connections file was exported by a newer version of Zequel')
+  }
+  return file
+}
+
+export const previewConnectionExport = (file: ConnectionExportFile): ConnectionFilePreview => {
+  const savedIds = new Set(connectionsService.list().map((c) => c.id))
+  return {
+    connections: file.connections,
+    encrypted: !!file.secrets,
+    existingIds: file.connections.filter((c) => savedIds.has(c.id)).map((c) => c.id)
+  }
+}
+
+const uniqueName = (name: string, taken: Set<string>): string => {
+  if (!taken.has(name)) return name
+  let suffix = 2
+  while (taken.has(`${name} (${suffix})`)) suffix++
+  return `${name} (${suffix})`
+}
+
+const withSSHSecrets = (ssh: SSHConfig, secrets: ConnectionSecrets | undefined): SSHConfig => ({
+  ...ssh,
+  ...secrets?.ssh,
+  jumpHosts: ssh.jumpHosts?.map((hop, index) => ({ ...hop, ...secrets?.jumpHosts?.[index] }))
+})
+
+/**
+ * Saves the connections of an export file. An ID that is already saved is handled
+ * by the collision mode; names that are taken get a numbered suffix. Folder, color
+ * and environment are kept as exported.
+ */
+export const importConnectionExport = async (
+  file: ConnectionExportFile,
+  options: ConnectionFileImportOptions
+): Promise<ConnectionFileImportResult> => {
+  const secrets = file.secrets && options.passphrase
+    ? await decryptSecrets(file.secrets, options.passphrase, file.connections)
+    : {}
+
+  const saved = connectionsService.list()
+  const savedById = new Map(saved.map((c) => [c.id, c]))
+  const names = new Set(saved.map((c) => c.name))
+  const result: ConnectionFileImportResult = { imported: [], skipped: 0, renamed: 0, secretsImported: Object.keys(secrets).length > 0 }
+
+  for (const shared of file.connections) {
+    let id = shared.id
+    const existing = savedById.get(id)
+    if (existing) {
+      if (options.collisionMode === ConnectionCollisionMode.Skip) {
+        result.skipped++
+        continue
+      }
+      if (options.collisionMode === ConnectionCollisionMode.Replace) {
+        names.delete(existing.name)
+      } else {
+        id = randomUUID()
+      }
+    }
+
+    const name = uniqueName(shared.name, names)
+    if (name !== shared.name) result.renamed++
+    names.add(name)
+
+    const connectionSecrets = secrets[shared.id]
+    const config: ConnectionConfig = {
+      id,
+      name,
+      type: shared.type,
+      host: shared.host ?? undefined,
+      port: shared.port ?? undefined,
+      database: shared.database,
+      username: shared.username ?? undefined,
+      filepath: shared.filepath ?? undefined,
+      ssl: shared.ssl,
+      sslConfig: shared.sslConfig
+        ? { ...shared.sslConfig, ...(connectionSecrets?.sslKey ? { key: connectionSecrets.sslKey } : {}) }
+        : undefined,
+      ssh: shared.ssh ? withSSHSecrets(shared.ssh, connectionSecrets) : undefined,
+      color: shared.color ?? undefined,
+      environment: shared.environment ?? undefined,
+      readOnly: shared.readOnly,
+      session: shared.session ?? undefined,
+      queryLimits: shared.queryLimits ?? undefined,
+      folder: shared.folder ?? undefined
+    }
+
+    if (connectionSecrets?.password) {
+      await keychainService.setPassword(id, connectionSecrets.password)
+    }
+    result.imported.push(connectionsService.save(config))
+  }
+
+  logger.info('Connections imported from file', {
+    imported: result.imported.length,
+    skipped: result.skipped,
+    renamed: result.renamed,
+    secretsImported: result.secretsImported
+  })
+  return result
+}
@@ -0,0 +1,797 @@
+import { randomUUID } from 'crypto'
+import { readFile } from 'fs/promises'
+import { homedir, userInfo } from 'os'
+import { basename, join } from 'path'
+import { connectionsService } from './connections'
+import { keychainService } from './keychain'
+import { DatabaseType, DEFAULT_PORTS } from '../types'
+import type { ConnectionConfig, ConnectionEnvironment, SavedConnection, SSHConfig, SSHHost } from '../types'
+import { logger } from '../utils/logger'
+
+export enum ConnectionImportSource {
+  DBeaver = 'dbeaver',
+  TablePlus = 'tableplus',
+  SequelAce = 'sequel-ace',
+  PgPass = 'pgpass',
+  MyCnf = 'my-cnf',
+  SSHConfig = 'ssh-config'
+}
+
+// A Host entry of ~/.ssh/config, or the SSH settings another tool stored with a connection
+export interface SSHHostEntry {
+  alias: string
+  host: string
+  port: number
+  username: string
+  identityFile?: string
+  password?: string
+  // ProxyJump hops in order: aliases or [user@]host[:port]
+  proxyJump?: string[]
+}
+
+export interface ConnectionImportCandidate {
+  // Ready to save except for the tunnel, which is resolved from ssh on save
+  config: ConnectionConfig
+  source: ConnectionImportSource
+  // The file the connection was read from
+  origin: string
+  ssh: SSHHostEntry | null
+  // A saved connection to the same server, database and user
+  existingId: string | null
+}
+
+export interface ConnectionImportPreview {
+  candidates: ConnectionImportCandidate[]
+  sshHosts: SSHHostEntry[]
+  errors: { file: string; error: string }[]
+}
+
+interface ParsedImportFile {
+  candidates: ConnectionImportCandidate[]
+  sshHosts: SSHHostEntry[]
+}
+
+type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue }
+type PlistDict = { [key: string]: PlistValue }
+
+const SSH_DEFAULT_PORT = 22
+
+const toPort = (value: unknown, fallback: number): number => {
+  const port = Number(value)
+  return Number.isInteger(port) && port > 0 && port < 65536 ? port : fallback
+}
+
+const connectionName = (host: string, database?: string): string => (database ? `${host}/${database}` : host)
+
+const createCandidate = (
+  source: ConnectionImportSource,
+  origin: string,
+  config: Omit<ConnectionConfig, 'id'>,
+  ssh: SSHHostEntry | null = null
+): ConnectionImportCandidate => ({
+  config: { id: randomUUID(), ...config },
+  source,
+  origin,
+  ssh,
+  existingId: null
+})
+
+// ~/.pgpass: hostname:port:database:username:password, \ escapes ':' and '\', '*' matches anything
+const splitPgPassLine = (line: string): string[] => {
+  const fields: string[] = []
+  let current = ''
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '\\' && i + 1 < line.length) {
+      current += line[++i]
+    } else if (char === ':' && fields.length < 4) {
+      fields.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  fields.push(current)
+  return fields
+}
+
+export const parsePgPass = (content: string, origin: string): ConnectionImportCandidate[] => {
+  const candidates: ConnectionImportCandidate[] = []
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith('#')) continue
+    const fields = splitPgPassLine(line)
+    if (fields.length < 5) continue
+
+    const [host, port, database, username, password] = fields
+    // A wildcard user is a password for anyone; there is nobody to connect as
+    if (username === '*') continue
+
+    const resolvedHost = host === '*' ? 'localhost' : host
+    const resolvedDatabase = database === '*' ? 'postgres' : database
+    candidates.push(createCandidate(ConnectionImportSource.PgPass, origin, {
+      name: connectionName(resolvedHost, resolvedDatabase),
+      type: DatabaseType.PostgreSQL,
+      host: resolvedHost,
+      port: toPort(port, DEFAULT_PORTS[DatabaseType.PostgreSQL]),
+      database: resolvedDatabase,
+      username,
+      password: password || undefined
+    }))
+  }
+
+  return candidates
+}
+
+const unquoteOptionValue = (value: string): string => {
+  const quote = value[0]
+  if (quote === '"' || quote === "'") {
+    const end = value.indexOf(quote, 1)
+    return end > 0 ? value.slice(1, end) : value.slice(1)
+  }
+  // '#' starts a comment anywhere outside quotes
+  const comment = value.indexOf('#')
+  return (comment >= 0 ? value.slice(0, comment) : value).trim()
+}
+
+/**
+ * Reads the client option groups of a MySQL option file. The mysql client merges
+ * [client], [mysql] and their --defaults-group-suffix variants ([client_prod],
+ * [mysql_prod]), so each suffix becomes one connection.
+ */
+export const parseMyCnf = (content: string, origin: string): ConnectionImportCandidate[] => {
+  const groups = new Map<string, Map<string, string>>()
+  let current: Map<string, string> | null = null
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#') || line.startsWith(';') || line.startsWith('!')) continue
+
+    const group = line.match(/^\[([^\]]+)\]/)
+    if (group) {
+      const name = group[1].trim().toLowerCase()
+      current = groups.get(name) ?? new Map()
+      groups.set(name, current)
+      continue
+    }
+    if (!current) continue
+
+    const separator = line.indexOf('=')
+    const key = (separator >= 0 ? line.slice(0, separator) : line).trim().toLowerCase().replace(/-/g, '_')
+    current.set(key, separator >= 0 ? unquoteOptionValue(line.slice(separator + 1).trim()) : '')
+  }
+
+  const suffixes = new Set<string>()
+  for (const name of groups.keys()) {
+    const match = name.match(/^(client|mysql)([-_.]\w+)?$/)
+    if (match) suffixes.add(match[2] ?? '')
+  }
+
+  const candidates: ConnectionImportCandidate[] = []
+  for (const suffix of suffixes) {
+    const options = new Map<string, string>()
+    for (const name of ['client', 'mysql', `client${suffix}`, `mysql${suffix}`]) {
+      for (const [key, value] of groups.get(name) ?? []) options.set(key, value)
+    }
+    if (!['host', 'user', 'password', 'socket'].some((key) => options.has(key))) continue
+
+    // A socket is only reachable on this machine
+    const host = options.get('host') || 'localhost'
+    const database = options.get('database') ?? ''
+    const label = suffix.slice(1)
+    candidates.push(createCandidate(ConnectionImportSource.MyCnf, origin, {
+      name: label ? `${connectionName(host, database)} (${label})` : connectionName(host, database),
+      type: DatabaseType.MySQL,
+      host,
+      port: toPort(options.get('port'), DEFAULT_PORTS[DatabaseType.MySQL]),
+      database,
+      username: options.get('user') || undefined,
+      password: options.get('password') || undefined
+    }))
+  }
+
+  return candidates
+}
+
+// ssh_config Host patterns: * and ? wildcards, ! negates
+const matchesHostPatterns = (patterns: string[], alias: string): boolean => {
+  let matched = false
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!')
+    const glob = negated ? pattern.slice(1) : pattern
+    const regex = new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`)
+    if (regex.test(alias)) {
+      if (negated) return false
+      matched = true
+    }
+  }
+  return matched
+}
+
+/**
+ * Lists the host aliases of an OpenSSH client config. Like ssh, the first value
+ * found for an option wins, so wildcard blocks (Host *) only fill in what the
+ * alias's own block left unset. Match blocks and Include are not read.
+ */
+export const parseSSHConfig = (content: string): SSHHostEntry[] => {
+  const blocks: { patterns: string[]; options: Map<string, string> }[] = []
+  let current: { patterns: string[]; options: Map<string, string> } | null = null
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line || line.startsWith('#')) continue
+
+    const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.+)$/)
+    if (!match) continue
+    const keyword = match[1].toLowerCase()
+    const value = match[2].trim().replace(/^"(.*)"$/, '$1')
+
+    if (keyword === 'host') {
+      current = { patterns: value.split(/\s+/), options: new Map() }
+      blocks.push(current)
+    } else if (keyword === 'match') {
+      current = null
+    } else if (current && !current.options.has(keyword)) {
+      current.options.set(keyword, value)
+    }
+  }
+
+  const entries = new Map<string, SSHHostEntry>()
+  for (const block of blocks) {
+    for (const alias of block.patterns) {
+      if (/[*?!]/.test(alias) || entries.has(alias)) continue
+
+      const options = new Map<string, string>()
+      for (const candidate of blocks) {
+        if (!matchesHostPatterns(candidate.patterns, alias)) continue
+        for (const [key, value] of candidate.options) {
+          if (!options.has(key)) options.set(key, value)
+        }
+      }
+
+      const proxyJump = options.get('proxyjump')
+      entries.set(alias, {
+        alias,
+        host: (options.get('hostname') ?? alias).replace(/%h/g, alias),
+        port: toPort(options.get('port'), SSH_DEFAULT_PORT),
+        username: options.get('user') ?? userInfo().username,
+        identityFile: options.get('identityfile'),
+        proxyJump: proxyJump && proxyJump.toLowerCase() !== 'none' ? proxyJump.split(',').map((hop) => hop.trim()) : undefined
+      })
+    }
+  }
+
+  return [...entries.values()]
+}
+
+const dbeaverEnvironments: Record<string, ConnectionEnvironment> = {
+  dev: 'development',
+  test: 'testing',
+  prod: 'production'
+}
+
+const dbeaverDatabaseType = (provider: string, driver: string): DatabaseType | null => {
+  const id = `${provider}/${driver}`.toLowerCase()
+  if (id.includes('mariadb')) return DatabaseType.MariaDB
+  if (id.includes('clickhouse')) return DatabaseType.ClickHouse
+  if (id.includes('postgres')) return DatabaseType.PostgreSQL
+  if (id.includes('mysql')) return DatabaseType.MySQL
+  if (id.includes('sqlite')) return DatabaseType.SQLite
+  if (id.includes('mongo')) return DatabaseType.MongoDB
+  if (id.includes('redis')) return DatabaseType.Redis
+  return null
+}
+
+interface DBeaverHandler {
+  enabled?: boolean
+  user?: string
+  password?: string
+  properties?: Record<string, string | number | boolean>
+}
+
+interface DBeaverDataSource {
+  provider?: string
+  driver?: string
+  name?: string
+  folder?: string
+  configuration?: {
+    host?: string
+    port?: string | number
+    database?: string
+    url?: string
+    user?: string
+    password?: string
+    type?: string
+    handlers?: Record<string, DBeaverHandler>
+  }
+}
+
+/**
+ * Reads a DBeaver workspace's data-sources.json. DBeaver keeps credentials
+ * encrypted in credentials-config.json, so only credentials saved in plain
+ * text in the data source come along.
+ */
+export const parseDBeaverDataSources = (content: string, origin: string): ConnectionImportCandidate[] => {
+  const parsed = JSON.parse(content) as { connections?: Record<string, DBeaverDataSource> }
+  const candidates: ConnectionImportCandidate[] = []
+
+  for (const [id, source] of Object.entries(parsed.connections ?? {})) {
+    const type = dbeaverDatabaseType(source.provider ?? '', source.driver ?? '')
+    if (!type) {
+      logger.debug('Skipping DBeaver connection with unsupported driver', { id, provider: source.provider, driver: source.driver })
+      continue
+    }
+
+    const configuration = source.configuration ?? {}
+    const tunnel = configuration.handlers?.ssh_tunnel
+    const properties = tunnel?.properties ?? {}
+    const ssh: SSHHostEntry | null = tunnel?.enabled && properties.host
+      ? {
+        alias: String(properties.host),
+        host: String(properties.host),
+        port: toPort(properties.port, SSH_DEFAULT_PORT),
+        username: tunnel.user ?? String(properties.user ?? ''),
+        identityFile: properties.authType === 'PUBLIC_KEY' && properties.keyPath ? String(properties.keyPath) : undefined,
+        password: properties.authType === 'PASSWORD' ? tunnel.password : undefined
+      }
+      : null
+
+    const host = configuration.host || 'localhost'
+    const base = {
+      name: source.name || connectionName(host, configuration.database),
+      type,
+      environment: configuration.type ? dbeaverEnvironments[configuration.type] : undefined,
+      folder: source.folder || undefined
+    }
+
+    if (type === DatabaseType.SQLite) {
+      const filepath = configuration.database || configuration.url?.replace(/^jdbc:sqlite:/, '') || ''
+      candidates.push(createCandidate(ConnectionImportSource.DBeaver, origin, { ...base, database: filepath, filepath }))
+      continue
+    }
+
+    candidates.push(createCandidate(ConnectionImportSource.DBeaver, origin, {
+      ...base,
+      host,
+      port: toPort(configuration.port, DEFAULT_PORTS[type]),
+      database: configuration.database ?? '',
+      username: configuration.user || undefined,
+      password: configuration.password || undefined
+    }, ssh))
+  }
+
+  return candidates
+}
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&')
+
+/**
+ * Parses an XML property list, the format TablePlus and Sequel Ace store and
+ * export connections in. Binary property lists are not supported.
+ */
+export const parsePlist = (xml: string): PlistValue => {
+  if (xml.startsWith('bplist')) {
+    throw new Error('Binary property lists are not supported; convert with `plutil -convert xml1`')
+  }
+
+  const tokens: { tag: string; closing: boolean; empty: boolean; text: string }[] = []
+  const tagRegex = /<(\/?)([A-Za-z]+)[^>]*?(\/?)>|([^<]+)/g
+  const body = xml.replace(/<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!--[\s\S]*?-->/g, '')
+  let match: RegExpExecArray | null
+  while ((match = tagRegex.exec(body)) !== null) {
+    if (match[4] !== undefined) {
+      tokens.push({ tag: '', closing: false, empty: false, text: match[4] })
+    } else {
+      tokens.push({ tag: match[2], closing: match[1] === '/', empty: match[3] === '/', text: '' })
+    }
+  }
+
+  let position = 0
+  const nextTag = () => {
+    while (position < tokens.length && !tokens[position].tag) position++
+    return tokens[position++]
+  }
+  const readText = (tag: string): string => {
+    let text = ''
+    while (position < tokens.length && !(tokens[position].tag === tag && tokens[position].closing)) {
+      text += tokens[position].text
+      position++
+    }
+    position++
+    return decodeXmlText(text)
+  }
+
+  const readValue = (): PlistValue => {
+    const token = nextTag()
+    if (!token) throw new Error('Unexpected end of property list')
+
+    switch (token.tag) {
+      case 'plist':
+        return readValue()
+      case 'dict': {
+        const dict: PlistDict = {}
+        if (token.empty) return dict
+        for (;;) {
+          const keyToken = nextTag()
+          if (!keyToken || (keyToken.tag === 'dict' && keyToken.closing)) return dict
+          if (keyToken.tag !== 'key') throw new Error(`Expected <key> in <dict>, found <${keyToken.tag}>`)
+          const key = readText('key')
+          dict[key] = readValue()
+        }
+      }
+      case 'array': {
+        const array: PlistValue[] = []
+        if (token.empty) return array
+        for (;;) {
+          const start = position
+          const next = nextTag()
+          if (!next || (next.tag === 'array' && next.closing)) return array
+          position = start
+          array.push(readValue())
+        }
+      }
+      case 'string':
+      case 'date':
+      case 'data':
+        return token.empty ? '' : readText(token.tag)
+      case 'integer':
+      case 'real':
+        return Number(readText(token.tag))
+      case 'true':
+        return true
+      case 'false':
+        return false
+      default:
+        throw new Error(`Unexpected <${token.closing ? '/' : ''}${token.tag}> in property list`)
+    }
+  }
+
+  return readValue()
+}
+
+const isPlistDict = (value: PlistValue | undefined): value is PlistDict =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Collects the dictionaries holding a key anywhere in a property list
+const findPlistDicts = (value: PlistValue, key: string): PlistDict[] => {
+  if (Array.isArray(value)) return value.flatMap((item) => findPlistDicts(item, key))
+  if (!isPlistDict(value)) return []
+  if (key in value) return [value]
+  return Object.values(value).flatMap((item) => findPlistDicts(item, key))
+}
+
+const plistString = (value: PlistValue | undefined): string =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : ''
+
+const tablePlusDrivers: Record<string, DatabaseType> = {
+  postgresql: DatabaseType.PostgreSQL,
+  mysql: DatabaseType.MySQL,
+  mariadb: DatabaseType.MariaDB,
+  sqlite: DatabaseType.SQLite,
+  clickhouse: DatabaseType.ClickHouse,
+  mongodb: DatabaseType.MongoDB,
+  redis: DatabaseType.Redis
+}
+
+const tablePlusEnvironments: Record<string, ConnectionEnvironment> = {
+  production: 'production',
+  staging: 'staging',
+  development: 'development',
+  testing: 'testing',
+  local: 'local'
+}
+
+/**
+ * Reads TablePlus connections (Connections.plist). TablePlus keeps passwords
+ * in the macOS keychain, so none are imported.
+ */
+export const parseTablePlusConnections = (content: string, origin: string): ConnectionImportCandidate[] => {
+  const candidates: ConnectionImportCandidate[] = []
+
+  for (const entry of findPlistDicts(parsePlist(content), 'ConnectionName')) {
+    const type = tablePlusDrivers[plistString(entry.Driver).toLowerCase()]
+    if (!type) {
+      logger.debug('Skipping TablePlus connection with unsupported driver', { driver: entry.Driver })
+      continue
+    }
+
+    const host = plistString(entry.DatabaseHost) || 'localhost'
+    const database = plistString(entry.DatabaseName)
+    // TablePlus spells the key "Enviroment"
+    const environment = tablePlusEnvironments[plistString(entry.Enviroment ?? entry.Environment).toLowerCase()]
+    const base = {
+      name: plistString(entry.ConnectionName) || connectionName(host, database),
+      type,
+      environment
+    }
+
+    if (type === DatabaseType.SQLite) {
+      const filepath = plistString(entry.DatabasePath)
+      candidates.push(createCandidate(ConnectionImportSource.TablePlus, origin, { ...base, database: filepath, filepath }))
+      continue
+    }
+
+    const sshHost = plistString(entry.ServerAddress)
+    const overSSH = entry.isOverSSH === true || entry.OverSSH === true
+    const ssh: SSHHostEntry | null = overSSH && sshHost
+      ? {
+        alias: sshHost,
+        host: sshHost,
+        port: toPort(entry.ServerPort, SSH_DEFAULT_PORT),
+        username: plistString(entry.ServerUser),
+        identityFile: entry.isUsePrivateKey === true ? plistString(entry.ServerPrivateKeyName) || undefined : undefined
+      }
+      : null
+
+    candidates.push(createCandidate(ConnectionImportSource.TablePlus, origin, {
+      ...base,
+      host,
+      port: toPort(entry.DatabasePort, DEFAULT_PORTS[type]),
+      database,
+      username: plistString(entry.DatabaseUser) || undefined
+    }, ssh))
+  }
+
+  return candidates
+}
+
+// Sequel Ace favorite connection types
+const SEQUEL_ACE_SOCKET = 1
+const SEQUEL_ACE_SSH = 2
+
+/**
+ * Reads Sequel Ace favorites (Favorites.plist or an exported connections file).
+ * Passwords live in the macOS keychain and are not imported.
+ */
+export const parseSequelAceFavorites = (content: string, origin: string): ConnectionImportCandidate[] => {
+  const candidates: ConnectionImportCandidate[] = []
+
+  for (const entry of findPlistDicts(parsePlist(content), 'host')) {
+    const type = Number(entry.type ?? 0)
+    const host = type === SEQUEL_ACE_SOCKET ? 'localhost' : plistString(entry.host) || 'localhost'
+    const database = plistString(entry.database)
+    const sshHost = plistString(entry.sshHost)
+    const ssh: SSHHostEntry | null = type === SEQUEL_ACE_SSH && sshHost
+      ? {
+        alias: sshHost,
+        host: sshHost,
+        port: toPort(entry.sshPort, SSH_DEFAULT_PORT),
+        username: plistString(entry.sshUser),
+        identityFile: Number(entry.sshKeyLocationEnabled) === 1 ? plistString(entry.sshKeyLocation) || undefined : undefined
+      }
+      : null
+
+    candidates.push(createCandidate(ConnectionImportSource.SequelAce, origin, {
+      name: plistString(entry.name) || connectionName(host, database),
+      type: DatabaseType.MySQL,
+      host,
+      port: toPort(entry.port, DEFAULT_PORTS[DatabaseType.MySQL]),
+      database,
+      username: plistString(entry.user) || undefined
+    }, ssh))
+  }
+
+  return candidates
+}
+
+export const detectImportSource = (filePath: string, content: string): ConnectionImportSource | null => {
+  const name = basename(filePath).toLowerCase()
+  if (name === '.pgpass' || name === 'pgpass.conf') return ConnectionImportSource.PgPass
+  if (name.endsWith('.cnf') || name === 'my.ini') return ConnectionImportSource.MyCnf
+  if (name.endsWith('.json') && content.includes('"connections"')) return ConnectionImportSource.DBeaver
+  if (content.startsWith('bplist') || content.includes('<plist')) {
+    return content.includes('<key>ConnectionName</key>') ? ConnectionImportSource.TablePlus : ConnectionImportSource.SequelAce
+  }
+  if (/^\s*Host\s+\S/im.test(content)) return ConnectionImportSource.SSHConfig
+  return null
+}
+
+const parseImportFile = (source: ConnectionImportSource, content: string, origin: string): ParsedImportFile => {
+  switch (source) {
+    case ConnectionImportSource.DBeaver:
+      return { candidates: parseDBeaverDataSources(content, origin), sshHosts: [] }
+    case ConnectionImportSource.TablePlus:
+      return { candidates: parseTablePlusConnections(content, origin), sshHosts: [] }
+    case ConnectionImportSource.SequelAce:
+      return { candidates: parseSequelAceFavorites(content, origin), sshHosts: [] }
+    case ConnectionImportSource.PgPass:
+      return { candidates: parsePgPass(content, origin), sshHosts: [] }
+    case ConnectionImportSource.MyCnf:
+      return { candidates: parseMyCnf(content, origin), sshHosts: [] }
+    case ConnectionImportSource.SSHConfig:
+      return { candidates: [], sshHosts: parseSSHConfig(content) }
+  }
+}
+
+const OPENSSH_CONFIG = join(homedir(), '.ssh', 'config')
+
+// Where each tool keeps its connections on this platform
+const defaultImportFiles = (): string[] => {
+  const home = homedir()
+  const dbeaverDataSources = ['workspace6', 'General', '.dbeaver', 'data-sources.json']
+
+  if (process.platform === 'darwin') {
+    return [
+      join(home, '.pgpass'),
+      join(home, '.my.cnf'),
+      OPENSSH_CONFIG,
+      join(home, 'Library', 'DBeaverData', ...dbeaverDataSources),
+      join(home, 'Library', 'Application Support', 'com.tinyapp.TablePlus', 'Data', 'Connections.plist'),
+      join(home, 'Library', 'Containers', 'com.sequel-ace.sequel-ace', 'Data', 'Library', 'Application Support', 'Sequel Ace', 'Data', 'Favorites.plist')
+    ]
+  }
+  if (process.platform === 'win32') {
+    const appData = process.env.APPDATA ?? join(home, 'AppData', 'Roaming')
+    return [
+      join(appData, 'postgresql', 'pgpass.conf'),
+      OPENSSH_CONFIG,
+      join(appData, 'DBeaverData', ...dbeaverDataSources)
+    ]
+  }
+  return [
+    join(home, '.pgpass'),
+    join(home, '.my.cnf'),
+    OPENSSH_CONFIG,
+    join(home, '.local', 'share', 'DBeaverData', ...dbeaverDataSources)
+  ]
+}
+
+const sameServer = (config: ConnectionConfig, saved: SavedConnection): boolean =>
+  config.type === saved.type &&
+  (config.type === DatabaseType.SQLite
+    ? config.filepath === saved.filepath
+    : (config.host ?? null) === saved.host &&
+      (config.port ?? null) === saved.port &&
+      config.database === saved.database &&
+      (config.username ?? null) === saved.username)
+
+/**
+ * Takes the tunnel settings a tool saved for a connection and fills them in from
+ * the ~/.ssh/config entry of the same name, so `ssh_tunnel host = bastion` picks up
+ * bastion's HostName, port, IdentityFile and ProxyJump.
+ */
+const mergeSSHHost = (entry: SSHHostEntry, sshHosts: SSHHostEntry[]): SSHHostEntry => {
+  const alias = sshHosts.find((host) => host.alias === entry.host)
+  if (!alias) return entry
+
+  return {
+    ...alias,
+    username: entry.username || alias.username,
+    identityFile: entry.identityFile ?? alias.identityFile,
+    password: entry.password
+  }
+}
+
+/**
+ * Reads connections from the given files, or from every known location of
+ * the supported tools when none are given. ~/.ssh/config is always read so
+ * tunnels can be matched to host aliases. Missing default files are skipped.
+ */
+export const scanConnectionImports = async (filePaths?: string[]): Promise<ConnectionImportPreview> => {
+  const explicit = !!filePaths?.length
+  const files = explicit ? [...filePaths] : defaultImportFiles()
+  if (!files.includes(OPENSSH_CONFIG)) files.push(OPENSSH_CONFIG)
+
+  const preview: ConnectionImportPreview = { candidates: [], sshHosts: [], errors: [] }
+
+  for (const file of files) {
+    let content: string
+    try {
+      content = await readFile(file, 'utf-8')
+    } catch (error) {
+      if (explicit && file !== OPENSSH_CONFIG) {
+        preview.errors.push({ file, error: error instanceof Error ? error.message : String(error) })
+      }
+      continue
+    }
+
+    const source = detectImportSource(file, content)
+    if (!source) {
+      preview.errors.push({ file, error: 'Not a recognized connection file' })
+      continue
+    }
+
+    try {
+      const parsed = parseImportFile(source, content, file)
+      preview.candidates.push(...parsed.candidates)
+      preview.sshHosts.push(...parsed.sshHosts.filter((entry) => !preview.sshHosts.some((host) => host.alias === entry.alias)))
+    } catch (error) {
+      preview.errors.push({ file, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const saved = connectionsService.list()
+  for (const candidate of preview.candidates) {
+    candidate.existingId = saved.find((connection) => sameServer(candidate.config, connection))?.id ?? null
+    if (candidate.ssh) candidate.ssh = mergeSSHHost(candidate.ssh, preview.sshHosts)
+  }
+
+  logger.info('Scanned connection imports', {
+    files: files.length,
+    candidates: preview.candidates.length,
+    sshHosts: preview.sshHosts.length,
+    errors: preview.errors.length
+  })
+  return preview
+}
+
+const parseJumpSpec = (spec: string): SSHHostEntry | null => {
+  const match = spec.match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:@]+)(?::(\d+))?$/)
+  if (!match) return null
+  return {
+    alias: spec,
+    host: match[2].replace(/^\[|\]$/g, ''),
+    port: toPort(match[3], SSH_DEFAULT_PORT),
+    username: match[1] ?? userInfo().username
+  }
+}
+
+// The key behind an IdentityFile is not copied into the connection; the tunnel
+// authenticates through the SSH agent, which is where ssh itself would find it
+const toSSHHost = (entry: SSHHostEntry): SSHHost => {
+  const host = { host: entry.host, port: entry.port, username: entry.username }
+
+  if (!entry.identityFile && entry.password) return { ...host, authMethod: 'password', password: entry.password }
+  return { ...host, authMethod: 'agent' }
+}
+
+/**
+ * Turns an SSH host entry into a tunnel config. ProxyJump hops become jump hosts;
+ * a hop that has a ProxyJump of its own is reached through it first, like ssh does.
+ */
+export const resolveSSHConfig = (entry: SSHHostEntry, sshHosts: SSHHostEntry[]): SSHConfig => {
+  const aliases = new Map(sshHosts.map((host) => [host.alias, host]))
+  const jumpHosts: SSHHost[] = []
+  const visited = new Set([entry.alias])
+
+  const addJumpHosts = (hops: string[] | undefined): void => {
+    for (const spec of hops ?? []) {
+      const hop = aliases.get(spec) ?? parseJumpSpec(spec)
+      if (!hop || visited.has(hop.alias)) continue
+      visited.add(hop.alias)
+      addJumpHosts(hop.proxyJump)
+      jumpHosts.push(toSSHHost(hop))
+    }
+  }
+  addJumpHosts(entry.proxyJump)
+
+  return {
+    enabled: true,
+    ...toSSHHost(entry),
+    jumpHosts: jumpHosts.length > 0 ? jumpHosts : undefined
+  }
+}
+
+/**
+ * Saves the chosen candidates as new connections. Passwords go to the keychain,
+ * never to the connections table.
+ */
+export const saveImportedConnections = async (
+  candidates: ConnectionImportCandidate[],
+  sshHosts: SSHHostEntry[]
+): Promise<SavedConnection[]> => {
+  const saved: SavedConnection[] = []
+
+  for (const { config, ssh } of candidates) {
+    const { password, ...rest } = config
+    const ready: ConnectionConfig = {
+      ...rest,
+      ssh: ssh ? resolveSSHConfig(ssh, sshHosts) : undefined
+    }
+
+    if (password) {
+      await keychainService.setPassword(config.id, password)
+    }
+    saved.push(connectionsService.save(ready))
+  }
+
+  logger.info('Imported connections', { count: saved.length })
+  return saved
+}
@@ -1,6 +1,8 @@
 import { appDatabase } from './database'
 import { DatabaseType } from '../types'
-import type { ConnectionConfig, ConnectionEnvironment, SavedConnection, SSLConfig, SSHConfig } from '../types'
+import type { ConnectionConfig, ConnectionEnvironment, QueryLimits, SavedConnection, SessionSettings, SSLConfig, SSHConfig } from '../types'
+import { hasSessionSettings } from './sessionSettings'
+import { normalizeQueryLimits } from './queryLimits'
 import { logger } from '../utils/logger'
 
 interface ConnectionRow {
@@ -17,6 +19,9 @@ interface ConnectionRow {
   ssh_config: string | null
   color: string | null
   environment: string | null
+  read_only: number
+  session_config: string | null
+  query_limits: string | null
   folder: string | null
   sort_order: number
   created_at: string
@@ -33,7 +38,7 @@ export class ConnectionsService {
     const rows = this.db.prepare(`
       SELECT
         id, name, type, host, port, database, username, filepath,
-        ssl, ssl_config, ssh_config, color, environment, folder, sort_order, created_at, updated_at, last_connected_at
+        ssl, ssl_config, ssh_config, color, environment, read_only, session_config, query_limits, folder, sort_order, created_at, updated_at, last_connected_at
       FROM connections
       ORDER BY sort_order ASC, name ASC
     `).all() as ConnectionRow[]
@@ -45,7 +50,7 @@ export class ConnectionsService {
     const row = this.db.prepare(`
       SELECT
         id, name, type, host, port, database, username, filepath,
-        ssl, ssl_config, ssh_config, color, environment, folder, sort_order, created_at, updated_at, last_connected_at
+        ssl, ssl_config, ssh_config, color, environment, read_only, session_config, query_limits, folder, sort_order, created_at, updated_at, last_connected_at
       FROM connections
       WHERE id = ?
     `).get(id) as ConnectionRow | undefined
@@ -59,6 +64,8 @@ export class ConnectionsService {
 
     // Prepare SSH config for storage (remove sensitive data if needed)
     const sshConfigForStorage = config.ssh ? { ...config.ssh } : null
+    const sessionConfigForStorage = config.session && hasSessionSettings(config.session) ? config.session : null
+    const queryLimitsForStorage = normalizeQueryLimits(config.queryLimits)
 
     if (existing) {
       // Update existing connection
@@ -76,6 +83,9 @@ export class ConnectionsService {
           ssh_config = ?,
           color = ?,
           environment = ?,
+          read_only = ?,
+          session_config = ?,
+          query_limits = ?,
           folder = ?,
           updated_at = ?
         WHERE id = ?
@@ -92,6 +102,9 @@ export class ConnectionsService {
         sshConfigForStorage ? JSON.stringify(sshConfigForStorage) : null,
         config.color || null,
         config.environment || null,
+        config.readOnly ? 1 : 0,
+        sessionConfigForStorage ? JSON.stringify(sessionConfigForStorage) : null,
+        queryLimitsForStorage ? JSON.stringify(queryLimitsForStorage) : null,
         config.folder || null,
         now,
         config.id
@@ -103,8 +116,8 @@ export class ConnectionsService {
       this.db.prepare(`
         INSERT INTO connections (
           id, name, type, host, port, database, username, filepath,
-          ssl, ssl_config, ssh_config, color, environment, folder, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          ssl, ssl_config, ssh_config, color, environment, read_only, session_config, query_limits, folder, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         config.id,
         config.name,
@@ -119,6 +132,9 @@ export class ConnectionsService {
         sshConfigForStorage ? JSON.stringify(sshConfigForStorage) : null,
         config.color || null,
         config.environment || null,
+        config.readOnly ? 1 : 0,
+        sessionConfigForStorage ? JSON.stringify(sessionConfigForStorage) : null,
+        queryLimitsForStorage ? JSON.stringify(queryLimitsForStorage) : null,
         config.folder || null,
         now,
         now
@@ -202,6 +218,9 @@ export class ConnectionsService {
       ssh: this.safeJsonParse(row.ssh_config) as SSHConfig | null,
       color: row.color || null,
       environment: (row.environment as ConnectionEnvironment) || null,
+      readOnly: row.read_only === 1,
+      session: this.safeJsonParse(row.session_config) as SessionSettings | null,
+      queryLimits: this.safeJsonParse(row.query_limits) as QueryLimits | null,
       folder: row.folder || null,
       sortOrder: row.sort_order ?? 0,
       createdAt: row.created_at,
@@ -0,0 +1,371 @@
+import type { DatabaseDriver } from '../db/base'
+import { DatabaseType } from '../types'
+import { readTableBatches } from './tableReader'
+
+// Relative to the target: Inserted rows exist only in the source, Deleted rows only in the target
+export enum RowDiffStatus {
+  Inserted = 'inserted',
+  Deleted = 'deleted',
+  Changed = 'changed'
+}
+
+export interface DataCompareEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+  table: string
+}
+
+export interface RowDiff {
+  status: RowDiffStatus
+  key: Record<string, unknown>
+  source?: Record<string, unknown>
+  target?: Record<string, unknown>
+  // Columns whose values differ, for Changed rows
+  changedColumns?: string[]
+}
+
+export interface DataCompareSummary {
+  inserted: number
+  deleted: number
+  changed: number
+  identical: number
+}
+
+export interface DataCompareResult {
+  keyColumns: string[]
+  // Columns present on both sides; only these are compared and scripted
+  columns: string[]
+  sourceOnlyColumns: string[]
+  targetOnlyColumns: string[]
+  sourceRowCount: number
+  targetRowCount: number
+  summary: DataCompareSummary
+  rows: RowDiff[]
+  // True when more differences exist than `rows` holds; the script still covers all of them
+  truncated: boolean
+  script: string
+}
+
+export interface TableRows {
+  table: string
+  schema?: string
+  columns: string[]
+  keyColumns: string[]
+  // Key columns holding numbers, which are ordered by value; the rest are ordered by their bytes
+  numericKeyColumns: string[]
+  // Streams the rows ordered by `keyOrder`, which both sides of a compare share
+  read(keyOrder: string[]): AsyncGenerator<Record<string, unknown>>
+}
+
+export interface DataCompareOptions {
+  batchSize?: number
+  maxReportedRows?: number
+}
+
+const DEFAULT_BATCH_SIZE = 5000
+const DEFAULT_MAX_REPORTED_ROWS = 1000
+
+const NUMERIC_TYPE = /^((tiny|small|medium|big)?int(eger)?|int[248]|(small|big)?serial|numeric|decimal|real|double|float[48]?)\b/i
+// Types a collation applies to, which are read in byte order instead
+const TEXT_TYPE = /char|text|clob|^(name|citext|enum|set)$/i
+
+/**
+ * Reduces a cell value to a string so rows read through different drivers compare
+ * equal when they hold the same data: pg returns bigint and numeric as strings,
+ * MySQL returns booleans as 0/1, and dates and binary values are objects.
+ */
+const canonicalValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? String(value) : value.toISOString()
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('hex')
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+const toNumeric = (value: unknown): number | bigint => {
+  if (typeof value === 'number' || typeof value === 'bigint') return value
+  const text = String(value)
+  return /^-?\d+$/.test(text) ? BigInt(text) : Number(text)
+}
+
+const compareKeyValues = (a: unknown, b: unknown, numeric: boolean): number => {
+  const left = canonicalValue(a)
+  const right = canonicalValue(b)
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? -1 : 1
+  }
+  if (numeric) {
+    const x = toNumeric(a)
+    const y = toNumeric(b)
+    return x < y ? -1 : x > y ? 1 : 0
+  }
+  return Buffer.compare(Buffer.from(left), Buffer.from(right))
+}
+
+type KeyComparator = (a: Record<string, unknown>, b: Record<string, unknown>) => number
+
+/**
+ * Orders rows by key the way the engines return them: numbers by value and everything
+ * else by the bytes of its canonical value, which is what a binary collation sorts on.
+ */
+const createKeyComparator = (keyColumns: string[], numericKeyColumns: Set<string>): KeyComparator =>
+  (a, b) => {
+    for (const col of keyColumns) {
+      const order = compareKeyValues(a[col], b[col], numericKeyColumns.has(col))
+      if (order !== 0) return order
+    }
+    return 0
+  }
+
+/**
+ * Describes a table for a compare and reads it on demand, through a cursor ordered by
+ * the primary key with text keys in byte order, so two engines return matching rows in
+ * the same order and the compare never holds more than a batch of either table.
+ */
+export const openTableRows = async (
+  driver: DatabaseDriver,
+  table: string,
+  schema: string | undefined,
+  options: DataCompareOptions = {}
+): Promise<TableRows> => {
+  const keyColumns = await driver.getPrimaryKeyColumns(table)
+  if (keyColumns.length === 0) {
+    throw new Error(`Table "${table}" has no primary key, so its rows cannot be matched`)
+  }
+
+  const columns = await driver.getColumns(table)
+  const typeOf = (name: string) => columns.find((col) => col.name === name)?.type ?? ''
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+
+  return {
+    table,
+    schema,
+    columns: columns.map((col) => col.name),
+    keyColumns,
+    numericKeyColumns: keyColumns.filter((col) => NUMERIC_TYPE.test(typeOf(col))),
+    async *read(keyOrder) {
+      const batches = readTableBatches(driver, table, {
+        keyColumns: keyOrder,
+        binaryOrderColumns: keyOrder.filter((col) => TEXT_TYPE.test(typeOf(col)))
+      }, batchSize)
+      for await (const batch of batches) {
+        yield* batch.rows
+      }
+    }
+  }
+}
+
+interface OrderedRows {
+  // The current row; undefined once the table is exhausted
+  row: Record<string, unknown> | undefined
+  count: number
+  advance(): Promise<void>
+  close(): Promise<void>
+}
+
+const readOrderedRows = async (table: TableRows, keyOrder: string[], compareKeys: KeyComparator): Promise<OrderedRows> => {
+  const rows = table.read(keyOrder)
+  const reader: OrderedRows = {
+    row: undefined,
+    count: 0,
+    advance: async () => {
+      const next = await rows.next()
+      if (next.done) {
+        reader.row = undefined
+        return
+      }
+      // A merge only works on strictly ascending keys
+      if (reader.row && compareKeys(reader.row, next.value) >= 0) {
+        throw new Error(`Table "${table.table}" did not return its rows in primary key order, so they cannot be matched`)
+      }
+      reader.row = next.value
+      reader.count++
+    },
+    close: async () => {
+      await rows.return(undefined)
+    }
+  }
+  await reader.advance()
+  return reader
+}
+
+interface ScriptDialect {
+  quote(identifier: string): string
+  literal(value: unknown): string
+}
+
+const toHex = (value: Uint8Array): string => Buffer.from(value).toString('hex')
+
+const stringLiteral = (text: string, escapeBackslashes: boolean): string => {
+  const escaped = text.replace(/'/g, "''")
+  return `'${escapeBackslashes ? escaped.replace(/\\/g, '\\\\') : escaped}'`
+}
+
+const createDialect = (type: DatabaseType): ScriptDialect => {
+  const isPostgres = type === DatabaseType.PostgreSQL
+  const isMySQL = type === DatabaseType.MySQL || type === DatabaseType.MariaDB
+
+  return {
+    quote: isMySQL ? (name) => `\`${name}\`` : (name) => `"${name}"`,
+    literal: (value) => {
+      if (value === null || value === undefined) return 'NULL'
+      if (typeof value === 'number') return Number.isFinite(value) ? String(value) : `'${value}'`
+      if (typeof value === 'bigint') return value.toString()
+      if (typeof value === 'boolean') {
+        if (isPostgres) return value ? 'TRUE' : 'FALSE'
+        return value ? '1' : '0'
+      }
+      if (value instanceof Date) return `'${value.toISOString()}'`
+      if (value instanceof Uint8Array) return isPostgres ? `'\\x${toHex(value)}'::bytea` : `X'${toHex(value)}'`
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+      return stringLiteral(text, isMySQL)
+    }
+  }
+}
+
+const createSyncScript = (
+  type: DatabaseType,
+  target: TableRows,
+  columns: string[]
+): { add(diff: RowDiff): void; build(): string } => {
+  const dialect = createDialect(type)
+  const table = target.schema && type === DatabaseType.PostgreSQL
+    ? `${dialect.quote(target.schema)}.${dialect.quote(target.table)}`
+    : dialect.quote(target.table)
+  const keyColumns = new Set(target.keyColumns)
+  const where = (key: Record<string, unknown>) =>
+    target.keyColumns
+      .map((col) => key[col] === null || key[col] === undefined
+        ? `${dialect.quote(col)} IS NULL`
+        : `${dialect.quote(col)} = ${dialect.literal(key[col])}`)
+      .join(' AND ')
+
+  const deletes: string[] = []
+  const updates: string[] = []
+  const inserts: string[] = []
+  const columnList = columns.map((col) => dialect.quote(col)).join(', ')
+
+  return {
+    add: (diff) => {
+      switch (diff.status) {
+        case RowDiffStatus.Deleted:
+          deletes.push(`DELETE FROM ${table} WHERE ${where(diff.key)};`)
+          break
+        case RowDiffStatus.Changed: {
+          const assignments = diff.changedColumns!
+            .filter((col) => !keyColumns.has(col))
+            .map((col) => `${dialect.quote(col)} = ${dialect.literal(diff.source![col])}`)
+          if (assignments.length > 0) {
+            updates.push(`UPDATE ${table} SET ${assignments.join(', ')} WHERE ${where(diff.key)};`)
+          }
+          break
+        }
+        case RowDiffStatus.Inserted: {
+          const values = columns.map((col) => dialect.literal(diff.source![col])).join(', ')
+          inserts.push(`INSERT INTO ${table} (${columnList}) VALUES (${values});`)
+          break
+        }
+      }
+    },
+    // Deletes run first so re-inserted rows cannot collide with unique constraints
+    build: () => [
+      ['-- Delete rows missing from the source', deletes],
+      ['-- Update changed rows', updates],
+      ['-- Insert rows missing from the target', inserts]
+    ]
+      .filter(([, statements]) => statements.length > 0)
+      .map(([title, statements]) => [title, ...statements].join('\n'))
+      .join('\n\n')
+  }
+}
+
+/**
+ * Matches rows by primary key, merging the two tables as they stream in key order, and
+ * reports the rows that would have to be inserted, deleted or updated in the target to
+ * match the source, with a script that does so.
+ */
+export const compareTableRows = async (
+  source: TableRows,
+  target: TableRows,
+  targetType: DatabaseType,
+  options: DataCompareOptions = {}
+): Promise<DataCompareResult> => {
+  const sameKey = source.keyColumns.length === target.keyColumns.length &&
+    source.keyColumns.every((col) => target.keyColumns.includes(col))
+  if (!sameKey) {
+    throw new Error(
+      `Primary keys differ: (${source.keyColumns.join(', ')}) in the source, (${target.keyColumns.join(', ')}) in the target`
+    )
+  }
+  const keyColumns = target.keyColumns
+  // Both sides must order each key column the same way
+  const numericKeyColumns = new Set(target.numericKeyColumns)
+  const mismatched = keyColumns.find((col) => source.numericKeyColumns.includes(col) !== numericKeyColumns.has(col))
+  if (mismatched) {
+    throw new Error(`Key column "${mismatched}" is numeric in one table but not in the other, so their rows cannot be matched`)
+  }
+
+  const targetColumns = new Set(target.columns)
+  const sourceColumns = new Set(source.columns)
+  const columns = source.columns.filter((col) => targetColumns.has(col))
+  const pickKey = (row: Record<string, unknown>) => Object.fromEntries(keyColumns.map((col) => [col, row[col]]))
+
+  const maxReportedRows = options.maxReportedRows ?? DEFAULT_MAX_REPORTED_ROWS
+  const summary: DataCompareSummary = { inserted: 0, deleted: 0, changed: 0, identical: 0 }
+  const reported: RowDiff[] = []
+  const script = createSyncScript(targetType, target, columns)
+  const record = (diff: RowDiff) => {
+    summary[diff.status]++
+    if (reported.length <= maxReportedRows) reported.push(diff)
+    script.add(diff)
+  }
+
+  const compareKeys = createKeyComparator(keyColumns, numericKeyColumns)
+  const sourceRows = await readOrderedRows(source, keyColumns, compareKeys)
+  let targetRows: OrderedRows | undefined
+  try {
+    targetRows = await readOrderedRows(target, keyColumns, compareKeys)
+
+    while (sourceRows.row || targetRows.row) {
+      const sourceRow = sourceRows.row
+      const targetRow = targetRows.row
+      const order = !targetRow ? -1 : !sourceRow ? 1 : compareKeys(sourceRow, targetRow)
+
+      if (order < 0) {
+        record({ status: RowDiffStatus.Inserted, key: pickKey(sourceRow!), source: sourceRow })
+        await sourceRows.advance()
+      } else if (order > 0) {
+        record({ status: RowDiffStatus.Deleted, key: pickKey(targetRow!), target: targetRow })
+        await targetRows.advance()
+      } else {
+        const changedColumns = columns.filter((col) => canonicalValue(sourceRow![col]) !== canonicalValue(targetRow![col]))
+        if (changedColumns.length === 0) {
+          summary.identical++
+        } else {
+          record({ status: RowDiffStatus.Changed, key: pickKey(sourceRow!), source: sourceRow, target: targetRow, changedColumns })
+        }
+        await sourceRows.advance()
+        await targetRows.advance()
+      }
+    }
+  } finally {
+    await sourceRows.close()
+    await targetRows?.close()
+  }
+
+  return {
+    keyColumns,
+    columns,
+    sourceOnlyColumns: source.columns.filter((col) => !targetColumns.has(col)),
+    targetOnlyColumns: target.columns.filter((col) => !sourceColumns.has(col)),
+    sourceRowCount: sourceRows.count,
+    targetRowCount: targetRows.count,
+    summary,
+    rows: reported.slice(0, maxReportedRows),
+    truncated: reported.length > maxReportedRows,
+    script: script.build()
+  }
+}
@@ -129,6 +129,30 @@ class AppDatabase {
       // Column already exists, ignore
     }
 
+    // Migration: Add read_only column if it doesn't exist
+    try {
+      this.db!.exec(`ALTER TABLE connections ADD COLUMN read_only INTEGER DEFAULT 0`)
+      logger.debug('Added read_only column to connections table')
+    } catch {
+      // Column already exists, ignore
+    }
+
+    // Migration: Add session_config column if it doesn't exist
+    try {
+      this.db!.exec(`ALTER TABLE connections ADD COLUMN session_config TEXT`)
+      logger.debug('Added session_config column to connections table')
+    } catch {
+      // Column already exists, ignore
+    }
+
+    // Migration: Add query_limits column if it doesn't exist
+    try {
+      this.db!.exec(`ALTER TABLE connections ADD COLUMN query_limits TEXT`)
+      logger.debug('Added query_limits column to connections table')
+    } catch {
+      // Column already exists, ignore
+    }
+
     // Query history table
     this.db!.exec(`
       CREATE TABLE IF NOT EXISTS query_history (
@@ -163,6 +187,14 @@ class AppDatabase {
       )
     `)
 
+    // Migration: Add parameter_values column to saved_queries if it doesn't exist
+    try {
+      this.db!.exec(`ALTER TABLE saved_queries ADD COLUMN parameter_values TEXT`)
+      logger.debug('Added parameter_values column to saved_queries table')
+    } catch {
+      // Column already exists, ignore
+    }
+
     // App settings table
     this.db!.exec(`
       CREATE TABLE IF NOT EXISTS settings (
@@ -224,6 +256,34 @@ class AppDatabase {
       ON bookmarks(connection_id)
     `)
 
+    // Last committed batch of a streaming import, so an interrupted import can resume
+    this.db!.exec(`
+      CREATE TABLE IF NOT EXISTS import_checkpoints (
+        connection_id TEXT NOT NULL,
+        table_name TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        file_size INTEGER NOT NULL,
+        file_modified INTEGER NOT NULL,
+        rows_processed INTEGER NOT NULL,
+        rows_inserted INTEGER NOT NULL,
+        rows_rejected INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (connection_id, table_name, file_path)
+      )
+    `)
+
+    // SSH host keys the user trusted on first connect, checked on every tunnel after that
+    this.db!.exec(`
+      CREATE TABLE IF NOT EXISTS ssh_known_hosts (
+        host TEXT NOT NULL,
+        port INTEGER NOT NULL,
+        key_type TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        added_at TEXT NOT NULL DEFAULT (datetime('now')),
+        PRIMARY KEY (host, port, key_type)
+      )
+    `)
+
     logger.debug('Database tables created/verified')
   }
 
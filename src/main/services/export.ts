@@ -0,0 +1,242 @@
+import { BrowserWindow } from 'electron'
+import { createWriteStream, type WriteStream } from 'fs'
+import { once } from 'events'
+import type { DatabaseDriver } from '../db/base'
+import { isSingleReadStatement } from './statementClassifier'
+import { readCursorBatches, readTableBatches, type TableBatch } from './tableReader'
+import { DatabaseType, type DataFilter, type SortDirection } from '../types'
+
+export enum ExportSourceType {
+  Table = 'table',
+  Query = 'query'
+}
+
+export interface ExportSource {
+  type: ExportSourceType
+  table?: string
+  sql?: string
+  filters?: DataFilter[]
+  orderBy?: string
+  orderDirection?: SortDirection
+  // Read on a session of its own, opened on this database and schema
+  database?: string
+  schema?: string
+}
+
+export interface StreamExportOptions {
+  exportId: string
+  connectionId: string
+  source: ExportSource
+  format: 'csv' | 'json' | 'sql'
+  includeHeaders?: boolean
+  delimiter?: string
+  batchSize?: number
+}
+
+export interface ExportProgressEvent {
+  exportId: string
+  rowsWritten: number
+  totalRows?: number
+}
+
+export class ExportCanceledError extends Error {
+  constructor() {
+    super('Export canceled')
+    this.name = 'ExportCanceledError'
+  }
+}
+
+const DEFAULT_BATCH_SIZE = 5000
+
+// Engines whose query results are read through a driver cursor
+const STREAMABLE_QUERY_TYPES = new Set<DatabaseType>([
+  DatabaseType.SQLite,
+  DatabaseType.MySQL,
+  DatabaseType.MariaDB,
+  DatabaseType.PostgreSQL,
+  DatabaseType.ClickHouse
+])
+
+export const emitExportProgress = (event: ExportProgressEvent) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('export:progress', event)
+  }
+}
+
+export const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return ''
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+export const escapeCSVField = (value: string, delimiter: string): string => {
+  // If the value contains the delimiter, quotes, or newlines, wrap it in quotes
+  if (value.includes(delimiter) || value.includes('"') || value.includes('\n') || value.includes('\r')) {
+    // Escape quotes by doubling them
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+export const formatSQLValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return 'NULL'
+  }
+  if (typeof value === 'number') {
+    return String(value)
+  }
+  if (typeof value === 'boolean') {
+    return value ? '1' : '0'
+  }
+  // Escape single quotes for SQL strings
+  const strValue = String(value).replace(/'/g, "''")
+  return `'${strValue}'`
+}
+
+/**
+ * Reads the export source batch by batch. Tables stream through a cursor ordered like the
+ * grid and then by the whole primary key, so ties never move rows between batches; queries
+ * stream through a cursor in the order they define.
+ */
+async function* readSourceBatches(
+  driver: DatabaseDriver,
+  source: ExportSource,
+  batchSize: number
+): AsyncGenerator<TableBatch> {
+  if (source.type === ExportSourceType.Table) {
+    if (!source.table) {
+      throw new Error('A table name is required to export a table')
+    }
+    const keyColumns = await driver.getPrimaryKeyColumns(source.table)
+    yield* readTableBatches(driver, source.table, {
+      filters: source.filters,
+      orderBy: source.orderBy,
+      orderDirection: source.orderDirection,
+      keyColumns
+    }, batchSize)
+    return
+  }
+
+  const sql = source.sql?.trim().replace(/;+\s*$/, '')
+  if (!sql) {
+    throw new Error('A SQL query is required to export query results')
+  }
+  if (!STREAMABLE_QUERY_TYPES.has(driver.type)) {
+    throw new Error(`Streaming query export is not supported for ${driver.type} connections`)
+  }
+  // Anything else would run through execute rather than a cursor
+  if (!isSingleReadStatement(driver.type, sql)) {
+    throw new Error('Only a single SELECT statement can be exported')
+  }
+  yield* readCursorBatches(await driver.openCursor(sql, undefined, { maxRows: batchSize }), batchSize)
+}
+
+export const writeChunk = async (stream: WriteStream, chunk: string): Promise<void> => {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain')
+  }
+}
+
+const formatRows = (
+  options: StreamExportOptions,
+  columns: { name: string }[],
+  rows: Record<string, unknown>[],
+  isFirstBatch: boolean
+): string => {
+  const lines: string[] = []
+
+  switch (options.format) {
+    case 'csv': {
+      const delimiter = options.delimiter || ','
+      for (const row of rows) {
+        lines.push(columns.map((col) => escapeCSVField(formatValue(row[col.name]), delimiter)).join(delimiter))
+      }
+      return lines.map((line) => `${line}\n`).join('')
+    }
+    case 'json': {
+      for (const row of rows) {
+        const cleanRow: Record<string, unknown> = {}
+        for (const col of columns) {
+          cleanRow[col.name] = row[col.name]
+        }
+        lines.push(`  ${JSON.stringify(cleanRow)}`)
+      }
+      if (lines.length === 0) return ''
+      return (isFirstBatch ? '\n' : ',\n') + lines.join(',\n')
+    }
+    case 'sql': {
+      const tableName = options.source.table || 'table_name'
+      const columnList = columns.map((col) => `"${col.name}"`).join(', ')
+      for (const row of rows) {
+        const values = columns.map((col) => formatSQLValue(row[col.name])).join(', ')
+        lines.push(`INSERT INTO "${tableName}" (${columnList}) VALUES (${values});\n`)
+      }
+      return lines.join('')
+    }
+    default:
+      throw new Error(`Unsupported export format: ${options.format}`)
+  }
+}
+
+/**
+ * Streams every row of a table or query to `filePath`, one batch at a time, so memory use
+ * stays bounded by the batch size. Aborting `signal` stops after the current batch and
+ * rejects with ExportCanceledError; the caller owns cleanup of the partial file.
+ */
+export const streamExport = async (
+  driver: DatabaseDriver,
+  options: StreamExportOptions,
+  filePath: string,
+  signal: AbortSignal,
+  onProgress: (event: ExportProgressEvent) => void
+): Promise<number> => {
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE
+  const stream = createWriteStream(filePath, { encoding: 'utf-8' })
+
+  let streamError: Error | null = null
+  stream.on('error', (err) => {
+    streamError = err
+  })
+
+  let rowsWritten = 0
+  try {
+    if (options.format === 'json') {
+      await writeChunk(stream, '[')
+    }
+
+    let isFirstBatch = true
+    for await (const batch of readSourceBatches(driver, options.source, batchSize)) {
+      if (streamError) throw streamError
+
+      if (isFirstBatch && options.format === 'csv' && options.includeHeaders !== false) {
+        const delimiter = options.delimiter || ','
+        await writeChunk(stream, batch.columns.map((col) => escapeCSVField(col.name, delimiter)).join(delimiter) + '\n')
+      }
+
+      await writeChunk(stream, formatRows(options, batch.columns, batch.rows, rowsWritten === 0))
+      rowsWritten += batch.rows.length
+      isFirstBatch = false
+      onProgress({ exportId: options.exportId, rowsWritten, totalRows: batch.totalRows })
+
+      // Leaving the loop closes the cursor
+      if (signal.aborted) {
+        throw new ExportCanceledError()
+      }
+    }
+
+    if (options.format === 'json') {
+      await writeChunk(stream, rowsWritten > 0 ? '\n]\n' : ']\n')
+    }
+  } finally {
+    stream.end()
+    await once(stream, 'close').catch(() => undefined)
+  }
+
+  if (streamError) throw streamError
+  return rowsWritten
+}
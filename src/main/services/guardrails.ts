@@ -0,0 +1,176 @@
+import { BrowserWindow, dialog } from 'electron'
+import { appDatabase } from './database'
+import { connectionManager } from '../db/manager'
+import { logger } from '../utils/logger'
+import { StatementType, type ClassifiedStatement } from './statementClassifier'
+import type { ConnectionEnvironment } from '../types'
+
+export interface GuardrailPolicy {
+  // Only reads and session statements may run
+  readOnly: boolean
+  // DROP, TRUNCATE and DELETE/UPDATE without WHERE ask for confirmation first
+  confirmDestructive: boolean
+  // When on, only the statement types in allowedStatements may run
+  restrictStatements: boolean
+  allowedStatements: StatementType[]
+}
+
+export type GuardrailPolicies = Record<ConnectionEnvironment, GuardrailPolicy>
+
+export class GuardrailError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GuardrailError'
+  }
+}
+
+export const ENVIRONMENTS: ConnectionEnvironment[] = ['production', 'staging', 'development', 'testing', 'local']
+
+export const READ_ONLY_STATEMENTS: StatementType[] = [StatementType.Select, StatementType.Session]
+
+const ALL_STATEMENTS = Object.values(StatementType)
+
+const DEFAULT_POLICY: GuardrailPolicy = {
+  readOnly: false,
+  confirmDestructive: false,
+  restrictStatements: false,
+  allowedStatements: ALL_STATEMENTS
+}
+
+const DEFAULT_POLICIES: GuardrailPolicies = {
+  production: { ...DEFAULT_POLICY, confirmDestructive: true },
+  staging: { ...DEFAULT_POLICY, confirmDestructive: true },
+  development: DEFAULT_POLICY,
+  testing: DEFAULT_POLICY,
+  local: DEFAULT_POLICY
+}
+
+const SETTINGS_KEY_PREFIX = 'guardrails.'
+
+// Describes a schema operation that runs its own SQL, e.g. dropping a table from the sidebar
+export const guardedOperation = (
+  type: StatementType,
+  sql: string,
+  destructive = type === StatementType.Drop || type === StatementType.Truncate
+): ClassifiedStatement => ({ type, destructive, keyword: type.toUpperCase(), sql })
+
+/**
+ * Checks statements against a policy. Returns the reason the batch is refused, or null
+ * when it may run (possibly after confirmation).
+ */
+export const findPolicyViolation = (policy: GuardrailPolicy, statements: ClassifiedStatement[]): string | null => {
+  for (const statement of statements) {
+    if (policy.readOnly && !READ_ONLY_STATEMENTS.includes(statement.type)) {
+      return `${statement.keyword} statements are blocked: the connection is read-only`
+    }
+    if (policy.restrictStatements && !policy.allowedStatements.includes(statement.type)) {
+      return `${statement.keyword} statements are not in the allowed statement types`
+    }
+  }
+  return null
+}
+
+export class GuardrailsService {
+  private get db() {
+    return appDatabase.getDatabase()
+  }
+
+  getPolicy(environment: ConnectionEnvironment): GuardrailPolicy {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?')
+      .get(SETTINGS_KEY_PREFIX + environment) as { value: string } | undefined
+
+    if (!row) return DEFAULT_POLICIES[environment]
+    try {
+      return { ...DEFAULT_POLICIES[environment], ...(JSON.parse(row.value) as Partial<GuardrailPolicy>) }
+    } catch {
+      logger.warn('Ignoring unreadable guardrail policy', { environment })
+      return DEFAULT_POLICIES[environment]
+    }
+  }
+
+  getPolicies(): GuardrailPolicies {
+    return Object.fromEntries(ENVIRONMENTS.map((environment) => [environment, this.getPolicy(environment)])) as GuardrailPolicies
+  }
+
+  setPolicy(environment: ConnectionEnvironment, policy: GuardrailPolicy): GuardrailPolicy {
+    if (!ENVIRONMENTS.includes(environment)) {
+      throw new Error(`Unknown environment: ${environment}`)
+    }
+
+    const value: GuardrailPolicy = {
+      readOnly: policy.readOnly,
+      confirmDestructive: policy.confirmDestructive,
+      restrictStatements: policy.restrictStatements,
+      allowedStatements: policy.allowedStatements.filter((type) => ALL_STATEMENTS.includes(type))
+    }
+
+    this.db.prepare(`
+      INSERT INTO settings (key, value, updated_at)
+      VALUES (?, ?, datetime('now'))
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(SETTINGS_KEY_PREFIX + environment, JSON.stringify(value))
+
+    logger.info('Guardrail policy updated', { environment, ...value })
+    return value
+  }
+}
+
+export const guardrailsService = new GuardrailsService()
+
+const confirmDestructive = async (
+  connectionName: string,
+  environment: ConnectionEnvironment,
+  statements: ClassifiedStatement[]
+): Promise<boolean> => {
+  const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+  const options: Electron.MessageBoxOptions = {
+    type: 'warning',
+    title: 'Confirm Destructive Statement',
+    message: `Run ${statements.length === 1 ? 'a destructive statement' : `${statements.length} destructive statements`} on "${connectionName}" (${environment})?`,
+    detail: statements.map((s) => (s.sql.length > 200 ? `${s.sql.substring(0, 200)}…` : s.sql)).join('\n\n'),
+    buttons: ['Cancel', 'Run'],
+    defaultId: 0,
+    cancelId: 0,
+    noLink: true
+  }
+
+  const { response } = window ? await dialog.showMessageBox(window, options) : await dialog.showMessageBox(options)
+  return response === 1
+}
+
+/**
+ * Applies the connection's read-only flag and the guardrail policy of its environment to
+ * statements about to run on it. Throws a GuardrailError when either refuses them or the
+ * user declines the confirmation. Connections without an environment only get the
+ * read-only check.
+ */
+export const enforceGuardrails = async (connectionId: string, statements: ClassifiedStatement[]): Promise<void> => {
+  const config = connectionManager.getConfig(connectionId)
+  if (!config || statements.length === 0) return
+
+  if (config.readOnly) {
+    const write = statements.find((s) => !READ_ONLY_STATEMENTS.includes(s.type))
+    if (write) {
+      logger.warn('Statement blocked on read-only connection', { connectionId, keyword: write.keyword })
+      throw new GuardrailError(`${write.keyword} is not allowed on a read-only connection`)
+    }
+  }
+
+  if (!config.environment) return
+
+  const policy = guardrailsService.getPolicy(config.environment)
+  const violation = findPolicyViolation(policy, statements)
+  if (violation) {
+    logger.warn('Statement blocked by guardrails', { connectionId, environment: config.environment, violation })
+    throw new GuardrailError(violation)
+  }
+
+  const destructive = statements.filter((s) => s.destructive)
+  if (policy.confirmDestructive && destructive.length > 0) {
+    const confirmed = await confirmDestructive(config.name, config.environment, destructive)
+    if (!confirmed) {
+      logger.info('Destructive statement canceled by user', { connectionId, environment: config.environment })
+      throw new GuardrailError('Destructive statement canceled')
+    }
+  }
+}
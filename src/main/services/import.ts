@@ -1,6 +1,20 @@
-import { readFile } from 'fs/promises'
+import { BrowserWindow } from 'electron'
+import { createReadStream, createWriteStream, type WriteStream } from 'fs'
+import { readFile, stat } from 'fs/promises'
+import { once } from 'events'
+import { pipeline } from 'stream'
+import { createInterface } from 'readline'
 import { parse as parseCSV } from 'csv-parse/sync'
+import { parse as parseCSVStream, type Options as CSVOptions } from 'csv-parse'
+import * as XLSX from 'xlsx'
 import { logger } from '../utils/logger'
+import type { DatabaseDriver } from '../db/base'
+import type { PostgreSQLDriver } from '../db/postgres'
+import { DatabaseType } from '../types'
+import { writeChunk } from './export'
+import { readSQLScript, ScriptItemKind, type SQLScriptOptions } from './postgresBackup'
+
+export type ImportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx' | 'sql'
 
 export interface ImportColumn {
   name: string
@@ -12,7 +26,12 @@ export interface ImportPreview {
   columns: ImportColumn[]
   rows: Record<string, unknown>[]
   totalRows: number
+  // Set when totalRows was extrapolated from the first rows of a large file
+  totalRowsEstimated?: boolean
   hasHeaders: boolean
+  // Sheets of a workbook, or tables with INSERT statements in a SQL file
+  sources?: string[]
+  source?: string
 }
 
 export interface ColumnMapping {
@@ -23,11 +42,65 @@ export interface ColumnMapping {
 
 export interface ImportOptions {
   filePath: string
-  format: 'csv' | 'json'
+  format: ImportFormat
   hasHeaders?: boolean
   delimiter?: string
   encoding?: BufferEncoding
   previewLimit?: number
+  // Sheet (XLSX) or table (SQL) to read; defaults to the first one in the file
+  source?: string
+}
+
+export enum ImportErrorPolicy {
+  Abort = 'abort',
+  Skip = 'skip',
+  RejectFile = 'reject-file'
+}
+
+export interface StreamImportOptions {
+  importId: string
+  connectionId: string
+  tableName: string
+  filePath: string
+  format: ImportFormat
+  hasHeaders?: boolean
+  delimiter?: string
+  source?: string
+  columnMappings: ColumnMapping[]
+  truncateTable?: boolean
+  errorPolicy: ImportErrorPolicy
+  // Rows per INSERT; capped by the driver's bind parameter limit
+  batchSize?: number
+  // Continue from the saved checkpoint instead of starting over
+  resume?: boolean
+}
+
+export interface ImportCounts {
+  // Records read from the file, whether inserted or rejected
+  rowsProcessed: number
+  rowsInserted: number
+  rowsRejected: number
+}
+
+export interface ImportProgressEvent extends ImportCounts {
+  importId: string
+  bytesRead: number
+  totalBytes: number
+}
+
+export interface StreamImportSummary extends ImportCounts {
+  success: boolean
+  canceled?: boolean
+  error?: string
+  errors: string[]
+  rejectFilePath?: string
+}
+
+export class ImportCanceledError extends Error {
+  constructor() {
+    super('Import canceled')
+    this.name = 'ImportCanceledError'
+  }
 }
 
 export interface ImportDataOptions {
@@ -131,23 +204,31 @@ export const detectType = (values: unknown[]): string => {
   return 'TEXT'
 }
 
+// Files above this size are previewed from their first rows instead of being read whole
+const STREAMING_PREVIEW_BYTES = 32 * 1024 * 1024
+
+const csvParseOptions = (options: ImportOptions): CSVOptions => ({
+  delimiter: options.delimiter || ',',
+  columns: options.hasHeaders !== false, // Default to true
+  skip_empty_lines: true,
+  trim: true,
+  relax_quotes: true,
+  relax_column_count: true
+})
+
 /**
  * Parse CSV file and return preview data
  */
 export const parseCSVFile = async (options: ImportOptions): Promise<ImportPreview> => {
   logger.debug('Parsing CSV file', { filePath: options.filePath })
 
-  const content = await readFile(options.filePath, options.encoding || 'utf-8')
-  const delimiter = options.delimiter || ','
+  const { size } = await stat(options.filePath)
+  if (size > STREAMING_PREVIEW_BYTES) {
+    return previewLargeFile(options, size)
+  }
 
-  const records = parseCSV(content, {
-    delimiter,
-    columns: options.hasHeaders !== false, // Default to true
-    skip_empty_lines: true,
-    trim: true,
-    relax_quotes: true,
-    relax_column_count: true
-  }) as unknown as Record<string, unknown>[]
+  const content = await readFile(options.filePath, options.encoding || 'utf-8')
+  const records = parseCSV(content, csvParseOptions(options)) as unknown as Record<string, unknown>[]
 
   const previewLimit = options.previewLimit || 100
   const previewRows = records.slice(0, previewLimit)
@@ -191,28 +272,13 @@ export const parseCSVFile = async (options: ImportOptions): Promise<ImportPrevie
 export const parseJSONFile = async (options: ImportOptions): Promise<ImportPreview> => {
   logger.debug('Parsing JSON file', { filePath: options.filePath })
 
-  const content = await readFile(options.filePath, options.encoding || 'utf-8')
-  const parsed = JSON.parse(content)
-
-  let records: Record<string, unknown>[]
-
-  if (Array.isArray(parsed)) {
-    records = parsed
-  } else if (typeof parsed === 'object' && parsed !== null) {
-    // Try to find an array property
-    const arrayProp = Object.keys(parsed).find((key) => Array.isArray(parsed[key]))
-    if (arrayProp) {
-      records = parsed[arrayProp]
-    } else {
-      // Single object, wrap in array
-      records = [parsed]
-    }
-  } else {
-    throw new Error('JSON file must contain an array or object')
+  const { size } = await stat(options.filePath)
+  if (size > STREAMING_PREVIEW_BYTES) {
+    return previewLargeFile(options, size)
   }
 
-  // Flatten nested objects
-  records = records.map((record) => flattenObject(record))
+  const content = await readFile(options.filePath, options.encoding || 'utf-8')
+  const records = toJSONRecords(JSON.parse(content))
 
   const previewLimit = options.previewLimit || 100
   const previewRows = records.slice(0, previewLimit)
@@ -245,6 +311,438 @@ export const parseJSONFile = async (options: ImportOptions): Promise<ImportPrevi
   }
 }
 
+/**
+ * Pick the records out of a parsed JSON document: the array itself, the first array
+ * property of an object, or the object as a single record. Nested objects are flattened.
+ */
+const toJSONRecords = (parsed: unknown): Record<string, unknown>[] => {
+  let records: Record<string, unknown>[]
+
+  if (Array.isArray(parsed)) {
+    records = parsed
+  } else if (typeof parsed === 'object' && parsed !== null) {
+    const document = parsed as Record<string, unknown>
+    // Try to find an array property
+    const arrayProp = Object.keys(document).find((key) => Array.isArray(document[key]))
+    // A single object without one is wrapped in an array
+    records = arrayProp ? document[arrayProp] as Record<string, unknown>[] : [document]
+  } else {
+    throw new Error('JSON file must contain an array or object')
+  }
+
+  return records.map((record) => flattenObject(record))
+}
+
+const buildColumns = (columnNames: string[], previewRows: Record<string, unknown>[]): ImportColumn[] =>
+  columnNames.map((name) => {
+    const sampleValues = previewRows.slice(0, 10).map((row) => row[name])
+    return { name, sampleValues, detectedType: detectType(sampleValues) }
+  })
+
+const collectColumnNames = (records: Record<string, unknown>[]): string[] => {
+  const names = new Set<string>()
+  records.forEach((record) => {
+    Object.keys(record).forEach((key) => names.add(key))
+  })
+  return Array.from(names)
+}
+
+/**
+ * Read a newline-delimited JSON file one record at a time, so large files
+ * never have to fit in memory. Blank lines are skipped. `onLine` receives the
+ * byte length of each line read, including its line break.
+ */
+export async function* readNDJSONRecords(
+  filePath: string,
+  encoding: BufferEncoding = 'utf-8',
+  onLine?: (bytes: number) => void
+): AsyncGenerator<Record<string, unknown>> {
+  const lines = createInterface({ input: createReadStream(filePath, { encoding }), crlfDelay: Infinity })
+  let lineNumber = 0
+
+  for await (const line of lines) {
+    lineNumber++
+    onLine?.(Buffer.byteLength(line, encoding) + 1)
+    if (!line.trim()) continue
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(line)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      throw new Error(`Invalid JSON on line ${lineNumber}: ${message}`)
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Line ${lineNumber} is not a JSON object`)
+    }
+
+    yield flattenObject(parsed as Record<string, unknown>)
+  }
+}
+
+/**
+ * Parse NDJSON file and return preview data
+ */
+export const parseNDJSONFile = async (options: ImportOptions): Promise<ImportPreview> => {
+  logger.debug('Parsing NDJSON file', { filePath: options.filePath })
+
+  const previewLimit = options.previewLimit || 100
+  const previewRows: Record<string, unknown>[] = []
+  let totalRows = 0
+
+  // Only the preview rows are kept; the rest of the file is just counted
+  for await (const record of readNDJSONRecords(options.filePath, options.encoding)) {
+    if (previewRows.length < previewLimit) {
+      previewRows.push(record)
+    }
+    totalRows++
+  }
+
+  return {
+    columns: buildColumns(collectColumnNames(previewRows), previewRows),
+    rows: previewRows,
+    totalRows,
+    hasHeaders: true
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0')
+
+// Excel stores dates as serial numbers; SheetJS turns them into local-time Dates
+const toCellValue = (value: unknown): unknown => {
+  if (!(value instanceof Date)) return value
+  const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`
+  if (value.getHours() === 0 && value.getMinutes() === 0 && value.getSeconds() === 0) {
+    return date
+  }
+  return `${date} ${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`
+}
+
+// Blank headers get a positional name and repeated headers a numeric suffix, so no column is lost
+const toColumnNames = (headers: unknown[], width: number): string[] => {
+  const seen = new Map<string, number>()
+  return Array.from({ length: width }, (_, i) => {
+    const header = headers[i]
+    const base = header === null || header === undefined || String(header).trim() === ''
+      ? `column_${i + 1}`
+      : String(header).trim()
+    const count = (seen.get(base) ?? 0) + 1
+    seen.set(base, count)
+    return count > 1 ? `${base}_${count}` : base
+  })
+}
+
+interface SheetData {
+  sheets: string[]
+  sheetName: string
+  records: Record<string, unknown>[]
+}
+
+const readWorkbookSheet = (options: ImportOptions): SheetData => {
+  const workbook = XLSX.readFile(options.filePath, { cellDates: true })
+  const sheets = workbook.SheetNames
+
+  if (sheets.length === 0) {
+    throw new Error('Workbook contains no sheets')
+  }
+  if (options.source && !sheets.includes(options.source)) {
+    throw new Error(`Sheet "${options.source}" not found in workbook`)
+  }
+
+  const sheetName = options.source || sheets[0]
+  const grid = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[sheetName], {
+    header: 1,
+    defval: null,
+    raw: true,
+    blankrows: false
+  })
+
+  const hasHeaders = options.hasHeaders !== false
+  const width = Math.max(0, ...grid.map((row) => row.length))
+  const columnNames = toColumnNames(hasHeaders ? grid[0] ?? [] : [], width)
+  const dataRows = hasHeaders ? grid.slice(1) : grid
+
+  const records = dataRows.map((row) => {
+    const record: Record<string, unknown> = {}
+    columnNames.forEach((name, i) => {
+      record[name] = toCellValue(row[i] ?? null)
+    })
+    return record
+  })
+
+  return { sheets, sheetName, records }
+}
+
+/**
+ * Parse XLSX workbook and return preview data for one sheet
+ */
+export const parseXLSXFile = async (options: ImportOptions): Promise<ImportPreview> => {
+  logger.debug('Parsing XLSX file', { filePath: options.filePath, sheet: options.source })
+
+  const { sheets, sheetName, records } = readWorkbookSheet(options)
+  const previewRows = records.slice(0, options.previewLimit || 100)
+
+  return {
+    columns: buildColumns(records.length > 0 ? Object.keys(records[0]) : [], previewRows),
+    rows: previewRows,
+    totalRows: records.length,
+    hasHeaders: options.hasHeaders !== false,
+    sources: sheets,
+    source: sheetName
+  }
+}
+
+const IDENTIFIER = '(?:"(?:[^"]|"")*"|`(?:[^`]|``)*`|\\[[^\\]]*\\]|[^\\s(.,;]+)'
+const INSERT_HEADER = new RegExp(
+  `^INSERT\\s+(?:IGNORE\\s+)?INTO\\s+(${IDENTIFIER}(?:\\s*\\.\\s*${IDENTIFIER})*)\\s*(?:\\(([^)]*)\\))?\\s*VALUES\\s*`,
+  'i'
+)
+
+const unquoteIdentifier = (name: string): string => {
+  const trimmed = name.trim()
+  const quote = trimmed[0]
+  if (quote === '"' || quote === '`') {
+    return trimmed.slice(1, -1).split(quote + quote).join(quote)
+  }
+  if (quote === '[') {
+    return trimmed.slice(1, -1)
+  }
+  return trimmed
+}
+
+const splitIdentifiers = (list: string, separator: string): string[] =>
+  list.match(new RegExp(IDENTIFIER, 'g'))?.filter((part) => part !== separator).map(unquoteIdentifier) ?? []
+
+const E_STRING_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' }
+// MySQL keeps the backslash of \% and \_ outside LIKE patterns
+const MYSQL_STRING_ESCAPES: Record<string, string> = {
+  0: '\0', b: '\b', n: '\n', r: '\r', t: '\t', Z: '\x1a', '%': '\\%', _: '\\_'
+}
+
+/**
+ * Parse the `(...), (...)` tuples following VALUES into rows of plain values.
+ * Literals become strings, numbers, booleans or null; any other expression
+ * (a function call, for example) is kept as its SQL text. Casts are dropped.
+ */
+export const parseValueTuples = (text: string, options: SQLScriptOptions = {}): unknown[][] => {
+  const rows: unknown[][] = []
+  let pos = 0
+
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++
+  }
+
+  const readString = (escapes: boolean): string => {
+    const sequences = options.backslashEscapes ? MYSQL_STRING_ESCAPES : escapes ? E_STRING_ESCAPES : null
+    let value = ''
+    pos++
+    while (pos < text.length) {
+      const ch = text[pos]
+      if (sequences && ch === '\\' && pos + 1 < text.length) {
+        const next = text[pos + 1]
+        value += sequences[next] ?? next
+        pos += 2
+      } else if (ch === "'") {
+        if (text[pos + 1] === "'") {
+          value += "'"
+          pos += 2
+        } else {
+          pos++
+          return value
+        }
+      } else {
+        value += ch
+        pos++
+      }
+    }
+    throw new Error('Unterminated string literal in VALUES')
+  }
+
+  // Everything up to the next top-level comma or closing parenthesis
+  const readExpression = (): string => {
+    const start = pos
+    let depth = 0
+    while (pos < text.length) {
+      const ch = text[pos]
+      if (ch === "'") {
+        readString(false)
+        continue
+      }
+      if (ch === '(') depth++
+      if (ch === ')') {
+        if (depth === 0) break
+        depth--
+      }
+      if (ch === ',' && depth === 0) break
+      pos++
+    }
+    return text.slice(start, pos).trim()
+  }
+
+  const readValue = (): unknown => {
+    skipSpace()
+    const start = pos
+    const rest = text.slice(pos)
+    const keyword = rest.match(/^(NULL|TRUE|FALSE)\b/i)?.[1]?.toUpperCase()
+    const number = rest.match(/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/)?.[0]
+    let value: unknown
+    let literal = true
+
+    if (text[pos] === "'") {
+      value = readString(false)
+    } else if (/^[eE]'/.test(rest)) {
+      pos++
+      value = readString(true)
+    } else if (keyword) {
+      value = keyword === 'NULL' ? null : keyword === 'TRUE'
+      pos += keyword.length
+    } else if (number) {
+      const parsed = Number(number)
+      // Integers beyond double precision stay as text so no digits are lost
+      value = Number.isInteger(parsed) && !Number.isSafeInteger(parsed) ? number.replace(/^\+/, '') : parsed
+      pos += number.length
+    } else {
+      literal = false
+    }
+
+    // Anything but a cast after the literal makes it an expression, e.g. `1 + 2`
+    const remainder = readExpression()
+    if (literal && (remainder === '' || remainder.startsWith('::'))) {
+      return value
+    }
+    return text.slice(start, pos).trim()
+  }
+
+  skipSpace()
+  while (text[pos] === '(') {
+    pos++
+    const row: unknown[] = []
+    for (;;) {
+      row.push(readValue())
+      skipSpace()
+      if (text[pos] === ',') {
+        pos++
+        continue
+      }
+      if (text[pos] === ')') {
+        pos++
+        break
+      }
+      throw new Error('Malformed VALUES list')
+    }
+    rows.push(row)
+    skipSpace()
+    if (text[pos] !== ',') break
+    pos++
+    skipSpace()
+  }
+
+  return rows
+}
+
+const MYSQL_DUMP_HEADER = /^-- (?:MySQL|MariaDB) dump\b/
+const MYSQL_INSERT = /^\s*INSERT\s+(?:IGNORE\s+)?INTO\s+`/i
+const SNIFF_BYTES = 64 * 1024
+
+/**
+ * Tells whether a SQL file is MySQL-flavoured, so its strings use backslash escapes:
+ * it starts with a mysqldump header, or its first INSERT quotes the table with backticks.
+ */
+const detectSQLScriptOptions = async (filePath: string, encoding: BufferEncoding = 'utf-8'): Promise<SQLScriptOptions> => {
+  let head = ''
+  for await (const chunk of createReadStream(filePath, { encoding, start: 0, end: SNIFF_BYTES - 1 })) {
+    head += chunk
+  }
+  for (const line of head.split('\n')) {
+    if (MYSQL_DUMP_HEADER.test(line) || MYSQL_INSERT.test(line)) return { backslashEscapes: true }
+    if (/^\s*INSERT\b/i.test(line)) break
+  }
+  return {}
+}
+
+interface SQLInsertData {
+  tables: string[]
+  table: string
+  columns: string[]
+  rowCount: number
+}
+
+/**
+ * Walk the INSERT statements of a SQL file, calling `onRow` for each row that
+ * targets the selected table. Other statements (DDL, SET, ...) are ignored.
+ */
+const scanSQLInserts = async (
+  options: ImportOptions,
+  onRow: (record: Record<string, unknown>) => void
+): Promise<SQLInsertData> => {
+  const scriptOptions = await detectSQLScriptOptions(options.filePath, options.encoding)
+  const lines = createInterface({
+    input: createReadStream(options.filePath, { encoding: options.encoding || 'utf-8' }),
+    crlfDelay: Infinity
+  })
+  const tables: string[] = []
+  let columns: string[] = []
+  let rowCount = 0
+
+  for await (const item of readSQLScript(lines, scriptOptions)) {
+    if (item.kind !== ScriptItemKind.Statement) continue
+
+    const header = item.sql.match(INSERT_HEADER)
+    if (!header) continue
+
+    const table = splitIdentifiers(header[1], '.').join('.')
+    if (!tables.includes(table)) tables.push(table)
+    if (table !== (options.source || tables[0])) continue
+
+    const statementColumns = header[2] ? splitIdentifiers(header[2], ',') : []
+    for (const values of parseValueTuples(item.sql.slice(header[0].length), scriptOptions)) {
+      const names = statementColumns.length > 0
+        ? statementColumns
+        : values.map((_, i) => `column_${i + 1}`)
+      const record: Record<string, unknown> = {}
+      names.forEach((name, i) => {
+        record[name] = values[i] ?? null
+      })
+      for (const name of names) {
+        if (!columns.includes(name)) columns = [...columns, name]
+      }
+      onRow(record)
+      rowCount++
+    }
+  }
+
+  if (tables.length === 0) {
+    throw new Error('No INSERT statements found in file')
+  }
+  if (options.source && !tables.includes(options.source)) {
+    throw new Error(`No INSERT statements for table "${options.source}" found in file`)
+  }
+
+  return { tables, table: options.source || tables[0], columns, rowCount }
+}
+
+/**
+ * Parse SQL file of INSERT statements and return preview data for one table
+ */
+export const parseSQLFile = async (options: ImportOptions): Promise<ImportPreview> => {
+  logger.debug('Parsing SQL file', { filePath: options.filePath, table: options.source })
+
+  const previewLimit = options.previewLimit || 100
+  const previewRows: Record<string, unknown>[] = []
+  const { tables, table, columns, rowCount } = await scanSQLInserts(options, (record) => {
+    if (previewRows.length < previewLimit) previewRows.push(record)
+  })
+
+  return {
+    columns: buildColumns(columns, previewRows),
+    rows: previewRows,
+    totalRows: rowCount,
+    hasHeaders: true,
+    sources: tables,
+    source: table
+  }
+}
+
 /**
  * Flatten nested object into single level with dot notation keys
  */
@@ -275,36 +773,530 @@ export const readImportData = async (
 ): Promise<Record<string, unknown>[]> => {
   if (options.format === 'csv') {
     const content = await readFile(options.filePath, options.encoding || 'utf-8')
-    const delimiter = options.delimiter || ','
-
-    return parseCSV(content, {
-      delimiter,
-      columns: options.hasHeaders !== false,
-      skip_empty_lines: true,
-      trim: true,
-      relax_quotes: true,
-      relax_column_count: true
-    }) as unknown as Record<string, unknown>[]
+    return parseCSV(content, csvParseOptions(options)) as unknown as Record<string, unknown>[]
   } else if (options.format === 'json') {
     const content = await readFile(options.filePath, options.encoding || 'utf-8')
-    const parsed = JSON.parse(content)
-
-    let records: Record<string, unknown>[]
-    if (Array.isArray(parsed)) {
-      records = parsed
-    } else if (typeof parsed === 'object' && parsed !== null) {
-      const arrayProp = Object.keys(parsed).find((key) => Array.isArray(parsed[key]))
-      if (arrayProp) {
-        records = parsed[arrayProp]
-      } else {
-        records = [parsed]
+    return toJSONRecords(JSON.parse(content))
+  } else if (options.format === 'ndjson') {
+    const records: Record<string, unknown>[] = []
+    for await (const record of readNDJSONRecords(options.filePath, options.encoding)) {
+      records.push(record)
+    }
+    return records
+  } else if (options.format === 'xlsx') {
+    return readWorkbookSheet(options).records
+  } else if (options.format === 'sql') {
+    const records: Record<string, unknown>[] = []
+    await scanSQLInserts(options, (record) => records.push(record))
+    return records
+  }
+
+  throw new Error(`Unsupported import format: ${options.format}`)
+}
+
+/**
+ * Convert a raw file value to the type chosen for its column mapping. Empty values
+ * become null, as do numbers that do not parse.
+ */
+export const convertImportValue = (value: unknown, targetType: string): unknown => {
+  if (value === null || value === undefined || value === '') {
+    return null
+  }
+
+  switch (targetType.toUpperCase()) {
+    case 'INTEGER':
+    case 'INT':
+    case 'BIGINT':
+    case 'SMALLINT': {
+      const parsed = parseInt(String(value), 10)
+      return isNaN(parsed) ? null : parsed
+    }
+    case 'DECIMAL':
+    case 'FLOAT':
+    case 'DOUBLE':
+    case 'REAL':
+    case 'NUMERIC': {
+      const parsed = parseFloat(String(value))
+      return isNaN(parsed) ? null : parsed
+    }
+    case 'BOOLEAN':
+    case 'BOOL': {
+      const strVal = String(value).toLowerCase()
+      return strVal === 'true' || strVal === '1' || strVal === 'yes'
+    }
+    case 'JSON':
+    case 'JSONB':
+      if (typeof value === 'string') {
+        try {
+          return JSON.parse(value)
+        } catch {
+          // Keep as string if not valid JSON
+        }
       }
-    } else {
+      return value
+    default:
+      // Keep as string for TEXT, VARCHAR, etc.
+      return String(value)
+  }
+}
+
+export const emitImportProgress = (event: ImportProgressEvent) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('import:progress', event)
+  }
+}
+
+interface RecordStream {
+  records: AsyncIterable<Record<string, unknown>>
+  // Bytes of the file behind the records yielded so far
+  bytesRead: () => number
+}
+
+const streamCSVRecords = (options: ImportOptions): RecordStream => {
+  let bytes = 0
+  // `info` attaches the parser position to each record, so bytes match what has been yielded
+  const parser = parseCSVStream({ ...csvParseOptions(options), encoding: options.encoding || 'utf-8', info: true })
+  pipeline(createReadStream(options.filePath), parser, () => undefined)
+
+  async function* records(): AsyncGenerator<Record<string, unknown>> {
+    for await (const { record, info } of parser as AsyncIterable<{ record: Record<string, unknown>; info: { bytes: number } }>) {
+      bytes = info.bytes
+      yield record
+    }
+  }
+
+  return { records: records(), bytesRead: () => bytes }
+}
+
+const JSON_BYTES = {
+  quote: 0x22,
+  backslash: 0x5c,
+  comma: 0x2c,
+  openBrace: 0x7b,
+  closeBrace: 0x7d,
+  openBracket: 0x5b,
+  closeBracket: 0x5d
+}
+
+// Whitespace, plus the bytes of a UTF-8 byte order mark
+const isJSONPadding = (byte: number): boolean =>
+  byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d || byte === 0xef || byte === 0xbb || byte === 0xbf
+
+/**
+ * Yield the elements of a top-level JSON array one at a time. Structural characters
+ * are ASCII, so the file is scanned as raw bytes and only each element is decoded.
+ * A document whose top level is an object cannot be split this way and is read whole.
+ */
+const streamJSONRecords = (options: ImportOptions): RecordStream => {
+  const encoding = options.encoding || 'utf-8'
+  let bytes = 0
+
+  async function* records(): AsyncGenerator<Record<string, unknown>> {
+    let started = false
+    let finished = false
+    let inElement = false
+    let inString = false
+    let escaped = false
+    let depth = 0
+    let parts: Buffer[] = []
+    let elementNumber = 0
+    // File offset of the current chunk
+    let offset = 0
+
+    const toRecord = (text: Buffer): Record<string, unknown> => {
+      elementNumber++
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(text.toString(encoding))
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(`Invalid JSON in array element ${elementNumber}: ${message}`)
+      }
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error(`Array element ${elementNumber} is not a JSON object`)
+      }
+      return flattenObject(parsed as Record<string, unknown>)
+    }
+
+    for await (const chunk of createReadStream(options.filePath) as AsyncIterable<Buffer>) {
+      let start = 0
+
+      for (let i = 0; i < chunk.length && !finished; i++) {
+        const byte = chunk[i]
+
+        if (!started) {
+          if (isJSONPadding(byte)) continue
+          if (byte === JSON_BYTES.openBracket) {
+            started = true
+            continue
+          }
+          if (byte === JSON_BYTES.openBrace) {
+            const content = await readFile(options.filePath, encoding)
+            bytes = Buffer.byteLength(content, encoding)
+            yield* toJSONRecords(JSON.parse(content))
+            return
+          }
+          throw new Error('JSON file must contain an array or object')
+        }
+
+        if (!inElement) {
+          if (isJSONPadding(byte) || byte === JSON_BYTES.comma) continue
+          if (byte === JSON_BYTES.closeBracket) {
+            finished = true
+            continue
+          }
+          inElement = true
+          start = i
+          parts = []
+        }
+
+        if (inString) {
+          if (escaped) escaped = false
+          else if (byte === JSON_BYTES.backslash) escaped = true
+          else if (byte === JSON_BYTES.quote) inString = false
+          continue
+        }
+
+        if (byte === JSON_BYTES.quote) {
+          inString = true
+        } else if (byte === JSON_BYTES.openBrace || byte === JSON_BYTES.openBracket) {
+          depth++
+        } else if ((byte === JSON_BYTES.closeBrace || byte === JSON_BYTES.closeBracket) && depth > 0) {
+          depth--
+          if (depth === 0) {
+            inElement = false
+            const record = toRecord(Buffer.concat([...parts, chunk.subarray(start, i + 1)]))
+            bytes = offset + i + 1
+            yield record
+          }
+        } else if ((byte === JSON_BYTES.comma || byte === JSON_BYTES.closeBracket) && depth === 0) {
+          // The end of a bare value such as a number; toRecord rejects it
+          toRecord(Buffer.concat([...parts, chunk.subarray(start, i)]))
+        }
+      }
+
+      if (inElement) {
+        parts.push(chunk.subarray(start))
+      }
+      offset += chunk.length
+    }
+
+    if (!started) {
       throw new Error('JSON file must contain an array or object')
     }
+    if (inElement || !finished) {
+      throw new Error('Unexpected end of JSON array')
+    }
+  }
+
+  return { records: records(), bytesRead: () => bytes }
+}
+
+const openRecordStream = (options: ImportOptions): RecordStream => {
+  switch (options.format) {
+    case 'csv':
+      return streamCSVRecords(options)
+    case 'json':
+      return streamJSONRecords(options)
+    case 'ndjson': {
+      let bytes = 0
+      const records = readNDJSONRecords(options.filePath, options.encoding, (lineBytes) => {
+        bytes += lineBytes
+      })
+      return { records, bytesRead: () => bytes }
+    }
+    default: {
+      // Workbooks and INSERT scripts are parsed whole
+      let bytes = 0
+      async function* records(): AsyncGenerator<Record<string, unknown>> {
+        const data = await readImportData(options)
+        bytes = (await stat(options.filePath)).size
+        yield* data
+      }
+      return { records: records(), bytesRead: () => bytes }
+    }
+  }
+}
 
-    return records.map((record) => flattenObject(record))
+/**
+ * Preview a file too large to read whole: take the first rows and extrapolate the
+ * row count from the bytes they used.
+ */
+const previewLargeFile = async (options: ImportOptions, fileSize: number): Promise<ImportPreview> => {
+  const previewLimit = options.previewLimit || 100
+  const stream = openRecordStream(options)
+  const previewRows: Record<string, unknown>[] = []
+  let complete = true
+
+  for await (const record of stream.records) {
+    if (previewRows.length === previewLimit) {
+      complete = false
+      break
+    }
+    previewRows.push(record)
   }
 
-  throw new Error(`Unsupported import format: ${options.format}`)
+  const bytesRead = stream.bytesRead()
+  const totalRows = complete || bytesRead === 0
+    ? previewRows.length
+    : Math.round(((previewRows.length + 1) * fileSize) / bytesRead)
+
+  return {
+    columns: buildColumns(collectColumnNames(previewRows), previewRows),
+    rows: previewRows,
+    totalRows,
+    totalRowsEstimated: !complete,
+    hasHeaders: options.format === 'csv' ? options.hasHeaders !== false : true
+  }
+}
+
+// Bind parameters allowed in one statement; ClickHouse and MongoDB take no parameters
+export const MAX_BIND_PARAMETERS: Partial<Record<DatabaseType, number>> = {
+  [DatabaseType.PostgreSQL]: 65535,
+  [DatabaseType.MySQL]: 65535,
+  [DatabaseType.MariaDB]: 65535,
+  [DatabaseType.SQLite]: 32766
+}
+
+const DEFAULT_IMPORT_BATCH_SIZE = 1000
+const MAX_REPORTED_ERRORS = 100
+const PROGRESS_INTERVAL_MS = 100
+
+export interface BatchWriter {
+  // Rows per INSERT statement
+  batchSize: number
+  clearTable: () => Promise<string | null>
+  // Inserts the rows in one statement and resolves to the error message, if any
+  insert: (rows: unknown[][]) => Promise<string | null>
+}
+
+const clickHouseLiteral = (value: unknown): string => {
+  if (value === null || value === undefined) return 'NULL'
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+const toBindValue = (value: unknown, type: DatabaseType): unknown => {
+  if (value !== null && typeof value === 'object') return JSON.stringify(value)
+  // better-sqlite3 cannot bind booleans
+  if (typeof value === 'boolean' && type === DatabaseType.SQLite) return value ? 1 : 0
+  return value
+}
+
+const resultError = async (pending: Promise<{ error?: string }>): Promise<string | null> => {
+  try {
+    return (await pending).error ?? null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Build the multi-row INSERT for the target driver. Batches are sized so a full batch
+ * stays under the driver's bind parameter limit; MongoDB documents go in one at a time.
+ */
+export const createBatchWriter = (
+  driver: DatabaseDriver,
+  tableName: string,
+  columns: string[],
+  requestedBatchSize?: number
+): BatchWriter => {
+  const requested = requestedBatchSize && requestedBatchSize > 0 ? requestedBatchSize : DEFAULT_IMPORT_BATCH_SIZE
+
+  if (driver.type === DatabaseType.Redis) {
+    throw new Error('Importing files into Redis is not supported')
+  }
+
+  if (driver.type === DatabaseType.MongoDB) {
+    return {
+      batchSize: 1,
+      clearTable: () => resultError(driver.execute(`db.${tableName}.deleteMany({})`)),
+      insert: async ([row]) => {
+        const values = Object.fromEntries(columns.map((col, i) => [col, row[i]]))
+        return resultError(driver.insertRow({ table: tableName, values }))
+      }
+    }
+  }
+
+  if (driver.type === DatabaseType.ClickHouse) {
+    const columnList = columns.map((col) => `\`${col}\``).join(', ')
+    return {
+      batchSize: requested,
+      clearTable: () => resultError(driver.execute(`TRUNCATE TABLE \`${tableName}\``)),
+      insert: (rows) => {
+        const tuples = rows.map((row) => `(${row.map(clickHouseLiteral).join(', ')})`).join(', ')
+        return resultError(driver.execute(`INSERT INTO \`${tableName}\` (${columnList}) VALUES ${tuples}`))
+      }
+    }
+  }
+
+  const isMySQL = driver.type === DatabaseType.MySQL || driver.type === DatabaseType.MariaDB
+  const quote = isMySQL ? (name: string) => `\`${name}\`` : (name: string) => `"${name}"`
+  const table = driver.type === DatabaseType.PostgreSQL
+    ? `${quote((driver as unknown as PostgreSQLDriver).getCurrentSchema())}.${quote(tableName)}`
+    : quote(tableName)
+  const columnList = columns.map(quote).join(', ')
+  const placeholders = `(${columns.map(() => '?').join(', ')})`
+  const maxRows = Math.floor((MAX_BIND_PARAMETERS[driver.type] ?? 65535) / columns.length)
+
+  return {
+    batchSize: Math.max(1, Math.min(requested, maxRows)),
+    clearTable: () => resultError(driver.execute(`DELETE FROM ${table}`)),
+    insert: (rows) => resultError(driver.execute(
+      `INSERT INTO ${table} (${columnList}) VALUES ${rows.map(() => placeholders).join(', ')}`,
+      rows.flat().map((value) => toBindValue(value, driver.type))
+    ))
+  }
+}
+
+interface PendingRow {
+  // 1-based position of the record in the file
+  rowNumber: number
+  record: Record<string, unknown>
+  values: unknown[]
+}
+
+/**
+ * Import a file into a table without holding it in memory: records are streamed from
+ * disk and inserted in batches, each one a single statement. After every committed
+ * batch `onCommit` receives the running counts, so an interrupted import can resume
+ * from `resumeFrom` by skipping the records already processed. Aborting `signal`
+ * stops before the next batch.
+ *
+ * When a batch fails, the Abort policy stops the import; Skip and RejectFile retry the
+ * batch row by row, and RejectFile also appends each failed row to an NDJSON file
+ * next to the source.
+ */
+export const streamImport = async (
+  driver: DatabaseDriver,
+  options: StreamImportOptions,
+  signal: AbortSignal,
+  onProgress: (event: ImportProgressEvent) => void,
+  onCommit: (counts: ImportCounts) => void,
+  resumeFrom?: ImportCounts
+): Promise<StreamImportSummary> => {
+  const counts: ImportCounts = {
+    rowsProcessed: resumeFrom?.rowsProcessed ?? 0,
+    rowsInserted: resumeFrom?.rowsInserted ?? 0,
+    rowsRejected: resumeFrom?.rowsRejected ?? 0
+  }
+  const errors: string[] = []
+  const rejectFilePath = options.errorPolicy === ImportErrorPolicy.RejectFile
+    ? `${options.filePath}.rejected.ndjson`
+    : undefined
+  // Opened on the first rejected row; assigned inside `reject`, so not narrowed here
+  let rejectStream = null as WriteStream | null
+
+  const reportError = (message: string) => {
+    if (errors.length < MAX_REPORTED_ERRORS) errors.push(message)
+  }
+
+  const { size: totalBytes } = await stat(options.filePath)
+  const stream = openRecordStream(options)
+  let lastProgress = 0
+
+  const emitProgress = (force: boolean) => {
+    const now = Date.now()
+    if (!force && now - lastProgress < PROGRESS_INTERVAL_MS) return
+    lastProgress = now
+    onProgress({ importId: options.importId, ...counts, bytesRead: stream.bytesRead(), totalBytes })
+  }
+
+  const reject = async (row: PendingRow, message: string) => {
+    counts.rowsRejected++
+    reportError(`Row ${row.rowNumber}: ${message}`)
+    if (!rejectFilePath) return
+    if (!rejectStream) {
+      // A resumed import keeps the rows rejected before the interruption
+      rejectStream = createWriteStream(rejectFilePath, { encoding: 'utf-8', flags: resumeFrom ? 'a' : 'w' })
+    }
+    await writeChunk(rejectStream, JSON.stringify({ row: row.rowNumber, error: message, record: row.record }) + '\n')
+  }
+
+  try {
+    const mappings = options.columnMappings.filter((mapping) => mapping.sourceColumn && mapping.targetColumn)
+    if (mappings.length === 0) {
+      throw new Error('No columns are mapped')
+    }
+    const writer = createBatchWriter(
+      driver,
+      options.tableName,
+      mappings.map((mapping) => mapping.targetColumn),
+      options.batchSize
+    )
+
+    if (options.truncateTable && !resumeFrom) {
+      const error = await writer.clearTable()
+      if (error) {
+        throw new Error(`Failed to truncate table: ${error}`)
+      }
+      logger.debug('Table truncated', { tableName: options.tableName })
+    }
+
+    const flush = async (batch: PendingRow[]) => {
+      if (batch.length === 0) return
+      if (signal.aborted) {
+        throw new ImportCanceledError()
+      }
+
+      const error = await writer.insert(batch.map((row) => row.values))
+      if (!error) {
+        counts.rowsInserted += batch.length
+      } else if (options.errorPolicy === ImportErrorPolicy.Abort) {
+        const first = batch[0].rowNumber
+        const last = batch[batch.length - 1].rowNumber
+        throw new Error(first === last ? `Row ${first}: ${error}` : `Rows ${first}-${last}: ${error}`)
+      } else if (batch.length === 1) {
+        await reject(batch[0], error)
+      } else {
+        for (const row of batch) {
+          const rowError = await writer.insert([row.values])
+          if (rowError) {
+            await reject(row, rowError)
+          } else {
+            counts.rowsInserted++
+          }
+        }
+      }
+
+      counts.rowsProcessed += batch.length
+      onCommit({ ...counts })
+      emitProgress(false)
+    }
+
+    let rowNumber = 0
+    let batch: PendingRow[] = []
+    for await (const record of stream.records) {
+      rowNumber++
+      if (rowNumber <= counts.rowsProcessed) continue
+
+      const values = mappings.map((mapping) => convertImportValue(record[mapping.sourceColumn], mapping.targetType))
+      batch.push({ rowNumber, record, values })
+      if (batch.length >= writer.batchSize) {
+        await flush(batch)
+        batch = []
+      }
+    }
+    await flush(batch)
+
+    emitProgress(true)
+    return { success: true, ...counts, errors, rejectFilePath: counts.rowsRejected > 0 ? rejectFilePath : undefined }
+  } catch (error) {
+    emitProgress(true)
+    return {
+      success: false,
+      canceled: error instanceof ImportCanceledError,
+      error: error instanceof Error ? error.message : String(error),
+      ...counts,
+      errors,
+      rejectFilePath: rejectStream ? rejectFilePath : undefined
+    }
+  } finally {
+    if (rejectStream) {
+      rejectStream.end()
+      await once(rejectStream, 'close').catch(() => undefined)
+    }
+  }
 }
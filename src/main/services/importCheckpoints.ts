@@ -0,0 +1,98 @@
+import { appDatabase } from './database'
+import { logger } from '../utils/logger'
+
+export interface ImportCheckpoint {
+  connectionId: string
+  tableName: string
+  filePath: string
+  // Size and mtime of the file when the import started; a changed file cannot be resumed
+  fileSize: number
+  fileModified: number
+  rowsProcessed: number
+  rowsInserted: number
+  rowsRejected: number
+  updatedAt: string
+}
+
+interface ImportCheckpointRow {
+  connection_id: string
+  table_name: string
+  file_path: string
+  file_size: number
+  file_modified: number
+  rows_processed: number
+  rows_inserted: number
+  rows_rejected: number
+  updated_at: string
+}
+
+export class ImportCheckpointsService {
+  private get db() {
+    return appDatabase.getDatabase()
+  }
+
+  getCheckpoint(connectionId: string, tableName: string, filePath: string): ImportCheckpoint | null {
+    const row = this.db.prepare(`
+      SELECT connection_id, table_name, file_path, file_size, file_modified,
+             rows_processed, rows_inserted, rows_rejected, updated_at
+      FROM import_checkpoints
+      WHERE connection_id = ? AND table_name = ? AND file_path = ?
+    `).get(connectionId, tableName, filePath) as ImportCheckpointRow | undefined
+
+    return row ? this.mapRow(row) : null
+  }
+
+  saveCheckpoint(checkpoint: Omit<ImportCheckpoint, 'updatedAt'>): void {
+    this.db.prepare(`
+      INSERT INTO import_checkpoints (
+        connection_id, table_name, file_path, file_size, file_modified,
+        rows_processed, rows_inserted, rows_rejected, updated_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT (connection_id, table_name, file_path) DO UPDATE SET
+        file_size = excluded.file_size,
+        file_modified = excluded.file_modified,
+        rows_processed = excluded.rows_processed,
+        rows_inserted = excluded.rows_inserted,
+        rows_rejected = excluded.rows_rejected,
+        updated_at = excluded.updated_at
+    `).run(
+      checkpoint.connectionId,
+      checkpoint.tableName,
+      checkpoint.filePath,
+      checkpoint.fileSize,
+      checkpoint.fileModified,
+      checkpoint.rowsProcessed,
+      checkpoint.rowsInserted,
+      checkpoint.rowsRejected
+    )
+  }
+
+  clearCheckpoint(connectionId: string, tableName: string, filePath: string): boolean {
+    const result = this.db.prepare(`
+      DELETE FROM import_checkpoints
+      WHERE connection_id = ? AND table_name = ? AND file_path = ?
+    `).run(connectionId, tableName, filePath)
+
+    if (result.changes > 0) {
+      logger.debug('Import checkpoint cleared', { connectionId, tableName, filePath })
+    }
+    return result.changes > 0
+  }
+
+  private mapRow(row: ImportCheckpointRow): ImportCheckpoint {
+    return {
+      connectionId: row.connection_id,
+      tableName: row.table_name,
+      filePath: row.file_path,
+      fileSize: row.file_size,
+      fileModified: row.file_modified,
+      rowsProcessed: row.rows_processed,
+      rowsInserted: row.rows_inserted,
+      rowsRejected: row.rows_rejected,
+      updatedAt: row.updated_at
+    }
+  }
+}
+
+export const importCheckpointsService = new ImportCheckpointsService()
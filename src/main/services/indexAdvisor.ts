@@ -0,0 +1,222 @@
+import type { DatabaseDriver, SchemaScriptBuilder } from '../db/base'
+import { TableObjectType, type Index } from '../types'
+import type { CreateIndexRequest, DropIndexRequest, ForeignKeyDefinition } from '../types/schema-operations'
+import { groupForeignKeys } from './schemaCompare'
+
+export enum IndexFindingKind {
+  Duplicate = 'duplicate',
+  Redundant = 'redundant',
+  Unused = 'unused',
+  UnindexedForeignKey = 'unindexed-foreign-key'
+}
+
+export enum IndexFixAction {
+  Create = 'create',
+  Drop = 'drop'
+}
+
+// The request is applied as-is through schema:createIndex or schema:dropIndex
+export type IndexFix =
+  | { action: IndexFixAction.Create; request: CreateIndexRequest }
+  | { action: IndexFixAction.Drop; request: DropIndexRequest }
+
+export interface IndexFinding {
+  kind: IndexFindingKind
+  table: string
+  // The index the fix drops; null for a missing index
+  index: string | null
+  columns: string[]
+  reason: string
+  fix: IndexFix
+  sql: string
+}
+
+export interface IndexReport {
+  tableCount: number
+  findings: IndexFinding[]
+  // When the server started counting index scans, if known
+  usageSince: string | null
+  // Why unused indexes were not checked, when they were not
+  usageUnavailable: string | null
+}
+
+export interface TableIndexes {
+  name: string
+  indexes: Index[]
+  foreignKeys: ForeignKeyDefinition[]
+}
+
+export interface UnusedIndex {
+  table: string
+  index: string
+}
+
+export interface IndexAnalysisOptions {
+  // Indexes with no recorded scans; null when the server does not track usage
+  unused: UnusedIndex[] | null
+  // Partial and expression indexes, keyed by indexKey; their columns alone do not describe them
+  opaque?: Set<string>
+  // PostgreSQL schema the suggested indexes are created in
+  schema?: string
+}
+
+const MAX_INDEX_NAME_LENGTH = 63
+
+export const indexKey = (table: string, index: string): string => `${table}.${index}`
+
+/** Reads the indexes and foreign keys of every table, one table at a time to stay on a single session */
+export const loadTableIndexes = async (driver: DatabaseDriver, database: string, schema?: string): Promise<TableIndexes[]> => {
+  const objects = await driver.getTables(database, schema)
+  const tables: TableIndexes[] = []
+
+  for (const object of objects) {
+    if (object.type === TableObjectType.View) continue
+    tables.push({
+      name: object.name,
+      indexes: await driver.getIndexes(object.name),
+      foreignKeys: groupForeignKeys(await driver.getForeignKeys(object.name))
+    })
+  }
+
+  return tables
+}
+
+const indexType = (index: Index): string => (index.type ?? 'btree').toLowerCase()
+
+// Only B-tree indexes can answer a lookup on their leading columns
+const isBTree = (index: Index): boolean => indexType(index) === 'btree'
+
+// Primary and unique indexes enforce a constraint, so they are never suggested for removal
+const isDroppable = (index: Index): boolean => !index.primary && !index.unique
+
+const sameColumns = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((column, i) => column === b[i])
+
+const isStrictPrefix = (prefix: string[], columns: string[]): boolean =>
+  prefix.length < columns.length && prefix.every((column, i) => column === columns[i])
+
+// The key's columns may appear in any order, as long as they lead the index
+const supportsForeignKey = (index: Index, foreignKey: ForeignKeyDefinition): boolean => {
+  if (!isBTree(index) || index.columns.length < foreignKey.columns.length) return false
+  const leading = new Set(index.columns.slice(0, foreignKey.columns.length))
+  return foreignKey.columns.every((column) => leading.has(column))
+}
+
+const suggestIndexName = (table: string, columns: string[], taken: Set<string>): string => {
+  const base = `idx_${table}_${columns.join('_')}`.slice(0, MAX_INDEX_NAME_LENGTH)
+  let name = base
+  let i = 1
+  while (taken.has(name)) {
+    const suffix = `_${i++}`
+    name = `${base.slice(0, MAX_INDEX_NAME_LENGTH - suffix.length)}${suffix}`
+  }
+  return name
+}
+
+const dropFinding = (
+  sql: SchemaScriptBuilder,
+  kind: IndexFindingKind,
+  table: string,
+  index: Index,
+  reason: string
+): IndexFinding => {
+  const request: DropIndexRequest = { table, indexName: index.name }
+  return {
+    kind,
+    table,
+    index: index.name,
+    columns: index.columns,
+    reason,
+    fix: { action: IndexFixAction.Drop, request },
+    sql: sql.buildDropIndexSQL(request)
+  }
+}
+
+/**
+ * Finds indexes that can go and foreign keys that need one. An index is a duplicate when
+ * another index of the same type has the same columns, and redundant when its columns lead
+ * a longer B-tree index. Of two plain duplicates, the one whose name sorts last is dropped.
+ */
+export const analyzeIndexes = (
+  tables: TableIndexes[],
+  sql: SchemaScriptBuilder,
+  options: IndexAnalysisOptions
+): IndexFinding[] => {
+  const findings: IndexFinding[] = []
+  const unused = new Set((options.unused ?? []).map((u) => indexKey(u.table, u.index)))
+
+  for (const table of tables) {
+    // Expression columns come back empty, so such indexes are left out like partial ones
+    const comparable = table.indexes.filter((index) =>
+      index.columns.length > 0 &&
+      index.columns.every(Boolean) &&
+      !options.opaque?.has(indexKey(table.name, index.name))
+    )
+    const dropped = new Set<string>()
+
+    for (const index of comparable) {
+      if (!isDroppable(index)) continue
+
+      for (const other of comparable) {
+        if (other === index || dropped.has(other.name)) continue
+
+        if (indexType(other) === indexType(index) && sameColumns(index.columns, other.columns)) {
+          if (isDroppable(other) && other.name > index.name) continue
+          findings.push(dropFinding(sql, IndexFindingKind.Duplicate, table.name, index,
+            `Indexes the same columns as ${other.name}`))
+          dropped.add(index.name)
+          break
+        }
+
+        if (isBTree(index) && isBTree(other) && isStrictPrefix(index.columns, other.columns)) {
+          findings.push(dropFinding(sql, IndexFindingKind.Redundant, table.name, index,
+            `Its columns lead ${other.name} (${other.columns.join(', ')}), which answers the same lookups`))
+          dropped.add(index.name)
+          break
+        }
+      }
+    }
+
+    const remaining = (exclude?: Index) =>
+      comparable.filter((index) => index !== exclude && !dropped.has(index.name))
+
+    for (const index of table.indexes) {
+      if (!unused.has(indexKey(table.name, index.name)) || !isDroppable(index) || dropped.has(index.name)) continue
+
+      // Keep an unused index when it is the only one behind a foreign key
+      const backsForeignKey = table.foreignKeys.some((fk) =>
+        supportsForeignKey(index, fk) && !remaining(index).some((other) => supportsForeignKey(other, fk))
+      )
+      if (backsForeignKey) continue
+
+      findings.push(dropFinding(sql, IndexFindingKind.Unused, table.name, index,
+        'No query has used it since the server started counting index scans'))
+      dropped.add(index.name)
+    }
+
+    const taken = new Set(table.indexes.map((index) => index.name))
+
+    for (const foreignKey of table.foreignKeys) {
+      if (remaining().some((index) => supportsForeignKey(index, foreignKey))) continue
+
+      const name = suggestIndexName(table.name, foreignKey.columns, taken)
+      taken.add(name)
+      const request: CreateIndexRequest = {
+        table: table.name,
+        index: { name, columns: foreignKey.columns },
+        schema: options.schema
+      }
+      findings.push({
+        kind: IndexFindingKind.UnindexedForeignKey,
+        table: table.name,
+        index: null,
+        columns: foreignKey.columns,
+        reason: `Foreign key ${foreignKey.name} has no index; updates and deletes on ${foreignKey.referencedTable} scan ${table.name} to check it`,
+        fix: { action: IndexFixAction.Create, request },
+        sql: sql.buildCreateIndexSQL(request)
+      })
+    }
+  }
+
+  return findings
+}
@@ -0,0 +1,200 @@
+import { BrowserWindow, dialog } from 'electron'
+import { createHash, createHmac } from 'crypto'
+import { readFile } from 'fs/promises'
+import { homedir } from 'os'
+import { join } from 'path'
+import { appDatabase } from './database'
+import { logger } from '../utils/logger'
+
+export enum HostKeyStatus {
+  Trusted = 'trusted',
+  Unknown = 'unknown',
+  // The key differs from the one trusted in the app
+  Changed = 'changed',
+  // The key differs from the one in ~/.ssh/known_hosts
+  Mismatch = 'mismatch'
+}
+
+export interface HostKeyCheck {
+  status: HostKeyStatus
+  keyType: string
+  fingerprint: string
+}
+
+export class HostKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'HostKeyError'
+  }
+}
+
+interface KnownHostRow {
+  key_type: string
+  fingerprint: string
+}
+
+interface OpenSSHKnownHost {
+  keyType: string
+  key: string
+}
+
+const OPENSSH_KNOWN_HOSTS = join(homedir(), '.ssh', 'known_hosts')
+
+// Same format as `ssh-keygen -l`: SHA256 of the public key blob, unpadded base64
+export const fingerprintHostKey = (key: Buffer): string =>
+  `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`
+
+// The key type is the first length-prefixed string of the public key blob
+export const hostKeyType = (key: Buffer): string => {
+  if (key.length < 4) return 'unknown'
+  return key.subarray(4, 4 + key.readUInt32BE(0)).toString('ascii')
+}
+
+// OpenSSH writes hosts on a non-default port as [host]:port
+const knownHostsName = (host: string, port: number): string => (port === 22 ? host : `[${host}]:${port}`)
+
+const matchesHostField = (field: string, name: string): boolean => {
+  // Hashed entry (HashKnownHosts yes): |1|base64 salt|base64 HMAC-SHA1 of the name
+  if (field.startsWith('|1|')) {
+    const [, , salt, hash] = field.split('|')
+    return createHmac('sha1', Buffer.from(salt, 'base64')).update(name).digest('base64') === hash
+  }
+  return field.split(',').includes(name)
+}
+
+/**
+ * Reads the keys ~/.ssh/known_hosts lists for a host. Wildcard patterns and
+ * @cert-authority/@revoked lines are not supported and are skipped.
+ */
+export const readOpenSSHKnownHosts = async (host: string, port: number): Promise<OpenSSHKnownHost[]> => {
+  let content: string
+  try {
+    content = await readFile(OPENSSH_KNOWN_HOSTS, 'utf-8')
+  } catch {
+    return []
+  }
+
+  const name = knownHostsName(host, port)
+  const keys: OpenSSHKnownHost[] = []
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('@')) continue
+    const [hosts, keyType, key] = trimmed.split(/\s+/)
+    if (key && matchesHostField(hosts, name)) {
+      keys.push({ keyType, key })
+    }
+  }
+  return keys
+}
+
+export class KnownHostsService {
+  private get db() {
+    return appDatabase.getDatabase()
+  }
+
+  /**
+   * Checks a host key against the keys trusted in the app and in ~/.ssh/known_hosts.
+   * A key matching either is trusted; a key of a type either lists with a different
+   * value is a changed key. ~/.ssh/known_hosts is consulted first, so a key once accepted
+   * in the app cannot override one it contradicts.
+   */
+  async check(host: string, port: number, key: Buffer): Promise<HostKeyCheck> {
+    const keyType = hostKeyType(key)
+    const fingerprint = fingerprintHostKey(key)
+    const result = (status: HostKeyStatus): HostKeyCheck => ({ status, keyType, fingerprint })
+
+    const openSSHKeys = await readOpenSSHKnownHosts(host, port)
+    if (openSSHKeys.some((entry) => entry.key === key.toString('base64'))) {
+      return result(HostKeyStatus.Trusted)
+    }
+    if (openSSHKeys.some((entry) => entry.keyType === keyType)) {
+      return result(HostKeyStatus.Mismatch)
+    }
+
+    const row = this.db.prepare(`
+      SELECT key_type, fingerprint FROM ssh_known_hosts
+      WHERE host = ? AND port = ? AND key_type = ?
+    `).get(host, port, keyType) as KnownHostRow | undefined
+
+    if (row) {
+      return result(row.fingerprint === fingerprint ? HostKeyStatus.Trusted : HostKeyStatus.Changed)
+    }
+    return result(HostKeyStatus.Unknown)
+  }
+
+  trust(host: string, port: number, keyType: string, fingerprint: string): void {
+    this.db.prepare(`
+      INSERT INTO ssh_known_hosts (host, port, key_type, fingerprint, added_at)
+      VALUES (?, ?, ?, ?, datetime('now'))
+      ON CONFLICT (host, port, key_type) DO UPDATE SET
+        fingerprint = excluded.fingerprint,
+        added_at = excluded.added_at
+    `).run(host, port, keyType, fingerprint)
+
+    logger.info('SSH host key trusted', { host, port, keyType, fingerprint })
+  }
+}
+
+export const knownHostsService = new KnownHostsService()
+
+const askToTrust = async (title: string, message: string, detail: string, trustLabel: string): Promise<boolean> => {
+  const window = BrowserWindow.getFocusedWindow() ?? BrowserWindow.getAllWindows()[0]
+  const options: Electron.MessageBoxOptions = {
+    type: 'warning',
+    title,
+    message,
+    detail,
+    buttons: ['Cancel', trustLabel],
+    defaultId: 0,
+    cancelId: 0,
+    noLink: true
+  }
+
+  const { response } = window ? await dialog.showMessageBox(window, options) : await dialog.showMessageBox(options)
+  return response === 1
+}
+
+/**
+ * Verifies the host key an SSH server presented. Unknown hosts are trusted on first use
+ * once the user accepts the fingerprint; a key that changed since it was trusted in the
+ * app needs explicit confirmation, and one that contradicts ~/.ssh/known_hosts is refused.
+ * Throws a HostKeyError when the key is not accepted.
+ */
+export const verifyHostKey = async (host: string, port: number, key: Buffer): Promise<void> => {
+  const { status, keyType, fingerprint } = await knownHostsService.check(host, port, key)
+  const address = `${host}:${port}`
+
+  switch (status) {
+    case HostKeyStatus.Trusted:
+      return
+    case HostKeyStatus.Mismatch:
+      logger.error('SSH host key does not match known_hosts', { host, port, keyType, fingerprint })
+      throw new HostKeyError(
+        `The ${keyType} host key of ${address} does not match ~/.ssh/known_hosts (got ${fingerprint}). ` +
+        'Update known_hosts if the server key was replaced on purpose.'
+      )
+    case HostKeyStatus.Changed: {
+      logger.warn('SSH host key changed', { host, port, keyType, fingerprint })
+      const replace = await askToTrust(
+        'SSH Host Key Changed',
+        `The host key of ${address} has changed.`,
+        `Someone could be intercepting the connection, or the server key was replaced.\n\n${keyType} key fingerprint is ${fingerprint}.`,
+        'Replace Key and Connect'
+      )
+      if (!replace) throw new HostKeyError(`Host key of ${address} has changed; connection refused`)
+      break
+    }
+    case HostKeyStatus.Unknown: {
+      const trusted = await askToTrust(
+        'Unknown SSH Host',
+        `The authenticity of ${address} can't be established.`,
+        `${keyType} key fingerprint is ${fingerprint}.\n\nTrust this host and connect?`,
+        'Trust and Connect'
+      )
+      if (!trusted) throw new HostKeyError(`Host key of ${address} was not trusted`)
+      break
+    }
+  }
+
+  knownHostsService.trust(host, port, keyType, fingerprint)
+}
@@ -0,0 +1,283 @@
+import { BrowserWindow } from 'electron'
+import { logger } from '../utils/logger'
+import { escapeCSVField } from './export'
+
+export enum MetricUnit {
+  PerSecond = 'per-second',
+  Count = 'count',
+  Percent = 'percent',
+  Bytes = 'bytes',
+  Seconds = 'seconds'
+}
+
+export enum MetricKind {
+  // Reported as read, e.g. open connections
+  Gauge = 'gauge',
+  // A cumulative counter, turned into a per-second rate between two samples
+  Rate = 'rate',
+  // Two cumulative counters, turned into the percentage `part` makes up of `total` between two samples
+  Ratio = 'ratio'
+}
+
+export type MetricSource =
+  | { kind: MetricKind.Gauge; field: string }
+  | { kind: MetricKind.Rate; field: string }
+  | { kind: MetricKind.Ratio; part: string; total: string }
+
+export interface MetricDefinition {
+  key: string
+  label: string
+  // Metrics with the same chart title are drawn on one chart
+  chart: string
+  unit: MetricUnit
+}
+
+export interface MetricSpec extends MetricDefinition {
+  source: MetricSource
+}
+
+// Raw values read from the server, keyed by field
+export type MetricReadings = Record<string, number>
+
+export interface MetricSample {
+  timestamp: number
+  // null when the server did not report the metric, or no rate could be computed yet
+  values: Record<string, number | null>
+}
+
+export interface MetricsHistory {
+  connectionId: string
+  intervalMs: number
+  retentionMs: number
+  metrics: MetricDefinition[]
+  samples: MetricSample[]
+}
+
+export interface MetricSampleEvent {
+  connectionId: string
+  sample: MetricSample
+}
+
+export interface MetricReader {
+  metrics: MetricSpec[]
+  read: () => Promise<MetricReadings>
+}
+
+// Returns undefined when the connection is closed or its engine has no metrics
+export type MetricReaderResolver = (connectionId: string) => MetricReader | undefined
+
+export type MetricSampleEmitter = (event: MetricSampleEvent) => void
+
+interface TimedReadings {
+  timestamp: number
+  readings: MetricReadings
+}
+
+interface MetricsSession {
+  metrics: MetricSpec[]
+  samples: MetricSample[]
+  previous: TimedReadings | null
+  subscribers: number
+  timer: ReturnType<typeof setInterval> | null
+  sampling: boolean
+}
+
+export const METRICS_INTERVAL_MS = 5000
+export const METRICS_RETENTION_MS = 60 * 60 * 1000
+
+export const emitMetricSample = (event: MetricSampleEvent) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('metrics:sample', event)
+  }
+}
+
+const counterDelta = (field: string, previous: TimedReadings, current: TimedReadings): number | null => {
+  const before = previous.readings[field]
+  const after = current.readings[field]
+  if (before === undefined || after === undefined) return null
+  const delta = after - before
+  // A counter that went backwards was reset by a server restart
+  return delta < 0 ? null : delta
+}
+
+/**
+ * Derives the value of each metric from two consecutive readings. Rates and ratios
+ * need both; without a previous reading only gauges have a value.
+ */
+export const computeMetricValues = (
+  metrics: MetricSpec[],
+  previous: TimedReadings | null,
+  current: TimedReadings | null
+): Record<string, number | null> => {
+  const values: Record<string, number | null> = {}
+
+  for (const metric of metrics) {
+    const { source } = metric
+    values[metric.key] = null
+    if (!current) continue
+
+    if (source.kind === MetricKind.Gauge) {
+      values[metric.key] = current.readings[source.field] ?? null
+      continue
+    }
+
+    if (!previous) continue
+
+    if (source.kind === MetricKind.Rate) {
+      const delta = counterDelta(source.field, previous, current)
+      const seconds = (current.timestamp - previous.timestamp) / 1000
+      values[metric.key] = delta !== null && seconds > 0 ? delta / seconds : null
+    } else {
+      const part = counterDelta(source.part, previous, current)
+      const total = counterDelta(source.total, previous, current)
+      // No activity in the interval leaves the ratio undefined rather than 0%
+      values[metric.key] = part !== null && total ? Math.min(100, (part / total) * 100) : null
+    }
+  }
+
+  return values
+}
+
+/**
+ * Samples the metrics of each watched connection on an interval and keeps the last hour
+ * in memory. Connections are reference-counted, so several monitoring tabs share one
+ * sampler; the history outlives the last tab so reopening one shows it again, but not
+ * the connection itself.
+ */
+export class MetricsSampler {
+  private sessions = new Map<string, MetricsSession>()
+
+  constructor(
+    private resolve: MetricReaderResolver,
+    private emit: MetricSampleEmitter,
+    private intervalMs = METRICS_INTERVAL_MS,
+    private retentionMs = METRICS_RETENTION_MS
+  ) {}
+
+  start(connectionId: string): MetricsHistory {
+    const reader = this.resolve(connectionId)
+    if (!reader) {
+      throw new Error('Metrics are not available for this connection')
+    }
+
+    let session = this.sessions.get(connectionId)
+    if (!session) {
+      session = { metrics: reader.metrics, samples: [], previous: null, subscribers: 0, timer: null, sampling: false }
+      this.sessions.set(connectionId, session)
+    }
+
+    session.subscribers++
+    if (!session.timer) {
+      session.timer = setInterval(() => this.sample(connectionId), this.intervalMs)
+      this.sample(connectionId)
+    }
+
+    return this.getHistory(connectionId)
+  }
+
+  stop(connectionId: string): void {
+    const session = this.sessions.get(connectionId)
+    if (!session || session.subscribers === 0) return
+
+    session.subscribers--
+    if (session.subscribers === 0 && session.timer) {
+      clearInterval(session.timer)
+      session.timer = null
+      // A rate across the pause would smear it over the gap
+      session.previous = null
+    }
+  }
+
+  // Forgets a closed connection, whatever its subscribers, so its history and timer go with it
+  drop(connectionId: string): void {
+    const session = this.sessions.get(connectionId)
+    if (!session) return
+
+    if (session.timer) {
+      clearInterval(session.timer)
+      session.timer = null
+    }
+    this.sessions.delete(connectionId)
+  }
+
+  getHistory(connectionId: string): MetricsHistory {
+    const session = this.sessions.get(connectionId)
+    return {
+      connectionId,
+      intervalMs: this.intervalMs,
+      retentionMs: this.retentionMs,
+      metrics: (session?.metrics ?? []).map(({ key, label, chart, unit }) => ({ key, label, chart, unit })),
+      samples: session ? [...session.samples] : []
+    }
+  }
+
+  private async sample(connectionId: string): Promise<void> {
+    const session = this.sessions.get(connectionId)
+    // Skip a tick while a slow server is still answering the previous one
+    if (!session || session.sampling) return
+
+    const reader = this.resolve(connectionId)
+    if (!reader) {
+      this.drop(connectionId)
+      return
+    }
+
+    session.sampling = true
+    const timestamp = Date.now()
+    let current: TimedReadings | null = null
+    try {
+      current = { timestamp, readings: await reader.read() }
+    } catch (error) {
+      logger.warn('Failed to sample metrics', {
+        connectionId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      session.sampling = false
+    }
+
+    // Stopped while the server was answering
+    if (!session.timer) return
+
+    const sample: MetricSample = {
+      timestamp,
+      values: computeMetricValues(session.metrics, session.previous, current)
+    }
+    session.previous = current
+    session.samples.push(sample)
+
+    const cutoff = timestamp - this.retentionMs
+    const expired = session.samples.findIndex((s) => s.timestamp >= cutoff)
+    if (expired > 0) {
+      session.samples.splice(0, expired)
+    }
+
+    this.emit({ connectionId, sample })
+  }
+}
+
+const formatMetricCell = (value: number | null): string => {
+  if (value === null) return ''
+  return String(Math.round(value * 100) / 100)
+}
+
+/**
+ * Writes the samples since `since` as CSV, one row per sample and one column per
+ * metric, keyed by metric so the columns stay stable across exports.
+ */
+export const buildMetricsCsv = (history: MetricsHistory, since = 0): string => {
+  const header = ['timestamp', ...history.metrics.map((m) => m.key)]
+  const lines = [header.map((h) => escapeCSVField(h, ',')).join(',')]
+
+  for (const sample of history.samples) {
+    if (sample.timestamp < since) continue
+    const cells = [
+      new Date(sample.timestamp).toISOString(),
+      ...history.metrics.map((m) => formatMetricCell(sample.values[m.key] ?? null))
+    ]
+    lines.push(cells.join(','))
+  }
+
+  return lines.join('\n')
+}
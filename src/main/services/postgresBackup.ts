@@ -0,0 +1,784 @@
+import { createReadStream, createWriteStream } from 'fs'
+import { once } from 'events'
+import { createInterface } from 'readline'
+import type { PostgreSQLDriver } from '../db/postgres'
+import { writeChunk } from './export'
+
+export interface PostgresBackupSummary {
+  tables: number
+  rows: number
+}
+
+export interface PostgresRestoreResult {
+  successCount: number
+  errors: string[]
+}
+
+export enum ScriptItemKind {
+  Statement = 'statement',
+  CopyRow = 'copyRow',
+  CopyEnd = 'copyEnd'
+}
+
+export interface CopyTarget {
+  // Quoted as written in the COPY header, e.g. `"public"."users"`
+  table: string
+  columns: string[]
+}
+
+export type ScriptItem =
+  | { kind: ScriptItemKind.Statement; sql: string }
+  | { kind: ScriptItemKind.CopyRow; target: CopyTarget; values: (string | null)[] }
+  | { kind: ScriptItemKind.CopyEnd; target: CopyTarget }
+
+const DEFAULT_BATCH_SIZE = 5000
+const RESTORE_BATCH_SIZE = 500
+// PostgreSQL accepts at most 65535 bind parameters per statement
+const MAX_BIND_PARAMETERS = 65535
+const BACKUP_CURSOR = 'zequel_backup'
+
+export const quoteIdent = (name: string): string => `"${name.replace(/"/g, '""')}"`
+
+const qualify = (schema: string, name: string): string => `${quoteIdent(schema)}.${quoteIdent(name)}`
+
+const quoteLiteral = (value: string): string => `'${value.replace(/'/g, "''")}'`
+
+/** Escapes a value for the text format of COPY: `\N` is NULL, control characters are backslash escapes. */
+export const escapeCopyValue = (value: string | null): string => {
+  if (value === null) return '\\N'
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+}
+
+const COPY_ESCAPES: Record<string, string> = { b: '\b', f: '\f', n: '\n', r: '\r', t: '\t', v: '\v' }
+
+const unescapeCopyField = (field: string): string | null => {
+  if (field === '\\N') return null
+  return field.replace(/\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g, (_, escape: string) => {
+    if (escape[0] === 'x' && escape.length > 1) return String.fromCharCode(parseInt(escape.slice(1), 16))
+    if (/^[0-7]+$/.test(escape)) return String.fromCharCode(parseInt(escape, 8))
+    return COPY_ESCAPES[escape] ?? escape
+  })
+}
+
+/** Splits one line of COPY text-format data into column values. */
+export const parseCopyLine = (line: string): (string | null)[] => line.split('\t').map(unescapeCopyField)
+
+// ─── Backup ──────────────────────────────────────────────────────────────────
+
+interface CatalogColumn {
+  schema: string
+  table: string
+  name: string
+  type: string
+  not_null: boolean
+  default_value: string | null
+  identity: string
+  generated: string
+}
+
+interface CatalogConstraint {
+  schema: string
+  table: string
+  name: string
+  type: string
+  definition: string
+}
+
+interface CatalogDefinition {
+  schema: string
+  name: string
+  definition: string
+}
+
+interface CatalogFunction extends CatalogDefinition {
+  after_tables: boolean
+}
+
+interface CatalogDependency {
+  schema: string
+  name: string
+  ref_schema: string
+  ref_name: string
+}
+
+interface CatalogOwner {
+  schema: string
+  name: string
+  kind: string
+  owner: string
+}
+
+interface TableDefinition {
+  schema: string
+  name: string
+  columns: CatalogColumn[]
+}
+
+// Catalog queries run with `search_path = pg_catalog`, so every name outside pg_catalog
+// comes back schema-qualified, the same way pg_dump prints them.
+const USER_NAMESPACE = `n.nspname NOT IN ('pg_catalog', 'information_schema')
+      AND n.nspname NOT LIKE 'pg_toast%' AND n.nspname NOT LIKE 'pg_temp%'`
+
+const notExtensionMember = (catalog: string, oid: string) =>
+  `NOT EXISTS (SELECT 1 FROM pg_depend e WHERE e.classid = '${catalog}'::regclass AND e.objid = ${oid} AND e.deptype = 'e')`
+
+const COLUMNS_SQL = `
+  SELECT n.nspname AS schema, c.relname AS table, a.attname AS name,
+    format_type(a.atttypid, a.atttypmod) AS type, a.attnotnull AS not_null,
+    pg_get_expr(d.adbin, d.adrelid) AS default_value, a.attidentity AS identity, a.attgenerated AS generated
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+  WHERE c.relkind = 'r' AND a.attnum > 0 AND NOT a.attisdropped
+    AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_class', 'c.oid')}
+  ORDER BY n.nspname, c.relname, a.attnum`
+
+const CONSTRAINTS_SQL = `
+  SELECT n.nspname AS schema, c.relname AS table, con.conname AS name, con.contype AS type,
+    pg_get_constraintdef(con.oid) AS definition
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind = 'r' AND con.contype IN ('p', 'u', 'c', 'f', 'x') AND ${USER_NAMESPACE}
+  ORDER BY n.nspname, c.relname, con.conname`
+
+// Indexes that back a constraint are recreated by the constraint itself
+const INDEXES_SQL = `
+  SELECT n.nspname AS schema, i.relname AS name, pg_get_indexdef(i.oid) AS definition
+  FROM pg_index x
+  JOIN pg_class i ON i.oid = x.indexrelid
+  JOIN pg_class c ON c.oid = x.indrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'm') AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_class', 'c.oid')}
+    AND NOT EXISTS (SELECT 1 FROM pg_constraint con WHERE con.conindid = x.indexrelid AND con.contype IN ('p', 'u', 'x'))
+  ORDER BY n.nspname, i.relname`
+
+// Aggregates and window functions have no pg_get_functiondef output. A function needs the
+// tables first when its signature uses a table's row type (or an array of it), or when its
+// SQL-standard body (BEGIN ATOMIC) is parsed at creation and refers to relations or functions.
+const FUNCTIONS_SQL = `
+  SELECT n.nspname AS schema, p.proname AS name, pg_get_functiondef(p.oid) AS definition,
+    EXISTS (
+      SELECT 1 FROM pg_depend d
+      LEFT JOIN pg_type t ON d.refclassid = 'pg_type'::regclass AND t.oid = d.refobjid
+      LEFT JOIN pg_type e ON e.oid = t.typelem
+      WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'n'
+        AND (d.refclassid IN ('pg_class'::regclass, 'pg_proc'::regclass) OR t.typrelid <> 0 OR e.typrelid <> 0)
+    ) AS after_tables
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE p.prokind IN ('f', 'p') AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_proc', 'p.oid')}
+  ORDER BY n.nspname, p.proname`
+
+const VIEWS_SQL = `
+  SELECT n.nspname AS schema, c.relname AS name, pg_get_viewdef(c.oid) AS definition
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind = 'v' AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_class', 'c.oid')}
+  ORDER BY n.nspname, c.relname`
+
+// View and materialized view dependencies on each other, through their rewrite rules
+const VIEW_DEPENDENCIES_SQL = `
+  SELECT DISTINCT vn.nspname AS schema, v.relname AS name, rn.nspname AS ref_schema, r.relname AS ref_name
+  FROM pg_depend d
+  JOIN pg_rewrite rw ON rw.oid = d.objid
+  JOIN pg_class v ON v.oid = rw.ev_class
+  JOIN pg_namespace vn ON vn.oid = v.relnamespace
+  JOIN pg_class r ON r.oid = d.refobjid
+  JOIN pg_namespace rn ON rn.oid = r.relnamespace
+  WHERE d.classid = 'pg_rewrite'::regclass AND v.relkind IN ('v', 'm') AND r.relkind IN ('v', 'm') AND v.oid <> r.oid`
+
+// Only functions with a SQL-standard body record the functions they call
+const FUNCTION_DEPENDENCIES_SQL = `
+  SELECT DISTINCT n.nspname AS schema, p.proname AS name, rn.nspname AS ref_schema, r.proname AS ref_name
+  FROM pg_depend d
+  JOIN pg_proc p ON p.oid = d.objid
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  JOIN pg_proc r ON r.oid = d.refobjid
+  JOIN pg_namespace rn ON rn.oid = r.pronamespace
+  WHERE d.classid = 'pg_proc'::regclass AND d.refclassid = 'pg_proc'::regclass AND p.oid <> r.oid`
+
+// 'a' links a serial sequence to its column, 'i' an identity sequence
+const SEQUENCE_OWNERSHIP_SQL = `
+  SELECT n.nspname AS schema, s.relname AS name, d.deptype AS kind, t.relname AS table, a.attname AS column
+  FROM pg_depend d
+  JOIN pg_class s ON s.oid = d.objid AND s.relkind = 'S'
+  JOIN pg_namespace n ON n.oid = s.relnamespace
+  JOIN pg_class t ON t.oid = d.refobjid
+  JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = d.refobjsubid
+  WHERE d.classid = 'pg_class'::regclass AND d.deptype IN ('a', 'i') AND ${USER_NAMESPACE}`
+
+const OWNERS_SQL = `
+  SELECT n.nspname AS schema, c.relname AS name, c.relkind::text AS kind, pg_get_userbyid(c.relowner) AS owner
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE c.relkind IN ('r', 'v', 'm', 'S') AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_class', 'c.oid')}
+    AND NOT EXISTS (SELECT 1 FROM pg_depend i WHERE i.objid = c.oid AND i.deptype = 'i')
+  UNION ALL
+  SELECT n.nspname, p.proname || '(' || pg_get_function_identity_arguments(p.oid) || ')',
+    CASE WHEN p.prokind = 'p' THEN 'procedure' ELSE 'function' END, pg_get_userbyid(p.proowner)
+  FROM pg_proc p
+  JOIN pg_namespace n ON n.oid = p.pronamespace
+  WHERE p.prokind IN ('f', 'p') AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_proc', 'p.oid')}
+  UNION ALL
+  SELECT n.nspname, t.typname, 'type', pg_get_userbyid(t.typowner)
+  FROM pg_type t
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  WHERE t.typtype = 'e' AND ${USER_NAMESPACE} AND ${notExtensionMember('pg_type', 't.oid')}
+  ORDER BY 1, 2`
+
+const OWNER_STATEMENTS: Record<string, string> = {
+  r: 'TABLE',
+  v: 'VIEW',
+  m: 'MATERIALIZED VIEW',
+  S: 'SEQUENCE',
+  function: 'FUNCTION',
+  procedure: 'PROCEDURE',
+  type: 'TYPE'
+}
+
+const query = async <T>(driver: PostgreSQLDriver, sql: string, params?: unknown[]): Promise<T[]> => {
+  const result = await driver.execute(sql, params)
+  if (result.error) {
+    throw new Error(result.error)
+  }
+  return result.rows as T[]
+}
+
+const groupBy = <T>(items: T[], key: (item: T) => string): Map<string, T[]> => {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const k = key(item)
+    groups.set(k, [...(groups.get(k) ?? []), item])
+  }
+  return groups
+}
+
+const relationKey = (schema: string, name: string) => `${schema}.${name}`
+
+const toDependencyMap = (rows: CatalogDependency[]): Map<string, string[]> => {
+  const dependencies = new Map<string, string[]>()
+  for (const dep of rows) {
+    const key = relationKey(dep.schema, dep.name)
+    dependencies.set(key, [...(dependencies.get(key) ?? []), relationKey(dep.ref_schema, dep.ref_name)])
+  }
+  return dependencies
+}
+
+/**
+ * Orders views, or functions, so each one comes after those it uses. Cycles cannot occur in
+ * PostgreSQL, but any leftover entries are appended rather than dropped.
+ */
+const sortByDependencies = <T extends { schema: string; name: string }>(
+  items: T[],
+  dependencies: Map<string, string[]>
+): T[] => {
+  const byKey = new Map(items.map((item) => [relationKey(item.schema, item.name), item]))
+  const sorted: T[] = []
+  const visited = new Set<string>()
+
+  const visit = (key: string) => {
+    if (visited.has(key) || !byKey.has(key)) return
+    visited.add(key)
+    for (const dependency of dependencies.get(key) ?? []) {
+      visit(dependency)
+    }
+    sorted.push(byKey.get(key)!)
+  }
+
+  for (const key of byKey.keys()) {
+    visit(key)
+  }
+  return sorted
+}
+
+const buildColumnDefinition = (column: CatalogColumn): string => {
+  let definition = `${quoteIdent(column.name)} ${column.type}`
+  if (column.generated === 's') {
+    definition += ` GENERATED ALWAYS AS (${column.default_value}) STORED`
+  } else if (column.default_value) {
+    definition += ` DEFAULT ${column.default_value}`
+  }
+  if (column.identity === 'a') definition += ' GENERATED ALWAYS AS IDENTITY'
+  if (column.identity === 'd') definition += ' GENERATED BY DEFAULT AS IDENTITY'
+  if (column.not_null) definition += ' NOT NULL'
+  return definition
+}
+
+/**
+ * Writes a plain-SQL backup of every user schema in the connected database, laid out the
+ * way pg_dump does: objects are created in dependency order, table data follows as
+ * `COPY ... FROM stdin` blocks, and constraints, indexes and triggers are added after the
+ * data. Everything is read inside one repeatable-read transaction, so schema and data come
+ * from the same snapshot, and rows are paged through a cursor straight to `filePath`.
+ */
+export const writePostgresBackup = async (
+  driver: PostgreSQLDriver,
+  filePath: string,
+  options: { batchSize?: number } = {}
+): Promise<PostgresBackupSummary> => {
+  const batchSize = options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE
+  const stream = createWriteStream(filePath, { encoding: 'utf-8' })
+
+  let streamError: Error | null = null
+  stream.on('error', (err) => {
+    streamError = err
+  })
+  const write = async (...lines: string[]) => {
+    if (streamError) throw streamError
+    await writeChunk(stream, lines.map((line) => `${line}\n`).join(''))
+  }
+
+  const summary: PostgresBackupSummary = { tables: 0, rows: 0 }
+
+  try {
+    await query(driver, 'BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY')
+    await query(driver, 'SET LOCAL search_path = pg_catalog')
+
+    const schemas = (await driver.getSchemas(true)).filter((schema) => !schema.isSystem)
+    const extensions = await driver.getExtensions()
+    const enums = await driver.getAllEnums()
+    const functions = await query<CatalogFunction>(driver, FUNCTIONS_SQL)
+    const functionDependencies = await query<CatalogDependency>(driver, FUNCTION_DEPENDENCIES_SQL)
+    const columns = await query<CatalogColumn>(driver, COLUMNS_SQL)
+    const constraints = await query<CatalogConstraint>(driver, CONSTRAINTS_SQL)
+    const indexes = await query<CatalogDefinition>(driver, INDEXES_SQL)
+    const views = await query<CatalogDefinition>(driver, VIEWS_SQL)
+    const viewDependencies = await query<CatalogDependency>(driver, VIEW_DEPENDENCIES_SQL)
+    const sequenceOwnership = await query<{ schema: string; name: string; kind: string; table: string; column: string }>(
+      driver,
+      SEQUENCE_OWNERSHIP_SQL
+    )
+    const owners = await query<CatalogOwner>(driver, OWNERS_SQL)
+    const triggers = await driver.getTriggers()
+
+    const sequences = []
+    const materializedViews = []
+    for (const schema of schemas) {
+      sequences.push(...(await driver.getSequences(schema.name)))
+      materializedViews.push(...(await driver.getMaterializedViews(schema.name)))
+    }
+
+    const tables: TableDefinition[] = [...groupBy(columns, (col) => relationKey(col.schema, col.table)).values()]
+      .map((cols) => ({ schema: cols[0].schema, name: cols[0].table, columns: cols }))
+    const constraintsByTable = groupBy(constraints, (con) => relationKey(con.schema, con.table))
+    const identitySequences = new Set(
+      sequenceOwnership.filter((seq) => seq.kind === 'i').map((seq) => relationKey(seq.schema, seq.name))
+    )
+
+    await write(
+      '--',
+      '-- PostgreSQL database backup',
+      `-- Generated by Zequel: ${new Date().toISOString()}`,
+      '--',
+      '',
+      'SET statement_timeout = 0;',
+      "SET client_encoding = 'UTF8';",
+      'SET standard_conforming_strings = on;',
+      'SET check_function_bodies = false;',
+      'SET client_min_messages = warning;',
+      "SELECT pg_catalog.set_config('search_path', '', false);",
+      ''
+    )
+
+    await write('-- Schemas', '')
+    for (const schema of schemas) {
+      await write(`CREATE SCHEMA IF NOT EXISTS ${quoteIdent(schema.name)};`)
+    }
+    await write('')
+
+    if (extensions.length > 0) {
+      await write('-- Extensions', '')
+      for (const extension of extensions) {
+        const schema = extension.schema ? ` WITH SCHEMA ${quoteIdent(extension.schema)}` : ''
+        await write(`CREATE EXTENSION IF NOT EXISTS ${quoteIdent(extension.name)}${schema};`)
+      }
+      await write('')
+    }
+
+    if (enums.length > 0) {
+      await write('-- Types', '')
+      for (const type of enums) {
+        await write(`CREATE TYPE ${qualify(type.schema, type.name)} AS ENUM (${type.values.map(quoteLiteral).join(', ')});`)
+      }
+      await write('')
+    }
+
+    // Function bodies are not checked at creation, so most functions can precede the tables
+    // they use, and defaults or checks calling them work
+    const sortedFunctions = sortByDependencies(functions, toDependencyMap(functionDependencies))
+    const earlyFunctions = sortedFunctions.filter((fn) => !fn.after_tables)
+    if (earlyFunctions.length > 0) {
+      await write('-- Functions', '')
+      for (const fn of earlyFunctions) {
+        await write(`${fn.definition.trim()};`, '')
+      }
+    }
+
+    const standaloneSequences = sequences.filter((seq) => !identitySequences.has(relationKey(seq.schema, seq.name)))
+    if (standaloneSequences.length > 0) {
+      await write('-- Sequences', '')
+      for (const seq of standaloneSequences) {
+        await write(
+          `CREATE SEQUENCE ${qualify(seq.schema, seq.name)} AS ${seq.dataType} START WITH ${seq.startValue} ` +
+          `INCREMENT BY ${seq.increment} MINVALUE ${seq.minValue} MAXVALUE ${seq.maxValue} ` +
+          `CACHE ${seq.cacheSize}${seq.cycled ? ' CYCLE' : ' NO CYCLE'};`
+        )
+      }
+      await write('')
+    }
+
+    await write('-- Tables', '')
+    for (const table of tables) {
+      const checks = (constraintsByTable.get(relationKey(table.schema, table.name)) ?? [])
+        .filter((con) => con.type === 'c')
+        .map((con) => `CONSTRAINT ${quoteIdent(con.name)} ${con.definition}`)
+      const definitions = [...table.columns.map(buildColumnDefinition), ...checks]
+      await write(`CREATE TABLE ${qualify(table.schema, table.name)} (`, definitions.map((def) => `    ${def}`).join(',\n'), ');', '')
+    }
+
+    const serialSequences = sequenceOwnership.filter((seq) => seq.kind === 'a')
+    for (const seq of serialSequences) {
+      await write(`ALTER SEQUENCE ${qualify(seq.schema, seq.name)} OWNED BY ${qualify(seq.schema, seq.table)}.${quoteIdent(seq.column)};`)
+    }
+    if (serialSequences.length > 0) await write('')
+
+    const lateFunctions = sortedFunctions.filter((fn) => fn.after_tables)
+    if (lateFunctions.length > 0) {
+      await write('-- Functions using tables', '')
+      for (const fn of lateFunctions) {
+        await write(`${fn.definition.trim()};`, '')
+      }
+    }
+
+    const allViews = sortByDependencies(
+      [
+        ...views.map((view) => ({ ...view, materialized: false, populated: false })),
+        ...materializedViews.map((view) => ({ ...view, materialized: true, populated: !!view.isPopulated }))
+      ],
+      toDependencyMap(viewDependencies)
+    )
+    if (allViews.length > 0) {
+      await write('-- Views', '')
+      for (const view of allViews) {
+        const definition = view.definition.trim().replace(/;$/, '')
+        await write(view.materialized
+          ? `CREATE MATERIALIZED VIEW ${qualify(view.schema, view.name)} AS\n${definition}\nWITH NO DATA;`
+          : `CREATE VIEW ${qualify(view.schema, view.name)} AS\n${definition};`, '')
+      }
+    }
+
+    await write('-- Data', '')
+    for (const table of tables) {
+      const copyColumns = table.columns.filter((col) => col.generated !== 's')
+      const columnList = copyColumns.map((col) => quoteIdent(col.name)).join(', ')
+      const selectList = copyColumns.map((col) => `${quoteIdent(col.name)}::text AS ${quoteIdent(col.name)}`).join(', ')
+
+      await write(`COPY ${qualify(table.schema, table.name)} (${columnList}) FROM stdin;`)
+      await query(driver, `DECLARE ${BACKUP_CURSOR} NO SCROLL CURSOR FOR SELECT ${selectList} FROM ONLY ${qualify(table.schema, table.name)}`)
+      for (;;) {
+        const rows = await query<Record<string, string | null>>(driver, `FETCH ${batchSize} FROM ${BACKUP_CURSOR}`)
+        if (rows.length > 0) {
+          await write(...rows.map((row) => copyColumns.map((col) => escapeCopyValue(row[col.name])).join('\t')))
+          summary.rows += rows.length
+        }
+        if (rows.length < batchSize) break
+      }
+      await query(driver, `CLOSE ${BACKUP_CURSOR}`)
+      await write('\\.', '')
+      summary.tables++
+    }
+
+    const sequenceValues = sequences.filter((seq) => seq.lastValue !== null && seq.lastValue !== undefined)
+    if (sequenceValues.length > 0) {
+      await write('-- Sequence values', '')
+      for (const seq of sequenceValues) {
+        const identity = sequenceOwnership.find(
+          (owned) => owned.kind === 'i' && owned.schema === seq.schema && owned.name === seq.name
+        )
+        // Identity sequences are recreated under a generated name, so they are looked up by column
+        const target = identity
+          ? `pg_catalog.pg_get_serial_sequence(${quoteLiteral(qualify(identity.schema, identity.table))}, ${quoteLiteral(identity.column)})`
+          : quoteLiteral(qualify(seq.schema, seq.name))
+        await write(`SELECT pg_catalog.setval(${target}, ${seq.lastValue}, true);`)
+      }
+      await write('')
+    }
+
+    // Keys come before indexes and foreign keys last, so every referenced key exists
+    const keyConstraints = constraints.filter((con) => con.type === 'p' || con.type === 'u' || con.type === 'x')
+    const foreignKeys = constraints.filter((con) => con.type === 'f')
+    const addConstraint = (con: CatalogConstraint) =>
+      `ALTER TABLE ONLY ${qualify(con.schema, con.table)} ADD CONSTRAINT ${quoteIdent(con.name)} ${con.definition};`
+    if (keyConstraints.length > 0 || indexes.length > 0 || foreignKeys.length > 0) {
+      await write(
+        '-- Constraints and indexes',
+        '',
+        ...keyConstraints.map(addConstraint),
+        ...indexes.map((index) => `${index.definition};`),
+        ...foreignKeys.map(addConstraint),
+        ''
+      )
+    }
+
+    if (triggers.length > 0) {
+      await write('-- Triggers', '')
+      for (const trigger of triggers) {
+        await write(`${trigger.definition};`)
+        if (trigger.enabled === false) {
+          await write(`ALTER TABLE ${qualify(trigger.schema ?? 'public', trigger.table)} DISABLE TRIGGER ${quoteIdent(trigger.name)};`)
+        }
+      }
+      await write('')
+    }
+
+    const populated = allViews.filter((view) => view.materialized && view.populated)
+    if (populated.length > 0) {
+      await write('-- Materialized view data', '')
+      for (const view of populated) {
+        await write(`REFRESH MATERIALIZED VIEW ${qualify(view.schema, view.name)};`)
+      }
+      await write('')
+    }
+
+    await write('-- Ownership', '')
+    for (const schema of schemas) {
+      if (schema.owner) await write(`ALTER SCHEMA ${quoteIdent(schema.name)} OWNER TO ${quoteIdent(schema.owner)};`)
+    }
+    for (const owner of owners) {
+      // Function names carry their argument list, which must stay unquoted
+      const name = owner.kind === 'function' || owner.kind === 'procedure'
+        ? `${quoteIdent(owner.schema)}.${owner.name.replace(/^([^(]+)/, (fn) => quoteIdent(fn))}`
+        : qualify(owner.schema, owner.name)
+      await write(`ALTER ${OWNER_STATEMENTS[owner.kind]} ${name} OWNER TO ${quoteIdent(owner.owner)};`)
+    }
+    await write('', '-- Backup complete')
+
+    await query(driver, 'COMMIT')
+  } catch (error) {
+    await driver.execute('ROLLBACK')
+    throw error
+  } finally {
+    stream.end()
+    await once(stream, 'close').catch(() => undefined)
+  }
+
+  if (streamError) throw streamError
+  return summary
+}
+
+// ─── Restore ─────────────────────────────────────────────────────────────────
+
+const COPY_HEADER = /^COPY\s+((?:"(?:[^"]|"")*"|[^\s(])+)\s*\(([^)]*)\)\s+FROM\s+stdin$/i
+const DOLLAR_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/
+
+const splitColumnList = (list: string): string[] =>
+  list.match(/"(?:[^"]|"")*"|[^,\s]+/g) ?? []
+
+export interface SQLScriptOptions {
+  // MySQL-flavoured scripts escape quotes with backslashes in every string and quote
+  // identifiers with backticks
+  backslashEscapes?: boolean
+}
+
+/**
+ * Reads a SQL script line by line and yields complete statements, plus the rows of any
+ * `COPY ... FROM stdin` block. Semicolons inside quotes, dollar-quoted bodies and comments
+ * do not end a statement.
+ */
+export async function* readSQLScript(
+  lines: AsyncIterable<string> | Iterable<string>,
+  options: SQLScriptOptions = {}
+): AsyncGenerator<ScriptItem> {
+  let buffer = ''
+  // The closing delimiter of the quote or comment the scanner is inside
+  let closing: string | null = null
+  let escapeString = false
+  let commentDepth = 0
+  let copy: CopyTarget | null = null
+
+  for await (const line of lines) {
+    if (copy) {
+      if (line === '\\.') {
+        yield { kind: ScriptItemKind.CopyEnd, target: copy }
+        copy = null
+      } else {
+        yield { kind: ScriptItemKind.CopyRow, target: copy, values: parseCopyLine(line) }
+      }
+      continue
+    }
+
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i]
+
+      if (closing === '*/') {
+        if (line.startsWith('/*', i)) {
+          commentDepth++
+          buffer += '/*'
+          i++
+        } else if (line.startsWith('*/', i)) {
+          commentDepth--
+          buffer += '*/'
+          i++
+          if (commentDepth === 0) closing = null
+        } else {
+          buffer += ch
+        }
+        continue
+      }
+
+      if (closing === "'" || closing === '"') {
+        buffer += ch
+        if (escapeString && ch === '\\' && i + 1 < line.length) {
+          buffer += line[++i]
+        } else if (ch === closing) {
+          if (line[i + 1] === closing) {
+            buffer += line[++i]
+          } else {
+            closing = null
+          }
+        }
+        continue
+      }
+
+      if (closing) {
+        if (line.startsWith(closing, i)) {
+          buffer += closing
+          i += closing.length - 1
+          closing = null
+        } else {
+          buffer += ch
+        }
+        continue
+      }
+
+      if (line.startsWith('--', i)) break
+      if (line.startsWith('/*', i)) {
+        closing = '*/'
+        commentDepth = 1
+        buffer += '/*'
+        i++
+        continue
+      }
+      if (ch === "'" || ch === '"') {
+        closing = ch
+        escapeString = !!options.backslashEscapes ||
+          (ch === "'" && /[eE]$/.test(buffer) && !/[A-Za-z0-9_][eE]$/.test(buffer))
+        buffer += ch
+        continue
+      }
+      if (ch === '`' && options.backslashEscapes) {
+        closing = ch
+        buffer += ch
+        continue
+      }
+      if (ch === '$') {
+        const tag = line.slice(i).match(DOLLAR_TAG)?.[0]
+        // `$1` parameters and identifiers containing `$` are not quotes
+        if (tag && !/[A-Za-z0-9_]$/.test(buffer)) {
+          closing = tag
+          buffer += tag
+          i += tag.length - 1
+          continue
+        }
+      }
+      if (ch === ';') {
+        const sql = buffer.trim()
+        buffer = ''
+        if (!sql) continue
+        yield { kind: ScriptItemKind.Statement, sql }
+        const header = sql.match(COPY_HEADER)
+        if (header) {
+          copy = { table: header[1], columns: splitColumnList(header[2]) }
+          break
+        }
+        continue
+      }
+      buffer += ch
+    }
+
+    if (buffer) buffer += '\n'
+  }
+
+  const rest = buffer.trim()
+  if (rest) {
+    yield { kind: ScriptItemKind.Statement, sql: rest }
+  }
+}
+
+const insertBatch = async (
+  driver: PostgreSQLDriver,
+  target: CopyTarget,
+  rows: (string | null)[][]
+): Promise<string | undefined> => {
+  const placeholders = `(${target.columns.map(() => '?').join(', ')})`
+  const sql = `INSERT INTO ${target.table} (${target.columns.join(', ')}) OVERRIDING SYSTEM VALUE VALUES ` +
+    rows.map(() => placeholders).join(', ')
+  const result = await driver.execute(sql, rows.flat())
+  return result.error
+}
+
+/**
+ * Restores a plain-SQL PostgreSQL backup, streaming the file so its size is not limited by
+ * memory. Statements run one at a time; COPY blocks are loaded as batched parameterized
+ * INSERTs, which PostgreSQL parses with the same type input functions COPY uses. Like the
+ * generic SQL import, a failed statement is recorded and the restore carries on.
+ */
+export const restorePostgresBackup = async (
+  driver: PostgreSQLDriver,
+  filePath: string
+): Promise<PostgresRestoreResult> => {
+  const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf-8' }), crlfDelay: Infinity })
+  const errors: string[] = []
+  let successCount = 0
+  let rows: (string | null)[][] = []
+  let loadedRows = 0
+
+  const flush = async (target: CopyTarget) => {
+    if (rows.length === 0) return
+    const error = await insertBatch(driver, target, rows)
+    if (error) {
+      errors.push(`Error loading ${target.table} (rows ${loadedRows + 1}-${loadedRows + rows.length}): ${error}`)
+    }
+    loadedRows += rows.length
+    rows = []
+  }
+
+  for await (const item of readSQLScript(lines)) {
+    switch (item.kind) {
+      case ScriptItemKind.Statement: {
+        // The COPY header itself only announces the rows that follow
+        if (COPY_HEADER.test(item.sql)) {
+          loadedRows = 0
+          continue
+        }
+        const result = await driver.execute(item.sql)
+        if (result.error) {
+          errors.push(`Error executing: ${item.sql.substring(0, 50)}... - ${result.error}`)
+        } else {
+          successCount++
+        }
+        break
+      }
+      case ScriptItemKind.CopyRow: {
+        rows.push(item.values)
+        const batchSize = Math.min(RESTORE_BATCH_SIZE, Math.floor(MAX_BIND_PARAMETERS / item.target.columns.length))
+        if (rows.length >= batchSize) {
+          await flush(item.target)
+        }
+        break
+      }
+      case ScriptItemKind.CopyEnd:
+        await flush(item.target)
+        successCount++
+        break
+    }
+  }
+
+  return { successCount, errors }
+}
@@ -11,16 +11,32 @@ export interface QueryHistoryItem {
   executedAt: string
 }
 
+export interface SavedQueryParameterValue {
+  type: string
+  value: string
+}
+
 export interface SavedQuery {
   id: number
   connectionId?: string
   name: string
   sql: string
   description?: string
+  // Last values entered for the query's placeholders, keyed by parameter
+  parameterValues?: Record<string, SavedQueryParameterValue>
   createdAt: string
   updatedAt: string
 }
 
+const parseParameterValues = (raw: unknown): Record<string, SavedQueryParameterValue> | undefined => {
+  if (typeof raw !== 'string' || !raw) return undefined
+  try {
+    return JSON.parse(raw) as Record<string, SavedQueryParameterValue>
+  } catch {
+    return undefined
+  }
+}
+
 export class QueryHistoryService {
   private get db() {
     return appDatabase.getDatabase()
@@ -140,7 +156,7 @@ export class QueryHistoryService {
 
   getSavedQuery(id: number): SavedQuery | null {
     const row = this.db.prepare(`
-      SELECT id, connection_id, name, sql, description, created_at, updated_at
+      SELECT id, connection_id, name, sql, description, parameter_values, created_at, updated_at
       FROM saved_queries
       WHERE id = ?
     `).get(id) as any
@@ -153,14 +169,14 @@ export class QueryHistoryService {
 
     if (connectionId) {
       rows = this.db.prepare(`
-        SELECT id, connection_id, name, sql, description, created_at, updated_at
+        SELECT id, connection_id, name, sql, description, parameter_values, created_at, updated_at
         FROM saved_queries
         WHERE connection_id = ? OR connection_id IS NULL
         ORDER BY name ASC
       `).all(connectionId) as any[]
     } else {
       rows = this.db.prepare(`
-        SELECT id, connection_id, name, sql, description, created_at, updated_at
+        SELECT id, connection_id, name, sql, description, parameter_values, created_at, updated_at
         FROM saved_queries
         ORDER BY name ASC
       `).all() as any[]
@@ -169,6 +185,14 @@ export class QueryHistoryService {
     return rows.map(this.mapRowToSavedQuery)
   }
 
+  // Remembered values are not an edit of the query itself, so updated_at is left alone
+  setSavedQueryParameters(id: number, values: Record<string, SavedQueryParameterValue>): boolean {
+    const result = this.db.prepare(`
+      UPDATE saved_queries SET parameter_values = ? WHERE id = ?
+    `).run(JSON.stringify(values), id)
+    return result.changes > 0
+  }
+
   deleteSavedQuery(id: number): boolean {
     const result = this.db.prepare('DELETE FROM saved_queries WHERE id = ?').run(id)
     logger.debug('Saved query deleted', { id, deleted: result.changes > 0 })
@@ -194,6 +218,7 @@ export class QueryHistoryService {
       name: row.name,
       sql: row.sql,
       description: row.description || undefined,
+      parameterValues: parseParameterValues(row.parameter_values),
       createdAt: row.created_at,
       updatedAt: row.updated_at
     }
@@ -0,0 +1,223 @@
+import { BrowserWindow, Notification } from 'electron'
+import { randomUUID } from 'crypto'
+import type { QueryResult } from '../types'
+import { logger } from '../utils/logger'
+
+export enum QueryJobStatus {
+  Queued = 'queued',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Canceled = 'canceled'
+}
+
+export interface QueryJob {
+  id: string
+  connectionId: string
+  connectionName: string
+  database?: string
+  sql: string
+  status: QueryJobStatus
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  // Filled in when the job finishes
+  resultCount?: number
+  rowCount?: number
+  error?: string
+}
+
+export interface QueryJobRequest {
+  connectionId: string
+  connectionName: string
+  database?: string
+  sql: string
+}
+
+// Runs the job's statements; the signal is aborted when the job is canceled
+export type QueryJobRunner = (job: QueryJob, signal: AbortSignal) => Promise<QueryResult[]>
+
+export type QueryJobNotifier = (job: QueryJob) => void
+
+// Each running job holds a session of its own
+export const MAX_RUNNING_JOBS = 3
+
+// Finished jobs keep their results in memory until they are removed or pushed out
+export const MAX_FINISHED_JOBS = 20
+
+const FINISHED_STATUSES: QueryJobStatus[] = [QueryJobStatus.Completed, QueryJobStatus.Failed, QueryJobStatus.Canceled]
+
+export const isFinishedJob = (job: QueryJob): boolean => FINISHED_STATUSES.includes(job.status)
+
+export const emitQueryJob = (job: QueryJob) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('jobs:changed', job)
+  }
+}
+
+const describeFinishedJob = (job: QueryJob): string => {
+  const seconds = job.startedAt && job.finishedAt
+    ? ((Date.parse(job.finishedAt) - Date.parse(job.startedAt)) / 1000).toFixed(1)
+    : '0.0'
+  switch (job.status) {
+    case QueryJobStatus.Failed:
+      return job.error ?? 'The query failed'
+    case QueryJobStatus.Canceled:
+      return 'Canceled'
+    default:
+      return `${job.rowCount ?? 0} rows in ${seconds}s`
+  }
+}
+
+// Clicking the notification brings the app forward with the Jobs panel open
+export const notifyFinishedJob = (job: QueryJob) => {
+  if (!Notification.isSupported()) return
+
+  const notification = new Notification({
+    title: `Background query ${job.status === QueryJobStatus.Completed ? 'finished' : job.status} on ${job.connectionName}`,
+    body: describeFinishedJob(job)
+  })
+  notification.on('click', () => {
+    const win = BrowserWindow.getAllWindows()[0]
+    if (!win) return
+    if (win.isMinimized()) win.restore()
+    win.focus()
+    win.webContents.send('jobs:focus', job.id)
+  })
+  notification.show()
+}
+
+interface QueryJobEntry {
+  job: QueryJob
+  run: QueryJobRunner
+  controller: AbortController
+  results: QueryResult[] | null
+}
+
+/**
+ * Runs queries in the background, at most MAX_RUNNING_JOBS at a time; the rest wait
+ * in order. Every status change is broadcast to the renderer, and a notification is
+ * shown when a job finishes.
+ */
+export class QueryJobQueue {
+  // Insertion order is creation order
+  private entries = new Map<string, QueryJobEntry>()
+
+  constructor(
+    private readonly emit: (job: QueryJob) => void = emitQueryJob,
+    private readonly notify: QueryJobNotifier = notifyFinishedJob
+  ) {}
+
+  enqueue(request: QueryJobRequest, run: QueryJobRunner): QueryJob {
+    const job: QueryJob = {
+      id: randomUUID(),
+      ...request,
+      status: QueryJobStatus.Queued,
+      createdAt: new Date().toISOString()
+    }
+    this.entries.set(job.id, { job, run, controller: new AbortController(), results: null })
+    logger.info('Query job queued', { jobId: job.id, connectionId: job.connectionId })
+
+    this.emit({ ...job })
+    this.startNext()
+    return { ...this.entries.get(job.id)!.job }
+  }
+
+  list(): QueryJob[] {
+    return [...this.entries.values()].map((entry) => ({ ...entry.job }))
+  }
+
+  getResults(jobId: string): QueryResult[] {
+    const entry = this.entries.get(jobId)
+    if (!entry) {
+      throw new Error('The job no longer exists')
+    }
+    if (!entry.results) {
+      throw new Error('The job has no results yet')
+    }
+    return entry.results
+  }
+
+  /**
+   * Cancels a job: a queued one never starts, a running one has its signal aborted
+   * and is marked canceled once the runner returns.
+   */
+  cancel(jobId: string): boolean {
+    const entry = this.entries.get(jobId)
+    if (!entry || isFinishedJob(entry.job)) return false
+
+    if (entry.job.status === QueryJobStatus.Queued) {
+      this.finish(entry, QueryJobStatus.Canceled)
+      return true
+    }
+    entry.controller.abort()
+    return true
+  }
+
+  // Only finished jobs can be removed; running ones are canceled first
+  remove(jobId: string): boolean {
+    const entry = this.entries.get(jobId)
+    if (!entry || !isFinishedJob(entry.job)) return false
+    this.entries.delete(jobId)
+    return true
+  }
+
+  private startNext(): void {
+    const entries = [...this.entries.values()]
+    let running = entries.filter((entry) => entry.job.status === QueryJobStatus.Running).length
+    for (const entry of entries) {
+      if (running >= MAX_RUNNING_JOBS) break
+      if (entry.job.status !== QueryJobStatus.Queued) continue
+      running++
+      void this.runJob(entry)
+    }
+  }
+
+  private async runJob(entry: QueryJobEntry): Promise<void> {
+    entry.job.status = QueryJobStatus.Running
+    entry.job.startedAt = new Date().toISOString()
+    this.emit({ ...entry.job })
+
+    try {
+      const results = await entry.run({ ...entry.job }, entry.controller.signal)
+      entry.results = results
+      entry.job.resultCount = results.length
+      entry.job.rowCount = results.reduce((total, result) => total + (result.rowCount ?? result.rows.length), 0)
+
+      if (entry.controller.signal.aborted) {
+        this.finish(entry, QueryJobStatus.Canceled)
+      } else {
+        const failed = results.find((result) => result.error)
+        this.finish(entry, failed ? QueryJobStatus.Failed : QueryJobStatus.Completed, failed?.error)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.finish(entry, entry.controller.signal.aborted ? QueryJobStatus.Canceled : QueryJobStatus.Failed, message)
+    }
+  }
+
+  private finish(entry: QueryJobEntry, status: QueryJobStatus, error?: string): void {
+    const wasRunning = entry.job.status === QueryJobStatus.Running
+    entry.job.status = status
+    entry.job.finishedAt = new Date().toISOString()
+    if (error) entry.job.error = error
+    logger.info('Query job finished', { jobId: entry.job.id, status, rowCount: entry.job.rowCount })
+
+    this.emit({ ...entry.job })
+    // A job canceled while still queued never ran, so there is nothing to report
+    if (wasRunning) this.notify({ ...entry.job })
+
+    this.pruneFinished()
+    this.startNext()
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.entries.values()].filter((entry) => isFinishedJob(entry.job))
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.entries.delete(entry.job.id)
+    }
+  }
+}
+
+export const queryJobQueue = new QueryJobQueue()
@@ -0,0 +1,65 @@
+import { appDatabase } from './database'
+import type { ConnectionConfig, QueryLimits } from '../types'
+import { logger } from '../utils/logger'
+
+const SETTINGS_KEY = 'queryLimits'
+
+export const DEFAULT_QUERY_LIMITS: Required<QueryLimits> = {
+  maxRows: 10_000,
+  timeout: 0
+}
+
+/**
+ * Keeps the fields that are whole, non-negative numbers. Returns null when none are
+ * set, so a connection without overrides stores nothing.
+ */
+export const normalizeQueryLimits = (limits: QueryLimits | null | undefined): QueryLimits | null => {
+  if (!limits) return null
+
+  const normalized: QueryLimits = {}
+  for (const key of ['maxRows', 'timeout'] as const) {
+    const value = limits[key]
+    if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      normalized[key] = Math.floor(value)
+    }
+  }
+  return Object.keys(normalized).length > 0 ? normalized : null
+}
+
+export class QueryLimitsService {
+  private get db() {
+    return appDatabase.getDatabase()
+  }
+
+  getDefaults(): Required<QueryLimits> {
+    const row = this.db.prepare('SELECT value FROM settings WHERE key = ?').get(SETTINGS_KEY) as { value: string } | undefined
+
+    if (!row) return DEFAULT_QUERY_LIMITS
+    try {
+      return { ...DEFAULT_QUERY_LIMITS, ...normalizeQueryLimits(JSON.parse(row.value) as QueryLimits) }
+    } catch {
+      logger.warn('Ignoring unreadable query limits')
+      return DEFAULT_QUERY_LIMITS
+    }
+  }
+
+  setDefaults(limits: QueryLimits): Required<QueryLimits> {
+    const value = { ...DEFAULT_QUERY_LIMITS, ...normalizeQueryLimits(limits) }
+
+    this.db.prepare(`
+      INSERT INTO settings (key, value, updated_at)
+      VALUES (?, ?, datetime('now'))
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `).run(SETTINGS_KEY, JSON.stringify(value))
+
+    logger.info('Default query limits updated', value)
+    return value
+  }
+
+  // A connection's own limits win over the defaults, field by field
+  resolve(config: ConnectionConfig | undefined): Required<QueryLimits> {
+    return { ...this.getDefaults(), ...normalizeQueryLimits(config?.queryLimits) }
+  }
+}
+
+export const queryLimitsService = new QueryLimitsService()
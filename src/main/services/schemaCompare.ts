@@ -0,0 +1,614 @@
+import type { DatabaseDriver, SchemaScriptBuilder } from '../db/base'
+import { TableObjectType, type Column, type Index } from '../types'
+import type { ColumnDefinition, ForeignKeyDefinition, ReferenceAction } from '../types/schema-operations'
+
+export enum SchemaObjectKind {
+  Table = 'table',
+  Column = 'column',
+  Index = 'index',
+  ForeignKey = 'foreign-key',
+  View = 'view',
+  Trigger = 'trigger'
+}
+
+// Relative to the target: Added objects exist only in the source, Removed only in the target
+export enum SchemaDiffStatus {
+  Added = 'added',
+  Removed = 'removed',
+  Changed = 'changed'
+}
+
+export interface SchemaCompareEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+}
+
+export interface SchemaDiffNode {
+  kind: SchemaObjectKind
+  name: string
+  status: SchemaDiffStatus
+  details?: string[]
+  children?: SchemaDiffNode[]
+}
+
+export interface SchemaCompareResult {
+  differences: SchemaDiffNode[]
+  script: string
+}
+
+export interface TableSnapshot {
+  name: string
+  columns: Column[]
+  indexes: Index[]
+  foreignKeys: ForeignKeyDefinition[]
+}
+
+export interface DefinitionSnapshot {
+  name: string
+  table?: string
+  definition: string
+}
+
+export interface SchemaSnapshot {
+  database: string
+  schema?: string
+  tables: TableSnapshot[]
+  views: DefinitionSnapshot[]
+  triggers: DefinitionSnapshot[]
+}
+
+interface ChangedItem<T> {
+  source: T
+  target: T
+  details: string[]
+}
+
+interface ItemDiff<T> {
+  added: T[]
+  removed: T[]
+  changed: ChangedItem<T>[]
+}
+
+interface TableDiff {
+  name: string
+  status: SchemaDiffStatus
+  source?: TableSnapshot
+  target?: TableSnapshot
+  columns: ItemDiff<Column>
+  indexes: ItemDiff<Index>
+  foreignKeys: ItemDiff<ForeignKeyDefinition>
+}
+
+interface SchemaDiff {
+  tables: TableDiff[]
+  views: ItemDiff<DefinitionSnapshot>
+  triggers: ItemDiff<DefinitionSnapshot>
+}
+
+// Foreign keys come back one row per column; multi-column keys share a constraint name
+export const groupForeignKeys = (rows: Awaited<ReturnType<DatabaseDriver['getForeignKeys']>>): ForeignKeyDefinition[] => {
+  const groups = new Map<string, ForeignKeyDefinition>()
+  for (const row of rows) {
+    const existing = groups.get(row.name)
+    if (existing) {
+      existing.columns.push(row.column)
+      existing.referencedColumns.push(row.referencedColumn)
+      continue
+    }
+    groups.set(row.name, {
+      name: row.name,
+      columns: [row.column],
+      referencedTable: row.referencedTable,
+      referencedSchema: row.referencedSchema,
+      referencedColumns: [row.referencedColumn],
+      onUpdate: row.onUpdate as ReferenceAction | undefined,
+      onDelete: row.onDelete as ReferenceAction | undefined
+    })
+  }
+  return [...groups.values()]
+}
+
+/**
+ * Reads tables, columns, indexes, foreign keys, views and triggers through the driver's
+ * introspection methods. Objects are read one at a time to stay on a single session.
+ */
+export const loadSchemaSnapshot = async (
+  driver: DatabaseDriver,
+  database: string,
+  schema?: string
+): Promise<SchemaSnapshot> => {
+  const objects = await driver.getTables(database, schema)
+  const snapshot: SchemaSnapshot = { database, schema, tables: [], views: [], triggers: [] }
+
+  for (const object of objects) {
+    if (object.type === TableObjectType.View) {
+      snapshot.views.push({ name: object.name, definition: await driver.getViewDDL(object.name) })
+      continue
+    }
+    snapshot.tables.push({
+      name: object.name,
+      columns: await driver.getColumns(object.name),
+      indexes: await driver.getIndexes(object.name),
+      foreignKeys: groupForeignKeys(await driver.getForeignKeys(object.name))
+    })
+  }
+
+  for (const trigger of await driver.getTriggers()) {
+    snapshot.triggers.push({
+      name: trigger.name,
+      table: trigger.table,
+      definition: await driver.getTriggerDefinition(trigger.name, trigger.table)
+    })
+  }
+
+  return snapshot
+}
+
+const formatColumnType = (col: Column): string => {
+  if (col.length) return `${col.type}(${col.length})`
+  if (col.precision !== undefined && col.scale !== undefined && col.scale !== null) {
+    return `${col.type}(${col.precision},${col.scale})`
+  }
+  return col.type
+}
+
+const formatDefault = (value: unknown): string => (value === null || value === undefined ? 'none' : String(value))
+
+const describeColumnChanges = (source: Column, target: Column): string[] => {
+  const details: string[] = []
+  const sourceType = formatColumnType(source)
+  const targetType = formatColumnType(target)
+  if (sourceType.toLowerCase() !== targetType.toLowerCase()) {
+    details.push(`type: ${targetType} → ${sourceType}`)
+  }
+  if (source.nullable !== target.nullable) {
+    details.push(source.nullable ? 'nullable: NOT NULL → NULL' : 'nullable: NULL → NOT NULL')
+  }
+  if (formatDefault(source.defaultValue) !== formatDefault(target.defaultValue)) {
+    details.push(`default: ${formatDefault(target.defaultValue)} → ${formatDefault(source.defaultValue)}`)
+  }
+  if (source.autoIncrement !== target.autoIncrement) {
+    details.push(source.autoIncrement ? 'auto increment added' : 'auto increment removed')
+  }
+  return details
+}
+
+const describeIndexChanges = (source: Index, target: Index): string[] => {
+  const details: string[] = []
+  if (source.columns.join(',') !== target.columns.join(',')) {
+    details.push(`columns: (${target.columns.join(', ')}) → (${source.columns.join(', ')})`)
+  }
+  if (source.unique !== target.unique) {
+    details.push(source.unique ? 'made unique' : 'no longer unique')
+  }
+  if ((source.type ?? '').toLowerCase() !== (target.type ?? '').toLowerCase()) {
+    details.push(`method: ${target.type ?? 'default'} → ${source.type ?? 'default'}`)
+  }
+  return details
+}
+
+const describeForeignKeyChanges = (source: ForeignKeyDefinition, target: ForeignKeyDefinition): string[] => {
+  const describe = (fk: ForeignKeyDefinition) =>
+    `(${fk.columns.join(', ')}) → ${fk.referencedTable} (${fk.referencedColumns.join(', ')})`
+  const details: string[] = []
+  if (describe(source) !== describe(target)) {
+    details.push(`references: ${describe(target)} → ${describe(source)}`)
+  }
+  if ((source.onUpdate ?? 'NO ACTION') !== (target.onUpdate ?? 'NO ACTION')) {
+    details.push(`on update: ${target.onUpdate ?? 'NO ACTION'} → ${source.onUpdate ?? 'NO ACTION'}`)
+  }
+  if ((source.onDelete ?? 'NO ACTION') !== (target.onDelete ?? 'NO ACTION')) {
+    details.push(`on delete: ${target.onDelete ?? 'NO ACTION'} → ${source.onDelete ?? 'NO ACTION'}`)
+  }
+  return details
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Normalizes a view or trigger definition for comparison: whitespace, case, MySQL definer
+ * clauses and database/schema qualifiers differ between servers without changing meaning.
+ */
+const normalizeDefinition = (definition: string, qualifiers: (string | undefined)[]): string => {
+  let normalized = definition
+    .replace(/\s+ALGORITHM\s*=\s*\w+/gi, '')
+    .replace(/\s+DEFINER\s*=\s*\S+/gi, '')
+    .replace(/\s+SQL\s+SECURITY\s+\w+/gi, '')
+  for (const qualifier of qualifiers) {
+    if (!qualifier) continue
+    const name = escapeRegExp(qualifier)
+    normalized = normalized.replace(new RegExp(`(\`${name}\`|"${name}"|\\b${name})\\.`, 'g'), '')
+  }
+  return normalized.replace(/\s+/g, ' ').replace(/;\s*$/, '').trim().toLowerCase()
+}
+
+const BARE_IDENTIFIER = /^[a-z_][a-z0-9_]*$/
+
+/**
+ * Points a source view or trigger definition at the target: database/schema qualifiers
+ * are renamed in the quoting style they were written in, and the MySQL definer, an
+ * account that may not exist on the target, is dropped. Returns null when the source
+ * name still appears afterwards, e.g. inside a string, or a renamed qualifier would be
+ * ambiguous, since the rewritten definition could then still touch the source.
+ */
+const retargetDefinition = (definition: string, qualifiers: [string | undefined, string | undefined][]): string | null => {
+  const renames = qualifiers.filter(([from, to]) => from && from !== to)
+  // A target name that is also a source name would be renamed twice
+  if (renames.some(([, to]) => renames.some(([from]) => from === to))) {
+    return null
+  }
+
+  let retargeted = definition.replace(/\s+DEFINER\s*=\s*\S+/gi, '')
+  for (const [from, to] of renames) {
+    if (!from) continue
+    const name = escapeRegExp(from)
+    let safe = true
+    retargeted = retargeted.replace(new RegExp(`(\`${name}\`|"${name}"|\\b${name})\\.`, 'g'), (match) => {
+      if (!to) return ''
+      if (match.startsWith('`')) return `\`${to.replace(/`/g, '``')}\`.`
+      if (match.startsWith('"')) return `"${to.replace(/"/g, '""')}".`
+      if (!BARE_IDENTIFIER.test(to)) safe = false
+      return `${to}.`
+    })
+    if (!safe || new RegExp(`\`${name}\`|"${name}"|\\b${name}\\b`).test(retargeted)) {
+      return null
+    }
+  }
+  return retargeted
+}
+
+const diffItems = <T extends { name: string }>(
+  sourceItems: T[],
+  targetItems: T[],
+  describe: (source: T, target: T) => string[]
+): ItemDiff<T> => {
+  const targetByName = new Map(targetItems.map((item) => [item.name, item]))
+  const sourceNames = new Set(sourceItems.map((item) => item.name))
+  const diff: ItemDiff<T> = { added: [], removed: [], changed: [] }
+
+  for (const source of sourceItems) {
+    const target = targetByName.get(source.name)
+    if (!target) {
+      diff.added.push(source)
+      continue
+    }
+    const details = describe(source, target)
+    if (details.length > 0) diff.changed.push({ source, target, details })
+  }
+  diff.removed = targetItems.filter((item) => !sourceNames.has(item.name))
+  return diff
+}
+
+const hasItemChanges = <T>(diff: ItemDiff<T>): boolean =>
+  diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0
+
+const emptyItemDiff = <T>(): ItemDiff<T> => ({ added: [], removed: [], changed: [] })
+
+const computeDiff = (source: SchemaSnapshot, target: SchemaSnapshot): SchemaDiff => {
+  const targetTables = new Map(target.tables.map((t) => [t.name, t]))
+  const sourceTableNames = new Set(source.tables.map((t) => t.name))
+  const tables: TableDiff[] = []
+
+  for (const sourceTable of source.tables) {
+    const targetTable = targetTables.get(sourceTable.name)
+    if (!targetTable) {
+      tables.push({
+        name: sourceTable.name,
+        status: SchemaDiffStatus.Added,
+        source: sourceTable,
+        columns: emptyItemDiff(),
+        indexes: emptyItemDiff(),
+        foreignKeys: emptyItemDiff()
+      })
+      continue
+    }
+    const tableDiff: TableDiff = {
+      name: sourceTable.name,
+      status: SchemaDiffStatus.Changed,
+      source: sourceTable,
+      target: targetTable,
+      columns: diffItems(sourceTable.columns, targetTable.columns, describeColumnChanges),
+      indexes: diffItems(sourceTable.indexes, targetTable.indexes, describeIndexChanges),
+      foreignKeys: diffItems(sourceTable.foreignKeys, targetTable.foreignKeys, describeForeignKeyChanges)
+    }
+    if (hasItemChanges(tableDiff.columns) || hasItemChanges(tableDiff.indexes) || hasItemChanges(tableDiff.foreignKeys)) {
+      tables.push(tableDiff)
+    }
+  }
+
+  for (const targetTable of target.tables) {
+    if (sourceTableNames.has(targetTable.name)) continue
+    tables.push({
+      name: targetTable.name,
+      status: SchemaDiffStatus.Removed,
+      target: targetTable,
+      columns: emptyItemDiff(),
+      indexes: emptyItemDiff(),
+      foreignKeys: emptyItemDiff()
+    })
+  }
+  tables.sort((a, b) => a.name.localeCompare(b.name))
+
+  const describeDefinition = (qualifiers: [string | undefined, string | undefined][]) =>
+    (sourceItem: DefinitionSnapshot, targetItem: DefinitionSnapshot): string[] => {
+      const sourceDef = normalizeDefinition(sourceItem.definition, qualifiers.map(([s]) => s))
+      const targetDef = normalizeDefinition(targetItem.definition, qualifiers.map(([, t]) => t))
+      return sourceDef === targetDef ? [] : ['definition changed']
+    }
+  const describeObject = describeDefinition([
+    [source.database, target.database],
+    [source.schema, target.schema]
+  ])
+
+  return {
+    tables,
+    views: diffItems(source.views, target.views, describeObject),
+    triggers: diffItems(source.triggers, target.triggers, describeObject)
+  }
+}
+
+const itemNodes = <T extends { name: string }>(kind: SchemaObjectKind, diff: ItemDiff<T>): SchemaDiffNode[] => [
+  ...diff.added.map((item) => ({ kind, name: item.name, status: SchemaDiffStatus.Added })),
+  ...diff.removed.map((item) => ({ kind, name: item.name, status: SchemaDiffStatus.Removed })),
+  ...diff.changed.map((item) => ({ kind, name: item.source.name, status: SchemaDiffStatus.Changed, details: item.details }))
+]
+
+const toDiffNodes = (diff: SchemaDiff): SchemaDiffNode[] => [
+  ...diff.tables.map((table) => {
+    const node: SchemaDiffNode = { kind: SchemaObjectKind.Table, name: table.name, status: table.status }
+    if (table.status === SchemaDiffStatus.Changed) {
+      node.children = [
+        ...itemNodes(SchemaObjectKind.Column, table.columns),
+        ...itemNodes(SchemaObjectKind.Index, table.indexes),
+        ...itemNodes(SchemaObjectKind.ForeignKey, table.foreignKeys)
+      ]
+    }
+    return node
+  }),
+  ...itemNodes(SchemaObjectKind.View, diff.views),
+  ...itemNodes(SchemaObjectKind.Trigger, diff.triggers)
+]
+
+/**
+ * Introspected defaults are SQL expressions, while the column builders expect a literal.
+ * Quoted literals and numbers are unwrapped; anything else (now(), nextval(...)) is left
+ * for manual review and reported as `expression`.
+ */
+const toLiteralDefault = (value: unknown): { literal?: string | number | null; expression?: string } => {
+  if (value === null || value === undefined) return { literal: null }
+  if (typeof value === 'number') return { literal: value }
+  const text = String(value).trim()
+  if (/^null$/i.test(text)) return { literal: null }
+  const quoted = /^'((?:[^']|'')*)'(?:::[\w\s".[\]]+)?$/.exec(text)
+  if (quoted) return { literal: quoted[1].replace(/''/g, "'") }
+  const numeric = /^\(?(-?\d+(?:\.\d+)?)\)?(?:::[\w\s".[\]]+)?$/.exec(text)
+  if (numeric) return { literal: Number(numeric[1]) }
+  if (/[()]/.test(text) || /^(CURRENT_TIMESTAMP|CURRENT_DATE|CURRENT_TIME|LOCALTIMESTAMP|LOCALTIME)$/i.test(text)) {
+    return { expression: text }
+  }
+  return { literal: text }
+}
+
+const toColumnDefinition = (col: Column): { definition: ColumnDefinition; expression?: string } => {
+  const { literal, expression } = col.autoIncrement ? { literal: undefined, expression: undefined } : toLiteralDefault(col.defaultValue)
+  return {
+    definition: {
+      name: col.name,
+      type: col.type,
+      length: col.length ?? undefined,
+      precision: col.precision ?? undefined,
+      scale: col.scale ?? undefined,
+      nullable: col.nullable,
+      defaultValue: literal,
+      primaryKey: col.primaryKey,
+      autoIncrement: col.autoIncrement,
+      // Uniqueness is carried by the unique index, which the index diff creates
+      unique: false,
+      comment: col.comment ?? undefined
+    },
+    expression
+  }
+}
+
+type EmitStatement = (build: () => string | string[]) => void
+type EmitNote = (text: string) => void
+
+// Builder errors become comments so one unsupported change does not hide the rest
+const renderSection = (title: string, build: (emit: EmitStatement, note: EmitNote) => void): string | null => {
+  const lines: string[] = []
+  const emit: EmitStatement = (buildStatements) => {
+    try {
+      const statements = buildStatements()
+      for (const statement of Array.isArray(statements) ? statements : [statements]) {
+        lines.push(`${statement.trim().replace(/;\s*$/, '')};`)
+      }
+    } catch (error) {
+      lines.push(`-- Skipped: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  const note: EmitNote = (text) => lines.push(`-- ${text}`)
+  build(emit, note)
+  return lines.length > 0 ? [`-- ${title}`, ...lines].join('\n') : null
+}
+
+// SQLite names the indexes behind UNIQUE constraints itself; they cannot be created or dropped
+const isImplicitIndex = (index: Index): boolean => index.name.startsWith('sqlite_autoindex_')
+
+/**
+ * Orders the changes so dependencies are released before they are dropped and exist before
+ * they are referenced: triggers, views, foreign keys and indexes go first, tables and
+ * columns change next, then indexes, foreign keys, views and triggers are recreated.
+ */
+const buildMigrationScript = (
+  sql: SchemaScriptBuilder,
+  diff: SchemaDiff,
+  source: SchemaSnapshot,
+  target: SchemaSnapshot
+): string => {
+  const changedTables = diff.tables.filter((t) => t.status === SchemaDiffStatus.Changed)
+  const addedTables = diff.tables.filter((t) => t.status === SchemaDiffStatus.Added)
+  const removedTables = diff.tables.filter((t) => t.status === SchemaDiffStatus.Removed)
+  const removedTableNames = new Set(removedTables.map((t) => t.name))
+
+  const reviewDefault = (note: EmitNote, table: string, column: string, expression?: string) => {
+    if (expression) note(`Review default for "${table}"."${column}": ${expression}`)
+  }
+
+  const qualifiers: [string | undefined, string | undefined][] = [
+    [source.database, target.database],
+    [source.schema, target.schema]
+  ]
+  const emitDefinition = (emit: EmitStatement, note: EmitNote, kind: string, item: DefinitionSnapshot) => {
+    const definition = retargetDefinition(item.definition, qualifiers)
+    if (definition === null) {
+      note(`Review ${kind} "${item.name}": its definition refers to the source by name and was not recreated`)
+      return
+    }
+    emit(() => definition)
+  }
+
+  const sections = [
+    renderSection('Drop triggers', (emit) => {
+      for (const trigger of [...diff.triggers.removed, ...diff.triggers.changed.map((c) => c.target)]) {
+        emit(() => sql.buildDropTriggerSQL({ triggerName: trigger.name, table: trigger.table, schema: target.schema }))
+      }
+    }),
+
+    renderSection('Drop views', (emit) => {
+      for (const view of [...diff.views.removed, ...diff.views.changed.map((c) => c.target)]) {
+        emit(() => sql.buildDropViewSQL({ viewName: view.name }))
+      }
+    }),
+
+    renderSection('Drop foreign keys', (emit) => {
+      for (const table of changedTables) {
+        for (const fk of [...table.foreignKeys.removed, ...table.foreignKeys.changed.map((c) => c.target)]) {
+          emit(() => sql.buildDropForeignKeySQL({ table: table.name, constraintName: fk.name }))
+        }
+      }
+      // Keys between two dropped tables would otherwise block the DROP TABLE order
+      for (const table of removedTables) {
+        for (const fk of table.target!.foreignKeys) {
+          if (removedTableNames.has(fk.referencedTable) && fk.referencedTable !== table.name) {
+            emit(() => sql.buildDropForeignKeySQL({ table: table.name, constraintName: fk.name }))
+          }
+        }
+      }
+    }),
+
+    renderSection('Drop indexes', (emit, note) => {
+      for (const table of changedTables) {
+        for (const index of [...table.indexes.removed, ...table.indexes.changed.map((c) => c.target)]) {
+          if (index.primary || isImplicitIndex(index)) {
+            note(`Index "${index.name}" on "${table.name}" belongs to a key constraint and must be changed manually`)
+            continue
+          }
+          emit(() => sql.buildDropIndexSQL({ table: table.name, indexName: index.name }))
+        }
+      }
+    }),
+
+    renderSection('Drop tables', (emit) => {
+      for (const table of removedTables) {
+        emit(() => sql.buildDropTableSQL({ table: table.name }))
+      }
+    }),
+
+    renderSection('Create tables', (emit, note) => {
+      for (const table of addedTables) {
+        const columns = table.source!.columns.map(toColumnDefinition)
+        for (const { definition, expression } of columns) {
+          reviewDefault(note, table.name, definition.name, expression)
+        }
+        emit(() => sql.buildCreateTableSQL({
+          table: { name: table.name, columns: columns.map((c) => c.definition) },
+          schema: target.schema
+        }))
+      }
+    }),
+
+    renderSection('Alter columns', (emit, note) => {
+      for (const table of changedTables) {
+        for (const column of table.columns.added) {
+          const { definition, expression } = toColumnDefinition(column)
+          reviewDefault(note, table.name, column.name, expression)
+          emit(() => sql.buildAddColumnSQL({ table: table.name, column: definition }))
+        }
+        for (const change of table.columns.changed) {
+          const { definition, expression } = toColumnDefinition(change.source)
+          reviewDefault(note, table.name, change.source.name, expression)
+          emit(() => sql.buildModifyColumnSQL({ table: table.name, oldName: change.target.name, newDefinition: definition }))
+        }
+        for (const column of table.columns.removed) {
+          emit(() => sql.buildDropColumnSQL({ table: table.name, columnName: column.name }))
+        }
+      }
+    }),
+
+    renderSection('Create indexes', (emit, note) => {
+      for (const table of diff.tables) {
+        const isNewTable = table.status === SchemaDiffStatus.Added
+        const indexes = isNewTable
+          ? table.source!.indexes
+          : [...table.indexes.added, ...table.indexes.changed.map((c) => c.source)]
+        for (const index of indexes) {
+          // New tables get their primary key from CREATE TABLE
+          if (index.primary && isNewTable) continue
+          if (index.primary || isImplicitIndex(index)) {
+            note(`Index "${index.name}" on "${table.name}" belongs to a key constraint and must be changed manually`)
+            continue
+          }
+          emit(() => sql.buildCreateIndexSQL({
+            table: table.name,
+            index: { name: index.name, columns: index.columns, unique: index.unique, type: index.type },
+            schema: target.schema
+          }))
+        }
+      }
+    }),
+
+    renderSection('Add foreign keys', (emit) => {
+      for (const table of diff.tables) {
+        const foreignKeys = table.status === SchemaDiffStatus.Added
+          ? table.source!.foreignKeys
+          : [...table.foreignKeys.added, ...table.foreignKeys.changed.map((c) => c.source)]
+        for (const fk of foreignKeys) {
+          emit(() => sql.buildAddForeignKeySQL({ table: table.name, foreignKey: { ...fk, referencedSchema: target.schema } }))
+        }
+      }
+    }),
+
+    // Views and triggers have no structured builder; the source definition is replayed on the target
+    renderSection('Create views', (emit, note) => {
+      for (const view of [...diff.views.added, ...diff.views.changed.map((c) => c.source)]) {
+        emitDefinition(emit, note, 'view', view)
+      }
+    }),
+
+    renderSection('Create triggers', (emit, note) => {
+      for (const trigger of [...diff.triggers.added, ...diff.triggers.changed.map((c) => c.source)]) {
+        emitDefinition(emit, note, 'trigger', trigger)
+      }
+    })
+  ]
+
+  return sections.filter((section): section is string => section !== null).join('\n\n')
+}
+
+/**
+ * Compares two snapshots and renders the script that brings the target in line with the
+ * source, using the target driver's DDL builders.
+ */
+export const compareSchemas = (
+  source: SchemaSnapshot,
+  target: SchemaSnapshot,
+  builder: SchemaScriptBuilder
+): SchemaCompareResult => {
+  const diff = computeDiff(source, target)
+  return {
+    differences: toDiffNodes(diff),
+    script: buildMigrationScript(builder, diff, source, target)
+  }
+}
@@ -0,0 +1,90 @@
+import type { DatabaseDriver } from '../db/base'
+import { DatabaseType, type SessionSettings } from '../types'
+import { parseSqlStatements } from '../utils/sql'
+
+export class SessionSetupError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionSetupError'
+  }
+}
+
+// Engines whose sessions accept the init script
+export const SESSION_SCRIPT_TYPES: DatabaseType[] = [
+  DatabaseType.SQLite,
+  DatabaseType.MySQL,
+  DatabaseType.MariaDB,
+  DatabaseType.PostgreSQL
+]
+
+// Engines that also take timezone and statement timeout
+export const SESSION_SETTINGS_TYPES: DatabaseType[] = [DatabaseType.MySQL, DatabaseType.MariaDB, DatabaseType.PostgreSQL]
+
+export const hasSessionSettings = (settings: SessionSettings | null | undefined): settings is SessionSettings =>
+  !!settings && !!(settings.timezone?.trim() || settings.statementTimeout || settings.applicationName?.trim() || settings.initScript?.trim())
+
+// MySQL treats backslashes in string literals as escapes unless NO_BACKSLASH_ESCAPES is set
+const quoteLiteral = (type: DatabaseType, value: string): string => {
+  const escaped = type === DatabaseType.PostgreSQL ? value : value.replace(/\\/g, '\\\\')
+  return `'${escaped.replace(/'/g, "''")}'`
+}
+
+const structuredStatements = (type: DatabaseType, settings: SessionSettings): string[] => {
+  const statements: string[] = []
+  const timezone = settings.timezone?.trim()
+  const timeout = settings.statementTimeout && settings.statementTimeout > 0 ? Math.round(settings.statementTimeout) : 0
+  const applicationName = settings.applicationName?.trim()
+
+  switch (type) {
+    case DatabaseType.PostgreSQL:
+      if (timezone) statements.push(`SET TIME ZONE ${quoteLiteral(type, timezone)}`)
+      if (timeout) statements.push(`SET statement_timeout = ${timeout}`)
+      if (applicationName) statements.push(`SET application_name = ${quoteLiteral(type, applicationName)}`)
+      break
+    case DatabaseType.MySQL:
+      if (timezone) statements.push(`SET time_zone = ${quoteLiteral(type, timezone)}`)
+      // Only limits SELECT statements; the application name is sent as a connect attribute instead
+      if (timeout) statements.push(`SET SESSION max_execution_time = ${timeout}`)
+      break
+    case DatabaseType.MariaDB:
+      if (timezone) statements.push(`SET time_zone = ${quoteLiteral(type, timezone)}`)
+      if (timeout) statements.push(`SET SESSION max_statement_time = ${timeout / 1000}`)
+      break
+  }
+
+  return statements
+}
+
+/**
+ * Returns the statements that bring a new session to the connection's defaults:
+ * the structured settings first, then the init script split into statements.
+ * Engines without sessions (MongoDB, Redis, ClickHouse over HTTP) get none.
+ */
+export const buildSessionStatements = (type: DatabaseType, settings: SessionSettings | null | undefined): string[] => {
+  if (!settings || !SESSION_SCRIPT_TYPES.includes(type)) return []
+
+  const statements = structuredStatements(type, settings)
+  if (settings.initScript?.trim()) {
+    // Comment-only chunks are not statements
+    const script = parseSqlStatements(settings.initScript).filter((statement) => statement.tokens.length > 0)
+    statements.push(...script.map((statement) => statement.text))
+  }
+  return statements
+}
+
+/**
+ * Runs the session statements on a freshly connected driver. Stops at the first
+ * failing statement so a session is never used half set up.
+ */
+export const applySessionSettings = async (
+  driver: DatabaseDriver,
+  type: DatabaseType,
+  settings: SessionSettings | null | undefined
+): Promise<void> => {
+  for (const sql of buildSessionStatements(type, settings)) {
+    const result = await driver.execute(sql)
+    if (result.error) {
+      throw new SessionSetupError(`Session setup failed at "${sql}": ${result.error}`)
+    }
+  }
+}
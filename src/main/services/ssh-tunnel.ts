@@ -1,19 +1,83 @@
-import { Client, ConnectConfig } from 'ssh2'
+import { Client, ConnectConfig, ClientChannel } from 'ssh2'
 import * as net from 'net'
 import { logger } from '../utils/logger'
-import type { SSHConfig } from '../types'
+import { verifyHostKey } from './knownHosts'
+import type { SSHConfig, SSHHost } from '../types'
 
 interface TunnelInfo {
-  client: Client
+  // One client per hop; the last one forwards to the database
+  clients: Client[]
   server: net.Server
   localPort: number
 }
 
+// How long a hop may take to become ready, not counting the host key prompt
+const READY_TIMEOUT = 30000
+
+interface HostKeyCallbacks {
+  onVerifying: () => void
+  onVerified: () => void
+  onHostKeyError: (error: Error) => void
+}
+
+/**
+ * Builds the ssh2 connect options for one hop. Every host key is checked against the
+ * known hosts; verification failures are reported through onHostKeyError because ssh2
+ * only surfaces a generic handshake error. ssh2's own ready timeout is disabled since it
+ * would keep running while the user answers the host key prompt.
+ */
+const buildConnectConfig = (
+  hop: SSHHost,
+  sock: ClientChannel | undefined,
+  callbacks: HostKeyCallbacks
+): ConnectConfig => {
+  const connectConfig: ConnectConfig = {
+    host: hop.host,
+    port: hop.port,
+    username: hop.username,
+    readyTimeout: 0,
+    hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+      callbacks.onVerifying()
+      verifyHostKey(hop.host, hop.port, key).then(
+        () => {
+          callbacks.onVerified()
+          verify(true)
+        },
+        (err: Error) => {
+          callbacks.onHostKeyError(err)
+          verify(false)
+        }
+      )
+    }
+  }
+  if (sock) {
+    connectConfig.sock = sock
+  }
+
+  if (hop.authMethod === 'password') {
+    connectConfig.password = hop.password
+  } else if (hop.authMethod === 'privateKey') {
+    connectConfig.privateKey = hop.privateKey
+    if (hop.privateKeyPassphrase) {
+      connectConfig.passphrase = hop.privateKeyPassphrase
+    }
+  } else if (hop.authMethod === 'agent') {
+    const agent = process.env.SSH_AUTH_SOCK || (process.platform === 'win32' ? 'pageant' : undefined)
+    if (!agent) {
+      throw new Error('SSH agent authentication needs a running ssh-agent, but SSH_AUTH_SOCK is not set')
+    }
+    connectConfig.agent = agent
+  }
+
+  return connectConfig
+}
+
 class SSHTunnelManager {
   private tunnels: Map<string, TunnelInfo> = new Map()
 
   /**
-   * Create an SSH tunnel to the database server
+   * Create an SSH tunnel to the database server, passing through the configured jump
+   * hosts in order. Each hop connects over a forwardOut stream of the previous one.
    * Returns the local port to connect to
    */
   async createTunnel(
@@ -28,25 +92,39 @@ class SSHTunnelManager {
       return existing.localPort
     }
 
+    const hops: SSHHost[] = [...(sshConfig.jumpHosts ?? []), sshConfig]
+
     return new Promise((resolve, reject) => {
-      const client = new Client()
+      const clients: Client[] = []
       let serverReady = false
       let sshReady = false
       let localPort = 0
       let settled = false
+      let hostKeyError: Error | null = null
 
       const tryResolve = () => {
         if (settled) return
         if (serverReady && sshReady) {
           settled = true
-          logger.info(`SSH tunnel ready: localhost:${localPort} -> ${remoteHost}:${remotePort}`)
-          this.tunnels.set(connectionId, { client, server, localPort })
+          logger.info(`SSH tunnel ready: localhost:${localPort} -> ${remoteHost}:${remotePort}`, { hops: hops.length })
+          this.tunnels.set(connectionId, { clients, server, localPort })
           resolve(localPort)
         }
       }
 
+      const fail = (err: Error) => {
+        if (!settled) {
+          settled = true
+          reject(err)
+          // Nothing is registered yet, so release what was opened so far
+          server.close()
+          for (const client of clients) client.end()
+        }
+        this.closeTunnel(connectionId)
+      }
+
       const server = net.createServer((socket) => {
-        client.forwardOut(
+        clients[clients.length - 1].forwardOut(
           '127.0.0.1',
           socket.localPort || 0,
           remoteHost,
@@ -65,8 +143,7 @@ class SSHTunnelManager {
 
       server.on('error', (err) => {
         logger.error('SSH tunnel server error:', err)
-        if (!settled) { settled = true; reject(err) }
-        this.closeTunnel(connectionId)
+        fail(err)
       })
 
       server.listen(0, '127.0.0.1', () => {
@@ -75,55 +152,89 @@ class SSHTunnelManager {
         tryResolve()
       })
 
-      // Build SSH connection config
-      const connectConfig: ConnectConfig = {
-        host: sshConfig.host,
-        port: sshConfig.port,
-        username: sshConfig.username,
-        readyTimeout: 30000
-      }
+      const connectHop = (index: number, sock?: ClientChannel) => {
+        const hop = hops[index]
+        const isLast = index === hops.length - 1
 
-      if (sshConfig.authMethod === 'password') {
-        connectConfig.password = sshConfig.password
-      } else if (sshConfig.authMethod === 'privateKey') {
-        connectConfig.privateKey = sshConfig.privateKey
-        if (sshConfig.privateKeyPassphrase) {
-          connectConfig.passphrase = sshConfig.privateKeyPassphrase
+        // Paused while the host key is verified, which may wait on the user
+        let readyTimer: NodeJS.Timeout | null = null
+        const startReadyTimer = () => {
+          readyTimer = setTimeout(() => {
+            fail(new Error(`Timed out while waiting for the SSH handshake with ${hop.host}`))
+          }, READY_TIMEOUT)
+        }
+        const stopReadyTimer = () => {
+          if (readyTimer) clearTimeout(readyTimer)
+          readyTimer = null
         }
-      }
 
-      logger.info('SSH connecting', {
-        host: connectConfig.host,
-        port: connectConfig.port,
-        username: connectConfig.username,
-        authMethod: sshConfig.authMethod,
-        hasPassword: !!connectConfig.password,
-        hasPrivateKey: !!connectConfig.privateKey,
-        privateKeyPrefix: connectConfig.privateKey ? String(connectConfig.privateKey).substring(0, 40) : null
-      })
+        let connectConfig: ConnectConfig
+        try {
+          connectConfig = buildConnectConfig(hop, sock, {
+            onVerifying: stopReadyTimer,
+            onVerified: startReadyTimer,
+            onHostKeyError: (err) => { hostKeyError = err }
+          })
+        } catch (err) {
+          fail(err as Error)
+          return
+        }
 
-      client.on('ready', () => {
-        logger.info('SSH connection established')
-        sshReady = true
-        tryResolve()
-      })
+        const client = new Client()
+        clients.push(client)
 
-      client.on('error', (err) => {
-        logger.error('SSH connection error:', JSON.stringify(err))
-        if (!settled) { settled = true; reject(err) }
-        this.closeTunnel(connectionId)
-      })
+        logger.info('SSH connecting', {
+          host: connectConfig.host,
+          port: connectConfig.port,
+          username: connectConfig.username,
+          authMethod: hop.authMethod,
+          hop: `${index + 1}/${hops.length}`,
+          hasPassword: !!connectConfig.password,
+          hasPrivateKey: !!connectConfig.privateKey,
+          privateKeyPrefix: connectConfig.privateKey ? String(connectConfig.privateKey).substring(0, 40) : null
+        })
 
-      client.on('close', () => {
-        logger.info('SSH connection closed')
-        this.closeTunnel(connectionId)
-      })
+        client.on('ready', () => {
+          stopReadyTimer()
+          logger.info('SSH connection established', { host: hop.host })
+          if (isLast) {
+            sshReady = true
+            tryResolve()
+            return
+          }
 
-      client.on('handshake', (negotiated) => {
-        logger.info('SSH handshake completed', negotiated)
-      })
+          const next = hops[index + 1]
+          client.forwardOut('127.0.0.1', 0, next.host, next.port, (err, stream) => {
+            if (err) {
+              logger.error('SSH jump host forward error:', err)
+              fail(new Error(`Jump host ${hop.host} could not reach ${next.host}:${next.port}: ${err.message}`))
+              return
+            }
+            connectHop(index + 1, stream)
+          })
+        })
+
+        client.on('error', (err) => {
+          stopReadyTimer()
+          logger.error('SSH connection error:', JSON.stringify(err))
+          fail(hostKeyError ?? err)
+        })
+
+        client.on('close', () => {
+          stopReadyTimer()
+          logger.info('SSH connection closed')
+          this.closeTunnel(connectionId)
+        })
+
+        client.on('handshake', (negotiated) => {
+          logger.info('SSH handshake completed', negotiated)
+        })
 
-      client.connect(connectConfig)
+        startReadyTimer()
+        client.connect(connectConfig)
+      }
+
+      connectHop(0)
     })
   }
 
@@ -133,9 +244,11 @@ class SSHTunnelManager {
   closeTunnel(connectionId: string): void {
     const tunnel = this.tunnels.get(connectionId)
     if (tunnel) {
-      tunnel.server.close()
-      tunnel.client.end()
       this.tunnels.delete(connectionId)
+      tunnel.server.close()
+      for (const client of [...tunnel.clients].reverse()) {
+        client.end()
+      }
       logger.info(`SSH tunnel closed for connection: ${connectionId}`)
     }
   }
@@ -0,0 +1,395 @@
+import { parseSqlStatements, SqlTokenType, type SqlToken } from '../utils/sql'
+import { DatabaseType } from '../types'
+
+export enum StatementType {
+  Select = 'select',
+  Insert = 'insert',
+  Update = 'update',
+  Delete = 'delete',
+  Truncate = 'truncate',
+  Create = 'create',
+  Alter = 'alter',
+  Drop = 'drop',
+  Grant = 'grant',
+  // SET, USE and transaction control: change the session, not the data
+  Session = 'session',
+  Other = 'other'
+}
+
+export interface ClassifiedStatement {
+  type: StatementType
+  // DROP, TRUNCATE, DELETE/UPDATE without a filter and the like
+  destructive: boolean
+  // What the statement does in the user's words, e.g. "WITH ... DELETE" or "deleteMany"
+  keyword: string
+  // The statement itself, or a description of the operation that will run it
+  sql: string
+}
+
+type Classification = Omit<ClassifiedStatement, 'sql'>
+
+const SIMPLE_KEYWORDS: Record<string, StatementType> = {
+  VALUES: StatementType.Select,
+  TABLE: StatementType.Select,
+  FROM: StatementType.Select,
+  SHOW: StatementType.Select,
+  DESCRIBE: StatementType.Select,
+  DESC: StatementType.Select,
+  EXISTS: StatementType.Select,
+  INSERT: StatementType.Insert,
+  REPLACE: StatementType.Insert,
+  UPSERT: StatementType.Insert,
+  MERGE: StatementType.Update,
+  CREATE: StatementType.Create,
+  RENAME: StatementType.Alter,
+  COMMENT: StatementType.Alter,
+  GRANT: StatementType.Grant,
+  REVOKE: StatementType.Grant,
+  USE: StatementType.Session,
+  BEGIN: StatementType.Session,
+  COMMIT: StatementType.Session,
+  ROLLBACK: StatementType.Session,
+  SAVEPOINT: StatementType.Session,
+  RELEASE: StatementType.Session,
+  END: StatementType.Session,
+  ABORT: StatementType.Session
+}
+
+// Keywords that start the statement a WITH clause or EXPLAIN applies to
+const STATEMENT_KEYWORDS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'VALUES', 'TABLE', 'REPLACE', 'WITH'])
+
+const DATA_MODIFYING_KEYWORDS = new Set(['INSERT', 'UPDATE', 'DELETE', 'MERGE'])
+
+const word = (token: SqlToken | undefined): string | undefined =>
+  token?.type === SqlTokenType.Word ? token.text.toUpperCase() : undefined
+
+const isSymbol = (token: SqlToken | undefined, symbol: string): boolean =>
+  token?.type === SqlTokenType.Symbol && token.text === symbol
+
+/**
+ * Calls visit with each token and its parenthesis depth relative to the start.
+ * Stops when visit returns true or the depth drops below zero.
+ */
+const walk = (tokens: SqlToken[], visit: (token: SqlToken, index: number, depth: number) => boolean | void): void => {
+  let depth = 0
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (isSymbol(token, ')')) {
+      depth--
+      if (depth < 0) return
+    }
+    if (visit(token, i, depth)) return
+    if (isSymbol(token, '(')) depth++
+  }
+}
+
+const findTopLevelWord = (tokens: SqlToken[], match: (keyword: string) => boolean, from = 0): number => {
+  let found = -1
+  walk(tokens.slice(from), (token, index, depth) => {
+    const keyword = word(token)
+    if (depth === 0 && keyword && match(keyword)) {
+      found = from + index
+      return true
+    }
+    return false
+  })
+  return found
+}
+
+const hasTopLevelWord = (tokens: SqlToken[], keyword: string): boolean =>
+  findTopLevelWord(tokens, (w) => w === keyword) !== -1
+
+const classification = (type: StatementType, keyword: string, destructive = false): Classification => ({
+  type,
+  destructive: destructive || type === StatementType.Drop || type === StatementType.Truncate,
+  keyword
+})
+
+// DELETE and UPDATE without WHERE touch every row
+const classifyFilteredWrite = (tokens: SqlToken[], type: StatementType, keyword: string): Classification =>
+  classification(type, keyword, !hasTopLevelWord(tokens, 'WHERE'))
+
+const classifySelect = (tokens: SqlToken[]): Classification => {
+  const into = findTopLevelWord(tokens, (w) => w === 'INTO')
+  if (into === -1) return classification(StatementType.Select, 'SELECT')
+
+  // MySQL writes OUTFILE/DUMPFILE on the server and INTO @var only sets a variable;
+  // everywhere else SELECT ... INTO creates a table
+  const target = word(tokens[into + 1])
+  if (target === 'OUTFILE' || target === 'DUMPFILE') {
+    return classification(StatementType.Other, `SELECT ... INTO ${target}`)
+  }
+  if (isSymbol(tokens[into + 1], '@')) return classification(StatementType.Select, 'SELECT')
+  return classification(StatementType.Create, 'SELECT ... INTO')
+}
+
+const classifyWith = (tokens: SqlToken[]): Classification => {
+  const main = findTopLevelWord(tokens, (w) => STATEMENT_KEYWORDS.has(w) && w !== 'WITH', 1)
+  const result = main === -1
+    ? classification(StatementType.Select, 'WITH')
+    : classifyTokens(tokens.slice(main))
+
+  // PostgreSQL runs INSERT/UPDATE/DELETE inside a CTE even when the outer query is a SELECT
+  if (result.type === StatementType.Select) {
+    for (let i = 1; i < (main === -1 ? tokens.length : main); i++) {
+      if (isSymbol(tokens[i - 1], '(') && DATA_MODIFYING_KEYWORDS.has(word(tokens[i]) ?? '')) {
+        const body: SqlToken[] = []
+        walk(tokens.slice(i), (token) => {
+          body.push(token)
+        })
+        const inner = classifyTokens(body)
+        return { ...inner, keyword: `WITH ... ${inner.keyword}` }
+      }
+    }
+  }
+
+  return result
+}
+
+const classifyExplain = (tokens: SqlToken[]): Classification => {
+  const inner = findTopLevelWord(tokens, (w) => STATEMENT_KEYWORDS.has(w), 1)
+  const analyze = tokens.slice(1, inner === -1 ? tokens.length : inner).some((t) => word(t) === 'ANALYZE')
+
+  // EXPLAIN ANALYZE executes the statement it explains
+  if (analyze && inner !== -1) {
+    const result = classifyTokens(tokens.slice(inner))
+    return result.type === StatementType.Select
+      ? classification(StatementType.Select, 'EXPLAIN')
+      : { ...result, keyword: `EXPLAIN ANALYZE ${result.keyword}` }
+  }
+  return classification(StatementType.Select, 'EXPLAIN')
+}
+
+const classifyCopy = (tokens: SqlToken[]): Classification => {
+  const direction = findTopLevelWord(tokens, (w) => w === 'FROM' || w === 'TO', 1)
+  if (direction === -1) return classification(StatementType.Other, 'COPY')
+  if (word(tokens[direction]) === 'FROM') return classification(StatementType.Insert, 'COPY ... FROM')
+  // COPY ... TO STDOUT hands rows to the client; TO 'file' and TO PROGRAM write on the server
+  return word(tokens[direction + 1]) === 'STDOUT'
+    ? classification(StatementType.Select, 'COPY ... TO STDOUT')
+    : classification(StatementType.Other, 'COPY ... TO')
+}
+
+const classifyAlter = (tokens: SqlToken[]): Classification => {
+  // ClickHouse mutations: ALTER TABLE t DELETE WHERE ... / ALTER TABLE t UPDATE c = ... WHERE ...
+  // (ON DELETE / ON UPDATE of a foreign key is neither)
+  for (let i = 2; i < tokens.length; i++) {
+    if (word(tokens[i - 1]) === 'ON') continue
+    const keyword = word(tokens[i])
+    if (keyword === 'DELETE' && word(tokens[i + 1]) === 'WHERE') {
+      return classification(StatementType.Delete, 'ALTER ... DELETE')
+    }
+    if (keyword === 'UPDATE' && tokens[i + 1]?.type !== SqlTokenType.Symbol && isSymbol(tokens[i + 2], '=')) {
+      return classification(StatementType.Update, 'ALTER ... UPDATE')
+    }
+  }
+
+  // DROP COLUMN, DROP PARTITION and the like lose data; DROP DEFAULT or DROP NOT NULL do not
+  const drop = findTopLevelWord(tokens, (w) => w === 'DROP', 1)
+  const dropsData = drop !== -1 && !['DEFAULT', 'NOT', 'IDENTITY', 'EXPRESSION'].includes(word(tokens[drop + 1]) ?? '')
+  return classification(StatementType.Alter, 'ALTER', dropsData)
+}
+
+const classifySet = (tokens: SqlToken[]): Classification => {
+  const scope = word(tokens[1])
+  // Server-wide settings and passwords outlive the session
+  if (scope === 'GLOBAL' || scope === 'PERSIST' || scope === 'PERSIST_ONLY' || scope === 'PASSWORD') {
+    return classification(StatementType.Other, `SET ${scope}`)
+  }
+  return classification(StatementType.Session, 'SET')
+}
+
+const classifyTokens = (tokens: SqlToken[]): Classification => {
+  let start = 0
+  while (isSymbol(tokens[start], '(')) start++
+  const body = tokens.slice(start)
+  const keyword = word(body[0])
+
+  switch (keyword) {
+    case undefined:
+      return classification(StatementType.Other, body[0]?.text ?? '')
+    case 'SELECT':
+      return classifySelect(body)
+    case 'WITH':
+      return classifyWith(body)
+    case 'EXPLAIN':
+      return classifyExplain(body)
+    case 'UPDATE':
+      return classifyFilteredWrite(body, StatementType.Update, 'UPDATE')
+    case 'DELETE':
+      return classifyFilteredWrite(body, StatementType.Delete, 'DELETE')
+    case 'INSERT':
+      return classification(StatementType.Insert, hasTopLevelWord(body, 'SELECT') ? 'INSERT ... SELECT' : 'INSERT')
+    case 'TRUNCATE':
+      return classification(StatementType.Truncate, 'TRUNCATE')
+    case 'DROP':
+      return classification(StatementType.Drop, 'DROP')
+    case 'ALTER':
+      return classifyAlter(body)
+    case 'COPY':
+      return classifyCopy(body)
+    case 'SET':
+      return classifySet(body)
+    case 'START':
+      return word(body[1]) === 'TRANSACTION'
+        ? classification(StatementType.Session, 'START TRANSACTION')
+        : classification(StatementType.Other, 'START')
+    case 'LOAD':
+      // MySQL LOAD DATA / LOAD XML fill a table; other LOADs install extensions
+      return word(body[1]) === 'DATA' || word(body[1]) === 'XML'
+        ? classification(StatementType.Insert, `LOAD ${word(body[1])}`)
+        : classification(StatementType.Other, 'LOAD')
+    case 'PRAGMA':
+      // PRAGMA name = value changes the database file or connection
+      return body.some((t) => isSymbol(t, '='))
+        ? classification(StatementType.Other, 'PRAGMA')
+        : classification(StatementType.Select, 'PRAGMA')
+    default:
+      // CALL, EXEC, DO, VACUUM and anything unknown can do anything
+      return classification(SIMPLE_KEYWORDS[keyword] ?? StatementType.Other, keyword)
+  }
+}
+
+/**
+ * Classifies a single SQL statement from its tokens, looking past the leading keyword at
+ * data-modifying CTEs, SELECT ... INTO, COPY direction, EXPLAIN ANALYZE and the like.
+ */
+export const classifyStatement = (sql: string): ClassifiedStatement => {
+  const [statement] = parseSqlStatements(sql)
+  return { ...classifyTokens(statement?.tokens ?? []), sql }
+}
+
+const REDIS_READ_COMMANDS = new Set([
+  'GET', 'MGET', 'GETRANGE', 'STRLEN', 'EXISTS', 'TYPE', 'TTL', 'PTTL', 'EXPIRETIME', 'PEXPIRETIME',
+  'KEYS', 'SCAN', 'RANDOMKEY', 'DBSIZE', 'OBJECT', 'DUMP', 'TOUCH', 'MEMORY', 'LCS',
+  'HGET', 'HMGET', 'HGETALL', 'HKEYS', 'HVALS', 'HLEN', 'HEXISTS', 'HSTRLEN', 'HSCAN', 'HRANDFIELD',
+  'LRANGE', 'LLEN', 'LINDEX', 'LPOS',
+  'SMEMBERS', 'SISMEMBER', 'SMISMEMBER', 'SCARD', 'SRANDMEMBER', 'SSCAN', 'SINTER', 'SINTERCARD', 'SUNION', 'SDIFF',
+  'ZRANGE', 'ZRANGEBYSCORE', 'ZRANGEBYLEX', 'ZREVRANGE', 'ZREVRANGEBYSCORE', 'ZREVRANGEBYLEX', 'ZCARD', 'ZSCORE',
+  'ZMSCORE', 'ZRANK', 'ZREVRANK', 'ZCOUNT', 'ZLEXCOUNT', 'ZSCAN', 'ZRANDMEMBER', 'ZINTER', 'ZUNION', 'ZDIFF',
+  'XRANGE', 'XREVRANGE', 'XLEN', 'XREAD', 'XINFO', 'XPENDING',
+  'GETBIT', 'BITCOUNT', 'BITPOS', 'BITFIELD_RO', 'PFCOUNT',
+  'GEOPOS', 'GEODIST', 'GEOHASH', 'GEOSEARCH', 'GEORADIUS_RO', 'GEORADIUSBYMEMBER_RO',
+  'INFO', 'PING', 'ECHO', 'TIME', 'LASTSAVE', 'ROLE', 'COMMAND'
+])
+
+const REDIS_SESSION_COMMANDS = new Set(['SELECT', 'MULTI', 'EXEC', 'DISCARD', 'WATCH', 'UNWATCH', 'AUTH', 'HELLO'])
+
+const REDIS_FLUSH_COMMANDS = new Set(['FLUSHDB', 'FLUSHALL'])
+
+const REDIS_DELETE_COMMANDS = new Set([
+  'DEL', 'UNLINK', 'GETDEL', 'HDEL', 'LREM', 'LPOP', 'RPOP', 'BLPOP', 'BRPOP', 'LMPOP', 'BLMPOP', 'LTRIM',
+  'SREM', 'SPOP', 'ZREM', 'ZREMRANGEBYSCORE', 'ZREMRANGEBYRANK', 'ZREMRANGEBYLEX', 'ZPOPMIN', 'ZPOPMAX',
+  'BZPOPMIN', 'BZPOPMAX', 'ZMPOP', 'BZMPOP', 'XDEL', 'XTRIM'
+])
+
+const REDIS_WRITE_COMMANDS = new Set([
+  'SET', 'SETNX', 'SETEX', 'PSETEX', 'MSET', 'MSETNX', 'GETSET', 'GETEX', 'APPEND', 'SETRANGE',
+  'INCR', 'INCRBY', 'INCRBYFLOAT', 'DECR', 'DECRBY',
+  'HSET', 'HSETNX', 'HMSET', 'HINCRBY', 'HINCRBYFLOAT',
+  'LPUSH', 'RPUSH', 'LPUSHX', 'RPUSHX', 'LINSERT', 'LSET', 'LMOVE', 'BLMOVE', 'RPOPLPUSH', 'BRPOPLPUSH',
+  'SADD', 'SMOVE', 'SINTERSTORE', 'SUNIONSTORE', 'SDIFFSTORE',
+  'ZADD', 'ZINCRBY', 'ZUNIONSTORE', 'ZINTERSTORE', 'ZDIFFSTORE', 'ZRANGESTORE',
+  'XADD', 'XGROUP', 'XACK', 'XCLAIM', 'XAUTOCLAIM', 'XSETID',
+  'SETBIT', 'BITOP', 'BITFIELD', 'PFADD', 'PFMERGE', 'GEOADD',
+  'EXPIRE', 'PEXPIRE', 'EXPIREAT', 'PEXPIREAT', 'PERSIST', 'RENAME', 'RENAMENX', 'COPY', 'MOVE', 'RESTORE', 'SORT'
+])
+
+/**
+ * Classifies a Redis command line by its command name. Commands this does not know,
+ * such as EVAL, CONFIG SET or SHUTDOWN, are Other.
+ */
+export const classifyRedisCommand = (command: string): ClassifiedStatement => {
+  const [name = '', subcommand = ''] = command.trim().split(/\s+/).map((part) => part.toUpperCase())
+
+  let type = StatementType.Other
+  if (REDIS_READ_COMMANDS.has(name) || (name === 'CONFIG' && subcommand === 'GET')) type = StatementType.Select
+  else if (REDIS_SESSION_COMMANDS.has(name)) type = StatementType.Session
+  else if (REDIS_FLUSH_COMMANDS.has(name)) type = StatementType.Truncate
+  else if (REDIS_DELETE_COMMANDS.has(name)) type = StatementType.Delete
+  else if (REDIS_WRITE_COMMANDS.has(name)) type = StatementType.Update
+
+  return { ...classification(type, name), sql: command }
+}
+
+const MONGO_METHODS = new Map<string, StatementType>(Object.entries({
+  find: StatementType.Select,
+  findOne: StatementType.Select,
+  aggregate: StatementType.Select,
+  countDocuments: StatementType.Select,
+  estimatedDocumentCount: StatementType.Select,
+  distinct: StatementType.Select,
+  getIndexes: StatementType.Select,
+  insertOne: StatementType.Insert,
+  insertMany: StatementType.Insert,
+  updateOne: StatementType.Update,
+  updateMany: StatementType.Update,
+  replaceOne: StatementType.Update,
+  findOneAndUpdate: StatementType.Update,
+  findOneAndReplace: StatementType.Update,
+  bulkWrite: StatementType.Update,
+  deleteOne: StatementType.Delete,
+  deleteMany: StatementType.Delete,
+  findOneAndDelete: StatementType.Delete,
+  createIndex: StatementType.Create,
+  createIndexes: StatementType.Create,
+  dropIndex: StatementType.Drop,
+  dropIndexes: StatementType.Drop,
+  drop: StatementType.Drop,
+  renameCollection: StatementType.Alter
+}))
+
+const MONGO_DATABASE_READS = [/^db\.getCollectionNames\(\s*\)$/, /^db\.stats\(\s*\)$/]
+
+/**
+ * Classifies a MongoDB shell call of the form db.<collection>.<method>(...), the form the
+ * query editor runs. An aggregate with $out or $merge writes its result to a collection;
+ * deleteMany and updateMany with an empty filter touch every document.
+ */
+export const classifyMongoCommand = (command: string): ClassifiedStatement => {
+  const trimmed = command.trim()
+  if (MONGO_DATABASE_READS.some((pattern) => pattern.test(trimmed))) {
+    return { ...classification(StatementType.Select, trimmed.slice(3, trimmed.indexOf('('))), sql: command }
+  }
+
+  const match = trimmed.match(/^db\.([\w.-]+)\.(\w+)\(([\s\S]*)\)$/)
+  if (!match) return { ...classification(StatementType.Other, trimmed.split('(')[0]), sql: command }
+
+  const [, , method, args] = match
+  const stage = method === 'aggregate' ? args.match(/["']?\$(out|merge)["']?\s*:/)?.[1] : undefined
+  if (stage) {
+    return { ...classification(StatementType.Insert, `aggregate with $${stage}`), sql: command }
+  }
+
+  const type = MONGO_METHODS.get(method) ?? StatementType.Other
+  const unfiltered = (method === 'deleteMany' || method === 'updateMany') && /^\s*(\{\s*\}\s*)?(,|$)/.test(args)
+  return { ...classification(type, method, unfiltered), sql: command }
+}
+
+/**
+ * Splits a script the way the query editor runs it and classifies each statement with
+ * the rules of the database type. Statements that are only comments are left out.
+ */
+export const classifyStatements = (databaseType: DatabaseType, script: string): ClassifiedStatement[] => {
+  const statements = parseSqlStatements(script)
+
+  switch (databaseType) {
+    case DatabaseType.Redis:
+      return statements.map((statement) => classifyRedisCommand(statement.text))
+    case DatabaseType.MongoDB:
+      return statements.map((statement) => classifyMongoCommand(statement.text))
+    default:
+      return statements
+        .filter((statement) => statement.tokens.length > 0)
+        .map((statement) => ({ ...classifyTokens(statement.tokens), sql: statement.text }))
+  }
+}
+
+/**
+ * Whether the script is one statement that returns rows, the only kind drivers read
+ * through a cursor or stream to enforce a row limit.
+ */
+export const isSingleReadStatement = (databaseType: DatabaseType, sql: string): boolean => {
+  const statements = classifyStatements(databaseType, sql)
+  return statements.length === 1 && statements[0].type === StatementType.Select
+}
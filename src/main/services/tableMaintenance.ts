@@ -0,0 +1,321 @@
+import { BrowserWindow } from 'electron'
+import { randomUUID } from 'crypto'
+import { DatabaseType } from '../types'
+import { logger } from '../utils/logger'
+
+export enum MaintenanceOperation {
+  Vacuum = 'vacuum',
+  VacuumFull = 'vacuum-full',
+  VacuumAnalyze = 'vacuum-analyze',
+  Analyze = 'analyze',
+  Reindex = 'reindex',
+  Optimize = 'optimize',
+  Check = 'check',
+  Repair = 'repair'
+}
+
+export enum TableHealthKind {
+  PostgreSQL = 'postgresql',
+  MySQL = 'mysql'
+}
+
+export interface PostgreSQLTableHealth {
+  kind: TableHealthKind.PostgreSQL
+  liveTuples: number
+  deadTuples: number
+  // Share of dead tuples among all tuples, 0 to 1
+  deadTupleRatio: number
+  modificationsSinceAnalyze: number
+  lastVacuum: string | null
+  lastAutovacuum: string | null
+  lastAnalyze: string | null
+  lastAutoanalyze: string | null
+  tableBytes: number
+  // Estimated from column statistics; null until the table has been analyzed
+  bloatBytes: number | null
+  bloatRatio: number | null
+}
+
+export interface MySQLTableHealth {
+  kind: TableHealthKind.MySQL
+  storageEngine: string | null
+  // An estimate for InnoDB tables
+  rows: number
+  dataBytes: number
+  indexBytes: number
+  // Allocated but unused space, which OPTIMIZE TABLE gives back
+  freeBytes: number
+  fragmentationRatio: number
+  lastUpdate: string | null
+  lastCheck: string | null
+}
+
+export type TableHealth = PostgreSQLTableHealth | MySQLTableHealth
+
+export interface TableMaintenanceInfo {
+  table: string
+  health: TableHealth
+  operations: MaintenanceOperation[]
+}
+
+export enum MaintenanceTaskStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Canceled = 'canceled'
+}
+
+export interface MaintenanceProgress {
+  phase: string
+  // Blocks done and to do in the current phase, when the server reports them
+  done: number | null
+  total: number | null
+}
+
+// One row of the result set returned by OPTIMIZE, ANALYZE, CHECK and REPAIR TABLE
+export interface MaintenanceMessage {
+  level: string
+  text: string
+}
+
+export interface MaintenanceTask {
+  id: string
+  connectionId: string
+  database?: string
+  table: string
+  operation: MaintenanceOperation
+  sql: string
+  status: MaintenanceTaskStatus
+  startedAt: string
+  finishedAt?: string
+  progress: MaintenanceProgress | null
+  messages: MaintenanceMessage[]
+  error?: string
+}
+
+export interface MaintenanceTaskRequest {
+  connectionId: string
+  database?: string
+  table: string
+  operation: MaintenanceOperation
+  sql: string
+}
+
+export interface MaintenanceTaskContext {
+  task: MaintenanceTask
+  signal: AbortSignal
+  reportProgress: (progress: MaintenanceProgress | null) => void
+}
+
+// Runs the operation and returns the server's messages; the signal is aborted on cancel
+export type MaintenanceRunner = (context: MaintenanceTaskContext) => Promise<MaintenanceMessage[]>
+
+export const MAINTENANCE_OPERATIONS: Partial<Record<DatabaseType, MaintenanceOperation[]>> = {
+  [DatabaseType.PostgreSQL]: [
+    MaintenanceOperation.Vacuum,
+    MaintenanceOperation.VacuumAnalyze,
+    MaintenanceOperation.VacuumFull,
+    MaintenanceOperation.Analyze,
+    MaintenanceOperation.Reindex
+  ],
+  [DatabaseType.MySQL]: [
+    MaintenanceOperation.Optimize,
+    MaintenanceOperation.Analyze,
+    MaintenanceOperation.Check,
+    MaintenanceOperation.Repair
+  ],
+  [DatabaseType.MariaDB]: [
+    MaintenanceOperation.Optimize,
+    MaintenanceOperation.Analyze,
+    MaintenanceOperation.Check,
+    MaintenanceOperation.Repair
+  ]
+}
+
+// Finished tasks are kept so the panel can show the last results after a remount
+export const MAX_FINISHED_TASKS = 20
+
+const POSTGRESQL_STATEMENTS: Partial<Record<MaintenanceOperation, string>> = {
+  [MaintenanceOperation.Vacuum]: 'VACUUM',
+  [MaintenanceOperation.VacuumAnalyze]: 'VACUUM (ANALYZE)',
+  [MaintenanceOperation.VacuumFull]: 'VACUUM (FULL)',
+  [MaintenanceOperation.Analyze]: 'ANALYZE',
+  [MaintenanceOperation.Reindex]: 'REINDEX TABLE'
+}
+
+const MYSQL_STATEMENTS: Partial<Record<MaintenanceOperation, string>> = {
+  [MaintenanceOperation.Optimize]: 'OPTIMIZE TABLE',
+  [MaintenanceOperation.Analyze]: 'ANALYZE TABLE',
+  [MaintenanceOperation.Check]: 'CHECK TABLE',
+  [MaintenanceOperation.Repair]: 'REPAIR TABLE'
+}
+
+const quotePostgreSQL = (name: string): string => `"${name.replace(/"/g, '""')}"`
+
+const quoteMySQL = (name: string): string => `\`${name.replace(/`/g, '``')}\``
+
+/**
+ * Builds the statement for an operation. The qualifier is the schema on PostgreSQL
+ * and the database on MySQL.
+ */
+export const buildMaintenanceSQL = (
+  type: DatabaseType,
+  operation: MaintenanceOperation,
+  table: string,
+  qualifier?: string
+): string => {
+  if (!MAINTENANCE_OPERATIONS[type]?.includes(operation)) {
+    throw new Error(`${operation} is not supported for ${type} connections`)
+  }
+
+  if (type === DatabaseType.PostgreSQL) {
+    const target = qualifier ? `${quotePostgreSQL(qualifier)}.${quotePostgreSQL(table)}` : quotePostgreSQL(table)
+    return `${POSTGRESQL_STATEMENTS[operation]} ${target}`
+  }
+
+  const target = qualifier ? `${quoteMySQL(qualifier)}.${quoteMySQL(table)}` : quoteMySQL(table)
+  return `${MYSQL_STATEMENTS[operation]} ${target}`
+}
+
+export interface PostgreSQLBloatInput {
+  heapBytes: number
+  // pg_class.reltuples; negative when the table has never been analyzed
+  estimatedTuples: number
+  // Sum of the columns' average widths from pg_stats; null without statistics
+  rowWidth: number | null
+  blockSize: number
+  fillfactor: number
+}
+
+// Tuple header, line pointer and page header sizes of a stock build
+const TUPLE_HEADER_BYTES = 24
+const LINE_POINTER_BYTES = 4
+const PAGE_HEADER_BYTES = 24
+const MAXALIGN = 8
+
+const alignTo = (value: number, alignment: number): number => Math.ceil(value / alignment) * alignment
+
+/**
+ * Estimates the heap bytes beyond what the live tuples need, packed at the table's
+ * fillfactor. It ignores TOAST and per-column alignment, so it is a rough figure.
+ */
+export const estimatePostgreSQLBloat = (input: PostgreSQLBloatInput): number | null => {
+  if (input.rowWidth === null || input.estimatedTuples < 0 || input.blockSize <= 0) return null
+
+  const tupleBytes = TUPLE_HEADER_BYTES + alignTo(input.rowWidth, MAXALIGN) + LINE_POINTER_BYTES
+  const usableBytes = (input.blockSize - PAGE_HEADER_BYTES) * (input.fillfactor / 100)
+  const tuplesPerPage = Math.max(1, Math.floor(usableBytes / tupleBytes))
+  const expectedBytes = Math.ceil(input.estimatedTuples / tuplesPerPage) * input.blockSize
+
+  return Math.max(0, input.heapBytes - expectedBytes)
+}
+
+export const emitMaintenanceTask = (task: MaintenanceTask) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('maintenance:changed', task)
+  }
+}
+
+interface MaintenanceTaskEntry {
+  task: MaintenanceTask
+  controller: AbortController
+}
+
+const isFinishedTask = (task: MaintenanceTask): boolean => task.status !== MaintenanceTaskStatus.Running
+
+/**
+ * Tracks running maintenance operations, one per table at a time. Progress reports and
+ * status changes are broadcast to the renderer as they happen.
+ */
+export class MaintenanceTracker {
+  // Insertion order is start order
+  private entries = new Map<string, MaintenanceTaskEntry>()
+
+  constructor(private readonly emit: (task: MaintenanceTask) => void = emitMaintenanceTask) {}
+
+  start(request: MaintenanceTaskRequest, run: MaintenanceRunner): MaintenanceTask {
+    const busy = [...this.entries.values()].find((entry) =>
+      !isFinishedTask(entry.task) &&
+      entry.task.connectionId === request.connectionId &&
+      entry.task.database === request.database &&
+      entry.task.table === request.table
+    )
+    if (busy) {
+      throw new Error(`${busy.task.sql} is still running on ${request.table}`)
+    }
+
+    const task: MaintenanceTask = {
+      id: randomUUID(),
+      ...request,
+      status: MaintenanceTaskStatus.Running,
+      startedAt: new Date().toISOString(),
+      progress: null,
+      messages: []
+    }
+    const entry: MaintenanceTaskEntry = { task, controller: new AbortController() }
+    this.entries.set(task.id, entry)
+    logger.info('Maintenance started', { taskId: task.id, connectionId: task.connectionId, sql: task.sql })
+
+    this.emit({ ...task })
+    void this.runTask(entry, run)
+    return { ...task }
+  }
+
+  list(connectionId: string): MaintenanceTask[] {
+    return [...this.entries.values()]
+      .filter((entry) => entry.task.connectionId === connectionId)
+      .map((entry) => ({ ...entry.task }))
+  }
+
+  // The runner cancels the statement on the server; the task ends once it returns
+  cancel(taskId: string): boolean {
+    const entry = this.entries.get(taskId)
+    if (!entry || isFinishedTask(entry.task)) return false
+    entry.controller.abort()
+    return true
+  }
+
+  private async runTask(entry: MaintenanceTaskEntry, run: MaintenanceRunner): Promise<void> {
+    const reportProgress = (progress: MaintenanceProgress | null) => {
+      if (isFinishedTask(entry.task)) return
+      entry.task.progress = progress
+      this.emit({ ...entry.task })
+    }
+
+    try {
+      const messages = await run({ task: { ...entry.task }, signal: entry.controller.signal, reportProgress })
+      entry.task.messages = messages
+      const failure = messages.find((message) => message.level.toLowerCase() === 'error')
+
+      if (entry.controller.signal.aborted) {
+        this.finish(entry, MaintenanceTaskStatus.Canceled)
+      } else {
+        this.finish(entry, failure ? MaintenanceTaskStatus.Failed : MaintenanceTaskStatus.Completed, failure?.text)
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.finish(entry, entry.controller.signal.aborted ? MaintenanceTaskStatus.Canceled : MaintenanceTaskStatus.Failed, message)
+    }
+  }
+
+  private finish(entry: MaintenanceTaskEntry, status: MaintenanceTaskStatus, error?: string): void {
+    entry.task.status = status
+    entry.task.finishedAt = new Date().toISOString()
+    entry.task.progress = null
+    if (error) entry.task.error = error
+    logger.info('Maintenance finished', { taskId: entry.task.id, status })
+
+    this.emit({ ...entry.task })
+    this.pruneFinished()
+  }
+
+  private pruneFinished(): void {
+    const finished = [...this.entries.values()].filter((entry) => isFinishedTask(entry.task))
+    for (const entry of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_TASKS))) {
+      this.entries.delete(entry.task.id)
+    }
+  }
+}
+
+export const maintenanceTracker = new MaintenanceTracker()
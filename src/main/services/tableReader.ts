@@ -0,0 +1,64 @@
+import type { CursorQueryResult, DatabaseDriver, TableReadOptions } from '../db/base'
+import type { ColumnInfo } from '../types'
+
+export interface TableBatch {
+  columns: ColumnInfo[]
+  rows: Record<string, unknown>[]
+  // Only known when the table is paged through getTableData
+  totalRows?: number
+}
+
+/**
+ * Drains a cursor opened with `maxRows: batchSize`, starting with the batch it returned,
+ * and closes it however the caller stops iterating.
+ */
+export async function* readCursorBatches(opened: CursorQueryResult, batchSize: number): AsyncGenerator<TableBatch> {
+  const { result, cursor } = opened
+  try {
+    if (result.error) {
+      throw new Error(result.error)
+    }
+    yield { columns: result.columns, rows: result.rows }
+    let hasMore = cursor !== null
+    while (hasMore) {
+      const batch = await cursor!.read(batchSize)
+      hasMore = batch.hasMore
+      if (batch.rows.length > 0) {
+        yield { columns: cursor!.columns, rows: batch.rows }
+      }
+    }
+  } finally {
+    await cursor?.close()
+  }
+}
+
+/**
+ * Reads a table batch by batch. Engines with cursors stream it through one, so the table is
+ * scanned once; the rest page through getTableData, which can only order by a single
+ * column, so their pages follow `orderBy` or else the first key column.
+ */
+export async function* readTableBatches(
+  driver: DatabaseDriver,
+  table: string,
+  options: TableReadOptions,
+  batchSize: number
+): AsyncGenerator<TableBatch> {
+  const opened = await driver.openTableCursor(table, options, batchSize)
+
+  if (opened) {
+    yield* readCursorBatches(opened, batchSize)
+    return
+  }
+
+  for (let offset = 0; ; offset += batchSize) {
+    const page = await driver.getTableData(table, {
+      offset,
+      limit: batchSize,
+      filters: options.filters,
+      orderBy: options.orderBy ?? options.keyColumns?.[0],
+      orderDirection: options.orderDirection
+    })
+    yield { columns: page.columns, rows: page.rows, totalRows: page.totalCount }
+    if (page.rows.length < batchSize) return
+  }
+}
@@ -0,0 +1,616 @@
+import { BrowserWindow } from 'electron'
+import type { DatabaseDriver } from '../db/base'
+import type { PostgreSQLDriver } from '../db/postgres'
+import { DatabaseType, type Column } from '../types'
+import type { ColumnDefinition, DataTypeInfo } from '../types/schema-operations'
+import { createBatchWriter, MAX_BIND_PARAMETERS } from './import'
+import { readTableBatches } from './tableReader'
+
+export enum TransferConflictMode {
+  Skip = 'skip',
+  Replace = 'replace',
+  Fail = 'fail'
+}
+
+export interface TransferEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+}
+
+export interface TransferColumnMapping {
+  sourceColumn: string
+  sourceType: string
+  // Empty to leave the column out of the transfer
+  targetColumn: string
+  targetType: string
+  length?: number
+  precision?: number
+  scale?: number
+  nullable: boolean
+  primaryKey: boolean
+}
+
+export interface TransferTablePlan {
+  sourceTable: string
+  targetTable: string
+  targetExists: boolean
+  createTable: boolean
+  totalRows: number
+  columns: TransferColumnMapping[]
+}
+
+export interface TransferPlan {
+  tables: TransferTablePlan[]
+  // Type names offered for the target, from the target driver's getDataTypes()
+  targetTypes: string[]
+  canCreateTables: boolean
+}
+
+export interface TransferOptions {
+  transferId: string
+  source: TransferEndpoint
+  target: TransferEndpoint
+  tables: TransferTablePlan[]
+  conflictMode: TransferConflictMode
+  batchSize?: number
+}
+
+export interface TransferProgressEvent {
+  transferId: string
+  table: string
+  tableIndex: number
+  tableCount: number
+  rowsProcessed: number
+  totalRows: number
+}
+
+export interface TransferTableSummary {
+  sourceTable: string
+  targetTable: string
+  created: boolean
+  rowsRead: number
+  rowsInserted: number
+  rowsReplaced: number
+  rowsSkipped: number
+  error?: string
+}
+
+export interface TransferResult {
+  success: boolean
+  canceled?: boolean
+  error?: string
+  tables: TransferTableSummary[]
+}
+
+export class TransferCanceledError extends Error {
+  constructor() {
+    super('Transfer canceled')
+    this.name = 'TransferCanceledError'
+  }
+}
+
+const DEFAULT_BATCH_SIZE = 500
+
+export const emitTransferProgress = (event: TransferProgressEvent) => {
+  const windows = BrowserWindow.getAllWindows()
+  for (const win of windows) {
+    win.webContents.send('transfer:progress', event)
+  }
+}
+
+enum TypeKind {
+  Integer = 'integer',
+  BigInt = 'bigint',
+  Decimal = 'decimal',
+  Float = 'float',
+  Boolean = 'boolean',
+  Date = 'date',
+  Time = 'time',
+  DateTime = 'datetime',
+  Json = 'json',
+  Binary = 'binary',
+  Uuid = 'uuid',
+  String = 'string',
+  Text = 'text'
+}
+
+// Checked in order; the first pattern that matches the lowercased source type wins
+const TYPE_PATTERNS: [RegExp, TypeKind][] = [
+  [/^_|\[\]$|^array|^map|json|^object$/, TypeKind.Json],
+  [/bool|^bit$/, TypeKind.Boolean],
+  [/^bigint$|^bigserial$|^int8$|^u?int(64|128|256)$|^long$/, TypeKind.BigInt],
+  [/^(tiny|small|medium)?int(eger)?$|^int[24]$|^u?int(8|16|32)$|^(small)?serial$/, TypeKind.Integer],
+  [/decimal|numeric|money/, TypeKind.Decimal],
+  [/float|double|real|^number$/, TypeKind.Float],
+  [/timestamp|datetime/, TypeKind.DateTime],
+  [/^date/, TypeKind.Date],
+  [/^time/, TypeKind.Time],
+  [/blob|bytea|binary/, TypeKind.Binary],
+  [/uuid/, TypeKind.Uuid],
+  [/text|clob|interval/, TypeKind.Text],
+  [/char|string|enum|objectid/, TypeKind.String]
+]
+
+const CATEGORY_KINDS: Record<DataTypeInfo['category'], TypeKind> = {
+  numeric: TypeKind.Decimal,
+  string: TypeKind.Text,
+  datetime: TypeKind.DateTime,
+  binary: TypeKind.Binary,
+  json: TypeKind.Json,
+  boolean: TypeKind.Boolean,
+  other: TypeKind.Text
+}
+
+// Target type names in order of preference; the first one the target offers is used
+const KIND_PREFERENCES: Record<TypeKind, string[]> = {
+  [TypeKind.Integer]: ['INTEGER', 'INT', 'Int32', 'Number'],
+  [TypeKind.BigInt]: ['BIGINT', 'Int64', 'INTEGER'],
+  [TypeKind.Decimal]: ['NUMERIC', 'DECIMAL', 'Decimal', 'Decimal128'],
+  [TypeKind.Float]: ['DOUBLE PRECISION', 'DOUBLE', 'Float64', 'REAL', 'Double'],
+  [TypeKind.Boolean]: ['BOOLEAN', 'Bool', 'TINYINT', 'INTEGER'],
+  [TypeKind.Date]: ['DATE', 'Date32', 'TEXT'],
+  [TypeKind.Time]: ['TIME', 'TEXT', 'String'],
+  [TypeKind.DateTime]: ['DATETIME', 'TIMESTAMP', 'Date', 'TEXT'],
+  [TypeKind.Json]: ['JSONB', 'JSON', 'Object', 'TEXT', 'String'],
+  [TypeKind.Binary]: ['BYTEA', 'LONGBLOB', 'BLOB', 'Binary', 'String'],
+  [TypeKind.Uuid]: ['UUID', 'CHAR', 'TEXT', 'String'],
+  [TypeKind.String]: ['VARCHAR', 'TEXT', 'String'],
+  [TypeKind.Text]: ['TEXT', 'LONGTEXT', 'String']
+}
+
+// Strips length arguments and ClickHouse wrappers: `Nullable(varchar(20))` becomes `varchar`
+const baseTypeName = (type: string): string => {
+  const unwrapped = type.trim().replace(/^(Nullable|LowCardinality)\((.*)\)$/i, '$2')
+  return unwrapped === type.trim()
+    ? unwrapped.replace(/\(.*$/, '').trim().toLowerCase()
+    : baseTypeName(unwrapped)
+}
+
+const classifyType = (type: string, sourceType: DatabaseType, sourceTypes: DataTypeInfo[]): TypeKind => {
+  const name = baseTypeName(type)
+  // MongoDB reports JavaScript Date values, which carry a time, as `Date`
+  if (sourceType === DatabaseType.MongoDB && name === 'date') return TypeKind.DateTime
+  for (const [pattern, kind] of TYPE_PATTERNS) {
+    if (pattern.test(name)) return kind
+  }
+  const known = sourceTypes.find((t) => t.name.toLowerCase() === name)
+  return known ? CATEGORY_KINDS[known.category] : TypeKind.Text
+}
+
+/**
+ * Proposes a target column for a source column: an identically named target type is kept,
+ * otherwise the source type is classified and the target's preferred type for that kind is
+ * used. Lengths and precision carry over when the chosen type takes them.
+ */
+export const mapColumnType = (
+  column: Column,
+  sourceType: DatabaseType,
+  sourceTypes: DataTypeInfo[],
+  targetTypes: DataTypeInfo[]
+): Pick<TransferColumnMapping, 'targetType' | 'length' | 'precision' | 'scale'> => {
+  const findTarget = (name: string) => targetTypes.find((t) => t.name.toLowerCase() === name.toLowerCase())
+  const kind = classifyType(column.type, sourceType, sourceTypes)
+
+  const isString = kind === TypeKind.String || kind === TypeKind.Text
+  // MySQL cannot build a key on TEXT, so unbounded string keys always get a VARCHAR
+  const isUnboundedKey = isString && column.primaryKey && !column.length
+
+  // MongoDB type names describe BSON values, so a same-named SQL type is no match
+  let target = sourceType === DatabaseType.MongoDB || isUnboundedKey
+    ? undefined
+    : findTarget(baseTypeName(column.type))
+  if (!target) {
+    // Unbounded strings read better as TEXT than as an arbitrary VARCHAR length
+    const preferences = isString
+      ? KIND_PREFERENCES[column.length || column.primaryKey ? TypeKind.String : TypeKind.Text]
+      : KIND_PREFERENCES[kind]
+    for (const name of preferences) {
+      target = findTarget(name)
+      if (target) break
+    }
+  }
+  if (!target) {
+    target = targetTypes.find((t) => t.category === 'string') ?? targetTypes[0]
+  }
+  if (!target) {
+    return { targetType: column.type }
+  }
+
+  const mapping: Pick<TransferColumnMapping, 'targetType' | 'length' | 'precision' | 'scale'> = { targetType: target.name }
+  if (target.hasLength) {
+    mapping.length = column.length ?? target.defaultLength ?? (kind === TypeKind.Uuid ? 36 : 255)
+  }
+  if (target.hasPrecision) {
+    mapping.precision = column.precision ?? target.defaultPrecision
+    mapping.scale = column.scale ?? target.defaultScale
+  }
+  return mapping
+}
+
+/**
+ * Builds the default plan for the selected tables: existing target tables are matched by
+ * column name, missing ones get a proposed definition from the type mapping.
+ */
+export const buildTransferPlan = async (
+  sourceDriver: DatabaseDriver,
+  targetDriver: DatabaseDriver,
+  target: TransferEndpoint,
+  tables: string[]
+): Promise<TransferPlan> => {
+  const sourceTypes = sourceDriver.getDataTypes()
+  const targetTypes = targetDriver.getDataTypes()
+  const canCreateTables = targetDriver.type !== DatabaseType.Redis
+  const existingTables = new Set(
+    (await targetDriver.getTables(target.database, target.schema)).map((t) => t.name)
+  )
+
+  const plans: TransferTablePlan[] = []
+  for (const table of tables) {
+    const sourceColumns = await sourceDriver.getColumns(table)
+    const page = await sourceDriver.getTableData(table, { offset: 0, limit: 1 })
+    const targetExists = existingTables.has(table)
+    const targetColumns = targetExists ? await targetDriver.getColumns(table) : []
+
+    const columns = sourceColumns.map((col): TransferColumnMapping => {
+      const base = {
+        sourceColumn: col.name,
+        sourceType: col.type,
+        nullable: col.nullable,
+        primaryKey: col.primaryKey
+      }
+      if (targetExists) {
+        const match = targetColumns.find((t) => t.name.toLowerCase() === col.name.toLowerCase())
+        return { ...base, targetColumn: match?.name ?? '', targetType: match?.type ?? '' }
+      }
+      return { ...base, targetColumn: col.name, ...mapColumnType(col, sourceDriver.type, sourceTypes, targetTypes) }
+    })
+
+    plans.push({
+      sourceTable: table,
+      targetTable: table,
+      targetExists,
+      createTable: !targetExists && canCreateTables,
+      totalRows: page.totalCount,
+      columns
+    })
+  }
+
+  return { tables: plans, targetTypes: targetTypes.map((t) => t.name), canCreateTables }
+}
+
+const toClickHouseDateTime = (value: Date): string => value.toISOString().replace('T', ' ').replace('Z', '')
+
+/**
+ * Converts a value read from the source into something the target driver can bind:
+ * better-sqlite3 rejects booleans, dates and objects, and ClickHouse inserts are built
+ * from strings.
+ */
+export const toTargetValue = (value: unknown, targetType: DatabaseType): unknown => {
+  if (value === null || value === undefined) return null
+  if (targetType === DatabaseType.MongoDB) return value
+
+  if (typeof value === 'bigint') return targetType === DatabaseType.SQLite ? value : value.toString()
+  if (typeof value === 'boolean') return targetType === DatabaseType.SQLite ? (value ? 1 : 0) : value
+  if (value instanceof Date) {
+    if (targetType === DatabaseType.SQLite) return value.toISOString()
+    if (targetType === DatabaseType.ClickHouse) return toClickHouseDateTime(value)
+    return value
+  }
+  if (value instanceof Uint8Array) {
+    return targetType === DatabaseType.ClickHouse ? Buffer.from(value).toString('utf-8') : value
+  }
+  if (typeof value === 'object') {
+    if (Array.isArray(value) && targetType === DatabaseType.PostgreSQL) return value
+    return JSON.stringify(value)
+  }
+  return value
+}
+
+const CONFLICT_PATTERN = /duplicate key|duplicate entry|unique constraint|E11000/i
+
+export const isConflictError = (message: string): boolean => CONFLICT_PATTERN.test(message)
+
+const toColumnDefinitions = (plan: TransferTablePlan): ColumnDefinition[] =>
+  plan.columns
+    .filter((col) => col.targetColumn)
+    .map((col) => ({
+      name: col.targetColumn,
+      type: col.targetType,
+      length: col.length,
+      precision: col.precision,
+      scale: col.scale,
+      nullable: col.primaryKey ? false : col.nullable,
+      primaryKey: col.primaryKey
+    }))
+
+interface BatchCounts {
+  inserted: number
+  replaced: number
+  skipped: number
+}
+
+interface TransferWriter {
+  batchSize: number
+  // Writes the rows, given as values in column order, and counts how each one landed
+  write: (rows: unknown[][], firstRowNumber: number) => Promise<BatchCounts>
+}
+
+const rowRange = (firstRowNumber: number, count: number): string =>
+  count === 1 ? `Row ${firstRowNumber}` : `Rows ${firstRowNumber}-${firstRowNumber + count - 1}`
+
+/**
+ * Writes each batch as one multi-row INSERT. Conflicts are settled by the statement itself:
+ * ON CONFLICT DO NOTHING / DO UPDATE, or ON DUPLICATE KEY UPDATE on MySQL, so a replaced row
+ * is updated in place and never deleted, and a failed batch leaves nothing half written.
+ * Replacing needs the target's key among the columns, and is refused without it.
+ */
+const createSQLWriter = (
+  driver: DatabaseDriver,
+  tableName: string,
+  columns: string[],
+  conflictMode: TransferConflictMode,
+  targetKeys: string[],
+  requestedBatchSize: number
+): TransferWriter => {
+  const isMySQL = driver.type === DatabaseType.MySQL || driver.type === DatabaseType.MariaDB
+  const quote = isMySQL ? (name: string) => `\`${name}\`` : (name: string) => `"${name}"`
+  const table = driver.type === DatabaseType.PostgreSQL
+    ? `${quote((driver as unknown as PostgreSQLDriver).getCurrentSchema())}.${quote(tableName)}`
+    : quote(tableName)
+  const placeholders = `(${columns.map(() => '?').join(', ')})`
+  const maxRows = Math.floor((MAX_BIND_PARAMETERS[driver.type] ?? 65535) / columns.length)
+
+  const keysMapped = targetKeys.length > 0 && targetKeys.every((key) => columns.includes(key))
+  if (conflictMode === TransferConflictMode.Replace && !keysMapped) {
+    throw new Error(targetKeys.length === 0
+      ? 'Replacing rows needs a primary key on the target table'
+      : `Replacing rows needs the primary key columns mapped: ${targetKeys.filter((key) => !columns.includes(key)).join(', ')}`)
+  }
+  const keys = conflictMode === TransferConflictMode.Replace ? targetKeys : []
+  const updated = columns.filter((col) => !keys.includes(col))
+  // mysql2 sets CLIENT_FOUND_ROWS, so a skipped duplicate counts as affected; the
+  // existing keys tell skipped rows apart there, as they tell replaced rows apart
+  const countedKeys = keys.length > 0 || (conflictMode === TransferConflictMode.Skip && isMySQL && keysMapped)
+    ? targetKeys
+    : []
+  const keyIndexes = countedKeys.map((key) => columns.indexOf(key))
+
+  let conflictClause = ''
+  if (conflictMode !== TransferConflictMode.Fail) {
+    if (isMySQL) {
+      const assignments = keys.length > 0 && updated.length > 0
+        ? updated.map((col) => `${quote(col)} = VALUES(${quote(col)})`)
+        : [`${quote(columns[0])} = ${quote(columns[0])}`]
+      conflictClause = ` ON DUPLICATE KEY UPDATE ${assignments.join(', ')}`
+    } else if (keys.length > 0 && updated.length > 0) {
+      const assignments = updated.map((col) => `${quote(col)} = excluded.${quote(col)}`)
+      conflictClause = ` ON CONFLICT (${keys.map(quote).join(', ')}) DO UPDATE SET ${assignments.join(', ')}`
+    } else {
+      conflictClause = ' ON CONFLICT DO NOTHING'
+    }
+  }
+
+  // The rows of the batch that already exist in the target, so replaced or skipped rows can be told apart
+  const countExisting = async (rows: unknown[][]): Promise<number> => {
+    const tuple = countedKeys.length === 1 ? quote(countedKeys[0]) : `(${countedKeys.map(quote).join(', ')})`
+    const keyPlaceholders = countedKeys.length === 1 ? '?' : `(${countedKeys.map(() => '?').join(', ')})`
+    const result = await driver.execute(
+      `SELECT COUNT(*) AS count FROM ${table} WHERE ${tuple} IN (${rows.map(() => keyPlaceholders).join(', ')})`,
+      rows.flatMap((row) => keyIndexes.map((index) => row[index]))
+    )
+    if (result.error) throw new Error(result.error)
+    return Number(result.rows[0]?.count ?? 0)
+  }
+
+  return {
+    batchSize: Math.max(1, Math.min(requestedBatchSize, maxRows)),
+    write: async (rows, firstRowNumber) => {
+      const existing = countedKeys.length > 0 ? await countExisting(rows) : 0
+      const result = await driver.execute(
+        `INSERT INTO ${table} (${columns.map(quote).join(', ')}) VALUES ${rows.map(() => placeholders).join(', ')}${conflictClause}`,
+        rows.flat()
+      )
+      if (result.error) {
+        throw new Error(`${rowRange(firstRowNumber, rows.length)}: ${result.error}`)
+      }
+      if (keys.length > 0) {
+        return { inserted: rows.length - existing, replaced: existing, skipped: 0 }
+      }
+      if (countedKeys.length > 0) {
+        return { inserted: rows.length - existing, replaced: 0, skipped: existing }
+      }
+      // A skipped row is not counted as affected
+      const inserted = conflictMode === TransferConflictMode.Fail ? rows.length : result.affectedRows ?? rows.length
+      return { inserted, replaced: 0, skipped: rows.length - inserted }
+    }
+  }
+}
+
+// ClickHouse has no unique keys, so rows never conflict and go in as plain batches
+const createClickHouseWriter = (driver: DatabaseDriver, tableName: string, columns: string[], batchSize: number): TransferWriter => {
+  const writer = createBatchWriter(driver, tableName, columns, batchSize)
+  return {
+    batchSize: writer.batchSize,
+    write: async (rows, firstRowNumber) => {
+      const error = await writer.insert(rows)
+      if (error) {
+        throw new Error(`${rowRange(firstRowNumber, rows.length)}: ${error}`)
+      }
+      return { inserted: rows.length, replaced: 0, skipped: 0 }
+    }
+  }
+}
+
+// MongoDB documents go in one at a time; a duplicate _id is skipped or replaced by key
+const createDocumentWriter = (
+  driver: DatabaseDriver,
+  tableName: string,
+  columns: string[],
+  conflictMode: TransferConflictMode,
+  targetKeys: string[],
+  batchSize: number
+): TransferWriter => ({
+  batchSize,
+  write: async (rows, firstRowNumber) => {
+    const counts: BatchCounts = { inserted: 0, replaced: 0, skipped: 0 }
+    for (const [index, row] of rows.entries()) {
+      const values = Object.fromEntries(columns.map((col, i) => [col, row[i]]))
+      const rowNumber = firstRowNumber + index
+      const inserted = await driver.insertRow({ table: tableName, values })
+      if (inserted.success) {
+        counts.inserted++
+        continue
+      }
+      const message = inserted.error ?? 'Insert failed'
+      if (!isConflictError(message) || conflictMode === TransferConflictMode.Fail) {
+        throw new Error(`Row ${rowNumber}: ${message}`)
+      }
+      if (conflictMode === TransferConflictMode.Skip || targetKeys.length === 0) {
+        counts.skipped++
+        continue
+      }
+
+      const primaryKeyValues = Object.fromEntries(targetKeys.map((key) => [key, values[key]]))
+      const deleted = await driver.deleteRow({ table: tableName, primaryKeyValues })
+      const replaced = deleted.success ? await driver.insertRow({ table: tableName, values }) : deleted
+      if (!replaced.success) {
+        throw new Error(`Row ${rowNumber}: ${replaced.error ?? 'Replace failed'}`)
+      }
+      counts.replaced++
+    }
+    return counts
+  }
+})
+
+const createTransferWriter = (
+  driver: DatabaseDriver,
+  tableName: string,
+  columns: string[],
+  conflictMode: TransferConflictMode,
+  targetKeys: string[],
+  batchSize: number
+): TransferWriter => {
+  switch (driver.type) {
+    case DatabaseType.ClickHouse:
+      return createClickHouseWriter(driver, tableName, columns, batchSize)
+    case DatabaseType.MongoDB:
+      return createDocumentWriter(driver, tableName, columns, conflictMode, targetKeys, batchSize)
+    default:
+      return createSQLWriter(driver, tableName, columns, conflictMode, targetKeys, batchSize)
+  }
+}
+
+const transferTable = async (
+  sourceDriver: DatabaseDriver,
+  targetDriver: DatabaseDriver,
+  options: TransferOptions,
+  plan: TransferTablePlan,
+  summary: TransferTableSummary,
+  tableIndex: number,
+  signal: AbortSignal,
+  onProgress: (event: TransferProgressEvent) => void
+): Promise<void> => {
+  const columns = plan.columns.filter((col) => col.targetColumn)
+  if (columns.length === 0) {
+    throw new Error('No columns are mapped')
+  }
+
+  // A table to be created gets the planned key; the writer refuses a mode it cannot honor
+  // before anything is created or written
+  const targetKeys = options.conflictMode === TransferConflictMode.Fail
+    ? []
+    : plan.createTable
+      ? columns.filter((col) => col.primaryKey).map((col) => col.targetColumn)
+      : await targetDriver.getPrimaryKeyColumns(plan.targetTable)
+  const writer = createTransferWriter(
+    targetDriver,
+    plan.targetTable,
+    columns.map((col) => col.targetColumn),
+    options.conflictMode,
+    targetKeys,
+    options.batchSize && options.batchSize > 0 ? options.batchSize : DEFAULT_BATCH_SIZE
+  )
+
+  if (plan.createTable) {
+    const result = await targetDriver.createTable({
+      table: { name: plan.targetTable, columns: toColumnDefinitions(plan) },
+      schema: options.target.schema
+    })
+    if (!result.success) {
+      throw new Error(`Could not create table: ${result.error}`)
+    }
+    summary.created = true
+  }
+
+  // Ordered by the whole key, so engines that page the source never skip or repeat a row
+  const sourceKeys = await sourceDriver.getPrimaryKeyColumns(plan.sourceTable)
+  const batches = readTableBatches(sourceDriver, plan.sourceTable, { keyColumns: sourceKeys }, writer.batchSize)
+
+  for await (const batch of batches) {
+    if (signal.aborted) {
+      throw new TransferCanceledError()
+    }
+
+    if (batch.rows.length > 0) {
+      const rows = batch.rows.map((row) => columns.map((col) => toTargetValue(row[col.sourceColumn], targetDriver.type)))
+      const counts = await writer.write(rows, summary.rowsRead + 1)
+      summary.rowsInserted += counts.inserted
+      summary.rowsReplaced += counts.replaced
+      summary.rowsSkipped += counts.skipped
+      summary.rowsRead += batch.rows.length
+    }
+
+    onProgress({
+      transferId: options.transferId,
+      table: plan.sourceTable,
+      tableIndex,
+      tableCount: options.tables.length,
+      rowsProcessed: summary.rowsRead,
+      totalRows: batch.totalRows ?? Math.max(plan.totalRows, summary.rowsRead)
+    })
+  }
+}
+
+/**
+ * Copies the planned tables one after another in batches. The first error or a cancel stops
+ * the transfer; rows already written stay in the target and are reported in the summary.
+ */
+export const runTransfer = async (
+  sourceDriver: DatabaseDriver,
+  targetDriver: DatabaseDriver,
+  options: TransferOptions,
+  signal: AbortSignal,
+  onProgress: (event: TransferProgressEvent) => void
+): Promise<TransferResult> => {
+  if (targetDriver.type === DatabaseType.Redis) {
+    return { success: false, error: 'Redis cannot be used as a transfer target', tables: [] }
+  }
+
+  const tables: TransferTableSummary[] = []
+  for (const [index, plan] of options.tables.entries()) {
+    const summary: TransferTableSummary = {
+      sourceTable: plan.sourceTable,
+      targetTable: plan.targetTable,
+      created: false,
+      rowsRead: 0,
+      rowsInserted: 0,
+      rowsReplaced: 0,
+      rowsSkipped: 0
+    }
+    tables.push(summary)
+
+    try {
+      await transferTable(sourceDriver, targetDriver, options, plan, summary, index, signal, onProgress)
+    } catch (error) {
+      if (error instanceof TransferCanceledError) {
+        return { success: false, canceled: true, error: error.message, tables }
+      }
+      summary.error = error instanceof Error ? error.message : String(error)
+      return { success: false, error: `${plan.sourceTable}: ${summary.error}`, tables }
+    }
+  }
+
+  return { success: true, tables }
+}
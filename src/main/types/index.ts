@@ -81,10 +81,33 @@ export interface ConnectionConfig {
   color?: string
   // Environment label
   environment?: ConnectionEnvironment
+  // Refuse anything but reads and session statements
+  readOnly?: boolean
+  // Applied to every session opened for this connection
+  session?: SessionSettings
+  // Overrides the default query limits; unset fields fall back to the defaults
+  queryLimits?: QueryLimits
   // Folder/group for organizing connections
   folder?: string
 }
 
+// Session defaults replayed on every connect, reconnect and dedicated session
+export interface SessionSettings {
+  timezone?: string
+  // Milliseconds; 0 or empty leaves the server default
+  statementTimeout?: number
+  applicationName?: string
+  // Free-form SQL run after the settings above, e.g. SET search_path or SET ROLE
+  initScript?: string
+}
+
+// Caps on queries run from the editor; 0 means no limit
+export interface QueryLimits {
+  maxRows?: number
+  // Milliseconds
+  timeout?: number
+}
+
 export interface SSLConfig {
   enabled?: boolean
   mode?: SSLMode
@@ -96,17 +119,26 @@ export interface SSLConfig {
   serverName?: string
 }
 
-export interface SSHConfig {
-  enabled: boolean
+export type SSHAuthMethod = 'password' | 'privateKey' | 'agent'
+
+// One SSH server on the way to the database
+export interface SSHHost {
   host: string
   port: number
   username: string
-  authMethod: 'password' | 'privateKey'
+  // 'agent' authenticates through the running ssh-agent (SSH_AUTH_SOCK)
+  authMethod: SSHAuthMethod
   password?: string
   privateKey?: string
   privateKeyPassphrase?: string
 }
 
+export interface SSHConfig extends SSHHost {
+  enabled: boolean
+  // Bastions to pass through, in order, before reaching host
+  jumpHosts?: SSHHost[]
+}
+
 export interface SavedConnection {
   id: string
   name: string
@@ -121,6 +153,9 @@ export interface SavedConnection {
   ssh: SSHConfig | null
   color: string | null
   environment: ConnectionEnvironment | null
+  readOnly: boolean
+  session: SessionSettings | null
+  queryLimits: QueryLimits | null
   folder: string | null
   sortOrder: number
   createdAt: string
@@ -136,11 +171,49 @@ export interface QueryResult {
   affectedRows?: number
   executionTime: number
   error?: string
+  // More rows were available than the row limit allowed
+  truncated?: boolean
+  // Set while the rest of a truncated result can still be fetched from an open cursor
+  cursorId?: string
+  // Set on the results of a script, one per statement
+  statement?: ScriptStatement
+}
+
+export interface CursorBatch {
+  rows: Record<string, unknown>[]
+  // False once the cursor is exhausted and closed
+  hasMore: boolean
+}
+
+// What a script does when one of its statements fails; scripts stop by default
+export enum ScriptErrorMode {
+  Stop = 'stop',
+  Continue = 'continue',
+  // Run in a transaction and roll all of it back
+  Rollback = 'rollback'
+}
+
+export enum ScriptStatementStatus {
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  // Not run because an earlier statement failed
+  Skipped = 'skipped',
+  // Ran, then undone when a later statement failed
+  RolledBack = 'rolled-back'
+}
+
+export interface ScriptStatement {
+  sql: string
+  // Character offset of the statement in the script
+  offset: number
+  status: ScriptStatementStatus
 }
 
 export interface MultiQueryResult {
   results: QueryResult[]
   totalExecutionTime: number
+  // Set when the script ran in a transaction that was rolled back
+  rolledBack?: boolean
 }
 
 export interface ColumnInfo {
@@ -396,6 +469,63 @@ export interface ServerStatus {
   status: Record<string, string>
 }
 
+// Lock monitoring types
+export interface LockTarget {
+  mode: string
+  lockType: string
+  relation: string | null
+}
+
+export interface LockWait extends LockTarget {
+  waitSeconds: number | null
+}
+
+// A session in a blocking chain: it waits on a lock, holds a lock others wait on, or both
+export interface BlockingSession {
+  id: number
+  user: string | null
+  database: string | null
+  state: string | null
+  query: string | null
+  transactionSeconds: number | null
+  blockedBy: number[]
+  waitingFor: LockWait | null
+  heldLocks: LockTarget[]
+}
+
+// Statement statistics types
+export enum QueryStatisticsOrder {
+  TotalTime = 'total-time',
+  MeanTime = 'mean-time',
+  Calls = 'calls',
+  Rows = 'rows'
+}
+
+export interface QueryStatisticsOptions {
+  orderBy?: QueryStatisticsOrder
+  // Matched against the normalized statement text
+  search?: string
+  limit?: number
+}
+
+// One normalized statement, aggregated over all its executions
+export interface QueryStatistic {
+  id: string
+  query: string
+  // A statement with literal values, when the engine keeps one
+  sample: string | null
+  database: string | null
+  user: string | null
+  calls: number
+  totalTimeMs: number
+  meanTimeMs: number
+  maxTimeMs: number | null
+  rows: number
+  // Shared buffer hits and reads (PostgreSQL only)
+  sharedBlocksHit: number | null
+  sharedBlocksRead: number | null
+}
+
 // Data Options
 export interface DataOptions {
   offset?: number
@@ -447,9 +577,16 @@ export interface IPCChannels {
 
   // Query channels
   'query:execute': (connectionId: string, sql: string) => Promise<QueryResult>
-  'query:executeMultiple': (connectionId: string, sql: string) => Promise<MultiQueryResult>
+  'query:executeMultiple': (connectionId: string, sql: string, mode?: ScriptErrorMode) => Promise<MultiQueryResult>
   'query:cancel': (connectionId: string) => Promise<boolean>
 
+  // Transaction channels (manual commit sessions keyed by query tab)
+  'transaction:begin': (connectionId: string, sessionId: string) => Promise<boolean>
+  'transaction:execute': (sessionId: string, sql: string, params?: unknown[]) => Promise<QueryResult>
+  'transaction:executeMultiple': (sessionId: string, sql: string, mode?: ScriptErrorMode) => Promise<MultiQueryResult>
+  'transaction:commit': (sessionId: string) => Promise<boolean>
+  'transaction:rollback': (sessionId: string) => Promise<boolean>
+
   // Schema channels
   'schema:databases': (connectionId: string) => Promise<Database[]>
   'schema:tables': (connectionId: string, database: string, schema?: string) => Promise<Table[]>
@@ -126,6 +126,41 @@ export interface UpdateRowRequest {
   values: Record<string, unknown>
 }
 
+// Changeset (batched row edits applied atomically)
+export enum RowChangeType {
+  Insert = 'insert',
+  Update = 'update',
+  Delete = 'delete',
+}
+
+export interface RowChange {
+  type: RowChangeType
+  // Identifies the target row for update/delete; null values match with IS NULL
+  where?: Record<string, unknown>
+  // Column values to write for insert/update
+  values?: Record<string, unknown>
+}
+
+export interface ApplyChangesetRequest {
+  table: string
+  changes: RowChange[]
+}
+
+export interface RowChangeResult {
+  index: number
+  success: boolean
+  sql?: string
+  error?: string
+  affectedRows?: number
+}
+
+export interface ApplyChangesetResult {
+  success: boolean
+  results: RowChangeResult[]
+  error?: string
+  rolledBack?: boolean
+}
+
 // View Definition
 export interface ViewDefinition {
   name: string
@@ -0,0 +1,157 @@
+export enum SqlTokenType {
+  Word = 'word',
+  String = 'string',
+  QuotedIdentifier = 'quotedIdentifier',
+  Comment = 'comment',
+  Whitespace = 'whitespace',
+  Semicolon = 'semicolon',
+  Symbol = 'symbol'
+}
+
+export interface SqlToken {
+  type: SqlTokenType
+  text: string
+}
+
+export interface SqlStatement {
+  text: string
+  // Where the trimmed text starts in the script
+  offset: number
+  // Tokens of the statement, without whitespace and comments
+  tokens: SqlToken[]
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_$]/u
+const DOLLAR_TAG = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/
+
+// Reads a quoted run starting at `start`, where a doubled quote character is an escape
+const readQuoted = (sql: string, start: number, quote: string): number => {
+  let i = start + 1
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] === quote) {
+        i += 2
+        continue
+      }
+      return i + 1
+    }
+    i++
+  }
+  return sql.length
+}
+
+/**
+ * Splits SQL into tokens, keeping these intact:
+ * - Single-quoted strings ('...') and PostgreSQL dollar-quoted bodies ($$...$$, $tag$...$tag$)
+ * - Double-quoted identifiers ("...") and backtick-quoted identifiers (`...`)
+ * - Line comments (-- ...) and block comments (/* ... *​/)
+ * Concatenating the token texts gives back the input.
+ */
+export const tokenizeSql = (sql: string): SqlToken[] => {
+  const tokens: SqlToken[] = []
+  const len = sql.length
+  let i = 0
+
+  const push = (type: SqlTokenType, end: number): void => {
+    tokens.push({ type, text: sql.substring(i, end) })
+    i = end
+  }
+
+  while (i < len) {
+    const ch = sql[i]
+
+    if (ch === "'") {
+      push(SqlTokenType.String, readQuoted(sql, i, "'"))
+      continue
+    }
+
+    if (ch === '"' || ch === '`') {
+      push(SqlTokenType.QuotedIdentifier, readQuoted(sql, i, ch))
+      continue
+    }
+
+    if (ch === '-' && sql[i + 1] === '-') {
+      const end = sql.indexOf('\n', i)
+      push(SqlTokenType.Comment, end === -1 ? len : end)
+      continue
+    }
+
+    if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2)
+      push(SqlTokenType.Comment, end === -1 ? len : end + 2)
+      continue
+    }
+
+    // Dollar quote; $1 and friends are parameters, not tags
+    if (ch === '$') {
+      const tag = sql.substring(i, i + 64).match(DOLLAR_TAG)?.[0]
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length)
+        push(SqlTokenType.String, end === -1 ? len : end + tag.length)
+        continue
+      }
+    }
+
+    if (ch === ';') {
+      push(SqlTokenType.Semicolon, i + 1)
+      continue
+    }
+
+    if (/\s/.test(ch)) {
+      let end = i + 1
+      while (end < len && /\s/.test(sql[end])) end++
+      push(SqlTokenType.Whitespace, end)
+      continue
+    }
+
+    if (WORD_CHAR.test(ch)) {
+      let end = i + 1
+      while (end < len && WORD_CHAR.test(sql[end])) end++
+      push(SqlTokenType.Word, end)
+      continue
+    }
+
+    push(SqlTokenType.Symbol, i + 1)
+  }
+
+  return tokens
+}
+
+/**
+ * Splits a SQL script into its statements at semicolons outside strings, quoted
+ * identifiers and comments. Empty statements are dropped.
+ */
+export const parseSqlStatements = (sql: string): SqlStatement[] => {
+  const statements: SqlStatement[] = []
+  let text = ''
+  let tokens: SqlToken[] = []
+  let start = 0
+  let position = 0
+
+  const flush = (): void => {
+    const trimmed = text.trim()
+    if (trimmed) {
+      statements.push({ text: trimmed, offset: start + text.length - text.trimStart().length, tokens })
+    }
+    text = ''
+    tokens = []
+  }
+
+  for (const token of tokenizeSql(sql)) {
+    position += token.text.length
+    if (token.type === SqlTokenType.Semicolon) {
+      flush()
+      start = position
+      continue
+    }
+    text += token.text
+    if (token.type !== SqlTokenType.Whitespace && token.type !== SqlTokenType.Comment) {
+      tokens.push(token)
+    }
+  }
+  flush()
+
+  return statements
+}
+
+export const splitSqlStatements = (sql: string): string[] => parseSqlStatements(sql).map((statement) => statement.text)
@@ -1,5 +1,5 @@
 import { contextBridge, ipcRenderer } from 'electron'
-import type { ConnectionConfig, DataOptions } from '../main/types'
+import type { ConnectionConfig, ConnectionEnvironment, DataOptions, QueryLimits, QueryStatisticsOptions, ScriptErrorMode } from '../main/types'
 import { type ItemType, type RoutineType } from '../main/types'
 import type {
   AddColumnRequest,
@@ -16,6 +16,7 @@ import type {
   InsertRowRequest,
   DeleteRowRequest,
   UpdateRowRequest,
+  ApplyChangesetRequest,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -30,6 +31,16 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '../main/types/schema-operations'
+import type { SchemaCompareEndpoint } from '../main/services/schemaCompare'
+import type { DataCompareEndpoint } from '../main/services/dataCompare'
+import type { TransferEndpoint, TransferOptions, TransferProgressEvent } from '../main/services/transfer'
+import type { QueryJob } from '../main/services/queryJobs'
+import type { MetricSampleEvent } from '../main/services/metrics'
+import type { MaintenanceOperation, MaintenanceTask } from '../main/services/tableMaintenance'
+import type { ImportFormat, ImportProgressEvent, StreamImportOptions } from '../main/services/import'
+import type { GuardrailPolicy } from '../main/services/guardrails'
+import type { ConnectionImportCandidate, SSHHostEntry } from '../main/services/connectionImport'
+import type { ConnectionExportOptions, ConnectionFileImportOptions } from '../main/services/connectionExport'
 
 // Helper to convert Vue proxy objects to plain objects
 const toPlain = <T>(obj: T): T => JSON.parse(JSON.stringify(obj))
@@ -42,6 +53,13 @@ const api = {
     get: (id: string) => ipcRenderer.invoke('connection:get', id),
     save: (config: ConnectionConfig) => ipcRenderer.invoke('connection:save', toPlain(config)),
     delete: (id: string) => ipcRenderer.invoke('connection:delete', id),
+    importScan: (filePaths?: string[]) => ipcRenderer.invoke('connection:importScan', filePaths),
+    importSave: (candidates: ConnectionImportCandidate[], sshHosts: SSHHostEntry[]) =>
+      ipcRenderer.invoke('connection:importSave', toPlain(candidates), toPlain(sshHosts)),
+    exportToFile: (options: ConnectionExportOptions) => ipcRenderer.invoke('connection:exportToFile', toPlain(options)),
+    previewFile: () => ipcRenderer.invoke('connection:previewFile'),
+    importFromFile: (filePath: string, options: ConnectionFileImportOptions) =>
+      ipcRenderer.invoke('connection:importFromFile', filePath, toPlain(options)),
     test: (config: ConnectionConfig) => ipcRenderer.invoke('connection:test', toPlain(config)),
     connect: (id: string) => ipcRenderer.invoke('connection:connect', id),
     connectWithConfig: (config: ConnectionConfig) => ipcRenderer.invoke('connection:connectWithConfig', toPlain(config)),
@@ -59,9 +77,43 @@ const api = {
   query: {
     execute: (connectionId: string, sql: string, params?: unknown[]) =>
       ipcRenderer.invoke('query:execute', connectionId, sql, params ? toPlain(params) : undefined),
-    executeMultiple: (connectionId: string, sql: string) =>
-      ipcRenderer.invoke('query:executeMultiple', connectionId, sql),
-    cancel: (connectionId: string) => ipcRenderer.invoke('query:cancel', connectionId)
+    executeMultiple: (connectionId: string, sql: string, mode?: ScriptErrorMode, database?: string) =>
+      ipcRenderer.invoke('query:executeMultiple', connectionId, sql, mode, database),
+    executeWithCursor: (connectionId: string, sql: string, params?: unknown[], database?: string) =>
+      ipcRenderer.invoke('query:executeWithCursor', connectionId, sql, params ? toPlain(params) : undefined, database),
+    fetchMore: (cursorId: string) => ipcRenderer.invoke('query:fetchMore', cursorId),
+    closeCursor: (cursorId: string) => ipcRenderer.invoke('query:closeCursor', cursorId),
+    cancel: (connectionId: string) => ipcRenderer.invoke('query:cancel', connectionId),
+    getDefaultLimits: () => ipcRenderer.invoke('query:getDefaultLimits'),
+    setDefaultLimits: (limits: QueryLimits) => ipcRenderer.invoke('query:setDefaultLimits', toPlain(limits))
+  },
+  jobs: {
+    start: (connectionId: string, sql: string, database?: string) =>
+      ipcRenderer.invoke('jobs:start', connectionId, sql, database),
+    list: () => ipcRenderer.invoke('jobs:list'),
+    getResults: (jobId: string) => ipcRenderer.invoke('jobs:getResults', jobId),
+    cancel: (jobId: string) => ipcRenderer.invoke('jobs:cancel', jobId),
+    remove: (jobId: string) => ipcRenderer.invoke('jobs:remove', jobId),
+    onChange: (callback: (job: QueryJob) => void) => {
+      ipcRenderer.on('jobs:changed', (_, job) => callback(job))
+    },
+    onFocus: (callback: (jobId: string) => void) => {
+      ipcRenderer.on('jobs:focus', (_, jobId) => callback(jobId))
+    },
+    removeListeners: () => {
+      ipcRenderer.removeAllListeners('jobs:changed')
+      ipcRenderer.removeAllListeners('jobs:focus')
+    }
+  },
+  transaction: {
+    begin: (connectionId: string, sessionId: string) =>
+      ipcRenderer.invoke('transaction:begin', connectionId, sessionId),
+    execute: (sessionId: string, sql: string, params?: unknown[]) =>
+      ipcRenderer.invoke('transaction:execute', sessionId, sql, params ? toPlain(params) : undefined),
+    executeMultiple: (sessionId: string, sql: string, mode?: ScriptErrorMode) =>
+      ipcRenderer.invoke('transaction:executeMultiple', sessionId, sql, mode),
+    commit: (sessionId: string) => ipcRenderer.invoke('transaction:commit', sessionId),
+    rollback: (sessionId: string) => ipcRenderer.invoke('transaction:rollback', sessionId)
   },
   schema: {
     databases: (connectionId: string) => ipcRenderer.invoke('schema:databases', connectionId),
@@ -106,6 +158,8 @@ const api = {
       ipcRenderer.invoke('schema:deleteRow', connectionId, toPlain(request)),
     updateRow: (connectionId: string, request: UpdateRowRequest) =>
       ipcRenderer.invoke('schema:updateRow', connectionId, toPlain(request)),
+    applyChangeset: (connectionId: string, request: ApplyChangesetRequest) =>
+      ipcRenderer.invoke('schema:applyChangeset', connectionId, toPlain(request)),
     getDataTypes: (connectionId: string) =>
       ipcRenderer.invoke('schema:getDataTypes', connectionId),
     getPrimaryKey: (connectionId: string, table: string) =>
@@ -119,6 +173,12 @@ const api = {
       ipcRenderer.invoke('schema:renameView', connectionId, toPlain(request)),
     viewDDL: (connectionId: string, viewName: string) =>
       ipcRenderer.invoke('schema:viewDDL', connectionId, viewName),
+    // Schema compare
+    compare: (source: SchemaCompareEndpoint, target: SchemaCompareEndpoint) =>
+      ipcRenderer.invoke('schema:compare', toPlain(source), toPlain(target)),
+    // Index advisor
+    indexReport: (connectionId: string, database: string) =>
+      ipcRenderer.invoke('schema:indexReport', connectionId, database),
     // Routine operations (stored procedures and functions)
     getRoutines: (connectionId: string, type?: RoutineType) =>
       ipcRenderer.invoke('schema:getRoutines', connectionId, type),
@@ -242,6 +302,26 @@ const api = {
     dropTrigger: (connectionId: string, request: DropTriggerRequest) =>
       ipcRenderer.invoke('schema:dropTrigger', connectionId, toPlain(request))
   },
+  dataCompare: {
+    tables: (location: Omit<DataCompareEndpoint, 'table'>) =>
+      ipcRenderer.invoke('dataCompare:tables', toPlain(location)),
+    compare: (source: DataCompareEndpoint, target: DataCompareEndpoint) =>
+      ipcRenderer.invoke('dataCompare:compare', toPlain(source), toPlain(target))
+  },
+  transfer: {
+    plan: (source: TransferEndpoint, target: TransferEndpoint, tables: string[]) =>
+      ipcRenderer.invoke('transfer:plan', toPlain(source), toPlain(target), toPlain(tables)),
+    start: (options: TransferOptions) =>
+      ipcRenderer.invoke('transfer:start', toPlain(options)),
+    cancel: (transferId: string) =>
+      ipcRenderer.invoke('transfer:cancel', transferId),
+    onProgress: (callback: (event: TransferProgressEvent) => void) => {
+      ipcRenderer.on('transfer:progress', (_, event) => callback(event))
+    },
+    removeProgressListener: () => {
+      ipcRenderer.removeAllListeners('transfer:progress')
+    }
+  },
   history: {
     list: (connectionId?: string, limit?: number, offset?: number) =>
       ipcRenderer.invoke('history:list', connectionId, limit, offset),
@@ -257,6 +337,8 @@ const api = {
       ipcRenderer.invoke('savedQueries:save', name, sql, connectionId, description),
     update: (id: number, updates: { name?: string; sql?: string; description?: string }) =>
       ipcRenderer.invoke('savedQueries:update', id, toPlain(updates)),
+    setParameters: (id: number, values: Record<string, { type: string; value: string }>) =>
+      ipcRenderer.invoke('savedQueries:setParameters', id, toPlain(values)),
     delete: (id: number) => ipcRenderer.invoke('savedQueries:delete', id)
   },
   app: {
@@ -278,19 +360,31 @@ const api = {
       ipcRenderer.invoke('backup:import', connectionId)
   },
   import: {
-    preview: (format: 'csv' | 'json') =>
+    preview: (format: ImportFormat) =>
       ipcRenderer.invoke('import:preview', format),
-    reparse: (filePath: string, format: 'csv' | 'json', options: { hasHeaders?: boolean; delimiter?: string }) =>
+    reparse: (filePath: string, format: ImportFormat, options: { hasHeaders?: boolean; delimiter?: string; source?: string }) =>
       ipcRenderer.invoke('import:reparse', filePath, format, toPlain(options)),
     execute: (
       connectionId: string,
       tableName: string,
       filePath: string,
-      format: 'csv' | 'json',
+      format: ImportFormat,
       columnMappings: Array<{ sourceColumn: string; targetColumn: string; targetType: string }>,
-      options: { hasHeaders?: boolean; delimiter?: string; truncateTable?: boolean; batchSize?: number }
+      options: { hasHeaders?: boolean; delimiter?: string; source?: string; truncateTable?: boolean; batchSize?: number }
     ) =>
       ipcRenderer.invoke('import:execute', connectionId, tableName, filePath, format, toPlain(columnMappings), toPlain(options)),
+    start: (options: StreamImportOptions) =>
+      ipcRenderer.invoke('import:start', toPlain(options)),
+    cancel: (importId: string) =>
+      ipcRenderer.invoke('import:cancel', importId),
+    getCheckpoint: (connectionId: string, tableName: string, filePath: string) =>
+      ipcRenderer.invoke('import:getCheckpoint', connectionId, tableName, filePath),
+    onProgress: (callback: (event: ImportProgressEvent) => void) => {
+      ipcRenderer.on('import:progress', (_, event) => callback(event))
+    },
+    removeProgressListener: () => {
+      ipcRenderer.removeAllListeners('import:progress')
+    },
     getTableColumns: (connectionId: string, tableName: string) =>
       ipcRenderer.invoke('import:getTableColumns', connectionId, tableName)
   },
@@ -312,7 +406,32 @@ const api = {
       includeHeaders?: boolean
       delimiter?: string
     }) =>
-      ipcRenderer.invoke('export:toClipboard', toPlain(options))
+      ipcRenderer.invoke('export:toClipboard', toPlain(options)),
+    stream: (options: {
+      exportId: string
+      connectionId: string
+      source: {
+        type: 'table' | 'query'
+        table?: string
+        sql?: string
+        filters?: { column: string; operator: string; value: unknown }[]
+        orderBy?: string
+        orderDirection?: 'ASC' | 'DESC'
+      }
+      format: 'csv' | 'json' | 'sql'
+      includeHeaders?: boolean
+      delimiter?: string
+      batchSize?: number
+    }) =>
+      ipcRenderer.invoke('export:stream', toPlain(options)),
+    cancel: (exportId: string) =>
+      ipcRenderer.invoke('export:cancel', exportId),
+    onProgress: (callback: (event: { exportId: string; rowsWritten: number; totalRows?: number }) => void) => {
+      ipcRenderer.on('export:progress', (_, event) => callback(event))
+    },
+    removeProgressListener: () => {
+      ipcRenderer.removeAllListeners('export:progress')
+    }
   },
   monitoring: {
     getProcessList: (connectionId: string) =>
@@ -320,7 +439,38 @@ const api = {
     killProcess: (connectionId: string, processId: number | string, force?: boolean) =>
       ipcRenderer.invoke('monitoring:killProcess', connectionId, processId, force),
     getServerStatus: (connectionId: string) =>
-      ipcRenderer.invoke('monitoring:getServerStatus', connectionId)
+      ipcRenderer.invoke('monitoring:getServerStatus', connectionId),
+    getBlockingSessions: (connectionId: string) =>
+      ipcRenderer.invoke('monitoring:getBlockingSessions', connectionId),
+    getQueryStatistics: (connectionId: string, options?: QueryStatisticsOptions) =>
+      ipcRenderer.invoke('monitoring:getQueryStatistics', connectionId, options ? toPlain(options) : undefined)
+  },
+  maintenance: {
+    getInfo: (connectionId: string, table: string, database: string) =>
+      ipcRenderer.invoke('maintenance:getInfo', connectionId, table, database),
+    run: (connectionId: string, table: string, operation: MaintenanceOperation, database: string) =>
+      ipcRenderer.invoke('maintenance:run', connectionId, table, operation, database),
+    list: (connectionId: string) => ipcRenderer.invoke('maintenance:list', connectionId),
+    cancel: (taskId: string) => ipcRenderer.invoke('maintenance:cancel', taskId),
+    onChange: (callback: (task: MaintenanceTask) => void) => {
+      ipcRenderer.on('maintenance:changed', (_, task) => callback(task))
+    },
+    removeListeners: () => {
+      ipcRenderer.removeAllListeners('maintenance:changed')
+    }
+  },
+  metrics: {
+    start: (connectionId: string) => ipcRenderer.invoke('metrics:start', connectionId),
+    stop: (connectionId: string) => ipcRenderer.invoke('metrics:stop', connectionId),
+    getHistory: (connectionId: string) => ipcRenderer.invoke('metrics:getHistory', connectionId),
+    exportCsv: (connectionId: string, windowMs?: number) =>
+      ipcRenderer.invoke('metrics:exportCsv', connectionId, windowMs),
+    onSample: (callback: (event: MetricSampleEvent) => void) => {
+      ipcRenderer.on('metrics:sample', (_, event) => callback(event))
+    },
+    removeListeners: () => {
+      ipcRenderer.removeAllListeners('metrics:sample')
+    }
   },
   bookmarks: {
     add: (type: ItemType, name: string, connectionId: string, database?: string, schema?: string, sql?: string, folder?: string) =>
@@ -356,6 +506,12 @@ const api = {
     clearForConnection: (connectionId: string) =>
       ipcRenderer.invoke('recents:clearForConnection', connectionId)
   },
+  guardrails: {
+    getPolicies: () =>
+      ipcRenderer.invoke('guardrails:getPolicies'),
+    setPolicy: (environment: ConnectionEnvironment, policy: GuardrailPolicy) =>
+      ipcRenderer.invoke('guardrails:setPolicy', environment, toPlain(policy))
+  },
   theme: {
     set: (theme: 'system' | 'light' | 'dark') =>
       ipcRenderer.invoke('theme:set', theme),
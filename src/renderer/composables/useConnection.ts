@@ -1,11 +1,13 @@
 import { ref, computed } from 'vue'
 import { useConnectionsStore } from '../stores/connections'
 import { useTabsStore } from '../stores/tabs'
+import { useTransactionsStore } from '../stores/transactions'
 import type { ConnectionConfig, SavedConnection } from '../types/connection'
 
 export const useConnection = () => {
   const connectionsStore = useConnectionsStore()
   const tabsStore = useTabsStore()
+  const transactionsStore = useTransactionsStore()
   const isLoading = ref(false)
   const error = ref<string | null>(null)
 
@@ -30,8 +32,10 @@ export const useConnection = () => {
     isLoading.value = true
     error.value = null
     try {
-      await connectionsStore.disconnect(connectionId)
-      tabsStore.closeTabsForConnection(connectionId)
+      await transactionsStore.runAfterSettling(transactionsStore.getConnectionTabIds(connectionId), async () => {
+        await connectionsStore.disconnect(connectionId)
+        tabsStore.closeTabsForConnection(connectionId)
+      })
     } catch (e) {
       error.value = e instanceof Error ? e.message : 'Disconnect failed'
     } finally {
@@ -1,6 +1,7 @@
 import { onMounted, onUnmounted } from 'vue'
 import { useTabsStore } from '@/stores/tabs'
 import { useConnectionsStore } from '@/stores/connections'
+import { useTransactionsStore } from '@/stores/transactions'
 
 export interface KeyboardShortcut {
   key: string
@@ -15,6 +16,7 @@ export interface KeyboardShortcut {
 export const useKeyboardShortcuts = () => {
   const tabsStore = useTabsStore()
   const connectionsStore = useConnectionsStore()
+  const transactionsStore = useTransactionsStore()
 
   const shortcuts: KeyboardShortcut[] = [
     // --- Tabs ---
@@ -37,7 +39,7 @@ export const useKeyboardShortcuts = () => {
       action: () => {
         const activeTabId = tabsStore.activeTabId
         if (activeTabId) {
-          tabsStore.closeTab(activeTabId)
+          transactionsStore.runAfterSettling([activeTabId], () => tabsStore.closeTab(activeTabId))
         }
       },
       description: 'Close current tab',
@@ -2,8 +2,11 @@ import { ref } from 'vue'
 import { useConnectionsStore } from '../stores/connections'
 import { useTabsStore, type QueryPlan } from '../stores/tabs'
 import { useRecentsStore } from '../stores/recents'
-import type { QueryResult, MultiQueryResult, QueryHistoryItem } from '../types/query'
+import { useTransactionsStore } from '../stores/transactions'
+import type { QueryResult, MultiQueryResult, QueryHistoryItem, QueryParameterValue } from '../types/query'
 import { DatabaseType } from '../types/connection'
+import { TabType } from '../types/table'
+import { bindQueryParameters, supportsQueryParameters, type BoundQuery } from '../lib/sql-parameters'
 
 /**
  * Checks whether a SQL string contains multiple statements.
@@ -122,8 +125,10 @@ export const useQuery = () => {
   const connectionsStore = useConnectionsStore()
   const tabsStore = useTabsStore()
   const recentsStore = useRecentsStore()
+  const transactionsStore = useTransactionsStore()
   const isExplaining = ref(false)
   const isExecuting = ref(false)
+  const isFetchingMore = ref(false)
   const error = ref<string | null>(null)
 
   const getQueryName = (sql: string): string => {
@@ -133,16 +138,88 @@ export const useQuery = () => {
     return trimmed.length > 50 ? trimmed.substring(0, 50) + '...' : trimmed
   }
 
-  const executeQuery = async (sql: string, tabId?: string): Promise<QueryResult | null> => {
+  /**
+   * Returns the transaction session to run a tab's statements on, or null for autocommit.
+   * In manual commit mode the transaction is opened on the first statement.
+   */
+  const resolveTransactionSession = async (tabId?: string): Promise<string | null> => {
+    if (!tabId) return null
+    const tab = tabsStore.tabs.find((t) => t.id === tabId)
+    if (tab?.data.type !== TabType.Query || !tab.data.manualCommit) return null
+    if (!tab.data.inTransaction) {
+      await transactionsStore.begin(tabId)
+    }
+    return tabId
+  }
+
+  // Failures are ignored: a cursor left open is also closed once it sits idle
+  const closeCursor = async (cursorId: string): Promise<void> => {
+    try {
+      await window.api.query.closeCursor(cursorId)
+    } catch {
+      // Closed already
+    }
+  }
+
+  // A new run replaces the tab's result, so the rows left on its cursor are dropped
+  const closeTabCursor = async (tabId?: string): Promise<void> => {
+    const tab = tabId ? tabsStore.tabs.find((t) => t.id === tabId) : undefined
+    const cursorId = tab?.data.type === TabType.Query ? tab.data.result?.cursorId : undefined
+    if (cursorId) {
+      await closeCursor(cursorId)
+    }
+  }
+
+  const bindParameters = (
+    connectionId: string,
+    sql: string,
+    parameterValues: Record<string, QueryParameterValue>
+  ): BoundQuery => {
+    const connection = connectionsStore.connections.find((c) => c.id === connectionId)
+    if (!connection || !supportsQueryParameters(connection.type)) {
+      throw new Error(`Bound parameters are not supported for ${connection?.type ?? 'this'} connections`)
+    }
+    if (hasMultipleStatements(sql)) {
+      throw new Error('Bound parameters can only be used with a single statement')
+    }
+    return bindQueryParameters(sql, connection.type, parameterValues)
+  }
+
+  /**
+   * Runs a statement, or a batch when it contains several. With `parameterValues` the
+   * placeholders are bound by the driver; history keeps the SQL as written. When the
+   * SQL is a selection, `editorOffset` is where it starts in the editor, so each
+   * statement of a batch can be located there.
+   */
+  const executeQuery = async (
+    sql: string,
+    tabId?: string,
+    parameterValues?: Record<string, QueryParameterValue>,
+    editorOffset = 0
+  ): Promise<QueryResult | null> => {
     const connectionId = connectionsStore.activeConnectionId
     if (!connectionId) {
       error.value = 'No active connection'
       return null
     }
 
+    let bound: BoundQuery | null = null
+    if (parameterValues) {
+      try {
+        bound = bindParameters(connectionId, sql, parameterValues)
+      } catch (e) {
+        error.value = e instanceof Error ? e.message : 'Invalid query parameters'
+        if (tabId) {
+          tabsStore.updateTabData(tabId, { results: undefined, activeResultIndex: undefined } as any)
+          tabsStore.setTabResult(tabId, { columns: [], rows: [], rowCount: 0, executionTime: 0, error: error.value })
+        }
+        return null
+      }
+    }
+
     // Check if the SQL contains multiple statements
-    if (hasMultipleStatements(sql)) {
-      return executeMultipleQueries(sql, tabId)
+    if (!bound && hasMultipleStatements(sql)) {
+      return executeMultipleQueries(sql, tabId, editorOffset)
     }
 
     isExecuting.value = true
@@ -153,7 +230,14 @@ export const useQuery = () => {
     }
 
     try {
-      const result = await window.api.query.execute(connectionId, sql)
+      await closeTabCursor(tabId)
+      const sessionId = await resolveTransactionSession(tabId)
+      const statement = bound?.sql ?? sql
+      const params: [unknown[]] | [] = bound ? [bound.params] : []
+      // Outside a transaction the rest of a truncated read stays on a cursor to page through
+      const result = sessionId
+        ? await window.api.transaction.execute(sessionId, statement, ...params)
+        : await window.api.query.executeWithCursor(connectionId, statement, bound?.params, connectionsStore.getActiveDatabase(connectionId))
 
       if (tabId) {
         // Clear multi-result state and set single result
@@ -195,7 +279,7 @@ export const useQuery = () => {
     }
   }
 
-  const executeMultipleQueries = async (sql: string, tabId?: string): Promise<QueryResult | null> => {
+  const executeMultipleQueries = async (sql: string, tabId?: string, editorOffset = 0): Promise<QueryResult | null> => {
     const connectionId = connectionsStore.activeConnectionId
     if (!connectionId) {
       error.value = 'No active connection'
@@ -210,10 +294,19 @@ export const useQuery = () => {
     }
 
     try {
-      const multiResult: MultiQueryResult = await window.api.query.executeMultiple(connectionId, sql)
+      await closeTabCursor(tabId)
+      const sessionId = await resolveTransactionSession(tabId)
+      const tab = tabId ? tabsStore.tabs.find((t) => t.id === tabId) : undefined
+      const mode = tab?.data.type === TabType.Query ? tab.data.scriptErrorMode : undefined
+      const multiResult: MultiQueryResult = sessionId
+        ? await window.api.transaction.executeMultiple(sessionId, sql, mode)
+        : await window.api.query.executeMultiple(connectionId, sql, mode, connectionsStore.getActiveDatabase(connectionId))
 
       if (tabId) {
-        tabsStore.setTabResults(tabId, multiResult.results)
+        const results = editorOffset
+          ? multiResult.results.map((r) => (r.statement ? { ...r, statement: { ...r.statement, offset: r.statement.offset + editorOffset } } : r))
+          : multiResult.results
+        tabsStore.setTabResults(tabId, results)
       }
 
       // Check if any result has an error
@@ -258,6 +351,27 @@ export const useQuery = () => {
     }
   }
 
+  /**
+   * Appends the next batch of a tab's truncated result from its open cursor.
+   */
+  const fetchMoreRows = async (tabId: string): Promise<void> => {
+    const tab = tabsStore.tabs.find((t) => t.id === tabId)
+    const cursorId = tab?.data.type === TabType.Query ? tab.data.result?.cursorId : undefined
+    if (!cursorId || isFetchingMore.value) return
+
+    isFetchingMore.value = true
+    try {
+      const batch = await window.api.query.fetchMore(cursorId)
+      tabsStore.appendTabRows(tabId, batch.rows, batch.hasMore)
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to fetch more rows'
+      // A failed fetch closes the cursor, so what was read so far is all there is
+      tabsStore.appendTabRows(tabId, [], false)
+    } finally {
+      isFetchingMore.value = false
+    }
+  }
+
   const cancelQuery = async (): Promise<boolean> => {
     const connectionId = connectionsStore.activeConnectionId
     if (!connectionId) return false
@@ -288,7 +402,11 @@ export const useQuery = () => {
     }
   }
 
-  const explainQuery = async (sql: string, tabId?: string, analyze = false): Promise<QueryPlan | null> => {
+  /**
+   * Shows the plan of `sql` in the tab. `genericPlan` plans a PostgreSQL statement that
+   * still has `$n` placeholders, such as one taken from pg_stat_statements (PostgreSQL 16+).
+   */
+  const explainQuery = async (sql: string, tabId?: string, analyze = false, genericPlan = false): Promise<QueryPlan | null> => {
     const connectionId = connectionsStore.activeConnectionId
     if (!connectionId) {
       error.value = 'No active connection'
@@ -311,9 +429,13 @@ export const useQuery = () => {
       // Generate EXPLAIN query based on database type
       switch (connection.type) {
         case DatabaseType.PostgreSQL:
-          explainSql = analyze
-            ? `EXPLAIN (ANALYZE, COSTS, VERBOSE, BUFFERS, FORMAT JSON) ${sql}`
-            : `EXPLAIN (COSTS, VERBOSE, FORMAT JSON) ${sql}`
+          if (genericPlan) {
+            explainSql = `EXPLAIN (GENERIC_PLAN, COSTS, VERBOSE, FORMAT JSON) ${sql}`
+          } else {
+            explainSql = analyze
+              ? `EXPLAIN (ANALYZE, COSTS, VERBOSE, BUFFERS, FORMAT JSON) ${sql}`
+              : `EXPLAIN (COSTS, VERBOSE, FORMAT JSON) ${sql}`
+          }
           break
         case DatabaseType.MySQL:
           explainSql = analyze
@@ -338,7 +460,11 @@ export const useQuery = () => {
           return null
       }
 
-      const result = await window.api.query.execute(connectionId, explainSql)
+      // EXPLAIN ANALYZE runs the statement, so keep it inside the tab's transaction
+      const sessionId = await resolveTransactionSession(tabId)
+      const result = sessionId
+        ? await window.api.transaction.execute(sessionId, explainSql)
+        : await window.api.query.execute(connectionId, explainSql)
 
       if (result.error) {
         error.value = result.error
@@ -426,9 +552,12 @@ export const useQuery = () => {
   return {
     isExecuting,
     isExplaining,
+    isFetchingMore,
     error,
     executeQuery,
     explainQuery,
+    fetchMoreRows,
+    closeCursor,
     cancelQuery,
     createQueryTab,
     getHistory,
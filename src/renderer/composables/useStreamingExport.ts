@@ -0,0 +1,77 @@
+import { watch } from 'vue'
+import { toast } from 'vue-sonner'
+import { useExportsStore, type ActiveExport } from '../stores/exports'
+import { formatNumber, generateId } from '../lib/utils'
+import type { ExportSource, StreamExportFormat } from '../types/export'
+
+const describeProgress = (entry: ActiveExport): string => {
+  const written = formatNumber(entry.rowsWritten)
+  if (entry.totalRows === undefined) {
+    return `${written} rows written`
+  }
+  return `${written} of ${formatNumber(entry.totalRows)} rows written`
+}
+
+export const useStreamingExport = () => {
+  const exportsStore = useExportsStore()
+
+  const exportAll = async (
+    connectionId: string,
+    source: ExportSource,
+    format: StreamExportFormat,
+    label: string
+  ) => {
+    const exportId = generateId()
+    let progressShown = false
+
+    // The progress toast appears with the first page, after the save dialog has closed
+    const stopWatching = watch(
+      () => {
+        const entry = exportsStore.getExport(exportId)
+        return entry && entry.rowsWritten > 0 ? describeProgress(entry) : null
+      },
+      (description) => {
+        if (!description) return
+        progressShown = true
+        toast.loading(`Exporting ${label}`, {
+          id: exportId,
+          description,
+          duration: Infinity,
+          action: {
+            label: 'Cancel',
+            onClick: () => exportsStore.cancelExport(exportId)
+          }
+        })
+      }
+    )
+
+    // Updates replace the loading toast in place, so drop its Cancel action
+    const settled = { id: exportId, action: undefined }
+
+    try {
+      const result = await exportsStore.startExport(connectionId, source, format, label, exportId)
+      if (result.success) {
+        toast.success(`Exported ${formatNumber(result.rowCount ?? 0)} rows`, {
+          ...settled,
+          description: result.filePath,
+          duration: 5000
+        })
+      } else if (result.error === 'Export canceled') {
+        if (progressShown) toast.info('Export canceled', { ...settled, description: undefined, duration: 3000 })
+      } else {
+        toast.error('Export failed', { ...settled, description: result.error, duration: 8000 })
+      }
+    } catch (error) {
+      toast.error('Export failed', {
+        ...settled,
+        description: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      stopWatching()
+    }
+  }
+
+  return {
+    exportAll
+  }
+}
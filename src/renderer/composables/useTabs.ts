@@ -2,6 +2,7 @@ import { computed } from 'vue'
 import { useTabsStore, type Tab } from '../stores/tabs'
 import { useConnectionsStore } from '../stores/connections'
 import { RoutineType } from '../types/table'
+import type { SavedQuery } from '../types/electron'
 
 export const useTabs = () => {
   const tabsStore = useTabsStore()
@@ -18,6 +19,15 @@ export const useTabs = () => {
     return tabsStore.createQueryTab(connectionId, sql)
   }
 
+  // Linking the tab lets it update the saved query and remember its parameter values
+  const openSavedQueryTab = (query: SavedQuery) => {
+    const connectionId = connectionsStore.activeConnectionId
+    if (!connectionId) return null
+    const tab = tabsStore.createQueryTab(connectionId, query.sql, query.name)
+    tabsStore.setTabSavedQuery(tab.id, query.id, query.parameterValues)
+    return tab
+  }
+
   const openTableTab = (tableName: string, database?: string, schema?: string) => {
     const connectionId = connectionsStore.activeConnectionId
     if (!connectionId) return null
@@ -107,6 +117,18 @@ export const useTabs = () => {
     return tabsStore.createCreateTableTab(connectionId, database, schema)
   }
 
+  const openSchemaCompareTab = (database?: string) => {
+    const connectionId = connectionsStore.activeConnectionId
+    if (!connectionId) return null
+    return tabsStore.createSchemaCompareTab(connectionId, database)
+  }
+
+  const openDataCompareTab = (database?: string, schema?: string) => {
+    const connectionId = connectionsStore.activeConnectionId
+    if (!connectionId) return null
+    return tabsStore.createDataCompareTab(connectionId, database, schema)
+  }
+
   const closeTab = (id: string) => {
     tabsStore.closeTab(id)
   }
@@ -131,7 +153,7 @@ export const useTabs = () => {
     tabsStore.setTabSql(id, sql)
   }
 
-  const setTableView = (id: string, view: 'data' | 'structure') => {
+  const setTableView = (id: string, view: 'data' | 'structure' | 'info') => {
     tabsStore.setTableView(id, view)
   }
 
@@ -141,6 +163,7 @@ export const useTabs = () => {
     activeTabId,
     hasUnsavedChanges,
     openQueryTab,
+    openSavedQueryTab,
     openTableTab,
     openViewTab,
     openERDiagramTab,
@@ -154,6 +177,8 @@ export const useTabs = () => {
     openExtensionsTab,
     openEnumsTab,
     openCreateTableTab,
+    openSchemaCompareTab,
+    openDataCompareTab,
     closeTab,
     closeAllTabs,
     closeOtherTabs,
@@ -0,0 +1,20 @@
+import { IndexFindingKind, IndexFixAction, type IndexFinding } from '@/types/index-advisor'
+
+export const INDEX_FINDING_LABELS: Record<IndexFindingKind, string> = {
+  [IndexFindingKind.Duplicate]: 'Duplicate',
+  [IndexFindingKind.Redundant]: 'Redundant',
+  [IndexFindingKind.Unused]: 'Unused',
+  [IndexFindingKind.UnindexedForeignKey]: 'Unindexed foreign key'
+}
+
+/**
+ * Collects the fixes into one script for review, each statement preceded by its reason.
+ * Missing indexes are created before anything is dropped.
+ */
+export const buildIndexFixScript = (findings: IndexFinding[]): string => {
+  const ordered = [
+    ...findings.filter((f) => f.fix.action === IndexFixAction.Create),
+    ...findings.filter((f) => f.fix.action === IndexFixAction.Drop)
+  ]
+  return ordered.map((f) => `-- ${f.table}: ${f.reason}\n${f.sql};`).join('\n\n')
+}
@@ -0,0 +1,78 @@
+import type { BlockingSession } from '../types/table'
+
+export interface BlockingNode {
+  session: BlockingSession
+  children: BlockingNode[]
+}
+
+export interface BlockingRow {
+  key: string
+  session: BlockingSession
+  depth: number
+  // Sessions waiting on this one, directly or further down the chain
+  blockedCount: number
+}
+
+const countBlocked = (node: BlockingNode, seen = new Set<number>()): number => {
+  for (const child of node.children) {
+    if (!seen.has(child.session.id)) {
+      seen.add(child.session.id)
+      countBlocked(child, seen)
+    }
+  }
+  return seen.size
+}
+
+/**
+ * Builds the blocking chains as trees, rooted at the sessions that block others without
+ * waiting themselves. A session waiting on two blockers appears under both. Sessions in a
+ * deadlock cycle have no such root, so one of them is shown as the root until the server
+ * breaks the cycle.
+ */
+export const buildBlockingChains = (sessions: BlockingSession[]): BlockingNode[] => {
+  const byId = new Map(sessions.map((s) => [s.id, s]))
+  const waiters = new Map<number, BlockingSession[]>()
+  for (const session of sessions) {
+    for (const blockerId of session.blockedBy) {
+      if (!byId.has(blockerId)) continue
+      waiters.set(blockerId, [...(waiters.get(blockerId) ?? []), session])
+    }
+  }
+
+  const placed = new Set<number>()
+  const buildNode = (session: BlockingSession, ancestors: Set<number>): BlockingNode => {
+    placed.add(session.id)
+    const path = new Set(ancestors).add(session.id)
+    const children = (waiters.get(session.id) ?? [])
+      .filter((waiter) => !path.has(waiter.id))
+      .map((waiter) => buildNode(waiter, path))
+    return { session, children }
+  }
+
+  const roots = sessions
+    .filter((s) => waiters.has(s.id) && s.blockedBy.every((id) => !byId.has(id)))
+    .map((s) => buildNode(s, new Set()))
+
+  for (const session of sessions) {
+    if (!placed.has(session.id) && waiters.has(session.id)) {
+      roots.push(buildNode(session, new Set()))
+    }
+  }
+
+  return roots.sort((a, b) => countBlocked(b) - countBlocked(a))
+}
+
+// Flattens the chains depth-first into rows for display
+export const flattenBlockingChains = (roots: BlockingNode[]): BlockingRow[] => {
+  const rows: BlockingRow[] = []
+  const visit = (node: BlockingNode, depth: number, key: string) => {
+    rows.push({ key, session: node.session, depth, blockedCount: countBlocked(node) })
+    for (const child of node.children) {
+      visit(child, depth + 1, `${key}/${child.session.id}`)
+    }
+  }
+  for (const root of roots) {
+    visit(root, 0, String(root.session.id))
+  }
+  return rows
+}
@@ -0,0 +1,33 @@
+import { MaintenanceOperation, type MaintenanceProgress } from '@/types/maintenance'
+
+export const MAINTENANCE_OPERATION_LABELS: Record<MaintenanceOperation, string> = {
+  [MaintenanceOperation.Vacuum]: 'VACUUM',
+  [MaintenanceOperation.VacuumAnalyze]: 'VACUUM ANALYZE',
+  [MaintenanceOperation.VacuumFull]: 'VACUUM FULL',
+  [MaintenanceOperation.Analyze]: 'ANALYZE',
+  [MaintenanceOperation.Reindex]: 'REINDEX',
+  [MaintenanceOperation.Optimize]: 'OPTIMIZE',
+  [MaintenanceOperation.Check]: 'CHECK',
+  [MaintenanceOperation.Repair]: 'REPAIR'
+}
+
+// Operations that block the table while they rewrite it are confirmed first
+export const MAINTENANCE_WARNINGS: Partial<Record<MaintenanceOperation, string>> = {
+  [MaintenanceOperation.VacuumFull]:
+    'VACUUM FULL rewrites the table and holds an exclusive lock until it finishes, blocking reads and writes. It needs free disk space for a full copy.',
+  [MaintenanceOperation.Reindex]:
+    'REINDEX rebuilds every index of the table and blocks writes to it until it finishes.',
+  [MaintenanceOperation.Optimize]:
+    'OPTIMIZE TABLE rebuilds the table. InnoDB allows writes during most of it, other engines lock the table until it finishes.',
+  [MaintenanceOperation.Repair]:
+    'REPAIR TABLE locks the table while it runs and can lose rows it cannot recover. Take a backup first.'
+}
+
+/** Share of the current phase that is done, 0 to 100; null when the server reports no block counts */
+export const progressPercent = (progress: MaintenanceProgress | null): number | null => {
+  if (!progress || progress.done === null || !progress.total) return null
+  return Math.min(100, Math.round((progress.done / progress.total) * 100))
+}
+
+export const formatRatio = (ratio: number | null): string =>
+  ratio === null ? '-' : `${(ratio * 100).toFixed(1)}%`
@@ -0,0 +1,69 @@
+import { formatBytes } from './utils'
+import { MetricUnit, type MetricDefinition } from '../types/metrics'
+
+export interface MetricWindow {
+  label: string
+  ms: number
+}
+
+export const METRIC_WINDOWS: MetricWindow[] = [
+  { label: 'Last 5 minutes', ms: 5 * 60 * 1000 },
+  { label: 'Last 15 minutes', ms: 15 * 60 * 1000 },
+  { label: 'Last hour', ms: 60 * 60 * 1000 }
+]
+
+export interface MetricChart {
+  title: string
+  unit: MetricUnit
+  metrics: MetricDefinition[]
+}
+
+// Groups metrics by chart title, keeping the order the server listed them in
+export const groupMetricCharts = (metrics: MetricDefinition[]): MetricChart[] => {
+  const charts = new Map<string, MetricChart>()
+  for (const metric of metrics) {
+    const chart = charts.get(metric.chart)
+    if (chart) {
+      chart.metrics.push(metric)
+    } else {
+      charts.set(metric.chart, { title: metric.chart, unit: metric.unit, metrics: [metric] })
+    }
+  }
+  return [...charts.values()]
+}
+
+const compact = (value: number): string => {
+  if (value === 0) return '0'
+  if (Math.abs(value) >= 1_000_000) return `${parseFloat((value / 1_000_000).toFixed(1))}M`
+  if (Math.abs(value) >= 10_000) return `${parseFloat((value / 1000).toFixed(1))}k`
+  if (Math.abs(value) >= 100) return String(Math.round(value))
+  return String(parseFloat(value.toFixed(Math.abs(value) >= 10 ? 1 : 2)))
+}
+
+export const formatMetricValue = (value: number | null, unit: MetricUnit): string => {
+  if (value === null) return '-'
+  switch (unit) {
+    case MetricUnit.PerSecond:
+      return `${compact(value)}/s`
+    case MetricUnit.Percent:
+      return `${parseFloat(value.toFixed(1))}%`
+    case MetricUnit.Bytes:
+      return formatBytes(Math.max(0, Math.round(value)))
+    case MetricUnit.Seconds:
+      return `${compact(value)}s`
+    default:
+      return compact(value)
+  }
+}
+
+/**
+ * Rounds the top of a chart's y axis up to 1, 2 or 5 times a power of ten, so the
+ * axis label reads cleanly. Percentages always top out at 100.
+ */
+export const chartCeiling = (max: number, unit: MetricUnit): number => {
+  if (unit === MetricUnit.Percent) return 100
+  if (max <= 0) return 1
+  const magnitude = Math.pow(10, Math.floor(Math.log10(max)))
+  const step = [1, 2, 5, 10].find((s) => s * magnitude >= max) ?? 10
+  return step * magnitude
+}
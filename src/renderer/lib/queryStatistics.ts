@@ -0,0 +1,39 @@
+import { DatabaseType } from '@/types/connection'
+import type { QueryStatistic } from '@/types/table'
+
+export interface ExplainableStatement {
+  sql: string
+  // PostgreSQL plans a statement with $n placeholders without their values
+  genericPlan: boolean
+}
+
+const PLACEHOLDER_PATTERN = /\$\d+/
+
+/**
+ * Pick the SQL to EXPLAIN for a statistics row: the captured sample when the
+ * server kept one, otherwise the normalized text if the engine can plan it.
+ * Returns null when the statement cannot be explained as it stands.
+ */
+export const explainableStatement = (stat: QueryStatistic, dbType: DatabaseType): ExplainableStatement | null => {
+  if (stat.sample?.trim()) {
+    return { sql: stat.sample.trim(), genericPlan: false }
+  }
+
+  const sql = stat.query.trim()
+  // Long digests are cut off with "..."
+  if (!sql || sql.endsWith('...')) return null
+
+  if (dbType === DatabaseType.PostgreSQL) {
+    return { sql, genericPlan: PLACEHOLDER_PATTERN.test(sql) }
+  }
+
+  // MySQL and ClickHouse replace literals with ?, which no longer parses
+  return sql.includes('?') ? null : { sql, genericPlan: false }
+}
+
+/** Share of shared buffer reads served from cache, or null when the engine does not report it */
+export const bufferHitRatio = (stat: QueryStatistic): number | null => {
+  if (stat.sharedBlocksHit === null || stat.sharedBlocksRead === null) return null
+  const total = stat.sharedBlocksHit + stat.sharedBlocksRead
+  return total > 0 ? (stat.sharedBlocksHit / total) * 100 : null
+}
@@ -0,0 +1,271 @@
+import { DatabaseType } from '@/types/connection'
+import {
+  QueryParameterStyle,
+  QueryParameterType,
+  type QueryParameter,
+  type QueryParameterValue
+} from '@/types/query'
+
+interface ParameterOccurrence {
+  key: string
+  style: QueryParameterStyle
+  start: number
+  end: number
+}
+
+export interface BoundQuery {
+  sql: string
+  params: unknown[]
+}
+
+// Engines whose drivers bind the params array passed to query:execute
+const BINDABLE_TYPES = new Set<DatabaseType>([
+  DatabaseType.PostgreSQL,
+  DatabaseType.MySQL,
+  DatabaseType.MariaDB,
+  DatabaseType.SQLite
+])
+
+const NUMERIC_TYPE_PATTERN = /^(int|integer|smallint|bigint|tinyint|mediumint|int2|int4|int8|numeric|decimal|real|float|float4|float8|double|serial|bigserial|money)\b/i
+const BOOLEAN_TYPE_PATTERN = /^(bool|boolean)\b/i
+
+const isIdentifierStart = (ch: string | undefined): boolean => !!ch && /[A-Za-z_]/.test(ch)
+const isIdentifierChar = (ch: string | undefined): boolean => !!ch && /[A-Za-z0-9_]/.test(ch)
+const isDigit = (ch: string | undefined): boolean => !!ch && ch >= '0' && ch <= '9'
+
+export const supportsQueryParameters = (type: DatabaseType): boolean => BINDABLE_TYPES.has(type)
+
+/**
+ * Finds placeholders outside of string literals, quoted identifiers, comments and
+ * dollar-quoted bodies. `?` is ignored for PostgreSQL, where it is a jsonb operator.
+ * MySQL and MariaDB strings also end only at a quote that is not backslash-escaped.
+ */
+const findOccurrences = (sql: string, dialect: DatabaseType): ParameterOccurrence[] => {
+  const occurrences: ParameterOccurrence[] = []
+  const len = sql.length
+  const backslashEscapes = dialect === DatabaseType.MySQL || dialect === DatabaseType.MariaDB
+  let positionalCount = 0
+  let i = 0
+
+  const skipQuoted = (quote: string) => {
+    i++
+    while (i < len) {
+      if (backslashEscapes && quote !== '`' && sql[i] === '\\') {
+        i += 2
+      } else if (sql[i] === quote && sql[i + 1] === quote) {
+        i += 2
+      } else if (sql[i] === quote) {
+        i++
+        return
+      } else {
+        i++
+      }
+    }
+  }
+
+  while (i < len) {
+    const ch = sql[i]
+
+    if (ch === "'" || ch === '"' || ch === '`') {
+      skipQuoted(ch)
+      continue
+    }
+
+    // Line comment (--)
+    if (ch === '-' && sql[i + 1] === '-') {
+      while (i < len && sql[i] !== '\n') i++
+      continue
+    }
+
+    // Block comment (/* ... */)
+    if (ch === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2)
+      i = close === -1 ? len : close + 2
+      continue
+    }
+
+    if (ch === '$') {
+      // Numbered placeholder ($1)
+      if (isDigit(sql[i + 1])) {
+        let end = i + 1
+        while (isDigit(sql[end])) end++
+        occurrences.push({ key: sql.slice(i, end), style: QueryParameterStyle.Numbered, start: i, end })
+        i = end
+        continue
+      }
+      // Dollar-quoted string ($$ ... $$ or $tag$ ... $tag$)
+      const tagMatch = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i))
+      if (tagMatch && !isIdentifierChar(sql[i - 1])) {
+        const tag = tagMatch[0]
+        const close = sql.indexOf(tag, i + tag.length)
+        i = close === -1 ? len : close + tag.length
+        continue
+      }
+    }
+
+    // Named placeholder (:name), but not a :: cast or := assignment
+    if (ch === ':' && sql[i - 1] !== ':' && isIdentifierStart(sql[i + 1])) {
+      let end = i + 1
+      while (isIdentifierChar(sql[end])) end++
+      occurrences.push({ key: sql.slice(i + 1, end), style: QueryParameterStyle.Named, start: i, end })
+      i = end
+      continue
+    }
+    if (ch === ':' && sql[i + 1] === ':') {
+      i += 2
+      continue
+    }
+
+    if (ch === '?' && dialect !== DatabaseType.PostgreSQL) {
+      positionalCount++
+      occurrences.push({ key: `?${positionalCount}`, style: QueryParameterStyle.Positional, start: i, end: i + 1 })
+    }
+
+    i++
+  }
+
+  const styles = new Set(occurrences.map((o) => o.style))
+  if (styles.size > 1) {
+    throw new Error('Mixing :name, $n and ? placeholders in one query is not supported')
+  }
+
+  return occurrences
+}
+
+const typeFromCast = (castType: string): QueryParameterType | null => {
+  if (NUMERIC_TYPE_PATTERN.test(castType)) return QueryParameterType.Number
+  if (BOOLEAN_TYPE_PATTERN.test(castType)) return QueryParameterType.Boolean
+  return QueryParameterType.Text
+}
+
+// Reads the SQL around a placeholder for an explicit cast or a numeric-only position
+const inferType = (sql: string, occurrence: ParameterOccurrence): QueryParameterType | null => {
+  const before = sql.slice(0, occurrence.start)
+  const after = sql.slice(occurrence.end)
+
+  const pgCast = /^\s*::\s*([A-Za-z_][A-Za-z0-9_]*)/.exec(after)
+  if (pgCast) return typeFromCast(pgCast[1])
+
+  if (/CAST\s*\(\s*$/i.test(before)) {
+    const castAs = /^\s+AS\s+([A-Za-z_][A-Za-z0-9_]*)/i.exec(after)
+    if (castAs) return typeFromCast(castAs[1])
+  }
+
+  if (/\b(LIMIT|OFFSET)\s*$/i.test(before)) return QueryParameterType.Number
+
+  return null
+}
+
+const getLabel = (occurrence: ParameterOccurrence): string => {
+  switch (occurrence.style) {
+    case QueryParameterStyle.Named:
+      return `:${occurrence.key}`
+    case QueryParameterStyle.Positional:
+      return `? (${occurrence.key.slice(1)})`
+    default:
+      return occurrence.key
+  }
+}
+
+/**
+ * Lists the distinct placeholders in a query, in first-use order ($n by number), with a
+ * type inferred from casts or LIMIT/OFFSET where possible and Text otherwise.
+ */
+export const parseQueryParameters = (sql: string, dialect: DatabaseType): QueryParameter[] => {
+  const parameters = new Map<string, QueryParameter>()
+
+  for (const occurrence of findOccurrences(sql, dialect)) {
+    const inferred = inferType(sql, occurrence)
+    const existing = parameters.get(occurrence.key)
+    if (existing) {
+      if (existing.type === QueryParameterType.Text && inferred) existing.type = inferred
+      continue
+    }
+    parameters.set(occurrence.key, {
+      key: occurrence.key,
+      label: getLabel(occurrence),
+      style: occurrence.style,
+      type: inferred ?? QueryParameterType.Text
+    })
+  }
+
+  const list = [...parameters.values()]
+  if (list[0]?.style === QueryParameterStyle.Numbered) {
+    list.sort((a, b) => Number(a.key.slice(1)) - Number(b.key.slice(1)))
+  }
+  return list
+}
+
+export const coerceParameterValue = (
+  label: string,
+  { type, value }: QueryParameterValue,
+  dialect: DatabaseType
+): unknown => {
+  switch (type) {
+    case QueryParameterType.Null:
+      return null
+    case QueryParameterType.Number: {
+      const num = Number(value.trim())
+      if (value.trim() === '' || Number.isNaN(num)) {
+        throw new Error(`Parameter ${label} must be a number`)
+      }
+      return num
+    }
+    case QueryParameterType.Boolean: {
+      let bool: boolean
+      if (/^(true|t|yes|1)$/i.test(value.trim())) bool = true
+      else if (/^(false|f|no|0)$/i.test(value.trim())) bool = false
+      else throw new Error(`Parameter ${label} must be true or false`)
+      // SQLite has no boolean type and its driver only binds numbers
+      return dialect === DatabaseType.SQLite ? Number(bool) : bool
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Rewrites placeholders into the driver's native form and collects the bound values.
+ * PostgreSQL gets $n (a repeated name reuses its index); other engines get one ? per use.
+ */
+export const bindQueryParameters = (
+  sql: string,
+  dialect: DatabaseType,
+  values: Record<string, QueryParameterValue>
+): BoundQuery => {
+  const occurrences = findOccurrences(sql, dialect)
+  const labels = new Map(parseQueryParameters(sql, dialect).map((p) => [p.key, p.label]))
+  const resolve = (key: string): unknown => {
+    const label = labels.get(key) ?? key
+    const value = values[key]
+    if (!value) {
+      throw new Error(`No value provided for parameter ${label}`)
+    }
+    return coerceParameterValue(label, value, dialect)
+  }
+
+  const params: unknown[] = []
+  const pgIndexes = new Map<string, number>()
+  let result = ''
+  let cursor = 0
+
+  for (const occurrence of occurrences) {
+    result += sql.slice(cursor, occurrence.start)
+    cursor = occurrence.end
+
+    if (dialect === DatabaseType.PostgreSQL) {
+      let index = pgIndexes.get(occurrence.key)
+      if (index === undefined) {
+        params.push(resolve(occurrence.key))
+        index = params.length
+        pgIndexes.set(occurrence.key, index)
+      }
+      result += `$${index}`
+    } else {
+      params.push(resolve(occurrence.key))
+      result += '?'
+    }
+  }
+
+  return { sql: result + sql.slice(cursor), params }
+}
@@ -1,7 +1,13 @@
 import { defineStore } from 'pinia'
 import { ref, computed, toRaw } from 'vue'
 import { ConnectionStatus, DatabaseType } from '../types/connection'
-import type { SavedConnection, ConnectionConfig, ConnectionState } from '../types/connection'
+import type {
+  SavedConnection,
+  ConnectionConfig,
+  ConnectionImportCandidate,
+  ConnectionState,
+  SSHHostEntry
+} from '../types/connection'
 import type { Database, Table, DatabaseSchema } from '../types/table'
 
 export const useConnectionsStore = defineStore('connections', () => {
@@ -130,6 +136,25 @@ export const useConnectionsStore = defineStore('connections', () => {
     }
   }
 
+  const importConnections = async (candidates: ConnectionImportCandidate[], sshHosts: SSHHostEntry[]) => {
+    isLoading.value = true
+    error.value = null
+    try {
+      const saved = await window.api.connections.importSave(
+        JSON.parse(JSON.stringify(toRaw(candidates))),
+        JSON.parse(JSON.stringify(toRaw(sshHosts)))
+      )
+      connections.value.push(...saved)
+      folders.value = await window.api.connections.getFolders()
+      return saved
+    } catch (e) {
+      error.value = e instanceof Error ? e.message : 'Failed to import connections'
+      throw e
+    } finally {
+      isLoading.value = false
+    }
+  }
+
   const deleteConnection = async (id: string) => {
     isLoading.value = true
     error.value = null
@@ -229,6 +254,9 @@ export const useConnectionsStore = defineStore('connections', () => {
           ssh: config.ssh ?? null,
           color: config.color ?? null,
           environment: config.environment ?? null,
+          readOnly: config.readOnly ?? false,
+          session: config.session ?? null,
+          queryLimits: config.queryLimits ?? null,
           folder: config.folder ?? null,
           sortOrder: 0,
           createdAt: now,
@@ -447,6 +475,7 @@ export const useConnectionsStore = defineStore('connections', () => {
     // Actions
     loadConnections,
     saveConnection,
+    importConnections,
     deleteConnection,
     testConnection,
     connect,
@@ -0,0 +1,78 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { generateId } from '../lib/utils'
+import type { ExportSource, ExportProgressEvent, StreamExportFormat, StreamExportResult } from '../types/export'
+
+export interface ActiveExport {
+  exportId: string
+  connectionId: string
+  label: string
+  format: StreamExportFormat
+  rowsWritten: number
+  totalRows?: number
+}
+
+export const useExportsStore = defineStore('exports', () => {
+  // State
+  const activeExports = ref<ActiveExport[]>([])
+  let listenerActive = false
+
+  const handleProgress = (event: ExportProgressEvent) => {
+    const entry = activeExports.value.find((e) => e.exportId === event.exportId)
+    if (!entry) return
+    entry.rowsWritten = event.rowsWritten
+    entry.totalRows = event.totalRows
+  }
+
+  const init = () => {
+    if (listenerActive) return
+    if (!window.api?.export) return
+    listenerActive = true
+    window.api.export.onProgress(handleProgress)
+  }
+
+  const getExport = (exportId: string): ActiveExport | undefined => {
+    return activeExports.value.find((e) => e.exportId === exportId)
+  }
+
+  /**
+   * Streams a whole table or query result to a file chosen in the main process. Rows never
+   * reach the renderer; only progress counts do. Resolves once the file is written, canceled
+   * or failed.
+   */
+  const startExport = async (
+    connectionId: string,
+    source: ExportSource,
+    format: StreamExportFormat,
+    label: string,
+    exportId: string = generateId()
+  ): Promise<StreamExportResult> => {
+    init()
+    activeExports.value.push({ exportId, connectionId, label, format, rowsWritten: 0 })
+    try {
+      return await window.api.export.stream({ exportId, connectionId, source, format })
+    } finally {
+      activeExports.value = activeExports.value.filter((e) => e.exportId !== exportId)
+    }
+  }
+
+  const cancelExport = async (exportId: string): Promise<boolean> => {
+    return window.api.export.cancel(exportId)
+  }
+
+  const destroy = () => {
+    window.api.export.removeProgressListener()
+    listenerActive = false
+  }
+
+  return {
+    // State
+    activeExports,
+    // Actions
+    init,
+    getExport,
+    startExport,
+    cancelExport,
+    destroy
+  }
+})
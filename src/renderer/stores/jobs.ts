@@ -0,0 +1,113 @@
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { useTabsStore } from './tabs'
+import { useConnectionsStore } from './connections'
+import { BottomPanelTab, useLayoutStore } from './layout'
+import { QueryJobStatus, type QueryJob } from '../types/jobs'
+
+const FINISHED_STATUSES: QueryJobStatus[] = [QueryJobStatus.Completed, QueryJobStatus.Failed, QueryJobStatus.Canceled]
+
+export const isFinishedJob = (job: QueryJob): boolean => FINISHED_STATUSES.includes(job.status)
+
+export const useJobsStore = defineStore('jobs', () => {
+  // State, newest first
+  const jobs = ref<QueryJob[]>([])
+  let listenerActive = false
+
+  // Getters
+  const activeJobs = computed(() => jobs.value.filter((job) => !isFinishedJob(job)))
+
+  const loadJobs = async () => {
+    const list = await window.api.jobs.list()
+    jobs.value = list.reverse()
+  }
+
+  const handleChange = (job: QueryJob) => {
+    const index = jobs.value.findIndex((j) => j.id === job.id)
+    if (index === -1) {
+      jobs.value.unshift(job)
+    } else {
+      jobs.value[index] = job
+    }
+    // The main process drops the oldest finished jobs, so resync once one finishes
+    if (isFinishedJob(job)) {
+      loadJobs()
+    }
+  }
+
+  const init = () => {
+    if (listenerActive) return
+    if (!window.api?.jobs) return
+    listenerActive = true
+    window.api.jobs.onChange(handleChange)
+    window.api.jobs.onFocus(() => useLayoutStore().showBottomPanel(BottomPanelTab.Jobs))
+    loadJobs()
+  }
+
+  // The guardrails are checked before the job is queued; a refusal rejects here
+  const startJob = async (connectionId: string, sql: string, database?: string): Promise<QueryJob> => {
+    init()
+    const job = await window.api.jobs.start(connectionId, sql, database)
+    if (!jobs.value.some((j) => j.id === job.id)) {
+      jobs.value.unshift(job)
+    }
+    return job
+  }
+
+  const cancelJob = async (jobId: string): Promise<boolean> => {
+    return window.api.jobs.cancel(jobId)
+  }
+
+  const removeJob = async (jobId: string) => {
+    await window.api.jobs.remove(jobId)
+    jobs.value = jobs.value.filter((job) => job.id !== jobId)
+  }
+
+  const clearFinished = async () => {
+    const finished = jobs.value.filter(isFinishedJob)
+    await Promise.all(finished.map((job) => window.api.jobs.remove(job.id)))
+    jobs.value = jobs.value.filter((job) => !isFinishedJob(job))
+  }
+
+  /**
+   * Opens a finished job in a new query tab on its connection, with its SQL in the
+   * editor and its result sets below.
+   */
+  const openJobResults = async (jobId: string) => {
+    const job = jobs.value.find((j) => j.id === jobId)
+    if (!job) return
+
+    const results = await window.api.jobs.getResults(jobId)
+    const tabsStore = useTabsStore()
+    const connectionsStore = useConnectionsStore()
+
+    const tab = tabsStore.createQueryTab(job.connectionId, job.sql)
+    if (results.length > 1) {
+      tabsStore.setTabResults(tab.id, results)
+    } else {
+      tabsStore.setTabResult(tab.id, results[0])
+    }
+    connectionsStore.setActiveConnection(job.connectionId)
+  }
+
+  const destroy = () => {
+    window.api.jobs.removeListeners()
+    listenerActive = false
+    jobs.value = []
+  }
+
+  return {
+    // State
+    jobs,
+    // Getters
+    activeJobs,
+    // Actions
+    init,
+    startJob,
+    cancelJob,
+    removeJob,
+    clearFinished,
+    openJobResults,
+    destroy
+  }
+})
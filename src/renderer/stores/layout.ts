@@ -2,6 +2,11 @@ import { ref } from 'vue'
 import { defineStore } from 'pinia'
 import type { ColumnInfo, CellChange } from '@/types/query'
 
+export enum BottomPanelTab {
+  QueryLog = 'query-log',
+  Jobs = 'jobs'
+}
+
 export const useLayoutStore = defineStore('layout', () => {
   // Sidebar
   const sidebarVisible = ref(true)
@@ -22,11 +27,17 @@ export const useLayoutStore = defineStore('layout', () => {
   // Bottom panel
   const bottomPanelVisible = ref(false)
   const bottomPanelHeight = ref(200)
+  const bottomPanelTab = ref<BottomPanelTab>(BottomPanelTab.QueryLog)
 
   const toggleBottomPanel = () => {
     bottomPanelVisible.value = !bottomPanelVisible.value
   }
 
+  const showBottomPanel = (tab: BottomPanelTab) => {
+    bottomPanelTab.value = tab
+    bottomPanelVisible.value = true
+  }
+
   // Right panel data (row detail)
   const rightPanelRow = ref<Record<string, unknown> | null>(null)
   const rightPanelColumns = ref<ColumnInfo[]>([])
@@ -76,7 +87,9 @@ export const useLayoutStore = defineStore('layout', () => {
     // Bottom panel
     bottomPanelVisible,
     bottomPanelHeight,
+    bottomPanelTab,
     toggleBottomPanel,
+    showBottomPanel,
 
     // Right panel data
     rightPanelRow,
@@ -0,0 +1,59 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import type { MetricSampleEvent, MetricsHistory } from '../types/metrics'
+
+export const useMetricsStore = defineStore('metrics', () => {
+  // State, keyed by connection
+  const histories = ref<Record<string, MetricsHistory>>({})
+  let listenerActive = false
+
+  const handleSample = ({ connectionId, sample }: MetricSampleEvent) => {
+    const history = histories.value[connectionId]
+    if (!history) return
+
+    history.samples.push(sample)
+    const cutoff = sample.timestamp - history.retentionMs
+    const expired = history.samples.findIndex((s) => s.timestamp >= cutoff)
+    if (expired > 0) {
+      history.samples.splice(0, expired)
+    }
+  }
+
+  const init = () => {
+    if (listenerActive) return
+    if (!window.api?.metrics) return
+    listenerActive = true
+    window.api.metrics.onSample(handleSample)
+  }
+
+  // Starts sampling the connection; the main process keeps it going until every subscriber has left
+  const subscribe = async (connectionId: string) => {
+    init()
+    histories.value[connectionId] = await window.api.metrics.start(connectionId)
+  }
+
+  const unsubscribe = async (connectionId: string) => {
+    await window.api.metrics.stop(connectionId)
+  }
+
+  const exportCsv = async (connectionId: string, windowMs?: number) => {
+    return window.api.metrics.exportCsv(connectionId, windowMs)
+  }
+
+  const destroy = () => {
+    window.api.metrics.removeListeners()
+    listenerActive = false
+    histories.value = {}
+  }
+
+  return {
+    // State
+    histories,
+    // Actions
+    init,
+    subscribe,
+    unsubscribe,
+    exportCsv,
+    destroy
+  }
+})
@@ -1,7 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { generateId } from '../lib/utils'
-import type { QueryResult } from '../types/query'
+import type { QueryResult, QueryParameterValue, ScriptErrorMode } from '../types/query'
 import { TabType, RoutineType } from '../types/table'
 
 export { TabType }
@@ -23,6 +23,14 @@ export interface QueryTabData {
   isExecuting: boolean
   isDirty: boolean
   showPlan?: boolean
+  // Manual commit mode: statements run on a dedicated session inside an explicit transaction
+  manualCommit?: boolean
+  inTransaction?: boolean
+  // What a multi-statement script does when a statement fails; stops when unset
+  scriptErrorMode?: ScriptErrorMode
+  // Saved query this tab was opened from or saved as, and the last parameter values used
+  savedQueryId?: number
+  parameterValues?: Record<string, QueryParameterValue>
 }
 
 export interface TableTabData {
@@ -31,7 +39,7 @@ export interface TableTabData {
   tableName: string
   database?: string
   schema?: string
-  activeView: 'data' | 'structure'
+  activeView: 'data' | 'structure' | 'info'
 }
 
 export interface ViewTabData {
@@ -124,7 +132,22 @@ export interface CreateTableTabData {
   schema?: string
 }
 
-export type TabData = QueryTabData | TableTabData | ViewTabData | ERDiagramTabData | RoutineTabData | UsersTabData | MonitoringTabData | TriggerTabData | EventTabData | SequenceTabData | MaterializedViewTabData | ExtensionsTabData | EnumsTabData | CreateTableTabData
+// Compares this connection (the target by default) with another connection or database
+export interface SchemaCompareTabData {
+  type: TabType.SchemaCompare
+  connectionId: string
+  database?: string
+}
+
+// Compares the rows of a table on this connection (the target) with a table elsewhere
+export interface DataCompareTabData {
+  type: TabType.DataCompare
+  connectionId: string
+  database?: string
+  schema?: string
+}
+
+export type TabData = QueryTabData | TableTabData | ViewTabData | ERDiagramTabData | RoutineTabData | UsersTabData | MonitoringTabData | TriggerTabData | EventTabData | SequenceTabData | MaterializedViewTabData | ExtensionsTabData | EnumsTabData | CreateTableTabData | SchemaCompareTabData | DataCompareTabData
 
 export interface Tab {
   id: string
@@ -185,6 +208,10 @@ export const useTabsStore = defineStore('tabs', () => {
     return tabs.value.some((t) => t.data.type === TabType.Query && t.data.isDirty)
   })
 
+  const openTransactionTabs = computed(() => {
+    return tabs.value.filter((t) => t.data.type === TabType.Query && t.data.inTransaction)
+  })
+
   // Actions
   const createQueryTab = (connectionId: string, sql = '', title?: string): Tab => {
     const id = generateId()
@@ -549,6 +576,61 @@ export const useTabsStore = defineStore('tabs', () => {
     return tab
   }
 
+  const createSchemaCompareTab = (connectionId: string, database?: string): Tab => {
+    // Check if tab already exists
+    const existing = tabs.value.find(
+      (t) =>
+        t.data.type === TabType.SchemaCompare &&
+        t.data.connectionId === connectionId
+    )
+    if (existing) {
+      setActiveTab(existing.id)
+      return existing
+    }
+
+    const id = generateId()
+    const tab: Tab = {
+      id,
+      title: 'Schema Compare',
+      data: {
+        type: TabType.SchemaCompare,
+        connectionId,
+        database
+      }
+    }
+    tabs.value.push(tab)
+    setActiveTab(id)
+    return tab
+  }
+
+  const createDataCompareTab = (connectionId: string, database?: string, schema?: string): Tab => {
+    // Check if tab already exists
+    const existing = tabs.value.find(
+      (t) =>
+        t.data.type === TabType.DataCompare &&
+        t.data.connectionId === connectionId
+    )
+    if (existing) {
+      setActiveTab(existing.id)
+      return existing
+    }
+
+    const id = generateId()
+    const tab: Tab = {
+      id,
+      title: 'Data Compare',
+      data: {
+        type: TabType.DataCompare,
+        connectionId,
+        database,
+        schema
+      }
+    }
+    tabs.value.push(tab)
+    setActiveTab(id)
+    return tab
+  }
+
   const createTriggerTab = (
     connectionId: string,
     triggerName: string,
@@ -700,6 +782,21 @@ export const useTabsStore = defineStore('tabs', () => {
     }
   }
 
+  // Adds a batch read from the result's cursor; once it is exhausted the result is whole
+  const appendTabRows = (id: string, rows: Record<string, unknown>[], hasMore: boolean) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query && tab.data.result) {
+      const merged = [...tab.data.result.rows, ...rows]
+      tab.data.result = {
+        ...tab.data.result,
+        rows: merged,
+        rowCount: merged.length,
+        truncated: hasMore || undefined,
+        cursorId: hasMore ? tab.data.result.cursorId : undefined
+      }
+    }
+  }
+
   const setTabExecuting = (id: string, isExecuting: boolean) => {
     const tab = tabs.value.find((t) => t.id === id)
     if (tab && tab.data.type === TabType.Query) {
@@ -707,7 +804,45 @@ export const useTabsStore = defineStore('tabs', () => {
     }
   }
 
-  const setTableView = (id: string, view: 'data' | 'structure') => {
+  const setTabManualCommit = (id: string, manualCommit: boolean) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query) {
+      tab.data.manualCommit = manualCommit
+    }
+  }
+
+  const setTabInTransaction = (id: string, inTransaction: boolean) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query) {
+      tab.data.inTransaction = inTransaction
+    }
+  }
+
+  const setTabScriptErrorMode = (id: string, mode: ScriptErrorMode) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query) {
+      tab.data.scriptErrorMode = mode
+    }
+  }
+
+  const setTabSavedQuery = (id: string, savedQueryId: number, parameterValues?: Record<string, QueryParameterValue>) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query) {
+      tab.data.savedQueryId = savedQueryId
+      if (parameterValues) {
+        tab.data.parameterValues = parameterValues
+      }
+    }
+  }
+
+  const setTabParameterValues = (id: string, parameterValues: Record<string, QueryParameterValue>) => {
+    const tab = tabs.value.find((t) => t.id === id)
+    if (tab && tab.data.type === TabType.Query) {
+      tab.data.parameterValues = parameterValues
+    }
+  }
+
+  const setTableView = (id: string, view: 'data' | 'structure' | 'info') => {
     const tab = tabs.value.find((t) => t.id === id)
     if (tab && tab.data.type === TabType.Table) {
       tab.data.activeView = view
@@ -798,6 +933,7 @@ export const useTabsStore = defineStore('tabs', () => {
     usersTabs,
     monitoringTabs,
     hasUnsavedChanges,
+    openTransactionTabs,
     // Actions
     createQueryTab,
     createTableTab,
@@ -815,6 +951,8 @@ export const useTabsStore = defineStore('tabs', () => {
     createExtensionsTab,
     createEnumsTab,
     createCreateTableTab,
+    createSchemaCompareTab,
+    createDataCompareTab,
     closeTab,
     closeAllTabs,
     closeOtherTabs,
@@ -824,9 +962,15 @@ export const useTabsStore = defineStore('tabs', () => {
     updateTabData,
     setTabSql,
     setTabResult,
+    appendTabRows,
     setTabResults,
     setTabActiveResultIndex,
     setTabExecuting,
+    setTabManualCommit,
+    setTabScriptErrorMode,
+    setTabInTransaction,
+    setTabSavedQuery,
+    setTabParameterValues,
     setTableView,
     setTabQueryPlan,
     setTabShowPlan,
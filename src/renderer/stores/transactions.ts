@@ -0,0 +1,91 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import { useTabsStore } from './tabs'
+import { TabType } from '../types/table'
+
+export interface TransactionPrompt {
+  tabIds: string[]
+}
+
+export const useTransactionsStore = defineStore('transactions', () => {
+  const tabsStore = useTabsStore()
+
+  // State
+  const prompt = ref<TransactionPrompt | null>(null)
+  let resolvePrompt: ((settled: boolean) => void) | null = null
+
+  const getOpenTransactionTabIds = (tabIds: string[]): string[] => {
+    return tabIds.filter((id) => {
+      const tab = tabsStore.tabs.find((t) => t.id === id)
+      return tab?.data.type === TabType.Query && !!tab.data.inTransaction
+    })
+  }
+
+  const getConnectionTabIds = (connectionId: string): string[] => {
+    return tabsStore.tabs
+      .filter((t) => t.data.connectionId === connectionId)
+      .map((t) => t.id)
+  }
+
+  // Transactions are keyed by tab id, so each manual-commit tab owns its own session
+  const begin = async (tabId: string) => {
+    const tab = tabsStore.tabs.find((t) => t.id === tabId)
+    if (tab?.data.type !== TabType.Query) return
+    await window.api.transaction.begin(tab.data.connectionId, tabId)
+    tabsStore.setTabInTransaction(tabId, true)
+  }
+
+  const commit = async (tabId: string) => {
+    try {
+      await window.api.transaction.commit(tabId)
+    } finally {
+      // The session is closed even when COMMIT fails
+      tabsStore.setTabInTransaction(tabId, false)
+    }
+  }
+
+  const rollback = async (tabId: string) => {
+    try {
+      await window.api.transaction.rollback(tabId)
+    } finally {
+      tabsStore.setTabInTransaction(tabId, false)
+    }
+  }
+
+  /**
+   * Runs an action that would end the given tabs' sessions (closing a tab, disconnecting).
+   * When any of them holds an uncommitted transaction the user is asked to commit or roll
+   * back first; the action is skipped if they cancel. With nothing open it runs right away.
+   */
+  const runAfterSettling = async (tabIds: string[], action: () => void | Promise<void>): Promise<boolean> => {
+    const openTabIds = getOpenTransactionTabIds(tabIds)
+    if (openTabIds.length > 0) {
+      const settled = await new Promise<boolean>((resolve) => {
+        resolvePrompt = resolve
+        prompt.value = { tabIds: openTabIds }
+      })
+      if (!settled) return false
+    }
+    await action()
+    return true
+  }
+
+  const resolveCurrentPrompt = (settled: boolean) => {
+    prompt.value = null
+    resolvePrompt?.(settled)
+    resolvePrompt = null
+  }
+
+  return {
+    // State
+    prompt,
+    // Actions
+    getOpenTransactionTabIds,
+    getConnectionTabIds,
+    begin,
+    commit,
+    rollback,
+    runAfterSettling,
+    resolveCurrentPrompt
+  }
+})
@@ -18,17 +18,35 @@ export enum SSLMode {
   VerifyFull = 'verify-full'
 }
 
-export interface SSHConfig {
-  enabled: boolean
+export type SSHAuthMethod = 'password' | 'privateKey' | 'agent'
+
+export interface SSHHost {
   host: string
   port: number
   username: string
-  authMethod: 'password' | 'privateKey'
+  authMethod: SSHAuthMethod
   password?: string
   privateKey?: string
   privateKeyPassphrase?: string
 }
 
+export interface SSHConfig extends SSHHost {
+  enabled: boolean
+  jumpHosts?: SSHHost[]
+}
+
+export interface SessionSettings {
+  timezone?: string
+  statementTimeout?: number
+  applicationName?: string
+  initScript?: string
+}
+
+export interface QueryLimits {
+  maxRows?: number
+  timeout?: number
+}
+
 export interface ConnectionConfig {
   id: string
   name: string
@@ -44,6 +62,9 @@ export interface ConnectionConfig {
   filepath?: string
   color?: string
   environment?: ConnectionEnvironment
+  readOnly?: boolean
+  session?: SessionSettings
+  queryLimits?: QueryLimits
   folder?: string
 }
 
@@ -61,6 +82,9 @@ export interface SavedConnection {
   ssh: SSHConfig | null
   color?: string | null
   environment?: ConnectionEnvironment | null
+  readOnly?: boolean
+  session?: SessionSettings | null
+  queryLimits?: QueryLimits | null
   folder?: string | null
   sortOrder: number
   createdAt: string
@@ -68,6 +92,73 @@ export interface SavedConnection {
   lastConnectedAt: string | null
 }
 
+export enum ConnectionImportSource {
+  DBeaver = 'dbeaver',
+  TablePlus = 'tableplus',
+  SequelAce = 'sequel-ace',
+  PgPass = 'pgpass',
+  MyCnf = 'my-cnf',
+  SSHConfig = 'ssh-config'
+}
+
+// A Host entry of ~/.ssh/config, or the SSH settings another tool stored with a connection
+export interface SSHHostEntry {
+  alias: string
+  host: string
+  port: number
+  username: string
+  identityFile?: string
+  password?: string
+  proxyJump?: string[]
+}
+
+export interface ConnectionImportCandidate {
+  config: ConnectionConfig
+  source: ConnectionImportSource
+  origin: string
+  ssh: SSHHostEntry | null
+  existingId: string | null
+}
+
+export interface ConnectionImportPreview {
+  candidates: ConnectionImportCandidate[]
+  sshHosts: SSHHostEntry[]
+  errors: { file: string; error: string }[]
+}
+
+export enum ConnectionCollisionMode {
+  KeepBoth = 'keep-both',
+  Replace = 'replace',
+  Skip = 'skip'
+}
+
+export type SharedConnection = Omit<SavedConnection, 'sortOrder' | 'createdAt' | 'updatedAt' | 'lastConnectedAt'>
+
+export interface ConnectionExportOptions {
+  connectionIds: string[]
+  folders: string[]
+  passphrase?: string
+}
+
+export interface ConnectionFilePreview {
+  filePath: string
+  connections: SharedConnection[]
+  encrypted: boolean
+  existingIds: string[]
+}
+
+export interface ConnectionFileImportOptions {
+  collisionMode: ConnectionCollisionMode
+  passphrase?: string
+}
+
+export interface ConnectionFileImportResult {
+  imported: SavedConnection[]
+  skipped: number
+  renamed: number
+  secretsImported: boolean
+}
+
 export enum ConnectionStatus {
   Disconnected = 'disconnected',
   Connecting = 'connecting',
@@ -0,0 +1,45 @@
+// Relative to the target: Inserted rows exist only in the source, Deleted rows only in the target
+export enum RowDiffStatus {
+  Inserted = 'inserted',
+  Deleted = 'deleted',
+  Changed = 'changed'
+}
+
+export interface DataCompareEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+  table: string
+}
+
+export interface RowDiff {
+  status: RowDiffStatus
+  key: Record<string, unknown>
+  source?: Record<string, unknown>
+  target?: Record<string, unknown>
+  // Columns whose values differ, for Changed rows
+  changedColumns?: string[]
+}
+
+export interface DataCompareSummary {
+  inserted: number
+  deleted: number
+  changed: number
+  identical: number
+}
+
+export interface DataCompareResult {
+  keyColumns: string[]
+  // Columns present on both sides; only these are compared and scripted
+  columns: string[]
+  sourceOnlyColumns: string[]
+  targetOnlyColumns: string[]
+  sourceRowCount: number
+  targetRowCount: number
+  summary: DataCompareSummary
+  rows: RowDiff[]
+  // True when more differences exist than `rows` holds; the script still covers all of them
+  truncated: boolean
+  script: string
+}
@@ -1,6 +1,45 @@
 import { ConnectionStatus } from './connection'
-import type { ConnectionConfig, SavedConnection } from './connection'
-import type { QueryResult, MultiQueryResult, QueryHistoryItem } from './query'
+import type {
+  ConnectionConfig,
+  ConnectionEnvironment,
+  ConnectionExportOptions,
+  ConnectionFileImportOptions,
+  ConnectionFileImportResult,
+  ConnectionFilePreview,
+  ConnectionImportCandidate,
+  ConnectionImportPreview,
+  QueryLimits,
+  SavedConnection,
+  SSHHostEntry
+} from './connection'
+import type { QueryResult, MultiQueryResult, QueryHistoryItem, QueryParameterValue, CursorBatch, ScriptErrorMode } from './query'
+import type { StreamExportOptions, StreamExportResult, ExportProgressEvent } from './export'
+import type { SchemaCompareEndpoint, SchemaCompareResult } from './schema-compare'
+import type { IndexReport } from './index-advisor'
+import type { DataCompareEndpoint, DataCompareResult } from './data-compare'
+import type {
+  TransferEndpoint,
+  TransferOptions,
+  TransferPlan,
+  TransferProgressEvent,
+  TransferResult
+} from './transfer'
+import type {
+  ColumnMapping,
+  ImportCheckpoint,
+  ImportExecuteOptions,
+  ImportFormat,
+  ImportParseOptions,
+  ImportPreview,
+  ImportProgressEvent,
+  ImportResult,
+  StreamImportOptions,
+  StreamImportResult
+} from './import'
+import type { GuardrailPolicies, GuardrailPolicy } from './guardrails'
+import type { QueryJob } from './jobs'
+import type { MetricSampleEvent, MetricsHistory } from './metrics'
+import type { MaintenanceOperation, MaintenanceTask, TableMaintenanceInfo } from './maintenance'
 import { type RoutineType, type ItemType } from './table'
 import type {
   Database,
@@ -14,6 +53,9 @@ import type {
   DatabaseUser,
   DatabaseProcess,
   ServerStatus,
+  BlockingSession,
+  QueryStatistic,
+  QueryStatisticsOptions,
   Sequence,
   MaterializedView,
   Extension,
@@ -42,6 +84,8 @@ import type {
   InsertRowRequest,
   DeleteRowRequest,
   UpdateRowRequest,
+  ApplyChangesetRequest,
+  ApplyChangesetResult,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -65,6 +109,7 @@ export interface SavedQuery {
   name: string
   sql: string
   description?: string
+  parameterValues?: Record<string, QueryParameterValue>
   createdAt: string
   updatedAt: string
 }
@@ -76,6 +121,11 @@ export interface ElectronAPI {
     get(id: string): Promise<SavedConnection | null>
     save(config: ConnectionConfig): Promise<SavedConnection>
     delete(id: string): Promise<boolean>
+    importScan(filePaths?: string[]): Promise<ConnectionImportPreview>
+    importSave(candidates: ConnectionImportCandidate[], sshHosts: SSHHostEntry[]): Promise<SavedConnection[]>
+    exportToFile(options: ConnectionExportOptions): Promise<{ success: boolean; filePath?: string; count?: number; error?: string }>
+    previewFile(): Promise<ConnectionFilePreview | null>
+    importFromFile(filePath: string, options: ConnectionFileImportOptions): Promise<ConnectionFileImportResult>
     test(config: ConnectionConfig): Promise<{ success: boolean; error: string | null }>
     connect(id: string): Promise<boolean>
     connectWithConfig(config: ConnectionConfig): Promise<boolean>
@@ -91,8 +141,30 @@ export interface ElectronAPI {
   }
   query: {
     execute(connectionId: string, sql: string, params?: unknown[]): Promise<QueryResult>
-    executeMultiple(connectionId: string, sql: string): Promise<MultiQueryResult>
+    executeMultiple(connectionId: string, sql: string, mode?: ScriptErrorMode, database?: string): Promise<MultiQueryResult>
+    executeWithCursor(connectionId: string, sql: string, params?: unknown[], database?: string): Promise<QueryResult>
+    fetchMore(cursorId: string): Promise<CursorBatch>
+    closeCursor(cursorId: string): Promise<boolean>
     cancel(connectionId: string): Promise<boolean>
+    getDefaultLimits(): Promise<Required<QueryLimits>>
+    setDefaultLimits(limits: QueryLimits): Promise<Required<QueryLimits>>
+  }
+  jobs: {
+    start(connectionId: string, sql: string, database?: string): Promise<QueryJob>
+    list(): Promise<QueryJob[]>
+    getResults(jobId: string): Promise<QueryResult[]>
+    cancel(jobId: string): Promise<boolean>
+    remove(jobId: string): Promise<boolean>
+    onChange(callback: (job: QueryJob) => void): void
+    onFocus(callback: (jobId: string) => void): void
+    removeListeners(): void
+  }
+  transaction: {
+    begin(connectionId: string, sessionId: string): Promise<boolean>
+    execute(sessionId: string, sql: string, params?: unknown[]): Promise<QueryResult>
+    executeMultiple(sessionId: string, sql: string, mode?: ScriptErrorMode): Promise<MultiQueryResult>
+    commit(sessionId: string): Promise<boolean>
+    rollback(sessionId: string): Promise<boolean>
   }
   schema: {
     databases(connectionId: string): Promise<Database[]>
@@ -117,6 +189,7 @@ export interface ElectronAPI {
     insertRow(connectionId: string, request: InsertRowRequest): Promise<SchemaOperationResult>
     deleteRow(connectionId: string, request: DeleteRowRequest): Promise<SchemaOperationResult>
     updateRow(connectionId: string, request: UpdateRowRequest): Promise<SchemaOperationResult>
+    applyChangeset(connectionId: string, request: ApplyChangesetRequest): Promise<ApplyChangesetResult>
     getDataTypes(connectionId: string): Promise<DataTypeInfo[]>
     getPrimaryKey(connectionId: string, table: string): Promise<string[]>
     // View operations
@@ -124,6 +197,9 @@ export interface ElectronAPI {
     dropView(connectionId: string, request: DropViewRequest): Promise<SchemaOperationResult>
     renameView(connectionId: string, request: RenameViewRequest): Promise<SchemaOperationResult>
     viewDDL(connectionId: string, viewName: string): Promise<string>
+    // Schema compare
+    compare(source: SchemaCompareEndpoint, target: SchemaCompareEndpoint): Promise<SchemaCompareResult>
+    indexReport(connectionId: string, database: string): Promise<IndexReport>
     // Routine operations (stored procedures and functions)
     getRoutines(connectionId: string, type?: RoutineType): Promise<Routine[]>
     getRoutineDefinition(connectionId: string, name: string, type: RoutineType): Promise<string>
@@ -206,6 +282,17 @@ export interface ElectronAPI {
     createTrigger(connectionId: string, request: CreateTriggerRequest): Promise<SchemaOperationResult>
     dropTrigger(connectionId: string, request: DropTriggerRequest): Promise<SchemaOperationResult>
   }
+  dataCompare: {
+    tables(location: Omit<DataCompareEndpoint, 'table'>): Promise<string[]>
+    compare(source: DataCompareEndpoint, target: DataCompareEndpoint): Promise<DataCompareResult>
+  }
+  transfer: {
+    plan(source: TransferEndpoint, target: TransferEndpoint, tables: string[]): Promise<TransferPlan>
+    start(options: TransferOptions): Promise<TransferResult>
+    cancel(transferId: string): Promise<boolean>
+    onProgress(callback: (event: TransferProgressEvent) => void): void
+    removeProgressListener(): void
+  }
   history: {
     list(connectionId?: string, limit?: number, offset?: number): Promise<QueryHistoryItem[]>
     add(connectionId: string, sql: string, executionTime?: number, rowCount?: number, error?: string): Promise<QueryHistoryItem>
@@ -217,6 +304,7 @@ export interface ElectronAPI {
     get(id: number): Promise<SavedQuery | null>
     save(name: string, sql: string, connectionId?: string, description?: string): Promise<SavedQuery>
     update(id: number, updates: { name?: string; sql?: string; description?: string }): Promise<SavedQuery | null>
+    setParameters(id: number, values: Record<string, QueryParameterValue>): Promise<boolean>
     delete(id: number): Promise<boolean>
   }
   app: {
@@ -231,10 +319,52 @@ export interface ElectronAPI {
     export(connectionId: string): Promise<{ success: boolean; filePath?: string; error?: string }>
     import(connectionId: string): Promise<{ success: boolean; statements: number; errors: string[]; filePath?: string }>
   }
+  import: {
+    preview(format: ImportFormat): Promise<{ preview: ImportPreview | null; filePath: string | null; error?: string }>
+    reparse(filePath: string, format: ImportFormat, options: ImportParseOptions): Promise<{ preview: ImportPreview | null; error?: string }>
+    execute(
+      connectionId: string,
+      tableName: string,
+      filePath: string,
+      format: ImportFormat,
+      columnMappings: ColumnMapping[],
+      options: ImportExecuteOptions
+    ): Promise<ImportResult>
+    start(options: StreamImportOptions): Promise<StreamImportResult>
+    cancel(importId: string): Promise<boolean>
+    getCheckpoint(connectionId: string, tableName: string, filePath: string): Promise<ImportCheckpoint | null>
+    onProgress(callback: (event: ImportProgressEvent) => void): void
+    removeProgressListener(): void
+    getTableColumns(connectionId: string, tableName: string): Promise<{ columns: Column[]; error?: string }>
+  }
+  export: {
+    stream(options: StreamExportOptions): Promise<StreamExportResult>
+    cancel(exportId: string): Promise<boolean>
+    onProgress(callback: (event: ExportProgressEvent) => void): void
+    removeProgressListener(): void
+  }
   monitoring: {
     getProcessList(connectionId: string): Promise<DatabaseProcess[]>
     killProcess(connectionId: string, processId: number | string, force?: boolean): Promise<{ success: boolean; error?: string }>
     getServerStatus(connectionId: string): Promise<ServerStatus>
+    getBlockingSessions(connectionId: string): Promise<BlockingSession[]>
+    getQueryStatistics(connectionId: string, options?: QueryStatisticsOptions): Promise<QueryStatistic[]>
+  }
+  maintenance: {
+    getInfo(connectionId: string, table: string, database: string): Promise<TableMaintenanceInfo>
+    run(connectionId: string, table: string, operation: MaintenanceOperation, database: string): Promise<MaintenanceTask>
+    list(connectionId: string): Promise<MaintenanceTask[]>
+    cancel(taskId: string): Promise<boolean>
+    onChange(callback: (task: MaintenanceTask) => void): void
+    removeListeners(): void
+  }
+  metrics: {
+    start(connectionId: string): Promise<MetricsHistory>
+    stop(connectionId: string): Promise<void>
+    getHistory(connectionId: string): Promise<MetricsHistory>
+    exportCsv(connectionId: string, windowMs?: number): Promise<{ success: boolean; filePath?: string; error?: string }>
+    onSample(callback: (event: MetricSampleEvent) => void): void
+    removeListeners(): void
   }
   recents: {
     add(type: ItemType, name: string, connectionId: string, database?: string, schema?: string, sql?: string): Promise<RecentItem>
@@ -245,6 +375,10 @@ export interface ElectronAPI {
     clear(): Promise<number>
     clearForConnection(connectionId: string): Promise<number>
   }
+  guardrails: {
+    getPolicies(): Promise<GuardrailPolicies>
+    setPolicy(environment: ConnectionEnvironment, policy: GuardrailPolicy): Promise<GuardrailPolicy>
+  }
   theme: {
     set(theme: 'system' | 'light' | 'dark'): Promise<void>
     onChange(callback: (theme: 'system' | 'light' | 'dark') => void): void
@@ -0,0 +1,42 @@
+import type { DataFilter, SortDirection } from './table'
+
+export enum ExportSourceType {
+  Table = 'table',
+  Query = 'query'
+}
+
+export type StreamExportFormat = 'csv' | 'json' | 'sql'
+
+export interface ExportSource {
+  type: ExportSourceType
+  table?: string
+  sql?: string
+  filters?: DataFilter[]
+  orderBy?: string
+  orderDirection?: SortDirection
+  database?: string
+  schema?: string
+}
+
+export interface StreamExportOptions {
+  exportId: string
+  connectionId: string
+  source: ExportSource
+  format: StreamExportFormat
+  includeHeaders?: boolean
+  delimiter?: string
+  batchSize?: number
+}
+
+export interface ExportProgressEvent {
+  exportId: string
+  rowsWritten: number
+  totalRows?: number
+}
+
+export interface StreamExportResult {
+  success: boolean
+  filePath?: string
+  rowCount?: number
+  error?: string
+}
@@ -0,0 +1,24 @@
+import type { ConnectionEnvironment } from './connection'
+
+export enum StatementType {
+  Select = 'select',
+  Insert = 'insert',
+  Update = 'update',
+  Delete = 'delete',
+  Truncate = 'truncate',
+  Create = 'create',
+  Alter = 'alter',
+  Drop = 'drop',
+  Grant = 'grant',
+  Session = 'session',
+  Other = 'other'
+}
+
+export interface GuardrailPolicy {
+  readOnly: boolean
+  confirmDestructive: boolean
+  restrictStatements: boolean
+  allowedStatements: StatementType[]
+}
+
+export type GuardrailPolicies = Record<ConnectionEnvironment, GuardrailPolicy>
@@ -0,0 +1,91 @@
+export type ImportFormat = 'csv' | 'json' | 'ndjson' | 'xlsx' | 'sql'
+
+export interface ImportColumn {
+  name: string
+  sampleValues: unknown[]
+  detectedType: string
+}
+
+export interface ImportPreview {
+  columns: ImportColumn[]
+  rows: Record<string, unknown>[]
+  totalRows: number
+  // Set when totalRows was extrapolated from the first rows of a large file
+  totalRowsEstimated?: boolean
+  hasHeaders: boolean
+  // Sheets of a workbook, or tables with INSERT statements in a SQL file
+  sources?: string[]
+  source?: string
+}
+
+export interface ColumnMapping {
+  sourceColumn: string
+  targetColumn: string
+  targetType: string
+}
+
+export interface ImportParseOptions {
+  hasHeaders?: boolean
+  delimiter?: string
+  source?: string
+}
+
+export interface ImportExecuteOptions extends ImportParseOptions {
+  truncateTable?: boolean
+  batchSize?: number
+}
+
+export interface ImportResult {
+  success: boolean
+  insertedRows?: number
+  errors?: string[]
+  filePath?: string
+}
+
+export enum ImportErrorPolicy {
+  Abort = 'abort',
+  Skip = 'skip',
+  RejectFile = 'reject-file'
+}
+
+export interface StreamImportOptions extends ImportParseOptions {
+  importId: string
+  connectionId: string
+  tableName: string
+  filePath: string
+  format: ImportFormat
+  columnMappings: ColumnMapping[]
+  truncateTable?: boolean
+  errorPolicy: ImportErrorPolicy
+  batchSize?: number
+  resume?: boolean
+}
+
+export interface ImportProgressEvent {
+  importId: string
+  rowsProcessed: number
+  rowsInserted: number
+  rowsRejected: number
+  bytesRead: number
+  totalBytes: number
+}
+
+export interface StreamImportResult extends ImportResult {
+  processedRows?: number
+  rejectedRows?: number
+  rejectFilePath?: string
+  canceled?: boolean
+  resumable?: boolean
+}
+
+export interface ImportCheckpoint {
+  connectionId: string
+  tableName: string
+  filePath: string
+  fileSize: number
+  fileModified: number
+  rowsProcessed: number
+  rowsInserted: number
+  rowsRejected: number
+  updatedAt: string
+}
@@ -0,0 +1,38 @@
+import type { CreateIndexRequest, DropIndexRequest } from './schema-operations'
+
+export enum IndexFindingKind {
+  Duplicate = 'duplicate',
+  Redundant = 'redundant',
+  Unused = 'unused',
+  UnindexedForeignKey = 'unindexed-foreign-key'
+}
+
+export enum IndexFixAction {
+  Create = 'create',
+  Drop = 'drop'
+}
+
+// The request is applied as-is through schema:createIndex or schema:dropIndex
+export type IndexFix =
+  | { action: IndexFixAction.Create; request: CreateIndexRequest }
+  | { action: IndexFixAction.Drop; request: DropIndexRequest }
+
+export interface IndexFinding {
+  kind: IndexFindingKind
+  table: string
+  // The index the fix drops; null for a missing index
+  index: string | null
+  columns: string[]
+  reason: string
+  fix: IndexFix
+  sql: string
+}
+
+export interface IndexReport {
+  tableCount: number
+  findings: IndexFinding[]
+  // When the server started counting index scans, if known
+  usageSince: string | null
+  // Why unused indexes were not checked, when they were not
+  usageUnavailable: string | null
+}
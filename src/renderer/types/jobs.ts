@@ -0,0 +1,23 @@
+export enum QueryJobStatus {
+  Queued = 'queued',
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Canceled = 'canceled'
+}
+
+export interface QueryJob {
+  id: string
+  connectionId: string
+  connectionName: string
+  database?: string
+  sql: string
+  status: QueryJobStatus
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  // Filled in when the job finishes
+  resultCount?: number
+  rowCount?: number
+  error?: string
+}
@@ -0,0 +1,89 @@
+export enum MaintenanceOperation {
+  Vacuum = 'vacuum',
+  VacuumFull = 'vacuum-full',
+  VacuumAnalyze = 'vacuum-analyze',
+  Analyze = 'analyze',
+  Reindex = 'reindex',
+  Optimize = 'optimize',
+  Check = 'check',
+  Repair = 'repair'
+}
+
+export enum TableHealthKind {
+  PostgreSQL = 'postgresql',
+  MySQL = 'mysql'
+}
+
+export interface PostgreSQLTableHealth {
+  kind: TableHealthKind.PostgreSQL
+  liveTuples: number
+  deadTuples: number
+  // Share of dead tuples among all tuples, 0 to 1
+  deadTupleRatio: number
+  modificationsSinceAnalyze: number
+  lastVacuum: string | null
+  lastAutovacuum: string | null
+  lastAnalyze: string | null
+  lastAutoanalyze: string | null
+  tableBytes: number
+  // Estimated from column statistics; null until the table has been analyzed
+  bloatBytes: number | null
+  bloatRatio: number | null
+}
+
+export interface MySQLTableHealth {
+  kind: TableHealthKind.MySQL
+  storageEngine: string | null
+  // An estimate for InnoDB tables
+  rows: number
+  dataBytes: number
+  indexBytes: number
+  // Allocated but unused space, which OPTIMIZE TABLE gives back
+  freeBytes: number
+  fragmentationRatio: number
+  lastUpdate: string | null
+  lastCheck: string | null
+}
+
+export type TableHealth = PostgreSQLTableHealth | MySQLTableHealth
+
+export interface TableMaintenanceInfo {
+  table: string
+  health: TableHealth
+  operations: MaintenanceOperation[]
+}
+
+export enum MaintenanceTaskStatus {
+  Running = 'running',
+  Completed = 'completed',
+  Failed = 'failed',
+  Canceled = 'canceled'
+}
+
+export interface MaintenanceProgress {
+  phase: string
+  // Blocks done and to do in the current phase, when the server reports them
+  done: number | null
+  total: number | null
+}
+
+// One row of the result set returned by OPTIMIZE, ANALYZE, CHECK and REPAIR TABLE
+export interface MaintenanceMessage {
+  level: string
+  text: string
+}
+
+export interface MaintenanceTask {
+  id: string
+  connectionId: string
+  database?: string
+  table: string
+  operation: MaintenanceOperation
+  sql: string
+  status: MaintenanceTaskStatus
+  startedAt: string
+  finishedAt?: string
+  progress: MaintenanceProgress | null
+  messages: MaintenanceMessage[]
+  error?: string
+}
@@ -0,0 +1,34 @@
+export enum MetricUnit {
+  PerSecond = 'per-second',
+  Count = 'count',
+  Percent = 'percent',
+  Bytes = 'bytes',
+  Seconds = 'seconds'
+}
+
+export interface MetricDefinition {
+  key: string
+  label: string
+  // Metrics with the same chart title are drawn on one chart
+  chart: string
+  unit: MetricUnit
+}
+
+export interface MetricSample {
+  timestamp: number
+  // null when the server did not report the metric, or no rate could be computed yet
+  values: Record<string, number | null>
+}
+
+export interface MetricsHistory {
+  connectionId: string
+  intervalMs: number
+  retentionMs: number
+  metrics: MetricDefinition[]
+  samples: MetricSample[]
+}
+
+export interface MetricSampleEvent {
+  connectionId: string
+  sample: MetricSample
+}
@@ -5,6 +5,36 @@ export interface QueryResult {
   affectedRows?: number
   executionTime: number
   error?: string
+  truncated?: boolean
+  // Set while the rest of a truncated result can still be fetched from an open cursor
+  cursorId?: string
+  // Set on the results of a script, one per statement
+  statement?: ScriptStatement
+}
+
+export enum ScriptErrorMode {
+  Stop = 'stop',
+  Continue = 'continue',
+  Rollback = 'rollback'
+}
+
+export enum ScriptStatementStatus {
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  Skipped = 'skipped',
+  RolledBack = 'rolled-back'
+}
+
+export interface ScriptStatement {
+  sql: string
+  // Character offset of the statement in the script
+  offset: number
+  status: ScriptStatementStatus
+}
+
+export interface CursorBatch {
+  rows: Record<string, unknown>[]
+  hasMore: boolean
 }
 
 export interface ColumnInfo {
@@ -19,6 +49,7 @@ export interface ColumnInfo {
 export interface MultiQueryResult {
   results: QueryResult[]
   totalExecutionTime: number
+  rolledBack?: boolean
 }
 
 export interface QueryHistoryItem {
@@ -47,3 +78,28 @@ export interface CellChange {
   originalValue: unknown
   newValue: unknown
 }
+
+export enum QueryParameterStyle {
+  Named = 'named',
+  Numbered = 'numbered',
+  Positional = 'positional'
+}
+
+export enum QueryParameterType {
+  Text = 'text',
+  Number = 'number',
+  Boolean = 'boolean',
+  Null = 'null'
+}
+
+export interface QueryParameter {
+  key: string
+  label: string
+  style: QueryParameterStyle
+  type: QueryParameterType
+}
+
+export interface QueryParameterValue {
+  type: QueryParameterType
+  value: string
+}
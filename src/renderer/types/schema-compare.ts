@@ -0,0 +1,35 @@
+export enum SchemaObjectKind {
+  Table = 'table',
+  Column = 'column',
+  Index = 'index',
+  ForeignKey = 'foreign-key',
+  View = 'view',
+  Trigger = 'trigger'
+}
+
+// Relative to the target: Added objects exist only in the source, Removed only in the target
+export enum SchemaDiffStatus {
+  Added = 'added',
+  Removed = 'removed',
+  Changed = 'changed'
+}
+
+export interface SchemaCompareEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+}
+
+export interface SchemaDiffNode {
+  kind: SchemaObjectKind
+  name: string
+  status: SchemaDiffStatus
+  details?: string[]
+  children?: SchemaDiffNode[]
+}
+
+export interface SchemaCompareResult {
+  differences: SchemaDiffNode[]
+  script: string
+}
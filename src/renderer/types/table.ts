@@ -13,6 +13,8 @@ export enum TabType {
   Extensions = 'extensions',
   Enums = 'enums',
   CreateTable = 'create-table',
+  SchemaCompare = 'schema-compare',
+  DataCompare = 'data-compare',
 }
 
 export enum TableObjectType {
@@ -210,7 +212,7 @@ export interface TableTab {
   tableName: string
   database?: string
   schema?: string
-  activeView: 'data' | 'structure'
+  activeView: 'data' | 'structure' | 'info'
 }
 
 // Process monitoring types
@@ -232,6 +234,63 @@ export interface ServerStatus {
   status: Record<string, string>
 }
 
+// Lock monitoring types
+export interface LockTarget {
+  mode: string
+  lockType: string
+  relation: string | null
+}
+
+export interface LockWait extends LockTarget {
+  waitSeconds: number | null
+}
+
+// A session in a blocking chain: it waits on a lock, holds a lock others wait on, or both
+export interface BlockingSession {
+  id: number
+  user: string | null
+  database: string | null
+  state: string | null
+  query: string | null
+  transactionSeconds: number | null
+  blockedBy: number[]
+  waitingFor: LockWait | null
+  heldLocks: LockTarget[]
+}
+
+// Statement statistics types
+export enum QueryStatisticsOrder {
+  TotalTime = 'total-time',
+  MeanTime = 'mean-time',
+  Calls = 'calls',
+  Rows = 'rows'
+}
+
+export interface QueryStatisticsOptions {
+  orderBy?: QueryStatisticsOrder
+  // Matched against the normalized statement text
+  search?: string
+  limit?: number
+}
+
+// One normalized statement, aggregated over all its executions
+export interface QueryStatistic {
+  id: string
+  query: string
+  // A statement with literal values, when the engine keeps one
+  sample: string | null
+  database: string | null
+  user: string | null
+  calls: number
+  totalTimeMs: number
+  meanTimeMs: number
+  maxTimeMs: number | null
+  rows: number
+  // Shared buffer hits and reads (PostgreSQL only)
+  sharedBlocksHit: number | null
+  sharedBlocksRead: number | null
+}
+
 // PostgreSQL-specific types
 
 export interface Sequence {
@@ -0,0 +1,77 @@
+export enum TransferConflictMode {
+  Skip = 'skip',
+  Replace = 'replace',
+  Fail = 'fail'
+}
+
+export interface TransferEndpoint {
+  connectionId: string
+  database: string
+  // PostgreSQL schema; defaults to the driver's current schema
+  schema?: string
+}
+
+export interface TransferColumnMapping {
+  sourceColumn: string
+  sourceType: string
+  // Empty to leave the column out of the transfer
+  targetColumn: string
+  targetType: string
+  length?: number
+  precision?: number
+  scale?: number
+  nullable: boolean
+  primaryKey: boolean
+}
+
+export interface TransferTablePlan {
+  sourceTable: string
+  targetTable: string
+  targetExists: boolean
+  createTable: boolean
+  totalRows: number
+  columns: TransferColumnMapping[]
+}
+
+export interface TransferPlan {
+  tables: TransferTablePlan[]
+  // Type names offered for the target, from the target driver's getDataTypes()
+  targetTypes: string[]
+  canCreateTables: boolean
+}
+
+export interface TransferOptions {
+  transferId: string
+  source: TransferEndpoint
+  target: TransferEndpoint
+  tables: TransferTablePlan[]
+  conflictMode: TransferConflictMode
+  batchSize?: number
+}
+
+export interface TransferProgressEvent {
+  transferId: string
+  table: string
+  tableIndex: number
+  tableCount: number
+  rowsProcessed: number
+  totalRows: number
+}
+
+export interface TransferTableSummary {
+  sourceTable: string
+  targetTable: string
+  created: boolean
+  rowsRead: number
+  rowsInserted: number
+  rowsReplaced: number
+  rowsSkipped: number
+  error?: string
+}
+
+export interface TransferResult {
+  success: boolean
+  canceled?: boolean
+  error?: string
+  tables: TransferTableSummary[]
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { BaseDriver, type TestConnectionResult, type DatabaseDriver } from '@main/db/base';
+import { BaseDriver, QueryCursor, type TestConnectionResult, type DatabaseDriver, type RowChangeDialect, type RowSource } from '@main/db/base';
 import {
   DatabaseType,
   RoutineType,
@@ -30,6 +30,7 @@ import type {
   RenameTableRequest,
   InsertRowRequest,
   DeleteRowRequest,
+  RowChange,
   CreateViewRequest,
   DropViewRequest,
   RenameViewRequest,
@@ -40,6 +41,7 @@ import type {
   CreateUserRequest,
   DropUserRequest
 } from '@main/types/schema-operations';
+import { RowChangeType } from '@main/types/schema-operations';
 
 // Concrete implementation of BaseDriver for testing purposes
 class TestDriver extends BaseDriver {
@@ -220,8 +222,71 @@ class TestDriver extends BaseDriver {
   public callBuildLimitClause(options: DataOptions): string {
     return this.buildLimitClause(options);
   }
+
+  public callBuildRowChangeStatement(
+    table: string,
+    change: RowChange,
+    dialect: RowChangeDialect
+  ): { sql: string; params: unknown[] } {
+    return this.buildRowChangeStatement(table, change, dialect);
+  }
 }
 
+// Reads its rows from an array, recording how many were asked for
+const arraySource = (rows: Record<string, unknown>[]) => {
+  const remaining = [...rows];
+  const source = {
+    columns: [{ name: 'id', type: 'INTEGER', nullable: true }],
+    read: vi.fn(async (count: number) => remaining.splice(0, count)),
+    close: vi.fn(async () => {}),
+  } satisfies RowSource;
+  return source;
+};
+
+class CursorTestDriver extends TestDriver {
+  source = arraySource([]);
+
+  protected async openRowSource(): Promise<RowSource> {
+    return this.source;
+  }
+}
+
+describe('QueryCursor', () => {
+  const ids = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1 }));
+
+  it('should read one row ahead to tell whether more remain', async () => {
+    const source = arraySource(ids(5));
+    const cursor = new QueryCursor(source);
+
+    expect(await cursor.read(2)).toEqual({ rows: [{ id: 1 }, { id: 2 }], hasMore: true });
+    expect(source.read).toHaveBeenLastCalledWith(3);
+    expect(await cursor.read(2)).toEqual({ rows: [{ id: 3 }, { id: 4 }], hasMore: true });
+    expect(source.read).toHaveBeenLastCalledWith(2);
+    expect(cursor.isClosed).toBe(false);
+  });
+
+  it('should close the source once the last row is read', async () => {
+    const source = arraySource(ids(3));
+    const cursor = new QueryCursor(source);
+
+    await cursor.read(2);
+    expect(await cursor.read(2)).toEqual({ rows: [{ id: 3 }], hasMore: false });
+    expect(cursor.isClosed).toBe(true);
+    expect(source.close).toHaveBeenCalledTimes(1);
+    expect(await cursor.read(2)).toEqual({ rows: [], hasMore: false });
+  });
+
+  it('should close the source only once', async () => {
+    const source = arraySource(ids(3));
+    const cursor = new QueryCursor(source);
+
+    await cursor.close();
+    await cursor.close();
+
+    expect(source.close).toHaveBeenCalledTimes(1);
+  });
+});
+
 describe('BaseDriver', () => {
   let driver: TestDriver;
 
@@ -278,6 +343,70 @@ describe('BaseDriver', () => {
     });
   });
 
+  describe('openCursor', () => {
+    const config: ConnectionConfig = { id: 'test-1', name: 'Test', type: DatabaseType.SQLite, database: ':memory:' };
+
+    it('should return the first batch and keep the cursor open when more rows remain', async () => {
+      const cursorDriver = new CursorTestDriver();
+      cursorDriver.source = arraySource([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      await cursorDriver.connect(config);
+
+      const { result, cursor } = await cursorDriver.openCursor('SELECT id FROM users', undefined, { maxRows: 2 });
+
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.columns).toEqual([{ name: 'id', type: 'INTEGER', nullable: true }]);
+      expect(result.truncated).toBe(true);
+      expect(await cursor!.read(2)).toEqual({ rows: [{ id: 3 }], hasMore: false });
+    });
+
+    it('should leave no cursor when the result fits within the limit', async () => {
+      const cursorDriver = new CursorTestDriver();
+      cursorDriver.source = arraySource([{ id: 1 }]);
+      await cursorDriver.connect(config);
+
+      const { result, cursor } = await cursorDriver.openCursor('SELECT id FROM users', undefined, { maxRows: 2 });
+
+      expect(result.rowCount).toBe(1);
+      expect(result.truncated).toBeUndefined();
+      expect(cursor).toBeNull();
+      expect(cursorDriver.source.close).toHaveBeenCalled();
+    });
+
+    it('should run writes and unlimited reads through execute', async () => {
+      const cursorDriver = new CursorTestDriver();
+      await cursorDriver.connect(config);
+      const execute = vi.spyOn(cursorDriver, 'execute');
+
+      await cursorDriver.openCursor('DELETE FROM users', undefined, { maxRows: 2 });
+      await cursorDriver.openCursor('SELECT id FROM users', undefined, { maxRows: 0 });
+
+      expect(execute).toHaveBeenCalledTimes(2);
+      expect(cursorDriver.source.read).not.toHaveBeenCalled();
+    });
+
+    it('should return a failed read as an error result', async () => {
+      const cursorDriver = new CursorTestDriver();
+      cursorDriver.source.read.mockRejectedValueOnce(new Error('relation "users" does not exist'));
+      await cursorDriver.connect(config);
+
+      const { result, cursor } = await cursorDriver.openCursor('SELECT id FROM users', undefined, { maxRows: 2 });
+
+      expect(result.error).toBe('relation "users" does not exist');
+      expect(cursor).toBeNull();
+      expect(cursorDriver.source.close).toHaveBeenCalled();
+    });
+
+    it('should use execute for drivers without a row source', async () => {
+      await driver.connect(config);
+      const execute = vi.spyOn(driver, 'execute');
+
+      const { cursor } = await driver.openCursor('SELECT id FROM users', undefined, { maxRows: 2 });
+
+      expect(execute).toHaveBeenCalledWith('SELECT id FROM users', undefined, { maxRows: 2 });
+      expect(cursor).toBeNull();
+    });
+  });
+
   describe('testConnection', () => {
     it('should return success when connect and disconnect succeed', async () => {
       const config: ConnectionConfig = {
@@ -659,6 +788,82 @@ describe('BaseDriver', () => {
     });
   });
 
+  describe('buildRowChangeStatement', () => {
+    const dialect: RowChangeDialect = { quote: (name) => `"${name}"` };
+
+    it('should build a parameterized INSERT', () => {
+      const result = driver.callBuildRowChangeStatement('"users"', {
+        type: RowChangeType.Insert,
+        values: { name: 'Alice', age: 30 },
+      }, dialect);
+
+      expect(result.sql).toBe('INSERT INTO "users" ("name", "age") VALUES (?, ?)');
+      expect(result.params).toEqual(['Alice', 30]);
+    });
+
+    it('should fall back to the dialect empty insert when there are no values', () => {
+      expect(driver.callBuildRowChangeStatement('"users"', { type: RowChangeType.Insert, values: {} }, dialect).sql)
+        .toBe('INSERT INTO "users" DEFAULT VALUES');
+      expect(driver.callBuildRowChangeStatement('`users`', { type: RowChangeType.Insert }, {
+        quote: (name) => `\`${name}\``,
+        emptyInsert: '() VALUES ()',
+      }).sql).toBe('INSERT INTO `users` () VALUES ()');
+    });
+
+    it('should build an UPDATE with SET params before WHERE params', () => {
+      const result = driver.callBuildRowChangeStatement('"users"', {
+        type: RowChangeType.Update,
+        where: { id: 7 },
+        values: { name: 'Bob' },
+      }, dialect);
+
+      expect(result.sql).toBe('UPDATE "users" SET "name" = ? WHERE "id" = ?');
+      expect(result.params).toEqual(['Bob', 7]);
+    });
+
+    it('should match null where values with IS NULL', () => {
+      const result = driver.callBuildRowChangeStatement('"users"', {
+        type: RowChangeType.Delete,
+        where: { name: 'Alice', deleted_at: null },
+      }, dialect);
+
+      expect(result.sql).toBe('DELETE FROM "users" WHERE "name" = ? AND "deleted_at" IS NULL');
+      expect(result.params).toEqual(['Alice']);
+    });
+
+    it('should use numbered placeholders when the dialect provides them', () => {
+      const result = driver.callBuildRowChangeStatement('"public"."users"', {
+        type: RowChangeType.Update,
+        where: { id: 1 },
+        values: { name: 'Carol', email: 'c@test.com' },
+      }, { ...dialect, placeholder: (index) => `$${index}` });
+
+      expect(result.sql).toBe('UPDATE "public"."users" SET "name" = $1, "email" = $2 WHERE "id" = $3');
+    });
+
+    it('should reject update and delete without identifying columns', () => {
+      expect(() => driver.callBuildRowChangeStatement('"users"', { type: RowChangeType.Delete, where: {} }, dialect))
+        .toThrow('Cannot delete a row without identifying columns');
+      expect(() => driver.callBuildRowChangeStatement('"users"', { type: RowChangeType.Update, values: { a: 1 } }, dialect))
+        .toThrow('Cannot update a row without identifying columns');
+    });
+
+    it('should reject update without values', () => {
+      expect(() => driver.callBuildRowChangeStatement('"users"', { type: RowChangeType.Update, where: { id: 1 } }, dialect))
+        .toThrow('Cannot update a row without values');
+    });
+  });
+
+  describe('applyChangeset', () => {
+    it('should report changesets as unsupported by default', async () => {
+      const result = await driver.applyChangeset({ table: 'users', changes: [] });
+
+      expect(result.success).toBe(false);
+      expect(result.results).toEqual([]);
+      expect(result.error).toContain('not supported');
+    });
+  });
+
   describe('DatabaseDriver interface contract', () => {
     it('should have a type property', () => {
       expect(driver.type).toBe(DatabaseType.SQLite);
@@ -674,6 +879,7 @@ describe('BaseDriver', () => {
         'disconnect',
         'testConnection',
         'execute',
+        'openCursor',
         'getDatabases',
         'getTables',
         'getColumns',
@@ -694,6 +900,7 @@ describe('BaseDriver', () => {
         'renameTable',
         'insertRow',
         'deleteRow',
+        'applyChangeset',
         'createView',
         'dropView',
         'renameView',
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DatabaseType, TableObjectType, RoutineType } from '@main/types';
 import type { ConnectionConfig } from '@main/types';
+import { RowChangeType } from '@main/types/schema-operations';
 
 // --- Mock @clickhouse/client ---
 
@@ -217,6 +218,25 @@ describe('ClickHouseDriver', () => {
       expect(result.executionTime).toBeGreaterThanOrEqual(0);
     });
 
+    it('should stop streaming at the row limit and pass the timeout in seconds', async () => {
+      await driver.connect(testConfig);
+
+      const row = (id: number) => ({ json: () => ({ id }) });
+      const stream = async function* () {
+        yield [row(1), row(2)];
+        yield [row(3), row(4)];
+      };
+      mockQuery.mockResolvedValueOnce({ stream });
+
+      const result = await driver.execute('SELECT id FROM events', undefined, { maxRows: 3, timeout: 1500 });
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.objectContaining({
+        clickhouse_settings: { max_execution_time: 2 },
+      }));
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(result.truncated).toBe(true);
+    });
+
     it('should detect SHOW queries as SELECT', async () => {
       await driver.connect(testConfig);
 
@@ -1085,6 +1105,76 @@ describe('ClickHouseDriver', () => {
     });
   });
 
+  describe('updateRow', () => {
+    it('should update a row using ALTER TABLE UPDATE', async () => {
+      await driver.connect(testConfig);
+
+      const result = await driver.updateRow({
+        table: 'users',
+        primaryKeyValues: { id: 42, deleted_at: null },
+        values: { name: "O'Brien\\", age: 30 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.sql).toBe(
+        "ALTER TABLE `test_db`.`users` UPDATE `name` = 'O\\'Brien\\\\', `age` = 30 WHERE `id` = 42 AND `deleted_at` IS NULL"
+      );
+    });
+  });
+
+  describe('applyChangeset', () => {
+    it('should apply the changes one by one through the row operations', async () => {
+      await driver.connect(testConfig);
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { id: 1 } },
+          { type: RowChangeType.Update, where: { id: 2 }, values: { name: 'Bob' } },
+          { type: RowChangeType.Insert, values: { id: 3, name: 'Carol' } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockCommand.mock.calls.map((c) => c[0].query)).toEqual([
+        'ALTER TABLE `test_db`.`users` DELETE WHERE `id` = 1',
+        "ALTER TABLE `test_db`.`users` UPDATE `name` = 'Bob' WHERE `id` = 2",
+        "INSERT INTO `test_db`.`users` (`id`, `name`) VALUES (3, 'Carol')",
+      ]);
+    });
+
+    it('should stop at the first failure and report the earlier changes as applied', async () => {
+      await driver.connect(testConfig);
+      mockCommand.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Cannot UPDATE key column `id`'));
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { id: 1 } },
+          { type: RowChangeType.Update, where: { id: 2 }, values: { id: 5 } },
+          { type: RowChangeType.Insert, values: { id: 3 } },
+        ],
+      });
+
+      expect(result).toMatchObject({ success: false, error: 'Cannot UPDATE key column `id`' });
+      expect(result.rolledBack).toBeUndefined();
+      expect(result.results.map((r) => r.success)).toEqual([true, false]);
+      expect(mockCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it('should refuse an update without identifying columns', async () => {
+      await driver.connect(testConfig);
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [{ type: RowChangeType.Update, where: {}, values: { name: 'x' } }],
+      });
+
+      expect(result.results[0]).toMatchObject({ success: false, error: 'Cannot update a row without identifying columns' });
+      expect(mockCommand).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deleteRow', () => {
     it('should delete a row using ALTER TABLE DELETE', async () => {
       await driver.connect(testConfig);
@@ -2276,4 +2366,43 @@ describe('ClickHouseDriver', () => {
       expect(indexes[0].type).toBe('SORTING KEY');
     });
   });
+
+  describe('openTableCursor', () => {
+    const streamedResult = (batches: Record<string, unknown>[][]) => {
+      const close = vi.fn();
+      return {
+        close,
+        stream: () => (async function* () {
+          for (const batch of batches) {
+            yield batch.map((row) => ({ json: () => row }));
+          }
+        })(),
+      };
+    };
+
+    it('should stream the table ordered by the whole key in JSONEachRow batches', async () => {
+      await driver.connect(testConfig);
+      const resultSet = streamedResult([
+        [{ tenant: 1, id: 1 }, { tenant: 1, id: 2 }],
+        [{ tenant: 2, id: 1 }],
+      ]);
+      mockQuery.mockResolvedValueOnce(resultSet);
+
+      const opened = await driver.openTableCursor('events', {
+        filters: [{ column: 'kind', operator: '=', value: "o'clock" }],
+        keyColumns: ['tenant', 'id'],
+      }, 2);
+
+      expect(mockQuery).toHaveBeenLastCalledWith(expect.objectContaining({
+        query: "SELECT * FROM `test_db`.`events` WHERE `kind` = 'o\\'clock' ORDER BY `tenant`, `id`",
+        format: 'JSONEachRow',
+      }));
+      expect(opened!.result.rows).toEqual([{ tenant: 1, id: 1 }, { tenant: 1, id: 2 }]);
+      expect(opened!.result.columns.map((c) => c.name)).toEqual(['tenant', 'id']);
+
+      const rest = await opened!.cursor!.read(2);
+      expect(rest).toEqual({ rows: [{ tenant: 2, id: 1 }], hasMore: false });
+      expect(resultSet.close).toHaveBeenCalled();
+    });
+  });
 });
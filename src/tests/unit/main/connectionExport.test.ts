@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DatabaseType } from '@main/types';
+import type { ConnectionConfig, SavedConnection } from '@main/types';
+
+const mockList = vi.fn();
+const mockSave = vi.fn();
+const passwords = new Map<string, string>();
+
+vi.mock('@main/services/connections', () => ({
+  connectionsService: {
+    list: (...args: unknown[]) => mockList(...args),
+    save: (...args: unknown[]) => mockSave(...args),
+  },
+}));
+
+vi.mock('@main/services/keychain', () => ({
+  keychainService: {
+    getPassword: async (id: string) => passwords.get(id) ?? null,
+    setPassword: async (id: string, password: string) => {
+      passwords.set(id, password);
+    },
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  buildConnectionExport,
+  ConnectionCollisionMode,
+  ConnectionExportError,
+  importConnectionExport,
+  parseConnectionExport,
+  previewConnectionExport,
+} from '@main/services/connectionExport';
+
+const makeConnection = (overrides: Partial<SavedConnection> = {}): SavedConnection => ({
+  id: 'conn-1',
+  name: 'Orders',
+  type: DatabaseType.PostgreSQL,
+  host: '10.0.1.50',
+  port: 5432,
+  database: 'orders',
+  username: 'app',
+  filepath: null,
+  ssl: true,
+  sslConfig: { enabled: true, ca: 'CA CERT', key: 'CLIENT KEY' },
+  ssh: {
+    enabled: true,
+    host: 'bastion.example.com',
+    port: 22,
+    username: 'deploy',
+    authMethod: 'privateKey',
+    privateKey: 'SSH KEY',
+    privateKeyPassphrase: 'key-pass',
+    jumpHosts: [{ host: 'edge', port: 22, username: 'ops', authMethod: 'password', password: 'edge-pw' }],
+  },
+  color: '#ff0000',
+  environment: 'production',
+  readOnly: true,
+  folder: 'Team',
+  sortOrder: 3,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  lastConnectedAt: null,
+  ...overrides,
+});
+
+const PASSPHRASE = 'correct horse battery';
+
+describe('buildConnectionExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    passwords.clear();
+    passwords.set('conn-1', 'db-secret');
+    mockList.mockReturnValue([
+      makeConnection(),
+      makeConnection({ id: 'conn-2', name: 'Cache', type: DatabaseType.Redis, folder: null, ssh: null, sslConfig: null }),
+      makeConnection({ id: 'conn-3', name: 'Analytics', folder: 'Team', ssh: null, sslConfig: null }),
+    ]);
+  });
+
+  it('should export connections of the selected folders without any secrets', async () => {
+    const file = await buildConnectionExport({ connectionIds: [], folders: ['Team'] });
+    const content = JSON.stringify(file);
+
+    expect(file.connections.map((c) => c.id)).toEqual(['conn-1', 'conn-3']);
+    expect(file.secrets).toBeUndefined();
+    expect(content).not.toContain('db-secret');
+    expect(content).not.toContain('SSH KEY');
+    expect(content).not.toContain('edge-pw');
+    expect(content).not.toContain('CLIENT KEY');
+    expect(file.connections[0]).not.toHaveProperty('sortOrder');
+    expect(file.connections[0]).toMatchObject({ color: '#ff0000', environment: 'production', folder: 'Team', sslConfig: { ca: 'CA CERT' } });
+  });
+
+  it('should encrypt secrets when a passphrase is given', async () => {
+    const file = await buildConnectionExport({ connectionIds: ['conn-1'], folders: [], passphrase: PASSPHRASE });
+    const content = JSON.stringify(file);
+
+    expect(file.secrets).toMatchObject({ cipher: 'aes-256-gcm', kdf: 'scrypt' });
+    expect(content).not.toContain('db-secret');
+    expect(content).not.toContain('SSH KEY');
+  });
+
+  it('should refuse short passphrases and empty selections', async () => {
+    await expect(buildConnectionExport({ connectionIds: ['conn-1'], folders: [], passphrase: 'short' }))
+      .rejects.toThrow('at least 8 characters');
+    await expect(buildConnectionExport({ connectionIds: ['missing'], folders: [] })).rejects.toThrow(ConnectionExportError);
+  });
+});
+
+describe('importConnectionExport', () => {
+  const exportOne = async (passphrase?: string) => {
+    mockList.mockReturnValue([makeConnection()]);
+    passwords.set('conn-1', 'db-secret');
+    const file = await buildConnectionExport({ connectionIds: ['conn-1'], folders: [], passphrase });
+    passwords.clear();
+    return parseConnectionExport(JSON.stringify(file, null, 2));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    passwords.clear();
+    mockSave.mockImplementation((config: ConnectionConfig) => ({ ...config }));
+  });
+
+  it('should restore secrets with the right passphrase', async () => {
+    const file = await exportOne(PASSPHRASE);
+    mockList.mockReturnValue([]);
+
+    const result = await importConnectionExport(file, { collisionMode: ConnectionCollisionMode.KeepBoth, passphrase: PASSPHRASE });
+
+    expect(result.secretsImported).toBe(true);
+    expect(passwords.get('conn-1')).toBe('db-secret');
+    const saved = mockSave.mock.calls[0][0] as ConnectionConfig;
+    expect(saved).toMatchObject({ id: 'conn-1', name: 'Orders', folder: 'Team', color: '#ff0000', environment: 'production', readOnly: true });
+    expect(saved.password).toBeUndefined();
+    expect(saved.sslConfig).toMatchObject({ ca: 'CA CERT', key: 'CLIENT KEY' });
+    expect(saved.ssh).toMatchObject({ privateKey: 'SSH KEY', privateKeyPassphrase: 'key-pass' });
+    expect(saved.ssh?.jumpHosts?.[0].password).toBe('edge-pw');
+  });
+
+  it('should reject a wrong passphrase or a tampered connection list', async () => {
+    const file = await exportOne(PASSPHRASE);
+    mockList.mockReturnValue([]);
+
+    await expect(importConnectionExport(file, { collisionMode: ConnectionCollisionMode.KeepBoth, passphrase: 'wrong passphrase' }))
+      .rejects.toThrow('Wrong passphrase');
+
+    file.connections[0].host = 'evil.example.com';
+    await expect(importConnectionExport(file, { collisionMode: ConnectionCollisionMode.KeepBoth, passphrase: PASSPHRASE }))
+      .rejects.toThrow(ConnectionExportError);
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should refuse inflated key derivation parameters and unknown algorithms before deriving a key', async () => {
+    const file = await exportOne(PASSPHRASE);
+    mockList.mockReturnValue([]);
+    const options = { collisionMode: ConnectionCollisionMode.KeepBoth, passphrase: PASSPHRASE };
+    const secrets = file.secrets!;
+
+    for (const inflated of [{ N: 2 ** 30 }, { N: 2 ** 17 + 1 }, { r: 1024 }, { p: 64 }, { p: 0 }]) {
+      file.secrets = { ...secrets, ...inflated };
+      await expect(importConnectionExport(file, options)).rejects.toThrow(
+        'The key derivation parameters in the connections file are out of range'
+      );
+    }
+    file.secrets = { ...secrets, cipher: 'aes-128-cbc' as never };
+    await expect(importConnectionExport(file, options)).rejects.toThrow('Unsupported cipher "aes-128-cbc"');
+    file.secrets = { ...secrets, kdf: 'pbkdf2' as never };
+    await expect(importConnectionExport(file, options)).rejects.toThrow('Unsupported key derivation "pbkdf2"');
+    expect(mockSave).not.toHaveBeenCalled();
+  });
+
+  it('should import without secrets when no passphrase is given', async () => {
+    const file = await exportOne(PASSPHRASE);
+    mockList.mockReturnValue([]);
+
+    const result = await importConnectionExport(file, { collisionMode: ConnectionCollisionMode.KeepBoth });
+
+    expect(result.secretsImported).toBe(false);
+    expect(passwords.size).toBe(0);
+    expect((mockSave.mock.calls[0][0] as ConnectionConfig).ssh?.privateKey).toBeUndefined();
+  });
+
+  it('should resolve ID and name collisions by mode', async () => {
+    const file = await exportOne();
+    mockList.mockReturnValue([makeConnection({ name: 'Orders' }), makeConnection({ id: 'other', name: 'Orders (2)' })]);
+
+    expect(previewConnectionExport(file).existingIds).toEqual(['conn-1']);
+
+    const keepBoth = await importConnectionExport(file, { collisionMode: ConnectionCollisionMode.KeepBoth });
+    expect(keepBoth.imported[0].id).not.toBe('conn-1');
+    expect(keepBoth.imported[0].name).toBe('Orders (3)');
+    expect(keepBoth.renamed).toBe(1);
+
+    const replace = await importConnectionExport(file, { collisionMode: ConnectionCollisionMode.Replace });
+    expect(replace.imported[0]).toMatchObject({ id: 'conn-1', name: 'Orders' });
+
+    const skip = await importConnectionExport(file, { collisionMode: ConnectionCollisionMode.Skip });
+    expect(skip.imported).toHaveLength(0);
+    expect(skip.skipped).toBe(1);
+  });
+});
+
+describe('parseConnectionExport', () => {
+  it('should reject files that are not connection exports', () => {
+    expect(() => parseConnectionExport('not json')).toThrow('Not a Zequel connections file');
+    expect(() => parseConnectionExport('{"connections": []}')).toThrow('Not a Zequel connections file');
+    expect(() => parseConnectionExport('{"format": "zequel-connections", "version": 99, "connections": []}'))
+      .toThrow('newer version');
+  });
+});
@@ -0,0 +1,326 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { homedir } from 'os';
+import { join } from 'path';
+import { DatabaseType } from '@main/types';
+import type { SavedConnection } from '@main/types';
+
+const files = new Map<string, string>();
+const mockSave = vi.fn();
+const mockList = vi.fn();
+const mockSetPassword = vi.fn();
+
+vi.mock('fs/promises', () => ({
+  readFile: async (path: string) => {
+    const content = files.get(path);
+    if (content === undefined) throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+    return content;
+  },
+}));
+
+vi.mock('@main/services/connections', () => ({
+  connectionsService: {
+    list: (...args: unknown[]) => mockList(...args),
+    save: (...args: unknown[]) => mockSave(...args),
+  },
+}));
+
+vi.mock('@main/services/keychain', () => ({
+  keychainService: {
+    setPassword: (...args: unknown[]) => mockSetPassword(...args),
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  ConnectionImportSource,
+  detectImportSource,
+  parseDBeaverDataSources,
+  parseMyCnf,
+  parsePgPass,
+  parsePlist,
+  parseSequelAceFavorites,
+  parseSSHConfig,
+  parseTablePlusConnections,
+  resolveSSHConfig,
+  saveImportedConnections,
+  scanConnectionImports,
+} from '@main/services/connectionImport';
+
+const sshConfigPath = join(homedir(), '.ssh', 'config');
+
+describe('parsePgPass', () => {
+  it('should read entries with escapes and wildcards', () => {
+    const candidates = parsePgPass([
+      '# comment',
+      'db.example.com:5433:app:alice:s3cr\\:et',
+      '*:*:*:bob:pw:with:colons',
+      '*:*:*:*:shared',
+    ].join('\n'), '/home/u/.pgpass');
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0].config).toMatchObject({
+      name: 'db.example.com/app',
+      type: DatabaseType.PostgreSQL,
+      host: 'db.example.com',
+      port: 5433,
+      database: 'app',
+      username: 'alice',
+      password: 's3cr:et',
+    });
+    expect(candidates[1].config).toMatchObject({ host: 'localhost', port: 5432, database: 'postgres', password: 'pw:with:colons' });
+    expect(candidates[0].source).toBe(ConnectionImportSource.PgPass);
+    expect(candidates[0].config.id).not.toBe(candidates[1].config.id);
+  });
+});
+
+describe('parseMyCnf', () => {
+  it('should merge [client] into [mysql] and each group suffix', () => {
+    const candidates = parseMyCnf([
+      '[mysqld]',
+      'port = 3307',
+      '[client]',
+      'user = root',
+      'password = "p#ss" # comment',
+      '[mysql]',
+      'host = db.local',
+      '[client_prod]',
+      'host = prod.example.com',
+      'database = shop',
+    ].join('\n'), '/home/u/.my.cnf');
+
+    expect(candidates.map((c) => c.config.name)).toEqual(['db.local', 'prod.example.com/shop (prod)']);
+    expect(candidates[0].config).toMatchObject({ type: DatabaseType.MySQL, port: 3306, username: 'root', password: 'p#ss' });
+    expect(candidates[1].config).toMatchObject({ host: 'prod.example.com', username: 'root' });
+  });
+});
+
+describe('parseSSHConfig', () => {
+  it('should read host aliases and fill in options from wildcard blocks', () => {
+    const hosts = parseSSHConfig([
+      'Host bastion',
+      '  HostName bastion.example.com',
+      '  User deploy',
+      '  IdentityFile ~/.ssh/id_ed25519',
+      '',
+      'Host db-tunnel internal',
+      '  HostName=10.0.0.5',
+      '  Port 2222',
+      '  ProxyJump bastion',
+      '',
+      'Host *.example.com !skip.example.com',
+      '  User fallback',
+      '',
+      'Host *',
+      '  User everyone',
+      '  IdentityFile ~/.ssh/id_rsa',
+    ].join('\n'));
+
+    expect(hosts.map((h) => h.alias)).toEqual(['bastion', 'db-tunnel', 'internal']);
+    expect(hosts[0]).toMatchObject({ host: 'bastion.example.com', port: 22, username: 'deploy', identityFile: '~/.ssh/id_ed25519' });
+    expect(hosts[1]).toMatchObject({ host: '10.0.0.5', port: 2222, username: 'everyone', proxyJump: ['bastion'] });
+  });
+});
+
+describe('parseDBeaverDataSources', () => {
+  it('should map drivers, folders, connection types and SSH tunnels', () => {
+    const candidates = parseDBeaverDataSources(JSON.stringify({
+      connections: {
+        'postgres-jdbc-1': {
+          provider: 'postgresql',
+          driver: 'postgres-jdbc',
+          name: 'Orders',
+          folder: 'Work',
+          configuration: {
+            host: '10.0.1.50',
+            port: '5432',
+            database: 'orders',
+            type: 'prod',
+            handlers: {
+              ssh_tunnel: {
+                enabled: true,
+                user: 'deploy',
+                properties: { host: 'bastion.example.com', port: 22, authType: 'PUBLIC_KEY', keyPath: '/keys/id' },
+              },
+            },
+          },
+        },
+        'sqlite-1': {
+          provider: 'generic',
+          driver: 'sqlite_jdbc',
+          name: 'Local',
+          configuration: { url: 'jdbc:sqlite:/data/app.db' },
+        },
+        'oracle-1': { provider: 'oracle', driver: 'oracle_thin', name: 'Legacy', configuration: {} },
+      },
+    }), '/dbeaver/data-sources.json');
+
+    expect(candidates).toHaveLength(2);
+    expect(candidates[0].config).toMatchObject({
+      name: 'Orders',
+      type: DatabaseType.PostgreSQL,
+      host: '10.0.1.50',
+      port: 5432,
+      environment: 'production',
+      folder: 'Work',
+    });
+    expect(candidates[0].ssh).toMatchObject({ host: 'bastion.example.com', username: 'deploy', identityFile: '/keys/id' });
+    expect(candidates[1].config).toMatchObject({ type: DatabaseType.SQLite, filepath: '/data/app.db' });
+  });
+});
+
+describe('property lists', () => {
+  const plist = (body: string) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">\n<plist version="1.0">${body}</plist>`;
+
+  it('should parse dictionaries, arrays and scalars', () => {
+    expect(parsePlist(plist('<dict><key>a</key><array><string>x &amp; y</string><integer>3</integer><true/></array><key>b</key><dict/></dict>')))
+      .toEqual({ a: ['x & y', 3, true], b: {} });
+    expect(() => parsePlist('bplist00...')).toThrow('Binary property lists are not supported');
+  });
+
+  it('should read TablePlus connections', () => {
+    const candidates = parseTablePlusConnections(plist(`<array><dict>
+      <key>ConnectionName</key><string>Analytics</string>
+      <key>Driver</key><string>PostgreSQL</string>
+      <key>DatabaseHost</key><string>127.0.0.1</string>
+      <key>DatabasePort</key><string>6432</string>
+      <key>DatabaseName</key><string>events</string>
+      <key>DatabaseUser</key><string>analyst</string>
+      <key>Enviroment</key><string>staging</string>
+      <key>isOverSSH</key><true/>
+      <key>ServerAddress</key><string>bastion</string>
+      <key>ServerPort</key><string>22</string>
+      <key>ServerUser</key><string>me</string>
+    </dict></array>`), '/Connections.plist');
+
+    expect(candidates[0].config).toMatchObject({ name: 'Analytics', port: 6432, username: 'analyst', environment: 'staging' });
+    expect(candidates[0].ssh).toMatchObject({ alias: 'bastion', username: 'me' });
+  });
+
+  it('should read Sequel Ace favorites in nested groups', () => {
+    const candidates = parseSequelAceFavorites(plist(`<dict><key>Favorites Root</key><dict><key>Children</key><array>
+      <dict><key>name</key><string>Shop</string><key>host</key><string>10.0.0.9</string><key>user</key><string>shop</string>
+        <key>port</key><string></string><key>type</key><integer>2</integer>
+        <key>sshHost</key><string>jump.example.com</string><key>sshUser</key><string>ops</string>
+        <key>sshKeyLocationEnabled</key><integer>1</integer><key>sshKeyLocation</key><string>~/.ssh/ops</string></dict>
+    </array></dict></dict>`), '/Favorites.plist');
+
+    expect(candidates[0].config).toMatchObject({ name: 'Shop', type: DatabaseType.MySQL, port: 3306, username: 'shop' });
+    expect(candidates[0].ssh).toMatchObject({ host: 'jump.example.com', username: 'ops', identityFile: '~/.ssh/ops' });
+  });
+});
+
+describe('detectImportSource', () => {
+  it('should detect sources from file names and content', () => {
+    expect(detectImportSource('/home/u/.pgpass', '')).toBe(ConnectionImportSource.PgPass);
+    expect(detectImportSource('/etc/mysql/my.cnf', '')).toBe(ConnectionImportSource.MyCnf);
+    expect(detectImportSource('/x/data-sources.json', '{"connections":{}}')).toBe(ConnectionImportSource.DBeaver);
+    expect(detectImportSource('/x/Connections.plist', '<plist><key>ConnectionName</key>')).toBe(ConnectionImportSource.TablePlus);
+    expect(detectImportSource('/x/Favorites.plist', '<plist><key>host</key>')).toBe(ConnectionImportSource.SequelAce);
+    expect(detectImportSource('/home/u/.ssh/config', 'Host bastion\n')).toBe(ConnectionImportSource.SSHConfig);
+    expect(detectImportSource('/tmp/notes.txt', 'hello')).toBeNull();
+  });
+});
+
+describe('scanConnectionImports', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    mockList.mockReturnValue([]);
+  });
+
+  it('should merge tunnels with ~/.ssh/config aliases and flag saved connections', async () => {
+    files.set('/exports/data-sources.json', JSON.stringify({
+      connections: {
+        a: {
+          provider: 'mysql',
+          driver: 'mysql8',
+          name: 'Shop',
+          configuration: {
+            host: 'db.internal',
+            port: 3306,
+            database: 'shop',
+            user: 'shop',
+            handlers: { ssh_tunnel: { enabled: true, properties: { host: 'bastion', authType: 'AGENT' } } },
+          },
+        },
+      },
+    }));
+    files.set(sshConfigPath, 'Host bastion\n  HostName bastion.example.com\n  User deploy\n  Port 2200\n');
+    mockList.mockReturnValue([
+      { id: 'saved-1', type: DatabaseType.MySQL, host: 'db.internal', port: 3306, database: 'shop', username: 'shop' } as SavedConnection,
+    ]);
+
+    const preview = await scanConnectionImports(['/exports/data-sources.json', '/exports/missing.json']);
+
+    expect(preview.sshHosts.map((h) => h.alias)).toEqual(['bastion']);
+    expect(preview.candidates[0].ssh).toMatchObject({ alias: 'bastion', host: 'bastion.example.com', port: 2200, username: 'deploy' });
+    expect(preview.candidates[0].existingId).toBe('saved-1');
+    expect(preview.errors).toEqual([{ file: '/exports/missing.json', error: expect.stringContaining('ENOENT') }]);
+  });
+});
+
+describe('resolveSSHConfig', () => {
+  beforeEach(() => {
+    files.clear();
+  });
+
+  it('should turn ProxyJump chains into jump hosts and leave identity files to the agent', () => {
+    files.set('/keys/inner', 'PRIVATE KEY');
+    const sshHosts = parseSSHConfig([
+      'Host outer',
+      '  HostName outer.example.com',
+      '  User a',
+      'Host middle',
+      '  HostName 10.0.0.2',
+      '  User b',
+      '  ProxyJump outer',
+      'Host inner',
+      '  HostName 10.0.0.3',
+      '  User c',
+      '  IdentityFile /keys/inner',
+      '  ProxyJump middle,ops@10.0.0.4:2222',
+    ].join('\n'));
+
+    const ssh = resolveSSHConfig(sshHosts[2], sshHosts);
+
+    expect(ssh).toMatchObject({ enabled: true, host: '10.0.0.3', username: 'c', authMethod: 'agent' });
+    expect(ssh.privateKey).toBeUndefined();
+    expect(ssh.jumpHosts?.map((hop) => `${hop.username}@${hop.host}:${hop.port}`)).toEqual([
+      'a@outer.example.com:22',
+      'b@10.0.0.2:22',
+      'ops@10.0.0.4:2222',
+    ]);
+    expect(ssh.jumpHosts?.[0].authMethod).toBe('agent');
+  });
+});
+
+describe('saveImportedConnections', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+  });
+
+  it('should keep passwords out of the saved config and put them in the keychain', async () => {
+    const [candidate] = parsePgPass('db:5432:app:alice:secret', '/home/u/.pgpass');
+    mockSave.mockImplementation((config) => ({ ...config, id: config.id }));
+
+    await saveImportedConnections([{
+      ...candidate,
+      ssh: { alias: 'bastion', host: 'bastion', port: 22, username: 'deploy', password: 'ssh-pw' },
+    }], []);
+
+    expect(mockSetPassword).toHaveBeenCalledWith(candidate.config.id, 'secret');
+    const saved = mockSave.mock.calls[0][0];
+    expect(saved.password).toBeUndefined();
+    expect(saved.ssh).toMatchObject({ enabled: true, authMethod: 'password', password: 'ssh-pw' });
+  });
+});
@@ -63,6 +63,9 @@ const createTestRow = (overrides: Record<string, unknown> = {}) => ({
   ssh_config: null,
   color: null,
   environment: null,
+  read_only: 0,
+  session_config: null,
+  query_limits: null,
   folder: null,
   sort_order: 0,
   created_at: '2024-01-01T00:00:00.000Z',
@@ -125,6 +128,9 @@ describe('ConnectionsService', () => {
         ssh: null,
         color: null,
         environment: null,
+        readOnly: false,
+        session: null,
+        queryLimits: null,
         folder: null,
         sortOrder: 0,
         createdAt: '2024-01-01T00:00:00.000Z',
@@ -163,6 +169,23 @@ describe('ConnectionsService', () => {
       expect(result[0].ssh).toEqual(sshConfig);
     });
 
+    it('should parse session_config JSON', () => {
+      const session = { timezone: 'UTC', initScript: 'SET ROLE reporting' };
+      mockAll.mockReturnValueOnce([createTestRow({ session_config: JSON.stringify(session) })]);
+
+      const result = service.list();
+
+      expect(result[0].session).toEqual(session);
+    });
+
+    it('should parse query_limits JSON', () => {
+      mockAll.mockReturnValueOnce([createTestRow({ query_limits: JSON.stringify({ maxRows: 500 }) })]);
+
+      const result = service.list();
+
+      expect(result[0].queryLimits).toEqual({ maxRows: 500 });
+    });
+
     it('should handle invalid JSON in ssl_config gracefully', () => {
       mockAll.mockReturnValueOnce([createTestRow({ ssl_config: 'not-json' })]);
 
@@ -215,6 +238,14 @@ describe('ConnectionsService', () => {
       expect(result!.environment).toBe('production');
     });
 
+    it('should map read_only=1 to a read-only connection', () => {
+      mockGet.mockReturnValueOnce(createTestRow({ read_only: 1 }));
+
+      const result = service.get('test-id-1');
+
+      expect(result!.readOnly).toBe(true);
+    });
+
     it('should map null host/port/username correctly', () => {
       mockGet.mockReturnValueOnce(createTestRow({ host: null, port: null, username: null }));
 
@@ -329,6 +360,48 @@ describe('ConnectionsService', () => {
       expect(hasSshJson).toBe(true);
     });
 
+    it('should store the read-only flag as an integer', () => {
+      mockGet
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(createTestRow({ read_only: 1 }));
+
+      service.save(createTestConfig({ readOnly: true }));
+
+      const insertArgs = mockRun.mock.calls[0] as unknown[];
+      expect(insertArgs[13]).toBe(1);
+    });
+
+    it('should store session settings as JSON and empty ones as null', () => {
+      mockGet
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(createTestRow())
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(createTestRow());
+
+      service.save(createTestConfig({ session: { statementTimeout: 30000, initScript: 'SET search_path TO app' } }));
+      service.save(createTestConfig({ session: { timezone: '', applicationName: ' ', initScript: '' } }));
+
+      expect(JSON.parse((mockRun.mock.calls[0] as unknown[])[14] as string)).toEqual({
+        statementTimeout: 30000,
+        initScript: 'SET search_path TO app',
+      });
+      expect((mockRun.mock.calls[1] as unknown[])[14]).toBeNull();
+    });
+
+    it('should store query limit overrides as JSON and no overrides as null', () => {
+      mockGet
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(createTestRow())
+        .mockReturnValueOnce(undefined)
+        .mockReturnValueOnce(createTestRow());
+
+      service.save(createTestConfig({ queryLimits: { maxRows: 250, timeout: -1 } }));
+      service.save(createTestConfig({ queryLimits: {} }));
+
+      expect(JSON.parse((mockRun.mock.calls[0] as unknown[])[15] as string)).toEqual({ maxRows: 250 });
+      expect((mockRun.mock.calls[1] as unknown[])[15]).toBeNull();
+    });
+
     it('should store null for optional fields when not provided', () => {
       mockGet
         .mockReturnValueOnce(undefined)
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseType } from '@main/types';
+import type { DatabaseDriver } from '@main/db/base';
+import {
+  compareTableRows,
+  openTableRows,
+  RowDiffStatus,
+  type TableRows,
+} from '@main/services/dataCompare';
+
+// ── Helpers ──
+
+const tableRows = (
+  rows: Record<string, unknown>[],
+  overrides: Partial<TableRows> = {}
+): TableRows => ({
+  table: 'users',
+  columns: ['id', 'name', 'active'],
+  keyColumns: ['id'],
+  numericKeyColumns: ['id'],
+  async *read() {
+    yield* rows;
+  },
+  ...overrides,
+});
+
+// A driver whose table cursor hands out `rows` two at a time
+const createDriver = (rows: Record<string, unknown>[], keyColumns = ['id']) => ({
+  getPrimaryKeyColumns: vi.fn().mockResolvedValue(keyColumns),
+  getColumns: vi.fn().mockResolvedValue([
+    { name: 'tenant', type: 'VARCHAR' },
+    { name: 'id', type: 'int8' },
+    { name: 'name', type: 'text' },
+  ]),
+  openTableCursor: vi.fn().mockImplementation(async () => {
+    let position = 2;
+    return {
+      result: { columns: [], rows: rows.slice(0, 2), rowCount: 2, executionTime: 1 },
+      cursor: rows.length > 2
+        ? {
+          columns: [],
+          read: async (count: number) => {
+            const batch = rows.slice(position, position + count);
+            position += count;
+            return { rows: batch, hasMore: position < rows.length };
+          },
+          close: vi.fn(),
+        }
+        : null,
+    };
+  }),
+}) as unknown as DatabaseDriver;
+
+const readAll = async (table: TableRows) => {
+  const rows: Record<string, unknown>[] = [];
+  for await (const row of table.read(table.keyColumns)) rows.push(row);
+  return rows;
+};
+
+// ── Tests ──
+
+describe('openTableRows', () => {
+  it('streams the table through a cursor ordered by the whole key with text keys in byte order', async () => {
+    const rows = Array.from({ length: 5 }, (_, i) => ({ tenant: 'a', id: i + 1, name: `user ${i + 1}` }));
+    const driver = createDriver(rows, ['tenant', 'id']);
+
+    const table = await openTableRows(driver, 'users', undefined, { batchSize: 2 });
+
+    expect(table.columns).toEqual(['tenant', 'id', 'name']);
+    expect(table.numericKeyColumns).toEqual(['id']);
+    expect(await readAll(table)).toEqual(rows);
+    expect(driver.openTableCursor).toHaveBeenCalledWith(
+      'users',
+      { keyColumns: ['tenant', 'id'], binaryOrderColumns: ['tenant'] },
+      2
+    );
+  });
+
+  it('rejects tables without a primary key', async () => {
+    const driver = createDriver([], []);
+
+    await expect(openTableRows(driver, 'logs', undefined)).rejects.toThrow(
+      'Table "logs" has no primary key, so its rows cannot be matched'
+    );
+  });
+});
+
+describe('compareTableRows', () => {
+  it('reports inserted, deleted and changed rows relative to the target', async () => {
+    const source = tableRows([
+      { id: 1, name: 'Ada', active: true },
+      { id: 2, name: 'Grace', active: true },
+      { id: 3, name: 'Linus', active: false },
+    ]);
+    const target = tableRows([
+      { id: 1, name: 'Ada', active: true },
+      { id: 2, name: 'Grace H.', active: false },
+      { id: 4, name: 'Ken', active: true },
+    ]);
+
+    const result = await compareTableRows(source, target, DatabaseType.PostgreSQL);
+
+    expect(result.summary).toEqual({ inserted: 1, deleted: 1, changed: 1, identical: 1 });
+    expect(result.rows).toEqual([
+      {
+        status: RowDiffStatus.Changed,
+        key: { id: 2 },
+        source: { id: 2, name: 'Grace', active: true },
+        target: { id: 2, name: 'Grace H.', active: false },
+        changedColumns: ['name', 'active'],
+      },
+      { status: RowDiffStatus.Inserted, key: { id: 3 }, source: { id: 3, name: 'Linus', active: false } },
+      { status: RowDiffStatus.Deleted, key: { id: 4 }, target: { id: 4, name: 'Ken', active: true } },
+    ]);
+  });
+
+  it('treats values that differ only in driver representation as equal', async () => {
+    const created = new Date('2024-01-01T00:00:00Z');
+    const source = tableRows([{ id: '1', name: 'Ada', active: true, created }], {
+      columns: ['id', 'name', 'active', 'created'],
+    });
+    const target = tableRows([{ id: 1, name: 'Ada', active: 1, created: new Date(created.getTime()) }], {
+      columns: ['id', 'name', 'active', 'created'],
+    });
+
+    expect((await compareTableRows(source, target, DatabaseType.MySQL)).summary.identical).toBe(1);
+  });
+
+  it('compares only the columns present on both sides', async () => {
+    const source = tableRows([{ id: 1, name: 'Ada', email: 'ada@example.com' }], { columns: ['id', 'name', 'email'] });
+    const target = tableRows([{ id: 1, name: 'Ada', active: true }]);
+
+    const result = await compareTableRows(source, target, DatabaseType.SQLite);
+
+    expect(result.columns).toEqual(['id', 'name']);
+    expect(result.sourceOnlyColumns).toEqual(['email']);
+    expect(result.targetOnlyColumns).toEqual(['active']);
+    expect(result.summary.identical).toBe(1);
+  });
+
+  it('rejects tables with different primary keys', async () => {
+    const source = tableRows([], { keyColumns: ['id'] });
+    const target = tableRows([], { keyColumns: ['id', 'tenant_id'] });
+
+    await expect(compareTableRows(source, target, DatabaseType.PostgreSQL)).rejects.toThrow(
+      'Primary keys differ: (id) in the source, (id, tenant_id) in the target'
+    );
+  });
+
+  it('builds a PostgreSQL sync script with deletes first', async () => {
+    const source = tableRows([
+      { id: 2, name: "O'Brien", active: true },
+      { id: 3, name: 'Linus', active: false },
+    ]);
+    const target = tableRows([
+      { id: 2, name: 'OBrien', active: true },
+      { id: 4, name: 'Ken', active: true },
+    ], { schema: 'public' });
+
+    const { script } = await compareTableRows(source, target, DatabaseType.PostgreSQL);
+
+    expect(script).toBe([
+      '-- Delete rows missing from the source',
+      'DELETE FROM "public"."users" WHERE "id" = 4;',
+      '',
+      '-- Update changed rows',
+      'UPDATE "public"."users" SET "name" = \'O\'\'Brien\' WHERE "id" = 2;',
+      '',
+      '-- Insert rows missing from the target',
+      'INSERT INTO "public"."users" ("id", "name", "active") VALUES (3, \'Linus\', FALSE);',
+    ].join('\n'));
+  });
+
+  it('quotes and escapes values for MySQL', async () => {
+    const source = tableRows([{ id: 1, name: 'C:\\temp', active: true }]);
+    const target = tableRows([]);
+
+    const { script } = await compareTableRows(source, target, DatabaseType.MySQL);
+
+    expect(script).toContain("INSERT INTO `users` (`id`, `name`, `active`) VALUES (1, 'C:\\\\temp', 1);");
+  });
+
+  it('limits the reported rows but scripts every difference', async () => {
+    const source = tableRows([{ id: 1 }, { id: 2 }, { id: 3 }], { columns: ['id'] });
+    const target = tableRows([], { columns: ['id'] });
+
+    const result = await compareTableRows(source, target, DatabaseType.SQLite, { maxReportedRows: 2 });
+
+    expect(result.rows).toHaveLength(2);
+    expect(result.truncated).toBe(true);
+    expect(result.summary.inserted).toBe(3);
+    expect(result.script.match(/INSERT INTO/g)).toHaveLength(3);
+  });
+
+  it('merges composite keys ordering numbers by value and text by its bytes', async () => {
+    const keys = { keyColumns: ['tenant', 'id'], numericKeyColumns: ['id'], columns: ['tenant', 'id', 'name'] };
+    const source = tableRows([
+      { tenant: 'B', id: '9', name: 'x' },
+      { tenant: 'B', id: '10', name: 'y' },
+      { tenant: 'a', id: '2', name: 'z' },
+    ], keys);
+    const target = tableRows([
+      { tenant: 'B', id: 10, name: 'y' },
+      { tenant: 'a', id: 1, name: 'w' },
+      { tenant: 'a', id: 2, name: 'z' },
+    ], keys);
+
+    const result = await compareTableRows(source, target, DatabaseType.MySQL);
+
+    expect(result.summary).toEqual({ inserted: 1, deleted: 1, changed: 0, identical: 2 });
+    expect(result.rows.map((row) => [row.status, row.key])).toEqual([
+      [RowDiffStatus.Inserted, { tenant: 'B', id: '9' }],
+      [RowDiffStatus.Deleted, { tenant: 'a', id: 1 }],
+    ]);
+    expect(result.sourceRowCount).toBe(3);
+    expect(result.targetRowCount).toBe(3);
+  });
+
+  it('stops when a table does not return its rows in key order and closes both reads', async () => {
+    const closed: string[] = [];
+    const reader = (name: string, rows: Record<string, unknown>[]) => async function* () {
+      try {
+        yield* rows;
+      } finally {
+        closed.push(name);
+      }
+    };
+    const source = tableRows([], { read: reader('source', [{ id: 2 }, { id: 1 }]) });
+    const target = tableRows([], { read: reader('target', [{ id: 1 }, { id: 2 }, { id: 3 }]) });
+
+    await expect(compareTableRows(source, target, DatabaseType.SQLite)).rejects.toThrow(
+      'Table "users" did not return its rows in primary key order, so they cannot be matched'
+    );
+    expect(closed.sort()).toEqual(['source', 'target']);
+  });
+
+  it('rejects key columns that are numeric on one side only', async () => {
+    const source = tableRows([], { numericKeyColumns: [] });
+    const target = tableRows([]);
+
+    await expect(compareTableRows(source, target, DatabaseType.SQLite)).rejects.toThrow(
+      'Key column "id" is numeric in one table but not in the other, so their rows cannot be matched'
+    );
+  });
+});
@@ -262,6 +262,17 @@ describe('AppDatabase', () => {
       expect(bookmarksCreate).toBeDefined();
     });
 
+    it('should create import_checkpoints table keyed by connection, table and file', async () => {
+      const appDb = await loadAppDatabase();
+
+      appDb.initialize();
+
+      const execCalls = mockExec.mock.calls.map((c: unknown[]) => c[0] as string);
+      const checkpointsCreate = execCalls.find((sql: string) => sql.includes('CREATE TABLE IF NOT EXISTS import_checkpoints'));
+      expect(checkpointsCreate).toBeDefined();
+      expect(checkpointsCreate).toContain('PRIMARY KEY (connection_id, table_name, file_path)');
+    });
+
     it('should create indexes for query_history', async () => {
       const appDb = await loadAppDatabase();
 
@@ -1,4 +1,23 @@
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import type { DatabaseDriver } from '../../../main/db/base'
+import { DatabaseType, SortDirection } from '../../../main/types'
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => [])
+  }
+}))
+
+import {
+  streamExport,
+  ExportSourceType,
+  ExportCanceledError,
+  type StreamExportOptions,
+  type ExportProgressEvent
+} from '../../../main/services/export'
 
 // Test export functionality
 describe('Export Functions', () => {
@@ -195,3 +214,196 @@ describe('Export Functions', () => {
     })
   })
 })
+
+describe('streamExport', () => {
+  const columns = [{ name: 'id', type: 'integer', nullable: false }, { name: 'name', type: 'text', nullable: true }]
+  const allRows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: i === 2 ? "O'Brien" : `user${i + 1}` }))
+
+  let dir: string
+  let filePath: string
+
+  // A cursor over `rows` that hands out the first `batchSize` rows up front, like openCursor
+  const cursorOver = (rows: Record<string, unknown>[], batchSize: number) => {
+    let position = batchSize
+    const close = vi.fn(async () => undefined)
+    const cursor = {
+      columns,
+      read: vi.fn(async (count: number) => {
+        const batch = rows.slice(position, position + count)
+        position += count
+        return { rows: batch, hasMore: position < rows.length }
+      }),
+      close
+    }
+    const hasMore = rows.length > batchSize
+    return {
+      opened: {
+        result: { columns, rows: rows.slice(0, batchSize), rowCount: 0, executionTime: 1 },
+        cursor: hasMore ? cursor : null
+      },
+      cursor
+    }
+  }
+
+  const createTableDriver = (rows = allRows) => {
+    const { opened, cursor } = cursorOver(rows, 2)
+    const openTableCursor = vi.fn().mockResolvedValue(opened)
+    const getPrimaryKeyColumns = vi.fn().mockResolvedValue(['tenant_id', 'id'])
+    const driver = { type: DatabaseType.PostgreSQL, openTableCursor, getPrimaryKeyColumns } as unknown as DatabaseDriver
+    return { driver, openTableCursor, cursor }
+  }
+
+  const tableOptions = (overrides: Partial<StreamExportOptions> = {}): StreamExportOptions => ({
+    exportId: 'exp-1',
+    connectionId: 'conn-1',
+    source: { type: ExportSourceType.Table, table: 'users' },
+    format: 'csv',
+    batchSize: 2,
+    ...overrides
+  })
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zequel-export-'))
+    filePath = join(dir, 'out')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should stream the table through a cursor ordered by the whole key and write CSV', async () => {
+    const { driver, openTableCursor, cursor } = createTableDriver()
+    const options = tableOptions({
+      source: { type: ExportSourceType.Table, table: 'users', orderBy: 'name', orderDirection: SortDirection.Desc }
+    })
+
+    const rowCount = await streamExport(driver, options, filePath, new AbortController().signal, vi.fn())
+
+    expect(rowCount).toBe(5)
+    expect(openTableCursor).toHaveBeenCalledWith(
+      'users',
+      { filters: undefined, orderBy: 'name', orderDirection: 'DESC', keyColumns: ['tenant_id', 'id'] },
+      2
+    )
+    expect(cursor.read).toHaveBeenCalledTimes(2)
+    expect(cursor.close).toHaveBeenCalled()
+    const lines = (await readFile(filePath, 'utf-8')).trimEnd().split('\n')
+    expect(lines[0]).toBe('id,name')
+    expect(lines).toHaveLength(6)
+  })
+
+  it('should report progress after every batch', async () => {
+    const { driver } = createTableDriver()
+    const events: ExportProgressEvent[] = []
+
+    await streamExport(driver, tableOptions(), filePath, new AbortController().signal, (e) => events.push(e))
+
+    expect(events.map((e) => e.rowsWritten)).toEqual([2, 4, 5])
+    expect(events[0]).toEqual({ exportId: 'exp-1', rowsWritten: 2, totalRows: undefined })
+  })
+
+  it('should page through getTableData on engines without cursors', async () => {
+    const getTableData = vi.fn(async (_table: string, options: { offset?: number; limit?: number }) => {
+      const offset = options.offset ?? 0
+      const limit = options.limit ?? allRows.length
+      return { columns, rows: allRows.slice(offset, offset + limit), totalCount: allRows.length, offset, limit }
+    })
+    const driver = {
+      type: DatabaseType.Redis,
+      getPrimaryKeyColumns: vi.fn().mockResolvedValue(['key']),
+      openTableCursor: vi.fn().mockResolvedValue(null),
+      getTableData
+    } as unknown as DatabaseDriver
+    const events: ExportProgressEvent[] = []
+
+    const rowCount = await streamExport(driver, tableOptions(), filePath, new AbortController().signal, (e) => events.push(e))
+
+    expect(rowCount).toBe(5)
+    expect(getTableData).toHaveBeenLastCalledWith('users', expect.objectContaining({ offset: 4, limit: 2, orderBy: 'key' }))
+    expect(events[0].totalRows).toBe(5)
+  })
+
+  it('should write a valid JSON array across batches', async () => {
+    const { driver } = createTableDriver()
+
+    await streamExport(driver, tableOptions({ format: 'json' }), filePath, new AbortController().signal, vi.fn())
+
+    const parsed = JSON.parse(await readFile(filePath, 'utf-8'))
+    expect(parsed).toHaveLength(5)
+    expect(parsed[2]).toEqual({ id: 3, name: "O'Brien" })
+  })
+
+  it('should write an empty JSON array for an empty source', async () => {
+    const { driver } = createTableDriver([])
+
+    await streamExport(driver, tableOptions({ format: 'json' }), filePath, new AbortController().signal, vi.fn())
+
+    expect(JSON.parse(await readFile(filePath, 'utf-8'))).toEqual([])
+  })
+
+  it('should write escaped INSERT statements for SQL', async () => {
+    const { driver } = createTableDriver()
+
+    await streamExport(driver, tableOptions({ format: 'sql' }), filePath, new AbortController().signal, vi.fn())
+
+    const content = await readFile(filePath, 'utf-8')
+    expect(content).toContain(`INSERT INTO "users" ("id", "name") VALUES (3, 'O''Brien');`)
+  })
+
+  it('should stream queries through a cursor in their own order', async () => {
+    const { opened, cursor } = cursorOver(allRows, 2)
+    const openCursor = vi.fn().mockResolvedValue(opened)
+    const driver = { type: DatabaseType.MySQL, openCursor } as unknown as DatabaseDriver
+    const options = tableOptions({ source: { type: ExportSourceType.Query, sql: 'SELECT * FROM users ORDER BY name;' } })
+
+    const rowCount = await streamExport(driver, options, filePath, new AbortController().signal, vi.fn())
+
+    expect(rowCount).toBe(5)
+    expect(openCursor).toHaveBeenCalledWith('SELECT * FROM users ORDER BY name', undefined, { maxRows: 2 })
+    expect(cursor.close).toHaveBeenCalled()
+  })
+
+  it('should surface query errors', async () => {
+    const driver = {
+      type: DatabaseType.SQLite,
+      openCursor: vi.fn().mockResolvedValue({
+        result: { columns: [], rows: [], rowCount: 0, executionTime: 0, error: 'no such table: nope' },
+        cursor: null
+      })
+    } as unknown as DatabaseDriver
+    const options = tableOptions({ source: { type: ExportSourceType.Query, sql: 'SELECT * FROM nope' } })
+
+    await expect(streamExport(driver, options, filePath, new AbortController().signal, vi.fn())).rejects.toThrow('no such table: nope')
+  })
+
+  it('should refuse to export anything but a single SELECT', async () => {
+    const openCursor = vi.fn()
+    const driver = { type: DatabaseType.PostgreSQL, openCursor } as unknown as DatabaseDriver
+    const options = tableOptions({ source: { type: ExportSourceType.Query, sql: 'DELETE FROM users RETURNING *' } })
+
+    await expect(streamExport(driver, options, filePath, new AbortController().signal, vi.fn())).rejects.toThrow(
+      'Only a single SELECT statement can be exported'
+    )
+    expect(openCursor).not.toHaveBeenCalled()
+  })
+
+  it('should reject query export for non-SQL engines', async () => {
+    const driver = { type: DatabaseType.Redis } as unknown as DatabaseDriver
+    const options = tableOptions({ source: { type: ExportSourceType.Query, sql: 'KEYS *' } })
+
+    await expect(streamExport(driver, options, filePath, new AbortController().signal, vi.fn())).rejects.toThrow(
+      'Streaming query export is not supported for redis connections'
+    )
+  })
+
+  it('should stop between batches once aborted and close the cursor', async () => {
+    const { driver, cursor } = createTableDriver()
+    const controller = new AbortController()
+
+    const promise = streamExport(driver, tableOptions(), filePath, controller.signal, () => controller.abort())
+
+    await expect(promise).rejects.toBeInstanceOf(ExportCanceledError)
+    expect(cursor.read).not.toHaveBeenCalled()
+    expect(cursor.close).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockShowMessageBox = vi.fn();
+const mockGetConfig = vi.fn();
+const settings = new Map<string, string>();
+
+vi.mock('electron', () => ({
+  dialog: {
+    showMessageBox: (...args: unknown[]) => mockShowMessageBox(...args),
+  },
+  BrowserWindow: {
+    getFocusedWindow: () => null,
+    getAllWindows: () => [],
+  },
+}));
+
+vi.mock('@main/db/manager', () => ({
+  connectionManager: {
+    getConfig: (...args: unknown[]) => mockGetConfig(...args),
+  },
+}));
+
+vi.mock('@main/services/database', () => ({
+  appDatabase: {
+    getDatabase: () => ({
+      prepare: (sql: string) => ({
+        get: (key: string) => (settings.has(key) ? { value: settings.get(key) } : undefined),
+        run: (key: string, value: string) => {
+          if (sql.includes('INSERT INTO settings')) settings.set(key, value);
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  enforceGuardrails,
+  findPolicyViolation,
+  guardedOperation,
+  guardrailsService,
+  GuardrailError,
+  type GuardrailPolicy,
+} from '@main/services/guardrails';
+import { classifyStatement, StatementType } from '@main/services/statementClassifier';
+
+const policy = (overrides: Partial<GuardrailPolicy> = {}): GuardrailPolicy => ({
+  readOnly: false,
+  confirmDestructive: false,
+  restrictStatements: false,
+  allowedStatements: Object.values(StatementType),
+  ...overrides,
+});
+
+describe('classifyStatement', () => {
+  it('should classify by the leading keyword', () => {
+    expect(classifyStatement('SELECT * FROM users').type).toBe(StatementType.Select);
+    expect(classifyStatement('insert into t values (1)').type).toBe(StatementType.Insert);
+    expect(classifyStatement('CREATE INDEX idx ON t (a)').type).toBe(StatementType.Create);
+    expect(classifyStatement('GRANT SELECT ON t TO bob').type).toBe(StatementType.Grant);
+    expect(classifyStatement('USE analytics').type).toBe(StatementType.Session);
+    expect(classifyStatement('VACUUM').type).toBe(StatementType.Other);
+  });
+
+  it('should skip leading comments and parentheses', () => {
+    expect(classifyStatement('-- cleanup\nDROP TABLE t').type).toBe(StatementType.Drop);
+    expect(classifyStatement('/* report */ (SELECT 1)').type).toBe(StatementType.Select);
+  });
+
+  it('should flag DROP and TRUNCATE as destructive', () => {
+    expect(classifyStatement('DROP TABLE orders').destructive).toBe(true);
+    expect(classifyStatement('TRUNCATE orders').destructive).toBe(true);
+    expect(classifyStatement('ALTER TABLE orders ADD COLUMN note TEXT').destructive).toBe(false);
+  });
+
+  it('should flag DELETE and UPDATE without WHERE as destructive', () => {
+    expect(classifyStatement('DELETE FROM orders').destructive).toBe(true);
+    expect(classifyStatement('UPDATE orders SET total = 0').destructive).toBe(true);
+    expect(classifyStatement('DELETE FROM orders WHERE id = 1').destructive).toBe(false);
+    expect(classifyStatement('update orders set total = 0 where id = 1').destructive).toBe(false);
+  });
+
+  it('should not take WHERE inside strings or comments as a filter', () => {
+    expect(classifyStatement("UPDATE notes SET body = 'where is it'").destructive).toBe(true);
+    expect(classifyStatement('DELETE FROM orders -- WHERE id = 1').destructive).toBe(true);
+    expect(classifyStatement('DELETE FROM "where"').destructive).toBe(true);
+  });
+});
+
+describe('guardedOperation', () => {
+  it('should treat drops as destructive unless told otherwise', () => {
+    expect(guardedOperation(StatementType.Drop, 'DROP VIEW v').destructive).toBe(true);
+    expect(guardedOperation(StatementType.Create, 'CREATE VIEW v').destructive).toBe(false);
+    expect(guardedOperation(StatementType.Alter, 'ALTER TABLE t DROP COLUMN c', true).destructive).toBe(true);
+  });
+});
+
+describe('findPolicyViolation', () => {
+  it('should allow everything under an empty policy', () => {
+    expect(findPolicyViolation(policy(), [classifyStatement('DROP TABLE t')])).toBeNull();
+  });
+
+  it('should only let reads and session statements through in read-only mode', () => {
+    const readOnly = policy({ readOnly: true });
+
+    expect(findPolicyViolation(readOnly, [classifyStatement('SELECT 1'), classifyStatement('SET search_path TO app')])).toBeNull();
+    expect(findPolicyViolation(readOnly, [classifyStatement('SELECT 1'), classifyStatement('INSERT INTO t VALUES (1)')]))
+      .toBe('INSERT statements are blocked: the connection is read-only');
+  });
+
+  it('should enforce the allow-list when restricted', () => {
+    const restricted = policy({
+      restrictStatements: true,
+      allowedStatements: [StatementType.Select, StatementType.Insert],
+    });
+
+    expect(findPolicyViolation(restricted, [classifyStatement('INSERT INTO t VALUES (1)')])).toBeNull();
+    expect(findPolicyViolation(restricted, [classifyStatement('UPDATE t SET a = 1 WHERE id = 2')]))
+      .toBe('UPDATE statements are not in the allowed statement types');
+  });
+
+  it('should ignore the allow-list when not restricted', () => {
+    const unrestricted = policy({ allowedStatements: [] });
+
+    expect(findPolicyViolation(unrestricted, [classifyStatement('DELETE FROM t WHERE id = 1')])).toBeNull();
+  });
+});
+
+describe('GuardrailsService', () => {
+  beforeEach(() => {
+    settings.clear();
+  });
+
+  it('should ask for confirmation on production and staging by default', () => {
+    const policies = guardrailsService.getPolicies();
+
+    expect(policies.production.confirmDestructive).toBe(true);
+    expect(policies.staging.confirmDestructive).toBe(true);
+    expect(policies.local.confirmDestructive).toBe(false);
+    expect(policies.production.readOnly).toBe(false);
+  });
+
+  it('should persist a policy per environment', () => {
+    guardrailsService.setPolicy('staging', policy({ readOnly: true }));
+
+    expect(guardrailsService.getPolicy('staging').readOnly).toBe(true);
+    expect(guardrailsService.getPolicy('production').readOnly).toBe(false);
+  });
+
+  it('should drop unknown statement types from the allow-list', () => {
+    const saved = guardrailsService.setPolicy('production', policy({
+      allowedStatements: [StatementType.Select, 'merge' as StatementType],
+    }));
+
+    expect(saved.allowedStatements).toEqual([StatementType.Select]);
+  });
+
+  it('should reject unknown environments', () => {
+    expect(() => guardrailsService.setPolicy('qa' as 'local', policy())).toThrow('Unknown environment: qa');
+  });
+
+  it('should fall back to the default for an unreadable policy', () => {
+    settings.set('guardrails.production', '{not json');
+
+    expect(guardrailsService.getPolicy('production').confirmDestructive).toBe(true);
+  });
+});
+
+describe('enforceGuardrails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    settings.clear();
+  });
+
+  it('should not guard connections without an environment', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Local', environment: undefined });
+
+    await expect(enforceGuardrails('conn-1', [classifyStatement('DROP TABLE t')])).resolves.toBeUndefined();
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+
+  it('should refuse writes on a read-only connection', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Replica', readOnly: true });
+
+    await expect(enforceGuardrails('conn-1', [
+      classifyStatement('SELECT 1'),
+      classifyStatement('WITH gone AS (DELETE FROM orders RETURNING id) SELECT * FROM gone'),
+    ])).rejects.toThrow('WITH ... DELETE is not allowed on a read-only connection');
+  });
+
+  it('should let reads and session statements through on a read-only connection', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Replica', readOnly: true });
+
+    await expect(enforceGuardrails('conn-1', [
+      classifyStatement('SET search_path TO app'),
+      classifyStatement('SELECT * FROM orders'),
+    ])).resolves.toBeUndefined();
+  });
+
+  it('should refuse statements the policy blocks', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Orders', environment: 'production' });
+    guardrailsService.setPolicy('production', policy({ readOnly: true }));
+
+    await expect(enforceGuardrails('conn-1', [classifyStatement('DELETE FROM orders WHERE id = 1')]))
+      .rejects.toThrow(GuardrailError);
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+
+  it('should run destructive statements once confirmed', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Orders', environment: 'production' });
+    mockShowMessageBox.mockResolvedValue({ response: 1 });
+
+    await expect(enforceGuardrails('conn-1', [classifyStatement('DELETE FROM orders')])).resolves.toBeUndefined();
+    expect(mockShowMessageBox).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Run a destructive statement on "Orders" (production)?',
+      detail: 'DELETE FROM orders',
+    }));
+  });
+
+  it('should refuse destructive statements the user declines', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Orders', environment: 'production' });
+    mockShowMessageBox.mockResolvedValue({ response: 0 });
+
+    await expect(enforceGuardrails('conn-1', [classifyStatement('TRUNCATE orders')]))
+      .rejects.toThrow('Destructive statement canceled');
+  });
+
+  it('should not ask about statements that are not destructive', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Orders', environment: 'production' });
+
+    await enforceGuardrails('conn-1', [classifyStatement('UPDATE orders SET total = 0 WHERE id = 1')]);
+
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+
+  it('should not ask when confirmation is turned off', async () => {
+    mockGetConfig.mockReturnValue({ id: 'conn-1', name: 'Scratch', environment: 'development' });
+
+    await enforceGuardrails('conn-1', [classifyStatement('DROP TABLE t')]);
+
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+});
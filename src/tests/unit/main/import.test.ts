@@ -1,4 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as XLSX from 'xlsx'
 
 // Mock electron before importing anything that uses it
 vi.mock('electron', () => ({
@@ -9,8 +13,10 @@ vi.mock('electron', () => ({
 }))
 
 const mockReadFile = vi.fn()
+const mockStat = vi.fn()
 vi.mock('fs/promises', () => ({
-  readFile: (...args: unknown[]) => mockReadFile(...args)
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+  stat: (...args: unknown[]) => mockStat(...args)
 }))
 
 const mockParseCSV = vi.fn()
@@ -23,9 +29,17 @@ import {
   flattenObject,
   parseCSVFile,
   parseJSONFile,
-  readImportData
+  parseNDJSONFile,
+  parseXLSXFile,
+  parseSQLFile,
+  parseValueTuples,
+  readImportData,
+  streamImport,
+  ImportErrorPolicy
 } from '@main/services/import'
-import type { ImportOptions } from '@main/services/import'
+import type { ImportOptions, StreamImportOptions } from '@main/services/import'
+import type { DatabaseDriver } from '@main/db/base'
+import { DatabaseType } from '@main/types'
 
 describe('Import Service', () => {
   describe('detectType', () => {
@@ -128,6 +142,7 @@ describe('Import Service', () => {
     beforeEach(() => {
       mockReadFile.mockReset()
       mockParseCSV.mockReset()
+      mockStat.mockResolvedValue({ size: 100 })
     })
 
     it('should parse a CSV file with headers', async () => {
@@ -285,6 +300,7 @@ describe('Import Service', () => {
   describe('parseJSONFile', () => {
     beforeEach(() => {
       mockReadFile.mockReset()
+      mockStat.mockResolvedValue({ size: 100 })
     })
 
     it('should parse a JSON array file', async () => {
@@ -651,4 +667,363 @@ describe('Import Service', () => {
       expect(mockReadFile).toHaveBeenCalledWith('/tmp/test.json', 'latin1')
     })
   })
+
+  describe('file formats read from disk', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'zequel-import-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    const fixture = (name: string, content: string) => {
+      const filePath = join(dir, name)
+      writeFileSync(filePath, content)
+      return filePath
+    }
+
+    it('should preview NDJSON from the first lines and count the rest', async () => {
+      const lines = Array.from({ length: 5 }, (_, i) => JSON.stringify({ id: i + 1, meta: { tag: `t${i}` } }))
+      const filePath = fixture('rows.ndjson', lines.join('\n') + '\n\n')
+
+      const preview = await parseNDJSONFile({ filePath, format: 'ndjson', previewLimit: 2 })
+
+      expect(preview.totalRows).toBe(5)
+      expect(preview.rows).toEqual([{ id: 1, 'meta.tag': 't0' }, { id: 2, 'meta.tag': 't1' }])
+      expect(preview.columns.map((c) => [c.name, c.detectedType])).toEqual([['id', 'INTEGER'], ['meta.tag', 'VARCHAR(255)']])
+      expect(await readImportData({ filePath, format: 'ndjson' })).toHaveLength(5)
+    })
+
+    it('should report the line number of invalid NDJSON', async () => {
+      const filePath = fixture('bad.ndjson', '{"id":1}\n[1,2]\n')
+
+      await expect(parseNDJSONFile({ filePath, format: 'ndjson' })).rejects.toThrow('Line 2 is not a JSON object')
+    })
+
+    it('should read the chosen workbook sheet and list all sheets', async () => {
+      const workbook = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['name', 'name', ''], ['a', 'b', 1]]), 'First')
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.aoa_to_sheet([['id', 'joined'], [1, new Date(2024, 0, 15)], [2, null]], { cellDates: true }),
+        'People'
+      )
+      const filePath = join(dir, 'book.xlsx')
+      XLSX.writeFile(workbook, filePath)
+
+      const first = await parseXLSXFile({ filePath, format: 'xlsx' })
+      expect(first.sources).toEqual(['First', 'People'])
+      expect(first.source).toBe('First')
+      expect(first.rows).toEqual([{ name: 'a', name_2: 'b', column_3: 1 }])
+
+      const people = await parseXLSXFile({ filePath, format: 'xlsx', source: 'People' })
+      expect(people.totalRows).toBe(2)
+      expect(people.rows).toEqual([{ id: 1, joined: '2024-01-15' }, { id: 2, joined: null }])
+      expect(people.columns[1].detectedType).toBe('DATE')
+
+      const headerless = await readImportData({ filePath, format: 'xlsx', source: 'People', hasHeaders: false })
+      expect(headerless[0]).toEqual({ column_1: 'id', column_2: 'joined' })
+
+      await expect(parseXLSXFile({ filePath, format: 'xlsx', source: 'Missing' })).rejects.toThrow(
+        'Sheet "Missing" not found in workbook'
+      )
+    })
+
+    it('should parse INSERT statements for one table at a time', async () => {
+      const filePath = fixture('dump.sql', [
+        '-- dump',
+        'CREATE TABLE users (id int, name text);',
+        "INSERT INTO \"public\".\"users\" (\"id\", \"name\") VALUES (1, 'Ada; Lovelace'), (2, NULL);",
+        "INSERT INTO `orders` VALUES (10, 'x');",
+        "INSERT INTO public.users (id, name, active) VALUES (3, E'O\\'Brien', TRUE);",
+        ''
+      ].join('\n'))
+
+      const preview = await parseSQLFile({ filePath, format: 'sql' })
+      expect(preview.sources).toEqual(['public.users', 'orders'])
+      expect(preview.source).toBe('public.users')
+      expect(preview.totalRows).toBe(3)
+      expect(preview.columns.map((c) => c.name)).toEqual(['id', 'name', 'active'])
+      expect(preview.rows[2]).toEqual({ id: 3, name: "O'Brien", active: true })
+
+      const orders = await readImportData({ filePath, format: 'sql', source: 'orders' })
+      expect(orders).toEqual([{ column_1: 10, column_2: 'x' }])
+    })
+
+    it('should honor backslash escapes in a mysqldump file', async () => {
+      const filePath = fixture('mysqldump.sql', [
+        '-- MySQL dump 10.13  Distrib 8.0.36, for Linux (x86_64)',
+        '--',
+        '-- Host: localhost    Database: shop',
+        '/*!40101 SET @OLD_CHARACTER_SET_CLIENT=@@CHARACTER_SET_CLIENT */;',
+        'DROP TABLE IF EXISTS `notes`;',
+        'CREATE TABLE `notes` (`id` int NOT NULL, `body` text, PRIMARY KEY (`id`)) ENGINE=InnoDB;',
+        'LOCK TABLES `notes` WRITE;',
+        "INSERT INTO `notes` VALUES (1,'O\\'Brien; said \\\"hi\\\"'),(2,'C:\\\\temp\\\\'),(3,'line\\nbreak\\ttab'),(4,_binary 'a\\'b'),(5,'50\\% off');",
+        'UNLOCK TABLES;',
+        ''
+      ].join('\n'))
+
+      const rows = await readImportData({ filePath, format: 'sql' })
+
+      expect(rows).toEqual([
+        { column_1: 1, column_2: 'O\'Brien; said "hi"' },
+        { column_1: 2, column_2: 'C:\\temp\\' },
+        { column_1: 3, column_2: 'line\nbreak\ttab' },
+        { column_1: 4, column_2: "_binary 'a\\'b'" },
+        { column_1: 5, column_2: '50\\% off' }
+      ])
+    })
+
+    it('should fail when a SQL file has no INSERT statements', async () => {
+      const filePath = fixture('schema.sql', 'CREATE TABLE t (id int);\n')
+
+      await expect(parseSQLFile({ filePath, format: 'sql' })).rejects.toThrow('No INSERT statements found in file')
+    })
+  })
+
+  describe('streamImport', () => {
+    let dir: string
+    let executed: { sql: string; params?: unknown[] }[]
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'zequel-stream-'))
+      executed = []
+      mockStat.mockImplementation(async (path: string) => statSync(path))
+      mockReadFile.mockImplementation(async (path: string, encoding: BufferEncoding) => readFileSync(path, encoding))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    const fixture = (name: string, content: string) => {
+      const filePath = join(dir, name)
+      writeFileSync(filePath, content)
+      return filePath
+    }
+
+    // Fails any statement whose parameters include `failOn`
+    const createDriver = (type: DatabaseType, failOn?: unknown) => ({
+      type,
+      getCurrentSchema: () => 'sales',
+      execute: vi.fn(async (sql: string, params?: unknown[]) => {
+        executed.push({ sql, params })
+        if (failOn !== undefined && params?.includes(failOn)) {
+          return { rows: [], error: 'value rejected' }
+        }
+        return { rows: [] }
+      }),
+      insertRow: vi.fn(async () => ({ success: true }))
+    }) as unknown as DatabaseDriver
+
+    const importOptions = (filePath: string, overrides: Partial<StreamImportOptions> = {}): StreamImportOptions => ({
+      importId: 'imp-1',
+      connectionId: 'conn-1',
+      tableName: 'people',
+      filePath,
+      format: 'csv',
+      columnMappings: [
+        { sourceColumn: 'id', targetColumn: 'id', targetType: 'INTEGER' },
+        { sourceColumn: 'name', targetColumn: 'name', targetType: 'TEXT' }
+      ],
+      errorPolicy: ImportErrorPolicy.Abort,
+      ...overrides
+    })
+
+    const csvRows = (count: number) =>
+      ['id,name', ...Array.from({ length: count }, (_, i) => `${i + 1},name ${i + 1}`)].join('\n') + '\n'
+
+    it('should insert CSV rows in multi-row batches and report progress', async () => {
+      const filePath = fixture('people.csv', csvRows(5))
+      const onProgress = vi.fn()
+      const onCommit = vi.fn()
+
+      const result = await streamImport(
+        createDriver(DatabaseType.SQLite),
+        importOptions(filePath, { batchSize: 2 }),
+        new AbortController().signal,
+        onProgress,
+        onCommit
+      )
+
+      expect(result).toMatchObject({ success: true, rowsProcessed: 5, rowsInserted: 5, rowsRejected: 0 })
+      expect(executed.map((e) => e.sql)).toEqual([
+        'INSERT INTO "people" ("id", "name") VALUES (?, ?), (?, ?)',
+        'INSERT INTO "people" ("id", "name") VALUES (?, ?), (?, ?)',
+        'INSERT INTO "people" ("id", "name") VALUES (?, ?)'
+      ])
+      expect(executed[0].params).toEqual([1, 'name 1', 2, 'name 2'])
+      expect(onCommit.mock.calls.map(([counts]) => counts.rowsProcessed)).toEqual([2, 4, 5])
+      expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({
+        importId: 'imp-1',
+        rowsInserted: 5,
+        bytesRead: statSync(filePath).size,
+        totalBytes: statSync(filePath).size
+      }))
+    })
+
+    it('should stream JSON array elements and qualify PostgreSQL tables with the schema', async () => {
+      const filePath = fixture('people.json', JSON.stringify([
+        { id: 1, name: 'a, [b]', meta: { tags: ['x'] } },
+        { id: 2, name: 'quote \\" } here' }
+      ], null, 2))
+
+      const result = await streamImport(
+        createDriver(DatabaseType.PostgreSQL),
+        importOptions(filePath, {
+          format: 'json',
+          columnMappings: [
+            { sourceColumn: 'id', targetColumn: 'id', targetType: 'INTEGER' },
+            { sourceColumn: 'name', targetColumn: 'name', targetType: 'TEXT' },
+            { sourceColumn: 'meta.tags', targetColumn: 'tags', targetType: 'JSONB' }
+          ]
+        }),
+        new AbortController().signal,
+        vi.fn(),
+        vi.fn()
+      )
+
+      expect(result.success).toBe(true)
+      expect(executed).toEqual([{
+        sql: 'INSERT INTO "sales"."people" ("id", "name", "tags") VALUES (?, ?, ?), (?, ?, ?)',
+        params: [1, 'a, [b]', '["x"]', 2, 'quote \\" } here', null]
+      }])
+    })
+
+    it('should read a JSON document whose top level is an object', async () => {
+      const filePath = fixture('wrapped.json', JSON.stringify({ data: [{ id: 7, name: 'g' }] }))
+
+      const result = await streamImport(
+        createDriver(DatabaseType.MySQL),
+        importOptions(filePath, { format: 'json' }),
+        new AbortController().signal,
+        vi.fn(),
+        vi.fn()
+      )
+
+      expect(result.rowsInserted).toBe(1)
+      expect(executed[0].sql).toBe('INSERT INTO `people` (`id`, `name`) VALUES (?, ?)')
+    })
+
+    it('should inline literals for ClickHouse', async () => {
+      const filePath = fixture('people.csv', "id,name\n1,O'Hara\n")
+
+      await streamImport(
+        createDriver(DatabaseType.ClickHouse),
+        importOptions(filePath),
+        new AbortController().signal,
+        vi.fn(),
+        vi.fn()
+      )
+
+      expect(executed[0]).toEqual({ sql: "INSERT INTO `people` (`id`, `name`) VALUES (1, 'O\\'Hara')", params: undefined })
+    })
+
+    it('should retry a failed batch row by row and write rejected rows to a file', async () => {
+      const filePath = fixture('people.csv', csvRows(4))
+
+      const result = await streamImport(
+        createDriver(DatabaseType.SQLite, 'name 3'),
+        importOptions(filePath, { errorPolicy: ImportErrorPolicy.RejectFile, batchSize: 4 }),
+        new AbortController().signal,
+        vi.fn(),
+        vi.fn()
+      )
+
+      expect(result).toMatchObject({ success: true, rowsProcessed: 4, rowsInserted: 3, rowsRejected: 1 })
+      expect(result.errors).toEqual(['Row 3: value rejected'])
+      expect(result.rejectFilePath).toBe(`${filePath}.rejected.ndjson`)
+      expect(JSON.parse(readFileSync(result.rejectFilePath!, 'utf-8'))).toEqual({
+        row: 3,
+        error: 'value rejected',
+        record: { id: '3', name: 'name 3' }
+      })
+    })
+
+    it('should stop on the first failed batch and resume after the last committed one', async () => {
+      const filePath = fixture('people.csv', csvRows(5))
+      const onCommit = vi.fn()
+
+      const failed = await streamImport(
+        createDriver(DatabaseType.SQLite, 'name 3'),
+        importOptions(filePath, { batchSize: 2, truncateTable: true }),
+        new AbortController().signal,
+        vi.fn(),
+        onCommit
+      )
+
+      expect(failed).toMatchObject({ success: false, error: 'Rows 3-4: value rejected', rowsProcessed: 2, rowsInserted: 2 })
+      expect(executed[0].sql).toBe('DELETE FROM "people"')
+      expect(onCommit).toHaveBeenCalledTimes(1)
+
+      executed = []
+      const resumed = await streamImport(
+        createDriver(DatabaseType.SQLite),
+        importOptions(filePath, { batchSize: 2, truncateTable: true }),
+        new AbortController().signal,
+        vi.fn(),
+        vi.fn(),
+        onCommit.mock.calls[0][0]
+      )
+
+      expect(resumed).toMatchObject({ success: true, rowsProcessed: 5, rowsInserted: 5 })
+      // The table is not cleared again and rows 1-2 are skipped
+      expect(executed.map((e) => e.params?.[0])).toEqual([3, 5])
+    })
+
+    it('should stop before the next batch when canceled', async () => {
+      const filePath = fixture('people.csv', csvRows(3))
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await streamImport(
+        createDriver(DatabaseType.SQLite),
+        importOptions(filePath),
+        controller.signal,
+        vi.fn(),
+        vi.fn()
+      )
+
+      expect(result).toMatchObject({ success: false, canceled: true, error: 'Import canceled', rowsProcessed: 0 })
+      expect(executed).toEqual([])
+    })
+
+    it('should preview large files from their first rows with an estimated total', async () => {
+      const filePath = fixture('big.csv', csvRows(1000))
+      const size = statSync(filePath).size
+      // Report the file as 4000 times its size so it takes the streaming path
+      mockStat.mockResolvedValue({ size: size * 4000 })
+      mockReadFile.mockClear()
+
+      const preview = await parseCSVFile({ filePath, format: 'csv', previewLimit: 10 })
+
+      expect(mockReadFile).not.toHaveBeenCalled()
+      expect(preview.rows).toHaveLength(10)
+      expect(preview.rows[0]).toEqual({ id: '1', name: 'name 1' })
+      expect(preview.totalRowsEstimated).toBe(true)
+      expect(preview.totalRows).toBeGreaterThan(3_000_000)
+      expect(preview.totalRows).toBeLessThan(6_000_000)
+    })
+  })
+
+  describe('parseValueTuples', () => {
+    it('should parse literals, casts and expressions', () => {
+      expect(parseValueTuples("(1, -2.5, 'it''s', NULL, false, '{\"a\":1}'::jsonb, now(), 9007199254740993) ON CONFLICT DO NOTHING")).toEqual([
+        [1, -2.5, "it's", null, false, '{"a":1}', 'now()', '9007199254740993']
+      ])
+    })
+
+    it('should read backslash escapes only in MySQL-flavoured values', () => {
+      expect(parseValueTuples("('C:\\temp', 'it\\'s')", { backslashEscapes: true })).toEqual([['C:\temp', "it's"]])
+      expect(parseValueTuples("('C:\\temp')")).toEqual([['C:\\temp']])
+    })
+
+    it('should reject an unterminated VALUES list', () => {
+      expect(() => parseValueTuples("(1, 'open")).toThrow('Unterminated string literal in VALUES')
+    })
+  })
 })
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseType, TableObjectType, type Index } from '@main/types';
+import type { DatabaseDriver } from '@main/db/base';
+import type { ForeignKeyDefinition } from '@main/types/schema-operations';
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('pg', () => ({ Pool: vi.fn() }));
+
+import { PostgreSQLDriver } from '@main/db/postgres';
+import {
+  analyzeIndexes,
+  IndexFindingKind,
+  IndexFixAction,
+  loadTableIndexes,
+  type TableIndexes,
+} from '@main/services/indexAdvisor';
+
+// ── Helpers ──
+
+const index = (name: string, columns: string[], overrides: Partial<Index> = {}): Index => ({
+  name,
+  columns,
+  unique: false,
+  primary: false,
+  type: 'btree',
+  ...overrides,
+});
+
+const foreignKey = (name: string, columns: string[], referencedTable = 'customers'): ForeignKeyDefinition => ({
+  name,
+  columns,
+  referencedTable,
+  referencedColumns: columns.map(() => 'id'),
+});
+
+const table = (indexes: Index[], foreignKeys: ForeignKeyDefinition[] = []): TableIndexes => ({
+  name: 'orders',
+  indexes: [index('orders_pkey', ['id'], { primary: true, unique: true }), ...indexes],
+  foreignKeys,
+});
+
+const builder = new PostgreSQLDriver();
+
+const summarize = (tables: TableIndexes[], unused: { table: string; index: string }[] | null = null) =>
+  analyzeIndexes(tables, builder, { unused, schema: 'public' }).map((f) => [f.kind, f.index ?? f.columns.join(',')]);
+
+// ── Tests ──
+
+describe('analyzeIndexes', () => {
+  it('drops one of two plain duplicates and keeps the one whose name sorts first', () => {
+    const findings = analyzeIndexes(
+      [table([index('orders_status_b', ['status']), index('orders_status_a', ['status'])])],
+      builder,
+      { unused: null }
+    );
+
+    expect(findings).toEqual([
+      {
+        kind: IndexFindingKind.Duplicate,
+        table: 'orders',
+        index: 'orders_status_b',
+        columns: ['status'],
+        reason: 'Indexes the same columns as orders_status_a',
+        fix: { action: IndexFixAction.Drop, request: { table: 'orders', indexName: 'orders_status_b' } },
+        sql: 'DROP INDEX "public"."orders_status_b"',
+      },
+    ]);
+  });
+
+  it('drops a plain index that duplicates a unique one but never the unique one', () => {
+    expect(summarize([table([index('orders_id_idx', ['id'])])])).toEqual([[IndexFindingKind.Duplicate, 'orders_id_idx']]);
+    expect(summarize([table([index('orders_ref_a', ['ref'], { unique: true }), index('orders_ref_b', ['ref'], { unique: true })])])).toEqual([]);
+  });
+
+  it('flags left-prefix indexes of longer B-tree indexes only', () => {
+    expect(summarize([table([
+      index('orders_customer', ['customer_id']),
+      index('orders_customer_created', ['customer_id', 'created_at']),
+      index('orders_tags', ['tags'], { type: 'gin' }),
+      index('orders_tags_created', ['tags', 'created_at']),
+    ])])).toEqual([[IndexFindingKind.Redundant, 'orders_customer']]);
+  });
+
+  it('leaves partial and expression indexes out of the comparison', () => {
+    const tables = [table([index('orders_open', ['status']), index('orders_status', ['status']), index('orders_lower', [''])])];
+    expect(analyzeIndexes(tables, builder, { unused: null, opaque: new Set(['orders.orders_open']) })).toEqual([]);
+  });
+
+  it('reports unused indexes unless one is the last support for a foreign key', () => {
+    const tables = [table(
+      [index('orders_customer', ['customer_id']), index('orders_note', ['note']), index('orders_status', ['status'], { unique: true })],
+      [foreignKey('orders_customer_fk', ['customer_id'])]
+    )];
+    const unused = ['orders_customer', 'orders_note', 'orders_status'].map((name) => ({ table: 'orders', index: name }));
+
+    expect(summarize(tables, unused)).toEqual([[IndexFindingKind.Unused, 'orders_note']]);
+  });
+
+  it('suggests an index for a foreign key whose columns lead no index', () => {
+    const tables = [table(
+      [index('orders_region_customer', ['region_id', 'customer_id']), index('idx_orders_warehouse_id', ['note'])],
+      [
+        foreignKey('orders_customer_fk', ['customer_id']),
+        foreignKey('orders_region_fk', ['customer_id', 'region_id'], 'customer_regions'),
+        foreignKey('orders_warehouse_fk', ['warehouse_id'], 'warehouses'),
+      ]
+    )];
+
+    const findings = analyzeIndexes(tables, builder, { unused: null, schema: 'sales' });
+
+    expect(findings.map((f) => f.index ?? f.columns.join(','))).toEqual(['customer_id', 'warehouse_id']);
+    expect(findings[1]).toMatchObject({
+      kind: IndexFindingKind.UnindexedForeignKey,
+      index: null,
+      fix: { action: IndexFixAction.Create, request: { table: 'orders', index: { name: 'idx_orders_warehouse_id_1', columns: ['warehouse_id'] }, schema: 'sales' } },
+      sql: 'CREATE INDEX "idx_orders_warehouse_id_1" ON "sales"."orders" ("warehouse_id")',
+    });
+    expect(findings[1].reason).toContain('updates and deletes on warehouses scan orders');
+  });
+});
+
+describe('loadTableIndexes', () => {
+  it('skips views and groups multi-column foreign keys', async () => {
+    const driver = {
+      type: DatabaseType.PostgreSQL,
+      getTables: vi.fn().mockResolvedValue([
+        { name: 'order_items', type: TableObjectType.Table },
+        { name: 'recent_orders', type: TableObjectType.View },
+      ]),
+      getIndexes: vi.fn().mockResolvedValue([index('order_items_pkey', ['order_id', 'line_no'], { primary: true })]),
+      getForeignKeys: vi.fn().mockResolvedValue([
+        { name: 'items_fk', column: 'order_id', referencedTable: 'orders', referencedColumn: 'id' },
+        { name: 'items_fk', column: 'line_no', referencedTable: 'orders', referencedColumn: 'line_no' },
+      ]),
+    } as unknown as DatabaseDriver;
+
+    const tables = await loadTableIndexes(driver, 'app');
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].foreignKeys[0].columns).toEqual(['order_id', 'line_no']);
+    expect(driver.getIndexes).toHaveBeenCalledWith('order_items');
+  });
+});
@@ -42,6 +42,23 @@ vi.mock('../../../main/services/keychain', () => ({
   },
 }));
 
+vi.mock('../../../main/services/connectionImport', () => ({
+  scanConnectionImports: vi.fn().mockResolvedValue({ candidates: [], sshHosts: [], errors: [] }),
+  saveImportedConnections: vi.fn().mockResolvedValue([]),
+}));
+
+vi.mock('../../../main/services/connectionExport', () => ({
+  buildConnectionExport: vi.fn(),
+  parseConnectionExport: vi.fn((content: string) => JSON.parse(content)),
+  previewConnectionExport: vi.fn(),
+  importConnectionExport: vi.fn().mockResolvedValue({ imported: [], skipped: 0, renamed: 0, secretsImported: false }),
+}));
+
+vi.mock('fs/promises', () => ({
+  readFile: vi.fn().mockResolvedValue('{"format":"zequel-connections","version":1,"connections":[]}'),
+  writeFile: vi.fn().mockResolvedValue(undefined),
+}));
+
 vi.mock('../../../main/utils/logger', () => ({
   logger: {
     debug: vi.fn(),
@@ -54,6 +71,8 @@ import { ipcMain } from 'electron';
 import { connectionManager } from '../../../main/db/manager';
 import { connectionsService } from '../../../main/services/connections';
 import { keychainService } from '../../../main/services/keychain';
+import { scanConnectionImports, saveImportedConnections } from '../../../main/services/connectionImport';
+import { importConnectionExport } from '../../../main/services/connectionExport';
 import { registerConnectionHandlers } from '../../../main/ipc/connection';
 
 const getHandler = (channel: string): ((...args: unknown[]) => unknown) => {
@@ -211,6 +230,44 @@ describe('registerConnectionHandlers', () => {
     });
   });
 
+  describe('connection:importScan', () => {
+    it('should scan the given files', async () => {
+      const handler = getHandler('connection:importScan');
+      const result = await handler({}, ['/home/u/.pgpass']);
+
+      expect(scanConnectionImports).toHaveBeenCalledWith(['/home/u/.pgpass']);
+      expect(result).toEqual({ candidates: [], sshHosts: [], errors: [] });
+    });
+  });
+
+  describe('connection:importSave', () => {
+    it('should save the chosen candidates with the scanned SSH hosts', async () => {
+      const savedConn = makeSavedConnection();
+      vi.mocked(saveImportedConnections).mockResolvedValueOnce([savedConn]);
+      const sshHosts = [{ alias: 'bastion', host: 'bastion.example.com', port: 22, username: 'deploy' }];
+
+      const handler = getHandler('connection:importSave');
+      const result = await handler({}, [], sshHosts);
+
+      expect(saveImportedConnections).toHaveBeenCalledWith([], sshHosts);
+      expect(result).toEqual([savedConn]);
+    });
+  });
+
+  describe('connection:importFromFile', () => {
+    it('should read the file and import it with the chosen options', async () => {
+      const handler = getHandler('connection:importFromFile');
+      const options = { collisionMode: 'skip', passphrase: 'correct horse' };
+      const result = await handler({}, '/tmp/connections.zequel.json', options);
+
+      expect(importConnectionExport).toHaveBeenCalledWith(
+        { format: 'zequel-connections', version: 1, connections: [] },
+        options
+      );
+      expect(result).toEqual({ imported: [], skipped: 0, renamed: 0, secretsImported: false });
+    });
+  });
+
   describe('connection:test', () => {
     it('should test the connection with provided password', async () => {
       const config: ConnectionConfig = {
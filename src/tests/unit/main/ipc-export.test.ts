@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import type { ExportOptions, ExportResult } from '@main/ipc/export';
+import type { ExportOptions, ExportResult, StreamExportResult } from '@main/ipc/export';
+import { ExportSourceType, type StreamExportOptions } from '@main/services/export';
 import type { DatabaseDriver } from '@main/db/base';
 import { DatabaseType } from '@main/types';
 
@@ -7,10 +8,20 @@ import { DatabaseType } from '@main/types';
 
 const mockWriteFile = vi.fn().mockResolvedValue(undefined);
 const mockReadFile = vi.fn().mockResolvedValue('');
+const mockUnlink = vi.fn().mockResolvedValue(undefined);
 
 vi.mock('fs/promises', () => ({
   writeFile: (...args: unknown[]) => mockWriteFile(...args),
   readFile: (...args: unknown[]) => mockReadFile(...args),
+  unlink: (...args: unknown[]) => mockUnlink(...args),
+}));
+
+const mockStreamExport = vi.fn();
+
+vi.mock('@main/services/export', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@main/services/export')>()),
+  streamExport: (...args: unknown[]) => mockStreamExport(...args),
+  emitExportProgress: vi.fn(),
 }));
 
 const mockShowSaveDialog = vi.fn();
@@ -49,13 +60,31 @@ vi.mock('xlsx', () => ({
 }));
 
 const mockGetConnection = vi.fn();
+const mockOpenDetachedSession = vi.fn();
 
 vi.mock('@main/db/manager', () => ({
   connectionManager: {
     getConnection: (...args: unknown[]) => mockGetConnection(...args),
+    openDetachedSession: (...args: unknown[]) => mockOpenDetachedSession(...args),
   },
 }));
 
+const mockEnforceGuardrails = vi.fn();
+
+vi.mock('@main/services/guardrails', () => ({
+  enforceGuardrails: (...args: unknown[]) => mockEnforceGuardrails(...args),
+  guardedOperation: (type: string, sql: string) => ({ type, destructive: type === 'drop', sql }),
+  StatementType: { Drop: 'drop', Create: 'create', Insert: 'insert' },
+}));
+
+const mockWritePostgresBackup = vi.fn();
+const mockRestorePostgresBackup = vi.fn();
+
+vi.mock('@main/services/postgresBackup', () => ({
+  writePostgresBackup: (...args: unknown[]) => mockWritePostgresBackup(...args),
+  restorePostgresBackup: (...args: unknown[]) => mockRestorePostgresBackup(...args),
+}));
+
 vi.mock('@main/utils/logger', () => ({
   logger: {
     debug: vi.fn(),
@@ -98,10 +127,12 @@ beforeEach(async () => {
 // ── Tests ────────────────────────────────────────────────────────────────────
 
 describe('registerExportHandlers', () => {
-  it('should register all four IPC handlers', () => {
+  it('should register all IPC handlers', () => {
     const channels = mockIpcMainHandle.mock.calls.map((c: unknown[]) => c[0]);
     expect(channels).toContain('export:toFile');
     expect(channels).toContain('export:toClipboard');
+    expect(channels).toContain('export:stream');
+    expect(channels).toContain('export:cancel');
     expect(channels).toContain('backup:export');
     expect(channels).toContain('backup:import');
   });
@@ -590,6 +621,118 @@ describe('export:toClipboard', () => {
   });
 });
 
+// ─── export:stream ───────────────────────────────────────────────────────────
+
+describe('export:stream', () => {
+  const streamOptions: StreamExportOptions = {
+    exportId: 'exp-1',
+    connectionId: 'conn-1',
+    source: { type: ExportSourceType.Table, table: 'users' },
+    format: 'csv',
+  };
+
+  const session = {
+    type: DatabaseType.PostgreSQL,
+    setCurrentSchema: vi.fn(),
+    disconnect: vi.fn(),
+  };
+
+  beforeEach(() => {
+    mockGetConnection.mockReturnValue({ type: DatabaseType.PostgreSQL, getCurrentSchema: () => 'public' });
+    mockOpenDetachedSession.mockResolvedValue(session);
+    mockGetFocusedWindow.mockReturnValue({});
+    mockShowSaveDialog.mockResolvedValue({ canceled: false, filePath: '/tmp/users.csv' });
+  });
+
+  it('should stream the source to the chosen file from a session of its own', async () => {
+    mockStreamExport.mockResolvedValue(20000);
+
+    const handler = getHandler('export:stream');
+    const result = (await handler({}, streamOptions)) as StreamExportResult;
+
+    expect(result).toEqual({ success: true, filePath: '/tmp/users.csv', rowCount: 20000 });
+    expect(mockOpenDetachedSession).toHaveBeenCalledWith('conn-1', undefined);
+    expect(session.setCurrentSchema).toHaveBeenCalledWith('public');
+    expect(mockStreamExport).toHaveBeenCalledWith(
+      session,
+      streamOptions,
+      '/tmp/users.csv',
+      expect.any(AbortSignal),
+      expect.any(Function)
+    );
+    expect(session.disconnect).toHaveBeenCalled();
+    expect(mockShowSaveDialog).toHaveBeenCalledWith(
+      {},
+      expect.objectContaining({ defaultPath: 'users.csv' })
+    );
+  });
+
+  it('should open the session on the database and schema of the source', async () => {
+    mockStreamExport.mockResolvedValue(1);
+
+    await getHandler('export:stream')({}, {
+      ...streamOptions,
+      source: { ...streamOptions.source, database: 'analytics', schema: 'sales' },
+    });
+
+    expect(mockOpenDetachedSession).toHaveBeenCalledWith('conn-1', 'analytics');
+    expect(session.setCurrentSchema).toHaveBeenCalledWith('sales');
+  });
+
+  it('should return error when not connected', async () => {
+    mockGetConnection.mockReturnValue(undefined);
+
+    const handler = getHandler('export:stream');
+    const result = (await handler({}, streamOptions)) as StreamExportResult;
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Not connected to database');
+    expect(mockShowSaveDialog).not.toHaveBeenCalled();
+  });
+
+  it('should not stream when the save dialog is canceled', async () => {
+    mockShowSaveDialog.mockResolvedValue({ canceled: true });
+
+    const handler = getHandler('export:stream');
+    const result = (await handler({}, streamOptions)) as StreamExportResult;
+
+    expect(result).toEqual({ success: false, error: 'Export canceled' });
+    expect(mockStreamExport).not.toHaveBeenCalled();
+  });
+
+  it('should remove the partial file when streaming fails', async () => {
+    mockStreamExport.mockRejectedValue(new Error('connection lost'));
+
+    const handler = getHandler('export:stream');
+    const result = (await handler({}, streamOptions)) as StreamExportResult;
+
+    expect(result).toEqual({ success: false, error: 'connection lost' });
+    expect(mockUnlink).toHaveBeenCalledWith('/tmp/users.csv');
+  });
+
+  it('should abort a running export through export:cancel', async () => {
+    let signal: AbortSignal | undefined;
+    let finish: () => void = () => undefined;
+    mockStreamExport.mockImplementation((_driver, _options, _path, s: AbortSignal) => {
+      signal = s;
+      return new Promise((resolve) => {
+        finish = () => resolve(0);
+      });
+    });
+
+    const pending = getHandler('export:stream')({}, streamOptions);
+    await vi.waitFor(() => expect(signal).toBeDefined());
+
+    const canceled = await getHandler('export:cancel')({}, 'exp-1');
+
+    expect(canceled).toBe(true);
+    expect(signal?.aborted).toBe(true);
+    finish();
+    await pending;
+    expect(await getHandler('export:cancel')({}, 'exp-1')).toBe(false);
+  });
+});
+
 // ─── backup:export ───────────────────────────────────────────────────────────
 
 describe('backup:export', () => {
@@ -768,6 +911,55 @@ describe('backup:export', () => {
   });
 });
 
+// ─── PostgreSQL backup ───────────────────────────────────────────────────────
+
+describe('PostgreSQL backup', () => {
+  const mainDriver = { type: DatabaseType.PostgreSQL } as unknown as DatabaseDriver;
+  const session = { type: DatabaseType.PostgreSQL, disconnect: vi.fn().mockResolvedValue(undefined) };
+
+  beforeEach(() => {
+    mockGetConnection.mockReturnValue(mainDriver);
+    mockGetFocusedWindow.mockReturnValue({});
+    mockOpenDetachedSession.mockResolvedValue(session);
+  });
+
+  it('asks for the file first, then streams the backup from a detached session', async () => {
+    mockShowSaveDialog.mockResolvedValue({ canceled: false, filePath: '/tmp/pg.sql' });
+    mockWritePostgresBackup.mockResolvedValue({ tables: 2, rows: 10 });
+
+    const handler = getHandler('backup:export');
+    const result = (await handler({}, 'conn-1')) as ExportResult;
+
+    expect(result).toEqual({ success: true, filePath: '/tmp/pg.sql' });
+    expect(mockOpenDetachedSession).toHaveBeenCalledWith('conn-1', undefined);
+    expect(mockWritePostgresBackup).toHaveBeenCalledWith(session, '/tmp/pg.sql');
+    expect(session.disconnect).toHaveBeenCalled();
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+
+  it('does not read the database when the save dialog is canceled', async () => {
+    mockShowSaveDialog.mockResolvedValue({ canceled: true });
+
+    const handler = getHandler('backup:export');
+    const result = (await handler({}, 'conn-1')) as ExportResult;
+
+    expect(result.error).toBe('Export canceled');
+    expect(mockOpenDetachedSession).not.toHaveBeenCalled();
+  });
+
+  it('restores through the COPY-aware importer', async () => {
+    mockShowOpenDialog.mockResolvedValue({ canceled: false, filePaths: ['/tmp/pg.sql'] });
+    mockRestorePostgresBackup.mockResolvedValue({ successCount: 12, errors: ['Error executing: x'] });
+
+    const handler = getHandler('backup:import');
+    const result = await handler({}, 'conn-1');
+
+    expect(result).toEqual({ success: false, statements: 12, errors: ['Error executing: x'], filePath: '/tmp/pg.sql' });
+    expect(mockRestorePostgresBackup).toHaveBeenCalledWith(session, '/tmp/pg.sql');
+    expect(mockReadFile).not.toHaveBeenCalled();
+  });
+});
+
 // ─── backup:import (SQL) ─────────────────────────────────────────────────────
 
 describe('backup:import', () => {
@@ -820,6 +1012,43 @@ describe('backup:import', () => {
     expect(result.errors).toContain('Import canceled');
   });
 
+  it('should check the restore against the connection guardrails', async () => {
+    mockShowOpenDialog.mockResolvedValue({
+      canceled: false,
+      filePaths: ['/tmp/backup.sql'],
+    });
+    mockReadFile.mockResolvedValue('INSERT INTO t VALUES (1);');
+    (mockSqlDriver.execute as ReturnType<typeof vi.fn>).mockResolvedValue({});
+
+    const handler = getHandler('backup:import');
+    await handler({}, 'conn-1');
+
+    expect(mockEnforceGuardrails).toHaveBeenCalledWith('conn-1', [
+      expect.objectContaining({ type: 'drop', destructive: true }),
+      expect.objectContaining({ type: 'create' }),
+      expect.objectContaining({ type: 'insert' }),
+    ]);
+  });
+
+  it('should not restore when the guardrails refuse it', async () => {
+    mockShowOpenDialog.mockResolvedValue({
+      canceled: false,
+      filePaths: ['/tmp/backup.sql'],
+    });
+    mockEnforceGuardrails.mockRejectedValueOnce(new Error('Destructive statement canceled'));
+
+    const handler = getHandler('backup:import');
+    const result = (await handler({}, 'conn-1')) as {
+      success: boolean;
+      statements: number;
+      errors: string[];
+    };
+
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual(['Destructive statement canceled']);
+  });
+
   it('should execute SQL statements from file', async () => {
     mockShowOpenDialog.mockResolvedValue({
       canceled: false,
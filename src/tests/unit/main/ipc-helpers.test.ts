@@ -4,13 +4,22 @@ import { DatabaseType } from '../../../main/types'
 vi.mock('../../../main/db/manager', () => ({
   connectionManager: {
     getConnection: vi.fn(),
+    getTransactionSession: vi.fn(),
   },
 }))
 
-import { withDriver, withMySQLDriver, withPostgresDriver } from '../../../main/ipc/helpers'
+vi.mock('../../../main/services/guardrails', () => ({
+  enforceGuardrails: vi.fn(),
+  GuardrailError: class GuardrailError extends Error {},
+}))
+
+import { withDriver, withTransactionSession, withMySQLDriver, withPostgresDriver, withGuardrails } from '../../../main/ipc/helpers'
 import { connectionManager } from '../../../main/db/manager'
+import { enforceGuardrails, GuardrailError } from '../../../main/services/guardrails'
+import type { ClassifiedStatement, StatementType } from '../../../main/services/statementClassifier'
 
 const mockGetConnection = vi.mocked(connectionManager.getConnection)
+const mockGetTransactionSession = vi.mocked(connectionManager.getTransactionSession)
 
 describe('IPC Helpers', () => {
   beforeEach(() => {
@@ -55,6 +64,27 @@ describe('IPC Helpers', () => {
     })
   })
 
+  describe('withTransactionSession', () => {
+    it('should throw when no transaction is open for the session', async () => {
+      mockGetTransactionSession.mockReturnValue(undefined)
+
+      await expect(
+        withTransactionSession('tab-1', async (driver) => driver.execute('SELECT 1'))
+      ).rejects.toThrow('No open transaction for this session')
+    })
+
+    it('should call fn with the session driver', async () => {
+      const mockDriver = { execute: vi.fn().mockResolvedValue({ rows: [] }) }
+      mockGetTransactionSession.mockReturnValue(mockDriver as any)
+
+      const result = await withTransactionSession('tab-1', async (driver) => driver.execute('SELECT 1'))
+
+      expect(mockGetTransactionSession).toHaveBeenCalledWith('tab-1')
+      expect(mockDriver.execute).toHaveBeenCalledWith('SELECT 1')
+      expect(result).toEqual({ rows: [] })
+    })
+  })
+
   describe('withMySQLDriver', () => {
     it('should throw when connection is not found', async () => {
       mockGetConnection.mockReturnValue(undefined)
@@ -146,4 +176,35 @@ describe('IPC Helpers', () => {
       ).rejects.toThrow('Collations is only supported for PostgreSQL connections')
     })
   })
+
+  describe('withGuardrails', () => {
+    const statements: ClassifiedStatement[] = [{ type: 'drop' as StatementType, destructive: true, keyword: 'DROP', sql: 'DROP TABLE users' }]
+
+    it('should run fn once the guardrails allow the statements', async () => {
+      vi.mocked(enforceGuardrails).mockResolvedValue(undefined)
+      const fn = vi.fn().mockResolvedValue({ success: true })
+
+      const result = await withGuardrails('conn-1', statements, fn)
+
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', statements)
+      expect(fn).toHaveBeenCalled()
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should return a failed result without running fn when refused', async () => {
+      vi.mocked(enforceGuardrails).mockRejectedValue(new GuardrailError('Destructive statement canceled'))
+      const fn = vi.fn()
+
+      const result = await withGuardrails('conn-1', statements, fn)
+
+      expect(fn).not.toHaveBeenCalled()
+      expect(result).toEqual({ success: false, error: 'Destructive statement canceled' })
+    })
+
+    it('should rethrow errors that are not guardrail refusals', async () => {
+      vi.mocked(enforceGuardrails).mockRejectedValue(new Error('database is locked'))
+
+      await expect(withGuardrails('conn-1', statements, vi.fn())).rejects.toThrow('database is locked')
+    })
+  })
 })
@@ -30,6 +30,7 @@ vi.mock('@main/services/queryHistory', () => ({
     getSavedQuery: vi.fn(),
     saveQuery: vi.fn(),
     updateSavedQuery: vi.fn(),
+    setSavedQueryParameters: vi.fn(),
     deleteSavedQuery: vi.fn(),
   },
 }));
@@ -67,6 +68,7 @@ describe('registerHistoryHandlers', () => {
       'savedQueries:get',
       'savedQueries:save',
       'savedQueries:update',
+      'savedQueries:setParameters',
       'savedQueries:delete',
     ]);
   });
@@ -291,6 +293,19 @@ describe('registerHistoryHandlers', () => {
     });
   });
 
+  describe('savedQueries:setParameters', () => {
+    it('should store the parameter values for the saved query', async () => {
+      mockHistoryService.setSavedQueryParameters.mockReturnValue(true);
+      const values = { status: { type: 'text', value: 'active' } };
+
+      const handler = getHandler('savedQueries:setParameters');
+      const result = await handler(null, 3, values);
+
+      expect(mockHistoryService.setSavedQueryParameters).toHaveBeenCalledWith(3, values);
+      expect(result).toBe(true);
+    });
+  });
+
   describe('savedQueries:delete', () => {
     it('should call deleteSavedQuery and return true on success', async () => {
       mockHistoryService.deleteSavedQuery.mockReturnValue(true);
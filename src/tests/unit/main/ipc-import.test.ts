@@ -43,12 +43,50 @@ vi.mock('@main/utils/logger', () => ({
 
 const mockParseCSVFile = vi.fn();
 const mockParseJSONFile = vi.fn();
+const mockParseXLSXFile = vi.fn();
+const mockParseNDJSONFile = vi.fn();
+const mockParseSQLFile = vi.fn();
 const mockReadImportData = vi.fn();
+const mockStreamImport = vi.fn();
+
+vi.mock('@main/services/import', async () => {
+  const actual = await vi.importActual<typeof import('@main/services/import')>('@main/services/import');
+  return {
+    parseCSVFile: (...args: unknown[]) => mockParseCSVFile(...args),
+    parseJSONFile: (...args: unknown[]) => mockParseJSONFile(...args),
+    parseXLSXFile: (...args: unknown[]) => mockParseXLSXFile(...args),
+    parseNDJSONFile: (...args: unknown[]) => mockParseNDJSONFile(...args),
+    parseSQLFile: (...args: unknown[]) => mockParseSQLFile(...args),
+    readImportData: (...args: unknown[]) => mockReadImportData(...args),
+    streamImport: (...args: unknown[]) => mockStreamImport(...args),
+    emitImportProgress: vi.fn(),
+    convertImportValue: actual.convertImportValue,
+  };
+});
+
+const mockGetCheckpoint = vi.fn();
+const mockSaveCheckpoint = vi.fn();
+const mockClearCheckpoint = vi.fn();
 
-vi.mock('@main/services/import', () => ({
-  parseCSVFile: (...args: unknown[]) => mockParseCSVFile(...args),
-  parseJSONFile: (...args: unknown[]) => mockParseJSONFile(...args),
-  readImportData: (...args: unknown[]) => mockReadImportData(...args),
+vi.mock('@main/services/importCheckpoints', () => ({
+  importCheckpointsService: {
+    getCheckpoint: (...args: unknown[]) => mockGetCheckpoint(...args),
+    saveCheckpoint: (...args: unknown[]) => mockSaveCheckpoint(...args),
+    clearCheckpoint: (...args: unknown[]) => mockClearCheckpoint(...args),
+  },
+}));
+
+const mockEnforceGuardrails = vi.fn();
+
+vi.mock('@main/services/guardrails', () => ({
+  enforceGuardrails: (...args: unknown[]) => mockEnforceGuardrails(...args),
+  guardedOperation: (type: string, sql: string, destructive = type === 'drop') => ({ type, destructive, sql }),
+}));
+
+const mockStat = vi.fn();
+
+vi.mock('fs/promises', () => ({
+  stat: (...args: unknown[]) => mockStat(...args),
 }));
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
@@ -196,6 +234,20 @@ describe('import:preview', () => {
     expect(dialogOptions.filters[0].extensions).toEqual(['csv', 'tsv', 'txt']);
   });
 
+  it('should offer workbook and NDJSON file filters', async () => {
+    mockGetFocusedWindow.mockReturnValue({});
+    mockShowOpenDialog.mockResolvedValue({ canceled: true, filePaths: [] });
+
+    const handler = getHandler('import:preview');
+    await handler({}, 'xlsx');
+    await handler({}, 'ndjson');
+
+    const filters = mockShowOpenDialog.mock.calls.map(
+      (call) => (call[1] as { filters: { extensions: string[] }[] }).filters[0].extensions
+    );
+    expect(filters).toEqual([['xlsx', 'xls'], ['ndjson', 'jsonl']]);
+  });
+
   it('should show JSON-specific file filters for json format', async () => {
     mockGetFocusedWindow.mockReturnValue({});
     mockShowOpenDialog.mockResolvedValue({ canceled: true, filePaths: [] });
@@ -297,6 +349,38 @@ describe('import:reparse', () => {
     expect(mockParseJSONFile).toHaveBeenCalled();
   });
 
+  it('should pass the selected sheet to parseXLSXFile', async () => {
+    mockParseXLSXFile.mockResolvedValue({ ...samplePreview, sources: ['A', 'B'], source: 'B' });
+
+    const handler = getHandler('import:reparse');
+    const result = (await handler({}, '/tmp/book.xlsx', 'xlsx', { hasHeaders: false, source: 'B' })) as {
+      preview: ImportPreview | null;
+    };
+
+    expect(result.preview?.source).toBe('B');
+    expect(mockParseXLSXFile).toHaveBeenCalledWith({
+      filePath: '/tmp/book.xlsx',
+      format: 'xlsx',
+      hasHeaders: false,
+      delimiter: undefined,
+      source: 'B',
+      previewLimit: 100,
+    });
+  });
+
+  it('should route ndjson and sql files to their parsers', async () => {
+    mockParseNDJSONFile.mockResolvedValue(samplePreview);
+    mockParseSQLFile.mockResolvedValue(samplePreview);
+
+    const handler = getHandler('import:reparse');
+    await handler({}, '/tmp/rows.ndjson', 'ndjson', {});
+    await handler({}, '/tmp/dump.sql', 'sql', { source: 'users' });
+
+    expect(mockParseNDJSONFile).toHaveBeenCalledTimes(1);
+    expect(mockParseSQLFile).toHaveBeenCalledWith(expect.objectContaining({ format: 'sql', source: 'users' }));
+    expect(mockParseJSONFile).not.toHaveBeenCalled();
+  });
+
   it('should return error on parse failure', async () => {
     mockParseCSVFile.mockRejectedValue(new Error('bad delimiter'));
 
@@ -979,6 +1063,32 @@ describe('import:execute', () => {
       })
     );
   });
+
+  describe('guardrails', () => {
+    it('should guard the inserts and the destructive DELETE that empties the table', async () => {
+      mockReadImportData.mockResolvedValue([{ id: '1', name: 'Alice' }]);
+
+      await getHandler('import:execute')({}, 'conn-1', 'users', '/tmp/data.csv', 'csv', columnMappings, { truncateTable: true });
+
+      expect(mockEnforceGuardrails).toHaveBeenCalledWith('conn-1', [
+        { type: 'delete', destructive: true, sql: 'DELETE FROM users' },
+        { type: 'insert', destructive: false, sql: 'INSERT INTO users' },
+      ]);
+    });
+
+    it('should return the refusal without touching the table', async () => {
+      mockEnforceGuardrails.mockRejectedValueOnce(new Error('INSERT is not allowed on a read-only connection'));
+
+      const result = (await getHandler('import:execute')(
+        {}, 'conn-1', 'users', '/tmp/data.csv', 'csv', columnMappings, { truncateTable: true }
+      )) as ImportResult;
+
+      expect(result).toMatchObject({ success: false, errors: ['INSERT is not allowed on a read-only connection'] });
+      expect(mockReadImportData).not.toHaveBeenCalled();
+      expect(mockDriver.execute).not.toHaveBeenCalled();
+      expect(mockDriver.insertRow).not.toHaveBeenCalled();
+    });
+  });
 });
 
 // ─── import:getTableColumns ──────────────────────────────────────────────────
@@ -1034,3 +1144,139 @@ describe('import:getTableColumns', () => {
     expect(result.error).toBe('table not found');
   });
 });
+
+// ─── import:start / import:cancel / import:getCheckpoint ─────────────────────
+
+describe('streaming import', () => {
+  const mockDriver = { type: 'postgresql' };
+  const checkpoint = {
+    connectionId: 'conn-1',
+    tableName: 'users',
+    filePath: '/data/users.csv',
+    fileSize: 2048,
+    fileModified: 1700000000000,
+    rowsProcessed: 1000,
+    rowsInserted: 990,
+    rowsRejected: 10,
+    updatedAt: '2026-01-01 00:00:00',
+  };
+  const startOptions = {
+    importId: 'imp-1',
+    connectionId: 'conn-1',
+    tableName: 'users',
+    filePath: '/data/users.csv',
+    format: 'csv',
+    columnMappings: [{ sourceColumn: 'id', targetColumn: 'id', targetType: 'INTEGER' }],
+    errorPolicy: 'abort',
+  };
+
+  beforeEach(() => {
+    mockGetConnection.mockReturnValue(mockDriver);
+    mockStat.mockResolvedValue({ size: 2048, mtimeMs: 1700000000000.5 });
+  });
+
+  it('should start fresh, save a checkpoint per batch and clear it on success', async () => {
+    mockStreamImport.mockImplementation(async (_driver, _options, _signal, _onProgress, onCommit) => {
+      onCommit({ rowsProcessed: 500, rowsInserted: 500, rowsRejected: 0 });
+      return { success: true, rowsProcessed: 500, rowsInserted: 500, rowsRejected: 0, errors: [] };
+    });
+
+    const result = await getHandler('import:start')({}, startOptions);
+
+    expect(result).toMatchObject({ success: true, insertedRows: 500, processedRows: 500, resumable: false });
+    expect(mockStreamImport).toHaveBeenCalledWith(
+      mockDriver, startOptions, expect.any(AbortSignal), expect.any(Function), expect.any(Function), undefined
+    );
+    expect(mockSaveCheckpoint).toHaveBeenCalledWith({
+      connectionId: 'conn-1',
+      tableName: 'users',
+      filePath: '/data/users.csv',
+      fileSize: 2048,
+      fileModified: 1700000000000,
+      rowsProcessed: 500,
+      rowsInserted: 500,
+      rowsRejected: 0,
+    });
+    // Once before starting over and once after finishing
+    expect(mockClearCheckpoint).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resume from a checkpoint and keep it when the import fails again', async () => {
+    mockGetCheckpoint.mockReturnValue(checkpoint);
+    mockStreamImport.mockResolvedValue({
+      success: false,
+      error: 'Rows 1001-2000: value too long',
+      rowsProcessed: 1000,
+      rowsInserted: 990,
+      rowsRejected: 10,
+      errors: [],
+    });
+
+    const result = await getHandler('import:start')({}, { ...startOptions, resume: true });
+
+    expect(mockStreamImport.mock.calls[0][5]).toBe(checkpoint);
+    expect(mockClearCheckpoint).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      success: false,
+      errors: ['Rows 1001-2000: value too long'],
+      resumable: true,
+    });
+  });
+
+  it('should refuse to resume when the file changed since the checkpoint', async () => {
+    mockGetCheckpoint.mockReturnValue(checkpoint);
+    mockStat.mockResolvedValue({ size: 4096, mtimeMs: 1700000000000 });
+
+    const result = (await getHandler('import:start')({}, { ...startOptions, resume: true })) as {
+      success: boolean;
+      errors: string[];
+    };
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toContain('No checkpoint to resume from');
+    expect(mockClearCheckpoint).toHaveBeenCalledWith('conn-1', 'users', '/data/users.csv');
+    expect(mockStreamImport).not.toHaveBeenCalled();
+  });
+
+  it('should abort the running import on cancel', async () => {
+    let signal: AbortSignal | undefined;
+    mockStreamImport.mockImplementation(async (_driver, _options, abortSignal: AbortSignal) => {
+      signal = abortSignal;
+      await expect(getHandler('import:cancel')({}, 'imp-1')).resolves.toBe(true);
+      return { success: false, canceled: true, error: 'Import canceled', rowsProcessed: 0, rowsInserted: 0, rowsRejected: 0, errors: [] };
+    });
+
+    const result = await getHandler('import:start')({}, startOptions);
+
+    expect(signal?.aborted).toBe(true);
+    expect(result).toMatchObject({ success: false, canceled: true });
+    expect(await getHandler('import:cancel')({}, 'imp-1')).toBe(false);
+  });
+
+  it('should not guard a DELETE when resuming a cleared import', async () => {
+    mockGetCheckpoint.mockReturnValue(checkpoint);
+    mockStreamImport.mockResolvedValue({ success: true, rowsProcessed: 0, rowsInserted: 0, rowsRejected: 0, errors: [] });
+
+    await getHandler('import:start')({}, { ...startOptions, truncateTable: true, resume: true });
+
+    expect(mockEnforceGuardrails).toHaveBeenCalledWith('conn-1', [{ type: 'insert', destructive: false, sql: 'INSERT INTO users' }]);
+  });
+
+  it('should refuse an import the guardrails block', async () => {
+    mockEnforceGuardrails.mockRejectedValueOnce(new Error('Production connections are read-only'));
+
+    const result = await getHandler('import:start')({}, startOptions);
+
+    expect(result).toMatchObject({ success: false, errors: ['Production connections are read-only'] });
+    expect(mockStreamImport).not.toHaveBeenCalled();
+  });
+
+  it('should return the checkpoint for an unchanged file', async () => {
+    mockGetCheckpoint.mockReturnValue(checkpoint);
+
+    const result = await getHandler('import:getCheckpoint')({}, 'conn-1', 'users', '/data/users.csv');
+
+    expect(result).toEqual(checkpoint);
+    expect(mockGetCheckpoint).toHaveBeenCalledWith('conn-1', 'users', '/data/users.csv');
+  });
+});
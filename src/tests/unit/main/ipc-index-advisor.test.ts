@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockIpcHandle, mockWithDriver } = vi.hoisted(() => ({
+  mockIpcHandle: vi.fn(),
+  mockWithDriver: vi.fn(),
+}));
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: mockIpcHandle,
+  },
+}));
+
+vi.mock('@main/ipc/helpers', () => ({
+  withDriver: mockWithDriver,
+}));
+
+vi.mock('@main/db/mysql', () => ({
+  MySQLDriver: class MySQLDriver {},
+}));
+
+vi.mock('@main/db/postgres', () => ({
+  PostgreSQLDriver: class PostgreSQLDriver {},
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { buildIndexReport, registerIndexAdvisorHandlers } from '@main/ipc/index-advisor';
+import { MySQLDriver } from '@main/db/mysql';
+import { PostgreSQLDriver } from '@main/db/postgres';
+import { DatabaseType, TableObjectType } from '@main/types';
+import { IndexFindingKind } from '@main/services/indexAdvisor';
+
+const getHandler = (channel: string): ((_: unknown, ...args: unknown[]) => Promise<unknown>) => {
+  const call = mockIpcHandle.mock.calls.find((c: [string, unknown]) => c[0] === channel);
+  if (!call) throw new Error(`Handler not found for channel: ${channel}`);
+  return call[1] as (_: unknown, ...args: unknown[]) => Promise<unknown>;
+};
+
+// One table with two plain indexes on status and one on note
+const withOrdersTable = <T extends object>(driver: T) =>
+  Object.assign(driver, {
+    getTables: vi.fn().mockResolvedValue([{ name: 'orders', type: TableObjectType.Table }]),
+    getIndexes: vi.fn().mockResolvedValue([
+      { name: 'orders_pkey', columns: ['id'], unique: true, primary: true },
+      { name: 'orders_note', columns: ['note'], unique: false, primary: false },
+      { name: 'orders_open', columns: ['status'], unique: false, primary: false },
+      { name: 'orders_status', columns: ['status'], unique: false, primary: false },
+    ]),
+    getForeignKeys: vi.fn().mockResolvedValue([]),
+    buildDropIndexSQL: vi.fn((request: { indexName: string }) => `DROP INDEX ${request.indexName}`),
+    buildCreateIndexSQL: vi.fn(() => 'CREATE INDEX'),
+  });
+
+describe('buildIndexReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read PostgreSQL index scans and leave partial indexes out of the comparison', async () => {
+    const driver = withOrdersTable(Object.create(PostgreSQLDriver.prototype));
+    driver.getCurrentSchema = () => 'sales';
+    driver.execute = vi.fn(async (sql: string) => {
+      if (sql.includes('pg_stat_user_indexes')) {
+        return {
+          rows: [
+            { table_name: 'orders', index_name: 'orders_note', idx_scan: '0', opaque: false },
+            { table_name: 'orders', index_name: 'orders_open', idx_scan: '12', opaque: true },
+          ],
+        };
+      }
+      return { rows: [{ stats_reset: '2026-10-01T00:00:00.000Z' }] };
+    });
+
+    const report = await buildIndexReport(driver, 'app');
+
+    expect(driver.execute.mock.calls[0][1]).toEqual(['sales']);
+    expect(report).toMatchObject({ tableCount: 1, usageSince: '2026-10-01T00:00:00.000Z', usageUnavailable: null });
+    expect(report.findings.map((f) => [f.kind, f.index])).toEqual([[IndexFindingKind.Unused, 'orders_note']]);
+  });
+
+  it('should fall back to the Performance Schema when the sys schema is missing', async () => {
+    const driver = withOrdersTable(Object.create(MySQLDriver.prototype));
+    driver.execute = vi.fn(async (sql: string) => {
+      if (sql.includes('@@performance_schema')) return { rows: [{ enabled: 1 }] };
+      if (sql.includes('sys.schema_unused_indexes')) return { rows: [], error: "Table 'sys.schema_unused_indexes' doesn't exist" };
+      if (sql.includes('table_io_waits_summary_by_index_usage')) return { rows: [{ table_name: 'orders', index_name: 'orders_note' }] };
+      return { rows: [{ Variable_name: 'Uptime', Value: '3600' }] };
+    });
+
+    const report = await buildIndexReport(driver, 'shop');
+
+    expect(driver.execute).toHaveBeenCalledWith(expect.stringContaining('table_io_waits_summary_by_index_usage'), ['shop']);
+    expect(report.usageSince).not.toBeNull();
+    expect(report.findings.map((f) => [f.kind, f.index])).toEqual([
+      [IndexFindingKind.Duplicate, 'orders_status'],
+      [IndexFindingKind.Unused, 'orders_note'],
+    ]);
+  });
+
+  it('should still report duplicates when the Performance Schema is disabled', async () => {
+    const driver = withOrdersTable(Object.create(MySQLDriver.prototype));
+    driver.execute = vi.fn().mockResolvedValue({ rows: [{ enabled: 0 }] });
+
+    const report = await buildIndexReport(driver, 'shop');
+
+    expect(driver.execute).toHaveBeenCalledTimes(1);
+    expect(report.usageUnavailable).toContain('performance_schema=ON');
+    expect(report.findings.map((f) => f.kind)).toEqual([IndexFindingKind.Duplicate]);
+  });
+
+  it('should refuse engines without index advice', async () => {
+    await expect(buildIndexReport({ type: DatabaseType.SQLite } as never, 'main')).rejects.toThrow(
+      'Index advice is not supported for sqlite connections'
+    );
+  });
+});
+
+describe('registerIndexAdvisorHandlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIpcHandle.mockReset();
+    registerIndexAdvisorHandlers();
+  });
+
+  it('should register the index report handler', () => {
+    expect(mockIpcHandle.mock.calls.map((c: [string, unknown]) => c[0])).toEqual(['schema:indexReport']);
+  });
+
+  it('should analyze the connection\'s shared session', async () => {
+    const driver = withOrdersTable(Object.create(MySQLDriver.prototype));
+    driver.execute = vi.fn().mockResolvedValue({ rows: [{ enabled: 0 }] });
+    mockWithDriver.mockImplementation(async (_id: string, fn: (d: unknown) => unknown) => fn(driver));
+
+    const report = await getHandler('schema:indexReport')({}, 'conn-1', 'shop') as { tableCount: number };
+
+    expect(mockWithDriver).toHaveBeenCalledWith('conn-1', expect.any(Function));
+    expect(driver.getTables).toHaveBeenCalledWith('shop', undefined);
+    expect(report.tableCount).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: vi.fn(),
+  },
+  BrowserWindow: {
+    getAllWindows: () => [],
+  },
+  Notification: {
+    isSupported: () => false,
+  },
+}));
+
+vi.mock('../../../main/db/manager', () => ({
+  connectionManager: {
+    getConfig: vi.fn(() => ({ id: 'conn-1', name: 'Orders' })),
+  },
+  CURSOR_TYPES: [],
+}));
+
+vi.mock('../../../main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('../../../main/utils/serialize', () => ({
+  toPlainObject: vi.fn(<T>(obj: T): T => JSON.parse(JSON.stringify(obj))),
+}));
+
+vi.mock('../../../main/ipc/helpers', () => ({
+  withDriver: vi.fn(),
+  withDetachedSession: vi.fn(),
+}));
+
+vi.mock('../../../main/services/queryLimits', () => ({
+  queryLimitsService: {
+    resolve: vi.fn(() => ({ maxRows: 500, timeout: 0 })),
+  },
+}));
+
+vi.mock('../../../main/services/guardrails', () => ({
+  enforceGuardrails: vi.fn(),
+  GuardrailError: class GuardrailError extends Error {},
+}));
+
+import { ipcMain } from 'electron';
+import { withDetachedSession, withDriver } from '../../../main/ipc/helpers';
+import { registerJobHandlers } from '../../../main/ipc/jobs';
+import { enforceGuardrails, GuardrailError } from '../../../main/services/guardrails';
+import { QueryJobStatus, type QueryJob } from '../../../main/services/queryJobs';
+import { DatabaseType } from '../../../main/types';
+
+const getHandler = (channel: string): ((...args: unknown[]) => unknown) => {
+  const calls = vi.mocked(ipcMain.handle).mock.calls;
+  const match = calls.find((c) => c[0] === channel);
+  if (!match) {
+    throw new Error(`No handler registered for channel: ${channel}`);
+  }
+  return match[1] as (...args: unknown[]) => unknown;
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('job IPC handlers', () => {
+  const driver = { type: DatabaseType.PostgreSQL };
+  const session = {
+    type: DatabaseType.PostgreSQL,
+    execute: vi.fn(),
+    cancelQuery: vi.fn().mockResolvedValue(true),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registerJobHandlers();
+    vi.mocked(withDriver).mockImplementation(async (_id, fn) => fn(driver as never));
+    vi.mocked(withDetachedSession).mockImplementation(async (_id, _database, fn) => fn(session as never));
+  });
+
+  it('should register all job handlers', () => {
+    const channels = vi.mocked(ipcMain.handle).mock.calls.map((c) => c[0]);
+    expect(channels).toEqual(expect.arrayContaining(['jobs:start', 'jobs:list', 'jobs:getResults', 'jobs:cancel', 'jobs:remove']));
+  });
+
+  it('should run every statement of a script on a detached session', async () => {
+    session.execute.mockResolvedValue({ columns: [], rows: [{ id: 1 }], rowCount: 1, executionTime: 1 });
+
+    const job = (await getHandler('jobs:start')({}, 'conn-1', 'SELECT 1; SELECT 2', 'shop')) as QueryJob;
+    await flush();
+
+    expect(job).toMatchObject({ connectionId: 'conn-1', connectionName: 'Orders', database: 'shop' });
+    expect(withDetachedSession).toHaveBeenCalledWith('conn-1', 'shop', expect.any(Function));
+    expect(session.execute).toHaveBeenCalledWith('SELECT 1', undefined, { maxRows: 500, timeout: 0 });
+    expect(session.execute).toHaveBeenCalledWith('SELECT 2', undefined, { maxRows: 500, timeout: 0 });
+
+    const results = await getHandler('jobs:getResults')({}, job.id);
+    expect(results).toHaveLength(2);
+    const listed = (await getHandler('jobs:list')({})) as QueryJob[];
+    expect(listed.find((j) => j.id === job.id)?.status).toBe(QueryJobStatus.Completed);
+  });
+
+  it('should refuse a script blocked by the guardrails before queueing it', async () => {
+    vi.mocked(enforceGuardrails).mockRejectedValueOnce(new GuardrailError('Connection is read-only'));
+
+    await expect(getHandler('jobs:start')({}, 'conn-1', 'DELETE FROM orders')).rejects.toThrow('Connection is read-only');
+    expect(withDetachedSession).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the running statement and skip the rest of the script', async () => {
+    let finish: (value: unknown) => void = () => undefined;
+    session.execute.mockReturnValueOnce(new Promise((resolve) => { finish = resolve; }));
+
+    const job = (await getHandler('jobs:start')({}, 'conn-1', 'SELECT pg_sleep(60); SELECT 2')) as QueryJob;
+    await flush();
+
+    expect(await getHandler('jobs:cancel')({}, job.id)).toBe(true);
+    expect(session.cancelQuery).toHaveBeenCalled();
+
+    finish({ columns: [], rows: [], rowCount: 0, executionTime: 1, error: 'canceling statement due to user request' });
+    await flush();
+
+    expect(session.execute).toHaveBeenCalledTimes(1);
+    const listed = (await getHandler('jobs:list')({})) as QueryJob[];
+    expect(listed.find((j) => j.id === job.id)?.status).toBe(QueryJobStatus.Canceled);
+    expect(await getHandler('jobs:remove')({}, job.id)).toBe(true);
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { mockIpcHandle, mockWithDriver, mockWithDetachedSession, mockCheckQueryGuardrails } = vi.hoisted(() => ({
+  mockIpcHandle: vi.fn(),
+  mockWithDriver: vi.fn(),
+  mockWithDetachedSession: vi.fn(),
+  mockCheckQueryGuardrails: vi.fn(),
+}));
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: mockIpcHandle,
+  },
+  BrowserWindow: {
+    getAllWindows: () => [],
+  },
+}));
+
+vi.mock('@main/ipc/helpers', () => ({
+  withDriver: mockWithDriver,
+  withDetachedSession: mockWithDetachedSession,
+}));
+
+vi.mock('@main/ipc/query', () => ({
+  checkQueryGuardrails: mockCheckQueryGuardrails,
+}));
+
+vi.mock('@main/db/mysql', () => ({
+  MySQLDriver: class MySQLDriver {},
+}));
+
+vi.mock('@main/db/postgres', () => ({
+  PostgreSQLDriver: class PostgreSQLDriver {},
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { getTableMaintenanceInfo, readPostgreSQLProgress, registerMaintenanceHandlers } from '@main/ipc/maintenance';
+import { MySQLDriver } from '@main/db/mysql';
+import { PostgreSQLDriver } from '@main/db/postgres';
+import { DatabaseType } from '@main/types';
+import { maintenanceTracker, MaintenanceOperation, TableHealthKind } from '@main/services/tableMaintenance';
+
+const getHandler = (channel: string): ((_: unknown, ...args: unknown[]) => Promise<unknown>) => {
+  const call = mockIpcHandle.mock.calls.find((c: [string, unknown]) => c[0] === channel);
+  if (!call) throw new Error(`Handler not found for channel: ${channel}`);
+  return call[1] as (_: unknown, ...args: unknown[]) => Promise<unknown>;
+};
+
+const postgresDriver = () => {
+  const driver = Object.create(PostgreSQLDriver.prototype);
+  driver.type = DatabaseType.PostgreSQL;
+  driver.getCurrentSchema = () => 'sales';
+  return driver;
+};
+
+describe('getTableMaintenanceInfo', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read dead tuples, vacuum times and estimated bloat on PostgreSQL', async () => {
+    const driver = postgresDriver();
+    driver.execute = vi.fn().mockResolvedValue({
+      rows: [{
+        live_tuples: '900',
+        dead_tuples: '100',
+        modifications: '42',
+        last_vacuum: null,
+        last_autovacuum: new Date('2026-10-18T03:00:00.000Z'),
+        last_analyze: null,
+        last_autoanalyze: null,
+        table_bytes: '1000000',
+        heap_bytes: String(8192 * 100),
+        reltuples: 1000,
+        block_size: 8192,
+        fillfactor: 100,
+        row_width: '100',
+      }],
+    });
+
+    const info = await getTableMaintenanceInfo(driver, 'app', 'orders');
+
+    expect(driver.execute.mock.calls[0][1]).toEqual(['sales', 'orders']);
+    expect(info.operations).toContain(MaintenanceOperation.VacuumFull);
+    expect(info.health).toMatchObject({
+      kind: TableHealthKind.PostgreSQL,
+      deadTuples: 100,
+      deadTupleRatio: 0.1,
+      lastVacuum: null,
+      lastAutovacuum: '2026-10-18T03:00:00.000Z',
+      bloatBytes: 8192 * 83,
+      bloatRatio: 0.83,
+    });
+  });
+
+  it('should read DATA_FREE as fragmentation on MySQL', async () => {
+    const driver = Object.create(MySQLDriver.prototype);
+    driver.type = DatabaseType.MySQL;
+    driver.execute = vi.fn(async (sql: string) => {
+      if (sql.startsWith('SET SESSION')) return { rows: [], error: "Unknown system variable 'information_schema_stats_expiry'" };
+      return { rows: [{ storage_engine: 'InnoDB', table_rows: 5000, data_length: 6000, index_length: 2000, data_free: 2000 }] };
+    });
+
+    const info = await getTableMaintenanceInfo(driver, 'shop', 'orders');
+
+    expect(driver.execute).toHaveBeenLastCalledWith(expect.stringContaining('information_schema.TABLES'), ['shop', 'orders']);
+    expect(info.operations).toEqual([MaintenanceOperation.Optimize, MaintenanceOperation.Analyze, MaintenanceOperation.Check, MaintenanceOperation.Repair]);
+    expect(info.health).toMatchObject({ kind: TableHealthKind.MySQL, freeBytes: 2000, fragmentationRatio: 0.2, lastCheck: null });
+  });
+
+  it('should report a missing table and refuse other engines', async () => {
+    const driver = postgresDriver();
+    driver.execute = vi.fn().mockResolvedValue({ rows: [] });
+
+    await expect(getTableMaintenanceInfo(driver, 'app', 'gone')).rejects.toThrow('Table gone was not found');
+    await expect(getTableMaintenanceInfo({ type: DatabaseType.SQLite } as never, 'main', 'orders')).rejects.toThrow(
+      'Table maintenance is not supported for sqlite connections'
+    );
+  });
+});
+
+describe('readPostgreSQLProgress', () => {
+  it('should move on to the analyze view and skip views an older server lacks', async () => {
+    const driver = postgresDriver();
+    driver.execute = vi.fn(async (sql: string) => {
+      if (sql.includes('pg_stat_progress_vacuum')) return { rows: [] };
+      return { rows: [{ phase: 'acquiring sample rows', done: '5', total: '20' }] };
+    });
+
+    expect(await readPostgreSQLProgress(driver, MaintenanceOperation.VacuumAnalyze, 4321)).toEqual({
+      phase: 'acquiring sample rows',
+      done: 5,
+      total: 20,
+    });
+    expect(driver.execute).toHaveBeenCalledWith(expect.stringContaining('pg_stat_progress_vacuum'), [4321]);
+
+    driver.execute = vi.fn().mockResolvedValue({ rows: [], error: 'relation "pg_stat_progress_analyze" does not exist' });
+    expect(await readPostgreSQLProgress(driver, MaintenanceOperation.Analyze, 4321)).toBeNull();
+  });
+
+  it('should leave the counts out of phases that report no blocks', async () => {
+    const driver = postgresDriver();
+    driver.execute = vi.fn().mockResolvedValue({ rows: [{ phase: 'initializing', done: 0, total: 0 }] });
+
+    expect(await readPostgreSQLProgress(driver, MaintenanceOperation.Reindex, 1)).toEqual({ phase: 'initializing', done: null, total: null });
+  });
+});
+
+describe('registerMaintenanceHandlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIpcHandle.mockReset();
+    registerMaintenanceHandlers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should register the maintenance handlers', () => {
+    expect(mockIpcHandle.mock.calls.map((c: [string, unknown]) => c[0])).toEqual([
+      'maintenance:getInfo',
+      'maintenance:run',
+      'maintenance:list',
+      'maintenance:cancel',
+    ]);
+  });
+
+  it('should start a guarded operation on the current schema', async () => {
+    const driver = postgresDriver();
+    mockWithDriver.mockImplementation(async (_id: string, fn: (d: unknown) => unknown) => fn(driver));
+    mockCheckQueryGuardrails.mockResolvedValue(null);
+    const start = vi.spyOn(maintenanceTracker, 'start').mockReturnValue({ id: 'task-1' } as never);
+
+    await getHandler('maintenance:run')({}, 'conn-1', 'orders', MaintenanceOperation.VacuumAnalyze, 'app');
+
+    expect(mockCheckQueryGuardrails).toHaveBeenCalledWith('conn-1', driver, 'VACUUM (ANALYZE) "sales"."orders"');
+    expect(start).toHaveBeenCalledWith(
+      { connectionId: 'conn-1', database: 'app', table: 'orders', operation: MaintenanceOperation.VacuumAnalyze, sql: 'VACUUM (ANALYZE) "sales"."orders"' },
+      expect.any(Function)
+    );
+  });
+
+  it('should read MySQL table health on a session of its own', async () => {
+    const shared = Object.create(MySQLDriver.prototype);
+    shared.type = DatabaseType.MySQL;
+    shared.execute = vi.fn();
+    const session = Object.create(MySQLDriver.prototype);
+    session.type = DatabaseType.MySQL;
+    session.execute = vi.fn().mockResolvedValue({ rows: [{ storage_engine: 'InnoDB', data_length: 100 }] });
+    mockWithDriver.mockImplementation(async (_id: string, fn: (d: unknown) => unknown) => fn(shared));
+    mockWithDetachedSession.mockImplementation(async (_id: string, _db: string, fn: (d: unknown) => unknown) => fn(session));
+
+    await getHandler('maintenance:getInfo')({}, 'conn-1', 'orders', 'shop');
+
+    expect(mockWithDetachedSession).toHaveBeenCalledWith('conn-1', 'shop', expect.any(Function));
+    expect(session.execute).toHaveBeenCalledWith('SET SESSION information_schema_stats_expiry = 0');
+    expect(shared.execute).not.toHaveBeenCalled();
+  });
+
+  it('should poll PostgreSQL progress on a second session', async () => {
+    vi.useFakeTimers();
+    try {
+      const driver = postgresDriver();
+      driver.execute = vi.fn();
+      mockWithDriver.mockImplementation(async (_id: string, fn: (d: unknown) => unknown) => fn(driver));
+      mockCheckQueryGuardrails.mockResolvedValue(null);
+      const start = vi.spyOn(maintenanceTracker, 'start').mockReturnValue({ id: 'task-1' } as never);
+
+      let finish: (result: unknown) => void = () => undefined;
+      const session = {
+        execute: vi.fn((sql: string) => sql.includes('pg_backend_pid')
+          ? Promise.resolve({ rows: [{ pid: 4321 }] })
+          : new Promise((resolve) => { finish = resolve; })),
+        cancelQuery: vi.fn(),
+      };
+      const monitor = { execute: vi.fn().mockResolvedValue({ rows: [{ phase: 'scanning heap', done: 1, total: 4 }] }) };
+      const sessions = [session, monitor];
+      mockWithDetachedSession.mockImplementation(async (_id: string, _db: string, fn: (d: unknown) => unknown) => fn(sessions.shift()));
+
+      await getHandler('maintenance:run')({}, 'conn-1', 'orders', MaintenanceOperation.Vacuum, 'app');
+      const reportProgress = vi.fn();
+      const run = start.mock.calls[0][1]({
+        task: { id: 'task-1', connectionId: 'conn-1', database: 'app', operation: MaintenanceOperation.Vacuum, sql: 'VACUUM "sales"."orders"' } as never,
+        signal: new AbortController().signal,
+        reportProgress,
+      });
+
+      await vi.advanceTimersByTimeAsync(1000);
+      finish({ rows: [] });
+      await run;
+
+      expect(monitor.execute).toHaveBeenCalledWith(expect.stringContaining('pg_stat_progress_vacuum'), [4321]);
+      expect(reportProgress).toHaveBeenCalledWith({ phase: 'scanning heap', done: 1, total: 4 });
+      expect(driver.execute).not.toHaveBeenCalled();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should not start an operation the guardrails refuse', async () => {
+    const driver = Object.create(MySQLDriver.prototype);
+    driver.type = DatabaseType.MySQL;
+    mockWithDriver.mockImplementation(async (_id: string, fn: (d: unknown) => unknown) => fn(driver));
+    mockCheckQueryGuardrails.mockResolvedValue('Production connections are read-only');
+    const start = vi.spyOn(maintenanceTracker, 'start');
+
+    await expect(getHandler('maintenance:run')({}, 'conn-1', 'orders', MaintenanceOperation.Optimize, 'shop')).rejects.toThrow(
+      'Production connections are read-only'
+    );
+    expect(start).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockIpcHandle, mockShowSaveDialog, mockWriteFile } = vi.hoisted(() => ({
+  mockIpcHandle: vi.fn(),
+  mockShowSaveDialog: vi.fn(),
+  mockWriteFile: vi.fn(),
+}));
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: mockIpcHandle,
+  },
+  BrowserWindow: {
+    getAllWindows: () => [],
+    getFocusedWindow: () => ({}),
+  },
+  dialog: {
+    showSaveDialog: mockShowSaveDialog,
+  },
+}));
+
+vi.mock('fs/promises', () => ({
+  writeFile: mockWriteFile,
+}));
+
+vi.mock('@main/db/manager', () => ({
+  connectionManager: {
+    getConnection: vi.fn(),
+    getConfig: vi.fn(() => ({ name: 'Orders DB' })),
+    onDisconnect: vi.fn(),
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { registerMetricsHandlers, resolveMetricReader } from '@main/ipc/metrics';
+import { connectionManager } from '@main/db/manager';
+import { DatabaseType } from '@main/types';
+
+const mockGetConnection = vi.mocked(connectionManager.getConnection);
+
+const getHandler = (channel: string): ((_: unknown, ...args: unknown[]) => Promise<unknown>) => {
+  const call = mockIpcHandle.mock.calls.find((c: [string, unknown]) => c[0] === channel);
+  if (!call) throw new Error(`Handler not found for channel: ${channel}`);
+  return call[1] as (_: unknown, ...args: unknown[]) => Promise<unknown>;
+};
+
+const useDriver = (driver: Record<string, unknown>) => {
+  mockGetConnection.mockReturnValue(driver as never);
+};
+
+describe('resolveMetricReader', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return nothing for a closed connection or an engine without metrics', () => {
+    mockGetConnection.mockReturnValue(undefined);
+    expect(resolveMetricReader('conn-1')).toBeUndefined();
+
+    useDriver({ type: DatabaseType.SQLite });
+    expect(resolveMetricReader('conn-1')).toBeUndefined();
+  });
+
+  it('should read PostgreSQL statistics as numbers', async () => {
+    const execute = vi.fn().mockResolvedValue({
+      rows: [{ transactions: '1200', blks_hit: '900', blks_total: '1000', connections: '5', active_connections: '2', replication_lag: null }],
+    });
+    useDriver({ type: DatabaseType.PostgreSQL, execute });
+
+    const reader = resolveMetricReader('conn-1')!;
+    expect(reader.metrics.map((m) => m.key)).toContain('cache_hit_ratio');
+    expect(await reader.read()).toEqual({ transactions: 1200, blks_hit: 900, blks_total: 1000, connections: 5, active_connections: 2 });
+  });
+
+  it('should derive MySQL buffer pool hits and fall back to SHOW SLAVE STATUS', async () => {
+    const execute = vi.fn(async (sql: string) => {
+      if (sql.startsWith('SHOW GLOBAL STATUS')) {
+        return {
+          rows: [
+            { Variable_name: 'Questions', Value: '500' },
+            { Variable_name: 'Innodb_buffer_pool_read_requests', Value: '1000' },
+            { Variable_name: 'Innodb_buffer_pool_reads', Value: '10' },
+          ],
+        };
+      }
+      if (sql === 'SHOW REPLICA STATUS') {
+        return { rows: [], error: 'You have an error in your SQL syntax' };
+      }
+      return { rows: [{ Seconds_Behind_Master: 3 }] };
+    });
+    useDriver({ type: DatabaseType.MariaDB, execute });
+
+    const readings = await resolveMetricReader('conn-1')!.read();
+
+    expect(readings).toMatchObject({ Questions: 500, buffer_pool_hits: 990, replication_lag: 3 });
+    expect(execute).toHaveBeenCalledWith('SHOW SLAVE STATUS');
+  });
+
+  it('should parse Redis INFO and count keyspace lookups', async () => {
+    const info = vi.fn().mockResolvedValue(
+      '# Stats\r\ntotal_commands_processed:4200\r\nkeyspace_hits:80\r\nkeyspace_misses:20\r\nrole:master\r\n# Memory\r\nused_memory:1048576\r\n'
+    );
+    useDriver({ type: DatabaseType.Redis, getClient: () => ({ info }) });
+
+    expect(await resolveMetricReader('conn-1')!.read()).toEqual({
+      total_commands_processed: 4200,
+      keyspace_hits: 80,
+      keyspace_misses: 20,
+      keyspace_lookups: 100,
+      used_memory: 1048576,
+    });
+  });
+
+  it('should read MongoDB opcounters, memory and replication lag', async () => {
+    const command = vi.fn(async (cmd: Record<string, unknown>) => {
+      if (cmd.serverStatus) {
+        return { opcounters: { insert: 10, query: 20 }, connections: { current: 7 }, mem: { resident: 2 } };
+      }
+      return {
+        members: [
+          { stateStr: 'PRIMARY', optimeDate: new Date(10000) },
+          { stateStr: 'SECONDARY', self: true, optimeDate: new Date(7500) },
+        ],
+      };
+    });
+    useDriver({ type: DatabaseType.MongoDB, getClient: () => ({ db: () => ({ command }) }) });
+
+    expect(await resolveMetricReader('conn-1')!.read()).toEqual({
+      opcounters_insert: 10,
+      opcounters_query: 20,
+      connections_current: 7,
+      mem_resident: 2 * 1024 * 1024,
+      replication_lag: 2.5,
+    });
+  });
+
+  it('should add up ClickHouse connections and skip the lag without replicas', async () => {
+    const execute = vi.fn(async (sql: string) => {
+      if (sql.includes('system.replicas')) {
+        return { rows: [{ delay: 0, replicas: '0' }] };
+      }
+      return {
+        rows: [
+          { name: 'event_Query', value: 42 },
+          { name: 'metric_Merge', value: 3 },
+          { name: 'metric_TCPConnection', value: 2 },
+          { name: 'metric_HTTPConnection', value: 1 },
+        ],
+      };
+    });
+    useDriver({ type: DatabaseType.ClickHouse, execute });
+
+    const readings = await resolveMetricReader('conn-1')!.read();
+
+    expect(readings).toMatchObject({ event_Query: 42, metric_Merge: 3, connections: 3 });
+    expect(readings).not.toHaveProperty('replication_lag');
+  });
+});
+
+describe('registerMetricsHandlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIpcHandle.mockReset();
+    registerMetricsHandlers();
+  });
+
+  it('should register the metrics handlers', () => {
+    const channels = mockIpcHandle.mock.calls.map((c: [string, unknown]) => c[0]);
+    expect(channels).toEqual(['metrics:start', 'metrics:stop', 'metrics:getHistory', 'metrics:exportCsv']);
+  });
+
+  it('should stop sampling a connection once it is disconnected', async () => {
+    useDriver({ type: DatabaseType.PostgreSQL, execute: vi.fn().mockResolvedValue({ rows: [] }) });
+    const history = (await getHandler('metrics:start')({}, 'conn-metrics')) as { metrics: unknown[] };
+    expect(history.metrics).not.toHaveLength(0);
+
+    vi.mocked(connectionManager.onDisconnect).mock.calls[0][0]('conn-metrics');
+
+    expect(await getHandler('metrics:getHistory')({}, 'conn-metrics')).toMatchObject({ metrics: [], samples: [] });
+  });
+
+  it('should refuse to start on a connection without metrics', async () => {
+    useDriver({ type: DatabaseType.SQLite });
+    await expect(getHandler('metrics:start')({}, 'conn-1')).rejects.toThrow('Metrics are not available');
+  });
+
+  it('should write the CSV to the chosen file', async () => {
+    mockShowSaveDialog.mockResolvedValue({ canceled: false, filePath: '/tmp/metrics.csv' });
+
+    const result = await getHandler('metrics:exportCsv')({}, 'conn-1', 300000);
+
+    expect(result).toEqual({ success: true, filePath: '/tmp/metrics.csv' });
+    expect(mockShowSaveDialog).toHaveBeenCalledWith({}, expect.objectContaining({ defaultPath: 'Orders_DB-metrics.csv' }));
+    expect(mockWriteFile).toHaveBeenCalledWith('/tmp/metrics.csv', 'timestamp', 'utf-8');
+  });
+
+  it('should report a canceled export', async () => {
+    mockShowSaveDialog.mockResolvedValue({ canceled: true });
+    expect(await getHandler('metrics:exportCsv')({}, 'conn-1')).toEqual({ success: false, error: 'Export canceled' });
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+});
@@ -66,7 +66,7 @@ describe('registerMonitoringHandlers', () => {
     registerMonitoringHandlers();
   });
 
-  it('should register all three monitoring IPC handlers', () => {
+  it('should register all five monitoring IPC handlers', () => {
     const registeredChannels = mockIpcHandle.mock.calls.map(
       (call: [string, unknown]) => call[0]
     );
@@ -74,6 +74,8 @@ describe('registerMonitoringHandlers', () => {
       'monitoring:getProcessList',
       'monitoring:killProcess',
       'monitoring:getServerStatus',
+      'monitoring:getBlockingSessions',
+      'monitoring:getQueryStatistics',
     ]);
   });
 
@@ -921,4 +923,232 @@ describe('registerMonitoringHandlers', () => {
       expect(result).toEqual({ variables: {}, status: {} });
     });
   });
+
+  describe('monitoring:getBlockingSessions', () => {
+    it('should throw when connection is not found', async () => {
+      mockGetConnection.mockReturnValue(undefined);
+      const handler = getHandler('monitoring:getBlockingSessions');
+
+      await expect(handler(null, 'conn-1')).rejects.toThrow('Connection not found');
+    });
+
+    it('should return PostgreSQL blocking sessions with the locks they wait on and hold', async () => {
+      const mockDriver = Object.create(PostgreSQLDriver.prototype);
+      mockDriver.execute = vi.fn()
+        .mockResolvedValueOnce({
+          rows: [
+            { pid: 10, user: 'app', database: 'shop', state: 'idle in transaction', query: 'UPDATE orders SET paid = true', transaction_seconds: 120.4, wait_seconds: null, blocked_by: [] },
+            { pid: 20, user: 'app', database: 'shop', state: 'active', query: 'DELETE FROM orders', transaction_seconds: 30, wait_seconds: 29.6, blocked_by: [10] },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            { pid: 10, locktype: 'transactionid', mode: 'ExclusiveLock', granted: true, relation: null, target: 'transactionid:734' },
+            { pid: 10, locktype: 'relation', mode: 'RowExclusiveLock', granted: true, relation: 'orders', target: 'relation:5:16384' },
+            { pid: 20, locktype: 'tuple', mode: 'ExclusiveLock', granted: true, relation: 'orders', target: 'tuple:5:16384:0:1' },
+            { pid: 20, locktype: 'transactionid', mode: 'ShareLock', granted: false, relation: null, target: 'transactionid:734' },
+          ],
+        });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const handler = getHandler('monitoring:getBlockingSessions');
+      const result = await handler(null, 'conn-1');
+
+      expect(mockDriver.execute).toHaveBeenLastCalledWith(expect.stringContaining('FROM pg_locks'), [[10, 20]]);
+      expect(result).toEqual([
+        {
+          id: 10,
+          user: 'app',
+          database: 'shop',
+          state: 'idle in transaction',
+          query: 'UPDATE orders SET paid = true',
+          transactionSeconds: 120,
+          blockedBy: [],
+          waitingFor: null,
+          heldLocks: [{ mode: 'ExclusiveLock', lockType: 'transactionid', relation: 'orders' }],
+        },
+        {
+          id: 20,
+          user: 'app',
+          database: 'shop',
+          state: 'active',
+          query: 'DELETE FROM orders',
+          transactionSeconds: 30,
+          blockedBy: [10],
+          waitingFor: { mode: 'ShareLock', lockType: 'transactionid', relation: 'orders', waitSeconds: 30 },
+          heldLocks: [],
+        },
+      ]);
+    });
+
+    it('should skip the lock query when nothing is blocked on PostgreSQL', async () => {
+      const mockDriver = Object.create(PostgreSQLDriver.prototype);
+      mockDriver.execute = vi.fn().mockResolvedValueOnce({ rows: [] });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const result = await getHandler('monitoring:getBlockingSessions')(null, 'conn-1');
+
+      expect(result).toEqual([]);
+      expect(mockDriver.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should build MySQL blocking sessions from the InnoDB lock tables when sys is missing', async () => {
+      const mockDriver = Object.create(MySQLDriver.prototype);
+      mockDriver.execute = vi.fn()
+        .mockResolvedValueOnce({ rows: [], error: "Table 'sys.innodb_lock_waits' doesn't exist" })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              waiting_pid: 8,
+              waiting_lock_mode: 'X',
+              lock_type: 'RECORD',
+              locked_table: '`shop`.`orders`',
+              locked_index: 'PRIMARY',
+              wait_seconds: 12,
+              waiting_trx_seconds: 12,
+              blocking_pid: 5,
+              blocking_lock_mode: 'X',
+              blocking_trx_seconds: 300,
+            },
+          ],
+        })
+        .mockResolvedValueOnce({
+          rows: [
+            { ID: 5, USER: 'batch', DB: 'shop', COMMAND: 'Sleep', STATE: '', INFO: null },
+            { ID: 8, USER: 'web', DB: 'shop', COMMAND: 'Query', STATE: 'updating', INFO: 'UPDATE orders SET total = 0 WHERE id = 1' },
+          ],
+        });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const result = await getHandler('monitoring:getBlockingSessions')(null, 'conn-1');
+
+      expect(mockDriver.execute).toHaveBeenNthCalledWith(2, expect.stringContaining('information_schema.INNODB_LOCK_WAITS'));
+      expect(mockDriver.execute).toHaveBeenNthCalledWith(3, expect.stringContaining('WHERE ID IN (8, 5)'));
+      expect(result).toEqual([
+        {
+          id: 8,
+          user: 'web',
+          database: 'shop',
+          state: 'updating',
+          query: 'UPDATE orders SET total = 0 WHERE id = 1',
+          transactionSeconds: 12,
+          blockedBy: [5],
+          waitingFor: { mode: 'X', lockType: 'RECORD', relation: 'shop.orders (PRIMARY)', waitSeconds: 12 },
+          heldLocks: [],
+        },
+        {
+          id: 5,
+          user: 'batch',
+          database: 'shop',
+          state: 'Sleep',
+          query: null,
+          transactionSeconds: 300,
+          blockedBy: [],
+          waitingFor: null,
+          heldLocks: [{ mode: 'X', lockType: 'RECORD', relation: 'shop.orders (PRIMARY)' }],
+        },
+      ]);
+    });
+
+    it('should throw when no MySQL lock table can be read', async () => {
+      const mockDriver = Object.create(MySQLDriver.prototype);
+      mockDriver.execute = vi.fn().mockResolvedValue({ rows: [], error: 'Access denied' });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      await expect(getHandler('monitoring:getBlockingSessions')(null, 'conn-1')).rejects.toThrow('Access denied');
+    });
+
+    it('should return an empty list for engines without lock monitoring', async () => {
+      mockGetConnection.mockReturnValue(Object.create(SQLiteDriver.prototype));
+      expect(await getHandler('monitoring:getBlockingSessions')(null, 'conn-1')).toEqual([]);
+    });
+  });
+
+  describe('monitoring:getQueryStatistics', () => {
+    it('should throw when connection is not found', async () => {
+      mockGetConnection.mockReturnValue(undefined);
+      await expect(getHandler('monitoring:getQueryStatistics')(null, 'conn-1')).rejects.toThrow('Connection not found');
+    });
+
+    it('should normalize pg_stat_statements rows and use the pre-13 column names', async () => {
+      const mockDriver = Object.create(PostgreSQLDriver.prototype);
+      mockDriver.execute = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ server_version_num: '120005' }] })
+        .mockResolvedValueOnce({
+          rows: [{
+            id: '-4227391', normalized_query: 'SELECT * FROM orders WHERE id = $1', db_name: 'shop', user_name: 'app',
+            calls: '42', total_time: 84.5, mean_time: 2.0119, max_time: 10, row_count: '42', blks_hit: '990', blks_read: '10',
+          }],
+        });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const result = await getHandler('monitoring:getQueryStatistics')(null, 'conn-1', { orderBy: 'calls', search: '100%' });
+
+      const [sql, params] = mockDriver.execute.mock.calls[1];
+      expect(sql).toContain('s.total_time AS total_time');
+      expect(sql).toContain('ORDER BY calls DESC');
+      expect(sql).toContain('LIMIT 100');
+      expect(params).toEqual(['%100\\%%']);
+      expect(result).toEqual([{
+        id: '-4227391',
+        query: 'SELECT * FROM orders WHERE id = $1',
+        sample: null,
+        database: 'shop',
+        user: 'app',
+        calls: 42,
+        totalTimeMs: 84.5,
+        meanTimeMs: 2.0119,
+        maxTimeMs: 10,
+        rows: 42,
+        sharedBlocksHit: 990,
+        sharedBlocksRead: 10,
+      }]);
+    });
+
+    it('should explain how to enable pg_stat_statements when it is missing', async () => {
+      const mockDriver = Object.create(PostgreSQLDriver.prototype);
+      mockDriver.execute = vi.fn()
+        .mockResolvedValueOnce({ rows: [{ server_version_num: '160002' }] })
+        .mockResolvedValueOnce({ rows: [], error: 'relation "pg_stat_statements" does not exist' });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      await expect(getHandler('monitoring:getQueryStatistics')(null, 'conn-1')).rejects.toThrow('CREATE EXTENSION pg_stat_statements');
+      expect(mockDriver.execute.mock.calls[1][0]).toContain('s.total_exec_time AS total_time');
+    });
+
+    it('should retry MySQL digests without the sample column on older servers', async () => {
+      const mockDriver = Object.create(MySQLDriver.prototype);
+      mockDriver.execute = vi.fn()
+        .mockResolvedValueOnce({ rows: [], error: "Unknown column 'QUERY_SAMPLE_TEXT' in 'field list'" })
+        .mockResolvedValueOnce({
+          rows: [{ id: 'abc', normalized_query: 'SELECT * FROM `orders` WHERE `id` = ?', sample: null, db_name: 'shop', calls: 3, total_time: '1.5', mean_time: '0.5', max_time: '0.9', row_count: 3 }],
+        });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const result = await getHandler('monitoring:getQueryStatistics')(null, 'conn-1', { limit: 5000 }) as Array<Record<string, unknown>>;
+
+      expect(mockDriver.execute.mock.calls[1][0]).toContain('NULL AS sample');
+      expect(mockDriver.execute.mock.calls[1][0]).toContain('LIMIT 1000');
+      expect(mockDriver.execute.mock.calls[1][1]).toEqual(['', '']);
+      expect(result[0]).toMatchObject({ id: 'abc', calls: 3, totalTimeMs: 1.5, sharedBlocksHit: null, sharedBlocksRead: null });
+    });
+
+    it('should group the ClickHouse query log and escape the search inline', async () => {
+      const mockDriver = Object.create(ClickHouseDriver.prototype);
+      mockDriver.execute = vi.fn().mockResolvedValue({
+        rows: [{ id: '123', normalized_query: 'SELECT count() FROM hits WHERE id = ?', sample: 'SELECT count() FROM hits WHERE id = 7', calls: '2', total_time: 30, mean_time: 15, max_time: 20, row_count: '2' }],
+      });
+      mockGetConnection.mockReturnValue(mockDriver);
+
+      const result = await getHandler('monitoring:getQueryStatistics')(null, 'conn-1', { search: "o'hits" }) as Array<Record<string, unknown>>;
+
+      expect(mockDriver.execute.mock.calls[0][0]).toContain("AND query ILIKE '%o\\'hits%'");
+      expect(result[0]).toMatchObject({ query: 'SELECT count() FROM hits WHERE id = ?', sample: 'SELECT count() FROM hits WHERE id = 7', meanTimeMs: 15 });
+    });
+
+    it('should return an empty list for engines without statement statistics', async () => {
+      mockGetConnection.mockReturnValue(Object.create(RedisDriver.prototype));
+      expect(await getHandler('monitoring:getQueryStatistics')(null, 'conn-1')).toEqual([]);
+    });
+  });
 });
@@ -13,9 +13,14 @@ vi.mock('electron', () => ({
 vi.mock('@main/db/manager', () => ({
   connectionManager: {
     getConnection: vi.fn(),
+    getConfig: vi.fn(),
   },
 }));
 
+vi.mock('@main/services/database', () => ({
+  appDatabase: {},
+}));
+
 vi.mock('@main/db/postgres', () => ({
   PostgreSQLDriver: class PostgreSQLDriver {},
 }));
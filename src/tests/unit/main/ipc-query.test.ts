@@ -9,7 +9,14 @@ vi.mock('electron', () => ({
 vi.mock('../../../main/db/manager', () => ({
   connectionManager: {
     getConnection: vi.fn(),
+    getConfig: vi.fn(() => ({ id: 'conn-1' })),
+    openCursor: vi.fn(),
+    fetchCursor: vi.fn(),
+    closeCursor: vi.fn(),
+    cancelCursorQueries: vi.fn().mockResolvedValue(false),
   },
+  CURSOR_TYPES: ['sqlite', 'mysql', 'mariadb', 'postgresql', 'mongodb'],
+  TRANSACTION_BEGIN_STATEMENTS: { postgresql: 'BEGIN', mysql: 'START TRANSACTION' },
 }));
 
 vi.mock('../../../main/utils/logger', () => ({
@@ -24,13 +31,30 @@ vi.mock('../../../main/utils/serialize', () => ({
 
 vi.mock('../../../main/ipc/helpers', () => ({
   withDriver: vi.fn(),
+  withDetachedSession: vi.fn(),
+}));
+
+vi.mock('../../../main/services/queryLimits', () => ({
+  queryLimitsService: {
+    resolve: vi.fn(() => ({ maxRows: 500, timeout: 0 })),
+    getDefaults: vi.fn(() => ({ maxRows: 10000, timeout: 0 })),
+    setDefaults: vi.fn((limits: unknown) => limits),
+  },
+}));
+
+vi.mock('../../../main/services/guardrails', () => ({
+  enforceGuardrails: vi.fn(),
+  GuardrailError: class GuardrailError extends Error {},
 }));
 
 import { ipcMain } from 'electron';
 import { connectionManager } from '../../../main/db/manager';
-import { withDriver } from '../../../main/ipc/helpers';
+import { withDetachedSession, withDriver } from '../../../main/ipc/helpers';
 import { toPlainObject } from '../../../main/utils/serialize';
 import { registerQueryHandlers, splitSqlStatements } from '../../../main/ipc/query';
+import { enforceGuardrails, GuardrailError } from '../../../main/services/guardrails';
+import { queryLimitsService } from '../../../main/services/queryLimits';
+import { DatabaseType, ScriptErrorMode, ScriptStatementStatus, type MultiQueryResult } from '../../../main/types';
 
 const getHandler = (channel: string): ((...args: unknown[]) => unknown) => {
   const calls = vi.mocked(ipcMain.handle).mock.calls;
@@ -97,6 +121,11 @@ describe('splitSqlStatements', () => {
     expect(result).toEqual(['SELECT 1 /* this; comment */', 'SELECT 2']);
   });
 
+  it('should keep PostgreSQL dollar-quoted bodies together', () => {
+    const result = splitSqlStatements('DO $$ BEGIN PERFORM 1; END $$; SELECT $1');
+    expect(result).toEqual(['DO $$ BEGIN PERFORM 1; END $$', 'SELECT $1']);
+  });
+
   it('should handle an empty string', () => {
     const result = splitSqlStatements('');
     expect(result).toEqual([]);
@@ -132,6 +161,116 @@ describe('registerQueryHandlers', () => {
     expect(registeredChannels).toContain('query:execute');
     expect(registeredChannels).toContain('query:executeMultiple');
     expect(registeredChannels).toContain('query:cancel');
+    expect(registeredChannels).toContain('query:getDefaultLimits');
+    expect(registeredChannels).toContain('query:setDefaultLimits');
+    expect(registeredChannels).toContain('query:executeWithCursor');
+    expect(registeredChannels).toContain('query:fetchMore');
+    expect(registeredChannels).toContain('query:closeCursor');
+  });
+
+  describe('result cursors', () => {
+    const useDriver = (type: DatabaseType) => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+      return executeMock;
+    };
+
+    it('should open a cursor on the active database for a single read', async () => {
+      const executeMock = useDriver(DatabaseType.PostgreSQL);
+      vi.mocked(connectionManager.openCursor).mockResolvedValue({
+        columns: [], rows: [{ id: 1 }], rowCount: 1, executionTime: 1, truncated: true, cursorId: 'cursor-1',
+      });
+
+      const result = await getHandler('query:executeWithCursor')({}, 'conn-1', 'SELECT * FROM orders', undefined, 'shop');
+
+      expect(connectionManager.openCursor).toHaveBeenCalledWith(
+        'conn-1', 'SELECT * FROM orders', undefined, { maxRows: 500, timeout: 0 }, 'shop'
+      );
+      expect(executeMock).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ cursorId: 'cursor-1' });
+    });
+
+    it('should run a read that fails on the cursor session on the shared session instead', async () => {
+      const executeMock = useDriver(DatabaseType.PostgreSQL);
+      executeMock.mockResolvedValueOnce({ columns: [], rows: [{ id: 1 }], rowCount: 1, executionTime: 1 });
+      vi.mocked(connectionManager.openCursor).mockResolvedValue({
+        columns: [], rows: [], rowCount: 0, executionTime: 1, error: 'relation "scratch" does not exist',
+      });
+
+      const result = await getHandler('query:executeWithCursor')({}, 'conn-1', 'SELECT * FROM scratch');
+
+      expect(executeMock).toHaveBeenCalledWith('SELECT * FROM scratch', undefined, { maxRows: 500, timeout: 0 });
+      expect(result).toMatchObject({ rows: [{ id: 1 }] });
+      expect(result).not.toHaveProperty('cursorId');
+    });
+
+    it('should run writes on the shared connection', async () => {
+      const executeMock = useDriver(DatabaseType.PostgreSQL);
+
+      await getHandler('query:executeWithCursor')({}, 'conn-1', 'DELETE FROM orders', undefined, 'shop');
+
+      expect(executeMock).toHaveBeenCalledWith('DELETE FROM orders', undefined, { maxRows: 500, timeout: 0 });
+      expect(connectionManager.openCursor).not.toHaveBeenCalled();
+    });
+
+    it('should run reads on the shared connection for engines without cursors or without a row limit', async () => {
+      const executeMock = useDriver(DatabaseType.ClickHouse);
+      await getHandler('query:executeWithCursor')({}, 'conn-1', 'SELECT * FROM events');
+
+      useDriver(DatabaseType.PostgreSQL);
+      vi.mocked(queryLimitsService.resolve).mockReturnValueOnce({ maxRows: 0, timeout: 0 });
+      await getHandler('query:executeWithCursor')({}, 'conn-1', 'SELECT * FROM orders');
+
+      expect(executeMock).toHaveBeenCalled();
+      expect(connectionManager.openCursor).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a guarded read before opening a cursor', async () => {
+      useDriver(DatabaseType.PostgreSQL);
+      vi.mocked(enforceGuardrails).mockRejectedValueOnce(new GuardrailError('Queries are paused'));
+
+      const result = await getHandler('query:executeWithCursor')({}, 'conn-1', 'SELECT * FROM orders');
+
+      expect(result).toMatchObject({ error: 'Queries are paused' });
+      expect(connectionManager.openCursor).not.toHaveBeenCalled();
+    });
+
+    it('should fetch the next batch and close cursors by ID', async () => {
+      vi.mocked(connectionManager.fetchCursor).mockResolvedValue({ rows: [{ id: 2 }], hasMore: false });
+      vi.mocked(connectionManager.closeCursor).mockResolvedValue(true);
+
+      expect(await getHandler('query:fetchMore')({}, 'cursor-1')).toEqual({ rows: [{ id: 2 }], hasMore: false });
+      expect(connectionManager.fetchCursor).toHaveBeenCalledWith('cursor-1');
+      expect(await getHandler('query:closeCursor')({}, 'cursor-1')).toBe(true);
+      expect(connectionManager.closeCursor).toHaveBeenCalledWith('cursor-1');
+    });
+  });
+
+  describe('query limits', () => {
+    it('should run queries with the limits resolved for the connection', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1, truncated: true });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:execute');
+      const result = await handler({}, 'conn-1', 'SELECT * FROM orders');
+
+      expect(connectionManager.getConfig).toHaveBeenCalledWith('conn-1');
+      expect(queryLimitsService.resolve).toHaveBeenCalledWith({ id: 'conn-1' });
+      expect(result).toMatchObject({ truncated: true });
+    });
+
+    it('should read and save the default limits', async () => {
+      expect(await getHandler('query:getDefaultLimits')({})).toEqual({ maxRows: 10000, timeout: 0 });
+
+      await getHandler('query:setDefaultLimits')({}, { maxRows: 100, timeout: 5000 });
+      expect(queryLimitsService.setDefaults).toHaveBeenCalledWith({ maxRows: 100, timeout: 5000 });
+    });
   });
 
   describe('query:execute', () => {
@@ -162,7 +301,7 @@ describe('registerQueryHandlers', () => {
       const handler = getHandler('query:execute');
       await handler({}, 'conn-1', 'SELECT $1', [42]);
 
-      expect(executeMock).toHaveBeenCalledWith('SELECT $1', [42]);
+      expect(executeMock).toHaveBeenCalledWith('SELECT $1', [42], { maxRows: 500, timeout: 0 });
     });
   });
 
@@ -184,8 +323,8 @@ describe('registerQueryHandlers', () => {
 
       expect(withDriver).toHaveBeenCalledWith('conn-1', expect.any(Function));
       expect(executeMock).toHaveBeenCalledTimes(2);
-      expect(executeMock).toHaveBeenCalledWith('SELECT 1');
-      expect(executeMock).toHaveBeenCalledWith('SELECT 2');
+      expect(executeMock).toHaveBeenCalledWith('SELECT 1', undefined, { maxRows: 500, timeout: 0 });
+      expect(executeMock).toHaveBeenCalledWith('SELECT 2', undefined, { maxRows: 500, timeout: 0 });
       expect(toPlainObject).toHaveBeenCalledWith(
         expect.objectContaining({
           results: [mockResult1, mockResult2],
@@ -208,6 +347,195 @@ describe('registerQueryHandlers', () => {
     });
   });
 
+  describe('script error modes', () => {
+    const ok = () => ({ columns: [], rows: [], rowCount: 0, affectedRows: 1, executionTime: 1 });
+    const failed = () => ({ columns: [], rows: [], rowCount: 0, executionTime: 1, error: 'duplicate key' });
+    const script = 'INSERT INTO a VALUES (1);\n  INSERT INTO a VALUES (1);\nDELETE FROM b';
+
+    const useDriver = (execute: ReturnType<typeof vi.fn>, type = DatabaseType.PostgreSQL) => {
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) =>
+        fn({ type, execute } as unknown as import('../../../main/db/base').DatabaseDriver)
+      );
+    };
+
+    it('should run every statement and tag each result with where it starts in continue mode', async () => {
+      const executeMock = vi.fn().mockResolvedValueOnce(ok()).mockResolvedValueOnce(failed()).mockResolvedValueOnce(ok());
+      useDriver(executeMock);
+
+      const result = await getHandler('query:executeMultiple')({}, 'conn-1', script, ScriptErrorMode.Continue) as MultiQueryResult;
+
+      expect(executeMock).toHaveBeenCalledTimes(3);
+      expect(result.results.map((r) => r.statement)).toEqual([
+        { sql: 'INSERT INTO a VALUES (1)', offset: 0, status: ScriptStatementStatus.Succeeded },
+        { sql: 'INSERT INTO a VALUES (1)', offset: 28, status: ScriptStatementStatus.Failed },
+        { sql: 'DELETE FROM b', offset: 54, status: ScriptStatementStatus.Succeeded },
+      ]);
+    });
+
+    it('should skip the statements after a failure by default', async () => {
+      const executeMock = vi.fn().mockResolvedValueOnce(ok()).mockResolvedValueOnce(failed());
+      useDriver(executeMock);
+
+      const result = await getHandler('query:executeMultiple')({}, 'conn-1', script) as MultiQueryResult;
+
+      expect(executeMock).toHaveBeenCalledTimes(2);
+      expect(result.results[2]).toMatchObject({ rowCount: 0, statement: { sql: 'DELETE FROM b', status: ScriptStatementStatus.Skipped } });
+      expect(result.results[2].error).toBeUndefined();
+    });
+
+    it('should roll the whole script back on a session of its own in rollback mode', async () => {
+      const sharedExecute = vi.fn();
+      useDriver(sharedExecute);
+      const sessionExecute = vi.fn(async (sql: string) => (sql === 'INSERT INTO a VALUES (1)' && sessionExecute.mock.calls.length === 3 ? failed() : ok()));
+      vi.mocked(withDetachedSession).mockImplementation(async (_id, _database, fn) =>
+        fn({ type: DatabaseType.PostgreSQL, execute: sessionExecute } as unknown as import('../../../main/db/base').DatabaseDriver)
+      );
+
+      const result = await getHandler('query:executeMultiple')({}, 'conn-1', script, ScriptErrorMode.Rollback, 'analytics') as MultiQueryResult;
+
+      expect(withDetachedSession).toHaveBeenCalledWith('conn-1', 'analytics', expect.any(Function));
+      expect(sharedExecute).not.toHaveBeenCalled();
+      expect(sessionExecute.mock.calls.map((c) => c[0])).toEqual(['BEGIN', 'INSERT INTO a VALUES (1)', 'INSERT INTO a VALUES (1)', 'ROLLBACK']);
+      expect(result.rolledBack).toBe(true);
+      expect(result.results.map((r) => r.statement?.status)).toEqual([
+        ScriptStatementStatus.RolledBack,
+        ScriptStatementStatus.Failed,
+        ScriptStatementStatus.Skipped,
+      ]);
+    });
+
+    it('should commit a script that ran cleanly in rollback mode', async () => {
+      const sessionExecute = vi.fn().mockResolvedValue(ok());
+      useDriver(vi.fn());
+      vi.mocked(withDetachedSession).mockImplementation(async (_id, _database, fn) =>
+        fn({ type: DatabaseType.MySQL, execute: sessionExecute } as unknown as import('../../../main/db/base').DatabaseDriver)
+      );
+
+      const result = await getHandler('query:executeMultiple')({}, 'conn-1', 'DELETE FROM a; DELETE FROM b', ScriptErrorMode.Rollback) as MultiQueryResult;
+
+      expect(sessionExecute.mock.calls.map((c) => c[0])).toEqual(['START TRANSACTION', 'DELETE FROM a', 'DELETE FROM b', 'COMMIT']);
+      expect(result.rolledBack).toBeUndefined();
+      expect(result.results.every((r) => r.statement?.status === ScriptStatementStatus.Succeeded)).toBe(true);
+    });
+
+    it('should refuse rollback mode on engines without transactions', async () => {
+      useDriver(vi.fn(), DatabaseType.Redis);
+      vi.mocked(withDetachedSession).mockImplementation(async (_id, _database, fn) =>
+        fn({ type: DatabaseType.Redis, execute: vi.fn() } as unknown as import('../../../main/db/base').DatabaseDriver)
+      );
+
+      const result = await getHandler('query:executeMultiple')({}, 'conn-1', 'GET a; GET b', ScriptErrorMode.Rollback) as MultiQueryResult;
+
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0].error).toContain('cannot run in a transaction');
+    });
+  });
+
+  describe('guardrails', () => {
+    it('should check each statement of the script before running it', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.PostgreSQL, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:executeMultiple');
+      await handler({}, 'conn-1', 'SELECT 1; DELETE FROM orders');
+
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', [
+        expect.objectContaining({ sql: 'SELECT 1' }),
+        expect.objectContaining({ sql: 'DELETE FROM orders' }),
+      ]);
+      expect(executeMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the refusal as a query error without executing', async () => {
+      vi.mocked(enforceGuardrails).mockRejectedValueOnce(new GuardrailError('Destructive statement canceled'));
+      const executeMock = vi.fn();
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.MySQL, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:execute');
+      const result = await handler({}, 'conn-1', 'DELETE FROM orders');
+
+      expect(executeMock).not.toHaveBeenCalled();
+      expect(result).toEqual({ columns: [], rows: [], rowCount: 0, executionTime: 0, error: 'Destructive statement canceled' });
+    });
+
+    it('should return a refused script as a single failed result', async () => {
+      vi.mocked(enforceGuardrails).mockRejectedValueOnce(new GuardrailError('DROP statements are blocked: the connection is read-only'));
+      const executeMock = vi.fn();
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.MySQL, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:executeMultiple');
+      const result = await handler({}, 'conn-1', 'SELECT 1; DROP TABLE users') as { results: { error?: string }[] };
+
+      expect(executeMock).not.toHaveBeenCalled();
+      expect(result.results).toHaveLength(1);
+      expect(result.results[0].error).toBe('DROP statements are blocked: the connection is read-only');
+    });
+
+    it('should guard a data compare sync script as its keyed writes', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 1, executionTime: 1 });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.PostgreSQL, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+      const script = [
+        '-- Data compare: app.orders → archive.orders',
+        '-- Makes the target rows match the source. Review before running.',
+        '',
+        'DELETE FROM "orders" WHERE "id" = 3;',
+        'UPDATE "orders" SET "total" = 20 WHERE "id" = 2;',
+        'INSERT INTO "orders" ("id", "total") VALUES (4, 40);',
+      ].join('\n');
+
+      await getHandler('query:executeMultiple')({}, 'conn-1', script);
+
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', [
+        expect.objectContaining({ type: 'delete', destructive: false }),
+        expect.objectContaining({ type: 'update', destructive: false }),
+        expect.objectContaining({ type: 'insert', destructive: false }),
+      ]);
+    });
+
+    it('should classify Redis commands by the Redis rules', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.Redis, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:execute');
+      await handler({}, 'conn-1', 'DEL session:1');
+
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', [
+        expect.objectContaining({ type: 'delete', keyword: 'DEL', sql: 'DEL session:1' }),
+      ]);
+      expect(executeMock).toHaveBeenCalledWith('DEL session:1', undefined, { maxRows: 500, timeout: 0 });
+    });
+
+    it('should classify MongoDB shell calls by method', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      vi.mocked(withDriver).mockImplementation(async (_id, fn) => {
+        const mockDriverInstance = { type: DatabaseType.MongoDB, execute: executeMock };
+        return fn(mockDriverInstance as unknown as import('../../../main/db/base').DatabaseDriver);
+      });
+
+      const handler = getHandler('query:execute');
+      await handler({}, 'conn-1', 'db.orders.deleteMany({})');
+
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', [
+        expect.objectContaining({ type: 'delete', destructive: true, keyword: 'deleteMany' }),
+      ]);
+    });
+  });
+
   describe('query:cancel', () => {
     it('should cancel query when driver exists', async () => {
       const mockDriver = { cancelQuery: vi.fn().mockReturnValue(true) };
@@ -221,6 +549,17 @@ describe('registerQueryHandlers', () => {
       expect(result).toBe(true);
     });
 
+    it('should also cancel reads running on cursor sessions', async () => {
+      const mockDriver = { cancelQuery: vi.fn().mockResolvedValue(false) };
+      vi.mocked(connectionManager.getConnection).mockReturnValue(mockDriver as unknown as ReturnType<typeof connectionManager.getConnection>);
+      vi.mocked(connectionManager.cancelCursorQueries).mockResolvedValueOnce(true);
+
+      const result = await getHandler('query:cancel')({}, 'conn-1');
+
+      expect(connectionManager.cancelCursorQueries).toHaveBeenCalledWith('conn-1');
+      expect(result).toBe(true);
+    });
+
     it('should return false when driver does not exist', async () => {
       vi.mocked(connectionManager.getConnection).mockReturnValue(undefined);
 
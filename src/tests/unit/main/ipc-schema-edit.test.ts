@@ -15,12 +15,18 @@ vi.mock('../../../main/utils/logger', () => ({
 
 vi.mock('../../../main/ipc/helpers', () => ({
   withDriver: vi.fn(),
+  withGuardrails: vi.fn((_id: string, _statements: unknown[], fn: () => Promise<unknown>) => fn()),
   withMySQLDriver: vi.fn(),
   withPostgresDriver: vi.fn(),
 }));
 
+vi.mock('../../../main/services/database', () => ({
+  appDatabase: {},
+}));
+
 import { ipcMain } from 'electron';
-import { withDriver, withMySQLDriver, withPostgresDriver } from '../../../main/ipc/helpers';
+import { withDriver, withGuardrails, withMySQLDriver, withPostgresDriver } from '../../../main/ipc/helpers';
+import { StatementType } from '../../../main/services/statementClassifier';
 import { registerSchemaEditHandlers } from '../../../main/ipc/schema-edit';
 import type { DatabaseDriver } from '../../../main/db/base';
 import type { MySQLDriver } from '../../../main/db/mysql';
@@ -93,6 +99,7 @@ describe('registerSchemaEditHandlers', () => {
     // Row operations
     expect(registeredChannels).toContain('schema:insertRow');
     expect(registeredChannels).toContain('schema:deleteRow');
+    expect(registeredChannels).toContain('schema:applyChangeset');
 
     // View operations
     expect(registeredChannels).toContain('schema:createView');
@@ -231,6 +238,76 @@ describe('registerSchemaEditHandlers', () => {
     });
   });
 
+  describe('guardrails', () => {
+    it('should guard dropping a table as a destructive DROP', async () => {
+      setupWithDriverMock('dropTable', { success: true });
+
+      const handler = getHandler('schema:dropTable');
+      await handler({}, 'conn-1', { table: 'orders' });
+
+      expect(withGuardrails).toHaveBeenCalledWith(
+        'conn-1',
+        [{ type: StatementType.Drop, destructive: true, keyword: 'DROP', sql: 'DROP TABLE orders' }],
+        expect.any(Function)
+      );
+    });
+
+    it('should guard dropping a column as a destructive ALTER', async () => {
+      setupWithDriverMock('dropColumn', { success: true });
+
+      const handler = getHandler('schema:dropColumn');
+      await handler({}, 'conn-1', { table: 'orders', columnName: 'total' });
+
+      expect(withGuardrails).toHaveBeenCalledWith(
+        'conn-1',
+        [{ type: StatementType.Alter, destructive: true, keyword: 'ALTER', sql: 'ALTER TABLE orders DROP COLUMN total' }],
+        expect.any(Function)
+      );
+    });
+
+    it('should guard each kind of change in a changeset once', async () => {
+      setupWithDriverMock('applyChangeset', { success: true, results: [] });
+
+      const handler = getHandler('schema:applyChangeset');
+      await handler({}, 'conn-1', {
+        table: 'users',
+        changes: [
+          { type: 'update', where: { id: 1 }, values: { name: 'Bob' } },
+          { type: 'update', where: { id: 2 }, values: { name: 'Ann' } },
+          { type: 'delete', where: { id: 3 } },
+        ],
+      });
+
+      const statements = vi.mocked(withGuardrails).mock.calls[0][1];
+      expect(statements.map((s) => s.type)).toEqual([StatementType.Update, StatementType.Delete]);
+      expect(statements.every((s) => !s.destructive)).toBe(true);
+    });
+
+    it('should return the refusal without calling the driver', async () => {
+      const methodMock = setupWithDriverMock('dropTable', { success: true });
+      vi.mocked(withGuardrails).mockResolvedValueOnce({ success: false, error: 'Destructive statement canceled' });
+
+      const handler = getHandler('schema:dropTable');
+      const result = await handler({}, 'conn-1', { table: 'orders' });
+
+      expect(methodMock).not.toHaveBeenCalled();
+      expect(result).toEqual({ success: false, error: 'Destructive statement canceled' });
+    });
+
+    it('should guard MySQL partition drops', async () => {
+      setupWithMySQLDriverMock('dropPartition', { success: true });
+
+      const handler = getHandler('schema:dropPartition');
+      await handler({}, 'conn-1', 'logs', 'p2023');
+
+      expect(withGuardrails).toHaveBeenCalledWith(
+        'conn-1',
+        [expect.objectContaining({ type: StatementType.Alter, destructive: true })],
+        expect.any(Function)
+      );
+    });
+  });
+
   describe('schema:renameTable', () => {
     it('should call driver.renameTable with the request', async () => {
       const request = { oldName: 'users', newName: 'app_users' };
@@ -392,6 +469,22 @@ describe('registerSchemaEditHandlers', () => {
     });
   });
 
+  describe('schema:applyChangeset', () => {
+    it('should call driver.applyChangeset with the request', async () => {
+      const request = {
+        table: 'users',
+        changes: [{ type: 'update', where: { id: 1 }, values: { name: 'Bob' } }],
+      };
+      const methodMock = setupWithDriverMock('applyChangeset', { success: true, results: [] });
+
+      const handler = getHandler('schema:applyChangeset');
+      const result = await handler({}, 'conn-1', request);
+
+      expect(methodMock).toHaveBeenCalledWith(request);
+      expect(result).toEqual({ success: true, results: [] });
+    });
+  });
+
   // Metadata operations
   describe('schema:getDataTypes', () => {
     it('should call driver.getDataTypes', async () => {
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: vi.fn(),
+  },
+}));
+
+vi.mock('../../../main/db/manager', () => ({
+  connectionManager: {
+    getConnection: vi.fn(),
+    beginTransaction: vi.fn(),
+    commitTransaction: vi.fn(),
+    rollbackTransaction: vi.fn(),
+    getTransactionConnectionId: vi.fn(() => 'conn-1'),
+    getConfig: vi.fn(() => ({ id: 'conn-1' })),
+  },
+}));
+
+vi.mock('../../../main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../main/utils/serialize', () => ({
+  toPlainObject: vi.fn(<T>(obj: T): T => JSON.parse(JSON.stringify(obj))),
+}));
+
+vi.mock('../../../main/ipc/helpers', () => ({
+  withDriver: vi.fn(),
+  withTransactionSession: vi.fn(),
+}));
+
+vi.mock('../../../main/services/queryLimits', () => ({
+  queryLimitsService: {
+    resolve: vi.fn(() => ({ maxRows: 500, timeout: 0 })),
+    getDefaults: vi.fn(() => ({ maxRows: 10000, timeout: 0 })),
+    setDefaults: vi.fn((limits: unknown) => limits),
+  },
+}));
+
+vi.mock('../../../main/services/guardrails', () => ({
+  enforceGuardrails: vi.fn(),
+  classifyStatement: vi.fn((sql: string) => ({ type: 'select', destructive: false, sql })),
+  GuardrailError: class GuardrailError extends Error {},
+}));
+
+import { ipcMain } from 'electron';
+import { connectionManager } from '../../../main/db/manager';
+import { withTransactionSession } from '../../../main/ipc/helpers';
+import { toPlainObject } from '../../../main/utils/serialize';
+import { registerTransactionHandlers } from '../../../main/ipc/transaction';
+import { enforceGuardrails, GuardrailError } from '../../../main/services/guardrails';
+import type { DatabaseDriver } from '../../../main/db/base';
+import { ScriptErrorMode, ScriptStatementStatus, type MultiQueryResult } from '../../../main/types';
+
+const getHandler = (channel: string): ((...args: unknown[]) => unknown) => {
+  const calls = vi.mocked(ipcMain.handle).mock.calls;
+  const match = calls.find((c) => c[0] === channel);
+  if (!match) {
+    throw new Error(`No handler registered for channel: ${channel}`);
+  }
+  return match[1] as (...args: unknown[]) => unknown;
+};
+
+const mockSession = (executeMock: ReturnType<typeof vi.fn>) => {
+  vi.mocked(withTransactionSession).mockImplementation(async (_id, fn) => {
+    return fn({ execute: executeMock } as unknown as DatabaseDriver);
+  });
+};
+
+describe('registerTransactionHandlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registerTransactionHandlers();
+  });
+
+  it('should register all expected IPC handlers', () => {
+    const registeredChannels = vi.mocked(ipcMain.handle).mock.calls.map((c) => c[0]);
+    expect(registeredChannels).toContain('transaction:begin');
+    expect(registeredChannels).toContain('transaction:execute');
+    expect(registeredChannels).toContain('transaction:executeMultiple');
+    expect(registeredChannels).toContain('transaction:commit');
+    expect(registeredChannels).toContain('transaction:rollback');
+  });
+
+  describe('transaction:begin', () => {
+    it('should open a transaction session for the tab', async () => {
+      vi.mocked(connectionManager.beginTransaction).mockResolvedValue(undefined);
+
+      const handler = getHandler('transaction:begin');
+      const result = await handler({}, 'conn-1', 'tab-1');
+
+      expect(connectionManager.beginTransaction).toHaveBeenCalledWith('conn-1', 'tab-1');
+      expect(result).toBe(true);
+    });
+
+    it('should propagate errors from the manager', async () => {
+      vi.mocked(connectionManager.beginTransaction).mockRejectedValue(new Error('Not connected to database'));
+
+      const handler = getHandler('transaction:begin');
+
+      await expect(handler({}, 'conn-1', 'tab-1')).rejects.toThrow('Not connected to database');
+    });
+  });
+
+  describe('transaction:execute', () => {
+    it('should run the SQL on the session driver', async () => {
+      const mockResult = { columns: [], rows: [], rowCount: 0, affectedRows: 3, executionTime: 4 };
+      const executeMock = vi.fn().mockResolvedValue(mockResult);
+      mockSession(executeMock);
+
+      const handler = getHandler('transaction:execute');
+      const result = await handler({}, 'tab-1', 'UPDATE t SET a = ?', [1]);
+
+      expect(withTransactionSession).toHaveBeenCalledWith('tab-1', expect.any(Function));
+      expect(executeMock).toHaveBeenCalledWith('UPDATE t SET a = ?', [1], { maxRows: 500, timeout: 0 });
+      expect(toPlainObject).toHaveBeenCalledWith(mockResult);
+      expect(result).toEqual(mockResult);
+    });
+  });
+
+  describe('guardrails', () => {
+    it('should apply the guardrails of the connection that owns the session', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      mockSession(executeMock);
+
+      const handler = getHandler('transaction:execute');
+      await handler({}, 'tab-1', 'DELETE FROM a');
+
+      expect(connectionManager.getTransactionConnectionId).toHaveBeenCalledWith('tab-1');
+      expect(enforceGuardrails).toHaveBeenCalledWith('conn-1', [expect.objectContaining({ sql: 'DELETE FROM a' })]);
+    });
+
+    it('should not run a refused statement in the transaction', async () => {
+      vi.mocked(enforceGuardrails).mockRejectedValueOnce(new GuardrailError('Destructive statement canceled'));
+      const executeMock = vi.fn();
+      mockSession(executeMock);
+
+      const handler = getHandler('transaction:executeMultiple');
+      const result = (await handler({}, 'tab-1', 'DELETE FROM a; DELETE FROM b')) as { results: { error?: string }[] };
+
+      expect(executeMock).not.toHaveBeenCalled();
+      expect(result.results).toEqual([expect.objectContaining({ error: 'Destructive statement canceled' })]);
+    });
+  });
+
+  describe('transaction:executeMultiple', () => {
+    it('should split SQL and run each statement on the session driver', async () => {
+      const executeMock = vi.fn().mockResolvedValue({ columns: [], rows: [], rowCount: 0, executionTime: 1 });
+      mockSession(executeMock);
+
+      const handler = getHandler('transaction:executeMultiple');
+      const result = (await handler({}, 'tab-1', 'DELETE FROM a; DELETE FROM b')) as { results: unknown[] };
+
+      expect(executeMock).toHaveBeenCalledTimes(2);
+      expect(executeMock).toHaveBeenCalledWith('DELETE FROM a', undefined, { maxRows: 500, timeout: 0 });
+      expect(executeMock).toHaveBeenCalledWith('DELETE FROM b', undefined, { maxRows: 500, timeout: 0 });
+      expect(result.results).toHaveLength(2);
+    });
+
+    it('should undo a failed script back to a savepoint in rollback mode', async () => {
+      const executeMock = vi.fn(async (sql: string) =>
+        sql === 'DELETE FROM b'
+          ? { columns: [], rows: [], rowCount: 0, executionTime: 1, error: 'permission denied' }
+          : { columns: [], rows: [], rowCount: 0, executionTime: 1 }
+      );
+      mockSession(executeMock);
+
+      const handler = getHandler('transaction:executeMultiple');
+      const result = (await handler({}, 'tab-1', 'DELETE FROM a; DELETE FROM b', ScriptErrorMode.Rollback)) as MultiQueryResult;
+
+      expect(executeMock.mock.calls.map((c) => c[0])).toEqual([
+        'SAVEPOINT zequel_script',
+        'DELETE FROM a',
+        'DELETE FROM b',
+        'ROLLBACK TO SAVEPOINT zequel_script',
+        'RELEASE SAVEPOINT zequel_script',
+      ]);
+      expect(result.rolledBack).toBe(true);
+      expect(result.results[0].statement?.status).toBe(ScriptStatementStatus.RolledBack);
+    });
+  });
+
+  describe('transaction:commit', () => {
+    it('should commit the session', async () => {
+      vi.mocked(connectionManager.commitTransaction).mockResolvedValue(undefined);
+
+      const handler = getHandler('transaction:commit');
+      const result = await handler({}, 'tab-1');
+
+      expect(connectionManager.commitTransaction).toHaveBeenCalledWith('tab-1');
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('transaction:rollback', () => {
+    it('should roll back the session', async () => {
+      vi.mocked(connectionManager.rollbackTransaction).mockResolvedValue(undefined);
+
+      const handler = getHandler('transaction:rollback');
+      const result = await handler({}, 'tab-1');
+
+      expect(connectionManager.rollbackTransaction).toHaveBeenCalledWith('tab-1');
+      expect(result).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockIpcHandle, mockWithDetachedSession, mockEnforceGuardrails, mockRunTransfer } = vi.hoisted(() => ({
+  mockIpcHandle: vi.fn(),
+  mockWithDetachedSession: vi.fn(),
+  mockEnforceGuardrails: vi.fn(),
+  mockRunTransfer: vi.fn(),
+}));
+
+vi.mock('electron', () => ({
+  ipcMain: {
+    handle: mockIpcHandle,
+  },
+  BrowserWindow: {
+    getAllWindows: () => [],
+  },
+}));
+
+vi.mock('@main/ipc/helpers', () => ({
+  withDetachedSession: mockWithDetachedSession,
+  useSessionSchema: vi.fn(),
+}));
+
+vi.mock('@main/services/guardrails', () => ({
+  enforceGuardrails: mockEnforceGuardrails,
+  guardedOperation: (type: string, sql: string, destructive = type === 'drop') => ({ type, destructive, sql }),
+}));
+
+vi.mock('@main/services/transfer', async () => {
+  const actual = await vi.importActual<typeof import('@main/services/transfer')>('@main/services/transfer');
+  return {
+    ...actual,
+    runTransfer: mockRunTransfer,
+  };
+});
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { registerTransferHandlers } from '@main/ipc/transfer';
+import { TransferConflictMode, type TransferOptions, type TransferTablePlan } from '@main/services/transfer';
+
+const getHandler = (channel: string): ((_: unknown, ...args: unknown[]) => Promise<unknown>) => {
+  const call = mockIpcHandle.mock.calls.find((c: [string, unknown]) => c[0] === channel);
+  if (!call) throw new Error(`Handler not found for channel: ${channel}`);
+  return call[1] as (_: unknown, ...args: unknown[]) => Promise<unknown>;
+};
+
+const table = (targetTable: string, createTable: boolean): TransferTablePlan => ({
+  sourceTable: targetTable,
+  targetTable,
+  targetExists: !createTable,
+  createTable,
+  totalRows: 10,
+  columns: [],
+});
+
+const options = (conflictMode: TransferConflictMode): TransferOptions => ({
+  transferId: 'transfer-1',
+  source: { connectionId: 'source', database: 'app' },
+  target: { connectionId: 'target', database: 'archive' },
+  tables: [table('orders', false), table('customers', true)],
+  conflictMode,
+});
+
+describe('transfer:start', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIpcHandle.mockReset();
+    registerTransferHandlers();
+    mockWithDetachedSession.mockImplementation(async (_id: string, _db: string, fn: (d: unknown) => unknown) => fn({}));
+    mockRunTransfer.mockResolvedValue({ success: true, tables: [] });
+  });
+
+  it('should guard the target with the creates and inserts the transfer runs', async () => {
+    await getHandler('transfer:start')({}, options(TransferConflictMode.Skip));
+
+    expect(mockEnforceGuardrails).toHaveBeenCalledWith('target', [
+      { type: 'insert', destructive: false, sql: 'INSERT INTO orders' },
+      { type: 'create', destructive: false, sql: 'CREATE TABLE customers' },
+      { type: 'insert', destructive: false, sql: 'INSERT INTO customers' },
+    ]);
+    expect(mockRunTransfer).toHaveBeenCalled();
+  });
+
+  it('should guard the keyed updates of replace mode', async () => {
+    await getHandler('transfer:start')({}, { ...options(TransferConflictMode.Replace), tables: [table('orders', false)] });
+
+    expect(mockEnforceGuardrails).toHaveBeenCalledWith('target', [
+      { type: 'insert', destructive: false, sql: 'INSERT INTO orders' },
+      { type: 'update', destructive: false, sql: 'UPDATE orders WHERE <primary key>' },
+    ]);
+  });
+
+  it('should return the refusal without opening sessions', async () => {
+    mockEnforceGuardrails.mockRejectedValueOnce(new Error('INSERT is not allowed on a read-only connection'));
+
+    const result = await getHandler('transfer:start')({}, options(TransferConflictMode.Skip));
+
+    expect(result).toEqual({ success: false, error: 'INSERT is not allowed on a read-only connection', tables: [] });
+    expect(mockWithDetachedSession).not.toHaveBeenCalled();
+    expect(mockRunTransfer).not.toHaveBeenCalled();
+  });
+});
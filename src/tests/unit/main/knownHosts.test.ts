@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+
+const mockShowMessageBox = vi.fn();
+const mockReadFile = vi.fn();
+const knownHosts = new Map<string, string>();
+
+vi.mock('electron', () => ({
+  dialog: {
+    showMessageBox: (...args: unknown[]) => mockShowMessageBox(...args),
+  },
+  BrowserWindow: {
+    getFocusedWindow: () => null,
+    getAllWindows: () => [],
+  },
+}));
+
+vi.mock('fs/promises', () => ({
+  readFile: (...args: unknown[]) => mockReadFile(...args),
+}));
+
+vi.mock('@main/services/database', () => ({
+  appDatabase: {
+    getDatabase: () => ({
+      prepare: (sql: string) => ({
+        get: (host: string, port: number, keyType: string) => {
+          const fingerprint = knownHosts.get(`${host}:${port}:${keyType}`);
+          return fingerprint ? { key_type: keyType, fingerprint } : undefined;
+        },
+        run: (host: string, port: number, keyType: string, fingerprint: string) => {
+          if (sql.includes('INSERT INTO ssh_known_hosts')) knownHosts.set(`${host}:${port}:${keyType}`, fingerprint);
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  fingerprintHostKey,
+  hostKeyType,
+  HostKeyError,
+  HostKeyStatus,
+  knownHostsService,
+  verifyHostKey,
+} from '@main/services/knownHosts';
+
+// A public key blob: length-prefixed key type followed by length-prefixed key data
+const makeKey = (type: string, fill: number): Buffer => {
+  const typeBuffer = Buffer.from(type);
+  const data = Buffer.alloc(32, fill);
+  const header = Buffer.alloc(4);
+  header.writeUInt32BE(typeBuffer.length);
+  const dataHeader = Buffer.alloc(4);
+  dataHeader.writeUInt32BE(data.length);
+  return Buffer.concat([header, typeBuffer, dataHeader, data]);
+};
+
+const serverKey = makeKey('ssh-ed25519', 1);
+const otherKey = makeKey('ssh-ed25519', 2);
+
+describe('host key helpers', () => {
+  it('should read the key type from the blob', () => {
+    expect(hostKeyType(serverKey)).toBe('ssh-ed25519');
+  });
+
+  it('should fingerprint like ssh-keygen', () => {
+    expect(fingerprintHostKey(serverKey)).toMatch(/^SHA256:[A-Za-z0-9+/]{43}$/);
+    expect(fingerprintHostKey(serverKey)).not.toBe(fingerprintHostKey(otherKey));
+  });
+});
+
+describe('KnownHostsService.check', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    knownHosts.clear();
+    mockReadFile.mockRejectedValue(new Error('ENOENT'));
+  });
+
+  it('should report hosts that were never seen as unknown', async () => {
+    const result = await knownHostsService.check('bastion', 22, serverKey);
+
+    expect(result.status).toBe(HostKeyStatus.Unknown);
+    expect(result.keyType).toBe('ssh-ed25519');
+  });
+
+  it('should trust keys listed in ~/.ssh/known_hosts, including hashed entries', async () => {
+    const salt = Buffer.from('salt-salt-salt-salt!');
+    const hash = createHmac('sha1', salt).update('[db.internal]:2222').digest('base64');
+    mockReadFile.mockResolvedValue([
+      '# comment',
+      `bastion,10.0.0.1 ssh-ed25519 ${serverKey.toString('base64')}`,
+      `|1|${salt.toString('base64')}|${hash} ssh-ed25519 ${serverKey.toString('base64')}`,
+    ].join('\n'));
+
+    expect((await knownHostsService.check('10.0.0.1', 22, serverKey)).status).toBe(HostKeyStatus.Trusted);
+    expect((await knownHostsService.check('db.internal', 2222, serverKey)).status).toBe(HostKeyStatus.Trusted);
+    expect((await knownHostsService.check('db.internal', 22, serverKey)).status).toBe(HostKeyStatus.Unknown);
+  });
+
+  it('should report a mismatch with ~/.ssh/known_hosts', async () => {
+    mockReadFile.mockResolvedValue(`bastion ssh-ed25519 ${otherKey.toString('base64')}\n`);
+
+    expect((await knownHostsService.check('bastion', 22, serverKey)).status).toBe(HostKeyStatus.Mismatch);
+  });
+
+  it('should report the mismatch even for a key trusted in the app', async () => {
+    mockReadFile.mockResolvedValue(`bastion ssh-ed25519 ${otherKey.toString('base64')}\n`);
+    knownHostsService.trust('bastion', 22, 'ssh-ed25519', fingerprintHostKey(serverKey));
+
+    expect((await knownHostsService.check('bastion', 22, serverKey)).status).toBe(HostKeyStatus.Mismatch);
+  });
+
+  it('should compare against keys trusted in the app', async () => {
+    knownHostsService.trust('bastion', 22, 'ssh-ed25519', fingerprintHostKey(serverKey));
+
+    expect((await knownHostsService.check('bastion', 22, serverKey)).status).toBe(HostKeyStatus.Trusted);
+    expect((await knownHostsService.check('bastion', 22, otherKey)).status).toBe(HostKeyStatus.Changed);
+    expect((await knownHostsService.check('bastion', 2222, serverKey)).status).toBe(HostKeyStatus.Unknown);
+  });
+});
+
+describe('verifyHostKey', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    knownHosts.clear();
+    mockReadFile.mockRejectedValue(new Error('ENOENT'));
+  });
+
+  it('should trust an unknown host on first use once accepted', async () => {
+    mockShowMessageBox.mockResolvedValue({ response: 1 });
+
+    await verifyHostKey('bastion', 22, serverKey);
+
+    expect(mockShowMessageBox).toHaveBeenCalledWith(expect.objectContaining({
+      message: "The authenticity of bastion:22 can't be established.",
+    }));
+    expect(knownHosts.get('bastion:22:ssh-ed25519')).toBe(fingerprintHostKey(serverKey));
+
+    // The second connection does not ask again
+    mockShowMessageBox.mockClear();
+    await verifyHostKey('bastion', 22, serverKey);
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an unknown host the user does not trust', async () => {
+    mockShowMessageBox.mockResolvedValue({ response: 0 });
+
+    await expect(verifyHostKey('bastion', 22, serverKey)).rejects.toThrow(HostKeyError);
+    expect(knownHosts.size).toBe(0);
+  });
+
+  it('should ask before replacing a changed key', async () => {
+    knownHostsService.trust('bastion', 22, 'ssh-ed25519', fingerprintHostKey(otherKey));
+    mockShowMessageBox.mockResolvedValue({ response: 0 });
+
+    await expect(verifyHostKey('bastion', 22, serverKey)).rejects.toThrow('Host key of bastion:22 has changed; connection refused');
+    expect(mockShowMessageBox).toHaveBeenCalledWith(expect.objectContaining({ title: 'SSH Host Key Changed' }));
+    expect(knownHosts.get('bastion:22:ssh-ed25519')).toBe(fingerprintHostKey(otherKey));
+  });
+
+  it('should refuse keys contradicting ~/.ssh/known_hosts without asking', async () => {
+    mockReadFile.mockResolvedValue(`bastion ssh-ed25519 ${otherKey.toString('base64')}\n`);
+
+    await expect(verifyHostKey('bastion', 22, serverKey)).rejects.toThrow('does not match ~/.ssh/known_hosts');
+    expect(mockShowMessageBox).not.toHaveBeenCalled();
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { DatabaseType, DEFAULT_PORTS } from '@main/types';
 import type { ConnectionConfig, SSHConfig } from '@main/types';
-import type { DatabaseDriver, TestConnectionResult } from '@main/db/base';
+import type { DatabaseDriver, QueryCursor, TestConnectionResult } from '@main/db/base';
 
 // ── Mock: logger ───────────────────────────────────────────────────────────
 vi.mock('@main/utils/logger', () => ({
@@ -52,6 +52,7 @@ const createMockDriver = (overrides?: Partial<DatabaseDriver>): DatabaseDriver =
   disconnect: vi.fn().mockResolvedValue(undefined),
   testConnection: vi.fn().mockResolvedValue({ success: true, error: null }),
   execute: vi.fn(),
+  openCursor: vi.fn(),
   getDatabases: vi.fn(),
   getTables: vi.fn(),
   getColumns: vi.fn(),
@@ -406,6 +407,17 @@ describe('ConnectionManager', () => {
 
       expect(driver.ping).not.toHaveBeenCalled();
     });
+
+    it('should tell the disconnect listeners', async () => {
+      const listener = vi.fn();
+      manager.onDisconnect(listener);
+      const config = makeConfig();
+      await manager.connect(config);
+
+      await manager.disconnect(config.id);
+
+      expect(listener).toHaveBeenCalledWith(config.id);
+    });
   });
 
   // ── disconnectAll ──────────────────────────────────────────────────────
@@ -466,6 +478,274 @@ describe('ConnectionManager', () => {
     });
   });
 
+  // ── transaction sessions ───────────────────────────────────────────────
+  describe('transaction sessions', () => {
+    const okResult = { columns: [], rows: [], rowCount: 0, executionTime: 1 };
+
+    const mockSessionDriver = (type: DatabaseType = DatabaseType.PostgreSQL) => {
+      const sessionDriver = createMockDriver({
+        type,
+        execute: vi.fn().mockResolvedValue(okResult),
+      });
+      return sessionDriver;
+    };
+
+    it('should open a dedicated session and run BEGIN on it', async () => {
+      const config = makeConfig();
+      const sharedDriver = await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      expect(sessionDriver).not.toBe(sharedDriver);
+      expect(sessionDriver.connect).toHaveBeenCalledWith(expect.objectContaining({ id: config.id }));
+      expect(sessionDriver.execute).toHaveBeenCalledWith('BEGIN');
+      expect(manager.getTransactionSession('tab-1')).toBe(sessionDriver);
+      expect(manager.hasOpenTransactions(config.id)).toBe(true);
+    });
+
+    it('should use START TRANSACTION for MySQL', async () => {
+      const config = makeConfig({ type: DatabaseType.MySQL });
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver(DatabaseType.MySQL);
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      expect(sessionDriver.execute).toHaveBeenCalledWith('START TRANSACTION');
+    });
+
+    it('should connect the session through the SSH tunnel', async () => {
+      const config = makeConfig({ ssh: makeSSHConfig() });
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      expect(sessionDriver.connect).toHaveBeenCalledWith(
+        expect.objectContaining({ host: '127.0.0.1', port: 44444 })
+      );
+    });
+
+    it('should throw when the connection is not open', async () => {
+      await expect(manager.beginTransaction('nonexistent', 'tab-1')).rejects.toThrow(
+        'Not connected to database'
+      );
+    });
+
+    it('should throw for engines without manual transactions', async () => {
+      const config = makeConfig({ type: DatabaseType.Redis });
+      await manager.connect(config);
+
+      await expect(manager.beginTransaction(config.id, 'tab-1')).rejects.toThrow(
+        'Manual transactions are not supported for redis connections'
+      );
+    });
+
+    it('should reject a second transaction for the same session', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      vi.spyOn(manager, 'createDriver').mockReturnValue(mockSessionDriver());
+
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      await expect(manager.beginTransaction(config.id, 'tab-1')).rejects.toThrow(
+        'A transaction is already open for this session'
+      );
+    });
+
+    it('should close the session when BEGIN fails', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = createMockDriver({
+        execute: vi.fn().mockResolvedValue({ ...okResult, error: 'permission denied' }),
+      });
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+
+      await expect(manager.beginTransaction(config.id, 'tab-1')).rejects.toThrow('permission denied');
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(manager.getTransactionSession('tab-1')).toBeUndefined();
+    });
+
+    it('should COMMIT and close the session', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      await manager.commitTransaction('tab-1');
+
+      expect(sessionDriver.execute).toHaveBeenLastCalledWith('COMMIT');
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(manager.getTransactionSession('tab-1')).toBeUndefined();
+      expect(manager.hasOpenTransactions(config.id)).toBe(false);
+    });
+
+    it('should ROLLBACK and close the session', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      await manager.rollbackTransaction('tab-1');
+
+      expect(sessionDriver.execute).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(manager.getTransactionSession('tab-1')).toBeUndefined();
+    });
+
+    it('should close the session even when COMMIT fails', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+      await manager.beginTransaction(config.id, 'tab-1');
+      (sessionDriver.execute as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+        ...okResult,
+        error: 'deferred constraint violated',
+      });
+
+      await expect(manager.commitTransaction('tab-1')).rejects.toThrow('deferred constraint violated');
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(manager.getTransactionSession('tab-1')).toBeUndefined();
+    });
+
+    it('should throw when committing an unknown session', async () => {
+      await expect(manager.commitTransaction('nope')).rejects.toThrow(
+        'No open transaction for this session'
+      );
+    });
+
+    it('should discard open sessions when the connection is disconnected', async () => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      await manager.disconnect(config.id);
+
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(manager.getTransactionSession('tab-1')).toBeUndefined();
+      expect(manager.hasOpenTransactions(config.id)).toBe(false);
+    });
+  });
+
+  // ── cursor sessions ────────────────────────────────────────────────────
+  describe('cursor sessions', () => {
+    const limits = { maxRows: 2, timeout: 0 };
+    const firstBatch = { columns: [], rows: [{ id: 1 }, { id: 2 }], rowCount: 2, executionTime: 1, truncated: true };
+
+    const mockCursor = () => ({
+      read: vi.fn().mockResolvedValue({ rows: [{ id: 3 }, { id: 4 }], hasMore: true }),
+      close: vi.fn().mockResolvedValue(undefined),
+    });
+
+    const openCursorSession = async (cursor: ReturnType<typeof mockCursor> | null = mockCursor()) => {
+      const config = makeConfig();
+      await manager.connect(config);
+      const sessionDriver = createMockDriver({
+        openCursor: vi.fn().mockResolvedValue({ result: firstBatch, cursor: cursor as unknown as QueryCursor }),
+        cancelQuery: vi.fn().mockResolvedValue(true),
+      });
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+      const result = await manager.openCursor(config.id, 'SELECT id FROM users', undefined, limits, 'analytics');
+      return { config, sessionDriver, cursor, result };
+    };
+
+    it('should read the first batch on a session of its own and keep the cursor', async () => {
+      const { sessionDriver, result } = await openCursorSession();
+
+      expect(sessionDriver.connect).toHaveBeenCalledWith(expect.objectContaining({ database: 'analytics' }));
+      expect(sessionDriver.openCursor).toHaveBeenCalledWith('SELECT id FROM users', undefined, limits);
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.cursorId).toEqual(expect.any(String));
+      expect(sessionDriver.disconnect).not.toHaveBeenCalled();
+    });
+
+    it('should close the session right away when no rows are left', async () => {
+      const { sessionDriver, result } = await openCursorSession(null);
+
+      expect(result.cursorId).toBeUndefined();
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+    });
+
+    it('should fetch batches as large as the row limit', async () => {
+      const { cursor, result } = await openCursorSession();
+
+      const batch = await manager.fetchCursor(result.cursorId!);
+
+      expect(cursor!.read).toHaveBeenCalledWith(2);
+      expect(batch).toEqual({ rows: [{ id: 3 }, { id: 4 }], hasMore: true });
+    });
+
+    it('should page through the cursor it opened without running the read again', async () => {
+      const { cursor, sessionDriver, result } = await openCursorSession();
+
+      await manager.fetchCursor(result.cursorId!);
+      await manager.fetchCursor(result.cursorId!);
+
+      expect(sessionDriver.openCursor).toHaveBeenCalledTimes(1);
+      expect(cursor!.read).toHaveBeenCalledTimes(2);
+    });
+
+    it('should close the session after the last batch', async () => {
+      const { cursor, sessionDriver, result } = await openCursorSession();
+      cursor!.read.mockResolvedValueOnce({ rows: [{ id: 3 }], hasMore: false });
+
+      await manager.fetchCursor(result.cursorId!);
+
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      await expect(manager.fetchCursor(result.cursorId!)).rejects.toThrow('The cursor is closed');
+    });
+
+    it('should close the session when a fetch fails', async () => {
+      const { cursor, sessionDriver, result } = await openCursorSession();
+      cursor!.read.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(manager.fetchCursor(result.cursorId!)).rejects.toThrow('connection reset');
+      expect(cursor!.close).toHaveBeenCalled();
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+    });
+
+    it('should close the cursor and its session on request', async () => {
+      const { cursor, sessionDriver, result } = await openCursorSession();
+
+      expect(await manager.closeCursor(result.cursorId!)).toBe(true);
+      expect(cursor!.close).toHaveBeenCalled();
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+      expect(await manager.closeCursor(result.cursorId!)).toBe(false);
+    });
+
+    it('should close a cursor nobody fetched from for ten minutes', async () => {
+      const { sessionDriver } = await openCursorSession();
+
+      await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+    });
+
+    it('should cancel reads running on the connection cursor sessions', async () => {
+      const { config, sessionDriver } = await openCursorSession();
+
+      expect(await manager.cancelCursorQueries(config.id)).toBe(true);
+      expect(sessionDriver.cancelQuery).toHaveBeenCalled();
+      expect(await manager.cancelCursorQueries('other')).toBe(false);
+    });
+
+    it('should close cursors when the connection is disconnected', async () => {
+      const { config, sessionDriver } = await openCursorSession();
+
+      await manager.disconnect(config.id);
+
+      expect(sessionDriver.disconnect).toHaveBeenCalled();
+    });
+  });
+
   // ── testConnection ─────────────────────────────────────────────────────
   describe('testConnection', () => {
     it('should test connection without SSH and return success', async () => {
@@ -733,6 +1013,80 @@ describe('ConnectionManager', () => {
     });
   });
 
+  // ── session settings ──────────────────────────────────────────────────
+  describe('session settings', () => {
+    const okResult = { columns: [], rows: [], rowCount: 0, executionTime: 1 };
+    const session = { timezone: 'UTC', initScript: 'SET search_path TO app, public;' };
+
+    const mockSessionDriver = (error?: string) =>
+      createMockDriver({ execute: vi.fn().mockResolvedValue({ ...okResult, error }) });
+
+    it('should apply the session settings after connecting', async () => {
+      const driver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(driver);
+
+      await manager.connect(makeConfig({ session }));
+
+      expect(vi.mocked(driver.execute).mock.calls.map(([sql]) => sql)).toEqual([
+        "SET TIME ZONE 'UTC'",
+        'SET search_path TO app, public',
+      ]);
+    });
+
+    it('should replay the session settings on reconnect', async () => {
+      const config = makeConfig({ session });
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(mockSessionDriver());
+      await manager.connect(config);
+      const reconnected = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(reconnected);
+
+      await expect(manager.reconnect(config.id)).resolves.toBe(true);
+
+      expect(reconnected.execute).toHaveBeenCalledWith('SET search_path TO app, public');
+      expect(manager.getConnection(config.id)).toBe(reconnected);
+    });
+
+    it('should apply the session settings before BEGIN on transaction sessions', async () => {
+      const config = makeConfig({ session });
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(mockSessionDriver());
+      await manager.connect(config);
+      const sessionDriver = mockSessionDriver();
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(sessionDriver);
+
+      await manager.beginTransaction(config.id, 'tab-1');
+
+      expect(vi.mocked(sessionDriver.execute).mock.calls.map(([sql]) => sql)).toEqual([
+        "SET TIME ZONE 'UTC'",
+        'SET search_path TO app, public',
+        'BEGIN',
+      ]);
+    });
+
+    it('should fail the connect and clean up when the init script fails', async () => {
+      const driver = mockSessionDriver('role "reporting" does not exist');
+      vi.spyOn(manager, 'createDriver').mockReturnValueOnce(driver);
+      mockHasTunnel.mockReturnValue(true);
+      const config = makeConfig({ ssh: makeSSHConfig(), session: { initScript: 'SET ROLE reporting' } });
+
+      await expect(manager.connect(config)).rejects.toThrow('Session setup failed at "SET ROLE reporting"');
+
+      expect(driver.disconnect).toHaveBeenCalled();
+      expect(mockCloseTunnel).toHaveBeenCalledWith(config.id);
+      expect(manager.getConnection(config.id)).toBeUndefined();
+    });
+
+    it('should report a failing init script when testing the connection', async () => {
+      vi.spyOn(manager, 'createDriver')
+        .mockReturnValueOnce(createMockDriver({ testConnection: vi.fn().mockResolvedValue({ success: true, error: null }) }))
+        .mockReturnValueOnce(mockSessionDriver('unknown time zone'));
+
+      const result = await manager.testConnection(makeConfig({ session: { timezone: 'Mars/Olympus' } }));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('unknown time zone');
+    });
+  });
+
   // ── health checks ─────────────────────────────────────────────────────
   describe('health checks', () => {
     it('should trigger reconnect when ping returns false', async () => {
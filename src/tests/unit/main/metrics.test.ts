@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockSend = vi.fn();
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: () => [{ webContents: { send: mockSend } }],
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  buildMetricsCsv,
+  computeMetricValues,
+  emitMetricSample,
+  MetricKind,
+  MetricsSampler,
+  MetricUnit,
+  type MetricReadings,
+  type MetricSampleEvent,
+  type MetricSpec,
+} from '@main/services/metrics';
+
+const specs: MetricSpec[] = [
+  { key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count, source: { kind: MetricKind.Gauge, field: 'threads' } },
+  { key: 'queries_per_sec', label: 'Queries', chart: 'Throughput', unit: MetricUnit.PerSecond, source: { kind: MetricKind.Rate, field: 'questions' } },
+  { key: 'hit_ratio', label: 'Hit ratio', chart: 'Cache', unit: MetricUnit.Percent, source: { kind: MetricKind.Ratio, part: 'hits', total: 'reads' } },
+];
+
+const at = (timestamp: number, readings: MetricReadings) => ({ timestamp, readings });
+
+describe('computeMetricValues', () => {
+  it('should only report gauges for the first reading', () => {
+    expect(computeMetricValues(specs, null, at(0, { threads: 4, questions: 100, hits: 90, reads: 100 }))).toEqual({
+      connections: 4,
+      queries_per_sec: null,
+      hit_ratio: null,
+    });
+  });
+
+  it('should turn counters into rates and ratios over the interval', () => {
+    const values = computeMetricValues(
+      specs,
+      at(0, { threads: 4, questions: 100, hits: 90, reads: 100 }),
+      at(5000, { threads: 6, questions: 150, hits: 135, reads: 150 })
+    );
+    expect(values).toEqual({ connections: 6, queries_per_sec: 10, hit_ratio: 90 });
+  });
+
+  it('should leave a value out when a counter was reset or nothing happened', () => {
+    const values = computeMetricValues(
+      specs,
+      at(0, { threads: 4, questions: 100, hits: 90, reads: 100 }),
+      at(5000, { threads: 1, questions: 3, hits: 90, reads: 100 })
+    );
+    expect(values).toEqual({ connections: 1, queries_per_sec: null, hit_ratio: null });
+  });
+
+  it('should report nothing for a failed reading', () => {
+    expect(computeMetricValues(specs, at(0, { threads: 4 }), null)).toEqual({
+      connections: null,
+      queries_per_sec: null,
+      hit_ratio: null,
+    });
+  });
+});
+
+describe('MetricsSampler', () => {
+  let events: MetricSampleEvent[];
+  let read: ReturnType<typeof vi.fn>;
+  let questions: number;
+  let sampler: MetricsSampler;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    events = [];
+    questions = 0;
+    read = vi.fn(async () => {
+      questions += 50;
+      return { threads: 2, questions, hits: 1, reads: 1 };
+    });
+    sampler = new MetricsSampler(
+      (connectionId) => (connectionId === 'conn-1' ? { metrics: specs, read } : undefined),
+      (event) => events.push(event),
+      5000,
+      20000
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should sample right away and then on every interval', async () => {
+    const history = sampler.start('conn-1');
+    expect(history.metrics.map((m) => m.key)).toEqual(['connections', 'queries_per_sec', 'hit_ratio']);
+    expect(history.metrics[0]).not.toHaveProperty('source');
+
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(events.map((e) => e.sample.values.queries_per_sec)).toEqual([null, 10]);
+    expect(sampler.getHistory('conn-1').samples).toHaveLength(2);
+  });
+
+  it('should share one sampler between subscribers and stop after the last leaves', async () => {
+    sampler.start('conn-1');
+    sampler.start('conn-1');
+    sampler.stop('conn-1');
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(read).toHaveBeenCalledTimes(2);
+
+    sampler.stop('conn-1');
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(read).toHaveBeenCalledTimes(2);
+    expect(sampler.getHistory('conn-1').samples).toHaveLength(2);
+  });
+
+  it('should not compute a rate across a pause', async () => {
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(0);
+    sampler.stop('conn-1');
+
+    await vi.advanceTimersByTimeAsync(60000);
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events.map((e) => e.sample.values.queries_per_sec)).toEqual([null, null]);
+  });
+
+  it('should drop samples older than the retention', async () => {
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(30000);
+
+    const samples = sampler.getHistory('conn-1').samples;
+    expect(samples[0].timestamp).toBe(10000);
+    expect(samples[samples.length - 1].timestamp).toBe(30000);
+  });
+
+  it('should record a gap when the server cannot be read', async () => {
+    read.mockRejectedValueOnce(new Error('Connection lost'));
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(events[0].sample.values).toEqual({ connections: null, queries_per_sec: null, hit_ratio: null });
+  });
+
+  it('should stop and forget a connection that was dropped', async () => {
+    sampler.start('conn-1');
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    sampler.drop('conn-1');
+    await vi.advanceTimersByTimeAsync(15000);
+
+    expect(read).toHaveBeenCalledTimes(1);
+    expect(sampler.getHistory('conn-1').samples).toEqual([]);
+  });
+
+  it('should drop a connection that closed while it was watched', async () => {
+    let open = true;
+    sampler = new MetricsSampler(
+      () => (open ? { metrics: specs, read } : undefined),
+      (event) => events.push(event),
+      5000,
+      20000
+    );
+    sampler.start('conn-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    open = false;
+    await vi.advanceTimersByTimeAsync(15000);
+
+    expect(events).toHaveLength(1);
+    expect(sampler.getHistory('conn-1').samples).toEqual([]);
+  });
+
+  it('should refuse a connection without metrics', () => {
+    expect(() => sampler.start('conn-2')).toThrow('Metrics are not available');
+  });
+});
+
+describe('emitMetricSample', () => {
+  it('should broadcast the sample to every window', () => {
+    const event = { connectionId: 'conn-1', sample: { timestamp: 0, values: {} } };
+    emitMetricSample(event);
+    expect(mockSend).toHaveBeenCalledWith('metrics:sample', event);
+  });
+});
+
+describe('buildMetricsCsv', () => {
+  it('should write one row per sample since the cutoff', () => {
+    const csv = buildMetricsCsv(
+      {
+        connectionId: 'conn-1',
+        intervalMs: 5000,
+        retentionMs: 60000,
+        metrics: specs.map(({ key, label, chart, unit }) => ({ key, label, chart, unit })),
+        samples: [
+          { timestamp: Date.UTC(2026, 0, 1, 0, 0, 0), values: { connections: 1, queries_per_sec: null, hit_ratio: null } },
+          { timestamp: Date.UTC(2026, 0, 1, 0, 0, 5), values: { connections: 2, queries_per_sec: 10.126, hit_ratio: 99.5 } },
+        ],
+      },
+      Date.UTC(2026, 0, 1, 0, 0, 1)
+    );
+
+    expect(csv).toBe('timestamp,connections,queries_per_sec,hit_ratio\n2026-01-01T00:00:05.000Z,2,10.13,99.5');
+  });
+});
@@ -69,6 +69,12 @@ const mockDb = vi.fn(() => ({
 
 const mockClientConnect = vi.fn();
 const mockClientClose = vi.fn();
+const mockWithTransaction = vi.fn(async (fn: () => Promise<void>) => fn());
+const mockEndSession = vi.fn();
+const mockStartSession = vi.fn(() => ({
+  withTransaction: mockWithTransaction,
+  endSession: mockEndSession
+}));
 const mockClientDb = mockDb;
 
 vi.mock('mongodb', () => {
@@ -86,6 +92,7 @@ vi.mock('mongodb', () => {
     connect = mockClientConnect;
     close = mockClientClose;
     db = mockClientDb;
+    startSession = mockStartSession;
   }
 
   return {
@@ -100,6 +107,7 @@ vi.mock('mongodb', () => {
 
 import { MongoDBDriver } from '@main/db/mongodb';
 import type { ConnectionConfig } from '@main/types';
+import { RowChangeType } from '@main/types/schema-operations';
 
 // ─── Helper ──────────────────────────────────────────────────────────────────
 
@@ -435,6 +443,40 @@ describe('MongoDBDriver', () => {
         expect(result.rows).toEqual([]);
         expect(result.columns).toEqual([]);
       });
+
+      it('should read one document past the row limit and flag the result as truncated', async () => {
+        await driver.connect(makeConfig());
+
+        const limitFn = vi.fn(() => ({
+          toArray: vi.fn().mockResolvedValueOnce([{ _id: 'a' }, { _id: 'b' }, { _id: 'c' }])
+        }));
+        mockFind.mockReturnValueOnce({ limit: limitFn });
+
+        const result = await driver.execute('db.users.find({})', undefined, { maxRows: 2, timeout: 5000 });
+
+        expect(mockFind).toHaveBeenCalledWith({}, { projection: {}, maxTimeMS: 5000 });
+        expect(limitFn).toHaveBeenCalledWith(3);
+        expect(result.rows).toHaveLength(2);
+        expect(result.truncated).toBe(true);
+      });
+
+      it('should page through the find cursor when opened as a cursor', async () => {
+        await driver.connect(makeConfig());
+
+        const docs = [{ _id: 'a', n: 1 }, { _id: 'b', n: 2 }, { _id: 'c', n: 3 }];
+        const next = vi.fn(async () => docs.shift() ?? null);
+        const close = vi.fn().mockResolvedValue(undefined);
+        mockFind.mockReturnValueOnce({ next, close });
+
+        const { result, cursor } = await driver.openCursor('db.users.find({})', undefined, { maxRows: 2, timeout: 0 });
+
+        expect(result.rows).toEqual([{ _id: 'a', n: 1 }, { _id: 'b', n: 2 }]);
+        expect(result.columns.map((c) => c.name)).toEqual(['_id', 'n']);
+        expect(result.truncated).toBe(true);
+
+        expect(await cursor!.read(2)).toEqual({ rows: [{ _id: 'c', n: 3 }], hasMore: false });
+        expect(close).toHaveBeenCalled();
+      });
     });
 
     describe('findOne', () => {
@@ -1038,6 +1080,61 @@ describe('MongoDBDriver', () => {
     });
   });
 
+  describe('applyChangeset', () => {
+    it('should apply all changes inside a session transaction', async () => {
+      await driver.connect(makeConfig());
+
+      mockDeleteOne.mockResolvedValueOnce({ deletedCount: 1 });
+      mockUpdateOne.mockResolvedValueOnce({ modifiedCount: 1 });
+      mockInsertOne.mockResolvedValueOnce({ acknowledged: true });
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { _id: 'abcdef1234567890abcdef12' } },
+          { type: RowChangeType.Update, where: { _id: 'abcdef1234567890abcdef13' }, values: { name: 'Bob' } },
+          { type: RowChangeType.Insert, values: { name: 'Carol' } }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results.map((r) => r.affectedRows)).toEqual([1, 1, 1]);
+      expect(mockWithTransaction).toHaveBeenCalledTimes(1);
+      const session = mockStartSession.mock.results[0].value;
+      expect(mockUpdateOne).toHaveBeenCalledWith(expect.anything(), { $set: { name: 'Bob' } }, { session });
+      expect(mockEndSession).toHaveBeenCalled();
+    });
+
+    it('should report the failing change and end the session', async () => {
+      await driver.connect(makeConfig());
+
+      mockInsertOne.mockRejectedValueOnce(new Error('Transaction numbers are only allowed on a replica set member'));
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [{ type: RowChangeType.Insert, values: { name: 'Carol' } }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.results[0]).toMatchObject({ index: 0, success: false });
+      expect(mockEndSession).toHaveBeenCalled();
+    });
+
+    it('should refuse to delete without identifying fields', async () => {
+      await driver.connect(makeConfig());
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [{ type: RowChangeType.Delete, where: {} }]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Cannot delete a document without identifying fields');
+      expect(mockDeleteOne).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── View operations ─────────────────────────────────────────────────
 
   describe('createView', () => {
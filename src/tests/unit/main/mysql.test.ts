@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DatabaseType, TableObjectType, RoutineType, EventStatus, SSLMode } from '@main/types';
-import { MYSQL_DATA_TYPES } from '@main/types/schema-operations';
+import { MYSQL_DATA_TYPES, RowChangeType } from '@main/types/schema-operations';
+import { EventEmitter } from 'events';
 
 // ── Mock logger ──
 vi.mock('@main/utils/logger', () => ({
@@ -166,6 +167,33 @@ describe('MySQLDriver', () => {
       );
     });
 
+    it('should stream one row past the limit, kill the query and flag the result as truncated', async () => {
+      const stream = new EventEmitter();
+      const coreQuery = vi.fn(() => stream);
+      const conn = { ...createMockConnection(), connection: { query: coreQuery, pause: vi.fn(), resume: vi.fn() } };
+      mockCreateConnection.mockResolvedValueOnce(conn);
+      await driver.connect(createConfig());
+
+      // The server interrupts the running query once it is killed
+      const killQuery = vi.fn(async () => {
+        stream.emit('error', new Error('Query execution was interrupted'));
+        return [];
+      });
+      mockCreateConnection.mockResolvedValueOnce({ query: killQuery, end: vi.fn().mockResolvedValue(undefined) });
+
+      const pending = driver.execute('SELECT id FROM users', undefined, { maxRows: 2, timeout: 0 });
+      stream.emit('fields', [{ name: 'id', type: 3, flags: 2 }]);
+      for (const id of [1, 2, 3, 4]) stream.emit('result', { id });
+      const result = await pending;
+
+      expect(coreQuery).toHaveBeenCalledWith('SELECT id FROM users');
+      expect(killQuery).toHaveBeenCalledWith('KILL QUERY 12345');
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.columns[0]).toEqual(expect.objectContaining({ name: 'id', type: 'INT' }));
+      expect(result.truncated).toBe(true);
+      expect(result.error).toBeUndefined();
+    });
+
     it('should return affectedRows for INSERT/UPDATE/DELETE', async () => {
       mockQuery.mockResolvedValueOnce([
         { affectedRows: 5 },
@@ -831,6 +859,51 @@ describe('MySQLDriver', () => {
     });
   });
 
+  describe('applyChangeset', () => {
+    it('should apply all changes inside a transaction', async () => {
+      await connectDriver(driver);
+      mockQuery.mockResolvedValue([{ affectedRows: 1 }, []]);
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Update, where: { id: 2 }, values: { name: 'Bob' } },
+          { type: RowChangeType.Insert, values: {} },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results.map((r) => r.sql)).toEqual([
+        'UPDATE `users` SET `name` = ? WHERE `id` = ?',
+        'INSERT INTO `users` () VALUES ()',
+      ]);
+      expect(mockQuery).toHaveBeenNthCalledWith(1, 'START TRANSACTION');
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should roll back when a change fails', async () => {
+      await connectDriver(driver);
+      mockQuery
+        .mockResolvedValueOnce([{}, []])
+        .mockResolvedValueOnce([{ affectedRows: 1 }, []])
+        .mockRejectedValueOnce(new Error('Duplicate entry'))
+        .mockResolvedValueOnce([{}, []]);
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { id: 1 } },
+          { type: RowChangeType.Insert, values: { id: 2 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.results[1]).toMatchObject({ index: 1, success: false, error: 'Duplicate entry' });
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
   // ─────────── View operations ───────────
   describe('createView', () => {
     it('should create a view', async () => {
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { DatabaseType, TableObjectType, RoutineType, SSLMode } from '@main/types';
-import { POSTGRESQL_DATA_TYPES } from '@main/types/schema-operations';
+import { DatabaseType, TableObjectType, RoutineType, SSLMode, SortDirection } from '@main/types';
+import { POSTGRESQL_DATA_TYPES, RowChangeType } from '@main/types/schema-operations';
 
 // ── Mock logger (uses electron, must be mocked before importing driver) ──
 vi.mock('@main/utils/logger', () => ({
@@ -26,6 +26,18 @@ vi.mock('pg', () => {
   return { Pool: MockPool };
 });
 
+// ── Mock pg-cursor ──
+const mockCursorRead = vi.fn();
+const mockCursorClose = vi.fn();
+
+vi.mock('pg-cursor', () => ({
+  default: class MockCursor {
+    read = mockCursorRead;
+    close = mockCursorClose;
+    constructor(public text: string, public values?: unknown[]) {}
+  },
+}));
+
 import { PostgreSQLDriver } from '@main/db/postgres';
 
 // ── Helpers ──
@@ -179,6 +191,139 @@ describe('PostgreSQLDriver', () => {
       expect(secondCall[1]).toEqual([1, 'Alice']);
     });
 
+    it('should leave question marks in strings, comments and jsonb operators alone', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ pid: 1 }] })
+        .mockResolvedValueOnce({ fields: [], rows: [], rowCount: 0 });
+
+      await driver.execute(
+        "SELECT 'Why?' AS q, tags ?| array['a'] -- who?\nFROM posts WHERE data ?& array['b'] AND id = ?",
+        [7],
+      );
+      expect(mockQuery.mock.calls[1][0]).toBe(
+        "SELECT 'Why?' AS q, tags ?| array['a'] -- who?\nFROM posts WHERE data ?& array['b'] AND id = $1",
+      );
+    });
+
+    it('should not rewrite SQL that already uses $n placeholders', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ pid: 1 }] })
+        .mockResolvedValueOnce({ fields: [], rows: [], rowCount: 0 });
+
+      await driver.execute('SELECT * FROM docs WHERE data ? $1 AND id = $2', ['key', 1]);
+      expect(mockQuery.mock.calls[1][0]).toBe('SELECT * FROM docs WHERE data ? $1 AND id = $2');
+    });
+
+    it('should read one row past the limit through a cursor and flag the result as truncated', async () => {
+      const fields = [{ name: 'id', dataTypeID: 23 }];
+      mockQuery.mockResolvedValueOnce({ rows: [{ pid: 1 }] }).mockReturnValueOnce(undefined);
+      mockCursorRead.mockImplementationOnce((_count: number, callback: (...args: unknown[]) => void) =>
+        callback(undefined, [{ id: 1 }, { id: 2 }, { id: 3 }], { fields }),
+      );
+      mockCursorClose.mockResolvedValueOnce(undefined);
+
+      const result = await driver.execute('SELECT id FROM users', undefined, { maxRows: 2, timeout: 0 });
+
+      expect(mockQuery.mock.calls[1][0]).toMatchObject({ text: 'SELECT id FROM users' });
+      expect(mockCursorRead).toHaveBeenCalledWith(3, expect.any(Function));
+      expect(mockCursorClose).toHaveBeenCalled();
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.columns[0]).toEqual(expect.objectContaining({ name: 'id', type: 'INTEGER' }));
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should keep the cursor open to page through the rest of the result', async () => {
+      const fields = [{ name: 'id', dataTypeID: 23 }];
+      mockQuery.mockResolvedValueOnce({ rows: [{ pid: 1 }] }).mockReturnValueOnce(undefined);
+      mockCursorRead
+        .mockImplementationOnce((_count: number, callback: (...args: unknown[]) => void) =>
+          callback(undefined, [{ id: 1 }, { id: 2 }, { id: 3 }], { fields }),
+        )
+        .mockImplementationOnce((_count: number, callback: (...args: unknown[]) => void) =>
+          callback(undefined, [{ id: 4 }], { fields }),
+        );
+      mockCursorClose.mockResolvedValueOnce(undefined);
+
+      const { result, cursor } = await driver.openCursor('SELECT id FROM users', undefined, { maxRows: 2, timeout: 0 });
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockCursorClose).not.toHaveBeenCalled();
+
+      const batch = await cursor!.read(2);
+
+      expect(mockCursorRead).toHaveBeenLastCalledWith(2, expect.any(Function));
+      expect(batch).toEqual({ rows: [{ id: 3 }, { id: 4 }], hasMore: false });
+      expect(mockCursorClose).toHaveBeenCalled();
+    });
+
+    it('should read a table through a cursor in filter and key order', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ pid: 1 }] }).mockReturnValueOnce(undefined);
+      mockCursorRead.mockImplementationOnce((_count: number, callback: (...args: unknown[]) => void) =>
+        callback(undefined, [{ id: 1 }], { fields: [{ name: 'id', dataTypeID: 23 }] }),
+      );
+      mockCursorClose.mockResolvedValueOnce(undefined);
+
+      const opened = await driver.openTableCursor(
+        'orders',
+        { filters: [{ column: 'status', operator: '=', value: 'open' }], orderBy: 'total', orderDirection: SortDirection.Desc, keyColumns: ['tenant_id', 'id'] },
+        100,
+      );
+
+      expect(mockQuery.mock.calls[1][0]).toMatchObject({
+        text: 'SELECT * FROM "public"."orders" WHERE "status" = $1 ORDER BY "total" DESC, "tenant_id", "id"',
+        values: ['open'],
+      });
+      expect(opened?.result.rows).toEqual([{ id: 1 }]);
+      expect(opened?.cursor).toBeNull();
+    });
+
+    it('should order text key columns by their bytes when asked to', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ pid: 1 }] }).mockReturnValueOnce(undefined);
+      mockCursorRead.mockImplementationOnce((_count: number, callback: (...args: unknown[]) => void) =>
+        callback(undefined, [], { fields: [] }),
+      );
+      mockCursorClose.mockResolvedValueOnce(undefined);
+
+      await driver.openTableCursor('orders', { keyColumns: ['code', 'id'], binaryOrderColumns: ['code'] }, 100);
+
+      expect(mockQuery.mock.calls[1][0]).toMatchObject({
+        text: 'SELECT * FROM "public"."orders"  ORDER BY "code" COLLATE "C", "id"',
+      });
+    });
+
+    it('should run statements that are not a single read without the cursor', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ pid: 1 }] })
+        .mockResolvedValueOnce({ rowCount: 3 });
+
+      const result = await driver.execute('DELETE FROM users', undefined, { maxRows: 2, timeout: 0 });
+
+      expect(mockCursorRead).not.toHaveBeenCalled();
+      expect(result.affectedRows).toBe(3);
+    });
+
+    it('should report a query canceled by the timeout as timed out', async () => {
+      vi.useFakeTimers();
+      try {
+        let rejectQuery: (error: Error) => void = () => {};
+        mockQuery
+          .mockResolvedValueOnce({ rows: [{ pid: 7 }] })
+          .mockReturnValueOnce(new Promise((_resolve, reject) => { rejectQuery = reject; }));
+        const cancel = vi.spyOn(driver, 'cancelQuery').mockImplementation(async () => {
+          rejectQuery(new Error('canceling statement due to user request'));
+          return true;
+        });
+
+        const pending = driver.execute('SELECT pg_sleep(10)', undefined, { maxRows: 0, timeout: 1000 });
+        await vi.advanceTimersByTimeAsync(1000);
+        const result = await pending;
+
+        expect(cancel).toHaveBeenCalled();
+        expect(result.error).toBe('Query timed out after 1000 ms');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it('should return affectedRows for non-SELECT results', async () => {
       mockQuery
         .mockResolvedValueOnce({ rows: [{ pid: 1 }] })
@@ -839,6 +984,54 @@ describe('PostgreSQLDriver', () => {
     });
   });
 
+  describe('applyChangeset', () => {
+    it('should apply all changes inside a transaction with numbered placeholders', async () => {
+      await connectDriver(driver);
+      mockQuery.mockResolvedValue({ rowCount: 1 });
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Update, where: { id: 5 }, values: { name: 'Bob', email: null } },
+          { type: RowChangeType.Delete, where: { id: 6 } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results).toHaveLength(2);
+      expect(mockQuery).toHaveBeenNthCalledWith(1, 'BEGIN');
+      expect(mockQuery).toHaveBeenNthCalledWith(
+        2,
+        'UPDATE "public"."users" SET "name" = $1, "email" = $2 WHERE "id" = $3',
+        ['Bob', null, 5]
+      );
+      expect(mockQuery).toHaveBeenLastCalledWith('COMMIT');
+    });
+
+    it('should roll back and keep results up to the failure', async () => {
+      await connectDriver(driver);
+      mockQuery
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(new Error('violates foreign key constraint'))
+        .mockResolvedValueOnce({});
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { id: 1 } },
+          { type: RowChangeType.Delete, where: { id: 2 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.results).toEqual([
+        expect.objectContaining({ index: 0, success: false, error: 'violates foreign key constraint' }),
+      ]);
+      expect(mockQuery).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+
   // ─────────── View operations ───────────
   describe('createView', () => {
     it('should create a view', async () => {
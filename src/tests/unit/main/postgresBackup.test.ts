@@ -0,0 +1,289 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { PostgreSQLDriver } from '@main/db/postgres';
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => []),
+  },
+}));
+
+import {
+  escapeCopyValue,
+  parseCopyLine,
+  readSQLScript,
+  restorePostgresBackup,
+  writePostgresBackup,
+  ScriptItemKind,
+  type ScriptItem,
+} from '@main/services/postgresBackup';
+
+// ── Helpers ──
+
+const collect = async (lines: string[]): Promise<ScriptItem[]> => {
+  const items: ScriptItem[] = [];
+  for await (const item of readSQLScript(lines)) {
+    items.push(item);
+  }
+  return items;
+};
+
+const statements = (items: ScriptItem[]) =>
+  items.flatMap((item) => (item.kind === ScriptItemKind.Statement ? [item.sql] : []));
+
+// Keyed by a fragment unique to each catalog query; earlier entries win
+const catalog: Record<string, Record<string, unknown>[]> = {
+  'pg_get_userbyid(c.relowner)': [
+    { schema: 'public', name: 'touch()', kind: 'function', owner: 'app' },
+    { schema: 'public', name: 'users', kind: 'r', owner: 'app' },
+  ],
+  'FROM pg_proc p': [
+    { schema: 'public', name: 'touch', definition: 'CREATE OR REPLACE FUNCTION public.touch()\n RETURNS trigger\nAS $function$ BEGIN NEW.at := now(); RETURN NEW; END; $function$\n', after_tables: false },
+    { schema: 'public', name: 'named_users', definition: 'CREATE OR REPLACE FUNCTION public.named_users()\n RETURNS SETOF public.users\nAS $function$ SELECT * FROM public.users WHERE name IS NOT NULL $function$\n', after_tables: true },
+  ],
+  'FROM pg_attribute a': [
+    { schema: 'public', table: 'users', name: 'id', type: 'integer', not_null: true, default_value: "nextval('public.users_id_seq'::regclass)", identity: '', generated: '' },
+    { schema: 'public', table: 'users', name: 'name', type: 'text', not_null: false, default_value: null, identity: '', generated: '' },
+    { schema: 'public', table: 'users', name: 'upper_name', type: 'text', not_null: false, default_value: 'upper(name)', identity: '', generated: 's' },
+    { schema: 'public', table: 'posts', name: 'id', type: 'bigint', not_null: true, default_value: null, identity: 'a', generated: '' },
+    { schema: 'public', table: 'posts', name: 'user_id', type: 'integer', not_null: false, default_value: null, identity: '', generated: '' },
+  ],
+  'FROM pg_index x': [
+    { schema: 'public', name: 'users_name_idx', definition: 'CREATE INDEX users_name_idx ON public.users USING btree (name)' },
+  ],
+  'FROM pg_constraint con': [
+    { schema: 'public', table: 'posts', name: 'posts_user_id_fkey', type: 'f', definition: 'FOREIGN KEY (user_id) REFERENCES public.users(id)' },
+    { schema: 'public', table: 'users', name: 'users_name_check', type: 'c', definition: "CHECK ((name <> ''::text))" },
+    { schema: 'public', table: 'users', name: 'users_pkey', type: 'p', definition: 'PRIMARY KEY (id)' },
+  ],
+  "c.relkind = 'v'": [
+    { schema: 'public', name: 'active_users', definition: ' SELECT users.id\n   FROM public.recent_users users;' },
+  ],
+  'JOIN pg_rewrite': [{ schema: 'public', name: 'active_users', ref_schema: 'public', ref_name: 'recent_users' }],
+  'FROM pg_depend d\n  JOIN pg_class s': [
+    { schema: 'public', name: 'users_id_seq', kind: 'a', table: 'users', column: 'id' },
+    { schema: 'public', name: 'posts_id_seq', kind: 'i', table: 'posts', column: 'id' },
+  ],
+};
+
+const userRows = [
+  { id: '1', name: 'Ada\tLovelace' },
+  { id: '2', name: null },
+  { id: '3', name: 'back\\slash\nnewline' },
+];
+
+const createBackupDriver = () => {
+  const executed: string[] = [];
+  let cursorRows: Record<string, unknown>[] = [];
+
+  const execute = vi.fn(async (sql: string) => {
+    executed.push(sql);
+    if (sql.startsWith('DECLARE')) {
+      cursorRows = sql.includes('"users"') ? [...userRows] : [];
+      return { rows: [] };
+    }
+    if (sql.startsWith('FETCH')) {
+      const size = Number(sql.split(' ')[1]);
+      return { rows: cursorRows.splice(0, size) };
+    }
+    const entry = Object.entries(catalog).find(([marker]) => sql.includes(marker));
+    return { rows: entry ? entry[1] : [] };
+  });
+
+  return {
+    executed,
+    driver: {
+      execute,
+      getSchemas: vi.fn().mockResolvedValue([
+        { name: 'public', owner: 'app', isSystem: false },
+        { name: 'pg_catalog', owner: 'postgres', isSystem: true },
+      ]),
+      getExtensions: vi.fn().mockResolvedValue([{ name: 'pgcrypto', version: '1.3', schema: 'public' }]),
+      getAllEnums: vi.fn().mockResolvedValue([{ schema: 'public', name: 'mood', values: ['sad', "it's ok"] }]),
+      getSequences: vi.fn().mockResolvedValue([
+        { schema: 'public', name: 'users_id_seq', dataType: 'integer', startValue: '1', minValue: '1', maxValue: '2147483647', increment: '1', cycled: false, cacheSize: '1', lastValue: '3' },
+        { schema: 'public', name: 'posts_id_seq', dataType: 'bigint', startValue: '1', minValue: '1', maxValue: '9223372036854775807', increment: '1', cycled: false, cacheSize: '1', lastValue: '7' },
+      ]),
+      getMaterializedViews: vi.fn().mockResolvedValue([
+        { schema: 'public', name: 'recent_users', definition: ' SELECT users.id\n   FROM public.users;', isPopulated: true },
+      ]),
+      getTriggers: vi.fn().mockResolvedValue([
+        { schema: 'public', table: 'users', name: 'users_touch', enabled: false, definition: 'CREATE TRIGGER users_touch BEFORE UPDATE ON public.users FOR EACH ROW EXECUTE FUNCTION public.touch()' },
+      ]),
+    } as unknown as PostgreSQLDriver,
+  };
+};
+
+// ── Tests ──
+
+describe('COPY text format', () => {
+  it('round-trips nulls, tabs, newlines and backslashes', () => {
+    const values = ['plain', null, 'tab\there', 'line\nbreak\r', 'C:\\path', ''];
+    const line = values.map(escapeCopyValue).join('\t');
+
+    expect(line).toBe('plain\t\\N\ttab\\there\tline\\nbreak\\r\tC:\\\\path\t');
+    expect(parseCopyLine(line)).toEqual(values);
+  });
+
+  it('decodes octal and hex escapes written by pg_dump', () => {
+    expect(parseCopyLine('\\101\\x42\\b\t\\\\N')).toEqual(['AB\b', '\\N']);
+  });
+});
+
+describe('readSQLScript', () => {
+  it('splits statements without breaking on quoted or commented semicolons', async () => {
+    const items = await collect([
+      "-- header; comment",
+      "INSERT INTO t VALUES ('a;b', E'it\\'s;', \"odd;name\"); /* one; /* nested; */ still */ SELECT 1;",
+      'CREATE FUNCTION f() RETURNS int AS $body$',
+      '  SELECT 1; -- inside body',
+      '$body$ LANGUAGE sql;',
+      'SELECT $1::int',
+    ]);
+
+    expect(statements(items)).toEqual([
+      "INSERT INTO t VALUES ('a;b', E'it\\'s;', \"odd;name\")",
+      '/* one; /* nested; */ still */ SELECT 1',
+      'CREATE FUNCTION f() RETURNS int AS $body$\n  SELECT 1; -- inside body\n$body$ LANGUAGE sql',
+      'SELECT $1::int',
+    ]);
+  });
+
+  it('reads COPY blocks as rows until the terminator', async () => {
+    const items = await collect([
+      'COPY "public"."users" ("id", "name") FROM stdin;',
+      '1\tAda',
+      '2\t\\N',
+      '\\.',
+      'SELECT 1;',
+    ]);
+
+    const target = { table: '"public"."users"', columns: ['"id"', '"name"'] };
+    expect(items).toEqual([
+      { kind: ScriptItemKind.Statement, sql: 'COPY "public"."users" ("id", "name") FROM stdin' },
+      { kind: ScriptItemKind.CopyRow, target, values: ['1', 'Ada'] },
+      { kind: ScriptItemKind.CopyRow, target, values: ['2', null] },
+      { kind: ScriptItemKind.CopyEnd, target },
+      { kind: ScriptItemKind.Statement, sql: 'SELECT 1' },
+    ]);
+  });
+});
+
+describe('PostgreSQL backup files', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'zequel-pg-backup-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes objects in dependency order with data as COPY blocks', async () => {
+    const { driver, executed } = createBackupDriver();
+    const filePath = join(dir, 'backup.sql');
+
+    const summary = await writePostgresBackup(driver, filePath, { batchSize: 2 });
+    const content = await readFile(filePath, 'utf-8');
+
+    expect(summary).toEqual({ tables: 2, rows: 3 });
+    expect(executed[0]).toBe('BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY');
+    expect(executed.at(-1)).toBe('COMMIT');
+    expect(executed.filter((sql) => sql.startsWith('FETCH'))).toHaveLength(3);
+
+    const order = [
+      'CREATE SCHEMA IF NOT EXISTS "public";',
+      'CREATE EXTENSION IF NOT EXISTS "pgcrypto" WITH SCHEMA "public";',
+      `CREATE TYPE "public"."mood" AS ENUM ('sad', 'it''s ok');`,
+      'CREATE OR REPLACE FUNCTION public.touch()',
+      'CREATE SEQUENCE "public"."users_id_seq" AS integer',
+      'CREATE TABLE "public"."users" (',
+      'ALTER SEQUENCE "public"."users_id_seq" OWNED BY "public"."users"."id";',
+      'CREATE MATERIALIZED VIEW "public"."recent_users" AS',
+      'CREATE VIEW "public"."active_users" AS',
+      'COPY "public"."users" ("id", "name") FROM stdin;\n1\tAda\\tLovelace\n2\t\\N\n3\tback\\\\slash\\nnewline\n\\.',
+      `SELECT pg_catalog.setval('"public"."users_id_seq"', 3, true);`,
+      `SELECT pg_catalog.setval(pg_catalog.pg_get_serial_sequence('"public"."posts"', 'id'), 7, true);`,
+      'ALTER TABLE ONLY "public"."users" ADD CONSTRAINT "users_pkey" PRIMARY KEY (id);',
+      'CREATE INDEX users_name_idx ON public.users USING btree (name);',
+      'ALTER TABLE ONLY "public"."posts" ADD CONSTRAINT "posts_user_id_fkey" FOREIGN KEY',
+      'EXECUTE FUNCTION public.touch();\nALTER TABLE "public"."users" DISABLE TRIGGER "users_touch";',
+      'REFRESH MATERIALIZED VIEW "public"."recent_users";',
+      'ALTER SCHEMA "public" OWNER TO "app";',
+      'ALTER FUNCTION "public"."touch"() OWNER TO "app";',
+    ];
+    const positions = order.map((fragment) => content.indexOf(fragment));
+    expect(positions).not.toContain(-1);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+
+    expect(content).toContain('"upper_name" text GENERATED ALWAYS AS (upper(name)) STORED');
+    expect(content).toContain('"id" bigint GENERATED ALWAYS AS IDENTITY NOT NULL');
+    expect(content).toContain(`CONSTRAINT "users_name_check" CHECK ((name <> ''::text))`);
+    expect(content).not.toContain('CREATE SEQUENCE "public"."posts_id_seq"');
+    expect(content).not.toContain('pg_catalog"');
+  });
+
+  it('writes functions returning a table row type after the tables', async () => {
+    const { driver } = createBackupDriver();
+    const filePath = join(dir, 'backup.sql');
+
+    await writePostgresBackup(driver, filePath);
+    const content = await readFile(filePath, 'utf-8');
+
+    const order = [
+      'CREATE OR REPLACE FUNCTION public.touch()',
+      'CREATE TABLE "public"."users" (',
+      '-- Functions using tables',
+      'CREATE OR REPLACE FUNCTION public.named_users()\n RETURNS SETOF public.users',
+      'CREATE MATERIALIZED VIEW "public"."recent_users" AS',
+    ];
+    const positions = order.map((fragment) => content.indexOf(fragment));
+    expect(positions).not.toContain(-1);
+    expect([...positions].sort((a, b) => a - b)).toEqual(positions);
+  });
+
+  it('rolls back and rethrows when a catalog query fails', async () => {
+    const { driver, executed } = createBackupDriver();
+    const execute = driver.execute as ReturnType<typeof vi.fn>;
+    const original = execute.getMockImplementation()!;
+    execute.mockImplementation(async (sql: string) =>
+      sql.includes('FROM pg_proc p') ? { rows: [], error: 'permission denied' } : original(sql)
+    );
+
+    await expect(writePostgresBackup(driver, join(dir, 'backup.sql'))).rejects.toThrow('permission denied');
+    expect(executed.at(-1)).toBe('ROLLBACK');
+  });
+
+  it('restores statements and loads COPY rows as batched inserts', async () => {
+    const filePath = join(dir, 'restore.sql');
+    const rows = Array.from({ length: 501 }, (_, i) => `${i + 1}\tuser ${i + 1}`);
+    await writeFile(filePath, [
+      'SET client_encoding = \'UTF8\';',
+      'CREATE TABLE "public"."users" ("id" integer, "name" text);',
+      'COPY "public"."users" ("id", "name") FROM stdin;',
+      ...rows,
+      '3\\ttab\t\\N',
+      '\\.',
+      'CREATE INDEX broken ON nowhere (x);',
+      '',
+    ].join('\n'));
+
+    const execute = vi.fn(async (sql: string) =>
+      sql.includes('nowhere') ? { rows: [], error: 'relation "nowhere" does not exist' } : { rows: [] }
+    );
+    const result = await restorePostgresBackup({ execute } as unknown as PostgreSQLDriver, filePath);
+
+    expect(result.successCount).toBe(3);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toContain('relation "nowhere" does not exist');
+
+    const inserts = execute.mock.calls.filter(([sql]) => sql.startsWith('INSERT'));
+    expect(inserts).toHaveLength(2);
+    expect(inserts[0][0]).toMatch(/^INSERT INTO "public"."users" \("id", "name"\) OVERRIDING SYSTEM VALUE VALUES \(\?, \?\), /);
+    expect(inserts[0][1]).toHaveLength(1000);
+    expect(inserts[1][1]).toEqual(['501', 'user 501', '3\ttab', null]);
+  });
+});
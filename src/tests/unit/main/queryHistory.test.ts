@@ -395,6 +395,23 @@ describe('QueryHistoryService', () => {
     });
   });
 
+  describe('setSavedQueryParameters', () => {
+    it('should store the values as JSON', () => {
+      const values = { status: { type: 'text', value: 'active' }, limit: { type: 'number', value: '10' } };
+
+      const result = service.setSavedQueryParameters(1, values);
+
+      expect(result).toBe(true);
+      expect(mockRun).toHaveBeenCalledWith(JSON.stringify(values), 1);
+    });
+
+    it('should return false when the saved query does not exist', () => {
+      mockRun.mockReturnValueOnce({ changes: 0, lastInsertRowid: 0 });
+
+      expect(service.setSavedQueryParameters(999, {})).toBe(false);
+    });
+  });
+
   describe('getSavedQuery', () => {
     it('should return a saved query by id', () => {
       mockGet.mockReturnValueOnce(createSavedQueryRow({ id: 5 }));
@@ -414,6 +431,23 @@ describe('QueryHistoryService', () => {
       expect(result).toBeNull();
     });
 
+    it('should parse stored parameter values', () => {
+      const values = { id: { type: 'number', value: '7' } };
+      mockGet.mockReturnValueOnce(createSavedQueryRow({ parameter_values: JSON.stringify(values) }));
+
+      const result = service.getSavedQuery(1);
+
+      expect(result!.parameterValues).toEqual(values);
+    });
+
+    it('should ignore malformed parameter values', () => {
+      mockGet.mockReturnValueOnce(createSavedQueryRow({ parameter_values: '{not json' }));
+
+      const result = service.getSavedQuery(1);
+
+      expect(result!.parameterValues).toBeUndefined();
+    });
+
     it('should map connectionId to undefined when null', () => {
       mockGet.mockReturnValueOnce(createSavedQueryRow({ connection_id: null }));
 
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const mockSend = vi.fn();
+const mockShow = vi.fn();
+const mockIsSupported = vi.fn(() => true);
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: () => [{ webContents: { send: mockSend }, isMinimized: () => false, focus: vi.fn() }],
+  },
+  Notification: class {
+    static isSupported = () => mockIsSupported();
+    constructor(public options: { title: string; body: string }) {}
+    on = vi.fn();
+    show = () => mockShow(this.options);
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  emitQueryJob,
+  MAX_FINISHED_JOBS,
+  MAX_RUNNING_JOBS,
+  notifyFinishedJob,
+  QueryJobQueue,
+  QueryJobStatus,
+  type QueryJob,
+  type QueryJobRunner,
+} from '@main/services/queryJobs';
+import type { QueryResult } from '@main/types';
+
+const request = { connectionId: 'conn-1', connectionName: 'Orders', sql: 'SELECT * FROM orders' };
+
+const result = (overrides: Partial<QueryResult> = {}): QueryResult => ({
+  columns: [],
+  rows: [],
+  rowCount: 3,
+  executionTime: 5,
+  ...overrides,
+});
+
+// A runner whose promise is settled from the test
+const deferredRunner = () => {
+  let resolve: (results: QueryResult[]) => void = () => undefined;
+  let reject: (error: Error) => void = () => undefined;
+  let signal: AbortSignal | undefined;
+  const run: QueryJobRunner = vi.fn((_job, jobSignal) => {
+    signal = jobSignal;
+    return new Promise<QueryResult[]>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+  return { run, resolve: (r: QueryResult[]) => resolve(r), reject: (e: Error) => reject(e), signal: () => signal };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('QueryJobQueue', () => {
+  let emitted: QueryJob[];
+  let notified: QueryJob[];
+  let queue: QueryJobQueue;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    emitted = [];
+    notified = [];
+    queue = new QueryJobQueue((job) => emitted.push(job), (job) => notified.push(job));
+  });
+
+  it('should run a job and keep its results', async () => {
+    const runner = deferredRunner();
+    const job = queue.enqueue(request, runner.run);
+
+    expect(job.status).toBe(QueryJobStatus.Running);
+    expect(job.startedAt).toBeDefined();
+
+    runner.resolve([result(), result({ rowCount: 2 })]);
+    await flush();
+
+    const [finished] = queue.list();
+    expect(finished).toMatchObject({ status: QueryJobStatus.Completed, resultCount: 2, rowCount: 5 });
+    expect(queue.getResults(job.id)).toHaveLength(2);
+    expect(emitted.map((j) => j.status)).toEqual([QueryJobStatus.Queued, QueryJobStatus.Running, QueryJobStatus.Completed]);
+    expect(notified).toHaveLength(1);
+  });
+
+  it('should mark a job failed when a statement errors or the runner throws', async () => {
+    const withError = deferredRunner();
+    const throwing = deferredRunner();
+    const first = queue.enqueue(request, withError.run);
+    const second = queue.enqueue(request, throwing.run);
+
+    withError.resolve([result(), result({ error: 'relation "x" does not exist' })]);
+    throwing.reject(new Error('Not connected to database'));
+    await flush();
+
+    expect(queue.list().find((j) => j.id === first.id)).toMatchObject({
+      status: QueryJobStatus.Failed,
+      error: 'relation "x" does not exist',
+    });
+    expect(queue.getResults(first.id)).toHaveLength(2);
+    expect(queue.list().find((j) => j.id === second.id)).toMatchObject({
+      status: QueryJobStatus.Failed,
+      error: 'Not connected to database',
+    });
+    expect(() => queue.getResults(second.id)).toThrow('no results');
+  });
+
+  it('should queue jobs beyond the running limit and start them in order', async () => {
+    const runners = Array.from({ length: MAX_RUNNING_JOBS + 1 }, () => deferredRunner());
+    const jobs = runners.map((runner) => queue.enqueue(request, runner.run));
+
+    expect(jobs[MAX_RUNNING_JOBS].status).toBe(QueryJobStatus.Queued);
+    expect(runners[MAX_RUNNING_JOBS].run).not.toHaveBeenCalled();
+
+    runners[0].resolve([result()]);
+    await flush();
+
+    expect(runners[MAX_RUNNING_JOBS].run).toHaveBeenCalled();
+    expect(queue.list()[MAX_RUNNING_JOBS].status).toBe(QueryJobStatus.Running);
+  });
+
+  it('should cancel a queued job without running it', () => {
+    const runners = Array.from({ length: MAX_RUNNING_JOBS + 1 }, () => deferredRunner());
+    const jobs = runners.map((runner) => queue.enqueue(request, runner.run));
+
+    expect(queue.cancel(jobs[MAX_RUNNING_JOBS].id)).toBe(true);
+
+    expect(queue.list()[MAX_RUNNING_JOBS].status).toBe(QueryJobStatus.Canceled);
+    expect(runners[MAX_RUNNING_JOBS].run).not.toHaveBeenCalled();
+    expect(notified).toHaveLength(0);
+  });
+
+  it('should abort a running job and mark it canceled once the runner returns', async () => {
+    const runner = deferredRunner();
+    const job = queue.enqueue(request, runner.run);
+
+    expect(queue.cancel(job.id)).toBe(true);
+    expect(runner.signal()?.aborted).toBe(true);
+    expect(queue.list()[0].status).toBe(QueryJobStatus.Running);
+
+    runner.resolve([result({ error: 'canceling statement due to user request' })]);
+    await flush();
+
+    expect(queue.list()[0].status).toBe(QueryJobStatus.Canceled);
+    expect(queue.cancel(job.id)).toBe(false);
+  });
+
+  it('should only remove finished jobs', async () => {
+    const runner = deferredRunner();
+    const job = queue.enqueue(request, runner.run);
+
+    expect(queue.remove(job.id)).toBe(false);
+
+    runner.resolve([result()]);
+    await flush();
+
+    expect(queue.remove(job.id)).toBe(true);
+    expect(queue.list()).toHaveLength(0);
+    expect(() => queue.getResults(job.id)).toThrow('no longer exists');
+  });
+
+  it('should drop the oldest finished jobs past the limit', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < MAX_FINISHED_JOBS + 2; i++) {
+      ids.push(queue.enqueue(request, async () => [result()]).id);
+      await flush();
+    }
+
+    const remaining = queue.list().map((j) => j.id);
+    expect(remaining).toHaveLength(MAX_FINISHED_JOBS);
+    expect(remaining).not.toContain(ids[0]);
+    expect(remaining).not.toContain(ids[1]);
+  });
+});
+
+describe('emitQueryJob', () => {
+  it('should broadcast the job to every window', () => {
+    const job = { id: 'job-1', status: QueryJobStatus.Queued } as QueryJob;
+    emitQueryJob(job);
+    expect(mockSend).toHaveBeenCalledWith('jobs:changed', job);
+  });
+});
+
+describe('notifyFinishedJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const finishedJob = (overrides: Partial<QueryJob>): QueryJob => ({
+    id: 'job-1',
+    ...request,
+    status: QueryJobStatus.Completed,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    startedAt: '2026-01-01T00:00:00.000Z',
+    finishedAt: '2026-01-01T00:00:02.500Z',
+    rowCount: 42,
+    ...overrides,
+  });
+
+  it('should describe the rows and duration of a completed job', () => {
+    notifyFinishedJob(finishedJob({}));
+    expect(mockShow).toHaveBeenCalledWith({ title: 'Background query finished on Orders', body: '42 rows in 2.5s' });
+  });
+
+  it('should show the error of a failed job', () => {
+    notifyFinishedJob(finishedJob({ status: QueryJobStatus.Failed, error: 'syntax error' }));
+    expect(mockShow).toHaveBeenCalledWith({ title: 'Background query failed on Orders', body: 'syntax error' });
+  });
+
+  it('should do nothing where notifications are not supported', () => {
+    mockIsSupported.mockReturnValueOnce(false);
+    notifyFinishedJob(finishedJob({}));
+    expect(mockShow).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const settings = new Map<string, string>();
+
+vi.mock('@main/services/database', () => ({
+  appDatabase: {
+    getDatabase: () => ({
+      prepare: (sql: string) => ({
+        get: (key: string) => (settings.has(key) ? { value: settings.get(key) } : undefined),
+        run: (key: string, value: string) => {
+          if (sql.includes('INSERT INTO settings')) settings.set(key, value);
+        },
+      }),
+    }),
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { DEFAULT_QUERY_LIMITS, normalizeQueryLimits, queryLimitsService } from '@main/services/queryLimits';
+import { DatabaseType, type ConnectionConfig } from '@main/types';
+
+const connection = (queryLimits?: ConnectionConfig['queryLimits']): ConnectionConfig => ({
+  id: 'conn-1',
+  name: 'Orders',
+  type: DatabaseType.PostgreSQL,
+  database: 'orders',
+  queryLimits,
+});
+
+describe('normalizeQueryLimits', () => {
+  it('should keep whole non-negative numbers only', () => {
+    expect(normalizeQueryLimits({ maxRows: 250.7, timeout: -5 })).toEqual({ maxRows: 250 });
+    expect(normalizeQueryLimits({ maxRows: 0 })).toEqual({ maxRows: 0 });
+  });
+
+  it('should return null when nothing is set', () => {
+    expect(normalizeQueryLimits({})).toBeNull();
+    expect(normalizeQueryLimits({ maxRows: Number.NaN })).toBeNull();
+    expect(normalizeQueryLimits(undefined)).toBeNull();
+  });
+});
+
+describe('queryLimitsService', () => {
+  beforeEach(() => {
+    settings.clear();
+  });
+
+  it('should fall back to the built-in defaults', () => {
+    expect(queryLimitsService.getDefaults()).toEqual(DEFAULT_QUERY_LIMITS);
+  });
+
+  it('should store and read back the defaults', () => {
+    expect(queryLimitsService.setDefaults({ maxRows: 500, timeout: 30000 })).toEqual({ maxRows: 500, timeout: 30000 });
+    expect(queryLimitsService.getDefaults()).toEqual({ maxRows: 500, timeout: 30000 });
+  });
+
+  it('should ignore unreadable stored defaults', () => {
+    settings.set('queryLimits', '{not json');
+    expect(queryLimitsService.getDefaults()).toEqual(DEFAULT_QUERY_LIMITS);
+  });
+
+  it('should let a connection override the defaults field by field', () => {
+    queryLimitsService.setDefaults({ maxRows: 500, timeout: 30000 });
+
+    expect(queryLimitsService.resolve(connection({ timeout: 0 }))).toEqual({ maxRows: 500, timeout: 0 });
+    expect(queryLimitsService.resolve(connection())).toEqual({ maxRows: 500, timeout: 30000 });
+    expect(queryLimitsService.resolve(undefined)).toEqual({ maxRows: 500, timeout: 30000 });
+  });
+});
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseType, TableObjectType, type Column, type Index } from '@main/types';
+import type { DatabaseDriver, SchemaScriptBuilder } from '@main/db/base';
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('pg', () => ({ Pool: vi.fn() }));
+
+import { PostgreSQLDriver } from '@main/db/postgres';
+import {
+  compareSchemas,
+  loadSchemaSnapshot,
+  SchemaDiffStatus,
+  SchemaObjectKind,
+  type SchemaSnapshot,
+  type TableSnapshot,
+} from '@main/services/schemaCompare';
+
+// ── Helpers ──
+
+const column = (name: string, overrides: Partial<Column> = {}): Column => ({
+  name,
+  type: 'integer',
+  nullable: true,
+  defaultValue: null,
+  primaryKey: false,
+  autoIncrement: false,
+  unique: false,
+  ...overrides,
+});
+
+const index = (name: string, columns: string[], overrides: Partial<Index> = {}): Index => ({
+  name,
+  columns,
+  unique: false,
+  primary: false,
+  ...overrides,
+});
+
+const table = (name: string, overrides: Partial<TableSnapshot> = {}): TableSnapshot => ({
+  name,
+  columns: [column('id', { primaryKey: true, nullable: false })],
+  indexes: [index(`${name}_pkey`, ['id'], { primary: true, unique: true })],
+  foreignKeys: [],
+  ...overrides,
+});
+
+const snapshot = (overrides: Partial<SchemaSnapshot> = {}): SchemaSnapshot => ({
+  database: 'app',
+  schema: 'public',
+  tables: [],
+  views: [],
+  triggers: [],
+  ...overrides,
+});
+
+const builder = new PostgreSQLDriver();
+
+// ── Tests ──
+
+describe('compareSchemas', () => {
+  it('reports no differences for identical snapshots', () => {
+    const schema = snapshot({ tables: [table('users')] });
+    const result = compareSchemas(schema, structuredClone(schema), builder);
+
+    expect(result.differences).toEqual([]);
+    expect(result.script).toBe('');
+  });
+
+  it('reports tables relative to the target', () => {
+    const result = compareSchemas(
+      snapshot({ tables: [table('orders'), table('users')] }),
+      snapshot({ tables: [table('legacy'), table('users')] }),
+      builder
+    );
+
+    expect(result.differences).toEqual([
+      { kind: SchemaObjectKind.Table, name: 'legacy', status: SchemaDiffStatus.Removed },
+      { kind: SchemaObjectKind.Table, name: 'orders', status: SchemaDiffStatus.Added },
+    ]);
+    expect(result.script).toContain('DROP TABLE "public"."legacy"');
+    expect(result.script).toContain('CREATE TABLE "public"."orders"');
+  });
+
+  it('nests column, index and foreign key changes under the table', () => {
+    const source = snapshot({
+      tables: [
+        table('users', {
+          columns: [
+            column('id', { primaryKey: true, nullable: false }),
+            column('email', { type: 'varchar', length: 255, nullable: false }),
+            column('age', { type: 'bigint' }),
+          ],
+          indexes: [
+            index('users_pkey', ['id'], { primary: true, unique: true }),
+            index('users_email_idx', ['email'], { unique: true }),
+          ],
+        }),
+      ],
+    });
+    const target = snapshot({
+      tables: [
+        table('users', {
+          columns: [
+            column('id', { primaryKey: true, nullable: false }),
+            column('age'),
+            column('nickname', { type: 'text' }),
+          ],
+        }),
+      ],
+    });
+
+    const [node] = compareSchemas(source, target, builder).differences;
+
+    expect(node.status).toBe(SchemaDiffStatus.Changed);
+    expect(node.children).toEqual([
+      { kind: SchemaObjectKind.Column, name: 'email', status: SchemaDiffStatus.Added },
+      { kind: SchemaObjectKind.Column, name: 'nickname', status: SchemaDiffStatus.Removed },
+      {
+        kind: SchemaObjectKind.Column,
+        name: 'age',
+        status: SchemaDiffStatus.Changed,
+        details: ['type: integer → bigint'],
+      },
+      { kind: SchemaObjectKind.Index, name: 'users_email_idx', status: SchemaDiffStatus.Added },
+    ]);
+  });
+
+  it('orders the script so dependencies are dropped first and created last', () => {
+    const source = snapshot({
+      tables: [
+        table('users'),
+        table('orders', {
+          columns: [column('id', { primaryKey: true, nullable: false }), column('user_id')],
+          foreignKeys: [
+            {
+              name: 'orders_user_fk',
+              columns: ['user_id'],
+              referencedTable: 'users',
+              referencedColumns: ['id'],
+            },
+          ],
+        }),
+      ],
+      views: [{ name: 'active_users', definition: 'CREATE VIEW active_users AS SELECT * FROM users' }],
+    });
+    const target = snapshot({
+      tables: [table('users'), table('orders')],
+      views: [{ name: 'active_users', definition: 'CREATE VIEW active_users AS SELECT id FROM users' }],
+    });
+
+    const { script } = compareSchemas(source, target, builder);
+
+    const dropView = script.indexOf('DROP VIEW');
+    const addColumn = script.indexOf('ADD COLUMN "user_id"');
+    const addForeignKey = script.indexOf('ADD CONSTRAINT "orders_user_fk"');
+    const createView = script.indexOf('CREATE VIEW active_users AS SELECT * FROM users;');
+
+    expect(dropView).toBeGreaterThanOrEqual(0);
+    expect(addColumn).toBeGreaterThan(dropView);
+    expect(addForeignKey).toBeGreaterThan(addColumn);
+    expect(createView).toBeGreaterThan(addForeignKey);
+  });
+
+  it('ignores qualifier and whitespace differences in view definitions', () => {
+    const source = snapshot({
+      database: 'staging',
+      schema: 'app',
+      views: [{ name: 'v', definition: 'CREATE VIEW v AS\n  SELECT id FROM app.users' }],
+    });
+    const target = snapshot({
+      database: 'production',
+      schema: 'public',
+      views: [{ name: 'v', definition: 'create view v as select id from public.users;' }],
+    });
+
+    expect(compareSchemas(source, target, builder).differences).toEqual([]);
+  });
+
+  it('recreates views and triggers in the target schema when two schemas are compared', () => {
+    const source = snapshot({
+      schema: 'sales',
+      views: [{ name: 'v', definition: 'CREATE OR REPLACE VIEW "sales"."v" AS\n SELECT id FROM sales.orders' }],
+      triggers: [{
+        name: 'audit',
+        table: 'orders',
+        definition: 'CREATE TRIGGER audit AFTER INSERT ON sales.orders FOR EACH ROW EXECUTE FUNCTION sales.log_order()',
+      }],
+    });
+    const target = snapshot({ schema: 'sales_copy' });
+
+    const { script } = compareSchemas(source, target, builder);
+
+    expect(script).toContain('CREATE OR REPLACE VIEW "sales_copy"."v" AS\n SELECT id FROM sales_copy.orders;');
+    expect(script).toContain(
+      'CREATE TRIGGER audit AFTER INSERT ON sales_copy.orders FOR EACH ROW EXECUTE FUNCTION sales_copy.log_order();'
+    );
+    expect(script).not.toMatch(/\bsales\./);
+  });
+
+  it('drops the MySQL definer and renames the source database in views', () => {
+    const source = snapshot({
+      database: 'shop',
+      schema: undefined,
+      views: [{
+        name: 'v',
+        definition: 'CREATE ALGORITHM=UNDEFINED DEFINER=`root`@`%` SQL SECURITY DEFINER VIEW `v` AS select `shop`.`t`.`id` AS `id` from `shop`.`t`',
+      }],
+    });
+    const target = snapshot({ database: 'shop_test', schema: undefined });
+
+    const { script } = compareSchemas(source, target, builder);
+
+    expect(script).toContain(
+      'CREATE ALGORITHM=UNDEFINED SQL SECURITY DEFINER VIEW `v` AS select `shop_test`.`t`.`id` AS `id` from `shop_test`.`t`;'
+    );
+  });
+
+  it('leaves a definition that still names the source for review', () => {
+    const source = snapshot({
+      schema: 'sales',
+      views: [{ name: 'v', definition: "CREATE VIEW sales.v AS SELECT 'sales' AS origin" }],
+    });
+
+    const { script } = compareSchemas(source, snapshot({ schema: 'archive' }), builder);
+
+    expect(script).toBe(
+      '-- Create views\n-- Review view "v": its definition refers to the source by name and was not recreated'
+    );
+  });
+
+  it('flags expression defaults for review instead of quoting them', () => {
+    const source = snapshot({
+      tables: [
+        table('events', {
+          columns: [
+            column('id', { primaryKey: true, nullable: false }),
+            column('created_at', { type: 'timestamp', defaultValue: 'now()' }),
+            column('status', { type: 'text', defaultValue: "'new'::text" }),
+          ],
+        }),
+      ],
+    });
+
+    const { script } = compareSchemas(source, snapshot(), builder);
+
+    expect(script).toContain('-- Review default for "events"."created_at": now()');
+    expect(script).toContain("DEFAULT 'new'");
+    expect(script).not.toContain("'now()'");
+  });
+
+  it('leaves primary key changes to the user', () => {
+    const source = snapshot({
+      tables: [table('users', { indexes: [index('users_pkey', ['id', 'tenant_id'], { primary: true, unique: true })] })],
+    });
+    const target = snapshot({ tables: [table('users')] });
+
+    const { script } = compareSchemas(source, target, builder);
+
+    expect(script).toContain('-- Index "users_pkey" on "users" belongs to a key constraint and must be changed manually');
+    expect(script).not.toContain('DROP INDEX');
+  });
+
+  it('turns changes the builder cannot express into skipped comments', () => {
+    const sqliteLike = {
+      buildModifyColumnSQL: () => {
+        throw new Error('SQLite cannot modify columns. Table "users" must be recreated.');
+      },
+    } as unknown as SchemaScriptBuilder;
+    const source = snapshot({ tables: [table('users', { columns: [column('id', { type: 'bigint', primaryKey: true, nullable: false })] })] });
+    const target = snapshot({ tables: [table('users')] });
+
+    const { script } = compareSchemas(source, target, sqliteLike);
+
+    expect(script).toBe(
+      '-- Alter columns\n-- Skipped: SQLite cannot modify columns. Table "users" must be recreated.'
+    );
+  });
+});
+
+describe('loadSchemaSnapshot', () => {
+  it('reads tables, views and triggers and groups multi-column foreign keys', async () => {
+    const driver = {
+      type: DatabaseType.PostgreSQL,
+      getTables: vi.fn().mockResolvedValue([
+        { name: 'order_items', type: TableObjectType.Table },
+        { name: 'recent_orders', type: TableObjectType.View },
+      ]),
+      getColumns: vi.fn().mockResolvedValue([column('order_id'), column('line_no')]),
+      getIndexes: vi.fn().mockResolvedValue([]),
+      getForeignKeys: vi.fn().mockResolvedValue([
+        { name: 'items_fk', column: 'order_id', referencedTable: 'orders', referencedColumn: 'id', onDelete: 'CASCADE' },
+        { name: 'items_fk', column: 'line_no', referencedTable: 'orders', referencedColumn: 'line_no', onDelete: 'CASCADE' },
+      ]),
+      getViewDDL: vi.fn().mockResolvedValue('CREATE VIEW recent_orders AS SELECT 1'),
+      getTriggers: vi.fn().mockResolvedValue([{ name: 'audit', table: 'order_items' }]),
+      getTriggerDefinition: vi.fn().mockResolvedValue('CREATE TRIGGER audit ...'),
+    } as unknown as DatabaseDriver;
+
+    const result = await loadSchemaSnapshot(driver, 'app', 'public');
+
+    expect(result.tables).toHaveLength(1);
+    expect(result.tables[0].foreignKeys).toEqual([
+      {
+        name: 'items_fk',
+        columns: ['order_id', 'line_no'],
+        referencedTable: 'orders',
+        referencedSchema: undefined,
+        referencedColumns: ['id', 'line_no'],
+        onUpdate: undefined,
+        onDelete: 'CASCADE',
+      },
+    ]);
+    expect(result.views).toEqual([{ name: 'recent_orders', definition: 'CREATE VIEW recent_orders AS SELECT 1' }]);
+    expect(result.triggers).toEqual([
+      { name: 'audit', table: 'order_items', definition: 'CREATE TRIGGER audit ...' },
+    ]);
+    expect(driver.getTriggerDefinition).toHaveBeenCalledWith('audit', 'order_items');
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseType } from '@main/types';
+import type { DatabaseDriver } from '@main/db/base';
+import {
+  applySessionSettings,
+  buildSessionStatements,
+  hasSessionSettings,
+  SessionSetupError,
+} from '@main/services/sessionSettings';
+
+const settings = {
+  timezone: 'Europe/Berlin',
+  statementTimeout: 30000,
+  applicationName: "O'Brien's app",
+  initScript: 'SET search_path TO app, public;\n-- reporting role\nSET ROLE reporting;',
+};
+
+describe('buildSessionStatements', () => {
+  it('should build PostgreSQL SET statements followed by the init script', () => {
+    expect(buildSessionStatements(DatabaseType.PostgreSQL, settings)).toEqual([
+      "SET TIME ZONE 'Europe/Berlin'",
+      'SET statement_timeout = 30000',
+      "SET application_name = 'O''Brien''s app'",
+      'SET search_path TO app, public',
+      '-- reporting role\nSET ROLE reporting',
+    ]);
+  });
+
+  it('should use max_execution_time for MySQL and max_statement_time in seconds for MariaDB', () => {
+    expect(buildSessionStatements(DatabaseType.MySQL, { timezone: '+02:00', statementTimeout: 1500 })).toEqual([
+      "SET time_zone = '+02:00'",
+      'SET SESSION max_execution_time = 1500',
+    ]);
+    expect(buildSessionStatements(DatabaseType.MariaDB, { statementTimeout: 1500 })).toEqual([
+      'SET SESSION max_statement_time = 1.5',
+    ]);
+  });
+
+  it('should escape backslashes in MySQL literals', () => {
+    expect(buildSessionStatements(DatabaseType.MySQL, { timezone: "x\\' OR 1" })).toEqual([
+      "SET time_zone = 'x\\\\'' OR 1'",
+    ]);
+  });
+
+  it('should only run the init script on SQLite and nothing on engines without sessions', () => {
+    expect(buildSessionStatements(DatabaseType.SQLite, { ...settings, initScript: 'PRAGMA foreign_keys = ON' })).toEqual([
+      'PRAGMA foreign_keys = ON',
+    ]);
+    expect(buildSessionStatements(DatabaseType.Redis, settings)).toEqual([]);
+    expect(buildSessionStatements(DatabaseType.MongoDB, settings)).toEqual([]);
+  });
+
+  it('should skip blank fields and comment-only chunks', () => {
+    expect(buildSessionStatements(DatabaseType.PostgreSQL, { timezone: ' ', statementTimeout: 0, initScript: '-- nothing yet;' })).toEqual([]);
+    expect(hasSessionSettings({ timezone: ' ', applicationName: '' })).toBe(false);
+    expect(hasSessionSettings({ initScript: 'SET ROLE reporting' })).toBe(true);
+  });
+});
+
+describe('applySessionSettings', () => {
+  it('should stop at the first failing statement', async () => {
+    const execute = vi.fn()
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows: [], error: 'role "reporting" does not exist' });
+    const driver = { execute } as unknown as DatabaseDriver;
+
+    await expect(applySessionSettings(driver, DatabaseType.PostgreSQL, { timezone: 'UTC', initScript: 'SET ROLE reporting; SELECT 1' }))
+      .rejects.toThrow(SessionSetupError);
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+});
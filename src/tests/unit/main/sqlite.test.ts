@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { DatabaseType, TableObjectType } from '@main/types';
 import type { ConnectionConfig, DataOptions } from '@main/types';
-import { SQLITE_DATA_TYPES } from '@main/types/schema-operations';
+import { SQLITE_DATA_TYPES, RowChangeType } from '@main/types/schema-operations';
 
 // --- Mock better-sqlite3 ---
 // vi.hoisted ensures these are available when vi.mock factory runs (hoisted)
@@ -247,6 +247,43 @@ describe('SQLiteDriver', () => {
       expect(result.executionTime).toBeGreaterThanOrEqual(0);
     });
 
+    it('should stop iterating at the row limit and flag the result as truncated', async () => {
+      await driver.connect(testConfig);
+
+      const rows = [{ id: 1 }, { id: 2 }, { id: 3 }];
+      const iterate = vi.fn(() => rows[Symbol.iterator]());
+      mockPrepare.mockReturnValue({
+        all: vi.fn(),
+        iterate,
+        run: mockRun,
+        get: mockGet,
+        columns: vi.fn().mockReturnValue([{ name: 'id', type: 'INTEGER' }]),
+      });
+
+      const result = await driver.execute('SELECT id FROM users', undefined, { maxRows: 2, timeout: 0 });
+
+      expect(iterate).toHaveBeenCalled();
+      expect(result.rows).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(result.truncated).toBe(true);
+    });
+
+    it('should not flag a result that fits within the row limit', async () => {
+      await driver.connect(testConfig);
+
+      mockPrepare.mockReturnValue({
+        all: vi.fn(),
+        iterate: vi.fn(() => [{ id: 1 }][Symbol.iterator]()),
+        run: mockRun,
+        get: mockGet,
+        columns: vi.fn().mockReturnValue([{ name: 'id', type: 'INTEGER' }]),
+      });
+
+      const result = await driver.execute('SELECT id FROM users', undefined, { maxRows: 2, timeout: 0 });
+
+      expect(result.rowCount).toBe(1);
+      expect(result.truncated).toBeUndefined();
+    });
+
     it('should handle PRAGMA queries as SELECT', async () => {
       await driver.connect(testConfig);
 
@@ -1194,6 +1231,68 @@ describe('SQLiteDriver', () => {
     });
   });
 
+  describe('applyChangeset', () => {
+    it('should apply all changes inside a transaction', async () => {
+      await driver.connect(testConfig);
+
+      const mockRunFn = vi.fn().mockReturnValue({ changes: 1 });
+      mockPrepare.mockReturnValue({
+        all: mockAll,
+        run: mockRunFn,
+        get: mockGet,
+        columns: mockColumns,
+      });
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Delete, where: { id: 1 } },
+          { type: RowChangeType.Update, where: { id: 2 }, values: { name: 'Bob' } },
+          { type: RowChangeType.Insert, values: { name: 'Carol' } },
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.results).toHaveLength(3);
+      expect(result.results[1].sql).toBe('UPDATE "users" SET "name" = ? WHERE "id" = ?');
+      expect(mockRunFn).toHaveBeenCalledWith('Bob', 2);
+      expect(mockExec).toHaveBeenCalledWith('BEGIN');
+      expect(mockExec).toHaveBeenCalledWith('COMMIT');
+      expect(mockExec).not.toHaveBeenCalledWith('ROLLBACK');
+    });
+
+    it('should roll back and report the failing change', async () => {
+      await driver.connect(testConfig);
+
+      const mockRunFn = vi.fn()
+        .mockReturnValueOnce({ changes: 1 })
+        .mockImplementationOnce(() => { throw new Error('UNIQUE constraint failed'); });
+      mockPrepare.mockReturnValue({
+        all: mockAll,
+        run: mockRunFn,
+        get: mockGet,
+        columns: mockColumns,
+      });
+
+      const result = await driver.applyChangeset({
+        table: 'users',
+        changes: [
+          { type: RowChangeType.Insert, values: { id: 1 } },
+          { type: RowChangeType.Insert, values: { id: 1 } },
+          { type: RowChangeType.Insert, values: { id: 2 } },
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.error).toBe('UNIQUE constraint failed');
+      expect(result.results).toHaveLength(2);
+      expect(result.results[1]).toMatchObject({ index: 1, success: false });
+      expect(mockExec).toHaveBeenCalledWith('ROLLBACK');
+      expect(mockExec).not.toHaveBeenCalledWith('COMMIT');
+    });
+  });
+
   describe('createView', () => {
     it('should create a view', async () => {
       await driver.connect(testConfig);
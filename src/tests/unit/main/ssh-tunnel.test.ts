@@ -84,6 +84,13 @@ vi.mock('@main/utils/logger', () => ({
   },
 }));
 
+// ── Mock: known hosts ──────────────────────────────────────────────────────
+const mockVerifyHostKey = vi.fn();
+
+vi.mock('@main/services/knownHosts', () => ({
+  verifyHostKey: (...args: unknown[]) => mockVerifyHostKey(...args),
+}));
+
 // ── Helpers ────────────────────────────────────────────────────────────────
 const makeSSHConfig = (overrides?: Partial<SSHConfig>): SSHConfig => ({
   enabled: true,
@@ -295,7 +302,7 @@ describe('SSHTunnelManager', () => {
       );
     });
 
-    it('should set readyTimeout to 30000', async () => {
+    it('should leave the ready timeout to the tunnel instead of ssh2', async () => {
       const promise = sshTunnelManager.createTunnel(
         'conn-to',
         makeSSHConfig(),
@@ -308,9 +315,24 @@ describe('SSHTunnelManager', () => {
       await promise;
 
       expect(mockClientInstance.connect).toHaveBeenCalledWith(
-        expect.objectContaining({ readyTimeout: 30000 })
+        expect.objectContaining({ readyTimeout: 0 })
       );
     });
+
+    it('should fail a hop that is not ready after 30 seconds', async () => {
+      vi.useFakeTimers();
+      try {
+        const promise = sshTunnelManager.createTunnel('conn-slow', makeSSHConfig(), 'db', 5432);
+        const assertion = expect(promise).rejects.toThrow('Timed out while waiting for the SSH handshake with ssh.example.com');
+
+        await vi.advanceTimersByTimeAsync(30000);
+
+        await assertion;
+        expect(mockClientInstance.end).toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
   });
 
   // ── Port forwarding (server connection callback) ───────────────────────
@@ -537,4 +559,150 @@ describe('SSHTunnelManager', () => {
       expect(logger.info).toHaveBeenCalledWith('SSH handshake completed', negotiated);
     });
   });
+
+  // ── Jump hosts ─────────────────────────────────────────────────────────
+  describe('jump hosts', () => {
+    it('should connect each hop over a forwarded stream of the previous one', async () => {
+      const config = makeSSHConfig({
+        jumpHosts: [{ host: 'bastion.example.com', port: 2222, username: 'jump', authMethod: 'password', password: 'j' }],
+      });
+
+      const promise = sshTunnelManager.createTunnel('conn-jump', config, 'db.internal', 5432);
+
+      await vi.waitFor(() => expect(mockClientInstance.connect).toHaveBeenCalled());
+      const bastion = mockClientInstance;
+      expect(bastion.connect).toHaveBeenCalledWith(expect.objectContaining({ host: 'bastion.example.com', port: 2222 }));
+
+      bastion.emit('ready');
+      expect(bastion.forwardOut).toHaveBeenCalledWith('127.0.0.1', 0, 'ssh.example.com', 22, expect.any(Function));
+
+      const hopStream = { pipe: vi.fn() };
+      const forwardCallback = bastion.forwardOut.mock.calls[0][4] as (err: Error | null, stream: unknown) => void;
+      forwardCallback(null, hopStream);
+
+      const target = mockClientInstance;
+      expect(target).not.toBe(bastion);
+      expect(target.connect).toHaveBeenCalledWith(expect.objectContaining({ host: 'ssh.example.com', sock: hopStream }));
+
+      target.emit('ready');
+      await expect(promise).resolves.toBe(54321);
+
+      // Database traffic leaves from the last hop
+      serverConnectionCallback!(mockSocket);
+      expect(target.forwardOut).toHaveBeenCalledWith('127.0.0.1', 12345, 'db.internal', 5432, expect.any(Function));
+
+      sshTunnelManager.closeTunnel('conn-jump');
+      expect(bastion.end).toHaveBeenCalled();
+      expect(target.end).toHaveBeenCalled();
+    });
+
+    it('should reject when a jump host cannot reach the next hop', async () => {
+      const config = makeSSHConfig({
+        jumpHosts: [{ host: 'bastion.example.com', port: 22, username: 'jump', authMethod: 'password' }],
+      });
+
+      const promise = sshTunnelManager.createTunnel('conn-jump-err', config, 'db.internal', 5432);
+
+      await vi.waitFor(() => expect(mockClientInstance.connect).toHaveBeenCalled());
+      const bastion = mockClientInstance;
+      bastion.emit('ready');
+      const forwardCallback = bastion.forwardOut.mock.calls[0][4] as (err: Error | null, stream: unknown) => void;
+      forwardCallback(new Error('Connection refused'), undefined);
+
+      await expect(promise).rejects.toThrow('Jump host bastion.example.com could not reach ssh.example.com:22: Connection refused');
+      expect(bastion.end).toHaveBeenCalled();
+      expect(mockServerClose).toHaveBeenCalled();
+    });
+  });
+
+  // ── Agent authentication ───────────────────────────────────────────────
+  describe('agent authentication', () => {
+    const originalSocket = process.env.SSH_AUTH_SOCK;
+
+    afterEach(() => {
+      if (originalSocket === undefined) delete process.env.SSH_AUTH_SOCK;
+      else process.env.SSH_AUTH_SOCK = originalSocket;
+    });
+
+    it('should authenticate through SSH_AUTH_SOCK', async () => {
+      process.env.SSH_AUTH_SOCK = '/tmp/ssh-agent.sock';
+
+      const promise = sshTunnelManager.createTunnel('conn-agent', makeSSHConfig({ authMethod: 'agent', password: undefined }), 'db', 5432);
+
+      await vi.waitFor(() => expect(mockClientInstance.connect).toHaveBeenCalled());
+      mockClientInstance.emit('ready');
+      await promise;
+
+      const callArg = mockClientInstance.connect.mock.calls[0][0] as Record<string, unknown>;
+      expect(callArg.agent).toBe('/tmp/ssh-agent.sock');
+      expect(callArg.password).toBeUndefined();
+    });
+
+    it.skipIf(process.platform === 'win32')('should reject when no agent is running', async () => {
+      delete process.env.SSH_AUTH_SOCK;
+
+      await expect(sshTunnelManager.createTunnel('conn-no-agent', makeSSHConfig({ authMethod: 'agent' }), 'db', 5432))
+        .rejects.toThrow('SSH_AUTH_SOCK is not set');
+      expect(sshTunnelManager.hasTunnel('conn-no-agent')).toBe(false);
+    });
+  });
+
+  // ── Host key verification ──────────────────────────────────────────────
+  describe('host key verification', () => {
+    const startTunnel = async (connectionId: string) => {
+      const promise = sshTunnelManager.createTunnel(connectionId, makeSSHConfig(), 'db', 5432);
+      await vi.waitFor(() => expect(mockClientInstance.connect).toHaveBeenCalled());
+      const { hostVerifier } = mockClientInstance.connect.mock.calls[0][0] as {
+        hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => void
+      };
+      return { promise, hostVerifier };
+    };
+
+    it('should accept keys the known hosts accept', async () => {
+      mockVerifyHostKey.mockResolvedValue(undefined);
+      const { promise, hostVerifier } = await startTunnel('conn-hk');
+      const verify = vi.fn();
+      const key = Buffer.from('key');
+
+      hostVerifier(key, verify);
+
+      await vi.waitFor(() => expect(verify).toHaveBeenCalledWith(true));
+      expect(mockVerifyHostKey).toHaveBeenCalledWith('ssh.example.com', 22, key);
+      mockClientInstance.emit('ready');
+      await promise;
+    });
+
+    it('should not count the time spent verifying the host key against the ready timeout', async () => {
+      vi.useFakeTimers();
+      try {
+        let accept: () => void = () => undefined;
+        mockVerifyHostKey.mockReturnValue(new Promise<void>((resolve) => { accept = resolve; }));
+        const { promise, hostVerifier } = await startTunnel('conn-hk-prompt');
+        const verify = vi.fn();
+
+        hostVerifier(Buffer.from('key'), verify);
+        await vi.advanceTimersByTimeAsync(60000);
+        accept();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(verify).toHaveBeenCalledWith(true);
+
+        mockClientInstance.emit('ready');
+        await expect(promise).resolves.toBe(54321);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should reject with the verification error instead of the handshake error', async () => {
+      mockVerifyHostKey.mockRejectedValue(new Error('Host key of ssh.example.com:22 was not trusted'));
+      const { promise, hostVerifier } = await startTunnel('conn-hk-bad');
+      const verify = vi.fn();
+
+      hostVerifier(Buffer.from('key'), verify);
+      await vi.waitFor(() => expect(verify).toHaveBeenCalledWith(false));
+      mockClientInstance.emit('error', new Error('Handshake failed: host verification failed'));
+
+      await expect(promise).rejects.toThrow('Host key of ssh.example.com:22 was not trusted');
+    });
+  });
 });
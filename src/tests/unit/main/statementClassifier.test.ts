@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyMongoCommand,
+  classifyRedisCommand,
+  classifyStatement,
+  classifyStatements,
+  StatementType,
+} from '@main/services/statementClassifier';
+import { tokenizeSql, SqlTokenType } from '@main/utils/sql';
+import { DatabaseType } from '@main/types';
+
+describe('tokenizeSql', () => {
+  it('should give back the input when the tokens are joined', () => {
+    const sql = "SELECT 'a;b', \"c\" -- x\n/* y */ FROM $tag$ body; $tag$";
+
+    expect(tokenizeSql(sql).map((t) => t.text).join('')).toBe(sql);
+  });
+
+  it('should keep quoted text in a single token', () => {
+    const tokens = tokenizeSql("SELECT 'it''s', `a``b`, $$x;y$$").filter((t) => t.type !== SqlTokenType.Whitespace);
+
+    expect(tokens.map((t) => t.type)).toEqual([
+      SqlTokenType.Word,
+      SqlTokenType.String,
+      SqlTokenType.Symbol,
+      SqlTokenType.QuotedIdentifier,
+      SqlTokenType.Symbol,
+      SqlTokenType.String,
+    ]);
+  });
+
+  it('should not read positional parameters as dollar quotes', () => {
+    const tokens = tokenizeSql('$1, $2');
+
+    expect(tokens.some((t) => t.type === SqlTokenType.String)).toBe(false);
+  });
+});
+
+describe('classifyStatement', () => {
+  it('should find data-modifying CTEs behind a SELECT', () => {
+    const result = classifyStatement('WITH gone AS (DELETE FROM orders WHERE id = 1 RETURNING *) SELECT * FROM gone');
+
+    expect(result.type).toBe(StatementType.Delete);
+    expect(result.keyword).toBe('WITH ... DELETE');
+    expect(result.destructive).toBe(false);
+  });
+
+  it('should classify a CTE feeding a write by its main statement', () => {
+    expect(classifyStatement('WITH src AS (SELECT 1 AS id) INSERT INTO t SELECT id FROM src').type).toBe(StatementType.Insert);
+    expect(classifyStatement('WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n) SELECT * FROM n').type)
+      .toBe(StatementType.Select);
+  });
+
+  it('should not mistake DELETE inside a string or nested subquery for the CTE body', () => {
+    expect(classifyStatement("WITH a AS (SELECT 'DELETE' AS op) SELECT * FROM a").type).toBe(StatementType.Select);
+  });
+
+  it('should tell SELECT ... INTO targets apart', () => {
+    expect(classifyStatement('SELECT * INTO archive FROM orders').type).toBe(StatementType.Create);
+    expect(classifyStatement('SELECT count(*) INTO @total FROM orders').type).toBe(StatementType.Select);
+    expect(classifyStatement("SELECT * FROM orders INTO OUTFILE '/tmp/o.csv'").keyword).toBe('SELECT ... INTO OUTFILE');
+    expect(classifyStatement('SELECT * FROM orders WHERE id IN (SELECT id INTO x FROM y)').type).toBe(StatementType.Select);
+  });
+
+  it('should classify COPY by direction', () => {
+    expect(classifyStatement("COPY orders FROM '/tmp/orders.csv'").type).toBe(StatementType.Insert);
+    expect(classifyStatement('COPY (SELECT * FROM orders) TO STDOUT').type).toBe(StatementType.Select);
+    expect(classifyStatement("COPY orders TO '/tmp/orders.csv'").type).toBe(StatementType.Other);
+  });
+
+  it('should treat procedures and blocks as Other', () => {
+    expect(classifyStatement('CALL refresh_totals()').type).toBe(StatementType.Other);
+    expect(classifyStatement('DO $$ BEGIN DELETE FROM t; END $$').type).toBe(StatementType.Other);
+    expect(classifyStatement('EXEC sp_cleanup').keyword).toBe('EXEC');
+  });
+
+  it('should classify MySQL LOAD DATA as an insert', () => {
+    const result = classifyStatement("LOAD DATA LOCAL INFILE '/tmp/o.csv' INTO TABLE orders");
+
+    expect(result.type).toBe(StatementType.Insert);
+    expect(result.keyword).toBe('LOAD DATA');
+  });
+
+  it('should classify INSERT ... SELECT as an insert', () => {
+    const result = classifyStatement('INSERT INTO events_daily SELECT toDate(ts), count() FROM events GROUP BY 1');
+
+    expect(result.type).toBe(StatementType.Insert);
+    expect(result.keyword).toBe('INSERT ... SELECT');
+  });
+
+  it('should classify ClickHouse mutations but not foreign key actions', () => {
+    expect(classifyStatement('ALTER TABLE events DELETE WHERE ts < now() - INTERVAL 1 YEAR').type).toBe(StatementType.Delete);
+    expect(classifyStatement('ALTER TABLE events UPDATE status = 1 WHERE id = 2').type).toBe(StatementType.Update);
+    expect(classifyStatement('ALTER TABLE o ADD FOREIGN KEY (c) REFERENCES c (id) ON DELETE CASCADE').type).toBe(StatementType.Alter);
+  });
+
+  it('should flag ALTER ... DROP COLUMN as destructive but not DROP DEFAULT', () => {
+    expect(classifyStatement('ALTER TABLE orders DROP COLUMN note').destructive).toBe(true);
+    expect(classifyStatement('ALTER TABLE orders ALTER COLUMN note DROP DEFAULT').destructive).toBe(false);
+  });
+
+  it('should only look at WHERE on the outer statement', () => {
+    expect(classifyStatement('DELETE FROM orders WHERE id IN (SELECT id FROM old)').destructive).toBe(false);
+    expect(classifyStatement('UPDATE orders SET total = (SELECT sum(x) FROM items WHERE items.o = 1)').destructive).toBe(true);
+  });
+
+  it('should classify what EXPLAIN ANALYZE runs', () => {
+    expect(classifyStatement('EXPLAIN SELECT 1').type).toBe(StatementType.Select);
+    expect(classifyStatement('EXPLAIN DELETE FROM orders').type).toBe(StatementType.Select);
+    expect(classifyStatement('EXPLAIN (ANALYZE, BUFFERS) DELETE FROM orders WHERE id = 1').keyword).toBe('EXPLAIN ANALYZE DELETE');
+  });
+
+  it('should separate session settings from server settings', () => {
+    expect(classifyStatement('SET search_path TO app').type).toBe(StatementType.Session);
+    expect(classifyStatement('SET GLOBAL max_connections = 500').type).toBe(StatementType.Other);
+    expect(classifyStatement('START TRANSACTION').type).toBe(StatementType.Session);
+    expect(classifyStatement('PRAGMA table_info(users)').type).toBe(StatementType.Select);
+    expect(classifyStatement('PRAGMA user_version = 3').type).toBe(StatementType.Other);
+  });
+});
+
+describe('classifyRedisCommand', () => {
+  it('should classify by command name', () => {
+    expect(classifyRedisCommand('GET session:1').type).toBe(StatementType.Select);
+    expect(classifyRedisCommand('hgetall user:1').type).toBe(StatementType.Select);
+    expect(classifyRedisCommand('SELECT 2').type).toBe(StatementType.Session);
+    expect(classifyRedisCommand('SET k v').type).toBe(StatementType.Update);
+    expect(classifyRedisCommand('EXPIRE k 60').type).toBe(StatementType.Update);
+    expect(classifyRedisCommand('DEL k').type).toBe(StatementType.Delete);
+    expect(classifyRedisCommand('EVAL "return 1" 0').type).toBe(StatementType.Other);
+  });
+
+  it('should treat FLUSHDB and FLUSHALL as destructive', () => {
+    const result = classifyRedisCommand('FLUSHALL');
+
+    expect(result.type).toBe(StatementType.Truncate);
+    expect(result.destructive).toBe(true);
+  });
+
+  it('should only let CONFIG GET through as a read', () => {
+    expect(classifyRedisCommand('CONFIG GET maxmemory').type).toBe(StatementType.Select);
+    expect(classifyRedisCommand('CONFIG SET maxmemory 1gb').type).toBe(StatementType.Other);
+  });
+});
+
+describe('classifyMongoCommand', () => {
+  it('should classify by method', () => {
+    expect(classifyMongoCommand('db.orders.find({ status: "open" })').type).toBe(StatementType.Select);
+    expect(classifyMongoCommand('db.getCollectionNames()').type).toBe(StatementType.Select);
+    expect(classifyMongoCommand('db.orders.insertOne({ a: 1 })').type).toBe(StatementType.Insert);
+    expect(classifyMongoCommand('db.orders.updateOne({ _id: 1 }, { $set: { a: 2 } })').type).toBe(StatementType.Update);
+    expect(classifyMongoCommand('db.orders.drop()').type).toBe(StatementType.Drop);
+    expect(classifyMongoCommand('db.orders.constructor()').type).toBe(StatementType.Other);
+  });
+
+  it('should treat aggregations writing with $out or $merge as inserts', () => {
+    const result = classifyMongoCommand('db.orders.aggregate([{ $match: {} }, { $out: "archive" }])');
+
+    expect(result.type).toBe(StatementType.Insert);
+    expect(result.keyword).toBe('aggregate with $out');
+    expect(classifyMongoCommand('db.orders.aggregate([{ $match: {} }])').type).toBe(StatementType.Select);
+  });
+
+  it('should flag deleteMany and updateMany without a filter as destructive', () => {
+    expect(classifyMongoCommand('db.orders.deleteMany({})').destructive).toBe(true);
+    expect(classifyMongoCommand('db.orders.deleteMany()').destructive).toBe(true);
+    expect(classifyMongoCommand('db.orders.updateMany({ }, { $set: { a: 1 } })').destructive).toBe(true);
+    expect(classifyMongoCommand('db.orders.deleteMany({ status: "void" })').destructive).toBe(false);
+  });
+});
+
+describe('classifyStatements', () => {
+  it('should classify each statement of a script and skip comment-only ones', () => {
+    const result = classifyStatements(DatabaseType.PostgreSQL, 'SELECT 1; -- done\n; DELETE FROM t WHERE id = 1');
+
+    expect(result.map((s) => s.type)).toEqual([StatementType.Select, StatementType.Delete]);
+    expect(result[1].sql).toBe('DELETE FROM t WHERE id = 1');
+  });
+
+  it('should use the Redis and MongoDB rules for those databases', () => {
+    expect(classifyStatements(DatabaseType.Redis, 'SET k v')[0].keyword).toBe('SET');
+    expect(classifyStatements(DatabaseType.MongoDB, 'db.orders.deleteOne({ _id: 1 })')[0].keyword).toBe('deleteOne');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: () => [],
+  },
+}));
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import {
+  buildMaintenanceSQL,
+  estimatePostgreSQLBloat,
+  MaintenanceOperation,
+  MaintenanceTaskStatus,
+  MaintenanceTracker,
+  type MaintenanceMessage,
+  type MaintenanceRunner,
+  type MaintenanceTask,
+  type MaintenanceTaskContext,
+} from '@main/services/tableMaintenance';
+import { DatabaseType } from '@main/types';
+
+const request = {
+  connectionId: 'conn-1',
+  database: 'app',
+  table: 'orders',
+  operation: MaintenanceOperation.Vacuum,
+  sql: 'VACUUM "public"."orders"',
+};
+
+// A runner whose promise is settled from the test
+const deferredRunner = () => {
+  let resolve: (messages: MaintenanceMessage[]) => void = () => undefined;
+  let reject: (error: Error) => void = () => undefined;
+  let context: MaintenanceTaskContext | undefined;
+  const run: MaintenanceRunner = vi.fn((taskContext) => {
+    context = taskContext;
+    return new Promise<MaintenanceMessage[]>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+  });
+  return { run, resolve: (m: MaintenanceMessage[]) => resolve(m), reject: (e: Error) => reject(e), context: () => context! };
+};
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('buildMaintenanceSQL', () => {
+  it('should qualify the table with the schema on PostgreSQL', () => {
+    expect(buildMaintenanceSQL(DatabaseType.PostgreSQL, MaintenanceOperation.VacuumFull, 'orders', 'sales')).toBe('VACUUM (FULL) "sales"."orders"');
+    expect(buildMaintenanceSQL(DatabaseType.PostgreSQL, MaintenanceOperation.Reindex, 'my"table')).toBe('REINDEX TABLE "my""table"');
+  });
+
+  it('should qualify the table with the database on MySQL and MariaDB', () => {
+    expect(buildMaintenanceSQL(DatabaseType.MySQL, MaintenanceOperation.Optimize, 'orders', 'shop')).toBe('OPTIMIZE TABLE `shop`.`orders`');
+    expect(buildMaintenanceSQL(DatabaseType.MariaDB, MaintenanceOperation.Check, 'orders', 'shop')).toBe('CHECK TABLE `shop`.`orders`');
+  });
+
+  it('should refuse operations the engine does not have', () => {
+    expect(() => buildMaintenanceSQL(DatabaseType.MySQL, MaintenanceOperation.Vacuum, 'orders')).toThrow('vacuum is not supported for mysql connections');
+    expect(() => buildMaintenanceSQL(DatabaseType.SQLite, MaintenanceOperation.Analyze, 'orders')).toThrow();
+  });
+});
+
+describe('estimatePostgreSQLBloat', () => {
+  const input = { heapBytes: 8192 * 100, estimatedTuples: 1000, rowWidth: 100, blockSize: 8192, fillfactor: 100 };
+
+  it('should count the heap beyond the pages the live tuples need', () => {
+    // 24 + 104 + 4 = 132 bytes per tuple, 61 per page, 17 pages
+    expect(estimatePostgreSQLBloat(input)).toBe(8192 * 83);
+  });
+
+  it('should leave room for the fillfactor and never go below zero', () => {
+    expect(estimatePostgreSQLBloat({ ...input, heapBytes: 8192 * 10, fillfactor: 50 })).toBe(0);
+  });
+
+  it('should give no estimate for a table that was never analyzed', () => {
+    expect(estimatePostgreSQLBloat({ ...input, rowWidth: null })).toBeNull();
+    expect(estimatePostgreSQLBloat({ ...input, estimatedTuples: -1 })).toBeNull();
+  });
+});
+
+describe('MaintenanceTracker', () => {
+  let emitted: MaintenanceTask[];
+  let tracker: MaintenanceTracker;
+
+  beforeEach(() => {
+    emitted = [];
+    tracker = new MaintenanceTracker((task) => emitted.push(task));
+  });
+
+  it('should broadcast progress and finish with the runner\'s messages', async () => {
+    const runner = deferredRunner();
+    const task = tracker.start(request, runner.run);
+
+    expect(task.status).toBe(MaintenanceTaskStatus.Running);
+    runner.context().reportProgress({ phase: 'scanning heap', done: 10, total: 40 });
+    runner.resolve([{ level: 'status', text: 'OK' }]);
+    await flush();
+
+    expect(emitted.map((t) => t.status)).toEqual([
+      MaintenanceTaskStatus.Running,
+      MaintenanceTaskStatus.Running,
+      MaintenanceTaskStatus.Completed,
+    ]);
+    expect(emitted[1].progress).toEqual({ phase: 'scanning heap', done: 10, total: 40 });
+    expect(tracker.list('conn-1')[0]).toMatchObject({ progress: null, messages: [{ level: 'status', text: 'OK' }] });
+  });
+
+  it('should fail a task whose messages contain an error', async () => {
+    const runner = deferredRunner();
+    tracker.start({ ...request, operation: MaintenanceOperation.Check }, runner.run);
+    runner.resolve([{ level: 'Error', text: 'Table is marked as crashed' }, { level: 'status', text: 'Corrupt' }]);
+    await flush();
+
+    expect(tracker.list('conn-1')[0]).toMatchObject({ status: MaintenanceTaskStatus.Failed, error: 'Table is marked as crashed' });
+  });
+
+  it('should allow one running operation per table', async () => {
+    const runner = deferredRunner();
+    tracker.start(request, runner.run);
+
+    expect(() => tracker.start(request, runner.run)).toThrow('VACUUM "public"."orders" is still running on orders');
+    expect(() => tracker.start({ ...request, table: 'customers' }, deferredRunner().run)).not.toThrow();
+
+    runner.resolve([]);
+    await flush();
+    expect(() => tracker.start(request, deferredRunner().run)).not.toThrow();
+  });
+
+  it('should abort the runner\'s signal on cancel and end as canceled', async () => {
+    const runner = deferredRunner();
+    const task = tracker.start(request, runner.run);
+
+    expect(tracker.cancel(task.id)).toBe(true);
+    expect(runner.context().signal.aborted).toBe(true);
+    runner.reject(new Error('canceling statement due to user request'));
+    await flush();
+
+    expect(tracker.list('conn-1')[0].status).toBe(MaintenanceTaskStatus.Canceled);
+    expect(tracker.cancel(task.id)).toBe(false);
+  });
+
+  it('should only list the tasks of the given connection', () => {
+    tracker.start(request, deferredRunner().run);
+    tracker.start({ ...request, connectionId: 'conn-2' }, deferredRunner().run);
+
+    expect(tracker.list('conn-2').map((t) => t.connectionId)).toEqual(['conn-2']);
+  });
+});
@@ -0,0 +1,447 @@
+import { describe, it, expect, vi } from 'vitest';
+import { DatabaseType, type Column } from '@main/types';
+import type { DatabaseDriver } from '@main/db/base';
+import {
+  MYSQL_DATA_TYPES,
+  POSTGRESQL_DATA_TYPES,
+  SQLITE_DATA_TYPES,
+} from '@main/types/schema-operations';
+
+vi.mock('electron', () => ({
+  BrowserWindow: {
+    getAllWindows: vi.fn(() => []),
+  },
+}));
+
+import {
+  buildTransferPlan,
+  mapColumnType,
+  runTransfer,
+  toTargetValue,
+  TransferConflictMode,
+  type TransferOptions,
+  type TransferTablePlan,
+} from '@main/services/transfer';
+
+// ── Helpers ──
+
+const column = (name: string, overrides: Partial<Column> = {}): Column => ({
+  name,
+  type: 'integer',
+  nullable: true,
+  defaultValue: null,
+  primaryKey: false,
+  autoIncrement: false,
+  unique: false,
+  ...overrides,
+});
+
+vi.mock('@main/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+// A source without cursors, paged through getTableData
+const createSource = (rows: Record<string, unknown>[]) => ({
+  type: DatabaseType.PostgreSQL,
+  getDataTypes: () => POSTGRESQL_DATA_TYPES,
+  getColumns: vi.fn().mockResolvedValue([
+    column('id', { type: 'int4', primaryKey: true, nullable: false }),
+    column('name', { type: 'varchar', length: 80 }),
+    column('active', { type: 'bool' }),
+  ]),
+  getPrimaryKeyColumns: vi.fn().mockResolvedValue(['id']),
+  openTableCursor: vi.fn().mockResolvedValue(null),
+  getTableData: vi.fn().mockImplementation(async (_table: string, options: { offset: number; limit: number }) => ({
+    columns: [],
+    rows: rows.slice(options.offset, options.offset + options.limit),
+    totalCount: rows.length,
+    offset: options.offset,
+    limit: options.limit,
+  })),
+}) as unknown as DatabaseDriver;
+
+// A SQL target keyed by id that honors the conflict clause of the INSERTs it is given
+const createTarget = (type: DatabaseType, existingIds: number[] = []) => {
+  const stored = new Map<number, Record<string, unknown>>(existingIds.map((id) => [id, { id }]));
+  const execute = vi.fn(async (sql: string, params: unknown[] = []) => {
+    if (sql.startsWith('SELECT COUNT(*)')) {
+      return { rows: [{ count: params.filter((id) => stored.has(id as number)).length }] };
+    }
+    const pending: Record<string, unknown>[] = [];
+    for (let i = 0; i < params.length; i += 2) {
+      pending.push({ id: params[i], name: params[i + 1] });
+    }
+    const upsert = sql.includes('ON CONFLICT') || sql.includes('ON DUPLICATE KEY');
+    if (!upsert && pending.some((row) => stored.has(row.id as number))) {
+      return { rows: [], error: 'UNIQUE constraint failed: users.id' };
+    }
+    const updates = sql.includes('DO UPDATE') || sql.includes('= VALUES(');
+    let affectedRows = 0;
+    for (const row of pending) {
+      if (stored.has(row.id as number) && !updates) {
+        // mysql2 reports found rows, so a duplicate left as is still counts
+        if (type === DatabaseType.MySQL) affectedRows++;
+        continue;
+      }
+      stored.set(row.id as number, row);
+      affectedRows++;
+    }
+    return { rows: [], affectedRows };
+  });
+  return {
+    type,
+    stored,
+    execute,
+    getDataTypes: () => (type === DatabaseType.SQLite ? SQLITE_DATA_TYPES : MYSQL_DATA_TYPES),
+    getTables: vi.fn().mockResolvedValue([{ name: 'accounts' }]),
+    getColumns: vi.fn().mockResolvedValue([column('id', { primaryKey: true }), column('NAME', { type: 'text' })]),
+    getPrimaryKeyColumns: vi.fn().mockResolvedValue(['id']),
+    createTable: vi.fn().mockResolvedValue({ success: true }),
+    insertRow: vi.fn().mockImplementation(async ({ values }: { values: Record<string, unknown> }) => {
+      const id = values.id as number;
+      if (stored.has(id)) return { success: false, error: 'E11000 duplicate key error collection: app.users' };
+      stored.set(id, values);
+      return { success: true };
+    }),
+    deleteRow: vi.fn().mockImplementation(async ({ primaryKeyValues }: { primaryKeyValues: Record<string, unknown> }) => {
+      stored.delete(primaryKeyValues.id as number);
+      return { success: true };
+    }),
+  };
+};
+
+const tablePlan = (overrides: Partial<TransferTablePlan> = {}): TransferTablePlan => ({
+  sourceTable: 'users',
+  targetTable: 'users',
+  targetExists: false,
+  createTable: false,
+  totalRows: 3,
+  columns: [
+    { sourceColumn: 'id', sourceType: 'int4', targetColumn: 'id', targetType: 'INTEGER', nullable: false, primaryKey: true },
+    { sourceColumn: 'name', sourceType: 'varchar', targetColumn: 'name', targetType: 'TEXT', nullable: true, primaryKey: false },
+  ],
+  ...overrides,
+});
+
+const options = (overrides: Partial<TransferOptions> = {}): TransferOptions => ({
+  transferId: 't1',
+  source: { connectionId: 'pg', database: 'app' },
+  target: { connectionId: 'lite', database: 'main' },
+  tables: [tablePlan()],
+  conflictMode: TransferConflictMode.Fail,
+  ...overrides,
+});
+
+const users = [
+  { id: 1, name: 'Ada', active: true },
+  { id: 2, name: 'Grace', active: false },
+  { id: 3, name: 'Linus', active: true },
+];
+
+// ── Tests ──
+
+describe('mapColumnType', () => {
+  it('keeps a type the target also offers, with its length', () => {
+    const mapping = mapColumnType(
+      column('name', { type: 'varchar', length: 80 }),
+      DatabaseType.PostgreSQL,
+      POSTGRESQL_DATA_TYPES,
+      MYSQL_DATA_TYPES
+    );
+
+    expect(mapping).toEqual({ targetType: 'VARCHAR', length: 80 });
+  });
+
+  it('maps types by kind when the target lacks them', () => {
+    const map = (type: string, overrides: Partial<Column> = {}) =>
+      mapColumnType(column('c', { type, ...overrides }), DatabaseType.PostgreSQL, POSTGRESQL_DATA_TYPES, MYSQL_DATA_TYPES)
+        .targetType;
+
+    expect(map('bool')).toBe('TINYINT');
+    expect(map('timestamptz')).toBe('DATETIME');
+    expect(map('jsonb')).toBe('JSON');
+    expect(map('bytea')).toBe('LONGBLOB');
+    expect(map('interval')).toBe('TEXT');
+  });
+
+  it('uses VARCHAR for unbounded string keys so MySQL can index them', () => {
+    const mapping = mapColumnType(
+      column('code', { type: 'text', primaryKey: true }),
+      DatabaseType.SQLite,
+      SQLITE_DATA_TYPES,
+      MYSQL_DATA_TYPES
+    );
+
+    expect(mapping).toEqual({ targetType: 'VARCHAR', length: 255 });
+  });
+
+  it('unwraps ClickHouse Nullable types and treats MongoDB dates as timestamps', () => {
+    expect(
+      mapColumnType(column('n', { type: 'Nullable(Int64)' }), DatabaseType.ClickHouse, [], POSTGRESQL_DATA_TYPES)
+    ).toEqual({ targetType: 'BIGINT' });
+    expect(
+      mapColumnType(column('at', { type: 'Date' }), DatabaseType.MongoDB, [], POSTGRESQL_DATA_TYPES)
+    ).toEqual({ targetType: 'TIMESTAMP' });
+  });
+});
+
+describe('toTargetValue', () => {
+  it('converts values SQLite cannot bind', () => {
+    const date = new Date('2024-01-01T10:00:00Z');
+
+    expect(toTargetValue(true, DatabaseType.SQLite)).toBe(1);
+    expect(toTargetValue(date, DatabaseType.SQLite)).toBe('2024-01-01T10:00:00.000Z');
+    expect(toTargetValue({ a: 1 }, DatabaseType.SQLite)).toBe('{"a":1}');
+  });
+
+  it('formats dates for ClickHouse and passes values through to MongoDB', () => {
+    const date = new Date('2024-01-01T10:00:00Z');
+
+    expect(toTargetValue(date, DatabaseType.ClickHouse)).toBe('2024-01-01 10:00:00.000');
+    expect(toTargetValue(date, DatabaseType.MongoDB)).toBe(date);
+    expect(toTargetValue([1, 2], DatabaseType.PostgreSQL)).toEqual([1, 2]);
+  });
+});
+
+describe('buildTransferPlan', () => {
+  it('matches existing target tables by column name and proposes definitions for missing ones', async () => {
+    const source = createSource(users);
+    const target = createTarget(DatabaseType.MySQL) as unknown as DatabaseDriver;
+
+    const plan = await buildTransferPlan(source, target, { connectionId: 'my', database: 'app' }, ['accounts', 'users']);
+
+    expect(plan.canCreateTables).toBe(true);
+    expect(plan.targetTypes).toContain('VARCHAR');
+
+    const [accounts, usersPlan] = plan.tables;
+    expect(accounts.targetExists).toBe(true);
+    expect(accounts.createTable).toBe(false);
+    expect(accounts.columns.map((col) => col.targetColumn)).toEqual(['id', 'NAME', '']);
+
+    expect(usersPlan.targetExists).toBe(false);
+    expect(usersPlan.createTable).toBe(true);
+    expect(usersPlan.totalRows).toBe(3);
+    expect(usersPlan.columns.map((col) => col.targetType)).toEqual(['INT', 'VARCHAR', 'TINYINT']);
+  });
+});
+
+describe('runTransfer', () => {
+  it('creates the target table and copies rows in multi-row batches with progress', async () => {
+    const source = createSource(users);
+    const target = createTarget(DatabaseType.SQLite);
+    const onProgress = vi.fn();
+
+    const result = await runTransfer(
+      source,
+      target as unknown as DatabaseDriver,
+      options({ tables: [tablePlan({ createTable: true })], batchSize: 2 }),
+      new AbortController().signal,
+      onProgress
+    );
+
+    expect(result).toEqual({
+      success: true,
+      tables: [
+        { sourceTable: 'users', targetTable: 'users', created: true, rowsRead: 3, rowsInserted: 3, rowsReplaced: 0, rowsSkipped: 0 },
+      ],
+    });
+    expect(target.createTable).toHaveBeenCalledWith({
+      table: {
+        name: 'users',
+        columns: [
+          { name: 'id', type: 'INTEGER', length: undefined, precision: undefined, scale: undefined, nullable: false, primaryKey: true },
+          { name: 'name', type: 'TEXT', length: undefined, precision: undefined, scale: undefined, nullable: true, primaryKey: false },
+        ],
+      },
+      schema: undefined,
+    });
+    expect(target.execute).toHaveBeenCalledTimes(2);
+    expect(target.execute).toHaveBeenNthCalledWith(1, 'INSERT INTO "users" ("id", "name") VALUES (?, ?), (?, ?)', [1, 'Ada', 2, 'Grace']);
+    expect(target.insertRow).not.toHaveBeenCalled();
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ rowsProcessed: 3, totalRows: 3 }));
+  });
+
+  it('reads the source through a cursor ordered by its whole key', async () => {
+    const close = vi.fn();
+    const read = vi.fn().mockResolvedValueOnce({ rows: [users[2]], hasMore: false });
+    const source = {
+      ...createSource(users),
+      getPrimaryKeyColumns: vi.fn().mockResolvedValue(['tenant_id', 'id']),
+      openTableCursor: vi.fn().mockResolvedValue({
+        result: { columns: [], rows: users.slice(0, 2), rowCount: 2, executionTime: 1, truncated: true },
+        cursor: { read, close, columns: [] },
+      }),
+    } as unknown as DatabaseDriver;
+    const target = createTarget(DatabaseType.SQLite);
+
+    const result = await runTransfer(source, target as unknown as DatabaseDriver, options({ batchSize: 2 }), new AbortController().signal, vi.fn());
+
+    expect(source.openTableCursor).toHaveBeenCalledWith('users', { keyColumns: ['tenant_id', 'id'] }, 2);
+    expect(source.getTableData).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: true, tables: [{ rowsRead: 3, rowsInserted: 3 }] });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('skips conflicting rows with ON CONFLICT DO NOTHING', async () => {
+    const target = createTarget(DatabaseType.SQLite, [2]);
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Skip }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.tables[0]).toMatchObject({ rowsInserted: 2, rowsSkipped: 1, rowsReplaced: 0 });
+    expect(target.execute.mock.calls[0][0]).toMatch(/ ON CONFLICT DO NOTHING$/);
+    expect(target.stored.get(2)).toEqual({ id: 2 });
+  });
+
+  it('replaces conflicting rows in place with an upsert', async () => {
+    const target = createTarget(DatabaseType.SQLite, [2]);
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Replace }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.tables[0]).toMatchObject({ rowsInserted: 2, rowsSkipped: 0, rowsReplaced: 1 });
+    expect(target.execute).toHaveBeenNthCalledWith(1, 'SELECT COUNT(*) AS count FROM "users" WHERE "id" IN (?, ?, ?)', [1, 2, 3]);
+    expect(target.execute.mock.calls[1][0]).toMatch(/ ON CONFLICT \("id"\) DO UPDATE SET "name" = excluded\."name"$/);
+    expect(target.deleteRow).not.toHaveBeenCalled();
+    expect(target.stored.get(2)).toEqual({ id: 2, name: 'Grace' });
+  });
+
+  it('upserts with ON DUPLICATE KEY UPDATE on MySQL', async () => {
+    const target = createTarget(DatabaseType.MySQL);
+    await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Replace }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(target.execute.mock.calls[1][0]).toBe(
+      'INSERT INTO `users` (`id`, `name`) VALUES (?, ?), (?, ?), (?, ?) ON DUPLICATE KEY UPDATE `name` = VALUES(`name`)'
+    );
+  });
+
+  it('counts skipped rows by key on MySQL, where duplicates are reported as affected', async () => {
+    const target = createTarget(DatabaseType.MySQL, [2]);
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Skip }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.tables[0]).toMatchObject({ rowsInserted: 2, rowsSkipped: 1, rowsReplaced: 0 });
+    expect(target.execute).toHaveBeenNthCalledWith(1, 'SELECT COUNT(*) AS count FROM `users` WHERE `id` IN (?, ?, ?)', [1, 2, 3]);
+    expect(target.execute.mock.calls[1][0]).toMatch(/ ON DUPLICATE KEY UPDATE `id` = `id`$/);
+    expect(target.stored.get(2)).toEqual({ id: 2 });
+  });
+
+  it('refuses to replace rows when the target key is not mapped', async () => {
+    const target = createTarget(DatabaseType.SQLite, [2]);
+    target.getPrimaryKeyColumns.mockResolvedValue(['id', 'tenant_id']);
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Replace }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.tables[0].error).toBe('Replacing rows needs the primary key columns mapped: tenant_id');
+    expect(target.execute).not.toHaveBeenCalled();
+  });
+
+  it('refuses to create a table for replacing rows without a planned key', async () => {
+    const target = createTarget(DatabaseType.SQLite);
+    const plan = tablePlan({ createTable: true });
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({
+        conflictMode: TransferConflictMode.Replace,
+        tables: [{ ...plan, columns: plan.columns.map((col) => ({ ...col, primaryKey: false })) }],
+      }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.tables[0].error).toBe('Replacing rows needs a primary key on the target table');
+    expect(target.createTable).not.toHaveBeenCalled();
+  });
+
+  it('replaces MongoDB documents one at a time by key', async () => {
+    const target = createTarget(DatabaseType.MongoDB, [2]);
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ conflictMode: TransferConflictMode.Replace }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.tables[0]).toMatchObject({ rowsInserted: 2, rowsReplaced: 1 });
+    expect(target.deleteRow).toHaveBeenCalledWith({ table: 'users', primaryKeyValues: { id: 2 } });
+    expect(target.execute).not.toHaveBeenCalled();
+  });
+
+  it('stops at the first failed batch in fail mode', async () => {
+    const result = await runTransfer(
+      createSource(users),
+      createTarget(DatabaseType.SQLite, [3]) as unknown as DatabaseDriver,
+      options({ batchSize: 2 }),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('users: Row 3: UNIQUE constraint failed: users.id');
+    expect(result.tables[0]).toMatchObject({ rowsInserted: 2, error: 'Row 3: UNIQUE constraint failed: users.id' });
+  });
+
+  it('stops between batches when canceled', async () => {
+    const controller = new AbortController();
+    const target = createTarget(DatabaseType.SQLite);
+
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options({ batchSize: 2 }),
+      controller.signal,
+      () => controller.abort()
+    );
+
+    expect(result).toMatchObject({ success: false, canceled: true, error: 'Transfer canceled' });
+    expect(result.tables[0].rowsInserted).toBe(2);
+  });
+
+  it('rejects Redis as a target', async () => {
+    const target = createTarget(DatabaseType.Redis);
+
+    const result = await runTransfer(
+      createSource(users),
+      target as unknown as DatabaseDriver,
+      options(),
+      new AbortController().signal,
+      vi.fn()
+    );
+
+    expect(result).toEqual({ success: false, error: 'Redis cannot be used as a transfer target', tables: [] });
+    expect(target.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setActivePinia, createPinia } from 'pinia';
+import { ExportSourceType, type ExportProgressEvent } from '@/types/export';
+
+// Mock window.api.export
+const mockStream = vi.fn();
+const mockCancel = vi.fn();
+const mockOnProgress = vi.fn();
+
+vi.stubGlobal('window', {
+  ...globalThis.window,
+  api: {
+    platform: 'darwin',
+    export: {
+      stream: mockStream,
+      cancel: mockCancel,
+      onProgress: mockOnProgress,
+      removeProgressListener: vi.fn(),
+    },
+  },
+});
+
+import { useExportsStore } from '@/stores/exports';
+
+const source = { type: ExportSourceType.Table, table: 'users' };
+
+describe('Exports Store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+  });
+
+  it('should track an export while it runs and drop it when done', async () => {
+    const store = useExportsStore();
+    let finish: (value: unknown) => void = () => undefined;
+    mockStream.mockReturnValue(new Promise((resolve) => { finish = resolve; }));
+
+    const promise = store.startExport('conn-1', source, 'csv', 'users', 'exp-1');
+
+    expect(mockStream).toHaveBeenCalledWith({ exportId: 'exp-1', connectionId: 'conn-1', source, format: 'csv' });
+    expect(store.getExport('exp-1')).toMatchObject({ label: 'users', rowsWritten: 0 });
+
+    finish({ success: true, filePath: '/tmp/users.csv', rowCount: 3 });
+
+    await expect(promise).resolves.toEqual({ success: true, filePath: '/tmp/users.csv', rowCount: 3 });
+    expect(store.activeExports).toHaveLength(0);
+  });
+
+  it('should apply progress events to the matching export', async () => {
+    const store = useExportsStore();
+    mockStream.mockReturnValue(new Promise(() => undefined));
+
+    store.startExport('conn-1', source, 'csv', 'users', 'exp-1');
+    const onProgress = mockOnProgress.mock.calls[0][0] as (event: ExportProgressEvent) => void;
+    onProgress({ exportId: 'exp-1', rowsWritten: 5000, totalRows: 20000 });
+    onProgress({ exportId: 'other', rowsWritten: 1 });
+
+    expect(store.getExport('exp-1')).toMatchObject({ rowsWritten: 5000, totalRows: 20000 });
+  });
+
+  it('should register the progress listener only once', () => {
+    const store = useExportsStore();
+    mockStream.mockReturnValue(new Promise(() => undefined));
+
+    store.startExport('conn-1', source, 'csv', 'users', 'exp-1');
+    store.startExport('conn-1', source, 'json', 'users', 'exp-2');
+
+    expect(mockOnProgress).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop the export when the stream call rejects', async () => {
+    const store = useExportsStore();
+    mockStream.mockRejectedValue(new Error('IPC failure'));
+
+    await expect(store.startExport('conn-1', source, 'csv', 'users', 'exp-1')).rejects.toThrow('IPC failure');
+    expect(store.activeExports).toHaveLength(0);
+  });
+
+  it('should forward cancellation to the main process', async () => {
+    const store = useExportsStore();
+    mockCancel.mockResolvedValue(true);
+
+    await expect(store.cancelExport('exp-1')).resolves.toBe(true);
+    expect(mockCancel).toHaveBeenCalledWith('exp-1');
+  });
+});
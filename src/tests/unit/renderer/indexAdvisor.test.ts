@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { buildIndexFixScript } from '@/lib/indexAdvisor';
+import { IndexFindingKind, IndexFixAction, type IndexFinding } from '@/types/index-advisor';
+
+const dropOrdersNote: IndexFinding = {
+  kind: IndexFindingKind.Unused,
+  table: 'orders',
+  index: 'orders_note',
+  columns: ['note'],
+  reason: 'No query has used it since the server started counting index scans',
+  fix: { action: IndexFixAction.Drop, request: { table: 'orders', indexName: 'orders_note' } },
+  sql: 'DROP INDEX "public"."orders_note"',
+};
+
+const createCustomerIndex: IndexFinding = {
+  kind: IndexFindingKind.UnindexedForeignKey,
+  table: 'orders',
+  index: null,
+  columns: ['customer_id'],
+  reason: 'Foreign key orders_customer_fk has no index',
+  fix: { action: IndexFixAction.Create, request: { table: 'orders', index: { name: 'idx_orders_customer_id', columns: ['customer_id'] } } },
+  sql: 'CREATE INDEX "idx_orders_customer_id" ON "public"."orders" ("customer_id")',
+};
+
+describe('buildIndexFixScript', () => {
+  it('should create missing indexes before dropping any and explain each statement', () => {
+    expect(buildIndexFixScript([dropOrdersNote, createCustomerIndex])).toBe(
+      '-- orders: Foreign key orders_customer_fk has no index\n' +
+      'CREATE INDEX "idx_orders_customer_id" ON "public"."orders" ("customer_id");\n\n' +
+      '-- orders: No query has used it since the server started counting index scans\n' +
+      'DROP INDEX "public"."orders_note";'
+    );
+  });
+});
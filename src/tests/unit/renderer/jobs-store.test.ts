@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setActivePinia, createPinia } from 'pinia';
+import { QueryJobStatus, type QueryJob } from '@/types/jobs';
+
+// Mock window.api.jobs
+const mockStart = vi.fn();
+const mockList = vi.fn();
+const mockGetResults = vi.fn();
+const mockCancel = vi.fn();
+const mockRemove = vi.fn();
+const mockOnChange = vi.fn();
+const mockOnFocus = vi.fn();
+
+vi.stubGlobal('window', {
+  ...globalThis.window,
+  api: {
+    platform: 'darwin',
+    jobs: {
+      start: mockStart,
+      list: mockList,
+      getResults: mockGetResults,
+      cancel: mockCancel,
+      remove: mockRemove,
+      onChange: mockOnChange,
+      onFocus: mockOnFocus,
+      removeListeners: vi.fn(),
+    },
+  },
+});
+
+import { useJobsStore } from '@/stores/jobs';
+import { useTabsStore } from '@/stores/tabs';
+import { BottomPanelTab, useLayoutStore } from '@/stores/layout';
+
+const makeJob = (overrides: Partial<QueryJob> = {}): QueryJob => ({
+  id: 'job-1',
+  connectionId: 'conn-1',
+  connectionName: 'Orders',
+  sql: 'SELECT * FROM orders',
+  status: QueryJobStatus.Running,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Jobs Store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+    mockList.mockResolvedValue([]);
+  });
+
+  it('should load existing jobs newest first on init', async () => {
+    mockList.mockResolvedValue([makeJob({ id: 'old' }), makeJob({ id: 'new' })]);
+    const store = useJobsStore();
+
+    store.init();
+    store.init();
+    await flush();
+
+    expect(mockOnChange).toHaveBeenCalledTimes(1);
+    expect(store.jobs.map((j) => j.id)).toEqual(['new', 'old']);
+  });
+
+  it('should apply job updates and count active jobs', async () => {
+    const store = useJobsStore();
+    store.init();
+    await flush();
+    const onChange = mockOnChange.mock.calls[0][0] as (job: QueryJob) => void;
+
+    onChange(makeJob({ status: QueryJobStatus.Queued }));
+    onChange(makeJob({ id: 'job-2' }));
+    expect(store.activeJobs).toHaveLength(2);
+
+    onChange(makeJob({ status: QueryJobStatus.Completed, rowCount: 3 }));
+    expect(store.jobs.find((j) => j.id === 'job-1')?.status).toBe(QueryJobStatus.Completed);
+    expect(store.activeJobs).toHaveLength(1);
+    expect(mockList).toHaveBeenCalledTimes(2);
+  });
+
+  it('should add a started job once', async () => {
+    const store = useJobsStore();
+    mockStart.mockResolvedValue(makeJob());
+
+    await store.startJob('conn-1', 'SELECT * FROM orders', 'shop');
+
+    expect(mockStart).toHaveBeenCalledWith('conn-1', 'SELECT * FROM orders', 'shop');
+    expect(store.jobs).toHaveLength(1);
+  });
+
+  it('should remove only finished jobs when clearing', async () => {
+    mockList.mockResolvedValue([makeJob({ id: 'done', status: QueryJobStatus.Failed }), makeJob()]);
+    const store = useJobsStore();
+    store.init();
+    await flush();
+
+    await store.clearFinished();
+
+    expect(mockRemove).toHaveBeenCalledWith('done');
+    expect(store.jobs.map((j) => j.id)).toEqual(['job-1']);
+  });
+
+  it('should open results in a new query tab', async () => {
+    mockList.mockResolvedValue([makeJob({ status: QueryJobStatus.Completed, resultCount: 2 })]);
+    const results = [
+      { columns: [], rows: [], rowCount: 1, executionTime: 1 },
+      { columns: [], rows: [], rowCount: 2, executionTime: 1 },
+    ];
+    mockGetResults.mockResolvedValue(results);
+    const store = useJobsStore();
+    store.init();
+    await flush();
+
+    await store.openJobResults('job-1');
+
+    const tabsStore = useTabsStore();
+    expect(tabsStore.activeTab?.data).toMatchObject({ connectionId: 'conn-1', sql: 'SELECT * FROM orders', results });
+  });
+
+  it('should show the Jobs panel when a notification is clicked', () => {
+    const store = useJobsStore();
+    store.init();
+    const onFocus = mockOnFocus.mock.calls[0][0] as (jobId: string) => void;
+
+    onFocus('job-1');
+
+    const layoutStore = useLayoutStore();
+    expect(layoutStore.bottomPanelVisible).toBe(true);
+    expect(layoutStore.bottomPanelTab).toBe(BottomPanelTab.Jobs);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildBlockingChains, flattenBlockingChains } from '@/lib/locks';
+import type { BlockingSession } from '@/types/table';
+
+const session = (id: number, blockedBy: number[] = []): BlockingSession => ({
+  id,
+  user: 'app',
+  database: 'shop',
+  state: null,
+  query: null,
+  transactionSeconds: null,
+  blockedBy,
+  waitingFor: null,
+  heldLocks: [],
+});
+
+const rowsOf = (sessions: BlockingSession[]) =>
+  flattenBlockingChains(buildBlockingChains(sessions)).map((r) => [r.session.id, r.depth, r.blockedCount]);
+
+describe('buildBlockingChains', () => {
+  it('should root each chain at the session that blocks without waiting', () => {
+    expect(rowsOf([session(3, [2]), session(2, [1]), session(1), session(4, [1])])).toEqual([
+      [1, 0, 3],
+      [2, 1, 1],
+      [3, 2, 0],
+      [4, 1, 0],
+    ]);
+  });
+
+  it('should put the chain blocking the most sessions first', () => {
+    expect(rowsOf([session(1), session(2, [1]), session(5), session(6, [5]), session(7, [5])]).filter((r) => r[1] === 0)).toEqual([
+      [5, 0, 2],
+      [1, 0, 1],
+    ]);
+  });
+
+  it('should show a session waiting on two blockers under both', () => {
+    const rows = flattenBlockingChains(buildBlockingChains([session(1), session(2), session(3, [1, 2])]));
+    expect(rows.map((r) => r.key)).toEqual(['1', '1/3', '2', '2/3']);
+  });
+
+  it('should still show a deadlock cycle', () => {
+    expect(rowsOf([session(1, [2]), session(2, [1])])).toEqual([
+      [1, 0, 1],
+      [2, 1, 0],
+    ]);
+  });
+
+  it('should return nothing when no session is blocked', () => {
+    expect(buildBlockingChains([session(1)])).toEqual([]);
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { formatRatio, progressPercent } from '@/lib/maintenance';
+
+describe('progressPercent', () => {
+  it('should give the share of the phase that is done', () => {
+    expect(progressPercent({ phase: 'scanning heap', done: 25, total: 200 })).toBe(13);
+    expect(progressPercent({ phase: 'vacuuming heap', done: 210, total: 200 })).toBe(100);
+  });
+
+  it('should give nothing when the phase reports no block counts', () => {
+    expect(progressPercent(null)).toBeNull();
+    expect(progressPercent({ phase: 'truncating heap', done: null, total: null })).toBeNull();
+  });
+});
+
+describe('formatRatio', () => {
+  it('should format a ratio as a percentage', () => {
+    expect(formatRatio(0.1234)).toBe('12.3%');
+    expect(formatRatio(null)).toBe('-');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setActivePinia, createPinia } from 'pinia';
+import { MetricUnit, type MetricSampleEvent, type MetricsHistory } from '@/types/metrics';
+
+// Mock window.api.metrics
+const mockStart = vi.fn();
+const mockStop = vi.fn();
+const mockExportCsv = vi.fn();
+const mockOnSample = vi.fn();
+
+vi.stubGlobal('window', {
+  ...globalThis.window,
+  api: {
+    platform: 'darwin',
+    metrics: {
+      start: mockStart,
+      stop: mockStop,
+      getHistory: vi.fn(),
+      exportCsv: mockExportCsv,
+      onSample: mockOnSample,
+      removeListeners: vi.fn(),
+    },
+  },
+});
+
+import { useMetricsStore } from '@/stores/metrics';
+
+const makeHistory = (overrides: Partial<MetricsHistory> = {}): MetricsHistory => ({
+  connectionId: 'conn-1',
+  intervalMs: 5000,
+  retentionMs: 10000,
+  metrics: [{ key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count }],
+  samples: [{ timestamp: 0, values: { connections: 1 } }],
+  ...overrides,
+});
+
+describe('Metrics Store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+  });
+
+  it('should start sampling and keep the returned history', async () => {
+    mockStart.mockResolvedValue(makeHistory());
+    const store = useMetricsStore();
+
+    await store.subscribe('conn-1');
+    await store.subscribe('conn-1');
+
+    expect(mockStart).toHaveBeenCalledWith('conn-1');
+    expect(mockOnSample).toHaveBeenCalledTimes(1);
+    expect(store.histories['conn-1'].samples).toHaveLength(1);
+  });
+
+  it('should append samples and drop those past the retention', async () => {
+    mockStart.mockResolvedValue(makeHistory());
+    const store = useMetricsStore();
+    await store.subscribe('conn-1');
+    const onSample = mockOnSample.mock.calls[0][0] as (event: MetricSampleEvent) => void;
+
+    onSample({ connectionId: 'conn-1', sample: { timestamp: 5000, values: { connections: 2 } } });
+    onSample({ connectionId: 'conn-1', sample: { timestamp: 12000, values: { connections: 3 } } });
+    onSample({ connectionId: 'conn-2', sample: { timestamp: 12000, values: {} } });
+
+    expect(store.histories['conn-1'].samples.map((s) => s.timestamp)).toEqual([5000, 12000]);
+    expect(store.histories['conn-2']).toBeUndefined();
+  });
+
+  it('should stop sampling when unsubscribing', async () => {
+    const store = useMetricsStore();
+    await store.unsubscribe('conn-1');
+    expect(mockStop).toHaveBeenCalledWith('conn-1');
+  });
+
+  it('should export the selected window', async () => {
+    mockExportCsv.mockResolvedValue({ success: true, filePath: '/tmp/metrics.csv' });
+    const store = useMetricsStore();
+
+    expect(await store.exportCsv('conn-1', 300000)).toEqual({ success: true, filePath: '/tmp/metrics.csv' });
+    expect(mockExportCsv).toHaveBeenCalledWith('conn-1', 300000);
+  });
+});
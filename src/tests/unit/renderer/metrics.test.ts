@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { chartCeiling, formatMetricValue, groupMetricCharts } from '@/lib/metrics';
+import { MetricUnit } from '@/types/metrics';
+
+describe('groupMetricCharts', () => {
+  it('should group metrics by chart in the order they were listed', () => {
+    const charts = groupMetricCharts([
+      { key: 'queries_per_sec', label: 'Queries', chart: 'Throughput', unit: MetricUnit.PerSecond },
+      { key: 'connections', label: 'Connected', chart: 'Connections', unit: MetricUnit.Count },
+      { key: 'slow_queries_per_sec', label: 'Slow queries', chart: 'Throughput', unit: MetricUnit.PerSecond },
+    ]);
+
+    expect(charts.map((c) => c.title)).toEqual(['Throughput', 'Connections']);
+    expect(charts[0].metrics.map((m) => m.key)).toEqual(['queries_per_sec', 'slow_queries_per_sec']);
+    expect(charts[0].unit).toBe(MetricUnit.PerSecond);
+  });
+});
+
+describe('formatMetricValue', () => {
+  it('should format each unit', () => {
+    expect(formatMetricValue(null, MetricUnit.Count)).toBe('-');
+    expect(formatMetricValue(1234.5, MetricUnit.PerSecond)).toBe('1235/s');
+    expect(formatMetricValue(25000, MetricUnit.PerSecond)).toBe('25k/s');
+    expect(formatMetricValue(3.14159, MetricUnit.Count)).toBe('3.14');
+    expect(formatMetricValue(99.456, MetricUnit.Percent)).toBe('99.5%');
+    expect(formatMetricValue(1048576, MetricUnit.Bytes)).toBe('1 MB');
+    expect(formatMetricValue(2.5, MetricUnit.Seconds)).toBe('2.5s');
+  });
+});
+
+describe('chartCeiling', () => {
+  it('should round the maximum up to a clean axis value', () => {
+    expect(chartCeiling(0, MetricUnit.Count)).toBe(1);
+    expect(chartCeiling(7, MetricUnit.Count)).toBe(10);
+    expect(chartCeiling(130, MetricUnit.PerSecond)).toBe(200);
+    expect(chartCeiling(0.03, MetricUnit.Seconds)).toBe(0.05);
+    expect(chartCeiling(12, MetricUnit.Percent)).toBe(100);
+  });
+});
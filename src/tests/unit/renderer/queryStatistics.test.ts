@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { bufferHitRatio, explainableStatement } from '@/lib/queryStatistics';
+import { DatabaseType } from '@/types/connection';
+import type { QueryStatistic } from '@/types/table';
+
+const stat = (query: string, overrides: Partial<QueryStatistic> = {}): QueryStatistic => ({
+  id: '1',
+  query,
+  sample: null,
+  database: 'shop',
+  user: 'app',
+  calls: 1,
+  totalTimeMs: 1,
+  meanTimeMs: 1,
+  maxTimeMs: 1,
+  rows: 1,
+  sharedBlocksHit: null,
+  sharedBlocksRead: null,
+  ...overrides,
+});
+
+describe('explainableStatement', () => {
+  it('should prefer the captured sample', () => {
+    const row = stat('SELECT * FROM orders WHERE id = ?', { sample: 'SELECT * FROM orders WHERE id = 7' });
+    expect(explainableStatement(row, DatabaseType.MySQL)).toEqual({ sql: 'SELECT * FROM orders WHERE id = 7', genericPlan: false });
+  });
+
+  it('should ask PostgreSQL for a generic plan when the statement has placeholders', () => {
+    expect(explainableStatement(stat('SELECT * FROM orders WHERE id = $1'), DatabaseType.PostgreSQL))
+      .toEqual({ sql: 'SELECT * FROM orders WHERE id = $1', genericPlan: true });
+    expect(explainableStatement(stat('SELECT now()'), DatabaseType.PostgreSQL))
+      .toEqual({ sql: 'SELECT now()', genericPlan: false });
+  });
+
+  it('should refuse digests that lost their values or were cut off', () => {
+    expect(explainableStatement(stat('SELECT * FROM `orders` WHERE `id` = ?'), DatabaseType.MySQL)).toBeNull();
+    expect(explainableStatement(stat('SELECT * FROM `orders` WHERE `status` IN (...'), DatabaseType.MariaDB)).toBeNull();
+    expect(explainableStatement(stat('SELECT COUNT ( * ) FROM `orders`'), DatabaseType.MySQL))
+      .toEqual({ sql: 'SELECT COUNT ( * ) FROM `orders`', genericPlan: false });
+  });
+});
+
+describe('bufferHitRatio', () => {
+  it('should report the cached share of block reads', () => {
+    expect(bufferHitRatio(stat('SELECT 1', { sharedBlocksHit: 90, sharedBlocksRead: 10 }))).toBe(90);
+    expect(bufferHitRatio(stat('SELECT 1', { sharedBlocksHit: 0, sharedBlocksRead: 0 }))).toBeNull();
+    expect(bufferHitRatio(stat('SELECT 1'))).toBeNull();
+  });
+});
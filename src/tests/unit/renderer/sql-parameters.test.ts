@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseQueryParameters,
+  bindQueryParameters,
+  coerceParameterValue,
+  supportsQueryParameters
+} from '@/lib/sql-parameters'
+import { DatabaseType } from '@/types/connection'
+import { QueryParameterStyle, QueryParameterType } from '@/types/query'
+
+const text = (value: string) => ({ type: QueryParameterType.Text, value })
+const num = (value: string) => ({ type: QueryParameterType.Number, value })
+
+describe('SQL Parameters', () => {
+  describe('parseQueryParameters', () => {
+    it('should detect named parameters once each, in first-use order', () => {
+      const params = parseQueryParameters('SELECT * FROM t WHERE b = :b AND a = :a OR b2 = :b', DatabaseType.MySQL)
+      expect(params.map(p => p.key)).toEqual(['b', 'a'])
+      expect(params[0]).toEqual({ key: 'b', label: ':b', style: QueryParameterStyle.Named, type: QueryParameterType.Text })
+    })
+
+    it('should detect numbered parameters sorted by number', () => {
+      const params = parseQueryParameters('SELECT * FROM t WHERE a = $2 AND b = $1', DatabaseType.PostgreSQL)
+      expect(params.map(p => p.label)).toEqual(['$1', '$2'])
+    })
+
+    it('should detect positional parameters for non-PostgreSQL engines', () => {
+      const params = parseQueryParameters('INSERT INTO t (a, b) VALUES (?, ?)', DatabaseType.SQLite)
+      expect(params.map(p => p.key)).toEqual(['?1', '?2'])
+      expect(params[1].label).toBe('? (2)')
+    })
+
+    it('should treat ? as the jsonb operator in PostgreSQL', () => {
+      expect(parseQueryParameters(`SELECT * FROM t WHERE data ? 'key'`, DatabaseType.PostgreSQL)).toEqual([])
+    })
+
+    it('should ignore placeholders inside strings, identifiers and comments', () => {
+      const sql = `SELECT ':a', "b:c", \`?\` -- :d ?\n/* :e $1 */ FROM t WHERE x = :real`
+      expect(parseQueryParameters(sql, DatabaseType.MySQL).map(p => p.key)).toEqual(['real'])
+    })
+
+    it('should honor backslash escapes in MySQL strings only', () => {
+      const sql = `SELECT 'it\\'s ?', "say \\"?\\"" FROM t WHERE a = ? AND b = ?`
+      expect(parseQueryParameters(sql, DatabaseType.MariaDB).map(p => p.key)).toEqual(['?1', '?2'])
+      expect(parseQueryParameters(`SELECT 'C:\\' , ?`, DatabaseType.SQLite).map(p => p.key)).toEqual(['?1'])
+    })
+
+    it('should ignore casts, assignments and dollar-quoted bodies', () => {
+      const sql = `SELECT created::date, $$ :inside $1 $$, $fn$ :x $fn$ FROM t WHERE id = :id`
+      expect(parseQueryParameters(sql, DatabaseType.PostgreSQL).map(p => p.key)).toEqual(['id'])
+      expect(parseQueryParameters('SET @x := 1', DatabaseType.MySQL)).toEqual([])
+    })
+
+    it('should infer types from casts and LIMIT/OFFSET', () => {
+      const sql = 'SELECT * FROM t WHERE a = :a::int AND b = CAST(:b AS boolean) AND c = :c::text LIMIT :n OFFSET :o'
+      const types = Object.fromEntries(parseQueryParameters(sql, DatabaseType.PostgreSQL).map(p => [p.key, p.type]))
+      expect(types).toEqual({
+        a: QueryParameterType.Number,
+        b: QueryParameterType.Boolean,
+        c: QueryParameterType.Text,
+        n: QueryParameterType.Number,
+        o: QueryParameterType.Number
+      })
+    })
+
+    it('should take an inferred type from a later use of the same parameter', () => {
+      const params = parseQueryParameters('SELECT :n AS n FROM t LIMIT :n', DatabaseType.MySQL)
+      expect(params[0].type).toBe(QueryParameterType.Number)
+    })
+
+    it('should reject mixed placeholder styles', () => {
+      expect(() => parseQueryParameters('SELECT * FROM t WHERE a = :a AND b = ?', DatabaseType.MySQL)).toThrow(
+        'Mixing :name, $n and ? placeholders in one query is not supported'
+      )
+    })
+  })
+
+  describe('bindQueryParameters', () => {
+    it('should reuse $n indexes for repeated names in PostgreSQL', () => {
+      const bound = bindQueryParameters('SELECT :a, :b, :a', DatabaseType.PostgreSQL, { a: num('1'), b: text('x') })
+      expect(bound).toEqual({ sql: 'SELECT $1, $2, $1', params: [1, 'x'] })
+    })
+
+    it('should renumber $n by first use in PostgreSQL', () => {
+      const bound = bindQueryParameters('SELECT $2, $1', DatabaseType.PostgreSQL, { $1: text('one'), $2: text('two') })
+      expect(bound).toEqual({ sql: 'SELECT $1, $2', params: ['two', 'one'] })
+    })
+
+    it('should emit one ? per use for other engines', () => {
+      const bound = bindQueryParameters('SELECT :a, :b, :a', DatabaseType.MariaDB, { a: num('1'), b: text('x') })
+      expect(bound).toEqual({ sql: 'SELECT ?, ?, ?', params: [1, 'x', 1] })
+    })
+
+    it('should convert $n to ? for MySQL', () => {
+      const bound = bindQueryParameters('SELECT $1 + $1', DatabaseType.MySQL, { $1: num('2') })
+      expect(bound).toEqual({ sql: 'SELECT ? + ?', params: [2, 2] })
+    })
+
+    it('should keep positional parameters in order', () => {
+      const bound = bindQueryParameters('VALUES (?, ?)', DatabaseType.SQLite, { '?1': text('a'), '?2': text('b') })
+      expect(bound).toEqual({ sql: 'VALUES (?, ?)', params: ['a', 'b'] })
+    })
+
+    it('should leave literals and casts untouched', () => {
+      const bound = bindQueryParameters(`SELECT ':x', :x::int`, DatabaseType.PostgreSQL, { x: num('5') })
+      expect(bound.sql).toBe(`SELECT ':x', $1::int`)
+    })
+
+    it('should bind the real parameters after an escaped quote in MySQL', () => {
+      const bound = bindQueryParameters(`SELECT 'it\\'s ?' WHERE a = ?`, DatabaseType.MySQL, { '?1': text('x') })
+      expect(bound).toEqual({ sql: `SELECT 'it\\'s ?' WHERE a = ?`, params: ['x'] })
+    })
+
+    it('should throw when a value is missing', () => {
+      expect(() => bindQueryParameters('SELECT :a', DatabaseType.MySQL, {})).toThrow('No value provided for parameter :a')
+    })
+  })
+
+  describe('coerceParameterValue', () => {
+    it('should convert numbers and reject invalid ones', () => {
+      expect(coerceParameterValue(':n', num(' 42.5 '), DatabaseType.MySQL)).toBe(42.5)
+      expect(() => coerceParameterValue(':n', num(''), DatabaseType.MySQL)).toThrow('Parameter :n must be a number')
+      expect(() => coerceParameterValue(':n', num('abc'), DatabaseType.MySQL)).toThrow('Parameter :n must be a number')
+    })
+
+    it('should convert booleans, as 1/0 for SQLite', () => {
+      const yes = { type: QueryParameterType.Boolean, value: 'true' }
+      const no = { type: QueryParameterType.Boolean, value: 'f' }
+      expect(coerceParameterValue(':b', yes, DatabaseType.PostgreSQL)).toBe(true)
+      expect(coerceParameterValue(':b', no, DatabaseType.PostgreSQL)).toBe(false)
+      expect(coerceParameterValue(':b', yes, DatabaseType.SQLite)).toBe(1)
+      expect(() => coerceParameterValue(':b', { type: QueryParameterType.Boolean, value: 'maybe' }, DatabaseType.MySQL)).toThrow(
+        'Parameter :b must be true or false'
+      )
+    })
+
+    it('should return null for NULL and the raw string for text', () => {
+      expect(coerceParameterValue(':x', { type: QueryParameterType.Null, value: 'ignored' }, DatabaseType.MySQL)).toBeNull()
+      expect(coerceParameterValue(':x', text(' padded '), DatabaseType.MySQL)).toBe(' padded ')
+    })
+  })
+
+  describe('supportsQueryParameters', () => {
+    it('should only allow engines whose drivers bind params', () => {
+      expect(supportsQueryParameters(DatabaseType.PostgreSQL)).toBe(true)
+      expect(supportsQueryParameters(DatabaseType.SQLite)).toBe(true)
+      expect(supportsQueryParameters(DatabaseType.ClickHouse)).toBe(false)
+      expect(supportsQueryParameters(DatabaseType.Redis)).toBe(false)
+    })
+  })
+})
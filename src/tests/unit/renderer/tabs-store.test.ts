@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { setActivePinia, createPinia } from 'pinia';
 import { TabType, RoutineType } from '@/types/table';
+import { QueryParameterType } from '@/types/query';
 
 // Mock generateId so we can predict tab IDs
 let idCounter = 0;
@@ -275,6 +276,52 @@ describe('Tabs Store', () => {
     });
   });
 
+  describe('createSchemaCompareTab', () => {
+    it('should create a schema compare tab', () => {
+      const store = useTabsStore();
+      const tab = store.createSchemaCompareTab('conn-1', 'mydb');
+
+      expect(tab.data.type).toBe(TabType.SchemaCompare);
+      expect(tab.title).toBe('Schema Compare');
+      if (tab.data.type === TabType.SchemaCompare) {
+        expect(tab.data.database).toBe('mydb');
+      }
+    });
+
+    it('should reuse existing schema compare tab per connection', () => {
+      const store = useTabsStore();
+      const tab1 = store.createSchemaCompareTab('conn-1');
+      const tab2 = store.createSchemaCompareTab('conn-1');
+      store.createSchemaCompareTab('conn-2');
+
+      expect(tab1.id).toBe(tab2.id);
+      expect(store.tabs).toHaveLength(2);
+    });
+  });
+
+  describe('createDataCompareTab', () => {
+    it('should create a data compare tab', () => {
+      const store = useTabsStore();
+      const tab = store.createDataCompareTab('conn-1', 'mydb', 'public');
+
+      expect(tab.data.type).toBe(TabType.DataCompare);
+      expect(tab.title).toBe('Data Compare');
+      if (tab.data.type === TabType.DataCompare) {
+        expect(tab.data.database).toBe('mydb');
+        expect(tab.data.schema).toBe('public');
+      }
+    });
+
+    it('should reuse existing data compare tab per connection', () => {
+      const store = useTabsStore();
+      const tab1 = store.createDataCompareTab('conn-1');
+      const tab2 = store.createDataCompareTab('conn-1');
+
+      expect(tab1.id).toBe(tab2.id);
+      expect(store.tabs).toHaveLength(1);
+    });
+  });
+
   describe('createRoutineTab', () => {
     it('should create a routine tab for function', () => {
       const store = useTabsStore();
@@ -732,6 +779,69 @@ describe('Tabs Store', () => {
     });
   });
 
+  describe('saved query link', () => {
+    it('should link a query tab to a saved query with its parameter values', () => {
+      const store = useTabsStore();
+      const tab = store.createQueryTab('conn-1');
+      const values = { id: { type: QueryParameterType.Number, value: '1' } };
+
+      store.setTabSavedQuery(tab.id, 12, values);
+
+      if (store.tabs[0].data.type === TabType.Query) {
+        expect(store.tabs[0].data.savedQueryId).toBe(12);
+        expect(store.tabs[0].data.parameterValues).toEqual(values);
+      }
+    });
+
+    it('should replace the remembered parameter values', () => {
+      const store = useTabsStore();
+      const tab = store.createQueryTab('conn-1');
+      store.setTabParameterValues(tab.id, { a: { type: QueryParameterType.Text, value: 'x' } });
+
+      store.setTabParameterValues(tab.id, { b: { type: QueryParameterType.Null, value: '' } });
+
+      if (store.tabs[0].data.type === TabType.Query) {
+        expect(store.tabs[0].data.parameterValues).toEqual({ b: { type: QueryParameterType.Null, value: '' } });
+      }
+    });
+  });
+
+  describe('manual commit state', () => {
+    it('should toggle manual commit mode on a query tab', () => {
+      const store = useTabsStore();
+      const tab = store.createQueryTab('conn-1');
+
+      store.setTabManualCommit(tab.id, true);
+
+      if (store.tabs[0].data.type === TabType.Query) {
+        expect(store.tabs[0].data.manualCommit).toBe(true);
+      }
+    });
+
+    it('should track open transactions', () => {
+      const store = useTabsStore();
+      const tab1 = store.createQueryTab('conn-1');
+      store.createQueryTab('conn-1');
+
+      store.setTabInTransaction(tab1.id, true);
+
+      expect(store.openTransactionTabs.map((t) => t.id)).toEqual([tab1.id]);
+
+      store.setTabInTransaction(tab1.id, false);
+
+      expect(store.openTransactionTabs).toHaveLength(0);
+    });
+
+    it('should not affect non-query tabs', () => {
+      const store = useTabsStore();
+      const tab = store.createTableTab('conn-1', 'users');
+
+      store.setTabInTransaction(tab.id, true);
+
+      expect(store.openTransactionTabs).toHaveLength(0);
+    });
+  });
+
   describe('setTableView', () => {
     it('should set active view for table tab', () => {
       const store = useTabsStore();
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { setActivePinia, createPinia } from 'pinia';
+import { TabType } from '@/types/table';
+
+// Mock window.api.transaction
+const mockBegin = vi.fn();
+const mockCommit = vi.fn();
+const mockRollback = vi.fn();
+
+vi.stubGlobal('window', {
+  ...globalThis.window,
+  api: {
+    platform: 'darwin',
+    transaction: {
+      begin: mockBegin,
+      execute: vi.fn(),
+      executeMultiple: vi.fn(),
+      commit: mockCommit,
+      rollback: mockRollback,
+    },
+  },
+});
+
+import { useTabsStore } from '@/stores/tabs';
+import { useTransactionsStore } from '@/stores/transactions';
+
+const isInTransaction = (tabId: string): boolean => {
+  const tab = useTabsStore().tabs.find((t) => t.id === tabId);
+  return tab?.data.type === TabType.Query && !!tab.data.inTransaction;
+};
+
+describe('Transactions Store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    vi.clearAllMocks();
+    mockBegin.mockResolvedValue(true);
+    mockCommit.mockResolvedValue(true);
+    mockRollback.mockResolvedValue(true);
+  });
+
+  describe('begin / commit / rollback', () => {
+    it('should open a transaction keyed by the tab id', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+
+      await store.begin(tab.id);
+
+      expect(mockBegin).toHaveBeenCalledWith('conn-1', tab.id);
+      expect(isInTransaction(tab.id)).toBe(true);
+    });
+
+    it('should not mark the tab when begin fails', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      mockBegin.mockRejectedValueOnce(new Error('Not connected to database'));
+
+      await expect(store.begin(tab.id)).rejects.toThrow('Not connected to database');
+      expect(isInTransaction(tab.id)).toBe(false);
+    });
+
+    it('should commit and clear the open state', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      await store.begin(tab.id);
+
+      await store.commit(tab.id);
+
+      expect(mockCommit).toHaveBeenCalledWith(tab.id);
+      expect(isInTransaction(tab.id)).toBe(false);
+    });
+
+    it('should clear the open state even when commit fails', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      await store.begin(tab.id);
+      mockCommit.mockRejectedValueOnce(new Error('deferred constraint violated'));
+
+      await expect(store.commit(tab.id)).rejects.toThrow('deferred constraint violated');
+      expect(isInTransaction(tab.id)).toBe(false);
+    });
+
+    it('should roll back and clear the open state', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      await store.begin(tab.id);
+
+      await store.rollback(tab.id);
+
+      expect(mockRollback).toHaveBeenCalledWith(tab.id);
+      expect(isInTransaction(tab.id)).toBe(false);
+    });
+  });
+
+  describe('getConnectionTabIds', () => {
+    it('should return only tabs of the given connection', () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab1 = tabsStore.createQueryTab('conn-1');
+      tabsStore.createQueryTab('conn-2');
+      const tab3 = tabsStore.createTableTab('conn-1', 'users');
+
+      expect(store.getConnectionTabIds('conn-1')).toEqual([tab1.id, tab3.id]);
+    });
+  });
+
+  describe('runAfterSettling', () => {
+    it('should run the action immediately when no transaction is open', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      const action = vi.fn();
+
+      const promise = store.runAfterSettling([tab.id], action);
+
+      expect(action).toHaveBeenCalled();
+      expect(store.prompt).toBeNull();
+      await expect(promise).resolves.toBe(true);
+    });
+
+    it('should prompt for open transactions and run the action once settled', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab1 = tabsStore.createQueryTab('conn-1');
+      const tab2 = tabsStore.createQueryTab('conn-1');
+      await store.begin(tab1.id);
+      const action = vi.fn();
+
+      const promise = store.runAfterSettling([tab1.id, tab2.id], action);
+
+      expect(store.prompt).toEqual({ tabIds: [tab1.id] });
+      expect(action).not.toHaveBeenCalled();
+
+      store.resolveCurrentPrompt(true);
+
+      await expect(promise).resolves.toBe(true);
+      expect(action).toHaveBeenCalled();
+      expect(store.prompt).toBeNull();
+    });
+
+    it('should skip the action when the prompt is cancelled', async () => {
+      const tabsStore = useTabsStore();
+      const store = useTransactionsStore();
+      const tab = tabsStore.createQueryTab('conn-1');
+      await store.begin(tab.id);
+      const action = vi.fn();
+
+      const promise = store.runAfterSettling([tab.id], action);
+      store.resolveCurrentPrompt(false);
+
+      await expect(promise).resolves.toBe(false);
+      expect(action).not.toHaveBeenCalled();
+    });
+  });
+});
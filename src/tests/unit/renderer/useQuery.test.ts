@@ -4,7 +4,8 @@ import { useQuery } from '@/composables/useQuery';
 import { useConnectionsStore } from '@/stores/connections';
 import { useTabsStore } from '@/stores/tabs';
 import { DatabaseType } from '@/types/connection';
-import type { QueryResult, MultiQueryResult } from '@/types/query';
+import { TabType } from '@/types/table';
+import { QueryParameterType, ScriptErrorMode, ScriptStatementStatus, type QueryResult, type MultiQueryResult } from '@/types/query';
 
 // Mock window.api
 vi.stubGlobal('window', {
@@ -35,8 +36,18 @@ vi.stubGlobal('window', {
     query: {
       execute: vi.fn(),
       executeMultiple: vi.fn(),
+      executeWithCursor: vi.fn(),
+      fetchMore: vi.fn(),
+      closeCursor: vi.fn().mockResolvedValue(true),
       cancel: vi.fn(),
     },
+    transaction: {
+      begin: vi.fn().mockResolvedValue(true),
+      execute: vi.fn(),
+      executeMultiple: vi.fn(),
+      commit: vi.fn().mockResolvedValue(true),
+      rollback: vi.fn().mockResolvedValue(true),
+    },
     history: {
       add: vi.fn().mockResolvedValue(undefined),
       list: vi.fn().mockResolvedValue([]),
@@ -134,18 +145,18 @@ describe('useQuery', () => {
     it('should execute a single query and return result', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       const result = await executeQuery('SELECT 1');
 
       expect(result).toEqual(queryResult);
-      expect(window.api.query.execute).toHaveBeenCalledWith('conn-1', 'SELECT 1');
+      expect(window.api.query.executeWithCursor).toHaveBeenCalledWith('conn-1', 'SELECT 1', undefined, 'testdb');
     });
 
     it('should set isExecuting during execution', async () => {
       setupActiveConnection();
-      vi.mocked(window.api.query.execute).mockImplementation(
+      vi.mocked(window.api.query.executeWithCursor).mockImplementation(
         () => new Promise((resolve) => setTimeout(() => resolve(makeQueryResult()), 50))
       );
 
@@ -160,7 +171,7 @@ describe('useQuery', () => {
     it('should save successful query to history', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult({ executionTime: 100, rowCount: 5 });
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT * FROM users');
@@ -177,7 +188,7 @@ describe('useQuery', () => {
     it('should save failed query to history with error', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult({ error: 'syntax error', executionTime: 10 });
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery, error } = useQuery();
       await executeQuery('SELEC');
@@ -195,7 +206,7 @@ describe('useQuery', () => {
     it('should save to recents for successful SELECT queries', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT * FROM users');
@@ -206,7 +217,7 @@ describe('useQuery', () => {
     it('should not save to recents for non-SELECT queries', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult({ rowCount: 0 });
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('INSERT INTO users VALUES (1)');
@@ -219,7 +230,7 @@ describe('useQuery', () => {
       const tabsStore = useTabsStore();
       const tab = tabsStore.createQueryTab('conn-1', '');
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT 1', tab.id);
@@ -234,7 +245,7 @@ describe('useQuery', () => {
       const tabsStore = useTabsStore();
       const tab = tabsStore.createQueryTab('conn-1', '');
 
-      vi.mocked(window.api.query.execute).mockImplementation(
+      vi.mocked(window.api.query.executeWithCursor).mockImplementation(
         () => new Promise((resolve) => setTimeout(() => resolve(makeQueryResult()), 50))
       );
 
@@ -257,7 +268,7 @@ describe('useQuery', () => {
 
     it('should handle execution errors gracefully', async () => {
       setupActiveConnection();
-      vi.mocked(window.api.query.execute).mockRejectedValueOnce(new Error('Timeout'));
+      vi.mocked(window.api.query.executeWithCursor).mockRejectedValueOnce(new Error('Timeout'));
 
       const { executeQuery, error } = useQuery();
       const result = await executeQuery('SELECT 1');
@@ -268,7 +279,7 @@ describe('useQuery', () => {
 
     it('should handle non-Error exceptions', async () => {
       setupActiveConnection();
-      vi.mocked(window.api.query.execute).mockRejectedValueOnce('string error');
+      vi.mocked(window.api.query.executeWithCursor).mockRejectedValueOnce('string error');
 
       const { executeQuery, error } = useQuery();
       const result = await executeQuery('SELECT 1');
@@ -279,7 +290,7 @@ describe('useQuery', () => {
 
     it('should save failed query exception to history', async () => {
       setupActiveConnection();
-      vi.mocked(window.api.query.execute).mockRejectedValueOnce(new Error('Crash'));
+      vi.mocked(window.api.query.executeWithCursor).mockRejectedValueOnce(new Error('Crash'));
 
       const { executeQuery } = useQuery();
       await executeQuery('BAD QUERY');
@@ -306,79 +317,79 @@ describe('useQuery', () => {
       const { executeQuery } = useQuery();
       const result = await executeQuery('SELECT 1;\nSELECT 2;');
 
-      expect(window.api.query.executeMultiple).toHaveBeenCalledWith('conn-1', 'SELECT 1;\nSELECT 2;');
+      expect(window.api.query.executeMultiple).toHaveBeenCalledWith('conn-1', 'SELECT 1;\nSELECT 2;', undefined, 'testdb');
       expect(result).toEqual(multiResult.results[0]);
     });
 
     it('should treat a single statement with trailing semicolon as single', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT 1;');
 
-      expect(window.api.query.execute).toHaveBeenCalledWith('conn-1', 'SELECT 1;');
+      expect(window.api.query.executeWithCursor).toHaveBeenCalledWith('conn-1', 'SELECT 1;', undefined, 'testdb');
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
     it('should ignore semicolons inside single-quoted strings', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery("SELECT 'a;b' FROM t");
 
-      expect(window.api.query.execute).toHaveBeenCalled();
+      expect(window.api.query.executeWithCursor).toHaveBeenCalled();
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
     it('should ignore semicolons inside double-quoted identifiers', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT "col;name" FROM t');
 
-      expect(window.api.query.execute).toHaveBeenCalled();
+      expect(window.api.query.executeWithCursor).toHaveBeenCalled();
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
     it('should ignore semicolons inside backtick-quoted identifiers', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT `col;name` FROM t');
 
-      expect(window.api.query.execute).toHaveBeenCalled();
+      expect(window.api.query.executeWithCursor).toHaveBeenCalled();
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
     it('should ignore semicolons inside line comments', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT 1 -- comment; here\nFROM t');
 
-      expect(window.api.query.execute).toHaveBeenCalled();
+      expect(window.api.query.executeWithCursor).toHaveBeenCalled();
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
     it('should ignore semicolons inside block comments', async () => {
       setupActiveConnection();
       const queryResult = makeQueryResult();
-      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(queryResult);
 
       const { executeQuery } = useQuery();
       await executeQuery('SELECT 1 /* comment; here */ FROM t');
 
-      expect(window.api.query.execute).toHaveBeenCalled();
+      expect(window.api.query.executeWithCursor).toHaveBeenCalled();
       expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
     });
 
@@ -410,6 +421,39 @@ describe('useQuery', () => {
       }
     });
 
+    it('should run a script in the tab\'s error mode', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabScriptErrorMode(tab.id, ScriptErrorMode.Stop);
+      vi.mocked(window.api.query.executeMultiple).mockResolvedValue({ results: [makeQueryResult()], totalExecutionTime: 1 });
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT 1;\nSELECT 2;', tab.id);
+
+      expect(window.api.query.executeMultiple).toHaveBeenCalledWith('conn-1', 'SELECT 1;\nSELECT 2;', ScriptErrorMode.Stop, 'testdb');
+    });
+
+    it('should move statement offsets to where a selection starts in the editor', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      const multiResult: MultiQueryResult = {
+        results: [
+          makeQueryResult({ statement: { sql: 'SELECT 1', offset: 0, status: ScriptStatementStatus.Succeeded } }),
+          makeQueryResult({ statement: { sql: 'SELECT 2', offset: 10, status: ScriptStatementStatus.Succeeded } }),
+        ],
+        totalExecutionTime: 2,
+      };
+      vi.mocked(window.api.query.executeMultiple).mockResolvedValue(multiResult);
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT 1;\nSELECT 2;', tab.id, undefined, 40);
+
+      const updatedTab = tabsStore.tabs.find((t) => t.id === tab.id);
+      expect(updatedTab?.data.type === TabType.Query && updatedTab.data.results?.map((r) => r.statement?.offset)).toEqual([40, 50]);
+    });
+
     it('should report first error from multi-query results', async () => {
       setupActiveConnection();
       const multiResult: MultiQueryResult = {
@@ -476,6 +520,267 @@ describe('useQuery', () => {
     });
   });
 
+  describe('manual commit mode', () => {
+    it('should open a transaction on the first statement and run it on the tab session', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabManualCommit(tab.id, true);
+      const queryResult = makeQueryResult({ rows: [], rowCount: 0, affectedRows: 1 });
+      vi.mocked(window.api.transaction.execute).mockResolvedValueOnce(queryResult);
+
+      const { executeQuery } = useQuery();
+      const result = await executeQuery('UPDATE users SET active = 1', tab.id);
+
+      expect(result).toEqual(queryResult);
+      expect(window.api.transaction.begin).toHaveBeenCalledWith('conn-1', tab.id);
+      expect(window.api.transaction.execute).toHaveBeenCalledWith(tab.id, 'UPDATE users SET active = 1');
+      expect(window.api.query.executeWithCursor).not.toHaveBeenCalled();
+      if (tabsStore.tabs[0].data.type === TabType.Query) {
+        expect(tabsStore.tabs[0].data.inTransaction).toBe(true);
+      }
+    });
+
+    it('should reuse the open transaction for later statements', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabManualCommit(tab.id, true);
+      tabsStore.setTabInTransaction(tab.id, true);
+      vi.mocked(window.api.transaction.execute).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT 1', tab.id);
+
+      expect(window.api.transaction.begin).not.toHaveBeenCalled();
+      expect(window.api.transaction.execute).toHaveBeenCalledWith(tab.id, 'SELECT 1');
+    });
+
+    it('should run multiple statements on the tab session', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabManualCommit(tab.id, true);
+      const multiResult: MultiQueryResult = {
+        results: [makeQueryResult(), makeQueryResult()],
+        totalExecutionTime: 10,
+      };
+      vi.mocked(window.api.transaction.executeMultiple).mockResolvedValueOnce(multiResult);
+
+      const { executeQuery } = useQuery();
+      await executeQuery('DELETE FROM a;\nDELETE FROM b;', tab.id);
+
+      expect(window.api.transaction.executeMultiple).toHaveBeenCalledWith(tab.id, 'DELETE FROM a;\nDELETE FROM b;', undefined);
+      expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
+    });
+
+    it('should report an error when the transaction cannot be opened', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabManualCommit(tab.id, true);
+      vi.mocked(window.api.transaction.begin).mockRejectedValueOnce(new Error('Not connected to database'));
+
+      const { executeQuery, error } = useQuery();
+      const result = await executeQuery('UPDATE users SET active = 1', tab.id);
+
+      expect(result).toBeNull();
+      expect(error.value).toBe('Not connected to database');
+      expect(window.api.transaction.execute).not.toHaveBeenCalled();
+    });
+
+    it('should use the shared connection when manual commit is off', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT 1', tab.id);
+
+      expect(window.api.query.executeWithCursor).toHaveBeenCalledWith('conn-1', 'SELECT 1', undefined, 'testdb');
+      expect(window.api.transaction.begin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parameterized queries', () => {
+    it('should bind named parameters as $n for PostgreSQL', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT * FROM users WHERE id = :id AND status = :status', undefined, {
+        id: { type: QueryParameterType.Number, value: '7' },
+        status: { type: QueryParameterType.Text, value: 'active' },
+      });
+
+      expect(window.api.query.executeWithCursor).toHaveBeenCalledWith(
+        'conn-1',
+        'SELECT * FROM users WHERE id = $1 AND status = $2',
+        [7, 'active'],
+        'testdb'
+      );
+    });
+
+    it('should bind parameters as ? for MySQL', async () => {
+      setupActiveConnection(DatabaseType.MySQL);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT * FROM users WHERE id = :id OR parent_id = :id', undefined, {
+        id: { type: QueryParameterType.Number, value: '3' },
+      });
+
+      expect(window.api.query.executeWithCursor).toHaveBeenCalledWith(
+        'conn-1',
+        'SELECT * FROM users WHERE id = ? OR parent_id = ?',
+        [3, 3],
+        'testdb'
+      );
+    });
+
+    it('should record the SQL as written in history', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT * FROM users WHERE id = :id', undefined, {
+        id: { type: QueryParameterType.Number, value: '1' },
+      });
+
+      expect(window.api.history.add).toHaveBeenCalledWith(
+        'conn-1',
+        'SELECT * FROM users WHERE id = :id',
+        50,
+        1,
+        undefined
+      );
+    });
+
+    it('should run parameters on the tab session in manual commit mode', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabManualCommit(tab.id, true);
+      vi.mocked(window.api.transaction.execute).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('DELETE FROM users WHERE id = $1', tab.id, {
+        $1: { type: QueryParameterType.Number, value: '9' },
+      });
+
+      expect(window.api.transaction.execute).toHaveBeenCalledWith(tab.id, 'DELETE FROM users WHERE id = $1', [9]);
+    });
+
+    it('should report invalid values on the tab without executing', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+
+      const { executeQuery, error } = useQuery();
+      const result = await executeQuery('SELECT * FROM users LIMIT :n', tab.id, {
+        n: { type: QueryParameterType.Number, value: 'ten' },
+      });
+
+      expect(result).toBeNull();
+      expect(error.value).toBe('Parameter :n must be a number');
+      expect(window.api.query.executeWithCursor).not.toHaveBeenCalled();
+      if (tabsStore.tabs[0].data.type === TabType.Query) {
+        expect(tabsStore.tabs[0].data.result?.error).toBe('Parameter :n must be a number');
+      }
+    });
+
+    it('should refuse parameters for multiple statements', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+
+      const { executeQuery, error } = useQuery();
+      await executeQuery('DELETE FROM a WHERE id = :id;\nDELETE FROM b WHERE id = :id;', undefined, {
+        id: { type: QueryParameterType.Number, value: '1' },
+      });
+
+      expect(error.value).toBe('Bound parameters can only be used with a single statement');
+      expect(window.api.query.executeMultiple).not.toHaveBeenCalled();
+    });
+
+    it('should refuse parameters for engines without bound parameter support', async () => {
+      setupActiveConnection(DatabaseType.ClickHouse);
+
+      const { executeQuery, error } = useQuery();
+      await executeQuery('SELECT :x', undefined, { x: { type: QueryParameterType.Text, value: 'a' } });
+
+      expect(error.value).toBe('Bound parameters are not supported for clickhouse connections');
+      expect(window.api.query.executeWithCursor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('result cursors', () => {
+    const openCursorResult = () =>
+      makeQueryResult({ rows: [{ id: 1 }, { id: 2 }], rowCount: 2, truncated: true, cursorId: 'cursor-1' });
+
+    it('should append fetched rows and keep the cursor while more remain', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabResult(tab.id, openCursorResult());
+      vi.mocked(window.api.query.fetchMore).mockResolvedValueOnce({ rows: [{ id: 3 }, { id: 4 }], hasMore: true });
+
+      const { fetchMoreRows } = useQuery();
+      await fetchMoreRows(tab.id);
+
+      const result = tabsStore.tabs.find((t) => t.id === tab.id)?.data.result;
+      expect(window.api.query.fetchMore).toHaveBeenCalledWith('cursor-1');
+      expect(result?.rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }]);
+      expect(result?.rowCount).toBe(4);
+      expect(result?.cursorId).toBe('cursor-1');
+      expect(result?.truncated).toBe(true);
+    });
+
+    it('should drop the cursor and the truncated flag once the last batch is read', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabResult(tab.id, openCursorResult());
+      vi.mocked(window.api.query.fetchMore).mockResolvedValueOnce({ rows: [{ id: 3 }], hasMore: false });
+
+      const { fetchMoreRows } = useQuery();
+      await fetchMoreRows(tab.id);
+
+      const result = tabsStore.tabs.find((t) => t.id === tab.id)?.data.result;
+      expect(result?.rowCount).toBe(3);
+      expect(result?.cursorId).toBeUndefined();
+      expect(result?.truncated).toBeUndefined();
+    });
+
+    it('should keep the rows read so far when a fetch fails', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabResult(tab.id, openCursorResult());
+      vi.mocked(window.api.query.fetchMore).mockRejectedValueOnce(new Error('The cursor is closed; run the query again'));
+
+      const { fetchMoreRows, error } = useQuery();
+      await fetchMoreRows(tab.id);
+
+      const result = tabsStore.tabs.find((t) => t.id === tab.id)?.data.result;
+      expect(error.value).toBe('The cursor is closed; run the query again');
+      expect(result?.rowCount).toBe(2);
+      expect(result?.cursorId).toBeUndefined();
+    });
+
+    it('should close the previous cursor before running the next query', async () => {
+      setupActiveConnection();
+      const tabsStore = useTabsStore();
+      const tab = tabsStore.createQueryTab('conn-1', '');
+      tabsStore.setTabResult(tab.id, openCursorResult());
+      vi.mocked(window.api.query.executeWithCursor).mockResolvedValueOnce(makeQueryResult());
+
+      const { executeQuery } = useQuery();
+      await executeQuery('SELECT 1', tab.id);
+
+      expect(window.api.query.closeCursor).toHaveBeenCalledWith('cursor-1');
+    });
+  });
+
   describe('cancelQuery', () => {
     it('should return false when no active connection', async () => {
       const { cancelQuery } = useQuery();
@@ -629,6 +934,23 @@ describe('useQuery', () => {
       );
     });
 
+    it('should generate a PostgreSQL generic plan for a statement with placeholders', async () => {
+      setupActiveConnection(DatabaseType.PostgreSQL);
+      const queryResult = makeQueryResult({
+        columns: [{ name: 'QUERY PLAN', type: 'text', nullable: false }],
+        rows: [{ 'QUERY PLAN': '{"Plan": {"Node Type": "Index Scan"}}' }],
+      });
+      vi.mocked(window.api.query.execute).mockResolvedValueOnce(queryResult);
+
+      const { explainQuery } = useQuery();
+      await explainQuery('SELECT * FROM users WHERE id = $1', undefined, false, true);
+
+      expect(window.api.query.execute).toHaveBeenCalledWith(
+        'conn-1',
+        'EXPLAIN (GENERIC_PLAN, COSTS, VERBOSE, FORMAT JSON) SELECT * FROM users WHERE id = $1'
+      );
+    });
+
     it('should generate MySQL EXPLAIN query', async () => {
       setupActiveConnection(DatabaseType.MySQL);
       const queryResult = makeQueryResult({
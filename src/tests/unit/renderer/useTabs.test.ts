@@ -4,6 +4,7 @@ import { useTabs } from '@/composables/useTabs';
 import { useTabsStore } from '@/stores/tabs';
 import { useConnectionsStore } from '@/stores/connections';
 import { RoutineType, TabType } from '@/types/table';
+import { QueryParameterType } from '@/types/query';
 
 // Mock window.api
 vi.stubGlobal('window', {
@@ -161,6 +162,35 @@ describe('useTabs', () => {
     });
   });
 
+  describe('openSavedQueryTab', () => {
+    const savedQuery = {
+      id: 4,
+      name: 'Active users',
+      sql: 'SELECT * FROM users WHERE status = :status',
+      parameterValues: { status: { type: QueryParameterType.Text, value: 'active' } },
+      createdAt: '2024-01-01',
+      updatedAt: '2024-01-01',
+    };
+
+    it('should return null when no active connection', () => {
+      const { openSavedQueryTab } = useTabs();
+      expect(openSavedQueryTab(savedQuery)).toBeNull();
+    });
+
+    it('should open a tab titled after the query and linked to it', () => {
+      setupActiveConnection();
+      const { openSavedQueryTab } = useTabs();
+      const tab = openSavedQueryTab(savedQuery);
+
+      expect(tab!.title).toBe('Active users');
+      if (tab && tab.data.type === TabType.Query) {
+        expect(tab.data.sql).toBe(savedQuery.sql);
+        expect(tab.data.savedQueryId).toBe(4);
+        expect(tab.data.parameterValues).toEqual(savedQuery.parameterValues);
+      }
+    });
+  });
+
   describe('openTableTab', () => {
     it('should return null when no active connection', () => {
       const { openTableTab } = useTabs();